@@ -12,6 +12,7 @@ import SimpleFooter from "@/components/SimpleFooter";
 import HomeConsumerRedesigned from "@/pages/HomeConsumerRedesigned";
 import TripPlanner from "@/pages/TripPlanner";
 import SimpleShare from "@/pages/SimpleShare";
+import TripJournal from "@/pages/TripJournal";
 import TripOptimizer from "@/pages/TripOptimizer";
 import ProfileSettings from "@/pages/ProfileSettings";
 import HelpCenter from "@/pages/HelpCenter";
@@ -95,9 +96,11 @@ function Router() {
           <Route path="/login" component={LoginRedirect} />
           <Route path="/signup" component={SignupRedirect} />
           <Route path="/explore" component={Explore} />
+          <Route path="/trip/:id/journal" component={TripJournal} />
           <Route path="/trip/:id" component={TripPlanner} />
           <Route path="/trip-planner/:id" component={TripPlanner} />
           <Route path="/trip-planner" component={TripPlanner} />
+          <Route path="/share/:shareCode/journal" component={TripJournal} />
           <Route path="/share/:shareCode" component={SimpleShare} />
 
           {/* Travel features */}
@@ -8,21 +8,29 @@ import {
   Loader2,
   MapPin,
   Calendar,
-  Clock,
   Plus,
   User,
-  Bot
+  Bot,
+  Check,
+  X,
+  Trash2,
+  MoveRight,
+  Hotel,
+  Wallet
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { motion, AnimatePresence } from 'framer-motion';
 import { format } from 'date-fns';
+import { API_ENDPOINTS } from '@/lib/constants';
+import { AssistantChange, AssistantChangeset } from '@/lib/types';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
-  activities?: any[];
+  changeset?: AssistantChangeset;
+  changesetStatus?: 'pending' | 'applying' | 'applied' | 'dismissed';
   suggestions?: string[];
 }
 
@@ -30,20 +38,30 @@ interface AITripChatProps {
   tripId: string;
   tripDetails?: any;
   onAddActivity?: (activity: any) => void;
-  onUpdateItinerary?: (activities: any[]) => void;
+  onChangesApplied?: () => void;
 }
 
-export default function AITripChat({ tripId, tripDetails, onAddActivity, onUpdateItinerary }: AITripChatProps) {
+const CHANGE_ICONS: Record<AssistantChange['action']['type'], typeof Plus> = {
+  add_activity: Plus,
+  move_activity: MoveRight,
+  delete_activity: Trash2,
+  set_hotel: Hotel,
+  adjust_budget: Wallet,
+};
+
+export default function AITripChat({ tripId, tripDetails, onAddActivity, onChangesApplied }: AITripChatProps) {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: '1',
       role: 'assistant',
       content: `Hi! I'm your AI travel assistant. I can help you:
 
-• Add activities to your trip
-• Optimize your schedule
+• Add, move or remove activities
+• Set your hotel or adjust your budget
 • Find restaurants and attractions
-• Answer questions about your destination
+• Check the weather for your trip
+
+I'll suggest changes for you to review before anything is updated.
 
 What would you like to do?`,
       timestamp: new Date(),
@@ -88,7 +106,7 @@ What would you like to do?`,
           trip_id: tripId,
           question: input,
           trip_context: tripDetails,
-          conversation_history: messages.slice(-5), // Last 5 messages for context
+          conversation_history: messages.slice(-5).map(m => ({ role: m.role, content: m.content })), // Last 5 messages for context
         }),
       });
 
@@ -101,16 +119,12 @@ What would you like to do?`,
         role: 'assistant',
         content: data.answer || data.message,
         timestamp: new Date(),
-        activities: data.activities,
+        changeset: data.changeset || undefined,
+        changesetStatus: data.changeset ? 'pending' : undefined,
         suggestions: data.suggestions,
       };
 
       setMessages(prev => [...prev, assistantMessage]);
-
-      // If activities were parsed, offer to add them
-      if (data.activities && data.activities.length > 0) {
-        handleParsedActivities(data.activities);
-      }
     } catch (error) {
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
@@ -125,35 +139,42 @@ What would you like to do?`,
     }
   };
 
-  const handleParsedActivities = (activities: any[]) => {
-    // Show a special message with parsed activities
-    const confirmMessage: Message = {
-      id: (Date.now() + 2).toString(),
-      role: 'assistant',
-      content: `I found ${activities.length} activities in your itinerary. Would you like me to add them to your trip?`,
-      timestamp: new Date(),
-      activities,
-    };
-
-    setMessages(prev => [...prev, confirmMessage]);
+  const setChangesetStatus = (messageId: string, changesetStatus: Message['changesetStatus']) => {
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, changesetStatus } : m));
   };
 
-  const handleAddParsedActivities = async (activities: any[]) => {
-    if (onUpdateItinerary) {
-      onUpdateItinerary(activities);
-
-      const successMessage: Message = {
-        id: Date.now().toString(),
-        role: 'assistant',
-        content: `Great! I've added ${activities.length} activities to your trip. You can see them in your itinerary.`,
-        timestamp: new Date(),
-      };
+  // Nothing is changed until the user applies the proposed changes
+  const handleApplyChangeset = async (message: Message) => {
+    if (!message.changeset) return;
+    setChangesetStatus(message.id, 'applying');
 
-      setMessages(prev => [...prev, successMessage]);
+    try {
+      const response = await fetch(API_ENDPOINTS.AI.APPLY_ASSISTANT_CHANGES, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({
+          trip_id: message.changeset.tripId,
+          actions: message.changeset.changes.map(change => change.action),
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to apply changes');
 
+      setChangesetStatus(message.id, 'applied');
+      onChangesApplied?.();
+      toast({
+        title: 'Trip updated',
+        description: `${message.changeset.changes.length} change${message.changeset.changes.length === 1 ? '' : 's'} applied.`,
+      });
+    } catch (error) {
+      setChangesetStatus(message.id, 'pending');
       toast({
-        title: 'Activities added!',
-        description: `${activities.length} activities have been added to your trip.`,
+        title: 'Could not apply changes',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
       });
     }
   };
@@ -209,46 +230,52 @@ What would you like to do?`,
                   <p className="text-sm whitespace-pre-wrap">{message.content}</p>
                 </div>
 
-                {/* Show parsed activities */}
-                {message.activities && message.activities.length > 0 && (
+                {/* Show proposed changes */}
+                {message.changeset && message.changeset.changes.length > 0 && (
                   <div className="mt-2 space-y-2">
-                    <div className="text-sm text-muted-foreground">Found activities:</div>
-                    {message.activities.slice(0, 3).map((activity, idx) => (
-                      <div key={idx} className="bg-white dark:bg-slate-900 rounded-lg p-3 border text-sm">
-                        <div className="flex items-start justify-between">
-                          <div>
-                            <div className="font-medium">{activity.title}</div>
-                            <div className="text-muted-foreground flex items-center gap-2 mt-1">
-                              {activity.time && (
-                                <span className="flex items-center gap-1">
-                                  <Clock className="w-3 h-3" />
-                                  {activity.time}
-                                </span>
-                              )}
-                              {activity.locationName && (
-                                <span className="flex items-center gap-1">
-                                  <MapPin className="w-3 h-3" />
-                                  {activity.locationName}
-                                </span>
-                              )}
-                            </div>
-                          </div>
+                    <div className="text-sm text-muted-foreground">Proposed changes:</div>
+                    {message.changeset.changes.map((change, idx) => {
+                      const Icon = CHANGE_ICONS[change.action.type] || Plus;
+                      return (
+                        <div key={idx} className="bg-white dark:bg-slate-900 rounded-lg p-3 border text-sm flex items-start gap-2">
+                          <Icon className="w-4 h-4 mt-0.5 text-purple-600 flex-shrink-0" />
+                          <span className={message.changesetStatus === 'dismissed' ? 'line-through text-muted-foreground' : ''}>
+                            {change.description}
+                          </span>
                         </div>
+                      );
+                    })}
+                    {message.changesetStatus === 'applied' ? (
+                      <div className="text-sm text-green-600 flex items-center gap-1">
+                        <Check className="w-4 h-4" />
+                        Applied to your trip
                       </div>
-                    ))}
-                    {message.activities.length > 3 && (
-                      <div className="text-sm text-muted-foreground">
-                        ...and {message.activities.length - 3} more
+                    ) : message.changesetStatus === 'dismissed' ? (
+                      <div className="text-sm text-muted-foreground">Dismissed</div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleApplyChangeset(message)}
+                          disabled={message.changesetStatus === 'applying'}
+                          className="flex-1"
+                        >
+                          {message.changesetStatus === 'applying'
+                            ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            : <Check className="w-4 h-4 mr-2" />}
+                          Apply changes
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setChangesetStatus(message.id, 'dismissed')}
+                          disabled={message.changesetStatus === 'applying'}
+                        >
+                          <X className="w-4 h-4 mr-2" />
+                          Dismiss
+                        </Button>
                       </div>
                     )}
-                    <Button
-                      size="sm"
-                      onClick={() => handleAddParsedActivities(message.activities!)}
-                      className="w-full"
-                    >
-                      <Plus className="w-4 h-4 mr-2" />
-                      Add all to trip
-                    </Button>
                   </div>
                 )}
 
@@ -1,6 +1,15 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { API_ENDPOINTS } from '@/lib/constants';
+import {
+  GenerationCancelledError,
+  GenerationHandlers,
+  cancelGeneration,
+  resumeGeneration,
+  streamGeneration,
+} from '@/lib/generationStream';
+import type { GenerationProgress } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -59,6 +68,7 @@ interface Hotel {
 }
 
 interface Activity {
+  date?: string;
   time?: string;
   title: string;
   location?: string;
@@ -102,6 +112,9 @@ interface GeneratedTrip {
   };
 }
 
+// A trip generation still running when the page was reloaded
+const GENERATION_JOB_KEY = 'ai_trip_generation_job';
+
 interface ConversationItem {
   role: string;
   content: string;
@@ -116,6 +129,9 @@ export default function AITripGenerator() {
   const [assistantMessage, setAssistantMessage] = useState('');
   const [clientEmail, setClientEmail] = useState('');
   const [showClientForm, setShowClientForm] = useState(false);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const [streamedActivities, setStreamedActivities] = useState<Activity[]>([]);
+  const jobIdRef = useRef<string | null>(null);
   const { toast } = useToast();
 
   const createItineraryMutation = useMutation({
@@ -183,50 +199,40 @@ export default function AITripGenerator() {
     shareItineraryMutation.mutate(trackingCode);
   };
 
+  // Follow a streamed generation, keeping the job id so a reload can resume it
+  const generationHandlers: GenerationHandlers = {
+    onJob: jobId => {
+      jobIdRef.current = jobId;
+      sessionStorage.setItem(GENERATION_JOB_KEY, jobId);
+    },
+    onProgress: setProgress,
+    onActivities: batch => setStreamedActivities(prev => [...prev, ...batch.activities]),
+  };
+
   const generateTripMutation = useMutation({
-    mutationFn: async (userPrompt: string) => {
-      // Use a longer timeout for trip generation (60 seconds)
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
-      
+    mutationFn: async (request: string | { resumeJobId: string }) => {
+      setProgress(null);
+      setStreamedActivities([]);
       try {
-        const token = localStorage.getItem('token');
-        const response = await fetch('/api/ai/generate-trip', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            ...(token ? { 'Authorization': `Bearer ${token}` } : {})
-          },
-          body: JSON.stringify({
-            prompt: userPrompt,
-            conversation,
-            tripId: null
-          }),
-          signal: controller.signal
-        });
-        
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-          const error = await response.text();
-          throw new Error(error || 'Failed to generate trip');
+        if (typeof request !== 'string') {
+          return await resumeGeneration<GeneratedTrip>(request.resumeJobId, generationHandlers);
         }
-        
-        return response.json();
-      } catch (error: any) {
-        clearTimeout(timeoutId);
-        if (error.name === 'AbortError') {
-          throw new Error('Request timed out. This trip is taking longer than expected. Please try again with a shorter trip duration.');
-        }
-        throw error;
+        return await streamGeneration<GeneratedTrip>(API_ENDPOINTS.AI.GENERATE_TRIP, {
+          prompt: request,
+          conversation,
+          tripId: null
+        }, generationHandlers);
+      } finally {
+        jobIdRef.current = null;
+        sessionStorage.removeItem(GENERATION_JOB_KEY);
       }
     },
     onSuccess: (data) => {
       if (data.type === 'questions') {
         // Assistant needs more information
         setShowQuestions(true);
-        setAssistantMessage(data.message);
-        setConversation(data.conversation);
+        setAssistantMessage(data.message || '');
+        setConversation(data.conversation || []);
         setIsGenerating(false);
       } else {
         // Complete trip generated
@@ -236,6 +242,14 @@ export default function AITripGenerator() {
       }
     },
     onError: (error: any) => {
+      setIsGenerating(false);
+      if (error instanceof GenerationCancelledError) {
+        toast({
+          title: "Generation cancelled",
+          description: "You can change your request and try again.",
+        });
+        return;
+      }
       console.error('Trip generation error:', error);
       toast({
         title: "Error",
@@ -246,6 +260,21 @@ export default function AITripGenerator() {
     }
   });
 
+  // Pick up a generation that was still running when the page was reloaded
+  useEffect(() => {
+    const jobId = sessionStorage.getItem(GENERATION_JOB_KEY);
+    if (jobId) {
+      setIsGenerating(true);
+      generateTripMutation.mutate({ resumeJobId: jobId });
+    }
+  }, []);
+
+  const handleCancelGeneration = () => {
+    if (jobIdRef.current) {
+      cancelGeneration(jobIdRef.current);
+    }
+  };
+
   const handleGenerateTrip = () => {
     if (!prompt.trim()) return;
     setIsGenerating(true);
@@ -365,7 +394,7 @@ export default function AITripGenerator() {
               {isGenerating ? (
                 <>
                   <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                  <span>Creating your trip (this may take 30-60 seconds for longer trips)...</span>
+                  <span>{progress?.message || 'Creating your trip...'}</span>
                 </>
               ) : (
                 <>
@@ -376,7 +405,33 @@ export default function AITripGenerator() {
             </Button>
           </div>
 
-          {generateTripMutation.error && (
+          {isGenerating && (
+            <div className="space-y-3 rounded-lg border border-purple-100 bg-purple-50 p-4">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-purple-700">
+                  {progress?.day && progress.totalDays
+                    ? `Day ${Math.min(progress.day, progress.totalDays)} of ${progress.totalDays}`
+                    : 'Getting started'}
+                </span>
+                <Button variant="ghost" size="sm" onClick={handleCancelGeneration}>
+                  Cancel
+                </Button>
+              </div>
+              {streamedActivities.length > 0 && (
+                <ul className="max-h-48 space-y-1 overflow-y-auto text-sm text-gray-700">
+                  {streamedActivities.map((activity, index) => (
+                    <li key={index} className="flex items-center space-x-2">
+                      <Clock className="w-3 h-3 text-purple-500" />
+                      <span className="text-gray-500">{activity.date} {activity.time}</span>
+                      <span className="truncate">{activity.title}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {generateTripMutation.error && !(generateTripMutation.error instanceof GenerationCancelledError) && (
             <Alert variant="destructive">
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
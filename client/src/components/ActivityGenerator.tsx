@@ -3,6 +3,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Loader2, Sparkles, CheckCircle, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { useGenerateFullItinerary } from '@/hooks/useGenerateFullItinerary';
 
 interface ActivityGeneratorProps {
   tripId: string;
@@ -11,13 +13,13 @@ interface ActivityGeneratorProps {
 
 export default function ActivityGenerator({ tripId, onActivitiesGenerated }: ActivityGeneratorProps) {
   const [isGenerating, setIsGenerating] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [currentDay, setCurrentDay] = useState(1);
+  const [initialProgress, setInitialProgress] = useState(0);
   const [totalDays, setTotalDays] = useState(0);
   const [activitiesCreated, setActivitiesCreated] = useState(0);
+  const [finished, setFinished] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const itinerary = useGenerateFullItinerary(parseInt(tripId));
 
   useEffect(() => {
     // Check if we need to generate activities
@@ -28,16 +30,20 @@ export default function ActivityGenerator({ tripId, onActivitiesGenerated }: Act
       const tripMetadata = JSON.parse(metadata);
       startGeneration(tripMetadata);
     }
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
   }, [tripId]);
 
+  // A generation resumed after a reload reports back like a fresh one
+  const wasGenerating = useRef(false);
+  useEffect(() => {
+    if (wasGenerating.current && !itinerary.isGenerating && !isGenerating && onActivitiesGenerated) {
+      onActivitiesGenerated();
+    }
+    wasGenerating.current = itinerary.isGenerating;
+  }, [itinerary.isGenerating]);
+
   const startGeneration = async (metadata: any) => {
     setIsGenerating(true);
+    setFinished(false);
     setError(null);
     
     // Calculate total days
@@ -52,8 +58,14 @@ export default function ActivityGenerator({ tripId, onActivitiesGenerated }: Act
         await createInitialActivities(metadata.initialActivities, metadata);
       }
       
-      // Then generate the full itinerary
-      await generateFullItinerary(days);
+      // Then generate the full itinerary, streaming day by day
+      const generated = await itinerary.generateFullItinerary({
+        tripId: parseInt(tripId),
+        startDate: metadata.startDate,
+        endDate: metadata.endDate,
+      });
+      setActivitiesCreated(prev => prev + generated);
+      setFinished(true);
       
       // Clean up localStorage
       localStorage.removeItem(`trip_${tripId}_generating`);
@@ -64,11 +76,6 @@ export default function ActivityGenerator({ tripId, onActivitiesGenerated }: Act
         onActivitiesGenerated();
       }
       
-      toast({
-        title: "✨ Itinerary Complete!",
-        description: `Created ${activitiesCreated} activities for your ${days}-day trip`,
-      });
-      
       // Hide the generator after a short delay
       setTimeout(() => {
         setIsGenerating(false);
@@ -137,7 +144,7 @@ export default function ActivityGenerator({ tripId, onActivitiesGenerated }: Act
         if (response.ok) {
           created++;
           setActivitiesCreated(prev => prev + 1);
-          setProgress((created / activities.length) * 30); // First 30% for initial activities
+          setInitialProgress((created / activities.length) * 30); // First 30% for initial activities
         }
       } catch (error) {
         console.error('Error creating activity:', error);
@@ -145,69 +152,16 @@ export default function ActivityGenerator({ tripId, onActivitiesGenerated }: Act
     }
   };
 
-  const generateFullItinerary = async (days: number) => {
-    const BATCH_SIZE = 3; // Generate 3 days at a time
-    const totalBatches = Math.ceil(days / BATCH_SIZE);
-    
-    // Start polling for activities
-    let pollCount = 0;
-    const maxPolls = 60; // Max 60 seconds
-    
-    // Start the generation
-    const genResponse = await fetch('/api/ai/generate-full-itinerary', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${localStorage.getItem('token')}`
-      },
-      body: JSON.stringify({ trip_id: parseInt(tripId) })
-    });
-    
-    if (!genResponse.ok) {
-      throw new Error('Failed to start generation');
-    }
-    
-    // Poll for new activities
-    intervalRef.current = setInterval(async () => {
-      pollCount++;
-      
-      try {
-        const response = await fetch(`/api/trips/${tripId}/activities`, {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('token')}`
-          }
-        });
-        
-        if (response.ok) {
-          const activities = await response.json();
-          const currentCount = activities.length;
-          
-          // Update progress
-          const expectedActivities = days * 3;
-          const progressPercent = Math.min(30 + (currentCount / expectedActivities) * 70, 100);
-          setProgress(progressPercent);
-          setActivitiesCreated(currentCount);
-          
-          // Update current day being processed
-          const dayBeingProcessed = Math.min(Math.ceil(currentCount / 3), days);
-          setCurrentDay(dayBeingProcessed);
-          
-          // Check if we have enough activities or timeout
-          if (currentCount >= expectedActivities || pollCount >= maxPolls) {
-            if (intervalRef.current) {
-              clearInterval(intervalRef.current);
-              intervalRef.current = null;
-            }
-            setProgress(100);
-          }
-        }
-      } catch (error) {
-        console.error('Error polling activities:', error);
-      }
-    }, 1000); // Poll every second
-  };
+  // First 30% for initial activities, the rest day by day as the itinerary streams in
+  const streamed = itinerary.progress;
+  const days = streamed?.totalDays || totalDays;
+  const currentDay = streamed?.day || 1;
+  const progress = finished
+    ? 100
+    : Math.min(initialProgress + (streamed?.day && days ? (streamed.day / days) * 70 : 0), 99);
+  const planned = itinerary.plannedActivities;
 
-  if (!isGenerating) return null;
+  if (!isGenerating && !itinerary.isGenerating) return null;
 
   return (
     <AnimatePresence>
@@ -233,17 +187,34 @@ export default function ActivityGenerator({ tripId, onActivitiesGenerated }: Act
               <p className="text-sm text-gray-600">
                 {error ? error : progress === 100 
                   ? `Created ${activitiesCreated} activities`
-                  : `Processing day ${currentDay} of ${totalDays}...`}
+                  : streamed?.message || `Processing day ${currentDay} of ${days}...`}
               </p>
             </div>
           </div>
           
           <Progress value={progress} className="mb-3" />
           
+          {!error && progress < 100 && planned.length > 0 && (
+            <ul className="mb-3 max-h-32 overflow-y-auto space-y-1 text-xs text-gray-600">
+              {planned.slice(-5).map((activity, index) => (
+                <li key={`${activity.date}-${activity.time}-${index}`} className="truncate">
+                  {activity.time} · {activity.title}
+                </li>
+              ))}
+            </ul>
+          )}
+
           {!error && progress < 100 && (
-            <div className="flex items-center gap-2 text-xs text-gray-500">
-              <Sparkles className="w-4 h-4" />
-              <span>AI is crafting personalized activities for your trip</span>
+            <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+              <div className="flex items-center gap-2">
+                <Sparkles className="w-4 h-4" />
+                <span>AI is crafting personalized activities for your trip</span>
+              </div>
+              {itinerary.isGenerating && (
+                <Button variant="ghost" size="sm" onClick={itinerary.cancel}>
+                  Cancel
+                </Button>
+              )}
             </div>
           )}
         </div>
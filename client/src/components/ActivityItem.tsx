@@ -5,7 +5,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { API_ENDPOINTS } from "@/lib/constants";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
-import { MapPin, Navigation, Baby, Moon, Cookie, Coffee, RefreshCw } from "lucide-react";
+import { MapPin, Navigation, Baby, Moon, Cookie, Coffee, RefreshCw, Clock, HelpCircle } from "lucide-react";
 
 interface ActivityItemProps {
   activity: ClientActivity;
@@ -14,6 +14,7 @@ interface ActivityItemProps {
   onDelete?: () => void;
   regenerationsRemaining?: number;
   onRegenerationsUpdate?: (remaining: number) => void;
+  openingHoursWarning?: string; // Set when the place is closed at the planned time
 }
 
 export default function ActivityItem({ 
@@ -22,7 +23,8 @@ export default function ActivityItem({
   onClick, 
   onDelete,
   regenerationsRemaining,
-  onRegenerationsUpdate
+  onRegenerationsUpdate,
+  openingHoursWarning
 }: ActivityItemProps) {
   const { toast } = useToast();
 
@@ -391,6 +393,25 @@ export default function ActivityItem({
                 Travel time may be too long
               </div>
             )}
+
+            {/* Opening hours warning */}
+            {openingHoursWarning && (
+              <div className="flex items-center text-xs text-amber-700 dark:text-amber-400 mt-1" title={activity.openingHours || undefined}>
+                <Clock className="h-3 w-3 mr-1 flex-shrink-0" />
+                {openingHoursWarning}
+              </div>
+            )}
+
+            {/* AI-suggested place that couldn't be found in OpenStreetMap or by geocoding */}
+            {activity.verificationStatus === 'unverified' && (
+              <div
+                className="flex items-center text-xs text-amber-700 dark:text-amber-400 mt-1"
+                title="This place couldn't be found on the map. Check it exists before you go."
+              >
+                <HelpCircle className="h-3 w-3 mr-1 flex-shrink-0" />
+                Unverified place
+              </div>
+            )}
           </div>
 
           {/* Bookable Activity Section - Hidden for now */}
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
-import { apiRequest } from "@/lib/queryClient";
+import { ApiError, apiRequest } from "@/lib/queryClient";
 import { API_ENDPOINTS } from "@/lib/constants";
 import { ClientActivity, ClientTrip } from "@/lib/types";
 import { useToast } from "@/hooks/use-toast";
@@ -166,9 +166,18 @@ export default function ActivityModalConsumer({
         ...locationData,
         tripId: typeof tripId === 'string' ? parseInt(tripId) : tripId,
         order: activity.order,
+        version: activity.version,
       };
 
-      return apiRequest("PUT", `${API_ENDPOINTS.ACTIVITIES}/${activity.id}`, updateData);
+      try {
+        return await apiRequest("PUT", `${API_ENDPOINTS.ACTIVITIES}/${activity.id}`, updateData);
+      } catch (error) {
+        // 409: someone else changed the same fields since this activity was loaded
+        if (error instanceof ApiError && error.status === 409) {
+          throw new Error("conflict");
+        }
+        throw error;
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.TRIPS, tripId, "activities"] });
@@ -179,7 +188,16 @@ export default function ActivityModalConsumer({
       onSave();
       onClose();
     },
-    onError: () => {
+    onError: (error: Error) => {
+      if (error.message === "conflict") {
+        queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.TRIPS, tripId, "activities"] });
+        toast({
+          title: "Someone else just edited this",
+          description: "We loaded their changes. Review them and save again.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Oops!",
         description: "Something went wrong. Try again?",
@@ -11,6 +11,7 @@ interface ActivityTimelineProps {
   onActivityUpdated: () => void;
   regenerationsRemaining?: number;
   onRegenerationsUpdate?: (remaining: number) => void;
+  openingHoursWarnings?: Map<number, string>;
 }
 
 export default function ActivityTimeline({
@@ -19,7 +20,8 @@ export default function ActivityTimeline({
   tripId,
   onActivityUpdated,
   regenerationsRemaining,
-  onRegenerationsUpdate
+  onRegenerationsUpdate,
+  openingHoursWarnings
 }: ActivityTimelineProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedActivity, setSelectedActivity] = useState<ClientActivity | null>(null);
@@ -71,6 +73,7 @@ export default function ActivityTimeline({
             onDelete={onActivityUpdated}
             regenerationsRemaining={regenerationsRemaining}
             onRegenerationsUpdate={onRegenerationsUpdate}
+            openingHoursWarning={openingHoursWarnings?.get(activity.id)}
           />
         ))
       )}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Camera, FileText, Loader2 } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/contexts/JWTAuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { ExpenseDraft, ExpenseReceipt } from '@/lib/types';
+
+interface AddExpenseDialogProps {
+  tripId: number;
+  currency: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+const CATEGORIES = ['food', 'transportation', 'accommodation', 'activities', 'shopping', 'other'];
+
+const emptyForm = (currency: string) => ({
+  description: '',
+  amount: '',
+  currency,
+  date: '',
+  category: 'food',
+});
+
+export default function AddExpenseDialog({ tripId, currency, open, onOpenChange, onSaved }: AddExpenseDialogProps) {
+  const { userId } = useAuth();
+  const { toast } = useToast();
+  const [receipt, setReceipt] = useState<ExpenseReceipt | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [form, setForm] = useState(emptyForm(currency));
+
+  const reset = () => {
+    setReceipt(null);
+    setForm(emptyForm(currency));
+  };
+
+  const handleReceipt = async (file: File) => {
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('receipt', file);
+
+      const response = await fetch(`/api/budget/trips/${tripId}/receipts`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: formData
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to upload receipt');
+      }
+
+      const data: { receipt: ExpenseReceipt; draft: ExpenseDraft | null } = await response.json();
+      setReceipt(data.receipt);
+      if (data.draft) {
+        // Keep anything the user already typed
+        setForm(current => ({
+          ...current,
+          description: current.description || data.draft!.description,
+          amount: current.amount || (data.draft!.totalAmount?.toString() ?? ''),
+          currency: data.draft!.currency,
+          date: current.date || (data.draft!.expenseDate ?? ''),
+        }));
+        toast({ title: 'Receipt read', description: 'Check the details before saving.' });
+      } else {
+        toast({ title: 'Receipt saved', description: "We couldn't read it, so fill in the details by hand." });
+      }
+    } catch (error) {
+      toast({ title: 'Upload failed', description: 'Please try another image or PDF.', variant: 'destructive' });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const saveExpense = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', '/api/budget/group-expenses', {
+        tripId,
+        description: form.description,
+        totalAmount: parseFloat(form.amount),
+        currency: form.currency,
+        expenseDate: form.date || undefined,
+        category: form.category,
+        paidBy: userId,
+        splitType: 'equal',
+        splitDetails: [],
+        receiptId: receipt?.id,
+      });
+    },
+    onSuccess: (result) => {
+      if (result?.error) {
+        toast({ title: 'Could not save expense', description: String(result.error), variant: 'destructive' });
+        return;
+      }
+      toast({ title: 'Expense added' });
+      queryClient.invalidateQueries({ queryKey: ['settle-up', tripId] });
+      reset();
+      onOpenChange(false);
+      onSaved?.();
+    },
+  });
+
+  const submit = () => {
+    if (!form.description.trim() || !(parseFloat(form.amount) > 0)) {
+      toast({ title: 'Add a description and an amount', variant: 'destructive' });
+      return;
+    }
+    saveExpense.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) reset(); onOpenChange(next); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Expense</DialogTitle>
+          <DialogDescription>
+            Snap or upload a receipt to fill this in, then split it equally with the group.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Label
+            htmlFor="receipt-file"
+            className="flex items-center justify-center gap-2 border border-dashed rounded-md p-4 cursor-pointer text-sm text-gray-600"
+          >
+            {uploading ? (
+              <><Loader2 className="w-4 h-4 animate-spin" /> Reading receipt...</>
+            ) : receipt ? (
+              <><FileText className="w-4 h-4" /> {receipt.originalName || 'Receipt attached'}</>
+            ) : (
+              <><Camera className="w-4 h-4" /> Upload receipt (photo or PDF)</>
+            )}
+          </Label>
+          <input
+            id="receipt-file"
+            type="file"
+            accept="image/jpeg,image/png,image/webp,application/pdf"
+            capture="environment"
+            className="hidden"
+            disabled={uploading}
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleReceipt(file);
+              e.target.value = '';
+            }}
+          />
+
+          <div className="space-y-2">
+            <Label htmlFor="expense-description">Description</Label>
+            <Input
+              id="expense-description"
+              value={form.description}
+              onChange={e => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="expense-amount">Amount</Label>
+              <Input
+                id="expense-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.amount}
+                onChange={e => setForm({ ...form, amount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expense-currency">Currency</Label>
+              <Input
+                id="expense-currency"
+                maxLength={3}
+                value={form.currency}
+                onChange={e => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expense-date">Date</Label>
+              <Input
+                id="expense-date"
+                type="date"
+                value={form.date}
+                onChange={e => setForm({ ...form, date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={form.category} onValueChange={value => setForm({ ...form, category: value })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {CATEGORIES.map(category => (
+                    <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={submit} disabled={uploading || saveExpense.isPending}>
+              Save Expense
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
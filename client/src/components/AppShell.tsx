@@ -9,12 +9,14 @@ interface AppShellProps {
   onCreateTemplate?: () => void;
   onCreatePoster?: () => void;
   onToggleCollaborative?: () => void;
+  onOpenHistory?: () => void;
+  onOpenFlights?: () => void;
 }
 
-export default function AppShell({ children, trip, onOpenShare, onCreateTemplate, onCreatePoster, onToggleCollaborative }: AppShellProps) {
+export default function AppShell({ children, trip, onOpenShare, onCreateTemplate, onCreatePoster, onToggleCollaborative, onOpenHistory, onOpenFlights }: AppShellProps) {
   return (
     <div className="flex flex-col h-screen">
-      <Header trip={trip} onOpenShare={onOpenShare} onCreateTemplate={onCreateTemplate} onCreatePoster={onCreatePoster} onToggleCollaborative={onToggleCollaborative} />
+      <Header trip={trip} onOpenShare={onOpenShare} onCreateTemplate={onCreateTemplate} onCreatePoster={onCreatePoster} onToggleCollaborative={onToggleCollaborative} onOpenHistory={onOpenHistory} onOpenFlights={onOpenFlights} />
       <main className="flex-1 flex flex-col md:flex-row overflow-hidden main-content">
         {/* We wrap the children in a div with a specific layout to control the sidebar and map */}
         <div className="flex flex-col md:flex-row w-full">
@@ -10,6 +10,8 @@ import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recha
 import { DollarSign, AlertTriangle, TrendingUp, TrendingDown, Receipt, Users } from 'lucide-react';
 import { ClientTrip, BudgetSummary } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
+import SettleUpView from '@/components/SettleUpView';
+import AddExpenseDialog from '@/components/AddExpenseDialog';
 
 interface BudgetTrackerProps {
   trip: ClientTrip;
@@ -38,6 +40,8 @@ export default function BudgetTracker({ trip, onBudgetUpdate }: BudgetTrackerPro
   const [budgetSummary, setBudgetSummary] = useState<BudgetSummary | null>(null);
   const [loading, setLoading] = useState(false);
   const [showBudgetDialog, setShowBudgetDialog] = useState(false);
+  const [showSettleUp, setShowSettleUp] = useState(false);
+  const [showAddExpense, setShowAddExpense] = useState(false);
   const [budgetForm, setBudgetForm] = useState({
     budget: trip.budget || 0,
     currency: trip.currency || 'USD',
@@ -253,6 +257,30 @@ export default function BudgetTracker({ trip, onBudgetUpdate }: BudgetTrackerPro
                 </div>
               )}
 
+              {/* Spending by Currency, converted at the rate on each date */}
+              {budgetSummary.spendingByCurrency && budgetSummary.spendingByCurrency.length > 1 && (
+                <div>
+                  <h4 className="text-sm font-semibold mb-3">Spending by Currency</h4>
+                  <div className="space-y-1">
+                    {budgetSummary.spendingByCurrency.map((entry) => (
+                      <div key={entry.currency} className="flex items-center justify-between text-sm">
+                        <span>{formatCurrency(entry.amount, entry.currency)}</span>
+                        <span className="text-gray-600">
+                          {entry.convertedAmount !== null
+                            ? `≈ ${formatCurrency(entry.convertedAmount, budgetSummary.currency)}`
+                            : 'No exchange rate'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {budgetSummary.unconvertedCurrencies && budgetSummary.unconvertedCurrencies.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      {budgetSummary.unconvertedCurrencies.join(', ')} spending isn't included in the total until a rate is loaded.
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Daily Average */}
               <div className="grid grid-cols-2 gap-4 pt-4 border-t">
                 <div>
@@ -282,23 +310,38 @@ export default function BudgetTracker({ trip, onBudgetUpdate }: BudgetTrackerPro
               </div>
 
               {/* Quick Actions */}
-              {budgetSummary.groupExpensesCount > 0 && (
-                <div className="flex gap-2">
-                  <Button variant="outline" size="sm" className="flex-1">
+              <div className="flex gap-2">
+                {budgetSummary.groupExpensesCount > 0 && (
+                  <Button
+                    variant={showSettleUp ? 'default' : 'outline'}
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => setShowSettleUp(!showSettleUp)}
+                  >
                     <Users className="w-4 h-4 mr-2" />
-                    Group Expenses ({budgetSummary.groupExpensesCount})
-                  </Button>
-                  <Button variant="outline" size="sm" className="flex-1">
-                    <Receipt className="w-4 h-4 mr-2" />
-                    Add Expense
+                    Settle Up ({budgetSummary.groupExpensesCount})
                   </Button>
-                </div>
-              )}
+                )}
+                <Button variant="outline" size="sm" className="flex-1" onClick={() => setShowAddExpense(true)}>
+                  <Receipt className="w-4 h-4 mr-2" />
+                  Add Expense
+                </Button>
+              </div>
+
+              {showSettleUp && <SettleUpView tripId={trip.id} />}
             </div>
           ) : null}
         </CardContent>
       </Card>
 
+      <AddExpenseDialog
+        tripId={trip.id}
+        currency={budgetSummary?.currency || trip.currency || 'USD'}
+        open={showAddExpense}
+        onOpenChange={setShowAddExpense}
+        onSaved={fetchBudgetSummary}
+      />
+
       {/* Budget Settings Dialog */}
       <Dialog open={showBudgetDialog} onOpenChange={setShowBudgetDialog}>
         <DialogContent>
@@ -14,6 +14,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AlertCircle, Info } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -27,6 +28,7 @@ interface Template {
   salesCount: number;
   tags: string[];
   destinations: string[];
+  previewLevel?: string;
 }
 
 interface EditTemplateModalProps {
@@ -42,6 +44,7 @@ export default function EditTemplateModal({ template, open, onOpenChange }: Edit
     description: '',
     price: '',
     tags: [] as string[],
+    previewLevel: 'standard',
   });
 
   useEffect(() => {
@@ -51,6 +54,7 @@ export default function EditTemplateModal({ template, open, onOpenChange }: Edit
         description: template.description || '',
         price: template.price,
         tags: template.tags || [],
+        previewLevel: template.previewLevel || 'standard',
       });
     }
   }, [template]);
@@ -98,6 +102,7 @@ export default function EditTemplateModal({ template, open, onOpenChange }: Edit
       description: formData.description,
       price: formData.price,
       tags: formData.tags,
+      previewLevel: formData.previewLevel,
     });
   };
 
@@ -176,6 +181,26 @@ export default function EditTemplateModal({ template, open, onOpenChange }: Edit
             </p>
           </div>
 
+          <div className="grid gap-2">
+            <Label htmlFor="preview-level">Preview for non-buyers</Label>
+            <Select
+              value={formData.previewLevel}
+              onValueChange={(previewLevel) => setFormData({ ...formData, previewLevel })}
+            >
+              <SelectTrigger id="preview-level">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="minimal">Minimal: day outlines and categories</SelectItem>
+                <SelectItem value="standard">Standard: adds a sample day and area map</SelectItem>
+                <SelectItem value="extended">Extended: adds every activity title</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              Notes, costs and the full itinerary stay hidden until someone buys the template
+            </p>
+          </div>
+
           {hasSales && (
             <div className="grid gap-2">
               <Label>Restricted Fields</Label>
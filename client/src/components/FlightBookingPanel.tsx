@@ -0,0 +1,415 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { ClientTrip, FlightBooking, FlightBookingPassenger, FlightOffer } from "@/lib/types";
+import { ArrowLeft, Plane, X } from "lucide-react";
+
+interface Airport {
+  iataCode: string;
+  name: string;
+  cityName: string;
+  countryName: string;
+}
+
+interface FlightBookingPanelProps {
+  trip: ClientTrip;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_PASSENGER: FlightBookingPassenger = {
+  title: 'mr',
+  givenName: '',
+  familyName: '',
+  bornOn: '',
+  email: '',
+  phoneNumber: '',
+  gender: 'm',
+};
+
+function toInputDate(value: Date | string | undefined): string {
+  return value ? format(new Date(value), 'yyyy-MM-dd') : '';
+}
+
+// Duffel times are local to the airport, so show them as written
+function localTime(datetime: string): string {
+  return `${datetime.slice(0, 10)} ${datetime.slice(11, 16)}`;
+}
+
+function formatDuration(duration: string): string {
+  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?/);
+  if (!match) return duration;
+  return [match[1] && `${match[1]}h`, match[2] && `${match[2]}m`].filter(Boolean).join(' ');
+}
+
+function AirportInput({ label, value, onChange }: { label: string; value: string; onChange: (code: string) => void }) {
+  const [query, setQuery] = useState(value);
+  const [focused, setFocused] = useState(false);
+
+  const { data: airports = [] } = useQuery<Airport[]>({
+    queryKey: ['/api/flights/airports', query],
+    queryFn: () => apiRequest('GET', `/api/flights/airports?q=${encodeURIComponent(query)}`),
+    enabled: focused && query.length >= 2,
+  });
+
+  return (
+    <div className="relative space-y-1">
+      <Label>{label}</Label>
+      <Input
+        value={query}
+        placeholder="City or airport code"
+        onFocus={() => setFocused(true)}
+        onBlur={() => setTimeout(() => setFocused(false), 150)}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          onChange(/^[A-Za-z]{3}$/.test(e.target.value) ? e.target.value.toUpperCase() : '');
+        }}
+      />
+      {focused && airports.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-full rounded-md border bg-popover shadow-md max-h-56 overflow-y-auto">
+          {airports.map(airport => (
+            <li key={airport.iataCode}>
+              <button
+                type="button"
+                className="w-full text-left px-3 py-2 text-sm hover:bg-muted"
+                onMouseDown={() => {
+                  setQuery(`${airport.cityName} (${airport.iataCode})`);
+                  onChange(airport.iataCode);
+                }}
+              >
+                <span className="font-medium">{airport.iataCode}</span> {airport.name}
+                <span className="text-muted-foreground"> · {airport.cityName}, {airport.countryName}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function OfferCard({ offer, onSelect }: { offer: FlightOffer; onSelect?: () => void }) {
+  return (
+    <div className="border rounded-md p-3 space-y-2">
+      {offer.slices.map((slice, index) => (
+        <div key={index} className="flex items-center justify-between text-sm">
+          <div>
+            <div className="font-medium">
+              {slice.origin.iataCode} → {slice.destination.iataCode}
+              <span className="ml-2 text-muted-foreground font-normal">
+                {slice.segments.map(s => `${s.airline.iataCode}${s.flightNumber}`).join(' / ')}
+              </span>
+            </div>
+            <div className="text-muted-foreground">
+              {localTime(slice.departureDatetime)} – {slice.arrivalDatetime.slice(11, 16)}
+              {' · '}{formatDuration(slice.duration)}
+              {slice.segments.length > 1 && ` · ${slice.segments.length - 1} stop${slice.segments.length > 2 ? 's' : ''}`}
+            </div>
+          </div>
+          <span className="text-muted-foreground">{slice.segments[0].airline.name}</span>
+        </div>
+      ))}
+      <div className="flex items-center justify-between pt-1">
+        <div className="text-sm text-muted-foreground">
+          {offer.conditions.refundBeforeDeparture?.allowed ? 'Refundable' : 'Non-refundable'}
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="font-semibold">{offer.price.currency} {offer.price.amount}</span>
+          {onSelect && <Button size="sm" onClick={onSelect}>Select</Button>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Search Duffel flights for the trip's dates and book one. A booked flight
+ * is added to the itinerary as departure and arrival activities; cancelling
+ * it removes them again.
+ */
+export default function FlightBookingPanel({ trip, open, onOpenChange }: FlightBookingPanelProps) {
+  const { toast } = useToast();
+  const [origin, setOrigin] = useState('');
+  const [destination, setDestination] = useState('');
+  const [departureDate, setDepartureDate] = useState(toInputDate(trip.startDate));
+  const [returnDate, setReturnDate] = useState(toInputDate(trip.endDate));
+  const [roundTrip, setRoundTrip] = useState(true);
+  const [adults, setAdults] = useState(1);
+  const [selected, setSelected] = useState<FlightOffer | null>(null);
+  const [passengers, setPassengers] = useState<FlightBookingPassenger[]>([]);
+  const bookingsKey = ['/api/flights/trips', trip.id, 'bookings'];
+
+  useEffect(() => {
+    setDepartureDate(toInputDate(trip.startDate));
+    setReturnDate(toInputDate(trip.endDate));
+  }, [trip.startDate, trip.endDate]);
+
+  const { data: bookings = [] } = useQuery<FlightBooking[]>({
+    queryKey: bookingsKey,
+    queryFn: () => apiRequest('GET', `/api/flights/trips/${trip.id}/bookings`),
+    enabled: open,
+  });
+
+  const refreshTrip = () => {
+    queryClient.invalidateQueries({ queryKey: bookingsKey });
+    queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.TRIPS, trip.id] });
+  };
+
+  const search = useMutation({
+    mutationFn: async (): Promise<FlightOffer[]> => {
+      return await apiRequest('POST', '/api/flights/search', {
+        tripId: trip.id,
+        origin,
+        destination,
+        departureDate,
+        returnDate: roundTrip ? returnDate : undefined,
+        roundTrip,
+        passengers: { adults },
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Flight search failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const book = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', `/api/flights/trips/${trip.id}/book`, { offerId: selected!.id, passengers });
+    },
+    onSuccess: () => {
+      toast({ title: "Flight booked", description: "Your flights have been added to the itinerary." });
+      setSelected(null);
+      search.reset();
+      refreshTrip();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Booking failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancel = useMutation({
+    mutationFn: async (bookingId: number): Promise<FlightBooking> => {
+      return await apiRequest('POST', `/api/flights/bookings/${bookingId}/cancel`);
+    },
+    onSuccess: (booking) => {
+      const refund = booking.bookingDetails.refundAmount;
+      toast({
+        title: "Flight cancelled",
+        description: refund ? `Refund: ${booking.bookingDetails.refundCurrency} ${refund}` : undefined,
+      });
+      refreshTrip();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not cancel", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const selectOffer = (offer: FlightOffer) => {
+    setSelected(offer);
+    setPassengers(offer.passengers.map(() => ({ ...EMPTY_PASSENGER })));
+  };
+
+  const updatePassenger = (index: number, changes: Partial<FlightBookingPassenger>) => {
+    setPassengers(current => current.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const passengersComplete = passengers.every(p => p.givenName && p.familyName && p.bornOn && p.email && p.phoneNumber);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Plane className="h-5 w-5" />
+            Flights
+          </SheetTitle>
+          <SheetDescription>
+            Find flights for this trip. Booked flights are added to the itinerary.
+          </SheetDescription>
+        </SheetHeader>
+
+        <Tabs defaultValue="search" className="mt-4">
+          <TabsList>
+            <TabsTrigger value="search">Search</TabsTrigger>
+            <TabsTrigger value="booked">Booked ({bookings.filter(b => b.status !== 'cancelled').length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="search" className="space-y-4">
+            {selected ? (
+              <div className="space-y-4">
+                <Button variant="ghost" size="sm" className="-ml-2" onClick={() => setSelected(null)}>
+                  <ArrowLeft className="h-4 w-4 mr-1" />
+                  Back to results
+                </Button>
+                <OfferCard offer={selected} />
+
+                {passengers.map((passenger, index) => (
+                  <div key={index} className="border rounded-md p-3 space-y-3">
+                    <div className="text-sm font-medium">
+                      Passenger {index + 1} <span className="text-muted-foreground">({selected.passengers[index].type})</span>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label>Title</Label>
+                        <select
+                          className="w-full h-10 rounded-md border bg-background px-3 text-sm"
+                          value={passenger.title}
+                          onChange={(e) => updatePassenger(index, { title: e.target.value as FlightBookingPassenger['title'] })}
+                        >
+                          <option value="mr">Mr</option>
+                          <option value="ms">Ms</option>
+                          <option value="mrs">Mrs</option>
+                          <option value="miss">Miss</option>
+                          <option value="dr">Dr</option>
+                        </select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Gender (as on passport)</Label>
+                        <select
+                          className="w-full h-10 rounded-md border bg-background px-3 text-sm"
+                          value={passenger.gender}
+                          onChange={(e) => updatePassenger(index, { gender: e.target.value as FlightBookingPassenger['gender'] })}
+                        >
+                          <option value="m">M</option>
+                          <option value="f">F</option>
+                        </select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Given name</Label>
+                        <Input value={passenger.givenName} onChange={(e) => updatePassenger(index, { givenName: e.target.value })} />
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Family name</Label>
+                        <Input value={passenger.familyName} onChange={(e) => updatePassenger(index, { familyName: e.target.value })} />
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Date of birth</Label>
+                        <Input type="date" value={passenger.bornOn} onChange={(e) => updatePassenger(index, { bornOn: e.target.value })} />
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Phone</Label>
+                        <Input
+                          placeholder="+442080160509"
+                          value={passenger.phoneNumber}
+                          onChange={(e) => updatePassenger(index, { phoneNumber: e.target.value.replace(/[\s-]/g, '') })}
+                        />
+                      </div>
+                      <div className="space-y-1 col-span-2">
+                        <Label>Email</Label>
+                        <Input type="email" value={passenger.email} onChange={(e) => updatePassenger(index, { email: e.target.value })} />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+
+                <Button className="w-full" disabled={!passengersComplete || book.isPending} onClick={() => book.mutate()}>
+                  {book.isPending ? 'Booking…' : `Book for ${selected.price.currency} ${selected.price.amount}`}
+                </Button>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <AirportInput label="From" value={origin} onChange={setOrigin} />
+                  <AirportInput label="To" value={destination} onChange={setDestination} />
+                  <div className="space-y-1">
+                    <Label>Depart</Label>
+                    <Input type="date" value={departureDate} onChange={(e) => setDepartureDate(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Return</Label>
+                    <Input type="date" value={returnDate} disabled={!roundTrip} onChange={(e) => setReturnDate(e.target.value)} />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch id="round-trip" checked={roundTrip} onCheckedChange={setRoundTrip} />
+                    <Label htmlFor="round-trip">Round trip</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="adults">Adults</Label>
+                    <Input
+                      id="adults"
+                      type="number"
+                      min={1}
+                      max={9}
+                      className="w-20"
+                      value={adults}
+                      onChange={(e) => setAdults(Math.min(9, Math.max(1, parseInt(e.target.value) || 1)))}
+                    />
+                  </div>
+                </div>
+
+                <Button
+                  className="w-full"
+                  disabled={!origin || !destination || !departureDate || search.isPending}
+                  onClick={() => search.mutate()}
+                >
+                  {search.isPending ? 'Searching…' : 'Search flights'}
+                </Button>
+
+                {search.data && search.data.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No flights found for these dates.</p>
+                )}
+                <div className="space-y-3">
+                  {search.data?.map(offer => (
+                    <OfferCard key={offer.id} offer={offer} onSelect={() => selectOffer(offer)} />
+                  ))}
+                </div>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="booked" className="space-y-3">
+            {bookings.length === 0 && <p className="text-sm text-muted-foreground">No flights booked for this trip yet.</p>}
+            {bookings.map(booking => (
+              <div key={booking.id} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="font-medium">{booking.bookingDetails.title || 'Flight'}</div>
+                  <Badge variant={booking.status === 'cancelled' ? 'secondary' : 'default'}>
+                    {booking.status === 'cancelled'
+                      ? booking.bookingDetails.cancelledBy === 'airline' ? 'Cancelled by airline' : 'Cancelled'
+                      : `Ref ${booking.confirmationNumber}`}
+                  </Badge>
+                </div>
+                <ul className="text-sm text-muted-foreground">
+                  {booking.bookingDetails.slices.map((slice, index) => (
+                    <li key={index}>
+                      {slice.origin} → {slice.destination} · {slice.flights.join(' / ')} · {localTime(slice.departure)}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex items-center justify-between text-sm">
+                  <span>{booking.bookingDetails.passengers.join(', ')}</span>
+                  <span className="font-medium">{booking.currency} {booking.totalAmount}</span>
+                </div>
+                {booking.status !== 'cancelled' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={cancel.isPending}
+                    onClick={() => {
+                      if (window.confirm("Cancel this flight with the airline? Fees may apply.")) {
+                        cancel.mutate(booking.id);
+                      }
+                    }}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Cancel flight
+                  </Button>
+                )}
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
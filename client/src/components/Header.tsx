@@ -11,7 +11,7 @@ import {
 import { ClientTrip } from "@/lib/types";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Camera, Users } from "lucide-react";
+import { Camera, History, Plane, Users } from "lucide-react";
 
 interface HeaderProps {
   trip?: ClientTrip;
@@ -24,6 +24,8 @@ interface HeaderProps {
   onExportPDF?: () => void;
   onDeleteTrip?: () => void;
   onToggleCollaborative?: () => void;
+  onOpenHistory?: () => void;
+  onOpenFlights?: () => void;
 }
 
 export default function Header({
@@ -36,7 +38,9 @@ export default function Header({
   onDuplicateTrip,
   onExportPDF,
   onDeleteTrip,
-  onToggleCollaborative
+  onToggleCollaborative,
+  onOpenHistory,
+  onOpenFlights
 }: HeaderProps) {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
@@ -126,6 +130,14 @@ export default function Header({
                     <Camera className="h-4 w-4 mr-2" />
                     <span>Create Poster</span>
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={onOpenHistory}>
+                    <History className="h-4 w-4 mr-2" />
+                    <span>Version History</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={onOpenFlights}>
+                    <Plane className="h-4 w-4 mr-2" />
+                    <span>Flights</span>
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={onRenameTrip}>
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
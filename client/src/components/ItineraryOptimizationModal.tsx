@@ -32,9 +32,12 @@ export function ItineraryOptimizationModal({
       id: string;
       suggestedTime: string;
       suggestedDay: number;
+      suggestedDate: string;
+      suggestedOrder: number;
       reason: string;
     }>;
     recommendations: string[];
+    explanation?: string | null;
   } | null>(null);
 
   const { optimizeItinerary } = useAIAssistant();
@@ -87,7 +90,7 @@ export function ItineraryOptimizationModal({
             AI Itinerary Optimization
           </DialogTitle>
           <DialogDescription>
-            Let our AI analyze your itinerary and suggest improvements to minimize travel time and avoid conflicts.
+            Reorder each day to cut travel time, keeping your bookings and meal times in place.
           </DialogDescription>
         </DialogHeader>
 
@@ -110,7 +113,7 @@ export function ItineraryOptimizationModal({
                 {optimizeItinerary.isPending ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Analyzing Itinerary...
+                    Optimizing Itinerary...
                   </>
                 ) : (
                   <>
@@ -139,6 +142,9 @@ export function ItineraryOptimizationModal({
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-2">
+                      {optimizationResult.explanation && (
+                        <p className="text-sm text-muted-foreground">{optimizationResult.explanation}</p>
+                      )}
                       {optimizationResult.recommendations.map((rec, index) => (
                         <div key={index} className="flex items-start gap-2">
                           <div className="h-2 w-2 bg-green-600 rounded-full mt-2 flex-shrink-0" />
@@ -167,7 +173,9 @@ export function ItineraryOptimizationModal({
                         if (!activity) return null;
 
                         const currentTime = activity.time || "Not set";
-                        const currentDay = 1; // Default to day 1 for now
+                        const currentDay = activity.date
+                          ? Math.round((new Date(activity.date).getTime() - new Date(trip.startDate).getTime()) / (1000 * 60 * 60 * 24)) + 1
+                          : optimization.suggestedDay;
                         const hasTimeChange = currentTime !== optimization.suggestedTime;
                         const hasDayChange = currentDay !== optimization.suggestedDay;
 
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
@@ -20,6 +20,7 @@ import FamilyQuickActions from "./FamilyQuickActions";
 import CollaborativeSuggestions from "./CollaborativeSuggestions";
 import TripComments from "./TripComments";
 import { jwtAuth } from "@/lib/jwtAuth";
+import { openingHoursWarnings } from "@/lib/openingHours";
 
 interface ItinerarySidebarProps {
   trip: ClientTrip;
@@ -57,6 +58,9 @@ export default function ItinerarySidebar({
   const { optimizeItinerary } = useAIAssistant();
   const user = jwtAuth.getUser();
 
+  // Activities planned while the place is closed
+  const closedWarnings = useMemo(() => openingHoursWarnings(trip, activities), [trip, activities]);
+
   // One-click auto-optimization function
   const handleAutoOptimize = async () => {
     setIsAutoOptimizing(true);
@@ -364,6 +368,7 @@ export default function ItinerarySidebar({
                 // Update will happen through refetch
                 onActivitiesUpdated();
               }}
+              openingHoursWarnings={closedWarnings}
             />
           </TabsContent>
 
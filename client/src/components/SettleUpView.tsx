@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, Check, Trash2 } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { SettleUpSummary, SettlementMethod } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+
+interface SettleUpViewProps {
+  tripId: number;
+}
+
+const METHOD_LABELS: Record<SettlementMethod, string> = {
+  cash: 'Cash',
+  bank_transfer: 'Bank transfer',
+  card: 'Card',
+  venmo: 'Venmo',
+  paypal: 'PayPal',
+  other: 'Other',
+};
+
+export default function SettleUpView({ tripId }: SettleUpViewProps) {
+  const { toast } = useToast();
+  const [payment, setPayment] = useState<{ fromUserId?: number; toUserId?: number; amount: string; method: SettlementMethod }>({
+    amount: '',
+    method: 'cash',
+  });
+  const summaryKey = ['settle-up', tripId];
+
+  const { data: summary, isLoading } = useQuery({
+    queryKey: summaryKey,
+    queryFn: async () => {
+      return await apiRequest('GET', `/api/budget/trips/${tripId}/settle-up`) as SettleUpSummary;
+    },
+  });
+
+  const recordPayment = useMutation({
+    mutationFn: async (data: { fromUserId: number; toUserId: number; amount: number; method: SettlementMethod }) => {
+      return await apiRequest('POST', `/api/budget/trips/${tripId}/settlements`, data);
+    },
+    onSuccess: (result) => {
+      if (result?.error) {
+        toast({ title: 'Could not record payment', description: String(result.error), variant: 'destructive' });
+        return;
+      }
+      toast({ title: 'Payment recorded' });
+      setPayment({ amount: '', method: payment.method });
+      queryClient.invalidateQueries({ queryKey: summaryKey });
+    },
+  });
+
+  const deletePayment = useMutation({
+    mutationFn: async (settlementId: number) => {
+      return await apiRequest('DELETE', `/api/budget/settlements/${settlementId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: summaryKey }),
+  });
+
+  if (isLoading || !summary) {
+    return <div className="h-24 bg-gray-200 rounded animate-pulse" />;
+  }
+
+  const nameOf = (userId: number) => {
+    const member = summary.members.find(m => m.id === userId);
+    return member?.displayName || member?.username || `User ${userId}`;
+  };
+
+  const formatAmount = (amount: number | string, currency = summary.currency) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(Number(amount));
+
+  const submitPayment = () => {
+    const amount = parseFloat(payment.amount);
+    if (!payment.fromUserId || !payment.toUserId || !(amount > 0)) {
+      toast({ title: 'Choose who paid whom and an amount', variant: 'destructive' });
+      return;
+    }
+    recordPayment.mutate({ fromUserId: payment.fromUserId, toUserId: payment.toUserId, amount, method: payment.method });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Balances */}
+      <div>
+        <h4 className="text-sm font-semibold mb-2">Balances</h4>
+        <div className="space-y-1">
+          {summary.balances.map(balance => (
+            <div key={balance.userId} className="flex justify-between text-sm">
+              <span>{nameOf(balance.userId)}</span>
+              <span className={balance.net > 0 ? 'text-green-600' : balance.net < 0 ? 'text-red-600' : 'text-gray-500'}>
+                {balance.net > 0 ? 'is owed ' : balance.net < 0 ? 'owes ' : ''}
+                {balance.net === 0 ? 'settled' : formatAmount(Math.abs(balance.net))}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Suggested transfers */}
+      <div>
+        <h4 className="text-sm font-semibold mb-2">To settle up</h4>
+        {summary.transfers.length === 0 ? (
+          <p className="text-sm text-gray-500">Everyone is square.</p>
+        ) : (
+          <div className="space-y-2">
+            {summary.transfers.map(transfer => (
+              <div key={`${transfer.from}-${transfer.to}`} className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-1">
+                  {nameOf(transfer.from)} <ArrowRight className="w-3 h-3" /> {nameOf(transfer.to)}
+                  <span className="font-medium ml-1">{formatAmount(transfer.amount)}</span>
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={recordPayment.isPending}
+                  onClick={() => recordPayment.mutate({
+                    fromUserId: transfer.from,
+                    toUserId: transfer.to,
+                    amount: transfer.amount,
+                    method: payment.method,
+                  })}
+                >
+                  <Check className="w-3 h-3 mr-1" />
+                  Mark paid
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        {summary.unconvertedExpenseIds.length > 0 && (
+          <p className="text-xs text-gray-500 mt-2">
+            {summary.unconvertedExpenseIds.length} expense(s) are left out until an exchange rate is available.
+          </p>
+        )}
+      </div>
+
+      {/* Record a partial payment */}
+      <div className="space-y-2 border-t pt-3">
+        <h4 className="text-sm font-semibold">Record a payment</h4>
+        <div className="grid grid-cols-2 gap-2">
+          <Select
+            value={payment.fromUserId?.toString()}
+            onValueChange={value => setPayment({ ...payment, fromUserId: parseInt(value) })}
+          >
+            <SelectTrigger><SelectValue placeholder="Who paid" /></SelectTrigger>
+            <SelectContent>
+              {summary.members.map(m => (
+                <SelectItem key={m.id} value={m.id.toString()}>{nameOf(m.id)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={payment.toUserId?.toString()}
+            onValueChange={value => setPayment({ ...payment, toUserId: parseInt(value) })}
+          >
+            <SelectTrigger><SelectValue placeholder="Paid to" /></SelectTrigger>
+            <SelectContent>
+              {summary.members.map(m => (
+                <SelectItem key={m.id} value={m.id.toString()}>{nameOf(m.id)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div>
+            <Label htmlFor="settle-amount" className="sr-only">Amount</Label>
+            <Input
+              id="settle-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder={`Amount (${summary.currency})`}
+              value={payment.amount}
+              onChange={e => setPayment({ ...payment, amount: e.target.value })}
+            />
+          </div>
+          <Select
+            value={payment.method}
+            onValueChange={value => setPayment({ ...payment, method: value as SettlementMethod })}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button size="sm" className="w-full" disabled={recordPayment.isPending} onClick={submitPayment}>
+          Record payment
+        </Button>
+      </div>
+
+      {/* Ledger */}
+      {summary.settlements.length > 0 && (
+        <div className="border-t pt-3">
+          <h4 className="text-sm font-semibold mb-2">Payments</h4>
+          <div className="space-y-1">
+            {summary.settlements.map(settlement => (
+              <div key={settlement.id} className="flex items-center justify-between text-sm">
+                <span>
+                  {nameOf(settlement.fromUserId)} paid {nameOf(settlement.toUserId)}{' '}
+                  <span className="font-medium">{formatAmount(settlement.amount, settlement.currency)}</span>
+                  <span className="text-gray-500"> · {METHOD_LABELS[settlement.method] || settlement.method} · {settlement.settledOn}</span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Delete payment"
+                  onClick={() => deletePayment.mutate(settlement.id)}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
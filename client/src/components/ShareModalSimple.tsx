@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/JWTAuthContext';
+import { apiRequest } from '@/lib/queryClient';
 import { ClientTemplate } from '@/lib/types';
 import QRCode from 'qrcode';
 
@@ -32,7 +34,10 @@ export default function ShareModalSimple({
   description: customDescription
 }: ShareModalProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [copied, setCopied] = useState(false);
+  const [referralLinks, setReferralLinks] = useState<Record<string, string>>({});
+  const [commissionPercent, setCommissionPercent] = useState(0);
   const [qrCodeUrl, setQrCodeUrl] = useState('');
   const modalRef = useRef<HTMLDivElement>(null);
 
@@ -42,6 +47,34 @@ export default function ShareModalSimple({
      tripId ? `${window.location.origin}/share/${tripId}` :
      window.location.href);
 
+  // Signed-in users share templates through their own link for each channel,
+  // so sales it brings are attributed to them
+  const useReferralLinks = !!template && !!user && !customShareUrl;
+
+  const referralLink = async (channel: string): Promise<string> => {
+    if (!useReferralLinks) return shareUrl;
+    if (referralLinks[channel]) return referralLinks[channel];
+    try {
+      const data = await apiRequest('POST', `/api/templates/${template!.id}/share`, { platform: channel });
+      const url = `${window.location.origin}/t/${data.shareCode}`;
+      setReferralLinks(links => ({ ...links, [channel]: url }));
+      setCommissionPercent(data.commissionPercent || 0);
+      return url;
+    } catch (error) {
+      return shareUrl;
+    }
+  };
+
+  const linkUrl = referralLinks.link || shareUrl;
+  const qrUrl = referralLinks.qr || shareUrl;
+
+  useEffect(() => {
+    if (isOpen && useReferralLinks) {
+      referralLink('link');
+      referralLink('qr');
+    }
+  }, [isOpen, useReferralLinks]);
+
   // Generate share content
   const title = customTitle || template?.title || 'Check out this amazing trip!';
   const description = customDescription || template?.description ||
@@ -50,7 +83,7 @@ export default function ShareModalSimple({
   // Generate QR code on mount
   useEffect(() => {
     if (isOpen) {
-      QRCode.toDataURL(shareUrl, {
+      QRCode.toDataURL(qrUrl, {
         width: 200,
         margin: 2,
         color: {
@@ -59,7 +92,7 @@ export default function ShareModalSimple({
         }
       }).then(setQrCodeUrl);
     }
-  }, [isOpen, shareUrl]);
+  }, [isOpen, qrUrl]);
 
   // Handle escape key
   useEffect(() => {
@@ -74,7 +107,7 @@ export default function ShareModalSimple({
 
   const handleCopy = async () => {
     try {
-      await navigator.clipboard.writeText(shareUrl);
+      await navigator.clipboard.writeText(linkUrl);
       setCopied(true);
       toast({
         title: "Link copied!",
@@ -90,8 +123,10 @@ export default function ShareModalSimple({
     }
   };
 
-  const handleShare = (platform: string) => {
-    const encodedUrl = encodeURIComponent(shareUrl);
+  const handleShare = async (platform: string) => {
+    // Open the window before fetching the link so popup blockers allow it
+    const popup = platform === 'sms' || platform === 'email' ? null : window.open('', '_blank');
+    const encodedUrl = encodeURIComponent(await referralLink(platform));
     const encodedTitle = encodeURIComponent(title);
     const encodedDescription = encodeURIComponent(description);
 
@@ -108,12 +143,16 @@ export default function ShareModalSimple({
     };
 
     if (shareUrls[platform]) {
-      if (platform === 'sms') {
+      if (platform === 'sms' || platform === 'email') {
         // SMS links work differently on different platforms
         window.location.href = shareUrls[platform];
+      } else if (popup) {
+        popup.location.href = shareUrls[platform];
       } else {
         window.open(shareUrls[platform], '_blank');
       }
+    } else {
+      popup?.close();
     }
   };
 
@@ -196,7 +235,7 @@ export default function ShareModalSimple({
             <TabsContent value="link" className="space-y-4">
               <div className="flex gap-2">
                 <Input
-                  value={shareUrl}
+                  value={linkUrl}
                   readOnly
                   className="flex-1"
                 />
@@ -211,6 +250,11 @@ export default function ShareModalSimple({
               <p className="text-sm text-gray-500">
                 Share this link with friends to show them your trip
               </p>
+              {commissionPercent > 0 && (
+                <p className="text-sm text-green-700">
+                  You earn {commissionPercent}% of every purchase made through your links
+                </p>
+              )}
             </TabsContent>
 
             <TabsContent value="social" className="space-y-4">
@@ -14,6 +14,7 @@ import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { ClientTrip } from "@/lib/types";
+import TripCalendarExport from "@/components/TripCalendarExport";
 import { nanoid } from 'nanoid';
 import { Copy, CheckCircle, Link, Share } from "lucide-react";
 
@@ -269,6 +270,7 @@ export default function ShareTripModal({
           <TabsList className="mb-4">
             <TabsTrigger value="link">Share Link</TabsTrigger>
             <TabsTrigger value="collaborators">Collaborators</TabsTrigger>
+            <TabsTrigger value="calendar">Calendar</TabsTrigger>
           </TabsList>
 
           <TabsContent value="link" className="space-y-4">
@@ -416,6 +418,10 @@ export default function ShareTripModal({
               </p>
             </div>
           </TabsContent>
+
+          <TabsContent value="calendar">
+            {trip && <TripCalendarExport trip={trip} onSave={onSave} />}
+          </TabsContent>
         </Tabs>
 
         <DialogFooter>
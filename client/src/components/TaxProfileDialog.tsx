@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ClientTaxProfile } from '@/lib/types';
+
+interface TaxProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profile: ClientTaxProfile | null;
+}
+
+const TAX_CLASSIFICATIONS = [
+  { value: 'individual', label: 'Individual / sole proprietor' },
+  { value: 'c_corporation', label: 'C corporation' },
+  { value: 's_corporation', label: 'S corporation' },
+  { value: 'partnership', label: 'Partnership' },
+  { value: 'trust_estate', label: 'Trust / estate' },
+  { value: 'llc', label: 'Limited liability company' },
+  { value: 'other', label: 'Other' },
+];
+
+const emptyForm = {
+  formType: 'w9',
+  legalName: '',
+  businessName: '',
+  taxClassification: 'individual',
+  citizenshipCountry: '',
+  country: '',
+  dateOfBirth: '',
+  addressLine1: '',
+  addressLine2: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  tinType: 'ssn',
+  tin: '',
+  treatyCountry: '',
+  treatyArticle: '',
+  treatyRate: '',
+  signatureName: '',
+};
+
+// W-9 for US persons, W-8BEN for foreign individuals. The TIN is never sent
+// back, so it has to be re-entered whenever the form is resubmitted.
+export default function TaxProfileDialog({ open, onOpenChange, profile }: TaxProfileDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+  const [certified, setCertified] = useState(false);
+  const [loadedFor, setLoadedFor] = useState<number | null>(null);
+
+  // Start from the form on file the first time the dialog opens with it
+  if (open && profile && loadedFor !== profile.id) {
+    setLoadedFor(profile.id);
+    setForm({
+      ...emptyForm,
+      formType: profile.formType,
+      legalName: profile.legalName,
+      businessName: profile.businessName || '',
+      taxClassification: profile.taxClassification || 'individual',
+      citizenshipCountry: profile.citizenshipCountry || '',
+      country: profile.country === 'US' ? '' : profile.country,
+      dateOfBirth: profile.dateOfBirth || '',
+      addressLine1: profile.addressLine1,
+      addressLine2: profile.addressLine2 || '',
+      city: profile.city,
+      state: profile.state || '',
+      postalCode: profile.postalCode || '',
+      tinType: profile.tinType,
+      treatyCountry: profile.treatyCountry || '',
+      treatyArticle: profile.treatyArticle || '',
+      treatyRate: profile.treatyRate || '',
+    });
+  }
+
+  const set = (field: keyof typeof emptyForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm({ ...form, [field]: e.target.value });
+
+  const isW9 = form.formType === 'w9';
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const common = {
+        formType: form.formType,
+        legalName: form.legalName,
+        addressLine1: form.addressLine1,
+        addressLine2: form.addressLine2 || undefined,
+        city: form.city,
+        state: form.state || undefined,
+        postalCode: form.postalCode || undefined,
+        tinType: form.tinType,
+        tin: form.tin,
+        signatureName: form.signatureName,
+        certify: certified,
+      };
+      const body = isW9
+        ? { ...common, businessName: form.businessName || undefined, taxClassification: form.taxClassification }
+        : {
+          ...common,
+          citizenshipCountry: form.citizenshipCountry,
+          country: form.country,
+          dateOfBirth: form.dateOfBirth,
+          treatyCountry: form.treatyCountry || undefined,
+          treatyArticle: form.treatyArticle || undefined,
+          treatyRate: form.treatyRate || undefined,
+        };
+
+      const response = await fetch('/api/creators/tax-profile', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify(body)
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        const detail = error.errors?.[0] ? `${error.errors[0].path?.join('.')}: ${error.errors[0].message}` : null;
+        throw new Error(detail || error.message || 'Could not save tax information');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Tax information saved', description: 'Payouts over $600 are now available.' });
+      queryClient.invalidateQueries({ queryKey: ['creator-tax-profile'] });
+      queryClient.invalidateQueries({ queryKey: ['creator-dashboard'] });
+      setForm({ ...form, tin: '' });
+      setCertified(false);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save tax information', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const canSubmit = form.legalName && form.addressLine1 && form.city && form.tin && form.signatureName && certified &&
+    (isW9 ? form.state && form.postalCode : form.citizenshipCountry && form.country && form.dateOfBirth);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Tax Information</DialogTitle>
+          <DialogDescription>
+            Needed for payouts over $600 and your year-end earnings statements. Your tax ID is stored encrypted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Form</Label>
+            <Select
+              value={form.formType}
+              onValueChange={(formType) => setForm({ ...form, formType, tinType: formType === 'w9' ? 'ssn' : 'foreign' })}
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="w9">W-9 (US citizen or resident)</SelectItem>
+                <SelectItem value="w8ben">W-8BEN (not a US person)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="tax-legal-name">Legal name</Label>
+              <Input id="tax-legal-name" value={form.legalName} onChange={set('legalName')} className="mt-1" />
+            </div>
+            {isW9 ? (
+              <div>
+                <Label htmlFor="tax-business-name">Business name (optional)</Label>
+                <Input id="tax-business-name" value={form.businessName} onChange={set('businessName')} className="mt-1" />
+              </div>
+            ) : (
+              <div>
+                <Label htmlFor="tax-dob">Date of birth</Label>
+                <Input id="tax-dob" type="date" value={form.dateOfBirth} onChange={set('dateOfBirth')} className="mt-1" />
+              </div>
+            )}
+          </div>
+
+          {isW9 ? (
+            <div>
+              <Label>Tax classification</Label>
+              <Select value={form.taxClassification} onValueChange={(taxClassification) => setForm({ ...form, taxClassification })}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TAX_CLASSIFICATIONS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="tax-citizenship">Country of citizenship (2-letter code)</Label>
+                <Input id="tax-citizenship" maxLength={2} value={form.citizenshipCountry} onChange={set('citizenshipCountry')} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="tax-country">Country of residence (2-letter code)</Label>
+                <Input id="tax-country" maxLength={2} value={form.country} onChange={set('country')} className="mt-1" />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="tax-address1">Address</Label>
+            <Input id="tax-address1" value={form.addressLine1} onChange={set('addressLine1')} className="mt-1" />
+            <Input placeholder="Apartment, suite (optional)" value={form.addressLine2} onChange={set('addressLine2')} className="mt-2" />
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="tax-city">City</Label>
+              <Input id="tax-city" value={form.city} onChange={set('city')} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="tax-state">{isW9 ? 'State' : 'Region (optional)'}</Label>
+              <Input id="tax-state" maxLength={isW9 ? 2 : 100} value={form.state} onChange={set('state')} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="tax-postal">{isW9 ? 'ZIP code' : 'Postal code (optional)'}</Label>
+              <Input id="tax-postal" value={form.postalCode} onChange={set('postalCode')} className="mt-1" />
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label>Tax ID type</Label>
+              <Select value={form.tinType} onValueChange={(tinType) => setForm({ ...form, tinType })}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!isW9 && <SelectItem value="foreign">Foreign tax ID</SelectItem>}
+                  <SelectItem value="ssn">SSN</SelectItem>
+                  <SelectItem value="ein">EIN</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="tax-tin">Tax ID</Label>
+              <Input
+                id="tax-tin"
+                autoComplete="off"
+                value={form.tin}
+                onChange={set('tin')}
+                placeholder={profile ? `On file: ${profile.tinMasked}` : ''}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          {!isW9 && (
+            <div className="grid md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="tax-treaty-country">Treaty country (optional)</Label>
+                <Input id="tax-treaty-country" maxLength={2} value={form.treatyCountry} onChange={set('treatyCountry')} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="tax-treaty-article">Treaty article</Label>
+                <Input id="tax-treaty-article" value={form.treatyArticle} onChange={set('treatyArticle')} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="tax-treaty-rate">Withholding rate %</Label>
+                <Input id="tax-treaty-rate" type="number" min={0} max={30} value={form.treatyRate} onChange={set('treatyRate')} className="mt-1" />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="tax-signature">Signature (type your full name)</Label>
+            <Input id="tax-signature" value={form.signatureName} onChange={set('signatureName')} className="mt-1" />
+          </div>
+
+          <div className="flex items-start gap-2">
+            <Checkbox id="tax-certify" checked={certified} onCheckedChange={(checked) => setCertified(checked === true)} />
+            <label htmlFor="tax-certify" className="text-sm text-gray-700">
+              Under penalties of perjury, I certify that the information on this {isW9 ? 'W-9' : 'W-8BEN'} is true, correct and complete.
+            </label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSubmit || saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Submit'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
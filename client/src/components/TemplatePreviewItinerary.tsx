@@ -0,0 +1,116 @@
+import React from 'react';
+import { Lock, MapPin, Clock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ClientTemplatePreview } from '@/lib/types';
+
+interface TemplatePreviewItineraryProps {
+  preview: ClientTemplatePreview;
+}
+
+const TIME_OF_DAY_LABELS = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+} as const;
+
+// The areas the trip covers, drawn as dots sized by how many activities are there
+function PreviewHeatmap({ cells }: { cells: ClientTemplatePreview['heatmap'] }) {
+  if (cells.length === 0) return null;
+
+  const lats = cells.map(cell => cell.latitude);
+  const lons = cells.map(cell => cell.longitude);
+  const [minLat, maxLat] = [Math.min(...lats), Math.max(...lats)];
+  const [minLon, maxLon] = [Math.min(...lons), Math.max(...lons)];
+  const span = Math.max(maxLat - minLat, maxLon - minLon, 0.02);
+  const maxWeight = Math.max(...cells.map(cell => cell.weight));
+
+  return (
+    <svg viewBox="0 0 100 100" className="w-full h-48 rounded-lg bg-purple-50" aria-label="Areas this trip covers">
+      {cells.map((cell, index) => (
+        <circle
+          key={index}
+          cx={10 + ((cell.longitude - minLon) / span) * 80}
+          cy={90 - ((cell.latitude - minLat) / span) * 80}
+          r={3 + (cell.weight / maxWeight) * 7}
+          className="fill-purple-500"
+          opacity={0.25 + (cell.weight / maxWeight) * 0.5}
+        />
+      ))}
+    </svg>
+  );
+}
+
+export default function TemplatePreviewItinerary({ preview }: TemplatePreviewItineraryProps) {
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        {preview.categories.map(({ category, count }) => (
+          <Badge key={category} variant="outline">
+            {category} · {count}
+          </Badge>
+        ))}
+      </div>
+
+      <PreviewHeatmap cells={preview.heatmap} />
+
+      <div className="space-y-3">
+        {preview.days.map((day) => {
+          const sample = preview.sampleDay?.day === day.day ? preview.sampleDay : null;
+          return (
+            <div key={day.day} className="p-4 rounded-lg border">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold">
+                  Day {day.day}{day.title ? `: ${day.title}` : ''}
+                </h4>
+                <span className="text-sm text-gray-600">
+                  {day.activityCount} {day.activityCount === 1 ? 'activity' : 'activities'}
+                </span>
+              </div>
+
+              {sample ? (
+                <div className="mt-3 space-y-2">
+                  <Badge className="bg-purple-100 text-purple-700">Sample day</Badge>
+                  {sample.activities.map((activity, index) => (
+                    <div key={index} className="flex gap-3 text-sm">
+                      <Clock className="h-4 w-4 text-purple-600 mt-0.5 flex-shrink-0" />
+                      <div>
+                        <span className="font-medium">{activity.time || (activity.timeOfDay && TIME_OF_DAY_LABELS[activity.timeOfDay])}</span>{' '}
+                        {activity.title}
+                        {activity.location && (
+                          <span className="text-gray-600 flex items-center gap-1">
+                            <MapPin className="h-3 w-3" />
+                            {activity.location}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : day.activities ? (
+                <ul className="mt-3 space-y-1 text-sm text-gray-700">
+                  {day.activities.map((activity, index) => (
+                    <li key={index}>
+                      {activity.timeOfDay && <span className="text-gray-500">{TIME_OF_DAY_LABELS[activity.timeOfDay]} · </span>}
+                      {activity.title}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {day.categories.map(category => (
+                    <Badge key={category} variant="secondary" className="text-xs">{category}</Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="flex items-center justify-center gap-2 text-sm text-gray-600">
+        <Lock className="h-4 w-4" />
+        Buy this template to see every activity, location, time and tip
+      </p>
+    </div>
+  );
+}
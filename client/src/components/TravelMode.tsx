@@ -1,11 +1,15 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useLocation } from 'wouter';
 import { useMobileFeatures } from '@/hooks/useMobileFeatures';
+import { useOfflineTrip } from '@/hooks/useOfflineTrip';
+import { useAuth } from '@/contexts/JWTAuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
 import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
 import {
   MapPin,
   Navigation,
@@ -18,7 +22,11 @@ import {
   Route,
   Star,
   Upload,
-  Phone
+  Phone,
+  Download,
+  RefreshCw,
+  AlertTriangle,
+  BookOpen
 } from 'lucide-react';
 
 interface TravelModeProps {
@@ -27,7 +35,7 @@ interface TravelModeProps {
   currentActivity?: any;
 }
 
-export default function TravelMode({ tripId, activities, currentActivity }: TravelModeProps) {
+export default function TravelMode({ tripId, activities: activitiesProp, currentActivity }: TravelModeProps) {
   const {
     currentLocation,
     isLocationEnabled,
@@ -40,10 +48,43 @@ export default function TravelMode({ tripId, activities, currentActivity }: Trav
     openMapsNavigation
   } = useMobileFeatures();
 
-  const [checkedInActivities, setCheckedInActivities] = useState<Set<number>>(new Set());
-  const [tripPhotos, setTripPhotos] = useState<string[]>([]);
+  const { userId } = useAuth();
+  const {
+    bundle,
+    isSyncing,
+    pendingCount,
+    pendingPhotos,
+    conflicts,
+    tileProgress,
+    sync,
+    saveForOffline,
+    checkIn,
+    setCheckinNote,
+    addPhoto,
+    setTodoCompleted,
+    resolveConflict
+  } = useOfflineTrip(tripId);
+
+  const [, setLocation] = useLocation();
   const [nearbyActivities, setNearbyActivities] = useState<any[]>([]);
 
+  // Offline, the stored copy is the only source of activities
+  const activities: any[] = activitiesProp.length === 0 && bundle ? bundle.activities : activitiesProp;
+
+  // This traveller's check-ins, latest first
+  const myCheckins = useMemo(
+    () => (bundle?.checkins || [])
+      .filter(c => c.userId === userId)
+      .sort((a, b) => b.checkedInAt.localeCompare(a.checkedInAt)),
+    [bundle, userId]
+  );
+  const checkedInActivities = useMemo(() => new Set(myCheckins.map(c => c.activityId)), [myCheckins]);
+
+  // Synced photos plus ones still waiting to upload
+  const pendingPhotoUrls = useMemo(() => pendingPhotos.map(photo => URL.createObjectURL(photo.blob)), [pendingPhotos]);
+  useEffect(() => () => pendingPhotoUrls.forEach(url => URL.revokeObjectURL(url)), [pendingPhotoUrls]);
+  const tripPhotos = [...(bundle?.photos || []).map(photo => photo.fileUrl), ...pendingPhotoUrls];
+
   // Calculate travel progress
   const totalActivities = activities.length;
   const completedActivities = checkedInActivities.size;
@@ -112,7 +153,7 @@ export default function TravelMode({ tripId, activities, currentActivity }: Trav
   };
 
   const handleCheckIn = (activityId: number) => {
-    setCheckedInActivities(prev => new Set([...prev, activityId]));
+    checkIn(activityId, currentLocation);
 
     const activity = activities.find(a => a.id === activityId);
     if (activity) {
@@ -127,22 +168,12 @@ export default function TravelMode({ tripId, activities, currentActivity }: Trav
     try {
       const photoData = await capturePhoto();
       if (photoData) {
-        setTripPhotos(prev => [...prev, photoData]);
-
-        // Store photo with current location if available
-        if (currentLocation) {
-          const photoWithLocation = {
-            data: photoData,
-            location: currentLocation,
-            timestamp: Date.now(),
-            activityId: currentActivity?.id
-          };
-
-          // Save to localStorage for offline mode
-          const savedPhotos = JSON.parse(localStorage.getItem('trip_photos') || '[]');
-          savedPhotos.push(photoWithLocation);
-          localStorage.setItem('trip_photos', JSON.stringify(savedPhotos));
-        }
+        // Kept on the device until it uploads
+        // Filed under the current activity, or the last place checked in at
+        await addPhoto(photoData, {
+          activityId: currentActivity?.id ?? myCheckins[0]?.activityId,
+          location: currentLocation
+        });
 
         sendNotification(
           'Photo Captured!',
@@ -211,6 +242,33 @@ export default function TravelMode({ tripId, activities, currentActivity }: Trav
             </div>
           </div>
 
+          <div className="flex items-center justify-between mb-4 text-sm">
+            <span className="text-gray-600 dark:text-gray-300">
+              {pendingCount > 0
+                ? `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync`
+                : bundle
+                  ? `Saved for offline · ${new Date(bundle.syncedAt).toLocaleString()}`
+                  : 'Not saved for offline yet'}
+            </span>
+            <div className="flex gap-2">
+              {pendingCount > 0 && isOnline && (
+                <Button variant="ghost" size="sm" onClick={() => sync()} disabled={isSyncing}>
+                  <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => saveForOffline()} disabled={!isOnline}>
+                <Download className="w-4 h-4 mr-1" />
+                Save offline
+              </Button>
+            </div>
+          </div>
+          {tileProgress && tileProgress.done < tileProgress.total && (
+            <div className="mb-4 space-y-1">
+              <div className="text-xs text-gray-500">Downloading map ({tileProgress.done}/{tileProgress.total})</div>
+              <Progress value={(tileProgress.done / tileProgress.total) * 100} className="h-1" />
+            </div>
+          )}
+
           <div className="space-y-3">
             <div className="flex justify-between items-center">
               <span className="text-sm">Trip Progress</span>
@@ -223,6 +281,26 @@ export default function TravelMode({ tripId, activities, currentActivity }: Trav
         </CardContent>
       </Card>
 
+      {/* Offline edits someone else changed first */}
+      {conflicts.map(conflict => (
+        <Alert key={conflict.clientId} className="border-orange-200 bg-orange-50">
+          <AlertTriangle className="w-4 h-4" />
+          <AlertDescription>
+            <div className="mb-2">
+              {conflict.result.reason || 'This changed while you were offline'}: your edit wasn't applied.
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => resolveConflict(conflict, 'theirs')}>
+                Keep theirs
+              </Button>
+              <Button size="sm" onClick={() => resolveConflict(conflict, 'mine')}>
+                Use mine
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      ))}
+
       {/* Location Status */}
       {locationError && (
         <Alert className="border-yellow-200 bg-yellow-50">
@@ -393,6 +471,74 @@ export default function TravelMode({ tripId, activities, currentActivity }: Trav
         </CardContent>
       </Card>
 
+      {/* Check-ins with notes for the journal */}
+      {myCheckins.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <BookOpen className="w-5 h-5" />
+              Your Check-ins
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {myCheckins.slice(0, 5).map(checkin => {
+                const activity = activities.find(a => a.id === checkin.activityId);
+                return (
+                  <div key={checkin.activityId} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium">{activity?.title || 'Activity'}</span>
+                      <span className="text-gray-500">
+                        {new Date(checkin.checkedInAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    </div>
+                    <CheckinNoteInput
+                      note={checkin.note || ''}
+                      onSave={note => setCheckinNote(checkin.activityId, note)}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-4 w-full flex items-center gap-2"
+              onClick={() => setLocation(`/trip/${tripId}/journal`)}
+            >
+              <BookOpen className="w-4 h-4" />
+              Open Trip Journal
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Checklist works offline too */}
+      {bundle && bundle.todos.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <CheckCircle className="w-5 h-5" />
+              Checklist
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {bundle.todos.map(todo => (
+                <label key={todo.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!!todo.isCompleted}
+                    onChange={e => setTodoCompleted(todo.id, e.target.checked)}
+                  />
+                  <span className={todo.isCompleted ? 'line-through text-gray-500' : ''}>{todo.content}</span>
+                </label>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Trip Photos */}
       {tripPhotos.length > 0 && (
         <Card>
@@ -414,10 +560,10 @@ export default function TravelMode({ tripId, activities, currentActivity }: Trav
                 </div>
               ))}
             </div>
-            {!isOnline && (
+            {pendingPhotos.length > 0 && (
               <div className="mt-3 text-sm text-yellow-600 flex items-center gap-1">
                 <Upload className="w-4 h-4" />
-                Photos will sync when you're back online
+                {isOnline ? 'Uploading photos...' : "Photos will sync when you're back online"}
               </div>
             )}
           </CardContent>
@@ -443,4 +589,23 @@ export default function TravelMode({ tripId, activities, currentActivity }: Trav
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Saves when the field loses focus, so each keystroke isn't queued
+function CheckinNoteInput({ note, onSave }: { note: string; onSave: (note: string) => void }) {
+  const [draft, setDraft] = useState(note);
+
+  useEffect(() => setDraft(note), [note]);
+
+  return (
+    <Input
+      value={draft}
+      placeholder="How was it?"
+      maxLength={1000}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== note) onSave(draft);
+      }}
+    />
+  );
+}
@@ -0,0 +1,183 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { jwtAuth } from "@/lib/jwtAuth";
+import { ClientTrip } from "@/lib/types";
+import { CalendarPlus, Copy, Download, RefreshCw, XCircle } from "lucide-react";
+
+interface CalendarSubscription {
+  subscribed: boolean;
+  url: string | null;
+  webcalUrl: string | null;
+}
+
+interface TripCalendarExportProps {
+  trip: ClientTrip;
+  onSave: (tripId: number, updates: Partial<ClientTrip>) => Promise<void>;
+}
+
+export default function TripCalendarExport({ trip, onSave }: TripCalendarExportProps) {
+  const { toast } = useToast();
+  const [timezone, setTimezone] = useState(trip.timezone || "");
+  const [isDownloading, setIsDownloading] = useState(false);
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  useEffect(() => {
+    setTimezone(trip.timezone || "");
+  }, [trip.timezone]);
+
+  const subscriptionKey = ['calendar-subscription', trip.id];
+
+  const { data: subscription } = useQuery({
+    queryKey: subscriptionKey,
+    queryFn: async () => {
+      return await apiRequest('GET', `/api/trips/${trip.id}/calendar/subscription`) as CalendarSubscription;
+    },
+  });
+
+  const issueFeed = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', `/api/trips/${trip.id}/calendar/subscription`) as CalendarSubscription;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(subscriptionKey, data);
+      toast({
+        title: subscription?.subscribed ? "Calendar link reset" : "Calendar link created",
+        description: subscription?.subscribed
+          ? "The previous link no longer works."
+          : "Add it to Google Calendar or Outlook to keep your trip in sync.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Could not create calendar link", variant: "destructive" });
+    },
+  });
+
+  const revokeFeed = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('DELETE', `/api/trips/${trip.id}/calendar/subscription`) as CalendarSubscription;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(subscriptionKey, data);
+      toast({ title: "Calendar link disabled" });
+    },
+  });
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const token = jwtAuth.getToken();
+      const res = await fetch(`/api/trips/${trip.id}/calendar.ics`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      if (!res.ok) throw new Error(res.statusText);
+
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${trip.title || 'trip'}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: "Download failed", description: "Please try again", variant: "destructive" });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleCopy = (value: string) => {
+    navigator.clipboard.writeText(value).then(
+      () => toast({ title: "Link copied", description: "Paste it into your calendar app's \"Add by URL\" option." }),
+      () => toast({ title: "Error", description: "Could not copy link to clipboard", variant: "destructive" })
+    );
+  };
+
+  const handleSaveTimezone = async () => {
+    try {
+      await onSave(trip.id, { timezone: timezone || undefined });
+      toast({ title: "Time zone saved", description: "Calendar events will use this time zone." });
+    } catch (error) {
+      toast({ title: "Error", description: "Invalid time zone", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <Label htmlFor="tripTimezone">Trip time zone</Label>
+        <div className="flex items-center space-x-2">
+          <Input
+            id="tripTimezone"
+            placeholder={browserTimezone}
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+          />
+          <Button type="button" variant="outline" onClick={handleSaveTimezone}>
+            Save
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Activity times are exported in this zone. Leave empty to keep them at the same clock time wherever you open the calendar.
+          {!timezone && (
+            <button type="button" className="ml-1 underline" onClick={() => setTimezone(browserTimezone)}>
+              Use {browserTimezone}
+            </button>
+          )}
+        </p>
+      </div>
+
+      <Button onClick={handleDownload} disabled={isDownloading} variant="outline" className="w-full">
+        <Download className="w-4 h-4 mr-2" />
+        {isDownloading ? "Preparing..." : "Download .ics file"}
+      </Button>
+
+      <div className="space-y-2">
+        <Label>Subscribe in Google Calendar or Outlook</Label>
+        {subscription?.subscribed && subscription.url ? (
+          <>
+            <div className="flex items-center space-x-2">
+              <Input value={subscription.url} readOnly />
+              <Button type="button" variant="outline" size="icon" onClick={() => handleCopy(subscription.url!)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex space-x-2">
+              {subscription.webcalUrl && (
+                <Button asChild size="sm" className="flex-1">
+                  <a href={subscription.webcalUrl}>
+                    <CalendarPlus className="w-4 h-4 mr-2" />
+                    Open in calendar app
+                  </a>
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => issueFeed.mutate()} disabled={issueFeed.isPending}>
+                <RefreshCw className="w-4 h-4 mr-1" />
+                Reset
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => revokeFeed.mutate()} disabled={revokeFeed.isPending}>
+                <XCircle className="w-4 h-4 mr-1" />
+                Disable
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Calendars refresh this link automatically when activities change.
+              {trip.sharePermission === 'edit'
+                ? " Notes and booking references are included."
+                : " Notes and booking references are hidden while the share link is view-only."}
+            </p>
+          </>
+        ) : (
+          <Button onClick={() => issueFeed.mutate()} disabled={issueFeed.isPending} className="w-full">
+            <CalendarPlus className="w-4 h-4 mr-2" />
+            Create calendar link
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { API_ENDPOINTS } from "@/lib/constants";
+import { History, RotateCcw, Undo2 } from "lucide-react";
+
+interface FieldDiff {
+  field: string;
+  before: any;
+  after: any;
+}
+
+interface HistoryChange {
+  id: number;
+  entityType: 'trip' | 'activity' | 'note' | 'todo';
+  entityId: number;
+  action: 'create' | 'update' | 'delete';
+  label: string | null;
+  day: string | null;
+  diff: FieldDiff[];
+}
+
+interface HistoryChangeset {
+  id: number;
+  source: 'user' | 'ai' | 'suggestion' | 'import' | 'restore' | 'booking' | 'template';
+  description: string | null;
+  createdAt: string | null;
+  revertedByChangesetId: number | null;
+  user: { id: number; username: string | null; displayName: string | null } | null;
+  changes: HistoryChange[];
+}
+
+interface TripHistoryPanelProps {
+  tripId: number | string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SOURCE_LABELS: Record<HistoryChangeset['source'], string> = {
+  user: 'Edit',
+  ai: 'AI',
+  suggestion: 'Suggestion',
+  import: 'Import',
+  restore: 'Restore',
+  booking: 'Booking',
+  template: 'Template update',
+};
+
+const ACTION_LABELS: Record<HistoryChange['action'], string> = {
+  create: 'Added',
+  update: 'Changed',
+  delete: 'Removed',
+};
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function describeChange(change: HistoryChange): string {
+  const subject = change.label || `${change.entityType} #${change.entityId}`;
+  return `${ACTION_LABELS[change.action]} ${change.entityType === 'trip' ? 'trip details' : subject}`;
+}
+
+export default function TripHistoryPanel({ tripId, open, onOpenChange }: TripHistoryPanelProps) {
+  const { toast } = useToast();
+  const historyKey = [API_ENDPOINTS.TRIPS, tripId, "history"];
+
+  const { data, isLoading } = useQuery({
+    queryKey: historyKey,
+    queryFn: async () => {
+      return await apiRequest('GET', `/api/trips/${tripId}/history`) as { changesets: HistoryChangeset[] };
+    },
+    enabled: open,
+  });
+
+  const refreshTrip = () => {
+    queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.TRIPS, tripId] });
+  };
+
+  const revert = useMutation({
+    mutationFn: async ({ changesetId, force }: { changesetId: number; force?: boolean }) => {
+      return await apiRequest('POST', `/api/trips/${tripId}/history/${changesetId}/revert`, { force });
+    },
+    onSuccess: (result, variables) => {
+      if (result?.conflicts) {
+        if (window.confirm("Some of these items were changed again later. Undo anyway?")) {
+          revert.mutate({ changesetId: variables.changesetId, force: true });
+        }
+        return;
+      }
+      if (!result?.changesetId) {
+        toast({ title: "Could not undo", description: result?.message, variant: "destructive" });
+        return;
+      }
+      toast({ title: "Change undone" });
+      refreshTrip();
+    },
+  });
+
+  const restore = useMutation({
+    mutationFn: async ({ changesetId, date }: { changesetId: number; date?: string }) => {
+      return await apiRequest('POST', `/api/trips/${tripId}/history/restore`, { changesetId, date });
+    },
+    onSuccess: (result, variables) => {
+      if (result?.message) {
+        toast({ title: "Could not restore", description: result.message, variant: "destructive" });
+        return;
+      }
+      toast({ title: variables.date ? `Restored ${variables.date}` : "Trip restored" });
+      refreshTrip();
+    },
+  });
+
+  const changesets = data?.changesets || [];
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version history
+          </SheetTitle>
+          <SheetDescription>
+            Every change to this trip, newest first. Undo a single change or go back to any earlier point.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading && <p className="mt-6 text-sm text-muted-foreground">Loading history…</p>}
+        {!isLoading && changesets.length === 0 && (
+          <p className="mt-6 text-sm text-muted-foreground">No changes recorded yet.</p>
+        )}
+
+        <ol className="mt-6 space-y-4">
+          {changesets.map((changeset, index) => {
+            const days = Array.from(new Set(changeset.changes.map(c => c.day).filter((d): d is string => !!d)));
+            return (
+              <li key={changeset.id} className="border rounded-md p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={changeset.source === 'ai' ? 'default' : 'secondary'}>
+                      {SOURCE_LABELS[changeset.source]}
+                    </Badge>
+                    <span className="text-sm font-medium">
+                      {changeset.user?.displayName || changeset.user?.username || 'Someone'}
+                    </span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {changeset.createdAt ? new Date(changeset.createdAt).toLocaleString() : ''}
+                  </span>
+                </div>
+
+                {changeset.description && <p className="mt-1 text-sm">{changeset.description}</p>}
+
+                <ul className="mt-2 space-y-1 text-sm">
+                  {changeset.changes.slice(0, 8).map(change => (
+                    <li key={change.id}>
+                      <span>{describeChange(change)}</span>
+                      {change.action === 'update' && change.diff.map(diff => (
+                        <div key={diff.field} className="ml-3 text-xs text-muted-foreground">
+                          {diff.field}: <span className="line-through">{formatValue(diff.before)}</span> → {formatValue(diff.after)}
+                        </div>
+                      ))}
+                    </li>
+                  ))}
+                  {changeset.changes.length > 8 && (
+                    <li className="text-xs text-muted-foreground">and {changeset.changes.length - 8} more</li>
+                  )}
+                </ul>
+
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {changeset.revertedByChangesetId ? (
+                    <span className="text-xs text-muted-foreground">Undone</span>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={revert.isPending}
+                      onClick={() => revert.mutate({ changesetId: changeset.id })}
+                    >
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Undo
+                    </Button>
+                  )}
+                  {index > 0 && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={restore.isPending}
+                      onClick={() => restore.mutate({ changesetId: changeset.id })}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore trip to here
+                    </Button>
+                  )}
+                  {index > 0 && days.map(day => (
+                    <Button
+                      key={day}
+                      size="sm"
+                      variant="ghost"
+                      disabled={restore.isPending}
+                      onClick={() => restore.mutate({ changesetId: changeset.id, date: day })}
+                    >
+                      Restore {day}
+                    </Button>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </SheetContent>
+    </Sheet>
+  );
+}
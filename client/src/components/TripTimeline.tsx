@@ -11,6 +11,7 @@ import {
   Sun, Moon, Sunrise, ChevronRight, Filter,
   Check, Circle, AlertCircle, DollarSign
 } from 'lucide-react';
+import { openingHoursWarnings } from '@/lib/openingHours';
 
 interface TripTimelineProps {
   trip: any;
@@ -32,6 +33,7 @@ interface TimelineItem {
   icon: any;
   color: string;
   duration?: string;
+  openingHoursWarning?: string; // Place is closed at the planned time
   booking?: {
     reference?: string;
     provider?: string;
@@ -89,6 +91,9 @@ export default function TripTimeline({
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
   const [filterType, setFilterType] = useState<string>('all');
 
+  // Activities planned while the place is closed
+  const closedWarnings = useMemo(() => openingHoursWarnings(trip, activities), [trip, activities]);
+
   // Parse and combine all timeline items
   const timelineItems = useMemo(() => {
     const items: TimelineItem[] = [];
@@ -108,6 +113,7 @@ export default function TripTimeline({
         icon: getActivityIcon(activity.type),
         color: getActivityColor(activity.type),
         duration: activity.duration,
+        openingHoursWarning: closedWarnings.get(activity.id),
         booking: {
           reference: activity.bookingReference,
           provider: activity.provider,
@@ -160,7 +166,7 @@ export default function TripTimeline({
     }
 
     return items;
-  }, [activities, trip, filterType]);
+  }, [activities, trip, filterType, closedWarnings]);
 
   // Group items by day
   const itemsByDay = useMemo(() => {
@@ -308,6 +314,13 @@ export default function TripTimeline({
                                   Booking: {item.booking.reference}
                                 </div>
                               )}
+
+                              {item.openingHoursWarning && (
+                                <div className="mt-2 flex items-center gap-1 text-xs text-amber-700">
+                                  <AlertCircle className="w-3 h-3" />
+                                  {item.openingHoursWarning}
+                                </div>
+                              )}
                             </div>
 
                             <TimeIcon className="w-5 h-5 text-gray-400" />
@@ -367,6 +380,11 @@ export default function TripTimeline({
                           <p className="text-sm font-medium truncate">{item.title}</p>
                           <p className="text-xs text-gray-500">{item.time}</p>
                         </div>
+                        {item.openingHoursWarning && (
+                          <span title={item.openingHoursWarning}>
+                            <AlertCircle className="w-4 h-4 text-amber-600" />
+                          </span>
+                        )}
                         {item.status === 'completed' && (
                           <Check className="w-4 h-4 text-green-500" />
                         )}
@@ -423,6 +441,12 @@ export default function TripTimeline({
                       {item.location && <span>{item.location}</span>}
                       {item.price && <span>${item.price}</span>}
                     </div>
+                    {item.openingHoursWarning && (
+                      <div className="flex items-center gap-1 mt-1 text-xs text-amber-700">
+                        <AlertCircle className="w-3 h-3" />
+                        {item.openingHoursWarning}
+                      </div>
+                    )}
                   </div>
 
                   <ChevronRight className="w-5 h-5 text-gray-400" />
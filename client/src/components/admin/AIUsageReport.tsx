@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Activity, DollarSign, Loader2, Timer, Zap } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { apiRequest } from '@/lib/queryClient';
+
+interface UsageMetrics {
+  requests: number;
+  cacheHits: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+interface AIUsageReportData {
+  since: string;
+  days: number;
+  totals: UsageMetrics;
+  byFeature: Array<UsageMetrics & { feature: string }>;
+  byDay: Array<UsageMetrics & { day: string; feature: string }>;
+  topUsers: Array<UsageMetrics & { userId: number | null; username: string | null }>;
+}
+
+const FEATURE_COLORS = ['#8b5cf6', '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#ec4899', '#14b8a6', '#6366f1', '#84cc16'];
+
+const formatCost = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+
+export default function AIUsageReport() {
+  const [days, setDays] = useState('30');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin', 'ai-usage', days],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/ai-usage?days=${days}`);
+      return response as AIUsageReportData;
+    },
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  // One row per day with each feature's spend as a column, for the stacked chart
+  const features = data.byFeature.map(row => row.feature);
+  const spendByDay = Object.values(
+    data.byDay.reduce<Record<string, Record<string, string | number>>>((rows, row) => {
+      rows[row.day] = rows[row.day] || { day: row.day };
+      rows[row.day][row.feature] = Number(row.costUsd.toFixed(4));
+      return rows;
+    }, {})
+  );
+  const cacheRate = data.totals.requests + data.totals.cacheHits > 0
+    ? Math.round((data.totals.cacheHits / (data.totals.requests + data.totals.cacheHits)) * 100)
+    : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">AI Usage</h2>
+          <p className="text-sm text-gray-600">Estimated from list prices; cache hits cost nothing</p>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Spend</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCost(data.totals.costUsd)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Requests</CardTitle>
+            <Activity className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{data.totals.requests.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">{data.totals.failures} failed</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Cache Hit Rate</CardTitle>
+            <Zap className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{cacheRate}%</div>
+            <p className="text-xs text-muted-foreground">{data.totals.cacheHits} cached answers</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Avg Latency</CardTitle>
+            <Timer className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{(data.totals.avgLatencyMs / 1000).toFixed(1)}s</div>
+            <p className="text-xs text-muted-foreground">
+              {(data.totals.promptTokens + data.totals.completionTokens).toLocaleString()} tokens
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Spend by Day</CardTitle>
+          <CardDescription>Stacked by feature, in USD</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={spendByDay}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="day" />
+              <YAxis />
+              <Tooltip formatter={(value) => formatCost(Number(value))} />
+              <Legend />
+              {features.map((feature, index) => (
+                <Bar key={feature} dataKey={feature} stackId="spend" fill={FEATURE_COLORS[index % FEATURE_COLORS.length]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>By Feature</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="pb-2">Feature</th>
+                  <th className="pb-2 text-right">Requests</th>
+                  <th className="pb-2 text-right">Tokens</th>
+                  <th className="pb-2 text-right">Spend</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.byFeature.map(row => (
+                  <tr key={row.feature} className="border-t">
+                    <td className="py-2">{row.feature}</td>
+                    <td className="py-2 text-right">{row.requests.toLocaleString()}</td>
+                    <td className="py-2 text-right">{(row.promptTokens + row.completionTokens).toLocaleString()}</td>
+                    <td className="py-2 text-right">{formatCost(row.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Users</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="pb-2">User</th>
+                  <th className="pb-2 text-right">Requests</th>
+                  <th className="pb-2 text-right">Spend</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.topUsers.map(row => (
+                  <tr key={row.userId ?? 'system'} className="border-t">
+                    <td className="py-2">
+                      {row.userId === null ? <Badge variant="outline">System</Badge> : row.username || `User ${row.userId}`}
+                    </td>
+                    <td className="py-2 text-right">{row.requests.toLocaleString()}</td>
+                    <td className="py-2 text-right">{formatCost(row.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -87,9 +87,14 @@ export default function useAIAssistant() {
         id: string;
         suggestedTime: string;
         suggestedDay: number;
+        suggestedDate: string;
+        suggestedOrder: number;
         reason: string;
       }>;
       recommendations: string[];
+      explanation?: string | null;
+      travelMinutesBefore?: number;
+      travelMinutesAfter?: number;
     }> => {
       const result = await apiRequest("POST", "/api/ai/optimize-itinerary", {
         tripId,
@@ -1,5 +1,14 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { API_ENDPOINTS } from '@/lib/constants';
+import {
+  GenerationCancelledError,
+  GenerationHandlers,
+  cancelGeneration,
+  resumeGeneration,
+  streamGeneration,
+} from '@/lib/generationStream';
+import type { GenerationProgress } from '@/lib/types';
 
 interface GenerateFullItineraryOptions {
   tripId: number;
@@ -8,60 +17,66 @@ interface GenerateFullItineraryOptions {
   currentActivitiesCount?: number;
 }
 
-export function useGenerateFullItinerary() {
-  const [isGenerating, setIsGenerating] = useState(false);
-  const { toast } = useToast();
+// An activity planned by the generator, not saved yet
+export interface PlannedActivity {
+  date: string;
+  time: string;
+  title: string;
+  locationName: string;
+  latitude: number;
+  longitude: number;
+  notes: string;
+  tag: string;
+}
 
-  const generateFullItinerary = async ({
-    tripId,
-    startDate,
-    endDate,
-    currentActivitiesCount = 0
-  }: GenerateFullItineraryOptions): Promise<number> => {
-    // Calculate expected activities
-    const tripStart = new Date(startDate);
-    const tripEnd = new Date(endDate);
-    const tripDays = Math.ceil((tripEnd.getTime() - tripStart.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-    const expectedActivities = tripDays * 3; // At least 3 per day
+interface FullItineraryResult {
+  success: boolean;
+  activitiesCreated: number;
+  message: string;
+}
 
-    // If we already have enough activities, return
-    if (currentActivitiesCount >= expectedActivities) {
-      console.log(`Trip already has ${currentActivitiesCount} activities for ${tripDays} days`);
-      return currentActivitiesCount;
-    }
+// Running job for a trip, so a reload can pick the stream back up
+const jobKey = (tripId: number) => `trip_${tripId}_generation_job`;
+
+export function useGenerateFullItinerary(tripId?: number) {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const [plannedActivities, setPlannedActivities] = useState<PlannedActivity[]>([]);
+  const jobIdRef = useRef<string | null>(null);
+  const { toast } = useToast();
 
-    console.log(`Trip needs ${expectedActivities} activities for ${tripDays} days, currently has ${currentActivitiesCount}`);
-    
+  const run = useCallback(async (id: number, tripDays: number, start: (handlers: GenerationHandlers) => Promise<FullItineraryResult>) => {
     setIsGenerating(true);
-    
+    setProgress(null);
+    setPlannedActivities([]);
+
     try {
-      const response = await fetch('/api/ai/generate-full-itinerary', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
+      const result = await start({
+        onJob: jobId => {
+          jobIdRef.current = jobId;
+          localStorage.setItem(jobKey(id), jobId);
         },
-        body: JSON.stringify({ trip_id: tripId })
+        onProgress: setProgress,
+        onActivities: batch => setPlannedActivities(prev => [...prev, ...batch.activities]),
       });
-
-      if (!response.ok) {
-        throw new Error('Failed to generate full itinerary');
-      }
-
-      const result = await response.json();
       const activitiesCreated = result.activitiesCreated || 0;
-      
-      console.log(`Generated ${activitiesCreated} activities for trip ${tripId}`);
-      
+
       if (activitiesCreated > 0) {
         toast({
           title: "🎉 Full Itinerary Generated!",
-          description: `Added ${activitiesCreated} activities to your ${tripDays}-day trip`,
+          description: `Added ${activitiesCreated} activities to your ${tripDays ? `${tripDays}-day ` : ''}trip`,
         });
       }
-      
+
       return activitiesCreated;
     } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        toast({
+          title: "Generation cancelled",
+          description: "Nothing was added to your trip.",
+        });
+        return 0;
+      }
       console.error('Failed to generate full itinerary:', error);
       toast({
         title: "Partial Itinerary",
@@ -70,12 +85,54 @@ export function useGenerateFullItinerary() {
       });
       return 0;
     } finally {
+      localStorage.removeItem(jobKey(id));
+      jobIdRef.current = null;
       setIsGenerating(false);
     }
+  }, [toast]);
+
+  const generateFullItinerary = async ({
+    tripId,
+    startDate,
+    endDate,
+    currentActivitiesCount = 0
+  }: GenerateFullItineraryOptions): Promise<number> => {
+    // Calculate expected activities
+    const tripStart = new Date(startDate);
+    const tripEnd = new Date(endDate);
+    const tripDays = Math.ceil((tripEnd.getTime() - tripStart.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+    const expectedActivities = tripDays * 3; // At least 3 per day
+
+    // If we already have enough activities, return
+    if (currentActivitiesCount >= expectedActivities) {
+      return currentActivitiesCount;
+    }
+
+    return run(tripId, tripDays, handlers =>
+      streamGeneration(API_ENDPOINTS.AI.GENERATE_FULL_ITINERARY, { trip_id: tripId }, handlers)
+    );
+  };
+
+  // Reattach to a generation that was running when the page was left
+  useEffect(() => {
+    if (!tripId) return;
+    const jobId = localStorage.getItem(jobKey(tripId));
+    if (jobId && !jobIdRef.current) {
+      run(tripId, 0, handlers => resumeGeneration(jobId, handlers));
+    }
+  }, [tripId, run]);
+
+  const cancel = async () => {
+    if (jobIdRef.current) {
+      await cancelGeneration(jobIdRef.current);
+    }
   };
 
   return {
     generateFullItinerary,
-    isGenerating
+    cancel,
+    isGenerating,
+    progress,
+    plannedActivities,
   };
-}
\ No newline at end of file
+}
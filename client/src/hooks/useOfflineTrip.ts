@@ -0,0 +1,282 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { API_ENDPOINTS } from '@/lib/constants';
+import { useAuth } from '@/contexts/JWTAuthContext';
+import {
+  applyToBundle,
+  enqueue,
+  getBundle,
+  getConflicts,
+  getPendingPhotos,
+  getQueue,
+  newClientId,
+  queuePhoto,
+  removeConflict,
+  removePendingPhoto,
+  removeQueued,
+  saveBundle,
+  saveConflict,
+  PendingPhoto,
+} from '@/lib/offlineStore';
+import { cacheTripTiles } from '@/lib/tileCache';
+import { OfflineBundle, OfflineMutation, QueuedMutation, SyncConflict, SyncResult } from '@/lib/types';
+
+interface Location {
+  latitude: number;
+  longitude: number;
+}
+
+// Rejections worth retrying on the next sync rather than dropping
+const RETRYABLE = 'Server error, will retry';
+
+/**
+ * Travel Mode's view of a trip: the copy stored on the device with queued
+ * offline edits applied on top, plus the actions that queue more edits.
+ * The queue replays whenever the browser comes back online.
+ */
+export function useOfflineTrip(tripId: number) {
+  const { userId } = useAuth();
+  const [bundle, setBundle] = useState<OfflineBundle | null>(null);
+  const [queue, setQueue] = useState<QueuedMutation[]>([]);
+  const [pendingPhotos, setPendingPhotos] = useState<PendingPhoto[]>([]);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [tileProgress, setTileProgress] = useState<{ done: number; total: number } | null>(null);
+  const syncingRef = useRef(false);
+
+  const view = useMemo(() => {
+    if (!bundle || !userId) return bundle;
+    return queue.reduce((current, entry) => applyToBundle(current, entry.mutation, userId), bundle);
+  }, [bundle, queue, userId]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const fresh = await apiRequest('GET', `/api/travel/trips/${tripId}/bundle`) as OfflineBundle;
+      if (fresh?.trip) {
+        await saveBundle(fresh);
+        setBundle(fresh);
+      }
+      return fresh;
+    } catch (error) {
+      return null; // Offline or the server is unreachable; keep the stored copy
+    }
+  }, [tripId]);
+
+  const uploadPhotos = useCallback(async () => {
+    for (const photo of await getPendingPhotos(tripId)) {
+      const formData = new FormData();
+      formData.append('photo', photo.blob, `${photo.clientId}.jpg`);
+      formData.append('client_id', photo.clientId);
+      formData.append('taken_at', photo.takenAt);
+      if (photo.activityId) formData.append('activity_id', String(photo.activityId));
+      if (photo.latitude !== undefined) formData.append('latitude', String(photo.latitude));
+      if (photo.longitude !== undefined) formData.append('longitude', String(photo.longitude));
+
+      const response = await fetch(`/api/travel/trips/${tripId}/photos`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: formData
+      });
+      if (!response.ok) break;
+      await removePendingPhoto(photo.clientId);
+    }
+    setPendingPhotos(await getPendingPhotos(tripId));
+  }, [tripId]);
+
+  const sync = useCallback(async () => {
+    if (!navigator.onLine || syncingRef.current) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    try {
+      const queued = await getQueue(tripId);
+      if (queued.length > 0) {
+        const response = await apiRequest('POST', `/api/travel/trips/${tripId}/sync`, {
+          mutations: queued.map(entry => entry.mutation),
+        }) as { results: SyncResult[] };
+
+        const done: string[] = [];
+        for (const result of response.results) {
+          const entry = queued.find(q => q.clientId === result.clientId);
+          if (!entry || (result.status === 'rejected' && result.reason === RETRYABLE)) continue;
+          if (result.status === 'conflict') {
+            await saveConflict({ clientId: entry.clientId, tripId, mutation: entry.mutation, result });
+          }
+          done.push(entry.clientId);
+        }
+        await removeQueued(done);
+      }
+
+      await uploadPhotos();
+      await refresh();
+      queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.TRIPS, tripId] });
+    } catch (error) {
+      // Connection dropped mid-sync; whatever wasn't acknowledged stays queued
+    } finally {
+      setQueue(await getQueue(tripId));
+      setConflicts(await getConflicts(tripId));
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [tripId, refresh, uploadPhotos]);
+
+  const queueMutation = useCallback(async (mutation: OfflineMutation) => {
+    setQueue(await enqueue(tripId, mutation));
+
+    if (navigator.onLine) {
+      sync();
+    } else if ('serviceWorker' in navigator) {
+      // Replays even if the page is in the background when the connection returns
+      const registration = await navigator.serviceWorker.ready;
+      (registration as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } })
+        .sync?.register('travel-sync')
+        .catch(() => undefined);
+    }
+  }, [tripId, sync]);
+
+  // Load the stored copy, then refresh and replay anything left from last time
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const [stored, queued, photos, unresolved] = await Promise.all([
+        getBundle(tripId), getQueue(tripId), getPendingPhotos(tripId), getConflicts(tripId),
+      ]);
+      if (cancelled) return;
+      setBundle(stored ?? null);
+      setQueue(queued);
+      setPendingPhotos(photos);
+      setConflicts(unresolved);
+      if (navigator.onLine) sync();
+    })();
+    return () => { cancelled = true; };
+  }, [tripId, sync]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'REPLAY_OFFLINE_QUEUE') sync();
+      if (event.data?.type === 'TILE_CACHE_PROGRESS' && event.data.tripId === tripId) {
+        setTileProgress({ done: event.data.done, total: event.data.total });
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  }, [tripId, sync]);
+
+  const saveForOffline = useCallback(async () => {
+    const fresh = await refresh();
+    if (fresh?.bounds) {
+      const total = await cacheTripTiles(tripId, fresh.bounds);
+      setTileProgress(total > 0 ? { done: 0, total } : null);
+    }
+    return fresh;
+  }, [tripId, refresh]);
+
+  const checkIn = useCallback((activityId: number, location?: Location | null, note?: string) => {
+    const now = new Date();
+    return queueMutation({
+      type: 'check_in',
+      clientId: newClientId(),
+      activityId,
+      checkedInAt: now.toISOString(),
+      // Lets the journal compare against the plan in the traveller's local time
+      utcOffsetMinutes: -now.getTimezoneOffset(),
+      latitude: location?.latitude,
+      longitude: location?.longitude,
+      note: note || undefined,
+    });
+  }, [queueMutation]);
+
+  const setCheckinNote = useCallback((activityId: number, note: string) => {
+    return queueMutation({ type: 'check_in_note', clientId: newClientId(), activityId, note });
+  }, [queueMutation]);
+
+  const undoCheckIn = useCallback((activityId: number) => {
+    return queueMutation({ type: 'undo_check_in', clientId: newClientId(), activityId });
+  }, [queueMutation]);
+
+  const addPhoto = useCallback(async (dataUrl: string, details: { activityId?: number; location?: Location | null }) => {
+    const blob = await (await fetch(dataUrl)).blob();
+    await queuePhoto({
+      clientId: newClientId(),
+      tripId,
+      blob,
+      activityId: details.activityId,
+      latitude: details.location?.latitude,
+      longitude: details.location?.longitude,
+      takenAt: new Date().toISOString(),
+    });
+    setPendingPhotos(await getPendingPhotos(tripId));
+    if (navigator.onLine) sync();
+  }, [tripId, sync]);
+
+  const setTodoCompleted = useCallback((todoId: number, isCompleted: boolean) => {
+    const todo = view?.todos.find(t => t.id === todoId);
+    return queueMutation({
+      type: 'update_todo',
+      clientId: newClientId(),
+      todoId,
+      base: { isCompleted: !!todo?.isCompleted },
+      fields: { isCompleted },
+    });
+  }, [view, queueMutation]);
+
+  const addNote = useCallback((content: string) => {
+    return queueMutation({ type: 'create_note', clientId: newClientId(), tempId: -Date.now(), content });
+  }, [queueMutation]);
+
+  /**
+   * Settle a conflict: keep the server's version, or re-apply ours on top
+   * of it (queued again with the current values as the new base).
+   */
+  const resolveConflict = useCallback(async (conflict: SyncConflict, keep: 'mine' | 'theirs') => {
+    await removeConflict(conflict.clientId);
+    if (keep === 'mine') {
+      const current = conflict.result.entity || {};
+      const mutation = { ...conflict.mutation, clientId: newClientId() } as OfflineMutation;
+      if (mutation.type === 'update_note') {
+        mutation.base = { content: current.content };
+      } else if (mutation.type === 'update_todo') {
+        mutation.base = { content: current.content, isCompleted: current.isCompleted };
+      } else if (mutation.type === 'activity' && mutation.operation.type === 'update_activity') {
+        mutation.operation = { ...mutation.operation, baseVersion: current.version };
+      }
+      await queueMutation(mutation);
+    }
+    setConflicts(await getConflicts(tripId));
+  }, [tripId, queueMutation]);
+
+  return {
+    bundle: view,
+    isOnline,
+    isSyncing,
+    pendingCount: queue.length + pendingPhotos.length,
+    pendingPhotos,
+    conflicts,
+    tileProgress,
+    sync,
+    saveForOffline,
+    queueMutation,
+    checkIn,
+    setCheckinNote,
+    undoCheckIn,
+    addPhoto,
+    setTodoCompleted,
+    addNote,
+    resolveConflict,
+  };
+}
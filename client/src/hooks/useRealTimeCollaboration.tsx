@@ -1,5 +1,8 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useLocation } from 'wouter';
+import { queryClient } from '@/lib/queryClient';
+import { API_ENDPOINTS } from '@/lib/constants';
+import { ClientActivity } from '@/lib/types';
 
 interface CollaboratorPresence {
   userId: number;
@@ -34,11 +37,58 @@ interface ActivityData {
 }
 
 interface UseRealTimeCollaborationProps {
-  tripId?: number;
+  tripId?: number | string;
   organizationId?: number;
   userId?: number;
 }
 
+// Server-side operation types, see server/services/collaborationService.ts
+export type CollaborationOperation =
+  | { type: 'update_activity'; activity_id: number; base_version?: number; fields: Record<string, unknown> }
+  | { type: 'move_activity'; activity_id: number; after_activity_id: number | null; date?: string; index?: number }
+  | { type: 'delete_activity'; activity_id: number };
+
+export interface OperationAck {
+  op_id: string;
+  status: 'applied' | 'partial' | 'rejected' | 'duplicate';
+  revision?: number;
+  conflicts: Array<{ activity_id: number; field: string; attempted: unknown; current: unknown }>;
+  reason?: string;
+}
+
+interface ReplayedOperation {
+  revision: number;
+  op_id: string | null;
+  user_id: number;
+  op_type: string;
+  changes: {
+    activities: Record<string, unknown>[];
+    deleted_activity_ids: number[];
+  };
+}
+
+interface PendingOperation {
+  message: string;
+  resolve: (ack: OperationAck) => void;
+  reject: (error: Error) => void;
+}
+
+const ACK_TIMEOUT_MS = 15000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Socket payloads skip the HTTP case conversion middleware
+function toClientActivity(row: Record<string, unknown>): Partial<ClientActivity> {
+  return Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [key.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase()), value])
+  ) as Partial<ClientActivity>;
+}
+
+function generateOpId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
 const PRESENCE_COLORS = [
   '#2563eb', '#dc2626', '#059669', '#7c3aed', '#ea580c',
   '#0891b2', '#c2410c', '#be123c', '#4338ca', '#0d9488'
@@ -57,76 +107,144 @@ export function useRealTimeCollaboration({
   const heartbeatRef = useRef<NodeJS.Timeout>();
   const cursorTimeoutRef = useRef<NodeJS.Timeout>();
 
-  // Establish WebSocket connection
+  const [revision, setRevision] = useState<number | null>(null);
+  const revisionRef = useRef<number | null>(null);
+  const pendingRef = useRef<Map<string, PendingOperation>>(new Map());
+  const joinedRef = useRef(false);
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
+  const reconnectAttemptsRef = useRef(0);
+  const numericTripId = tripId !== undefined && tripId !== '' ? Number(tripId) : undefined;
+
+  const updateRevision = (value: number) => {
+    revisionRef.current = value;
+    setRevision(value);
+  };
+
+  const send = (payload: Record<string, unknown>) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ trip_id: numericTripId, ...payload }));
+    }
+  };
+
+  // Patch the cached activity list with the rows an operation touched
+  const applyOperation = (operation: ReplayedOperation) => {
+    const current = revisionRef.current;
+    if (current !== null && operation.revision <= current) return;
+    if (current !== null && operation.revision > current + 1) {
+      // Missed something; the replay includes this operation too
+      send({ type: 'sync', last_revision: current });
+      return;
+    }
+
+    queryClient.setQueryData<ClientActivity[]>([API_ENDPOINTS.TRIPS, tripId, "activities"], prev => {
+      if (!prev) return prev;
+      const deleted = new Set(operation.changes.deleted_activity_ids);
+      let next = prev.filter(activity => !deleted.has(activity.id));
+
+      for (const row of operation.changes.activities) {
+        const incoming = toClientActivity(row);
+        const existing = next.find(activity => activity.id === incoming.id);
+        if (!existing) {
+          next = [...next, incoming as ClientActivity];
+        } else if ((existing.version ?? 0) <= (incoming.version ?? 0)) {
+          next = next.map(activity => activity.id === incoming.id ? { ...activity, ...incoming } : activity);
+        }
+      }
+      return next;
+    });
+
+    updateRevision(operation.revision);
+  };
+
+  const flushPending = () => {
+    pendingRef.current.forEach(pending => wsRef.current?.send(pending.message));
+  };
+
+  // Establish WebSocket connection, reconnecting with backoff
   useEffect(() => {
-    if (!tripId || !userId) return;
+    if (!numericTripId || !userId) return;
 
+    let disposed = false;
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    // Authenticated by the auth_token cookie sent with the upgrade request
     const wsUrl = `${protocol}//${window.location.host}/ws/collaboration`;
 
-    try {
-      const ws = new WebSocket(wsUrl);
-      wsRef.current = ws;
-
-      ws.onopen = () => {
-        setIsConnected(true);
-        setConnectionError(null);
-
-        // Join trip collaboration room
-        ws.send(JSON.stringify({
-          type: 'join_trip',
-          tripId,
-          userId,
-          organizationId,
-          userInfo: {
-            username: 'Current User', // This would come from auth context
-            currentPage: location
+    const connect = () => {
+      try {
+        const ws = new WebSocket(wsUrl);
+        wsRef.current = ws;
+
+        ws.onopen = () => {
+          setIsConnected(true);
+          setConnectionError(null);
+          reconnectAttemptsRef.current = 0;
+
+          // Join trip collaboration room, asking for anything missed while away
+          ws.send(JSON.stringify({
+            type: 'join_trip',
+            trip_id: numericTripId,
+            ...(revisionRef.current !== null ? { last_revision: revisionRef.current } : {}),
+          }));
+
+          // Start heartbeat
+          heartbeatRef.current = setInterval(() => {
+            if (ws.readyState === WebSocket.OPEN) {
+              ws.send(JSON.stringify({ type: 'user_presence', trip_id: numericTripId }));
+            }
+          }, 30000);
+        };
+
+        ws.onmessage = (event) => {
+          try {
+            const data = JSON.parse(event.data);
+            handleWebSocketMessage(data);
+          } catch (error) {
+            // Ignore malformed messages
           }
-        }));
+        };
 
-        // Start heartbeat
-        heartbeatRef.current = setInterval(() => {
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: 'heartbeat' }));
+        ws.onclose = () => {
+          setIsConnected(false);
+          joinedRef.current = false;
+          if (heartbeatRef.current) {
+            clearInterval(heartbeatRef.current);
           }
-        }, 30000);
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          handleWebSocketMessage(data);
-        } catch (error) {
+          if (!disposed) {
+            const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** reconnectAttemptsRef.current);
+            reconnectAttemptsRef.current += 1;
+            reconnectTimeoutRef.current = setTimeout(connect, delay);
           }
-      };
-
-      ws.onclose = () => {
-        setIsConnected(false);
-        if (heartbeatRef.current) {
-          clearInterval(heartbeatRef.current);
-        }
-      };
+        };
 
-      ws.onerror = (error) => {
-        setConnectionError('Connection failed');
+        ws.onerror = () => {
+          setConnectionError('Connection failed');
         };
+      } catch (error) {
+        setConnectionError('Failed to connect');
+      }
+    };
 
-    } catch (error) {
-      setConnectionError('Failed to connect');
-    }
+    connect();
 
     return () => {
+      disposed = true;
       if (wsRef.current) {
         wsRef.current.close();
       }
       if (heartbeatRef.current) {
         clearInterval(heartbeatRef.current);
       }
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current);
+      }
       if (cursorTimeoutRef.current) {
         clearTimeout(cursorTimeoutRef.current);
       }
+      pendingRef.current.forEach(pending => pending.reject(new Error('Collaboration session closed')));
+      pendingRef.current.clear();
+      revisionRef.current = null;
     };
-  }, [tripId, userId, organizationId]);
+  }, [numericTripId, userId, organizationId]);
 
   // Update presence when location changes
   useEffect(() => {
@@ -141,6 +259,40 @@ export function useRealTimeCollaboration({
 
   const handleWebSocketMessage = (data: WebSocketMessage) => {
     switch (data.type) {
+      case 'joined':
+        joinedRef.current = true;
+        updateRevision(data.revision as number);
+        flushPending();
+        break;
+
+      case 'sync':
+        joinedRef.current = true;
+        (data.operations as ReplayedOperation[]).forEach(applyOperation);
+        flushPending();
+        break;
+
+      case 'resync_required':
+        // Too far behind to replay; refetch and continue from the current revision
+        joinedRef.current = true;
+        queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.TRIPS, tripId, "activities"] });
+        updateRevision(data.revision as number);
+        flushPending();
+        break;
+
+      case 'operation':
+        applyOperation(data as unknown as ReplayedOperation);
+        break;
+
+      case 'operation_ack': {
+        const ack = data as unknown as OperationAck;
+        const pending = pendingRef.current.get(ack.op_id);
+        if (pending) {
+          pendingRef.current.delete(ack.op_id);
+          pending.resolve(ack);
+        }
+        break;
+      }
+
       case 'collaborators_list':
         setCollaborators((data.collaborators as CollaboratorData[]).map((collab: CollaboratorData, index: number) => ({
           ...collab,
@@ -164,6 +316,7 @@ export function useRealTimeCollaboration({
         break;
 
       case 'collaborator_left':
+      case 'user_left':
         setCollaborators(prev =>
           prev.filter(c => c.userId !== (data.userId as number))
         );
@@ -235,6 +388,60 @@ export function useRealTimeCollaboration({
     }
   };
 
+  /**
+   * Submit an edit to the server. Resolves with the server's ack once the
+   * operation is applied (or rejected); queued while reconnecting.
+   */
+  const submitOperation = useCallback((operation: CollaborationOperation): Promise<OperationAck> => {
+    const opId = generateOpId();
+    const message = JSON.stringify({ type: 'submit_operation', trip_id: numericTripId, op_id: opId, operation });
+
+    return new Promise<OperationAck>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        pendingRef.current.delete(opId);
+        reject(new Error('Timed out waiting for the server'));
+      }, ACK_TIMEOUT_MS);
+
+      pendingRef.current.set(opId, {
+        message,
+        resolve: (ack) => {
+          clearTimeout(timeout);
+          resolve(ack);
+        },
+        reject: (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        },
+      });
+
+      // Otherwise sent once the join (and replay) completes; the server drops duplicates by op_id
+      if (joinedRef.current && wsRef.current?.readyState === WebSocket.OPEN) {
+        wsRef.current.send(message);
+      }
+    });
+  }, [numericTripId]);
+
+  // Field edit against the version of the activity the user was looking at
+  const updateActivityFields = useCallback((activity: Pick<ClientActivity, 'id' | 'version'>, fields: Record<string, unknown>) => {
+    return submitOperation({
+      type: 'update_activity',
+      activity_id: activity.id,
+      base_version: activity.version,
+      fields,
+    });
+  }, [submitOperation]);
+
+  // Reorder relative to a neighbour so concurrent moves don't clobber each other
+  const moveActivity = useCallback((activityId: number, afterActivityId: number | null, date?: string, index?: number) => {
+    return submitOperation({
+      type: 'move_activity',
+      activity_id: activityId,
+      after_activity_id: afterActivityId,
+      ...(date ? { date } : {}),
+      ...(index !== undefined ? { index } : {}),
+    });
+  }, [submitOperation]);
+
   // Get active collaborators (excluding current user and inactive ones)
   const activeCollaborators = collaborators.filter(c =>
     c.userId !== userId &&
@@ -249,6 +456,10 @@ export function useRealTimeCollaboration({
     updateCursor,
     updateSection,
     sendActivity,
+    revision,
+    submitOperation,
+    updateActivityFields,
+    moveActivity,
     totalCollaborators: activeCollaborators.length
   };
 }
\ No newline at end of file
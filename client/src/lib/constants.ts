@@ -10,9 +10,13 @@ export const API_ENDPOINTS = {
     DETECT_CONFLICTS: "/api/ai/detect-conflicts",
     THEMED_ITINERARY: "/api/ai/themed-itinerary",
     ASSISTANT: "/api/ai/trip-assistant",
+    APPLY_ASSISTANT_CHANGES: "/api/ai/trip-assistant/apply",
     WEATHER_ACTIVITIES: "/api/ai/weather-activities",
     BUDGET_OPTIONS: "/api/ai/budget-options",
     FIND_LOCATION: "/api/ai/find-location",
+    GENERATE_FULL_ITINERARY: "/api/ai/generate-full-itinerary",
+    GENERATE_TRIP: "/api/ai/generate-trip",
+    GENERATION_JOBS: "/api/ai/jobs",
   },
   WEATHER: {
     FORECAST: "/api/weather/forecast",
@@ -0,0 +1,204 @@
+import { jwtAuth } from "./jwtAuth";
+import { API_ENDPOINTS } from "./constants";
+import type { GeneratedActivities, GenerationProgress } from "./types";
+
+/**
+ * Client for the streamed itinerary generation endpoints. The server runs
+ * each generation as a job and sends its progress as server-sent events; if
+ * the connection drops, the stream is picked up again from the last event
+ * seen, so a flaky network doesn't lose the generation.
+ */
+
+export interface GenerationHandlers {
+  onJob?: (jobId: string) => void;
+  onProgress?: (progress: GenerationProgress) => void;
+  onActivities?: (batch: GeneratedActivities) => void;
+}
+
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super("Generation was cancelled");
+    this.name = "GenerationCancelledError";
+  }
+}
+
+interface StreamEvent {
+  id: number;
+  event: string;
+  data: any;
+}
+
+const MAX_RESUME_ATTEMPTS = 3;
+const RESUME_DELAY_MS = 1000;
+
+function authHeaders(): Record<string, string> {
+  const token = jwtAuth.getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// Parse server-sent events from a fetch response body
+async function readEvents(response: Response, onEvent: (event: StreamEvent) => void) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const event: StreamEvent = { id: 0, event: "message", data: null };
+      const data: string[] = [];
+      for (const line of frame.split("\n")) {
+        if (line.startsWith(":")) continue; // keep-alive comment
+        const separator = line.indexOf(":");
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const fieldValue = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+        if (field === "id") event.id = Number(fieldValue);
+        else if (field === "event") event.event = fieldValue;
+        else if (field === "data") data.push(fieldValue);
+      }
+      if (data.length === 0) continue;
+      event.data = JSON.parse(data.join("\n"));
+      onEvent(event);
+    }
+  }
+}
+
+async function errorMessage(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    return body.error || body.message || response.statusText;
+  } catch {
+    return response.statusText;
+  }
+}
+
+/**
+ * Follow a job's events until it finishes, resuming after dropped
+ * connections. `open` makes the request for the events after an id.
+ */
+async function follow<T>(
+  open: (jobId: string | null, lastEventId: number) => Promise<Response>,
+  handlers: GenerationHandlers,
+  initialJobId: string | null = null,
+  initialEventId = 0
+): Promise<T> {
+  let jobId = initialJobId;
+  let lastEventId = initialEventId;
+  let attempts = 0;
+  let outcome: { result?: T; error?: Error } | null = null;
+
+  for (;;) {
+    let response: Response | null = null;
+    try {
+      response = await open(jobId, lastEventId);
+    } catch (error) {
+      if (!jobId || (error instanceof DOMException && error.name === "AbortError")) throw error;
+    }
+
+    if (response) {
+      if (!response.ok) throw new Error(await errorMessage(response));
+      // A non-streaming answer, e.g. when a proxy strips the Accept header
+      if (!response.headers.get("Content-Type")?.includes("text/event-stream")) {
+        return response.json();
+      }
+
+      jobId = jobId ?? response.headers.get("X-Job-Id");
+      try {
+        await readEvents(response, ({ id, event, data }) => {
+          lastEventId = Math.max(lastEventId, id);
+          attempts = 0;
+          if (event === "job") {
+            jobId = data.jobId;
+            handlers.onJob?.(data.jobId);
+          } else if (event === "progress") handlers.onProgress?.(data);
+          else if (event === "activities") handlers.onActivities?.(data);
+          else if (event === "done") outcome = { result: data.result };
+          else if (event === "cancelled") outcome = { error: new GenerationCancelledError() };
+          else if (event === "error") outcome = { error: new Error(data.message) };
+        });
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") throw error;
+        // Connection dropped mid-stream; resume below
+      }
+    }
+
+    if (outcome) {
+      const { result, error } = outcome as { result?: T; error?: Error };
+      if (error) throw error;
+      return result as T;
+    }
+    if (!jobId || ++attempts > MAX_RESUME_ATTEMPTS) {
+      throw new Error("Lost connection to the itinerary generator");
+    }
+    await new Promise(resolve => setTimeout(resolve, RESUME_DELAY_MS * attempts));
+  }
+}
+
+function eventsRequest(jobId: string, lastEventId: number, signal?: AbortSignal) {
+  return fetch(`${API_ENDPOINTS.AI.GENERATION_JOBS}/${jobId}/events`, {
+    headers: {
+      Accept: "text/event-stream",
+      "Last-Event-ID": String(lastEventId),
+      ...authHeaders(),
+    },
+    signal,
+  });
+}
+
+/**
+ * Start a generation and stream it to completion. Resolves with the same
+ * body the endpoint returns without streaming.
+ */
+export function streamGeneration<T = any>(
+  url: string,
+  body: unknown,
+  handlers: GenerationHandlers = {},
+  signal?: AbortSignal
+): Promise<T> {
+  return follow<T>((jobId, lastEventId) => {
+    if (jobId) return eventsRequest(jobId, lastEventId, signal);
+    return fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        ...authHeaders(),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }, handlers);
+}
+
+/**
+ * Pick up a job started earlier, e.g. before a page reload, replaying the
+ * events after `lastEventId`.
+ */
+export function resumeGeneration<T = any>(
+  jobId: string,
+  handlers: GenerationHandlers = {},
+  lastEventId = 0,
+  signal?: AbortSignal
+): Promise<T> {
+  handlers.onJob?.(jobId);
+  return follow<T>((id, lastId) => eventsRequest(id!, lastId, signal), handlers, jobId, lastEventId);
+}
+
+/**
+ * Stop a job before it saves anything. Returns false if it can no longer be
+ * cancelled because it already finished or is saving.
+ */
+export async function cancelGeneration(jobId: string): Promise<boolean> {
+  const response = await fetch(`${API_ENDPOINTS.AI.GENERATION_JOBS}/${jobId}/cancel`, {
+    method: "POST",
+    headers: authHeaders(),
+  });
+  return response.ok;
+}
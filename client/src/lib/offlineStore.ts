@@ -0,0 +1,252 @@
+// Local copy of a trip for Travel Mode, plus the queue of edits made offline.
+// Everything lives in IndexedDB so it survives reloads and the app works
+// from the service worker cache with no connection at all.
+
+import { ActivityCheckin, OfflineBundle, OfflineMutation, QueuedMutation, SyncConflict } from '@/lib/types';
+
+const DB_NAME = 'RemvanaTravel';
+const DB_VERSION = 1;
+
+const BUNDLES = 'bundles';
+const QUEUE = 'queue';
+const PHOTOS = 'photos';
+const CONFLICTS = 'conflicts';
+
+export interface PendingPhoto {
+  clientId: string;
+  tripId: number;
+  blob: Blob;
+  activityId?: number;
+  latitude?: number;
+  longitude?: number;
+  takenAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(BUNDLES, { keyPath: 'trip.id' });
+        db.createObjectStore(QUEUE, { keyPath: 'clientId' }).createIndex('tripId', 'tripId');
+        db.createObjectStore(PHOTOS, { keyPath: 'clientId' }).createIndex('tripId', 'tripId');
+        db.createObjectStore(CONFLICTS, { keyPath: 'clientId' }).createIndex('tripId', 'tripId');
+      };
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function store(name: string, mode: IDBTransactionMode = 'readonly') {
+  const db = await openDb();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+async function allForTrip<T>(name: string, tripId: number): Promise<T[]> {
+  const objects = await store(name);
+  return promisify(objects.index('tripId').getAll(tripId)) as Promise<T[]>;
+}
+
+export function newClientId(): string {
+  return crypto.randomUUID();
+}
+
+// Bundles
+
+export async function getBundle(tripId: number): Promise<OfflineBundle | undefined> {
+  return promisify((await store(BUNDLES)).get(tripId));
+}
+
+export async function saveBundle(bundle: OfflineBundle): Promise<void> {
+  await promisify((await store(BUNDLES, 'readwrite')).put(bundle));
+}
+
+// Mutation queue
+
+export async function getQueue(tripId: number): Promise<QueuedMutation[]> {
+  const queue = await allForTrip<QueuedMutation>(QUEUE, tripId);
+  return queue.sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * Add an edit to the queue, folding it into earlier queued edits of the same
+ * thing so a replay sends one change per row.
+ */
+export async function enqueue(tripId: number, mutation: OfflineMutation): Promise<QueuedMutation[]> {
+  const current = await getQueue(tripId);
+  const next = coalesce(current, { clientId: mutation.clientId, tripId, seq: Date.now(), mutation });
+
+  const objects = await store(QUEUE, 'readwrite');
+  const keep = new Set(next.map(entry => entry.clientId));
+  await Promise.all([
+    ...current.filter(entry => !keep.has(entry.clientId)).map(entry => promisify(objects.delete(entry.clientId))),
+    ...next.map(entry => promisify(objects.put(entry))),
+  ]);
+  return next;
+}
+
+export async function removeQueued(clientIds: string[]): Promise<void> {
+  const objects = await store(QUEUE, 'readwrite');
+  await Promise.all(clientIds.map(id => promisify(objects.delete(id))));
+}
+
+// Offline-created notes and todos have negative ids until they sync
+function targetKey(mutation: OfflineMutation): string | null {
+  switch (mutation.type) {
+    case 'create_note': return `note:${mutation.tempId}`;
+    case 'update_note':
+    case 'delete_note': return `note:${mutation.noteId}`;
+    case 'create_todo': return `todo:${mutation.tempId}`;
+    case 'update_todo':
+    case 'delete_todo': return `todo:${mutation.todoId}`;
+    case 'check_in':
+    case 'check_in_note':
+    case 'undo_check_in': return `checkin:${mutation.activityId}`;
+    default: return null;
+  }
+}
+
+export function coalesce(queue: QueuedMutation[], entry: QueuedMutation): QueuedMutation[] {
+  const key = targetKey(entry.mutation);
+  if (!key) return [...queue, entry];
+
+  const earlier = queue.filter(queued => targetKey(queued.mutation) === key);
+  const others = queue.filter(queued => targetKey(queued.mutation) !== key);
+  const created = earlier.find(queued => queued.mutation.type === 'create_note' || queued.mutation.type === 'create_todo');
+  const next = entry.mutation;
+
+  // Deleting something that never reached the server: forget it entirely
+  if (created && (next.type === 'delete_note' || next.type === 'delete_todo')) return others;
+  // Undoing a check-in that hasn't synced cancels it out
+  if (next.type === 'undo_check_in' && earlier.some(queued => queued.mutation.type === 'check_in')) return others;
+  // A note on a check-in that hasn't synced goes out with it
+  const checkin = earlier.find(queued => queued.mutation.type === 'check_in');
+  if (checkin && next.type === 'check_in_note' && checkin.mutation.type === 'check_in') {
+    return [...others, { ...checkin, mutation: { ...checkin.mutation, note: next.note } }];
+  }
+
+  if (created && next.type === 'update_note' && created.mutation.type === 'create_note') {
+    return [...others, { ...created, mutation: { ...created.mutation, content: next.content } }];
+  }
+  if (created && next.type === 'update_todo' && created.mutation.type === 'create_todo') {
+    return [...others, { ...created, mutation: { ...created.mutation, ...next.fields } }];
+  }
+
+  // Repeated edits keep the first base (what the server had) and the latest values
+  const previous = earlier.find(queued => queued.mutation.type === next.type);
+  if (previous && next.type === 'check_in_note') {
+    return [...others, { ...previous, mutation: { ...next, clientId: previous.clientId } }];
+  }
+  if (previous && next.type === 'update_note' && previous.mutation.type === 'update_note') {
+    return [...others, { ...previous, mutation: { ...next, clientId: previous.clientId, base: previous.mutation.base } }];
+  }
+  if (previous && next.type === 'update_todo' && previous.mutation.type === 'update_todo') {
+    return [...others, {
+      ...previous,
+      mutation: {
+        ...next,
+        clientId: previous.clientId,
+        base: { ...next.base, ...previous.mutation.base },
+        fields: { ...previous.mutation.fields, ...next.fields },
+      },
+    }];
+  }
+
+  return [...queue, entry];
+}
+
+/**
+ * Show a queued edit in the local copy straight away.
+ */
+export function applyToBundle(bundle: OfflineBundle, mutation: OfflineMutation, userId: number): OfflineBundle {
+  switch (mutation.type) {
+    case 'activity': {
+      const operation = mutation.operation;
+      if (operation.type === 'delete_activity') {
+        return { ...bundle, activities: bundle.activities.filter(a => a.id !== operation.activityId) };
+      }
+      if (operation.type === 'update_activity') {
+        return {
+          ...bundle,
+          activities: bundle.activities.map(a => a.id === operation.activityId ? { ...a, ...operation.fields } : a),
+        };
+      }
+      return bundle;
+    }
+    case 'create_note':
+      return { ...bundle, notes: [{ id: mutation.tempId, tripId: bundle.trip.id, content: mutation.content }, ...bundle.notes] };
+    case 'update_note':
+      return { ...bundle, notes: bundle.notes.map(n => n.id === mutation.noteId ? { ...n, content: mutation.content } : n) };
+    case 'delete_note':
+      return { ...bundle, notes: bundle.notes.filter(n => n.id !== mutation.noteId) };
+    case 'create_todo':
+      return { ...bundle, todos: [...bundle.todos, { id: mutation.tempId, tripId: bundle.trip.id, content: mutation.content, isCompleted: false }] };
+    case 'update_todo':
+      return { ...bundle, todos: bundle.todos.map(t => t.id === mutation.todoId ? { ...t, ...mutation.fields } : t) };
+    case 'delete_todo':
+      return { ...bundle, todos: bundle.todos.filter(t => t.id !== mutation.todoId) };
+    case 'check_in': {
+      const checkin: ActivityCheckin = {
+        activityId: mutation.activityId,
+        userId,
+        checkedInAt: mutation.checkedInAt,
+        utcOffsetMinutes: mutation.utcOffsetMinutes,
+        note: mutation.note ?? null,
+        latitude: mutation.latitude?.toString() ?? null,
+        longitude: mutation.longitude?.toString() ?? null,
+      };
+      const others = bundle.checkins.filter(c => !(c.activityId === mutation.activityId && c.userId === userId));
+      return { ...bundle, checkins: [...others, checkin] };
+    }
+    case 'check_in_note':
+      return {
+        ...bundle,
+        checkins: bundle.checkins.map(c =>
+          c.activityId === mutation.activityId && c.userId === userId ? { ...c, note: mutation.note } : c
+        ),
+      };
+    case 'undo_check_in':
+      return { ...bundle, checkins: bundle.checkins.filter(c => !(c.activityId === mutation.activityId && c.userId === userId)) };
+  }
+}
+
+// Photos waiting to upload
+
+export async function queuePhoto(photo: PendingPhoto): Promise<void> {
+  await promisify((await store(PHOTOS, 'readwrite')).put(photo));
+}
+
+export async function getPendingPhotos(tripId: number): Promise<PendingPhoto[]> {
+  return allForTrip<PendingPhoto>(PHOTOS, tripId);
+}
+
+export async function removePendingPhoto(clientId: string): Promise<void> {
+  await promisify((await store(PHOTOS, 'readwrite')).delete(clientId));
+}
+
+// Conflicts the traveller still has to resolve
+
+export async function getConflicts(tripId: number): Promise<SyncConflict[]> {
+  return allForTrip<SyncConflict>(CONFLICTS, tripId);
+}
+
+export async function saveConflict(conflict: SyncConflict): Promise<void> {
+  await promisify((await store(CONFLICTS, 'readwrite')).put(conflict));
+}
+
+export async function removeConflict(clientId: string): Promise<void> {
+  await promisify((await store(CONFLICTS, 'readwrite')).delete(clientId));
+}
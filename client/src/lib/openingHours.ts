@@ -0,0 +1,61 @@
+import { format } from "date-fns";
+import { OpeningHoursContext, checkVisit, describeVisitCheck, tryParseOpeningHours } from "@shared/openingHours";
+import { publicHolidaysBetween } from "@shared/publicHolidays";
+import { ClientActivity, ClientTrip } from "@/lib/types";
+
+// The itinerary doesn't know how long each visit takes, so a place is flagged
+// when it is closed at the start or closes within this many minutes
+const MIN_VISIT_MINUTES = 30;
+
+type HoursTrip = Pick<ClientTrip, "country" | "startDate" | "endDate" | "cityLatitude" | "cityLongitude">;
+type HoursActivity = Pick<ClientActivity, "id" | "date" | "time" | "openingHours">;
+
+// Activity dates arrive as "YYYY-MM-DD" strings despite the Date type
+function isoDate(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  if (typeof value === "string") return value.slice(0, 10);
+  return isNaN(value.getTime()) ? null : format(value, "yyyy-MM-dd");
+}
+
+function minutesOfDay(time: string | null | undefined): number | null {
+  const match = time?.trim().match(/^(\d{1,2}):(\d{2})\s*([ap]m)?$/i);
+  if (!match) return null;
+  let hours = parseInt(match[1], 10);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === "pm" && hours !== 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  return hours * 60 + parseInt(match[2], 10);
+}
+
+export function tripOpeningHoursContext(trip: HoursTrip): OpeningHoursContext {
+  const start = isoDate(trip.startDate);
+  const end = isoDate(trip.endDate);
+  const latitude = trip.cityLatitude ? Number(trip.cityLatitude) : NaN;
+  const longitude = trip.cityLongitude ? Number(trip.cityLongitude) : NaN;
+
+  return {
+    publicHolidays: trip.country && start && end ? publicHolidaysBetween(trip.country, start, end) : new Map(),
+    latitude: Number.isFinite(latitude) ? latitude : undefined,
+    longitude: Number.isFinite(longitude) ? longitude : undefined,
+  };
+}
+
+/**
+ * Warnings for activities scheduled while their place is closed, keyed by
+ * activity id. Activities without opening hours are never flagged.
+ */
+export function openingHoursWarnings(trip: HoursTrip, activities: HoursActivity[]): Map<number, string> {
+  const warnings = new Map<number, string>();
+  const context = tripOpeningHoursContext(trip);
+
+  for (const activity of activities) {
+    const hours = tryParseOpeningHours(activity.openingHours);
+    const date = isoDate(activity.date);
+    const start = minutesOfDay(activity.time);
+    if (!hours || !date || start === null) continue;
+
+    const warning = describeVisitCheck(checkVisit(hours, date, start, MIN_VISIT_MINUTES, context));
+    if (warning) warnings.set(activity.id, warning);
+  }
+  return warnings;
+}
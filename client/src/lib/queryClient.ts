@@ -1,10 +1,24 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { jwtAuth } from "./jwtAuth";
 
+// A non-2xx response, with its status and parsed JSON body (if any)
+export class ApiError extends Error {
+  constructor(public status: number, public body: any, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`Request failed: ${text}`);
+    let body: any = null;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON
+    }
+    throw new ApiError(res.status, body, `Request failed: ${text}`);
   }
 }
 
@@ -26,7 +40,7 @@ const defaultQueryFn: QueryFunction = async ({ queryKey }) => {
       }
     });
     
-    throwIfResNotOk(res);
+    await throwIfResNotOk(res);
     return res.json();
   } catch (error) {
     // If it's a network error or something else, try to extract a meaningful message
@@ -85,7 +99,7 @@ export async function apiRequest(method: string, url: string, data?: any) {
   }
   
   const res = await fetch(url, options);
-  throwIfResNotOk(res);
+  await throwIfResNotOk(res);
   
   const text = await res.text();
   if (!text) return null;
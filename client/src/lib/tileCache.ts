@@ -0,0 +1,81 @@
+// Pre-caches the map for a trip so Travel Mode can show it offline. The
+// service worker keeps Mapbox tiles in its own cache; here we work out which
+// tiles cover the trip's bounding box and ask the worker to fetch them.
+
+import { MAPBOX_STYLE_URL } from '@/lib/constants';
+import { MapBounds } from '@/lib/types';
+
+const MAPBOX_TOKEN = import.meta.env.VITE_MAPBOX_TOKEN;
+
+// City scale up to street level; mapbox-gl overzooms past the last level
+const MIN_ZOOM = 10;
+const MAX_ZOOM = 15;
+// Keeps a download for a sprawling trip to a few tens of megabytes
+const MAX_TILES = 1500;
+
+function lngToTileX(lng: number, zoom: number): number {
+  return Math.floor(((lng + 180) / 360) * Math.pow(2, zoom));
+}
+
+function latToTileY(lat: number, zoom: number): number {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * Math.pow(2, zoom));
+}
+
+/**
+ * Tile coordinates covering the bounds, lowest zoom first. Stops at the zoom
+ * level that would take the total past `limit`.
+ */
+export function tilesForBounds(bounds: MapBounds, minZoom = MIN_ZOOM, maxZoom = MAX_ZOOM, limit = MAX_TILES) {
+  const tiles: Array<{ z: number; x: number; y: number }> = [];
+
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const xMin = lngToTileX(bounds.west, z);
+    const xMax = lngToTileX(bounds.east, z);
+    const yMin = latToTileY(bounds.north, z);
+    const yMax = latToTileY(bounds.south, z);
+    if (tiles.length + (xMax - xMin + 1) * (yMax - yMin + 1) > limit) break;
+
+    for (let x = xMin; x <= xMax; x++) {
+      for (let y = yMin; y <= yMax; y++) {
+        tiles.push({ z, x, y });
+      }
+    }
+  }
+  return tiles;
+}
+
+// Tile URL templates for the app's map style, from the style's TileJSON
+async function tileTemplates(): Promise<string[]> {
+  const styleId = MAPBOX_STYLE_URL.replace('mapbox://styles/', '');
+  const style = await fetch(`https://api.mapbox.com/styles/v1/${styleId}?access_token=${MAPBOX_TOKEN}`).then(r => r.json());
+
+  const templates: string[] = [];
+  for (const source of Object.values<any>(style.sources || {})) {
+    if (typeof source.url !== 'string' || !source.url.startsWith('mapbox://')) continue;
+    const tilesets = source.url.replace('mapbox://', '');
+    const tileJson = await fetch(`https://api.mapbox.com/v4/${tilesets}.json?secure&access_token=${MAPBOX_TOKEN}`).then(r => r.json());
+    templates.push(...(tileJson.tiles || []));
+  }
+  return templates;
+}
+
+/**
+ * Ask the service worker to cache the trip's map area. Resolves with the
+ * number of tile URLs handed over, or 0 when the map can't be cached.
+ */
+export async function cacheTripTiles(tripId: number, bounds: MapBounds): Promise<number> {
+  if (!MAPBOX_TOKEN || !('serviceWorker' in navigator)) return 0;
+
+  const registration = await navigator.serviceWorker.ready;
+  if (!registration.active) return 0;
+
+  const templates = await tileTemplates();
+  const tiles = tilesForBounds(bounds);
+  const urls = templates.flatMap(template =>
+    tiles.map(({ z, x, y }) => template.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y)))
+  );
+
+  registration.active.postMessage({ type: 'CACHE_TRIP_TILES', tripId, urls });
+  return urls.length;
+}
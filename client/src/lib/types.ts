@@ -29,10 +29,43 @@ export interface ClientTemplate {
   viewCount: number;
   createdAt: Date;
   updatedAt: Date;
+  previewLevel?: ClientPreviewLevel;
   // Additional client fields
   creator?: ClientCreatorProfile;
   hasPurchased?: boolean;
   reviews?: ClientTemplateReview[];
+  // Instead of tripData for people who haven't bought the template
+  preview?: ClientTemplatePreview;
+  license?: string | null;
+}
+
+export type ClientPreviewLevel = 'minimal' | 'standard' | 'extended';
+
+export interface ClientPreviewActivity {
+  title: string;
+  timeOfDay: 'morning' | 'afternoon' | 'evening' | null;
+  category: string;
+}
+
+export interface ClientTemplatePreview {
+  level: ClientPreviewLevel;
+  dayCount: number;
+  activityCount: number;
+  categories: Array<{ category: string; count: number }>;
+  days: Array<{
+    day: number;
+    title: string | null;
+    activityCount: number;
+    categories: string[];
+    activities?: ClientPreviewActivity[];
+  }>;
+  heatmap: Array<{ latitude: number; longitude: number; weight: number }>;
+  sampleDay: {
+    day: number;
+    title: string | null;
+    activities: Array<ClientPreviewActivity & { time: string | null; location: string | null }>;
+  } | null;
+  budget: { level: string | null; total: number | null; daily: number | null; currency: string | null } | null;
 }
 
 export interface ClientTemplatePurchase {
@@ -84,6 +117,60 @@ export interface ClientCreatorBalance {
   w9OnFile: boolean;
 }
 
+export interface ClientSharePerformance {
+  channels: Array<{
+    channel: string;
+    links: number;
+    clicks: number;
+    conversions: number;
+    revenue: number;
+    commission: number;
+    conversionRate: number;
+  }>;
+  referralWindowDays: number;
+  commissionPercent: number;
+}
+
+export interface ClientTaxProfile {
+  id: number;
+  userId: number;
+  formType: 'w9' | 'w8ben';
+  legalName: string;
+  businessName?: string;
+  taxClassification?: string;
+  citizenshipCountry?: string;
+  dateOfBirth?: string;
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  state?: string;
+  postalCode?: string;
+  country: string;
+  tinType: 'ssn' | 'ein' | 'foreign';
+  tinLast4: string;
+  tinMasked: string;
+  treatyCountry?: string;
+  treatyArticle?: string;
+  treatyRate?: string;
+  signatureName: string;
+  signedAt: string;
+}
+
+export interface ClientTaxStatement {
+  year: number;
+  sales: number;
+  bundleSales: number;
+  grossSales: number;
+  stripeFees: number;
+  platformFees: number;
+  earnings: number;
+  refunds: number;
+  refundedAmount: number;
+  refundedEarnings: number;
+  netEarnings: number;
+  monthly: number[];
+}
+
 export interface ClientTemplateReview {
   id: number;
   templateId: number;
@@ -139,6 +226,7 @@ export interface ClientTrip {
   hotel?: string;
   hotelLatitude?: string;
   hotelLongitude?: string;
+  timezone?: string;
   tripType?: string;
   clientName?: string;
   projectType?: string;
@@ -240,7 +328,13 @@ export interface ClientActivity {
   tag?: string | null;
   assignedTo?: string | null;
   order: number;
+  version?: number; // Server version, sent back with edits to detect concurrent changes
   travelMode?: string | null;
+  openingHours?: string | null; // OSM opening_hours value of the place
+  // Whether an AI-suggested place was found; null when never checked
+  verificationStatus?: 'verified' | 'unverified' | 'replaced' | null;
+  verificationConfidence?: string | null;
+  verificationSource?: 'osm' | 'nominatim' | 'geocoding' | null;
   completed?: boolean;
   // Budget tracking
   price?: number;
@@ -293,6 +387,36 @@ export interface AIResponse {
   answer?: string;
   // For itinerary import
   activities?: ParsedActivity[];
+  // Edits proposed by the trip assistant
+  changeset?: AssistantChangeset | null;
+}
+
+// An edit proposed by the trip assistant; `action` is sent back unchanged to apply it
+export interface AssistantChange {
+  action: {
+    type: 'add_activity' | 'move_activity' | 'delete_activity' | 'set_hotel' | 'adjust_budget';
+    [field: string]: unknown;
+  };
+  description: string;
+}
+
+export interface AssistantChangeset {
+  tripId: number;
+  changes: AssistantChange[];
+}
+
+// Progress of a streamed itinerary generation job
+export interface GenerationProgress {
+  day?: number;
+  totalDays?: number;
+  message: string;
+}
+
+// Activities a generation job has planned for one day, before they are saved
+export interface GeneratedActivities<T = any> {
+  day: number;
+  date: string | null;
+  activities: T[];
 }
 
 export interface FoodSuggestion {
@@ -368,6 +492,13 @@ export interface Collaborator {
 // BUDGET TRACKING TYPES
 // ======================================
 
+// Amounts in one currency and their value in the trip currency (null when no rate exists)
+export interface CurrencyBreakdown {
+  currency: string;
+  amount: number;
+  convertedAmount: number | null;
+}
+
 export interface BudgetSummary {
   tripId: number;
   budget: number;
@@ -376,6 +507,8 @@ export interface BudgetSummary {
   remaining: number;
   percentUsed: number;
   spendingByCategory: Record<string, number>;
+  spendingByCurrency?: CurrencyBreakdown[];
+  unconvertedCurrencies?: string[];
   budgetCategories: Record<string, number>;
   alertThreshold: number;
   groupExpensesCount: number;
@@ -390,6 +523,7 @@ export interface GroupExpense {
   description: string;
   totalAmount: number;
   currency: string;
+  expenseDate?: string;
   paidBy: number;
   paidByUser?: {
     id: number;
@@ -412,17 +546,273 @@ export interface GroupExpense {
   updatedAt: Date;
 }
 
-export interface ExpenseSummary {
+export type SettlementMethod = 'cash' | 'bank_transfer' | 'card' | 'venmo' | 'paypal' | 'other';
+
+export interface Settlement {
+  id: number;
   tripId: number;
+  expenseId?: number | null;
+  fromUserId: number;
+  toUserId: number;
+  amount: string;
+  currency: string;
+  method: SettlementMethod;
+  settledOn: string;
+  note?: string | null;
+  recordedBy: number;
+}
+
+export interface MemberBalance {
+  userId: number;
+  paid: number;
+  share: number;
+  sent: number;
+  received: number;
+  net: number; // Positive: is owed money
+  byCurrency: Record<string, number>;
+}
+
+// GET /api/budget/trips/:id/settle-up (also returned by expense-summary)
+export interface SettleUpSummary {
+  tripId: number;
+  currency: string;
+  members: Array<{ id: number; username: string; displayName?: string | null }>;
+  balances: MemberBalance[];
+  transfers: Array<{ from: number; to: number; amount: number }>;
+  settlements: Settlement[];
   totalExpenses: number;
-  unsettledExpenses: number;
   totalAmount: number;
-  balances: Record<number, number>;
-  suggestedTransactions: Array<{
-    from: number;
-    to: number;
-    amount: number;
+  totalsByCurrency: CurrencyBreakdown[];
+  unconvertedExpenseIds: number[];
+  unconvertedSettlementCount: number;
+}
+
+export type ExpenseSummary = SettleUpSummary;
+
+export interface ExpenseReceipt {
+  id: number;
+  tripId: number;
+  expenseId?: number | null;
+  originalName?: string | null;
+  mimeType: string;
+  ocrStatus: 'pending' | 'complete' | 'failed';
+  ocrConfidence?: number | null;
+  fileUrl: string;
+}
+
+// Prefilled from the receipt; the user confirms before it becomes an expense
+export interface ExpenseDraft {
+  receiptId: number;
+  description: string;
+  totalAmount: number | null;
+  currency: string;
+  expenseDate: string | null;
+}
+
+export interface ActivityCheckin {
+  id?: number;
+  activityId: number;
+  userId: number;
+  checkedInAt: string;
+  utcOffsetMinutes?: number | null;
+  latitude?: string | null;
+  longitude?: string | null;
+  note?: string | null;
+}
+
+export interface TripPhoto {
+  id: number;
+  tripId: number;
+  activityId?: number | null;
+  userId: number;
+  caption?: string | null;
+  takenAt?: string | null;
+  fileUrl: string;
+}
+
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Everything Travel Mode keeps on the device for a trip
+export interface OfflineBundle {
+  trip: ClientTrip;
+  activities: ClientActivity[];
+  notes: Array<{ id: number; tripId: number; content: string; updatedAt?: string }>;
+  todos: Array<{ id: number; tripId: number; content: string; isCompleted?: boolean | null }>;
+  checkins: ActivityCheckin[];
+  photos: TripPhoto[];
+  revision: number;
+  bounds: MapBounds | null;
+  access: 'owner' | 'editor' | 'viewer';
+  syncedAt: string;
+}
+
+// Edits made offline, replayed against /api/travel/trips/:id/sync.
+// Notes and todos created offline get a negative tempId until they sync.
+export type OfflineMutation =
+  | { type: 'activity'; clientId: string; operation:
+      | { type: 'update_activity'; activityId: number; baseVersion?: number; fields: Record<string, unknown> }
+      | { type: 'move_activity'; activityId: number; date?: string; afterActivityId: number | null; index?: number }
+      | { type: 'delete_activity'; activityId: number } }
+  | { type: 'create_note'; clientId: string; tempId: number; content: string }
+  | { type: 'update_note'; clientId: string; noteId: number; base: { content: string }; content: string }
+  | { type: 'delete_note'; clientId: string; noteId: number }
+  | { type: 'create_todo'; clientId: string; tempId: number; content: string; isCompleted?: boolean }
+  | { type: 'update_todo'; clientId: string; todoId: number; base: { content?: string; isCompleted?: boolean }; fields: { content?: string; isCompleted?: boolean } }
+  | { type: 'delete_todo'; clientId: string; todoId: number }
+  | { type: 'check_in'; clientId: string; activityId: number; checkedInAt: string; utcOffsetMinutes?: number; latitude?: number; longitude?: number; note?: string }
+  | { type: 'check_in_note'; clientId: string; activityId: number; note: string }
+  | { type: 'undo_check_in'; clientId: string; activityId: number };
+
+export interface QueuedMutation {
+  clientId: string;
+  tripId: number;
+  seq: number;
+  mutation: OfflineMutation;
+}
+
+export interface SyncResult {
+  clientId: string;
+  status: 'applied' | 'conflict' | 'rejected';
+  entity?: Record<string, any> | null;
+  conflicts?: Array<{ field: string; attempted: unknown; current: unknown }>;
+  reason?: string;
+}
+
+// A queued edit the server refused because someone else changed the same thing
+export interface SyncConflict {
+  clientId: string;
+  tripId: number;
+  mutation: OfflineMutation;
+  result: SyncResult;
+}
+
+// Trip journal: the plan set against check-ins, from /api/travel/trips/:id/journal
+export type VisitStatus = 'on_time' | 'early' | 'late' | 'moved' | 'visited' | 'skipped' | 'upcoming' | 'unscheduled';
+
+export interface JournalPhoto {
+  id: number;
+  activityId: number | null;
+  caption: string | null;
+  takenAt: string | null;
+  localTime: string | null;
+  fileUrl: string;
+}
+
+export interface ActivityOutcome {
+  activityId: number;
+  title: string;
+  locationName: string | null;
+  tag: string | null;
+  plannedDate: string | null;
+  plannedTime: string | null;
+  actualDate: string | null;
+  actualTime: string | null;
+  deltaMinutes: number | null;
+  status: VisitStatus;
+  checkins: Array<{ id: number; userId?: number; checkedInAt: string; localTime: string; note: string | null }>;
+  photos: JournalPhoto[];
+}
+
+export interface TripJournal {
+  trip: {
+    id?: number;
+    title: string;
+    city: string | null;
+    country: string | null;
+    startDate: string;
+    endDate: string;
+    shareCode?: string | null;
+  };
+  access?: 'owner' | 'editor' | 'viewer';
+  days: Array<{
+    date: string;
+    planned: ActivityOutcome[];
+    actual: ActivityOutcome[];
+    photos: JournalPhoto[];
+    summary: { planned: number; visited: number; skipped: number };
   }>;
+  unscheduled: ActivityOutcome[];
+  stats: {
+    planned: number;
+    visited: number;
+    onTime: number;
+    early: number;
+    late: number;
+    moved: number;
+    skipped: number;
+    notes: number;
+    photos: number;
+    completionRate: number | null;
+  };
+  isComplete: boolean;
+}
+
+// Flight offers and bookings from /api/flights (Duffel), camelCased by the API.
+export interface FlightPlace {
+  iataCode: string;
+  name: string;
+  cityName: string;
+}
+
+export interface FlightOffer {
+  id: string;
+  expiresAt?: string;
+  price: { amount: string; currency: string };
+  slices: Array<{
+    origin: FlightPlace;
+    destination: FlightPlace;
+    departureDatetime: string;
+    arrivalDatetime: string;
+    duration: string;
+    segments: Array<{
+      airline: { name: string; iataCode: string; logoUrl?: string };
+      flightNumber: string;
+      departureDatetime: string;
+      arrivalDatetime: string;
+    }>;
+  }>;
+  passengers: Array<{ id: string; type: string; cabinClass: string }>;
+  conditions: {
+    changeBeforeDeparture?: { allowed: boolean; penaltyAmount?: string; penaltyCurrency?: string };
+    cancelBeforeDeparture?: { allowed: boolean; penaltyAmount?: string; penaltyCurrency?: string };
+    refundBeforeDeparture?: { allowed: boolean; penaltyAmount?: string; penaltyCurrency?: string };
+  };
+}
+
+export interface FlightBookingPassenger {
+  title: 'mr' | 'ms' | 'mrs' | 'miss' | 'dr';
+  givenName: string;
+  familyName: string;
+  bornOn: string;
+  email: string;
+  phoneNumber: string;
+  gender: 'm' | 'f';
+}
+
+export interface FlightBooking {
+  id: number;
+  tripId: number;
+  userId: number;
+  confirmationNumber: string | null;
+  checkInDate: string | null;
+  checkOutDate: string | null;
+  totalAmount: string | null;
+  currency: string | null;
+  status: 'confirmed' | 'cancelled' | string;
+  bookingDetails: {
+    orderId: string;
+    title?: string;
+    slices: Array<{ origin: string; destination: string; departure: string; arrival: string; flights: string[]; airline: string }>;
+    passengers: string[];
+    cancelledBy?: 'traveller' | 'airline';
+    refundAmount?: string | null;
+    refundCurrency?: string | null;
+  };
 }
 
 export interface FreeActivity {
@@ -14,6 +14,7 @@ import TemplateGenerator from '@/components/admin/TemplateGenerator';
 import TemplateManager from '@/components/admin/TemplateManager';
 import BundleCreator from '@/components/BundleCreator';
 import PromoCodesAdmin from '@/pages/admin/PromoCodesAdmin';
+import AIUsageReport from '@/components/admin/AIUsageReport';
 import { formatDistanceToNow, format } from 'date-fns';
 
 // Helper function to safely format dates
@@ -250,6 +251,7 @@ export default function AdminDashboard() {
             <TabsTrigger value="templates">Templates</TabsTrigger>
             <TabsTrigger value="bundles">Bundles</TabsTrigger>
             <TabsTrigger value="promo">Promo Codes</TabsTrigger>
+            <TabsTrigger value="ai-usage">AI Usage</TabsTrigger>
             {isSuperAdmin && <TabsTrigger value="financials">Financials</TabsTrigger>}
           </TabsList>
 
@@ -396,6 +398,10 @@ export default function AdminDashboard() {
             <PromoCodesAdmin />
           </TabsContent>
 
+          <TabsContent value="ai-usage" className="space-y-4">
+            <AIUsageReport />
+          </TabsContent>
+
           {isSuperAdmin && (
             <TabsContent value="financials" className="space-y-4">
               {financials && (
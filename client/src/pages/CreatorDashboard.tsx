@@ -2,12 +2,13 @@ import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import BundleCreator from '@/components/BundleCreator';
 import EditTemplateModal from '@/components/EditTemplateModal';
+import TaxProfileDialog from '@/components/TaxProfileDialog';
 import {
   DollarSign, TrendingUp, Users, Eye, Package,
   ArrowUpRight, ArrowDownRight, Download, CreditCard,
   Gift, Building, Wallet, AlertCircle, Check, X,
   BarChart3, PieChart, Calendar, Plus, Edit2, Trash2,
-  Share2, Star, Settings, ChevronRight
+  Share2, Star, Settings, ChevronRight, FileText
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -29,7 +30,7 @@ import {
   DialogFooter
 } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
-import { ClientCreatorDashboard, ClientTemplate } from '@/lib/types';
+import { ClientCreatorDashboard, ClientTemplate, ClientTaxProfile, ClientTaxStatement } from '@/lib/types';
 import { useAuth } from '@/contexts/JWTAuthContext';
 import { Link, useLocation } from 'wouter';
 import { motion } from 'framer-motion';
@@ -59,6 +60,8 @@ export default function CreatorDashboard() {
   const [payoutAmount, setPayoutAmount] = useState('');
   const [editingTemplate, setEditingTemplate] = useState<any>(null);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showTaxDialog, setShowTaxDialog] = useState(false);
+  const [downloadingStatement, setDownloadingStatement] = useState<string | null>(null);
 
   // Fetch dashboard data
   const { data: dashboard, isLoading, refetch } = useQuery({
@@ -75,6 +78,60 @@ export default function CreatorDashboard() {
     enabled: !!user,
   });
 
+  // Fetch tax form on file and annual earnings statements
+  const { data: taxProfile } = useQuery({
+    queryKey: ['creator-tax-profile'],
+    queryFn: async () => {
+      const response = await fetch('/api/creators/tax-profile', {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      if (!response.ok) throw new Error('Failed to fetch tax profile');
+      const data = await response.json();
+      return data.profile as ClientTaxProfile | null;
+    },
+    enabled: !!user,
+  });
+
+  const { data: taxStatements } = useQuery({
+    queryKey: ['creator-tax-statements'],
+    queryFn: async () => {
+      const response = await fetch('/api/creators/tax-statements', {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      if (!response.ok) throw new Error('Failed to fetch tax statements');
+      return response.json() as Promise<{ threshold: number; statements: ClientTaxStatement[] }>;
+    },
+    enabled: !!user,
+  });
+
+  const downloadStatement = async (year: number, fileFormat: 'csv' | 'pdf') => {
+    setDownloadingStatement(`${year}.${fileFormat}`);
+    try {
+      const response = await fetch(`/api/creators/tax-statements/${year}.${fileFormat}`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      if (!response.ok) throw new Error(response.statusText);
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `remvana-earnings-${year}.${fileFormat}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: 'Download failed', description: 'Please try again', variant: 'destructive' });
+    } finally {
+      setDownloadingStatement(null);
+    }
+  };
+
   // Request payout mutation
   const payoutMutation = useMutation({
     mutationFn: async ({ method, amount }: { method: string; amount: string }) => {
@@ -97,7 +154,7 @@ export default function CreatorDashboard() {
     onSuccess: (data) => {
       toast({
         title: 'Payout requested!',
-        description: `Your ${payoutMethod} payout of $${payoutAmount} will arrive by ${data.estimatedArrival}`,
+        description: `Your ${payoutMethod} payout of $${payoutAmount} is awaiting approval and should arrive by ${data.estimatedArrival}`,
       });
       setShowPayoutModal(false);
       setPayoutAmount('');
@@ -508,7 +565,7 @@ export default function CreatorDashboard() {
                         <p className="text-sm text-yellow-800 mt-1">
                           You'll need to submit tax information (W-9) for payouts over $600.
                         </p>
-                        <Button variant="outline" size="sm" className="mt-2">
+                        <Button variant="outline" size="sm" className="mt-2" onClick={() => setShowTaxDialog(true)}>
                           Submit Tax Info
                         </Button>
                       </div>
@@ -518,6 +575,97 @@ export default function CreatorDashboard() {
               </CardContent>
             </Card>
 
+            {/* Tax Documents */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Tax Documents</CardTitle>
+                <CardDescription>Your tax form and annual earnings statements</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <FileText className="h-5 w-5 text-gray-500" />
+                    {taxProfile ? (
+                      <div>
+                        <p className="font-medium">
+                          {taxProfile.formType === 'w9' ? 'W-9' : 'W-8BEN'} on file
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {taxProfile.legalName} · {taxProfile.tinMasked} · signed {format(new Date(taxProfile.signedAt), 'MMM d, yyyy')}
+                        </p>
+                      </div>
+                    ) : (
+                      <div>
+                        <p className="font-medium">No tax form on file</p>
+                        <p className="text-sm text-gray-600">
+                          Required for payouts over $600 and year-end statements
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setShowTaxDialog(true)}>
+                    {taxProfile ? 'Update' : 'Submit Tax Info'}
+                  </Button>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-2">Year</th>
+                        <th className="text-right py-2">Sales</th>
+                        <th className="text-right py-2">Gross Sales</th>
+                        <th className="text-right py-2">Refunds</th>
+                        <th className="text-right py-2">Net Earnings</th>
+                        <th className="text-right py-2">Statement</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {taxStatements?.statements.map((statement) => (
+                        <tr key={statement.year} className="border-b">
+                          <td className="py-2">
+                            {statement.year}
+                            {statement.netEarnings >= taxStatements.threshold && (
+                              <Badge variant="outline" className="ml-2">Reportable</Badge>
+                            )}
+                          </td>
+                          <td className="text-right py-2">{statement.sales}</td>
+                          <td className="text-right py-2">${statement.grossSales.toFixed(2)}</td>
+                          <td className="text-right py-2 text-red-600">
+                            {statement.refundedEarnings > 0 ? `-$${statement.refundedEarnings.toFixed(2)}` : '—'}
+                          </td>
+                          <td className="text-right py-2 font-semibold text-green-600">
+                            ${statement.netEarnings.toFixed(2)}
+                          </td>
+                          <td className="text-right py-2">
+                            <div className="flex justify-end gap-2">
+                              {(['pdf', 'csv'] as const).map((fileFormat) => (
+                                <Button
+                                  key={fileFormat}
+                                  variant="ghost"
+                                  size="sm"
+                                  disabled={downloadingStatement === `${statement.year}.${fileFormat}`}
+                                  onClick={() => downloadStatement(statement.year, fileFormat)}
+                                >
+                                  <Download className="h-4 w-4 mr-1" />
+                                  {fileFormat.toUpperCase()}
+                                </Button>
+                              ))}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {!taxStatements?.statements.length && (
+                    <p className="text-center text-gray-500 py-8">
+                      Statements appear here after your first sale
+                    </p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
             {/* Sales Table */}
             <Card>
               <CardHeader>
@@ -769,6 +917,13 @@ export default function CreatorDashboard() {
           }
         }}
       />
+
+      {/* Tax Form Dialog */}
+      <TaxProfileDialog
+        open={showTaxDialog}
+        onOpenChange={setShowTaxDialog}
+        profile={taxProfile ?? null}
+      />
     </div>
   );
 }
@@ -47,6 +47,8 @@ export default function PublicTemplate() {
     );
   }
 
+  const sampleDay = template.preview?.sampleDay;
+
   const structuredData = {
     "@context": "https://schema.org",
     "@type": "Product",
@@ -248,6 +250,23 @@ export default function PublicTemplate() {
                   <CardTitle>Sample Day from the Itinerary</CardTitle>
                 </CardHeader>
                 <CardContent>
+                  {sampleDay ? (
+                    <div className="space-y-4">
+                      {sampleDay.activities.map((activity, index) => (
+                        <div key={index} className="flex gap-4 p-4 rounded-lg bg-purple-50">
+                          <div className="flex-shrink-0 w-12 h-12 rounded-full bg-white flex items-center justify-center shadow-sm">
+                            <Clock className="h-5 w-5 text-purple-600" />
+                          </div>
+                          <div>
+                            <h4 className="font-semibold">{activity.title}</h4>
+                            <p className="text-sm text-gray-600 mt-1">
+                              {[activity.time, activity.location].filter(Boolean).join(' · ') || activity.category}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
                   <div className="space-y-4">
                     <div className="flex gap-4 p-4 rounded-lg bg-purple-50">
                       <div className="flex-shrink-0 w-12 h-12 rounded-full bg-white flex items-center justify-center shadow-sm">
@@ -285,9 +304,10 @@ export default function PublicTemplate() {
                       </div>
                     </div>
                   </div>
+                  )}
 
                   <p className="text-center text-sm text-gray-600 mt-6">
-                    + {((template.tripData?.activities?.length || 15) - 3)} more amazing activities
+                    + {Math.max((template.preview?.activityCount || 15) - (sampleDay?.activities.length || 3), 0)} more amazing activities
                   </p>
                 </CardContent>
               </Card>
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, TrendingUp, Eye, ShoppingCart, DollarSign, Users, Calendar, MapPin, Star } from 'lucide-react';
+import { ClientSharePerformance } from '@/lib/types';
 import {
   LineChart,
   Line,
@@ -46,6 +47,21 @@ export default function TemplateAnalytics() {
     enabled: !!templateId
   });
 
+  // Share link performance by channel
+  const { data: sharePerformance } = useQuery({
+    queryKey: ['template-share-performance', templateId],
+    queryFn: async () => {
+      const response = await fetch(`/api/templates/${templateId}/share-performance`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      if (!response.ok) throw new Error('Failed to fetch share performance');
+      return response.json() as Promise<ClientSharePerformance>;
+    },
+    enabled: !!templateId
+  });
+
   // Mock data for now - replace with real API data
   const mockData = {
     template: {
@@ -222,6 +238,7 @@ export default function TemplateAnalytics() {
             <TabsTrigger value="sales">Sales</TabsTrigger>
             <TabsTrigger value="views">Views</TabsTrigger>
             <TabsTrigger value="traffic">Traffic Sources</TabsTrigger>
+            <TabsTrigger value="shares">Share Links</TabsTrigger>
           </TabsList>
 
           <TabsContent value="sales">
@@ -314,6 +331,59 @@ export default function TemplateAnalytics() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="shares">
+            <Card>
+              <CardHeader>
+                <CardTitle>Share Link Performance</CardTitle>
+                <CardDescription>
+                  Purchases within {sharePerformance?.referralWindowDays ?? 30} days of clicking a share link are credited to the last link clicked
+                  {sharePerformance?.commissionPercent
+                    ? `; other sharers earn ${sharePerformance.commissionPercent}% from the platform fee`
+                    : ''}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-2">Channel</th>
+                        <th className="text-right py-2">Links</th>
+                        <th className="text-right py-2">Clicks</th>
+                        <th className="text-right py-2">Sales</th>
+                        <th className="text-right py-2">Conversion</th>
+                        <th className="text-right py-2">Revenue</th>
+                        <th className="text-right py-2">Commissions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sharePerformance?.channels.map((channel) => (
+                        <tr key={channel.channel} className="border-b">
+                          <td className="py-2 capitalize">{channel.channel}</td>
+                          <td className="text-right py-2">{channel.links}</td>
+                          <td className="text-right py-2">{channel.clicks}</td>
+                          <td className="text-right py-2">{channel.conversions}</td>
+                          <td className="text-right py-2">{channel.conversionRate}%</td>
+                          <td className="text-right py-2 font-semibold text-green-600">
+                            ${channel.revenue.toFixed(2)}
+                          </td>
+                          <td className="text-right py-2 text-gray-500">
+                            ${channel.commission.toFixed(2)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {!sharePerformance?.channels.length && (
+                    <p className="text-center text-gray-500 py-8">
+                      No one has shared this template yet
+                    </p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
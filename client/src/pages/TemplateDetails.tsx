@@ -24,6 +24,7 @@ import ShareModalSimple from '@/components/ShareModalSimple';
 import StripeCheckout from '@/components/StripeCheckout';
 import { analytics } from '@/lib/analytics';
 import ReuseTemplateDialog from '@/components/ReuseTemplateDialog';
+import TemplatePreviewItinerary from '@/components/TemplatePreviewItinerary';
 
 export default function TemplateDetails() {
   const { slug } = useParams();
@@ -332,6 +333,9 @@ export default function TemplateDetails() {
                 <CardTitle>Day-by-Day Itinerary</CardTitle>
               </CardHeader>
               <CardContent>
+                {template.preview ? (
+                  <TemplatePreviewItinerary preview={template.preview} />
+                ) : (
                 <Tabs value={`day-${selectedDay}`} onValueChange={(v) => setSelectedDay(parseInt(v.split('-')[1]))}>
                   <TabsList className="flex flex-wrap gap-2 mb-6">
                     {dayGroups.map((_, index) => (
@@ -406,6 +410,7 @@ export default function TemplateDetails() {
                     </TabsContent>
                   ))}
                 </Tabs>
+                )}
               </CardContent>
             </Card>
 
@@ -91,6 +91,7 @@ export function TermsPage() {
                   <li>You grant buyers a license to use (not resell) your templates</li>
                   <li>Remvana takes a 30% commission on sales</li>
                   <li>You receive 70% of each sale</li>
+                  <li>Earnings from refunded or charged-back sales are deducted from your balance, even after they've been paid out</li>
                   <li>Payouts are processed monthly (minimum $50)</li>
                   <li>You must have rights to all content in your templates</li>
                   <li>Templates must be original work</li>
@@ -101,7 +102,7 @@ export function TermsPage() {
                 <h3 className="text-lg font-semibold text-gray-800 mb-2">For Buyers</h3>
                 <ul className="list-disc pl-6 space-y-2 text-gray-700">
                   <li>Templates are for personal use only</li>
-                  <li>No refunds after purchase (all sales final)</li>
+                  <li>Refunds can be requested within 14 days of purchase; requests for trips you've already used are reviewed case by case, and a refund removes your copy of the trip</li>
                   <li>You can customize templates for your trips</li>
                   <li>Cannot resell or share purchased templates</li>
                   <li>Templates come "as is" without warranties</li>
@@ -0,0 +1,283 @@
+import { useParams, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ActivityOutcome, JournalPhoto, TripJournal as TripJournalData, VisitStatus } from "@/lib/types";
+import { ArrowLeft, BookOpen, Calendar, Camera, CheckCircle, Clock, MapPin, Share2 } from "lucide-react";
+
+const STATUS_LABELS: Record<VisitStatus, { label: string; className: string }> = {
+  on_time: { label: 'On time', className: 'bg-green-100 text-green-800' },
+  early: { label: 'Early', className: 'bg-blue-100 text-blue-800' },
+  late: { label: 'Late', className: 'bg-amber-100 text-amber-800' },
+  moved: { label: 'Different day', className: 'bg-purple-100 text-purple-800' },
+  visited: { label: 'Visited', className: 'bg-green-100 text-green-800' },
+  skipped: { label: 'Skipped', className: 'bg-gray-100 text-gray-600' },
+  upcoming: { label: 'Upcoming', className: 'bg-gray-100 text-gray-600' },
+  unscheduled: { label: 'Unscheduled', className: 'bg-gray-100 text-gray-600' },
+};
+
+function formatDelta(minutes: number | null): string | null {
+  if (minutes === null || minutes === 0) return null;
+  const abs = Math.abs(minutes);
+  const amount = abs >= 60 ? `${Math.floor(abs / 60)}h ${abs % 60}m` : `${abs}m`;
+  return minutes > 0 ? `${amount} late` : `${amount} early`;
+}
+
+function PhotoGrid({ photos }: { photos: JournalPhoto[] }) {
+  if (photos.length === 0) return null;
+  return (
+    <div className="grid grid-cols-3 gap-2 mt-3">
+      {photos.map(photo => (
+        <a key={photo.id} href={photo.fileUrl} target="_blank" rel="noreferrer" className="aspect-square rounded-lg overflow-hidden">
+          <img src={photo.fileUrl} alt={photo.caption || 'Trip photo'} loading="lazy" className="w-full h-full object-cover" />
+        </a>
+      ))}
+    </div>
+  );
+}
+
+function JournalEntry({ outcome }: { outcome: ActivityOutcome }) {
+  return (
+    <div className="relative pl-6 pb-6 border-l last:pb-0">
+      <div className="absolute -left-1.5 top-1 w-3 h-3 rounded-full bg-primary" />
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Clock className="w-3 h-3" />
+        {outcome.actualTime}
+      </div>
+      <div className="font-medium text-lg">{outcome.title}</div>
+      {outcome.locationName && (
+        <div className="text-sm text-muted-foreground flex items-center gap-1">
+          <MapPin className="w-3 h-3" />
+          {outcome.locationName}
+        </div>
+      )}
+      {outcome.checkins.filter(c => c.note).map(checkin => (
+        <p key={checkin.id} className="mt-2 text-sm italic">"{checkin.note}"</p>
+      ))}
+      <PhotoGrid photos={outcome.photos} />
+    </div>
+  );
+}
+
+function PlanRow({ outcome }: { outcome: ActivityOutcome }) {
+  const status = STATUS_LABELS[outcome.status];
+  const delta = outcome.status === 'late' || outcome.status === 'early' ? formatDelta(outcome.deltaMinutes) : null;
+
+  return (
+    <div className="flex items-center justify-between p-3 border rounded-lg">
+      <div>
+        <div className="font-medium">{outcome.title}</div>
+        <div className="text-sm text-muted-foreground">
+          Planned {outcome.plannedTime || 'any time'}
+          {outcome.actualTime && (
+            <>
+              {' • '}Arrived {outcome.actualTime}
+              {outcome.status === 'moved' && outcome.actualDate && ` on ${format(parseISO(outcome.actualDate), 'EEE, MMM d')}`}
+            </>
+          )}
+          {delta && ` (${delta})`}
+        </div>
+      </div>
+      <Badge className={status.className}>{status.label}</Badge>
+    </div>
+  );
+}
+
+/**
+ * What actually happened on a trip, from check-ins, notes and photos. Trip
+ * members see it at /trip/:id/journal while travelling and after; once the
+ * trip is over it can be shared at /share/:shareCode/journal.
+ */
+export default function TripJournal() {
+  const { id, shareCode } = useParams<{ id?: string; shareCode?: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const isShared = !!shareCode;
+
+  const { data: journal, isLoading, error } = useQuery<TripJournalData>({
+    queryKey: isShared ? [`/api/public/share/${shareCode}/journal`] : [`/api/travel/trips/${id}/journal`],
+    queryFn: async () => {
+      if (!isShared) {
+        return apiRequest('GET', `/api/travel/trips/${id}/journal`);
+      }
+      const response = await fetch(`/api/public/share/${shareCode}/journal`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || 'Journal not found');
+      }
+      return response.json();
+    },
+    enabled: isShared || !!id,
+  });
+
+  const shareJournal = () => {
+    if (!journal?.trip.shareCode) return;
+    const url = `${window.location.origin}/share/${journal.trip.shareCode}/journal`;
+    navigator.clipboard.writeText(url).then(
+      () => toast({ title: 'Link copied', description: 'Anyone with the link can read this journal.' }),
+      () => toast({ title: 'Could not copy link', description: url, variant: 'destructive' })
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading journal...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !journal) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-6 text-center">
+            <BookOpen className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Journal not available</h2>
+            <p className="text-muted-foreground mb-4">
+              {error instanceof Error ? error.message : 'This trip may have been removed or the link is incorrect.'}
+            </p>
+            <Button onClick={() => setLocation('/')}>Go to Homepage</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { trip, stats } = journal;
+  const daysWithEntries = journal.days.filter(day => day.actual.length > 0 || day.photos.length > 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto p-4 py-8 space-y-6">
+        <div className="flex justify-between items-start">
+          <div>
+            {!isShared && (
+              <Button variant="ghost" size="sm" className="mb-2 -ml-2" onClick={() => setLocation(`/trip/${trip.id}`)}>
+                <ArrowLeft className="w-4 h-4 mr-1" />
+                Back to trip
+              </Button>
+            )}
+            <h1 className="text-3xl font-bold mb-2">{trip.title}</h1>
+            <div className="flex items-center gap-4 text-sm text-muted-foreground">
+              {(trip.city || trip.country) && (
+                <div className="flex items-center gap-1">
+                  <MapPin className="w-4 h-4" />
+                  {[trip.city, trip.country].filter(Boolean).join(', ')}
+                </div>
+              )}
+              <div className="flex items-center gap-1">
+                <Calendar className="w-4 h-4" />
+                {format(parseISO(trip.startDate), 'MMM d')} - {format(parseISO(trip.endDate), 'MMM d, yyyy')}
+              </div>
+              {!journal.isComplete && <Badge variant="secondary">In progress</Badge>}
+            </div>
+          </div>
+
+          {!isShared && journal.isComplete && trip.shareCode && (
+            <Button size="sm" variant="outline" onClick={shareJournal}>
+              <Share2 className="w-4 h-4 mr-2" />
+              Share Journal
+            </Button>
+          )}
+        </div>
+
+        {!isShared && journal.isComplete && !trip.shareCode && (
+          <p className="text-sm text-muted-foreground">
+            Turn on sharing for this trip to share its journal.
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <Card>
+            <CardContent className="pt-4 text-center">
+              <CheckCircle className="w-5 h-5 mx-auto mb-1 text-green-600" />
+              <div className="text-2xl font-bold">{stats.visited}</div>
+              <div className="text-xs text-muted-foreground">Places visited</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-4 text-center">
+              <Calendar className="w-5 h-5 mx-auto mb-1 text-blue-600" />
+              <div className="text-2xl font-bold">{stats.completionRate ?? '–'}{stats.completionRate !== null && '%'}</div>
+              <div className="text-xs text-muted-foreground">Of the plan done</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-4 text-center">
+              <Clock className="w-5 h-5 mx-auto mb-1 text-amber-600" />
+              <div className="text-2xl font-bold">{stats.onTime}</div>
+              <div className="text-xs text-muted-foreground">On schedule</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-4 text-center">
+              <Camera className="w-5 h-5 mx-auto mb-1 text-purple-600" />
+              <div className="text-2xl font-bold">{stats.photos}</div>
+              <div className="text-xs text-muted-foreground">Photos</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Tabs defaultValue={journal.isComplete || isShared ? 'journal' : 'plan'}>
+          <TabsList>
+            <TabsTrigger value="journal">Journal</TabsTrigger>
+            <TabsTrigger value="plan">Planned vs Actual</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="journal" className="space-y-4">
+            {daysWithEntries.length === 0 ? (
+              <Card>
+                <CardContent className="pt-6 text-center text-muted-foreground">
+                  No check-ins yet. Check in at activities in Travel Mode and they'll appear here.
+                </CardContent>
+              </Card>
+            ) : (
+              daysWithEntries.map(day => (
+                <Card key={day.date}>
+                  <CardHeader>
+                    <CardTitle className="text-lg">{format(parseISO(day.date), 'EEEE, MMMM d')}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {day.actual.map(outcome => (
+                      <JournalEntry key={outcome.activityId} outcome={outcome} />
+                    ))}
+                    <PhotoGrid photos={day.photos} />
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="plan" className="space-y-4">
+            {journal.days.filter(day => day.planned.length > 0).map(day => (
+              <Card key={day.date}>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center justify-between">
+                    {format(parseISO(day.date), 'EEEE, MMMM d')}
+                    <Badge variant="outline">
+                      {day.summary.visited} of {day.summary.planned} visited
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {day.planned.map(outcome => (
+                    <PlanRow key={outcome.activityId} outcome={outcome} />
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -12,14 +12,18 @@ import AITripChat from "@/components/AITripChat";
 import SmartTourRecommendations from "@/components/SmartTourRecommendations";
 import useTrip from "@/hooks/useTrip";
 import useActivities from "@/hooks/useActivities";
+import { useRealTimeCollaboration } from "@/hooks/useRealTimeCollaboration";
+import { useAuth } from "@/contexts/JWTAuthContext";
 import { useMapboxDirections } from "@/hooks/useMapboxDirections";
 import { ClientActivity, MapMarker, MapRoute } from "@/lib/types";
-import { getDaysBetweenDates } from "@/lib/constants";
-import { apiRequest } from "@/lib/queryClient";
+import { API_ENDPOINTS, getDaysBetweenDates } from "@/lib/constants";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { MessageCircle, X, Sparkles, Package, Share2, Camera } from "lucide-react";
 import CreateTemplateModal from "@/components/CreateTemplateModal";
 import TripPosterGenerator from "@/components/TripPosterGenerator";
 import ActivityGenerator from "@/components/ActivityGenerator";
+import TripHistoryPanel from "@/components/TripHistoryPanel";
+import FlightBookingPanel from "@/components/FlightBookingPanel";
 
 export default function TripPlanner() {
   const [match, params] = useRoute("/trip/:id");
@@ -58,6 +62,10 @@ export default function TripPlanner() {
     error: activitiesError,
     refetchActivities 
   } = useActivities(tripId);
+
+  // Live edits from other collaborators are patched into the activities cache
+  const { user } = useAuth();
+  useRealTimeCollaboration({ tripId, userId: user?.id });
   
   
   // State for currently active day
@@ -71,6 +79,8 @@ export default function TripPlanner() {
   
   // State for share modal
   const [shareModalOpen, setShareModalOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [flightsOpen, setFlightsOpen] = useState(false);
   
   // State for create template modal
   const [createTemplateModalOpen, setCreateTemplateModalOpen] = useState(false);
@@ -379,19 +389,10 @@ export default function TripPlanner() {
     setMobileView(mobileView === 'itinerary' ? 'map' : 'itinerary');
   };
 
-  // Handle adding activities from AI chat
-  const handleAddActivitiesFromAI = async (newActivities: any[]) => {
-    for (const activity of newActivities) {
-      try {
-        await apiRequest('POST', '/api/activities', {
-          ...activity,
-          tripId: trip.id,
-        });
-      } catch (error) {
-        // Error adding activity
-      }
-    }
+  // Changes applied from the AI chat can touch the trip (hotel, budget) as well as activities
+  const handleAIChangesApplied = () => {
     refetchActivities();
+    queryClient.invalidateQueries({ queryKey: [API_ENDPOINTS.TRIPS, tripId] });
   };
 
   return (
@@ -401,6 +402,8 @@ export default function TripPlanner() {
       onCreateTemplate={() => setCreateTemplateModalOpen(true)}
       onCreatePoster={() => setShowPosterGenerator(true)}
       onToggleCollaborative={handleToggleCollaborative}
+      onOpenHistory={() => setHistoryOpen(true)}
+      onOpenFlights={() => setFlightsOpen(true)}
     >
       {/* Activity Generator for progressive loading */}
       <ActivityGenerator 
@@ -533,7 +536,7 @@ export default function TripPlanner() {
               activities,
             }}
             onAddActivity={handleOpenActivityModal}
-            onUpdateItinerary={handleAddActivitiesFromAI}
+            onChangesApplied={handleAIChangesApplied}
           />
         </div>
       )}
@@ -569,6 +572,9 @@ export default function TripPlanner() {
       )}
       
 
+      <TripHistoryPanel tripId={tripId} open={historyOpen} onOpenChange={setHistoryOpen} />
+      {trip && <FlightBookingPanel trip={trip} open={flightsOpen} onOpenChange={setFlightsOpen} />}
+
       {/* Create Template Modal */}
       {trip && createTemplateModalOpen && (
         <CreateTemplateModal
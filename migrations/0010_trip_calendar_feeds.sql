@@ -0,0 +1,9 @@
+-- Calendar export: per-trip time zone and secret token for the subscribable .ics feed
+
+ALTER TABLE trips
+ADD COLUMN IF NOT EXISTS timezone TEXT,
+ADD COLUMN IF NOT EXISTS calendar_token TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trips_calendar_token
+ON trips(calendar_token)
+WHERE calendar_token IS NOT NULL;
@@ -0,0 +1,32 @@
+-- Collaborative editing: per-trip revision counter, per-activity versions
+-- and the server-side operation log used for conflict checks and replay
+
+ALTER TABLE trips
+ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE activities
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS trip_operations (
+  id SERIAL PRIMARY KEY,
+  trip_id INTEGER NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  user_id INTEGER NOT NULL,
+  op_id TEXT,
+  type TEXT NOT NULL,
+  activity_id INTEGER,
+  activity_version INTEGER,
+  payload JSONB NOT NULL,
+  changes JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trip_operations_trip_revision
+ON trip_operations(trip_id, revision);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trip_operations_trip_op_id
+ON trip_operations(trip_id, op_id)
+WHERE op_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trip_operations_activity
+ON trip_operations(activity_id, activity_version);
@@ -0,0 +1,34 @@
+-- Trip version history: changesets (one per user action or AI bulk change)
+-- and the row-level changes they made, used for diffs and restore
+
+CREATE TABLE IF NOT EXISTS trip_changesets (
+  id SERIAL PRIMARY KEY,
+  trip_id INTEGER NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  user_id INTEGER,
+  source TEXT NOT NULL DEFAULT 'user',
+  description TEXT,
+  reverted_by_changeset_id INTEGER,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS trip_changes (
+  id SERIAL PRIMARY KEY,
+  changeset_id INTEGER NOT NULL REFERENCES trip_changesets(id) ON DELETE CASCADE,
+  trip_id INTEGER NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL,
+  entity_id INTEGER NOT NULL,
+  action TEXT NOT NULL,
+  day DATE,
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_changesets_trip
+ON trip_changesets(trip_id, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_trip_changes_changeset
+ON trip_changes(changeset_id);
+
+CREATE INDEX IF NOT EXISTS idx_trip_changes_trip_day
+ON trip_changes(trip_id, day);
@@ -0,0 +1,17 @@
+-- Exchange rates for multi-currency budgets, and the date each group
+-- expense was incurred so it converts at that day's rate
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id SERIAL PRIMARY KEY,
+  base_currency TEXT NOT NULL,
+  quote_currency TEXT NOT NULL,
+  rate DECIMAL(18, 8) NOT NULL,
+  rate_date DATE NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_rates_pair_date
+ON exchange_rates(base_currency, quote_currency, rate_date);
+
+ALTER TABLE group_expenses ADD COLUMN IF NOT EXISTS expense_date DATE;
@@ -0,0 +1,22 @@
+-- Settle-up ledger: payments between trip members, full or partial
+
+CREATE TABLE IF NOT EXISTS expense_settlements (
+  id SERIAL PRIMARY KEY,
+  trip_id INTEGER NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  expense_id INTEGER REFERENCES group_expenses(id) ON DELETE SET NULL,
+  from_user_id INTEGER NOT NULL,
+  to_user_id INTEGER NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  method TEXT NOT NULL DEFAULT 'other',
+  settled_on DATE NOT NULL,
+  note TEXT,
+  recorded_by INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_settlements_trip
+ON expense_settlements(trip_id, settled_on);
+
+CREATE INDEX IF NOT EXISTS idx_expense_settlements_expense
+ON expense_settlements(expense_id);
@@ -0,0 +1,23 @@
+-- Receipt uploads for group expenses, with the OCR text and extracted fields
+
+CREATE TABLE IF NOT EXISTS expense_receipts (
+  id SERIAL PRIMARY KEY,
+  trip_id INTEGER NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  expense_id INTEGER REFERENCES group_expenses(id) ON DELETE SET NULL,
+  uploaded_by INTEGER NOT NULL,
+  storage_key TEXT NOT NULL,
+  original_name TEXT,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  ocr_status TEXT NOT NULL DEFAULT 'pending',
+  ocr_text TEXT,
+  ocr_confidence INTEGER,
+  extracted JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_receipts_trip
+ON expense_receipts(trip_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_expense_receipts_expense
+ON expense_receipts(expense_id);
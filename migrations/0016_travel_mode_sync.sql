@@ -0,0 +1,56 @@
+-- Travel mode: check-ins, trip photos and the offline mutation replay log
+
+CREATE TABLE IF NOT EXISTS activity_checkins (
+  id SERIAL PRIMARY KEY,
+  trip_id INTEGER NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  activity_id INTEGER NOT NULL REFERENCES activities(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL,
+  checked_in_at TIMESTAMP NOT NULL,
+  latitude DECIMAL(11, 8),
+  longitude DECIMAL(11, 8),
+  note TEXT,
+  client_id TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_activity_checkins_activity_user
+ON activity_checkins(activity_id, user_id);
+
+CREATE INDEX IF NOT EXISTS idx_activity_checkins_trip
+ON activity_checkins(trip_id);
+
+CREATE TABLE IF NOT EXISTS trip_photos (
+  id SERIAL PRIMARY KEY,
+  trip_id INTEGER NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  activity_id INTEGER REFERENCES activities(id) ON DELETE SET NULL,
+  user_id INTEGER NOT NULL,
+  storage_key TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  latitude DECIMAL(11, 8),
+  longitude DECIMAL(11, 8),
+  caption TEXT,
+  taken_at TIMESTAMP,
+  client_id TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_photos_trip
+ON trip_photos(trip_id, taken_at);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trip_photos_user_client
+ON trip_photos(user_id, client_id);
+
+CREATE TABLE IF NOT EXISTS offline_mutations (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  trip_id INTEGER NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  client_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL,
+  result JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_offline_mutations_user_client
+ON offline_mutations(user_id, client_id);
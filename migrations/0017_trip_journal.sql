@@ -0,0 +1,10 @@
+-- Trip journal: the traveller's local UTC offset at check-in, so "actual"
+-- times can be compared with planned ones on the right day
+
+ALTER TABLE activity_checkins ADD COLUMN IF NOT EXISTS utc_offset_minutes INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_activity_checkins_user
+ON activity_checkins(user_id, trip_id);
+
+CREATE INDEX IF NOT EXISTS idx_trip_photos_activity
+ON trip_photos(activity_id);
@@ -0,0 +1,6 @@
+-- Flight bookings: look up a booking by its Duffel order id when Duffel
+-- reports an order change (e.g. an airline cancellation)
+
+CREATE INDEX IF NOT EXISTS idx_bookings_duffel_order
+ON bookings((booking_details->>'orderId'))
+WHERE provider = 'duffel';
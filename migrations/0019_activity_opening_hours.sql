@@ -0,0 +1,4 @@
+-- Opening hours awareness: keep the OSM opening_hours value of the place an
+-- activity visits, so closed-time warnings work without refetching OSM
+
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS opening_hours TEXT;
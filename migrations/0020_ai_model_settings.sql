@@ -0,0 +1,17 @@
+-- LLM provider layer: per-feature model choice. Empty values fall back to
+-- ai_model_default, then to the AI_PROVIDER/AI_MODEL environment. Values are
+-- a model name or "provider:model" (openai, anthropic, local, stub).
+
+INSERT INTO system_settings (setting_key, setting_value, setting_type, category, description, is_sensitive) VALUES
+  ('ai_provider', '', 'string', 'ai', 'Default LLM provider: openai, anthropic, local or stub', false),
+  ('ai_model_default', '', 'string', 'ai', 'Model for features without their own setting', false),
+  ('ai_model_assistant', '', 'string', 'ai', 'Model for trip chat and questions', false),
+  ('ai_model_itinerary', '', 'string', 'ai', 'Model for generating and parsing itineraries', false),
+  ('ai_model_suggestions', '', 'string', 'ai', 'Model for activity, food, hotel, weather and budget suggestions', false),
+  ('ai_model_summaries', '', 'string', 'ai', 'Model for day summaries and optimization explanations', false),
+  ('ai_model_translation', '', 'string', 'ai', 'Model for translations', false),
+  ('ai_model_booking_import', '', 'string', 'ai', 'Model for reading forwarded booking emails', false),
+  ('ai_model_content', '', 'string', 'ai', 'Model for destination and SEO pages', false),
+  ('ai_model_locations', '', 'string', 'ai', 'Model for place lookup, geocoding and airport codes', false),
+  ('ai_model_templates', '', 'string', 'ai', 'Model for generated marketplace templates', false)
+ON CONFLICT (setting_key) DO NOTHING;
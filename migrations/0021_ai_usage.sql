@@ -0,0 +1,33 @@
+-- AI usage metering: one row per model call or AI cache hit, with tokens,
+-- estimated cost and latency. Quotas are per user per UTC day; 0 means no
+-- limit. Per-feature limits cap one feature's requests for each user.
+
+CREATE TABLE IF NOT EXISTS ai_usage_events (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER,
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  cache_hit BOOLEAN NOT NULL DEFAULT false,
+  success BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created
+ON ai_usage_events(user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created
+ON ai_usage_events(created_at);
+
+INSERT INTO system_settings (setting_key, setting_value, setting_type, category, description, is_sensitive) VALUES
+  ('ai_quota_daily_requests', '200', 'number', 'ai', 'AI requests per user per day, all features (0 = no limit)', false),
+  ('ai_quota_daily_cost_usd', '1.00', 'number', 'ai', 'Estimated AI spend per user per day in USD (0 = no limit)', false),
+  ('ai_quota_assistant_daily_requests', '100', 'number', 'ai', 'Trip chat requests per user per day (0 = no limit)', false),
+  ('ai_quota_itinerary_daily_requests', '30', 'number', 'ai', 'Itinerary generation requests per user per day (0 = no limit)', false),
+  ('ai_quota_suggestions_daily_requests', '0', 'number', 'ai', 'Suggestion requests per user per day (0 = no limit)', false),
+  ('ai_quota_translation_daily_requests', '0', 'number', 'ai', 'Translation requests per user per day (0 = no limit)', false)
+ON CONFLICT (setting_key) DO NOTHING;
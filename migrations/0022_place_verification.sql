@@ -0,0 +1,7 @@
+-- Whether an AI-suggested activity's place was found in OpenStreetMap or by
+-- geocoding. NULL status means the place was never checked (activities
+-- added by hand, or edited since); the UI marks 'unverified' ones.
+
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS verification_status TEXT;
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS verification_confidence DECIMAL(3, 2);
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS verification_source TEXT;
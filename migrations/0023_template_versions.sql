@@ -0,0 +1,42 @@
+-- Template versions: immutable snapshots of a template's itinerary, each with
+-- a changelog. templates.trip_data stays the creator's working draft. Buyers
+-- are pinned to the version they bought (template_purchases.template_version)
+-- and can pull later versions into their trip; activities remember which
+-- template activity they came from (activities.template_item_key) so the
+-- update can be merged with the buyer's own edits.
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE template_purchases ADD COLUMN IF NOT EXISTS template_version INTEGER;
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS template_item_key TEXT;
+
+CREATE TABLE IF NOT EXISTS template_versions (
+  id SERIAL PRIMARY KEY,
+  template_id INTEGER NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  duration INTEGER,
+  trip_data JSONB NOT NULL,
+  changelog TEXT NOT NULL,
+  published_by INTEGER,
+  published_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_template_versions_template_version
+  ON template_versions(template_id, version);
+
+-- Published templates start at version 1 with what they hold now. Earlier
+-- edits overwrote trip_data in place, so that is the closest record of what
+-- existing buyers have.
+INSERT INTO template_versions (template_id, version, title, description, duration, trip_data, changelog, published_by, published_at)
+SELECT id, 1, title, description, duration, trip_data, 'Initial version', user_id, COALESCE(updated_at, created_at, NOW())
+FROM templates
+WHERE status = 'published' AND current_version = 0
+ON CONFLICT DO NOTHING;
+
+UPDATE templates SET current_version = 1 WHERE status = 'published' AND current_version = 0;
+
+UPDATE template_purchases p
+SET template_version = 1
+FROM templates t
+WHERE p.template_id = t.id AND t.current_version >= 1 AND p.template_version IS NULL;
@@ -0,0 +1,7 @@
+-- Template previews: non-buyers get a redacted preview built from trip_data
+-- instead of the itinerary itself. preview_level sets how much it reveals:
+--   minimal  - day outlines and categories
+--   standard - also an area heatmap and one sample day
+--   extended - also every day's activity titles
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS preview_level TEXT NOT NULL DEFAULT 'standard';
@@ -0,0 +1,59 @@
+-- Creator payouts: payout requests become creator_payouts rows moving
+-- requested -> approved -> processing -> paid/failed. Approved payouts are
+-- exported in payout_batches (PayPal mass-pay CSV, NACHA bank file) and the
+-- provider's results are imported back onto the payouts and the purchases
+-- they cover. Sale earnings now sit in pending_balance until the refund
+-- window passes (template_purchases.earnings_released_at).
+
+ALTER TABLE creator_balances ADD COLUMN IF NOT EXISTS payout_email TEXT;
+ALTER TABLE creator_balances ADD COLUMN IF NOT EXISTS bank_account_holder TEXT;
+ALTER TABLE creator_balances ADD COLUMN IF NOT EXISTS bank_routing_number TEXT;
+ALTER TABLE creator_balances ADD COLUMN IF NOT EXISTS bank_account_number TEXT;
+ALTER TABLE creator_balances ADD COLUMN IF NOT EXISTS bank_account_type TEXT DEFAULT 'checking';
+
+ALTER TABLE template_purchases ADD COLUMN IF NOT EXISTS payout_id INTEGER;
+ALTER TABLE template_purchases ADD COLUMN IF NOT EXISTS earnings_released_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS payout_batches (
+  id SERIAL PRIMARY KEY,
+  method TEXT NOT NULL,
+  format TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_contents TEXT NOT NULL,
+  payout_count INTEGER NOT NULL,
+  total_amount DECIMAL(10, 2) NOT NULL,
+  created_by INTEGER,
+  created_at TIMESTAMP DEFAULT NOW(),
+  reconciled_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS creator_payouts (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2) NOT NULL,
+  currency TEXT DEFAULT 'USD',
+  method TEXT NOT NULL,
+  destination TEXT,
+  status TEXT NOT NULL DEFAULT 'requested',
+  batch_id INTEGER REFERENCES payout_batches(id) ON DELETE SET NULL,
+  transaction_id TEXT,
+  failure_reason TEXT,
+  notes TEXT,
+  approved_by INTEGER,
+  requested_at TIMESTAMP DEFAULT NOW(),
+  approved_at TIMESTAMP,
+  processing_at TIMESTAMP,
+  paid_at TIMESTAMP,
+  failed_at TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_creator_payouts_user ON creator_payouts(user_id, requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_creator_payouts_status ON creator_payouts(status, method);
+CREATE INDEX IF NOT EXISTS idx_template_purchases_payout ON template_purchases(payout_id);
+
+-- Earnings from sales before this migration were credited straight to
+-- available_balance, so they count as already released.
+UPDATE template_purchases
+SET earnings_released_at = COALESCE(purchased_at, NOW())
+WHERE earnings_released_at IS NULL;
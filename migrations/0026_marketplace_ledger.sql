@@ -0,0 +1,88 @@
+-- Marketplace ledger: an append-only double-entry record of every money
+-- movement (sales, bundle splits, promo discounts, refunds, disputes, hold
+-- releases, payouts). Each transaction's entries sum to zero, debits
+-- positive and credits negative. Creator balances are derived from it; the
+-- legacy balance columns are still written and checked against it.
+
+CREATE TABLE IF NOT EXISTS ledger_transactions (
+  id SERIAL PRIMARY KEY,
+  kind TEXT NOT NULL,
+  reference_type TEXT,
+  reference_id INTEGER,
+  description TEXT,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  metadata JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id SERIAL PRIMARY KEY,
+  transaction_id INTEGER NOT NULL REFERENCES ledger_transactions(id),
+  account TEXT NOT NULL,
+  user_id INTEGER,
+  amount DECIMAL(12, 2) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account_user ON ledger_entries(account, user_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction ON ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_reference ON ledger_transactions(reference_type, reference_id);
+
+-- Append-only: corrections are new transactions, never edits
+CREATE OR REPLACE FUNCTION ledger_append_only() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'The ledger is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_transactions_append_only ON ledger_transactions;
+CREATE TRIGGER ledger_transactions_append_only
+  BEFORE UPDATE OR DELETE ON ledger_transactions
+  FOR EACH ROW EXECUTE FUNCTION ledger_append_only();
+
+DROP TRIGGER IF EXISTS ledger_entries_append_only ON ledger_entries;
+CREATE TRIGGER ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION ledger_append_only();
+
+-- Opening balances: one transaction per creator carrying their balances as
+-- they stand, against the opening_balances equity account. The metadata
+-- keeps the lifetime totals the consistency checker compares from.
+WITH open_payouts AS (
+  SELECT user_id, SUM(amount) AS in_transit
+  FROM creator_payouts
+  WHERE status IN ('requested', 'approved', 'processing')
+  GROUP BY user_id
+),
+opening AS (
+  INSERT INTO ledger_transactions (kind, reference_type, reference_id, description, idempotency_key, metadata)
+  SELECT
+    'opening_balance', 'creator', b.user_id, 'Balances before the ledger', 'opening:' || b.user_id,
+    jsonb_build_object(
+      'lifetime_earnings', COALESCE(b.lifetime_earnings, 0),
+      'lifetime_payouts', COALESCE(b.lifetime_payouts, 0),
+      'total_template_revenue', COALESCE(u.total_template_revenue, 0)
+    )
+  FROM creator_balances b
+  LEFT JOIN users u ON u.id = b.user_id
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id, reference_id
+),
+lines AS (
+  SELECT o.id, 'creator_available' AS account, o.reference_id AS user_id, -COALESCE(b.available_balance, 0) AS amount
+  FROM opening o JOIN creator_balances b ON b.user_id = o.reference_id
+  UNION ALL
+  SELECT o.id, 'creator_pending', o.reference_id, -COALESCE(b.pending_balance, 0)
+  FROM opening o JOIN creator_balances b ON b.user_id = o.reference_id
+  UNION ALL
+  SELECT o.id, 'payouts_in_transit', o.reference_id, -COALESCE(p.in_transit, 0)
+  FROM opening o LEFT JOIN open_payouts p ON p.user_id = o.reference_id
+  UNION ALL
+  SELECT o.id, 'opening_balances', o.reference_id,
+    COALESCE(b.available_balance, 0) + COALESCE(b.pending_balance, 0) + COALESCE(p.in_transit, 0)
+  FROM opening o
+  JOIN creator_balances b ON b.user_id = o.reference_id
+  LEFT JOIN open_payouts p ON p.user_id = o.reference_id
+)
+INSERT INTO ledger_entries (transaction_id, account, user_id, amount)
+SELECT id, account, user_id, amount FROM lines WHERE amount <> 0;
@@ -0,0 +1,37 @@
+-- Refunds and disputes: buyers request refunds for template and bundle
+-- purchases (refund_requests), which the refund policy approves or sends
+-- to an admin. Bundle purchases can now be refunded and disputed like
+-- template purchases, and closed disputes are recorded as won or lost.
+
+ALTER TABLE bundle_purchases ADD COLUMN IF NOT EXISTS refund_amount DECIMAL(10, 2);
+ALTER TABLE bundle_purchases ADD COLUMN IF NOT EXISTS disputed_at TIMESTAMP;
+
+ALTER TABLE template_purchases ADD COLUMN IF NOT EXISTS dispute_status TEXT;
+UPDATE template_purchases SET dispute_status = 'open' WHERE status = 'disputed' AND dispute_status IS NULL;
+
+CREATE TABLE IF NOT EXISTS refund_requests (
+  id SERIAL PRIMARY KEY,
+  buyer_id INTEGER NOT NULL,
+  template_purchase_id INTEGER,
+  bundle_purchase_id INTEGER,
+  amount DECIMAL(10, 2) NOT NULL,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  decision TEXT,
+  stripe_refund_id TEXT,
+  failure_reason TEXT,
+  reviewed_by INTEGER,
+  reviewed_at TIMESTAMP,
+  refunded_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  CHECK ((template_purchase_id IS NULL) <> (bundle_purchase_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_refund_requests_buyer ON refund_requests(buyer_id);
+CREATE INDEX IF NOT EXISTS idx_refund_requests_status ON refund_requests(status);
+
+-- One open request per purchase
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refund_requests_open_template
+  ON refund_requests(template_purchase_id) WHERE status IN ('pending', 'approved');
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refund_requests_open_bundle
+  ON refund_requests(bundle_purchase_id) WHERE status IN ('pending', 'approved');
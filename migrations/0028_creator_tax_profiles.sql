@@ -0,0 +1,36 @@
+-- Creator tax profiles: W-9 or W-8BEN details collected before payouts over
+-- the reporting threshold, used for the annual 1099-style earnings
+-- statements. The TIN is encrypted by the application (AES-256-GCM with
+-- TAX_ENCRYPTION_KEY); only its last four digits are stored in clear.
+-- Submitting a profile sets creator_balances.w9_on_file.
+
+CREATE TABLE IF NOT EXISTS creator_tax_profiles (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL UNIQUE,
+  form_type TEXT NOT NULL,
+  legal_name TEXT NOT NULL,
+  business_name TEXT,
+  tax_classification TEXT,
+  citizenship_country TEXT,
+  date_of_birth DATE,
+  address_line1 TEXT NOT NULL,
+  address_line2 TEXT,
+  city TEXT NOT NULL,
+  state TEXT,
+  postal_code TEXT,
+  country TEXT NOT NULL DEFAULT 'US',
+  tin_type TEXT NOT NULL,
+  tin_encrypted TEXT NOT NULL,
+  tin_last4 TEXT NOT NULL,
+  treaty_country TEXT,
+  treaty_article TEXT,
+  treaty_rate DECIMAL(5, 2),
+  signature_name TEXT NOT NULL,
+  signed_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Annual statements group sales by purchase date and refunds by refund date
+CREATE INDEX IF NOT EXISTS idx_template_purchases_seller_purchased ON template_purchases(seller_id, purchased_at);
+CREATE INDEX IF NOT EXISTS idx_template_purchases_refunded ON template_purchases(refunded_at) WHERE refunded_at IS NOT NULL;
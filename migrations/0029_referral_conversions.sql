@@ -0,0 +1,28 @@
+-- Referral tracking on template share links: a purchase made within
+-- REFERRAL_WINDOW_DAYS of clicking a share link is attributed to that link
+-- (last click wins) and recorded here. Sharers other than the template's
+-- creator earn a commission out of the platform fee, held and released
+-- like sale earnings and reversed if the purchase is refunded.
+
+CREATE TABLE IF NOT EXISTS referral_conversions (
+  id SERIAL PRIMARY KEY,
+  share_id INTEGER NOT NULL,
+  template_id INTEGER NOT NULL,
+  template_purchase_id INTEGER NOT NULL UNIQUE,
+  referrer_id INTEGER NOT NULL,
+  buyer_id INTEGER NOT NULL,
+  sale_amount DECIMAL(10, 2) NOT NULL,
+  commission DECIMAL(10, 2) DEFAULT 0,
+  commission_status TEXT DEFAULT 'none',
+  clicked_at TIMESTAMP,
+  released_at TIMESTAMP,
+  reversed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_referral_conversions_share ON referral_conversions(share_id);
+CREATE INDEX IF NOT EXISTS idx_referral_conversions_referrer ON referral_conversions(referrer_id);
+CREATE INDEX IF NOT EXISTS idx_referral_conversions_held ON referral_conversions(created_at) WHERE commission_status = 'pending';
+
+-- Finding a sharer's existing link for a template and channel
+CREATE INDEX IF NOT EXISTS idx_template_shares_sharer ON template_shares(template_id, shared_by, share_channel);
@@ -0,0 +1,12 @@
+-- Bank payout details and payout batch files are encrypted by the
+-- application (AES-256-GCM with PAYOUT_ENCRYPTION_KEY); only the account's
+-- last four digits stay in clear. Rows saved before this migration are
+-- encrypted when the server starts (creatorPayoutService.encryptStoredDetails),
+-- which clears the plaintext columns. The columns themselves stay: SQL can't
+-- produce the application's ciphertext, so only the server can empty them.
+
+ALTER TABLE creator_balances ADD COLUMN IF NOT EXISTS bank_routing_number_encrypted TEXT;
+ALTER TABLE creator_balances ADD COLUMN IF NOT EXISTS bank_account_number_encrypted TEXT;
+
+ALTER TABLE payout_batches ADD COLUMN IF NOT EXISTS file_contents_encrypted TEXT;
+ALTER TABLE payout_batches ALTER COLUMN file_contents DROP NOT NULL;
@@ -2,6 +2,8 @@
 const CACHE_NAME = 'remvana-cache-v2';
 const STATIC_CACHE = 'remvana-static-v2';
 const DYNAMIC_CACHE = 'remvana-dynamic-v2';
+// Map tiles for Travel Mode; kept across deploys since tiles don't change with the app
+const TILE_CACHE = 'remvana-tiles-v1';
 
 // Critical files that should always be cached
 const STATIC_ASSETS = [
@@ -33,7 +35,7 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((keys) => {
       return Promise.all(
         keys.map((key) => {
-          if (key !== STATIC_CACHE && key !== DYNAMIC_CACHE) {
+          if (key !== STATIC_CACHE && key !== DYNAMIC_CACHE && key !== TILE_CACHE) {
             console.log('[Service Worker] Removing old cache:', key);
             return caches.delete(key);
           }
@@ -58,6 +60,22 @@ self.addEventListener('fetch', (event) => {
   // Skip chrome extension requests
   if (url.protocol === 'chrome-extension:') return;
 
+  // Mapbox tiles, styles, sprites and fonts - cache first. The query string
+  // carries the token and a per-session sku, so match without it.
+  if (url.hostname === 'api.mapbox.com' && /^\/(v4|styles|fonts)\//.test(url.pathname)) {
+    event.respondWith(
+      caches.open(TILE_CACHE).then((cache) => {
+        return cache.match(request, { ignoreSearch: true }).then((cached) => {
+          return cached || fetch(request).then((response) => {
+            if (response.ok) cache.put(request, response.clone());
+            return response;
+          });
+        });
+      })
+    );
+    return;
+  }
+
   // API calls - network first, cache fallback
   if (url.pathname.startsWith('/api/')) {
     event.respondWith(
@@ -166,18 +184,44 @@ self.addEventListener('notificationclick', function(event) {
   );
 });
 
-// Background sync event (for offline actions)
+// Cache the map area of a trip for Travel Mode (urls worked out by the page)
+self.addEventListener('message', (event) => {
+  if (!event.data || event.data.type !== 'CACHE_TRIP_TILES') return;
+
+  const { tripId, urls } = event.data;
+  event.waitUntil(
+    caches.open(TILE_CACHE).then(async (cache) => {
+      let done = 0;
+      // A few at a time so a big area doesn't swamp the connection
+      for (let i = 0; i < urls.length; i += 6) {
+        await Promise.all(urls.slice(i, i + 6).map(async (tileUrl) => {
+          try {
+            if (!(await cache.match(tileUrl, { ignoreSearch: true }))) {
+              const response = await fetch(tileUrl);
+              if (response.ok) await cache.put(tileUrl, response);
+            }
+          } catch (error) {
+            // Offline or rate limited; the tile is fetched on demand later
+          }
+          done++;
+        }));
+
+        const windows = await self.clients.matchAll({ type: 'window' });
+        windows.forEach((client) => client.postMessage({ type: 'TILE_CACHE_PROGRESS', tripId, done, total: urls.length }));
+      }
+    })
+  );
+});
+
+// Background sync event (for offline actions). The queue and the auth token
+// live in the page, so ask open windows to replay it.
 self.addEventListener('sync', (event) => {
   console.log('[Service Worker] Background sync:', event.tag);
-  
-  if (event.tag === 'sync-trips') {
+
+  if (event.tag === 'travel-sync') {
     event.waitUntil(
-      // Attempt to sync offline changes when connection is restored
-      fetch('/api/trips/sync', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        }
+      self.clients.matchAll({ type: 'window' }).then((windows) => {
+        windows.forEach((client) => client.postMessage({ type: 'REPLAY_OFFLINE_QUEUE' }));
       })
     );
   }
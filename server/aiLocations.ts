@@ -1,4 +1,4 @@
-import { getOpenAIClient, OPENAI_MODEL } from "./services/openaiClient";
+import { llm } from "./services/llmService";
 
 /**
  * Finds a location using AI to handle fuzzy search and returns multiple potential matches
@@ -28,10 +28,7 @@ export async function findLocation(searchQuery: string, cityContext?: string): P
     else {
       }
 
-    const openaiInstance = getOpenAIClient();
-
-    const response = await openaiInstance.chat.completions.create({
-      model: OPENAI_MODEL,
+    const response = await llm.chat('locations', {
       messages: [
         {
           role: "system",
@@ -47,11 +44,11 @@ export async function findLocation(searchQuery: string, cityContext?: string): P
         }
       ],
       temperature: 0.7, // Slightly higher temperature for more variety
-      response_format: { type: "json_object" },
+      json: true,
     });
 
     // Parse the response
-    const content = response.choices[0].message.content;
+    const content = response.content;
     if (!content) {
       throw new Error("No content in response");
     }
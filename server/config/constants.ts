@@ -23,7 +23,14 @@ export const CONFIG = {
   CACHE_TTL_DEFAULT: parseInt(process.env.CACHE_TTL_DEFAULT || '43200'), // 12 hours
 
   // AI Configuration
-  AI_MODEL: process.env.AI_MODEL || 'gpt-3.5-turbo',
+  // Provider used unless a model setting names one: openai, anthropic, local or stub
+  AI_PROVIDER: process.env.AI_PROVIDER || 'openai',
+  AI_MODEL: process.env.AI_MODEL || 'gpt-3.5-turbo', // Default OpenAI model
+  ANTHROPIC_MODEL: process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest',
+  ANTHROPIC_API_URL: process.env.ANTHROPIC_API_URL || 'https://api.anthropic.com',
+  // OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama
+  LOCAL_LLM_URL: process.env.LOCAL_LLM_URL || '',
+  LOCAL_LLM_MODEL: process.env.LOCAL_LLM_MODEL || 'llama3.1',
   AI_MAX_TOKENS: parseInt(process.env.AI_MAX_TOKENS || '1000'),
   AI_TEMPERATURE: parseFloat(process.env.AI_TEMPERATURE || '0.7'),
 
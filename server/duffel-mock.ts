@@ -0,0 +1,9 @@
+import { createDuffelMock } from './services/duffelMock';
+
+// Local Duffel stand-in for working on flights offline: npm run mock:duffel
+// then start the app with DUFFEL_API_URL=http://localhost:4010
+const port = parseInt(process.env.DUFFEL_MOCK_PORT || '4010', 10);
+
+createDuffelMock().app.listen(port, () => {
+  console.log(`Duffel mock listening on http://localhost:${port}`);
+});
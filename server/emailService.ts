@@ -32,7 +32,7 @@ interface NotificationEmailParams {
   actionUrl?: string;
   ctaLink?: string;
   actionText?: string;
-  type: 'trip_shared' | 'booking_confirmed' | 'activity_reminder' | 'team_invite' | 'payment_due' | 'system';
+  type: 'trip_shared' | 'booking_confirmed' | 'activity_reminder' | 'team_invite' | 'payment_due' | 'template_update' | 'system';
 }
 
 function generateNotificationHTML(params: NotificationEmailParams): string {
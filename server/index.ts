@@ -33,10 +33,13 @@ import { caseConversionMiddleware } from "./middleware/caseConversionMiddleware"
 // Session tracking removed for consumer app
 import { logger } from './utils/logger';
 import { correlationIdMiddleware } from './middleware/correlationId';
+import { aiUsageScope } from './services/aiUsageService';
 import { smartCache, contentTypeCache } from './middleware/httpCache';
 import { generalRateLimit } from './middleware/rateLimiting';
 import { unifiedMonitoringMiddleware } from "./middleware/unified-monitoring";
 import { intervalCleanup } from './services/intervalCleanup';
+import { creatorPayoutService } from './services/creatorPayoutService';
+import { startCollaborationServer } from './websocket';
 
 const app = express();
 const PORT = Number(process.env.PORT) || 5000;
@@ -196,6 +199,9 @@ app.use(caseConversionMiddleware);
 // JWT authentication only to API routes
 app.use('/api', jwtAuthMiddleware);
 
+// Meter AI calls to the signed-in user
+app.use('/api', aiUsageScope);
+
 // CSRF removed - was causing authentication issues
 
 // Demo mode removed for consumer app
@@ -319,6 +325,11 @@ app.use((req, res, next) => {
     // Admin analytics removed for consumer app
 
     console.log('✅ API routes mounted successfully');
+
+    // Move creator earnings past the refund window into their available balance
+    creatorPayoutService.startHoldRelease();
+    creatorPayoutService.encryptStoredDetails()
+      .catch(error => logger.error('Failed to encrypt stored payout details:', error));
   } catch (error) {
     logger.error('❌ Failed to mount API routes:', error);
     throw error;
@@ -348,6 +359,7 @@ app.use((req, res, next) => {
     });
 
     await setupVite(app, server);
+    startCollaborationServer(server);
 
     // Handle server cleanup on process termination
     process.on('SIGTERM', () => server.close());
@@ -380,6 +392,7 @@ app.use((req, res, next) => {
       log(`📁 Static path: ${staticPath}`);
       log(`🔗 CORS allowed: ${process.env.CORS_ORIGIN}`);
     });
+    startCollaborationServer(server);
 
     // Handle server cleanup on process termination
     process.on('SIGTERM', () => server.close());
@@ -23,7 +23,7 @@ function camelToSnake(obj: any): any {
 /**
  * Converts snake_case keys to camelCase recursively
  */
-function snakeToCamel(obj: any): any {
+export function snakeToCamel(obj: any): any {
   if (obj === null || obj === undefined || typeof obj !== 'object') {
     return obj;
   }
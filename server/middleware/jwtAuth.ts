@@ -34,6 +34,7 @@ export function jwtAuthMiddleware(req: Request, res: Response, next: NextFunctio
     '/users/auth',
     '/health',
     '/share',
+    '/public/calendar',  // Calendar feeds authenticate with their own token
     '/templates/share',  // Add this as a public path
     '/amadeus',
     '/stripe',
@@ -1,4 +1,4 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 import { logger } from '../utils/logger';
 import { Request, Response } from 'express';
 
@@ -53,13 +53,14 @@ export const healthCheckRateLimit = rateLimit({
   message: 'Too many health check requests'
 });
 
-// AI endpoints - moderate limits
+// AI endpoints - moderate limits, per user when signed in (daily quotas are in aiUsageService)
 export const aiRateLimit = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // 100 requests per 15 minutes
   message: 'Too many AI requests, please try again later',
   standardHeaders: true,
-  legacyHeaders: false
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => req.user ? `user:${req.user.id}` : ipKeyGenerator(req.ip || '')
 });
 
 // Search endpoints - higher limits for browsing
@@ -0,0 +1,10 @@
+/**
+ * Every prompt the app sends, by feature. Importing this registers them all,
+ * so listPrompts() and the evaluation harness see the full set.
+ */
+export * from './registry';
+export * from './assistant';
+export * from './itinerary';
+export * from './suggestions';
+export * from './summaries';
+export * from './translation';
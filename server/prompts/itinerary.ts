@@ -0,0 +1,262 @@
+import { definePrompt } from './registry';
+
+export interface TripExtractionInput {
+  request: string;
+  today: string; // YYYY-MM-DD, the reference for relative dates
+}
+
+export const tripExtractionPrompt = definePrompt<TripExtractionInput>({
+  id: 'trip.extract',
+  feature: 'itinerary',
+  description: 'Destination, dates, budget and preferences from a free-text trip request',
+  versions: [
+    {
+      version: 1,
+      user: ({ request, today }) => `Extract trip details from this request and return as JSON:
+"${request}"
+
+IMPORTANT: Extract dates in any format (like "next week", "June 15-22", "15 days from now") and convert to YYYY-MM-DD format.
+For relative dates, use today's date as reference: ${today}
+
+Return format:
+{
+  "destination": "city name",
+  "startDate": "YYYY-MM-DD",
+  "endDate": "YYYY-MM-DD",
+  "budget": number (extract any amount mentioned, or use 3000 as default),
+  "groupSize": number (default to 2 if not specified),
+  "tripPurpose": "business/leisure/mixed",
+  "preferences": {
+    "accommodationType": "luxury/business/budget",
+    "activityTypes": ["type1", "type2"],
+    "foodTypes": ["cuisine1", "cuisine2"]
+  }
+}
+
+Be aggressive in extracting information. For example:
+- "I want to go to Paris" -> destination: "Paris"
+- "next week" -> calculate actual dates
+- "for a week" -> 7 days from start date
+- "around $5000" -> budget: 5000
+- If dates are vague but destination is clear, default to 7 days starting 2 weeks from today
+- If budget isn't mentioned, use 3000 as default`,
+      temperature: 0.3,
+    },
+  ],
+});
+
+export interface TripItineraryInput {
+  destination: string;
+  startDate: string;
+  endDate: string;
+  days: number;
+  maxDays: number; // Days planned in this request; longer trips continue with trip.additional_days
+  purpose?: string;
+  groupSize?: number;
+  accommodationType?: string;
+  activityTypes?: string[];
+  foodTypes?: string[];
+}
+
+export const tripItineraryPrompt = definePrompt<TripItineraryInput>({
+  id: 'trip.itinerary',
+  feature: 'itinerary',
+  description: 'Flights, hotels, activities and meals for the first days of a trip (/api/ai/generate-trip)',
+  versions: [
+    {
+      version: 1,
+      user: input => `Create a detailed ${input.purpose || 'vacation'} itinerary for:
+Destination: ${input.destination}
+Dates: ${input.startDate} to ${input.endDate} (${input.days} days)
+Travelers: ${input.groupSize || 2} people
+Accommodation preference: ${input.accommodationType || 'mid-range'}
+Activities: ${input.activityTypes?.join(', ') || 'sightseeing, culture, relaxation'}
+Food preferences: ${input.foodTypes?.join(', ') || 'local cuisine, popular restaurants'}
+
+${input.days > input.maxDays ?
+  `IMPORTANT: This is a ${input.days}-day trip. For now, provide overview information and activities for the FIRST ${input.maxDays} DAYS ONLY. Focus on quality over quantity.` :
+  'Please provide a complete vacation itinerary.'}
+
+Please provide:
+1. Recommended flights (departure/arrival times and airlines)
+2. Hotel suggestions (2-3 options) - use REAL hotel names or chains
+3. Daily activities schedule (morning, afternoon, evening) ${input.days > input.maxDays ? `for days 1-${input.maxDays}` : ''} - use REAL attractions
+4. Restaurant recommendations - use ACTUAL restaurant names you know exist
+5. Transportation tips
+
+CRITICAL: Use ONLY real places from your knowledge base. NO generic names!
+
+Format as JSON with this structure (list "activities" first):
+{
+  "activities": [
+    {
+      "date": "2024-03-16",
+      "time": "09:00",
+      "title": "REAL activity/attraction name (e.g., 'Sigmaringen Castle' not 'Local Castle')",
+      "description": "Description",
+      "duration": "2 hours",
+      "location": "Location",
+      "category": "sightseeing",
+      "bookingRequired": true
+    }
+  ],
+  "tripSummary": {
+    "title": "Trip title",
+    "description": "Brief description",
+    "duration": number_of_days,
+    "highlights": ["highlight1", "highlight2"]
+  },
+  "flights": [
+    {
+      "airline": "Airline name",
+      "flightNumber": "XX123",
+      "route": "NYC to Paris",
+      "departure": "2024-03-15 10:00 AM",
+      "arrival": "2024-03-15 11:00 PM",
+      "cabin": "Economy"
+    }
+  ],
+  "accommodation": [
+    {
+      "name": "Hotel name",
+      "address": "Address",
+      "stars": 4,
+      "checkIn": "2024-03-15",
+      "checkOut": "2024-03-18",
+      "amenities": ["WiFi", "Pool", "Breakfast"]
+    }
+  ],
+  "meals": [
+    {
+      "date": "2024-03-16",
+      "time": "12:30",
+      "restaurant": "REAL restaurant name that exists (not generic like 'Local Restaurant')",
+      "cuisine": "French",
+      "location": "Address",
+      "type": "lunch",
+      "mustTry": "Dish name"
+    }
+  ],
+  "transportation": [
+    {
+      "type": "Airport Transfer",
+      "description": "Taxi from airport to hotel"
+    }
+  ],
+  "recommendations": [
+    "Pack light layers for variable weather",
+    "Book popular restaurants in advance",
+    "Get city tourist pass for savings"
+  ],
+  "weatherConsiderations": {
+    "temperature": "15-22°C",
+    "conditions": "Partly cloudy with occasional rain",
+    "packingTips": ["Umbrella", "Light jacket"]
+  }
+}`,
+      json: true,
+      temperature: 0.7,
+      maxTokens: 1500, // Reduced for cost efficiency
+    },
+  ],
+});
+
+export interface TripAdditionalDaysInput {
+  destination: string;
+  startDate: string;
+  endDate: string;
+  dayStart: number;
+  dayEnd: number;
+  chunkStartDate: string;
+  chunkEndDate: string;
+  alreadyVisited: string[];
+}
+
+export const tripAdditionalDaysPrompt = definePrompt<TripAdditionalDaysInput>({
+  id: 'trip.additional_days',
+  feature: 'itinerary',
+  description: 'Activities and meals for later days of a long trip, without repeating earlier ones',
+  versions: [
+    {
+      version: 1,
+      user: input => `Continue creating the itinerary for days ${input.dayStart}-${input.dayEnd} of the trip to ${input.destination}.
+
+CRITICAL: You MUST suggest REAL, EXISTING places that tourists actually visit.
+Use actual tourist attractions, real restaurants with good reviews, and genuine hotels.
+DO NOT make up generic names like "Local Restaurant" or "Traditional Bakery".
+
+Previous context:
+- Trip dates: ${input.startDate} to ${input.endDate}
+- Already planned: Days 1-${input.dayStart - 1}
+- Now planning: Days ${input.dayStart}-${input.dayEnd} (${input.chunkStartDate} to ${input.chunkEndDate})
+- Budget remaining: Proportional amount for remaining days
+- Same traveler preferences as before
+${input.alreadyVisited.length ? `\nIMPORTANT: These attractions have already been planned, DO NOT repeat them: ${input.alreadyVisited.join(', ')}` : ''}
+
+Create varied and interesting activities for days ${input.dayStart}-${input.dayEnd}, with completely NEW attractions not mentioned above.
+
+Return ONLY a JSON object with this structure:
+{
+  "activities": [
+    {
+      "date": "YYYY-MM-DD",
+      "time": "HH:MM",
+      "title": "Activity name",
+      "description": "Description",
+      "duration": "X hours",
+      "location": "Location",
+      "category": "sightseeing/culture/food/relaxation"
+    }
+  ],
+  "meals": [
+    {
+      "date": "YYYY-MM-DD",
+      "time": "HH:MM",
+      "restaurant": "Restaurant name",
+      "cuisine": "Type",
+      "location": "Address",
+      "type": "breakfast/lunch/dinner"
+    }
+  ]
+}`,
+      json: true,
+      temperature: 0.8, // Slightly higher for variety
+      maxTokens: 1500,
+    },
+  ],
+});
+
+export interface ThemedItineraryInput {
+  location: string;
+  theme: string;
+  duration: string;
+}
+
+export const themedItineraryPrompt = definePrompt<ThemedItineraryInput>({
+  id: 'itinerary.themed',
+  feature: 'itinerary',
+  description: 'A short itinerary around a theme, e.g. "street art" or "rainy day"',
+  versions: [
+    {
+      version: 1,
+      user: ({ location, theme, duration }) => `
+    Please create a ${duration} itinerary with the theme "${theme}" in ${location}.
+
+    Respond with a JSON object with the following structure:
+    {
+      "title": "Catchy title for the itinerary",
+      "description": "Brief description of the itinerary",
+      "activities": [
+        {
+          "time": "Suggested time (e.g., '9:00 AM')",
+          "title": "Name of the activity",
+          "location": "Name of the location",
+          "description": "Brief description",
+          "tag": "One of: 'Culture', 'Food', 'Event', 'Rest', 'Shop'"
+        }
+      ]
+    }
+    `,
+    },
+  ],
+});
@@ -0,0 +1,122 @@
+import { LLMMessage, LLMRequest } from '../services/llmProvider';
+import type { LLMFeature } from '../services/llmService';
+
+/**
+ * Versioned prompts. Each prompt has an id, the feature it runs under and a
+ * list of versions, each a function of the prompt's typed input. Changing a
+ * prompt means adding a version rather than editing one, so the evaluation
+ * harness (`npm run eval:prompts`) can score old and new side by side.
+ *
+ * The newest version is used unless a version is pinned, either with
+ * PROMPT_VERSIONS="trip.itinerary=1,chat.system=2" or pinPromptVersion().
+ */
+
+export interface PromptVersion<I> {
+  version: number;
+  notes?: string; // What changed from the previous version
+  system?: (input: I) => string;
+  user?: (input: I) => string; // Omitted for system prompts that lead a conversation
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface PromptDefinition<I> {
+  id: string;
+  feature: LLMFeature;
+  description: string;
+  versions: PromptVersion<I>[];
+}
+
+export interface RenderedPrompt extends LLMRequest {
+  promptId: string;
+  promptVersion: number;
+}
+
+export class UnknownPromptVersionError extends Error {
+  constructor(public promptId: string, public version: number) {
+    super(`Prompt ${promptId} has no version ${version}`);
+    this.name = 'UnknownPromptVersionError';
+  }
+}
+
+const prompts = new Map<string, PromptDefinition<any>>();
+const pins = new Map<string, number>();
+
+export function definePrompt<I>(definition: PromptDefinition<I>): PromptDefinition<I> {
+  if (prompts.has(definition.id)) {
+    throw new Error(`Prompt ${definition.id} is defined twice`);
+  }
+  if (definition.versions.length === 0) {
+    throw new Error(`Prompt ${definition.id} has no versions`);
+  }
+  prompts.set(definition.id, definition);
+  return definition;
+}
+
+export function listPrompts(): PromptDefinition<unknown>[] {
+  return Array.from(prompts.values());
+}
+
+export function getPrompt(id: string): PromptDefinition<unknown> | undefined {
+  return prompts.get(id);
+}
+
+/**
+ * Parse "id=version,id=version", ignoring malformed entries.
+ */
+export function parsePromptPins(spec: string | undefined): Map<string, number> {
+  const parsed = new Map<string, number>();
+  for (const entry of (spec || '').split(',')) {
+    const [id, version] = entry.split('=').map(part => part.trim());
+    const number = Number(version);
+    if (id && Number.isInteger(number) && number > 0) parsed.set(id, number);
+  }
+  return parsed;
+}
+
+/**
+ * Use one version of a prompt from now on, or the default again with null.
+ */
+export function pinPromptVersion(id: string, version: number | null): void {
+  if (version === null) pins.delete(id);
+  else pins.set(id, version);
+}
+
+function selectVersion<I>(prompt: PromptDefinition<I>, requested?: number): PromptVersion<I> {
+  const version = requested ?? pins.get(prompt.id) ?? parsePromptPins(process.env.PROMPT_VERSIONS).get(prompt.id);
+  if (version === undefined) {
+    return prompt.versions.reduce((latest, v) => (v.version > latest.version ? v : latest));
+  }
+  const found = prompt.versions.find(v => v.version === version);
+  if (!found) throw new UnknownPromptVersionError(prompt.id, version);
+  return found;
+}
+
+/**
+ * The version renderPrompt() will use.
+ */
+export function activePromptVersion(prompt: PromptDefinition<any>): number {
+  return selectVersion(prompt).version;
+}
+
+/**
+ * The request for a prompt: its messages and sampling settings. Callers can
+ * spread it into an `llm` call and add messages (a conversation) or override
+ * settings.
+ */
+export function renderPrompt<I>(prompt: PromptDefinition<I>, input: I, options: { version?: number } = {}): RenderedPrompt {
+  const selected = selectVersion(prompt, options.version);
+  const messages: LLMMessage[] = [];
+  if (selected.system) messages.push({ role: 'system', content: selected.system(input) });
+  if (selected.user) messages.push({ role: 'user', content: selected.user(input) });
+
+  return {
+    promptId: prompt.id,
+    promptVersion: selected.version,
+    messages,
+    ...(selected.json !== undefined ? { json: selected.json } : {}),
+    ...(selected.temperature !== undefined ? { temperature: selected.temperature } : {}),
+    ...(selected.maxTokens !== undefined ? { maxTokens: selected.maxTokens } : {}),
+  };
+}
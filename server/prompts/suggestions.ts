@@ -0,0 +1,397 @@
+import { definePrompt } from './registry';
+
+// A place from OpenStreetMap, as listed in prompts that must only use real places
+export interface PromptPlace {
+  name: string;
+  lat: number;
+  lon: number;
+  opening_hours?: string;
+  tourism?: string;
+  cuisine?: string;
+}
+
+export function placeList(places: PromptPlace[]): string {
+  return places
+    .map(place => `- ${place.name} (lat: ${place.lat}, lon: ${place.lon})${place.opening_hours ? ` - open ${place.opening_hours}` : ''}`)
+    .join('\n');
+}
+
+export interface ActivitySuggestionsInput {
+  city: string;
+  interests: string;
+  duration: string;
+  attractions: PromptPlace[];
+}
+
+export const activitySuggestionsPrompt = definePrompt<ActivitySuggestionsInput>({
+  id: 'activities.suggest',
+  feature: 'suggestions',
+  description: 'Activity ideas from real attractions in a city (/api/ai/suggest-activities)',
+  versions: [
+    {
+      version: 1,
+      system: () => "You are a knowledgeable travel expert. Use ONLY the real attractions provided to create recommendations.",
+      user: ({ city, interests, duration, attractions }) => `Given these REAL attractions in ${city}, create activity suggestions for someone interested in ${interests}, planning to spend ${duration} there.
+
+For each activity, provide:
+- Name/title
+- Brief description (1-2 sentences)
+- Best time to visit
+- Approximate duration
+- Activity type/category
+
+REAL ATTRACTIONS:
+${placeList(attractions)}
+
+The best time to visit must fall within the opening hours where they are given.
+
+Format as JSON, using ONLY the real attractions above:
+{
+  "activities": [
+    {
+      "title": "Name from the list above",
+      "description": "Brief description",
+      "best_time": "Time recommendation",
+      "duration": "Time needed",
+      "category": "Activity type",
+      "priority": "high/medium/low",
+      "latitude": decimal latitude,
+      "longitude": decimal longitude
+    }
+  ]
+}`,
+      json: true,
+      maxTokens: 1200,
+      temperature: 0.8,
+    },
+  ],
+});
+
+export interface LocationSearchInput {
+  query: string;
+  cityContext?: string;
+}
+
+export const locationSearchPrompt = definePrompt<LocationSearchInput>({
+  id: 'locations.find',
+  feature: 'suggestions',
+  description: 'Places matching a free-text search near a city (/api/ai/find-location)',
+  versions: [
+    {
+      version: 1,
+      system: () => "You are a travel expert specializing in hotel recommendations. Provide real hotel information in valid JSON format.",
+      user: ({ query, cityContext }) => `Find places matching "${query}" in or near ${cityContext || 'the specified location'}.
+
+Search for ANY type of location including:
+- Restaurants, cafes, bars
+- Tourist attractions, landmarks, museums
+- Parks, beaches, recreational areas
+- Shopping centers, stores, markets
+- Entertainment venues, theaters, stadiums
+- Hotels and accommodations
+- Transportation hubs
+- Any other places that match the search
+
+Return up to 5 locations that best match the search query. Focus on popular, well-known places.
+
+Format as JSON:
+{
+  "locations": [
+    {
+      "name": "Place Name",
+      "address": "Full street address or location description",
+      "city": "${cityContext || 'City'}",
+      "region": "State/Province",
+      "country": "Country",
+      "description": "Brief description of what this place is (1-2 sentences)"
+    }
+  ]
+}`,
+      json: true,
+      maxTokens: 800,
+      temperature: 0.7,
+    },
+  ],
+});
+
+export interface WeatherActivitiesInput {
+  location: string;
+  weatherCondition: string;
+  date?: string;
+  places: PromptPlace[];
+}
+
+export const weatherActivitiesPrompt = definePrompt<WeatherActivitiesInput>({
+  id: 'activities.weather',
+  feature: 'suggestions',
+  description: 'The real places best suited to the weather (/api/ai/weather-activities)',
+  versions: [
+    {
+      version: 1,
+      system: () => "You are a travel advisor specializing in weather-appropriate activities. Only recommend places from the provided list.",
+      user: ({ location, weatherCondition, date, places }) => `Given these real places in ${location} and ${weatherCondition} weather, recommend which 5 would be best and explain why they're suitable for the weather.
+    ${date ? `Date: ${date}` : ''}
+
+Available real places:
+${places.map(place => `- ${place.name} (${place.tourism || place.cuisine || 'attraction'})`).join('\n')}
+
+Format as JSON:
+{
+  "activities": [
+    {
+      "name": "Exact place name from the list",
+      "description": "Brief description",
+      "duration": "estimated time (e.g., 2-3 hours)",
+      "location": "Specific location or area",
+      "weatherSuitability": "Why this is good for ${weatherCondition} weather",
+      "tips": "Any helpful tips",
+      "latitude": number,
+      "longitude": number
+    }
+  ]
+}
+
+IMPORTANT: Only use places from the provided list. Include the exact coordinates.`,
+      json: true,
+      maxTokens: 1000,
+      temperature: 0.7,
+    },
+  ],
+});
+
+export interface BudgetBreakdownInput {
+  location: string;
+  budgetLevel: string;
+  activityType?: string;
+}
+
+export const budgetBreakdownPrompt = definePrompt<BudgetBreakdownInput>({
+  id: 'budget.breakdown',
+  feature: 'suggestions',
+  description: 'Daily cost ranges by category for a budget level (/api/ai/budget-options)',
+  versions: [
+    {
+      version: 1,
+      system: () => "You are a travel budget advisor providing realistic cost estimates.",
+      user: ({ location, budgetLevel, activityType }) => `Suggest budget-friendly options in ${location} for a ${budgetLevel} budget.
+    ${activityType ? `Focus on: ${activityType}` : 'Include various categories'}
+
+Format as JSON:
+{
+  "level": "${budgetLevel}",
+  "location": "${location}",
+  "currency": "USD",
+  "breakdown": {
+    "accommodation": { "low": 50, "high": 100, "average": 75, "suggestions": ["Hotel A", "Hotel B"] },
+    "food": { "low": 30, "high": 60, "average": 45, "suggestions": ["Restaurant A", "Restaurant B"] },
+    "transportation": { "low": 10, "high": 30, "average": 20, "suggestions": ["Metro", "Bus"] },
+    "activities": { "low": 20, "high": 50, "average": 35, "suggestions": ["Museum", "Park"] }
+  },
+  "dailyTotal": { "low": 110, "high": 240, "average": 175 },
+  "tips": ["Tip 1", "Tip 2", "Tip 3"]
+}`,
+      json: true,
+      maxTokens: 1000,
+      temperature: 0.5,
+    },
+  ],
+});
+
+export interface TourRecommendationsInput {
+  destination: string;
+  startDate: string;
+  endDate: string;
+  interests?: string[];
+}
+
+export const tourRecommendationsPrompt = definePrompt<TourRecommendationsInput>({
+  id: 'tours.recommend',
+  feature: 'suggestions',
+  description: 'Top five tours for a trip, as a numbered list (/api/ai/recommend-tours)',
+  versions: [
+    {
+      version: 1,
+      user: ({ destination, startDate, endDate, interests }) => `Recommend the top 5 must-do tours and activities for a trip to ${destination} from ${startDate} to ${endDate}.
+    ${interests && interests.length > 0 ? `The traveler is interested in: ${interests.join(', ')}` : ''}
+
+    Focus on:
+    1. Most iconic and popular attractions
+    2. Unique local experiences
+    3. Best value for money
+    4. Activities suitable for the season
+    5. Mix of culture, food, and adventure
+
+    Provide specific tour recommendations with brief descriptions.`,
+      maxTokens: 500,
+      temperature: 0.7,
+    },
+  ],
+});
+
+export interface NearbyFoodInput {
+  location: string;
+  foodType: string;
+}
+
+export const nearbyFoodPrompt = definePrompt<NearbyFoodInput>({
+  id: 'food.nearby',
+  feature: 'suggestions',
+  description: 'A few food or coffee places near a location',
+  versions: [
+    {
+      version: 1,
+      user: ({ location, foodType }) => `
+    Please suggest 3-5 ${foodType} options near ${location}. Respond with JSON in this format:
+    {
+      "suggestions": [
+        {
+          "name": "Place Name",
+          "type": "Type of cuisine or place",
+          "description": "Brief description",
+          "priceRange": "$-$$$",
+          "distance": "approximate walking distance"
+        }
+      ]
+    }
+    `,
+    },
+  ],
+});
+
+export interface WeatherSuggestionsInput {
+  location: string;
+  date: string;
+  weatherCondition: string;
+}
+
+export const weatherSuggestionsPrompt = definePrompt<WeatherSuggestionsInput>({
+  id: 'activities.weather_ideas',
+  feature: 'suggestions',
+  description: 'Indoor and outdoor ideas for the weather, without a list of real places',
+  versions: [
+    {
+      version: 1,
+      user: ({ location, date, weatherCondition }) => `
+    You are a travel planning assistant recommending activities based on weather conditions.
+
+    Location: ${location}
+    Date: ${date}
+    Weather Condition: ${weatherCondition}
+
+    Please provide activity recommendations appropriate for the weather conditions.
+    Respond with a JSON object with the following structure:
+    {
+      "weather": {
+        "condition": "Brief summary of the weather condition",
+        "recommendation": "Overall advice for this weather"
+      },
+      "activities": [
+        {
+          "title": "Name of activity",
+          "category": "indoor" or "outdoor" or "either",
+          "description": "Brief description of the activity",
+          "locationName": "A specific location for this activity if applicable",
+          "tag": "One of: 'Culture', 'Food', 'Event', 'Rest', 'Shop'"
+        }
+      ]
+    }
+    `,
+    },
+  ],
+});
+
+export interface BudgetSuggestionsInput {
+  location: string;
+  budgetLevel: 'low' | 'medium' | 'high';
+  activityType?: string;
+}
+
+export const budgetSuggestionsPrompt = definePrompt<BudgetSuggestionsInput>({
+  id: 'budget.suggest',
+  feature: 'suggestions',
+  description: 'Budget-friendly places to stay, eat and visit, with saving tips',
+  versions: [
+    {
+      version: 1,
+      user: ({ location, budgetLevel, activityType }) => `
+    You are a budget-conscious travel planning assistant.
+
+    Location: ${location}
+    Budget Level: ${budgetLevel}
+    ${activityType ? `Activity Type: ${activityType}` : ''}
+
+    Please suggest a variety of budget-friendly options for this trip.
+    Respond with a JSON object with the following structure:
+    {
+      "budgetInfo": {
+        "level": "${budgetLevel}",
+        "estimatedDailyBudget": "Rough estimate in USD for daily expenses",
+        "savingTips": ["2-3 tips for saving money in this location"]
+      },
+      "suggestions": [
+        {
+          "title": "Name of activity or place",
+          "category": "accommodation" or "food" or "transportation" or "activity",
+          "cost": "Estimated cost in USD",
+          "description": "Brief description",
+          "tip": "Money-saving tip for this suggestion"
+        }
+      ]
+    }
+    `,
+    },
+  ],
+});
+
+export interface CorporateTripsInput {
+  trips: Array<{
+    id: unknown;
+    destination: string;
+    dates: string;
+    department: unknown;
+    budget: unknown;
+    travelMode: string;
+  }>;
+}
+
+export const corporateTripsPrompt = definePrompt<CorporateTripsInput>({
+  id: 'corporate.optimize',
+  feature: 'suggestions',
+  description: 'Date, travel mode and group booking changes across a company\'s trips',
+  versions: [
+    {
+      version: 1,
+      user: ({ trips }) => `
+    Analyze these corporate trips for optimization opportunities:
+
+    ${JSON.stringify(trips, null, 2)}
+
+    Provide optimization recommendations focusing on:
+    1. Date adjustments to avoid conflicts and reduce costs
+    2. Travel mode optimization (flight vs train vs drive)
+    3. Group booking opportunities
+    4. Resource allocation improvements
+
+    Respond with JSON:
+    {
+      "optimizations": [
+        {
+          "tripId": "trip_id",
+          "currentDates": "current range",
+          "suggestedDates": "optimized range",
+          "reasoning": "why this change helps",
+          "estimatedSavings": 0,
+          "conflictResolution": "what conflict this resolves"
+        }
+      ],
+      "summary": {
+        "totalPotentialSavings": 0,
+        "conflictsFound": 0,
+        "recommendationCount": 0
+      },
+      "recommendations": ["list of general recommendations"]
+    }
+    `,
+    },
+  ],
+});
@@ -0,0 +1,50 @@
+import { definePrompt } from './registry';
+
+export interface DaySummaryInput {
+  date: string;
+  location: string;
+  activities: Array<{ title: string; notes?: string | null }>;
+}
+
+export const daySummaryPrompt = definePrompt<DaySummaryInput>({
+  id: 'day.summary',
+  feature: 'summaries',
+  description: 'Short summary of one day of a trip (/api/ai/summarize-day)',
+  versions: [
+    {
+      version: 1,
+      user: ({ date, location, activities }) => `Summarize this travel day concisely and professionally:
+
+Date: ${date}
+Location: ${location}
+Activities:
+${activities.map(activity => `- ${activity.title}: ${activity.notes || 'No description'}`).join('\n')}
+
+Provide a brief, engaging summary that highlights the key experiences and flow of the day. Keep it under 150 words.`,
+      maxTokens: 200,
+      temperature: 0.7,
+    },
+  ],
+});
+
+export interface ItinerarySummaryInput {
+  activities: unknown[];
+}
+
+export const itinerarySummaryPrompt = definePrompt<ItinerarySummaryInput>({
+  id: 'day.itinerary_summary',
+  feature: 'summaries',
+  description: 'Overview of a day from its raw activity rows, with timings and travel',
+  versions: [
+    {
+      version: 1,
+      user: ({ activities }) => `
+    Please summarize the following daily itinerary concisely while highlighting key activities, time allocations, and travel information:
+
+    ${JSON.stringify(activities, null, 2)}
+
+    Include a brief overview of what the day looks like, the main attractions/activities, meal plans if any, and overall travel distance if available.
+    `,
+    },
+  ],
+});
@@ -0,0 +1,34 @@
+import { definePrompt } from './registry';
+
+export interface TranslationInput {
+  text: string;
+  targetLanguage: string;
+}
+
+export const translationPrompt = definePrompt<TranslationInput>({
+  id: 'content.translate',
+  feature: 'translation',
+  description: 'Translate user content, detecting the source language (/api/ai/translate-content)',
+  versions: [
+    {
+      version: 1,
+      system: () => "You are a professional translator. Provide accurate translations in valid JSON format.",
+      user: ({ text, targetLanguage }) => `Translate the following text to ${targetLanguage}. Maintain the original tone and meaning. If the text is already in ${targetLanguage}, return it unchanged.
+
+Text to translate:
+${text}
+
+Provide the translation in JSON format:
+{
+  "original_text": "original text here",
+  "translated_text": "translated text here",
+  "source_language": "detected source language",
+  "target_language": "${targetLanguage}",
+  "confidence": "high/medium/low"
+}`,
+      json: true,
+      maxTokens: 800,
+      temperature: 0.3,
+    },
+  ],
+});
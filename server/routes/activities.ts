@@ -7,12 +7,28 @@ import { jwtAuthMiddleware } from '../middleware/jwtAuth';
 import { storage } from '../storage';
 import { logger } from '../utils/logger';
 import { geocodeLocation } from '../geocoding';
+import { collaborationService, OperationResult } from '../services/collaborationService';
 
 const router = Router();
 
 // Apply authentication to all activity routes
 router.use(jwtAuthMiddleware);
 
+// Expected activity version for optimistic concurrency, from the body or an If-Match header
+function getBaseVersion(req: Request): number | undefined {
+  const raw = req.body?.version ?? req.headers['if-match']?.toString().replace(/"/g, '');
+  const version = typeof raw === 'number' ? raw : parseInt(raw, 10);
+  return Number.isInteger(version) ? version : undefined;
+}
+
+function sendConflict(res: Response, result: OperationResult) {
+  return res.status(409).json({
+    message: result.reason || "Activity was changed by someone else",
+    conflicts: result.conflicts,
+    activity: result.current,
+  });
+}
+
 // Get activities for a specific trip
 router.get("/trip/:trip_id", async (req: Request, res: Response) => {
   try {
@@ -83,6 +99,7 @@ router.post("/", async (req: Request, res: Response) => {
     }
 
     const activity = await storage.createActivity(activityData);
+    await collaborationService.recordActivityCreated(activity, req.user!.id);
     res.status(201).json(activity);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -164,13 +181,20 @@ router.put("/:id", async (req: Request, res: Response) => {
         }
     }
 
-    const updatedActivity = await storage.updateActivity(activityId, updateData);
-
-    if (!updatedActivity) {
-      return res.status(404).json({ message: "Activity not found" });
+    const result = await collaborationService.applyOperation(trip.id, req.user!.id, {
+      type: 'update_activity',
+      activity_id: activityId,
+      base_version: getBaseVersion(req),
+      fields: updateData,
+    }, { rejectOnConflict: true });
+
+    if (result.status === 'rejected') {
+      return result.conflicts.length > 0
+        ? sendConflict(res, result)
+        : res.status(404).json({ message: "Activity not found" });
     }
 
-    res.json(updatedActivity);
+    res.json(result.current);
   } catch (error) {
     if (error instanceof z.ZodError) {
       logger.error(`Activity update validation error for ID ${req.params.id}:`, {
@@ -210,8 +234,11 @@ router.delete("/:id", async (req: Request, res: Response) => {
       return res.status(403).json({ message: "Access denied: Cannot delete this activity" });
     }
 
-    const success = await storage.deleteActivity(activityId);
-    if (!success) {
+    const result = await collaborationService.applyOperation(trip.id, req.user!.id, {
+      type: 'delete_activity',
+      activity_id: activityId,
+    });
+    if (result.status === 'rejected') {
       return res.status(404).json({ message: "Activity not found" });
     }
 
@@ -238,20 +265,29 @@ router.put("/:id/order", async (req: Request, res: Response) => {
       return res.status(404).json({ message: "Activity not found" });
     }
 
-    // Verify trip access
-    const trip = await storage.getTrip(existingActivity.trip_id);
-    if (!trip) {
+    // Owners and editors can reorder
+    const access = await collaborationService.getTripAccess(existingActivity.trip_id, req.user!.id);
+    if (!access) {
       return res.status(404).json({ message: "Associated trip not found" });
     }
+    if (access === 'viewer') {
+      return res.status(403).json({ message: "Access denied: Cannot modify this activity" });
+    }
 
-
-    const updatedActivity = await storage.updateActivity(activityId, { order });
-
-    if (!updatedActivity) {
-      return res.status(404).json({ message: "Activity not found" });
+    const result = await collaborationService.applyOperation(existingActivity.trip_id, req.user!.id, {
+      type: 'update_activity',
+      activity_id: activityId,
+      base_version: getBaseVersion(req),
+      fields: { order },
+    }, { rejectOnConflict: true });
+
+    if (result.status === 'rejected') {
+      return result.conflicts.length > 0
+        ? sendConflict(res, result)
+        : res.status(404).json({ message: "Activity not found" });
     }
 
-    res.json(updatedActivity);
+    res.json(result.current);
   } catch (error) {
     logger.error("Error updating activity order:", error);
     res.status(500).json({ message: "Could not update activity order" });
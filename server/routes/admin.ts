@@ -7,6 +7,11 @@ import { logger } from '../utils/logger';
 import { storage } from '../storage';
 import { geocodeCacheService } from '../services/geocodeCacheService';
 import { aiCache } from '../services/aiCacheService';
+import { aiUsage } from '../services/aiUsageService';
+import { PayoutError, PayoutStatus, creatorPayoutService } from '../services/creatorPayoutService';
+import { ledgerService } from '../services/ledgerService';
+import { RefundError, RefundRequestStatus, refundService } from '../services/refundService';
+import { TaxError, taxService } from '../services/taxService';
 
 // Admin check inline
 const requireAdmin = (req: any, res: any, next: any) => {
@@ -425,48 +430,229 @@ router.get('/financials/transactions', requireSuperAdmin, async (req, res) => {
   }
 });
 
-// POST /api/admin/financials/process-payouts - Process pending creator payouts
-router.post('/financials/process-payouts', requireSuperAdmin, async (req, res) => {
+// GET /api/admin/financials/payouts - Creator payout requests, optionally by status
+router.get('/financials/payouts', requireSuperAdmin, async (req, res) => {
   try {
-    const { creatorId, purchaseIds } = req.body;
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    if (status && !['requested', 'approved', 'processing', 'paid', 'failed'].includes(status)) {
+      return res.status(400).json({ message: 'Invalid payout status' });
+    }
+    res.json(await creatorPayoutService.listPayouts(status as PayoutStatus | undefined));
+  } catch (error) {
+    logger.error('Error fetching payouts:', error);
+    res.status(500).json({ message: 'Failed to fetch payouts' });
+  }
+});
 
-    if (!purchaseIds && !creatorId) {
-      return res.status(400).json({ message: 'Either creatorId or purchaseIds required' });
+// POST /api/admin/financials/payouts/:id/approve - Approve a payout request
+router.post('/financials/payouts/:id/approve', requireSuperAdmin, async (req, res) => {
+  try {
+    res.json(await creatorPayoutService.approve(parseInt(req.params.id), req.user!.id));
+  } catch (error) {
+    if (error instanceof PayoutError) {
+      return res.status(error.status).json({ message: error.message });
     }
+    logger.error('Error approving payout:', error);
+    res.status(500).json({ message: 'Failed to approve payout' });
+  }
+});
 
-    let whereClause;
-    if (purchaseIds && Array.isArray(purchaseIds)) {
-      // Process specific purchases
-      whereClause = and(
-        sql`${templatePurchases.id} = ANY(${purchaseIds})`,
-        eq(templatePurchases.payout_status, 'pending')
-      );
-    } else if (creatorId) {
-      // Process all pending for a creator
-      whereClause = and(
-        eq(templatePurchases.payout_status, 'pending'),
-        sql`${templatePurchases.template_id} IN (
-          SELECT id FROM ${templates} WHERE user_id = ${creatorId}
-        )`
-      );
+// POST /api/admin/financials/payouts/:id/reject - Fail a payout and return the amount to the creator
+router.post('/financials/payouts/:id/reject', requireSuperAdmin, async (req, res) => {
+  try {
+    const reason = typeof req.body.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : 'Rejected by admin';
+    res.json(await creatorPayoutService.fail(parseInt(req.params.id), reason));
+  } catch (error) {
+    if (error instanceof PayoutError) {
+      return res.status(error.status).json({ message: error.message });
     }
+    logger.error('Error rejecting payout:', error);
+    res.status(500).json({ message: 'Failed to reject payout' });
+  }
+});
 
-    const result = await db.update(templatePurchases)
-      .set({
-        payout_status: 'processing',
-        payout_initiated_at: new Date()
-      })
-      .where(whereClause!)
-      .returning();
+// GET /api/admin/financials/payout-batches - Exported payout batches
+router.get('/financials/payout-batches', requireSuperAdmin, async (req, res) => {
+  try {
+    res.json(await creatorPayoutService.listBatches());
+  } catch (error) {
+    logger.error('Error fetching payout batches:', error);
+    res.status(500).json({ message: 'Failed to fetch payout batches' });
+  }
+});
 
-    logger.info(`Super admin initiated payout processing for ${result.length} purchases`);
-    res.json({
-      message: `Processing ${result.length} payouts`,
-      purchases: result
-    });
+// POST /api/admin/financials/payout-batches - Export approved PayPal or bank payouts as a batch file
+router.post('/financials/payout-batches', requireSuperAdmin, async (req, res) => {
+  try {
+    const { method } = req.body;
+    if (!['paypal', 'bank'].includes(method)) {
+      return res.status(400).json({ message: 'Batch method must be paypal or bank' });
+    }
+    const { file_contents_encrypted, ...batch } = await creatorPayoutService.createBatch(method, req.user!.id);
+    res.status(201).json(batch);
+  } catch (error) {
+    if (error instanceof PayoutError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    logger.error('Error creating payout batch:', error);
+    res.status(500).json({ message: 'Failed to create payout batch' });
+  }
+});
+
+// GET /api/admin/financials/payout-batches/:id/file - Download a batch file
+router.get('/financials/payout-batches/:id/file', requireSuperAdmin, async (req, res) => {
+  try {
+    const file = await creatorPayoutService.getBatchFile(parseInt(req.params.id));
+    if (!file) {
+      return res.status(404).json({ message: 'Payout batch not found' });
+    }
+    res.setHeader('Content-Type', file.batch.format === 'nacha' ? 'text/plain; charset=utf-8' : 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${file.batch.file_name}"`);
+    res.send(file.contents);
+  } catch (error) {
+    if (error instanceof PayoutError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    logger.error('Error downloading payout batch:', error);
+    res.status(500).json({ message: 'Failed to download payout batch' });
+  }
+});
+
+// POST /api/admin/financials/payout-batches/:id/reconcile - Import the provider's results for a batch
+router.post('/financials/payout-batches/:id/reconcile', requireSuperAdmin, async (req, res) => {
+  try {
+    const { file } = req.body;
+    if (typeof file !== 'string' || !file.trim()) {
+      return res.status(400).json({ message: 'Results file required' });
+    }
+    res.json(await creatorPayoutService.reconcile(parseInt(req.params.id), file));
   } catch (error) {
-    logger.error('Error processing payouts:', error);
-    res.status(500).json({ message: 'Failed to process payouts' });
+    if (error instanceof PayoutError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    logger.error('Error reconciling payout batch:', error);
+    res.status(500).json({ message: 'Failed to reconcile payout batch' });
+  }
+});
+
+// POST /api/admin/financials/release-earnings - Release held earnings past the refund window now
+router.post('/financials/release-earnings', requireSuperAdmin, async (req, res) => {
+  try {
+    res.json(await creatorPayoutService.releaseHeldEarnings());
+  } catch (error) {
+    logger.error('Error releasing held earnings:', error);
+    res.status(500).json({ message: 'Failed to release held earnings' });
+  }
+});
+
+// GET /api/admin/financials/refund-requests - Buyer refund requests, optionally by status
+router.get('/financials/refund-requests', requireSuperAdmin, async (req, res) => {
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    if (status && !['pending', 'approved', 'rejected', 'refunded', 'failed'].includes(status)) {
+      return res.status(400).json({ message: 'Invalid refund request status' });
+    }
+    res.json(await refundService.listRequests(status as RefundRequestStatus | undefined));
+  } catch (error) {
+    logger.error('Error fetching refund requests:', error);
+    res.status(500).json({ message: 'Failed to fetch refund requests' });
+  }
+});
+
+// POST /api/admin/financials/refund-requests/:id/approve - Refund a request held for review
+router.post('/financials/refund-requests/:id/approve', requireSuperAdmin, async (req, res) => {
+  try {
+    const note = typeof req.body.note === 'string' && req.body.note.trim() ? req.body.note.trim() : undefined;
+    res.json(await refundService.approve(parseInt(req.params.id), req.user!.id, note));
+  } catch (error) {
+    if (error instanceof RefundError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    logger.error('Error approving refund request:', error);
+    res.status(500).json({ message: 'Failed to approve refund request' });
+  }
+});
+
+// POST /api/admin/financials/refund-requests/:id/reject - Turn down a refund request
+router.post('/financials/refund-requests/:id/reject', requireSuperAdmin, async (req, res) => {
+  try {
+    const note = typeof req.body.note === 'string' && req.body.note.trim() ? req.body.note.trim() : 'Rejected by admin';
+    res.json(await refundService.reject(parseInt(req.params.id), req.user!.id, note));
+  } catch (error) {
+    if (error instanceof RefundError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    logger.error('Error rejecting refund request:', error);
+    res.status(500).json({ message: 'Failed to reject refund request' });
+  }
+});
+
+// GET /api/admin/financials/tax-reports/:year - Creators whose net earnings reached the reporting threshold
+router.get('/financials/tax-reports/:year', requireSuperAdmin, async (req, res) => {
+  try {
+    const year = parseInt(req.params.year);
+    if (!Number.isInteger(year) || year < 2000) {
+      return res.status(400).json({ message: 'Invalid year' });
+    }
+    res.json(await taxService.taxReport(year));
+  } catch (error) {
+    logger.error('Error building tax report:', error);
+    res.status(500).json({ message: 'Failed to build tax report' });
+  }
+});
+
+// GET /api/admin/financials/tax-reports/:year/export - The same creators as a CSV with full TINs, for filing
+router.get('/financials/tax-reports/:year/export', requireSuperAdmin, async (req, res) => {
+  try {
+    const year = parseInt(req.params.year);
+    if (!Number.isInteger(year) || year < 2000) {
+      return res.status(400).json({ message: 'Invalid year' });
+    }
+    const csv = await taxService.taxReportExport(year, req.user!.id);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="creator-earnings-${year}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    if (error instanceof TaxError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    logger.error('Error exporting tax report:', error);
+    res.status(500).json({ message: 'Failed to export tax report' });
+  }
+});
+
+// GET /api/admin/financials/ledger - Ledger transactions, optionally for one creator or account
+router.get('/financials/ledger', requireSuperAdmin, async (req, res) => {
+  try {
+    const { userId, account, limit } = req.query;
+    res.json(await ledgerService.listTransactions({
+      userId: userId ? Number(userId) : undefined,
+      account: typeof account === 'string' ? account : undefined,
+      limit: limit ? Number(limit) : undefined,
+    }));
+  } catch (error) {
+    logger.error('Error fetching ledger:', error);
+    res.status(500).json({ message: 'Failed to fetch ledger' });
+  }
+});
+
+// GET /api/admin/financials/ledger/trial-balance - Debit and credit totals per ledger account
+router.get('/financials/ledger/trial-balance', requireSuperAdmin, async (req, res) => {
+  try {
+    res.json(await ledgerService.trialBalance());
+  } catch (error) {
+    logger.error('Error building trial balance:', error);
+    res.status(500).json({ message: 'Failed to build trial balance' });
+  }
+});
+
+// GET /api/admin/financials/ledger/consistency - Where the legacy balance columns drift from the ledger
+router.get('/financials/ledger/consistency', requireSuperAdmin, async (req, res) => {
+  try {
+    res.json(await ledgerService.checkConsistency());
+  } catch (error) {
+    logger.error('Error checking ledger consistency:', error);
+    res.status(500).json({ message: 'Failed to check ledger consistency' });
   }
 });
 
@@ -498,39 +684,31 @@ router.get('/financials/creators', requireSuperAdmin, async (req, res) => {
   }
 });
 
-// POST /api/admin/financials/mark-paid - Mark payouts as completed
+// POST /api/admin/financials/mark-paid - Mark payouts settled outside a batch file as paid
 router.post('/financials/mark-paid', requireSuperAdmin, async (req, res) => {
   try {
-    const { purchaseIds, paymentMethod, transactionId, notes } = req.body;
+    const { payoutIds, transactionId, notes } = req.body;
 
-    if (!purchaseIds || !Array.isArray(purchaseIds)) {
-      return res.status(400).json({ message: 'Purchase IDs required' });
+    if (!payoutIds || !Array.isArray(payoutIds)) {
+      return res.status(400).json({ message: 'Payout IDs required' });
     }
 
-    const result = await db.update(templatePurchases)
-      .set({
-        payout_status: 'completed',
-        payout_completed_at: new Date(),
-        payout_method: paymentMethod,
-        payout_transaction_id: transactionId,
-        payout_notes: notes
-      })
-      .where(
-        and(
-          sql`${templatePurchases.id} = ANY(${purchaseIds})`,
-          eq(templatePurchases.payout_status, 'processing')
-        )
-      )
-      .returning();
+    const payouts = [];
+    for (const payoutId of payoutIds) {
+      payouts.push(await creatorPayoutService.markPaid(Number(payoutId), transactionId || null, notes));
+    }
 
-    logger.info(`Super admin marked ${result.length} payouts as completed`);
+    logger.info(`Super admin marked ${payouts.length} payouts as paid`);
     res.json({
-      message: `Marked ${result.length} payouts as completed`,
-      purchases: result
+      message: `Marked ${payouts.length} payouts as paid`,
+      payouts
     });
   } catch (error) {
+    if (error instanceof PayoutError) {
+      return res.status(error.status).json({ message: error.message });
+    }
     logger.error('Error marking payouts as paid:', error);
-    res.status(500).json({ message: 'Failed to mark payouts as completed' });
+    res.status(500).json({ message: 'Failed to mark payouts as paid' });
   }
 });
 
@@ -640,6 +818,8 @@ router.post('/manual-purchase', requireAuth, requireAdmin, async (req, res) => {
       .set({ sales_count: sql`COALESCE(sales_count, 0) + 1` })
       .where(eq(templates.id, template_id));
 
+    await creatorPayoutService.creditSale(purchase);
+
     // Copy template to trips
     const { templateCopyService } = await import('../services/templateCopyService');
     const newTripId = await templateCopyService.copyTemplateToTrip(template_id, buyerId);
@@ -679,6 +859,17 @@ router.get('/cache/stats', async (req, res) => {
   }
 });
 
+// GET /api/admin/ai-usage - AI spend by feature and day
+router.get('/ai-usage', async (req, res) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 90);
+    res.json(await aiUsage.report(days));
+  } catch (error) {
+    logger.error('Error fetching AI usage report:', error);
+    res.status(500).json({ message: 'Failed to fetch AI usage' });
+  }
+});
+
 // POST /api/admin/cache/clear - Clear cache (super admin only)
 router.post('/cache/clear', requireSuperAdmin, async (req, res) => {
   try {
@@ -815,8 +1006,7 @@ router.post('/templates/generate', async (req, res) => {
     const title = `Ultimate ${duration}-Day ${cityName} ${duration <= 3 ? 'City Break' : duration <= 7 ? 'Adventure' : 'Journey'}`;
 
     // Generate AI itinerary using the existing AI service
-    const { getOpenAIClient } = await import('../services/openaiClient');
-    const openaiClient = getOpenAIClient();
+    const { llm } = await import('../services/llmService');
 
     // Calculate budget if requested
     let budgetInstructions = '';
@@ -912,16 +1102,15 @@ router.post('/templates/generate', async (req, res) => {
       }
     }`;
 
-    // Add timeout wrapper for OpenAI call
+    // Add timeout wrapper for the AI call
     const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('OpenAI API timeout after 30 seconds')), 30000);
+      setTimeout(() => reject(new Error('AI request timeout after 30 seconds')), 30000);
     });
     
     let generatedItinerary;
     try {
       const response = await Promise.race([
-        openaiClient.chat.completions.create({
-          model: 'gpt-3.5-turbo',  // Use consistent model across app
+        llm.chat('templates', {
           messages: [
             {
               role: 'system',
@@ -933,12 +1122,12 @@ router.post('/templates/generate', async (req, res) => {
             }
           ],
           temperature: 0.8,
-          max_tokens: 3000,  // Reduce tokens for faster response
+          maxTokens: 3000,  // Reduce tokens for faster response
         }),
         timeoutPromise
       ]) as any;
       
-      generatedItinerary = JSON.parse(response.choices[0].message.content || '{}');
+      generatedItinerary = JSON.parse(response.content || '{}');
     } catch (parseError) {
       logger.error('Failed to generate or parse itinerary:', parseError);
       // Return a basic fallback template
@@ -1,19 +1,108 @@
-import { Router } from "express";
+import { Router, Request, Response } from "express";
 import { jwtAuthMiddleware } from "../middleware/jwtAuth";
 import { z } from "zod";
 import { aiRateLimit } from "../middleware/rateLimiting";
 import { db } from "../db-connection";
 import { trips, activities } from "../../shared/schema";
 import { eq, and } from "drizzle-orm";
-import { getOpenAIClient, OPENAI_MODEL } from '../services/openaiClient';
+import { llm } from '../services/llmService';
+import {
+  activitySuggestionsPrompt,
+  budgetBreakdownPrompt,
+  daySummaryPrompt,
+  locationSearchPrompt,
+  renderPrompt,
+  tourRecommendationsPrompt,
+  translationPrompt,
+  tripChatPrompt,
+  weatherActivitiesPrompt,
+} from '../prompts';
 import { logger } from "../utils/logger";
-
-// Use centralized OpenAI client
-const openai = getOpenAIClient();
+import { collaborationService, ChangesetRejectedError } from "../services/collaborationService";
+import { tripAssistantService, InvalidActionsError } from "../services/tripAssistantService";
+import {
+  generationJobs,
+  GenerationCancelledError,
+  GenerationContext,
+  GenerationError,
+  GenerationKind,
+  lastEventId,
+  wantsEventStream,
+} from "../services/generationJobService";
+import { AIQuotaExceededError, aiQuotaGuard, quotaErrorBody } from "../services/aiUsageService";
+import { generateFullItinerary, generateTrip, generateWeekend } from "../services/itineraryGenerationService";
+import {
+  itineraryOptimizationService,
+  summarizeOptimization,
+  tripOpeningHoursContext,
+  isOpenForVisit,
+} from "../services/itineraryOptimizationService";
+import {
+  PlaceVerification,
+  pickedFromOsm,
+  placeVerification,
+  verificationColumns,
+  verificationSummary,
+} from "../services/placeVerificationService";
+
+/**
+ * A suggestion pointed at the place verification found, or swapped in for
+ * one that couldn't be found, with the verification result attached.
+ */
+function withVerifiedPlace(suggestion: any, nameField: 'title' | 'name', verification: PlaceVerification) {
+  const place = verification.status === 'unverified' ? null : verification.place;
+  return {
+    ...suggestion,
+    ...(place ? { latitude: place.lat, longitude: place.lon, opening_hours: place.opening_hours || null } : {}),
+    ...(verification.status === 'replaced' && place ? {
+      [nameField]: place.name,
+      description: `Suggested instead of ${verification.original}, which couldn't be found`,
+    } : {}),
+    verification: verificationSummary(verification),
+  };
+}
 
 const router = Router();
 router.use(jwtAuthMiddleware);
 router.use(aiRateLimit); // Apply AI rate limiting to all AI endpoints
+router.use(aiQuotaGuard); // Users out of their daily AI quota get a 429 up front
+
+/**
+ * Run an itinerary generator as a job. Clients that accept
+ * text/event-stream get its progress as server-sent events; others get the
+ * final JSON body once it finishes, as before.
+ */
+async function respondWithJob(
+  req: Request,
+  res: Response,
+  kind: GenerationKind,
+  failure: string,
+  generate: (context: GenerationContext) => Promise<unknown>
+) {
+  const job = generationJobs.start(req.user!.id, kind, context =>
+    generate(context).catch(error => {
+      if (error instanceof GenerationError || error instanceof GenerationCancelledError) throw error;
+      if (error instanceof AIQuotaExceededError) {
+        throw new GenerationError(429, error.message, quotaErrorBody(error));
+      }
+      logger.error(`${failure}:`, error);
+      throw new GenerationError(500, failure, { success: false, error: failure });
+    })
+  );
+
+  if (wantsEventStream(req)) {
+    return generationJobs.stream(job, req, res);
+  }
+
+  try {
+    res.json(await generationJobs.wait(job));
+  } catch (error) {
+    if (error instanceof GenerationError) {
+      return res.status(error.status).json(error.body ?? { success: false, error: error.message });
+    }
+    res.status(409).json({ success: false, error: "Generation was cancelled" });
+  }
+}
 
 // Validation schemas
 const summarizeDaySchema = z.object({
@@ -71,28 +160,13 @@ router.post("/summarize-day", async (req, res) => {
       });
     }
 
-    // Create summary prompt
-    const activitiesText = dayActivities
-      .map(activity => `- ${activity.title}: ${activity.notes || 'No description'}`)
-      .join('\n');
-
-    const prompt = `Summarize this travel day concisely and professionally:
-
-Date: ${date}
-Location: ${trip.city || trip.country || 'Unknown location'}
-Activities:
-${activitiesText}
-
-Provide a brief, engaging summary that highlights the key experiences and flow of the day. Keep it under 150 words.`;
-
-    const response = await openai.chat.completions.create({
-      model: OPENAI_MODEL, // Using GPT-3.5 for 80% cost savings
-      messages: [{ role: "user", content: prompt }],
-      max_tokens: 200,
-      temperature: 0.7,
-    });
+    const response = await llm.chat('summaries', renderPrompt(daySummaryPrompt, {
+      date,
+      location: trip.city || trip.country || 'Unknown location',
+      activities: dayActivities,
+    }));
 
-    const summary = response.choices[0].message.content;
+    const summary = response.content;
 
     res.json({
       success: true,
@@ -185,7 +259,7 @@ router.post("/suggest-food", async (req, res) => {
   }
 });
 
-// POST /api/ai/optimize-itinerary - Optimize trip itinerary using AI
+// POST /api/ai/optimize-itinerary - Reorder each day to cut travel, keeping bookings and meal times
 router.post("/optimize-itinerary", async (req, res) => {
   try {
     const validatedData = optimizeItinerarySchema.parse(req.body);
@@ -201,101 +275,47 @@ router.post("/optimize-itinerary", async (req, res) => {
       .from(trips)
       .where(eq(trips.id, trip_id));
 
-    if (!trip) {
+    if (!trip || !(await collaborationService.getTripAccess(trip_id, req.user.id))) {
       return res.status(404).json({ success: false, error: "Trip not found" });
     }
 
-    // Get all activities for the trip
-    const tripActivities = await db
-      .select()
-      .from(activities)
-      .where(eq(activities.trip_id, trip_id));
+    const result = await itineraryOptimizationService.optimizeTrip(trip, preferences?.travel_style);
+    const activitiesCount = result.days.reduce((sum, day) => sum + day.stops.length, 0) + result.undated_activity_ids.length;
 
-    if (tripActivities.length === 0) {
+    if (activitiesCount === 0) {
       return res.json({
         success: true,
-        suggestions: ["Add some activities to your trip first to get optimization suggestions."]
+        optimizedActivities: [],
+        recommendations: ["Add some activities to your trip first to get optimization suggestions."]
       });
     }
 
-    // Create optimization prompt with activity details including times
-    const activitiesText = tripActivities
-      .map(activity => `- ID: ${activity.id}, Title: "${activity.title}", Date: ${activity.date || 'No date'}, Time: ${activity.time || 'No time set'}, Location: ${activity.location_name}`)
-      .join('\n');
-
-    const travelStyle = preferences?.travel_style || 'balanced';
-    const interests = preferences?.interests?.join(', ') || 'general sightseeing';
-
-    const prompt = `Analyze and optimize this travel itinerary by suggesting better times for activities:
-
-Trip: ${trip.title}
-Location: ${trip.city || trip.country || 'Unknown location'}
-Duration: ${trip.start_date} to ${trip.end_date}
-Travel Style: ${travelStyle}
-Interests: ${interests}
-
-Current Activities:
-${activitiesText}
-
-Analyze the itinerary and suggest optimal times for each activity. Consider:
-- Venue opening hours (museums usually open 10am, restaurants for lunch 12pm-2pm, dinner 6pm-9pm)
-- Travel time between locations
-- Natural flow of the day (breakfast early, sightseeing mid-day, dinner evening)
-- Avoiding crowds (popular spots better early morning or late afternoon)
-
-Return ONLY activities that need time changes. Use the exact activity ID from above.
-For suggestedTime use 24-hour format like "09:00", "14:30", "18:00".
-
-Provide specific time optimizations in JSON format:
-{
-  "optimizedActivities": [
-    {
-      "id": "exact numeric ID from the list above",
-      "suggestedTime": "HH:MM in 24-hour format",
-      "suggestedDay": 1,
-      "reason": "Specific reason why this time is better"
-    }
-  ],
-  "recommendations": [
-    "Max 3 general recommendations for improving the itinerary"
-  ],
-  "optimization_score": "1-10 rating as a string",
-  "missing_experiences": [
-    "Max 2 recommended activities to add"
-  ]
-}`;
-
-    const response = await openai.chat.completions.create({
-      model: OPENAI_MODEL, // Using GPT-3.5 for 80% cost savings
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert travel planner. Analyze itineraries and provide optimization suggestions in valid JSON format."
-        },
-        { role: "user", content: prompt }
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 1000,
-      temperature: 0.7,
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || '{}');
-
-    // Ensure the response has the expected structure
-    const formattedResult = {
-      optimizedActivities: result.optimizedActivities || [],
-      recommendations: result.recommendations || [],
-      optimization_score: result.optimization_score || "5",
-      missing_experiences: result.missing_experiences || []
-    };
+    const dayNumber = (date: string) =>
+      Math.round((Date.parse(date) - Date.parse(String(trip.start_date).slice(0, 10))) / 86400000) + 1;
 
     res.json({
       success: true,
       trip_id,
-      activities_count: tripActivities.length,
-      ...formattedResult
+      activities_count: activitiesCount,
+      optimizedActivities: result.changes.map(change => ({
+        id: String(change.activity_id),
+        suggestedTime: change.to_time,
+        suggestedDay: dayNumber(change.date),
+        suggestedDate: change.date,
+        suggestedOrder: change.order,
+        reason: change.reason
+      })),
+      recommendations: summarizeOptimization(result),
+      explanation: await itineraryOptimizationService.explain(trip, result),
+      travel_minutes_before: result.travel_minutes_before,
+      travel_minutes_after: result.travel_minutes_after,
+      days: result.days
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: "Invalid request data", details: error.errors });
+    }
+    logger.error("Error optimizing itinerary", { error });
     res.status(500).json({
       success: false,
       error: "Failed to optimize itinerary"
@@ -303,10 +323,10 @@ Provide specific time optimizations in JSON format:
   }
 });
 
-// POST /api/ai/chat - Conversational AI assistant for trip planning
+// POST /api/ai/chat - Conversational AI assistant: plans new trips, or edits trip_id through the trip assistant
 router.post("/chat", async (req, res) => {
   try {
-    const { messages } = req.body;
+    const { messages, trip_id } = req.body;
 
     if (!req.user) {
       return res.status(401).json({ success: false, error: "Unauthorized" });
@@ -319,6 +339,26 @@ router.post("/chat", async (req, res) => {
       });
     }
 
+    // Chatting about an existing trip goes through the trip assistant and its tools
+    if (trip_id !== undefined) {
+      const context = await tripAssistantService.loadContext(Number(trip_id), req.user.id);
+      if (!context) {
+        return res.status(404).json({ success: false, error: "Trip not found" });
+      }
+
+      const question = messages[messages.length - 1]?.content;
+      if (typeof question !== 'string' || !question.trim()) {
+        return res.status(400).json({ success: false, error: "The last message must have content" });
+      }
+
+      const reply = await tripAssistantService.ask(context, question, messages.slice(0, -1));
+      return res.json({
+        success: true,
+        message: reply.answer,
+        changeset: reply.changes.length ? { trip_id: context.trip.id, changes: reply.changes } : null
+      });
+    }
+
     // Check if this looks like a trip creation request
     const lastMessage = messages[messages.length - 1]?.content?.toLowerCase() || "";
     const isCreatingTrip = lastMessage.includes("create") ||
@@ -381,128 +421,19 @@ router.post("/chat", async (req, res) => {
       }
     }
     
-    // Add system prompt for trip planning context
-    const systemMessage = {
-      role: "system",
-      content: `You are a helpful AI travel assistant. Help users plan their trips by providing friendly, conversational responses.
-
-${isCreatingTrip ? `IMPORTANT: The user wants to create a trip. 
-
-FIRST, extract ALL trip details from their message:
-- Dates: If provided, use them. If vague ("next week"), calculate actual dates
-- Budget: If mentioned (e.g., "$200/day", "$3000 total"), respect it in your suggestions
-- Group size: Number of adults, kids if mentioned
-- Interests: Any specific things they want to do or see
-
-BUDGET AWARENESS:
-- If budget is mentioned, categorize activities as:
-  - FREE: Parks, walking tours, beaches, hiking, window shopping
-  - BUDGET ($): Street food, public transport, local markets, some museums
-  - MODERATE ($$): Mid-range restaurants, paid attractions, guided tours
-  - EXPENSIVE ($$$): Fine dining, premium experiences, private tours
-- Mix free and paid activities to stay within budget
-- For "$200/day for 2 adults", that's ~$100/person - focus on free/budget activities
-
-Only proceed with trip creation if you have specific dates. You should:
-1. Provide a brief, excited response about the trip (2-3 sentences max)
-2. Include a JSON block at the end with trip details AND specific activities
-3. DO NOT ask if they want anything else or if they want to create it - they already asked you to create it!
-4. For longer trips (>4 days), generate AT LEAST 3-5 activities per day
-5. If budget constraints exist, mention how you're staying within budget
-
-Include this EXACT format at the end of your response:
-
-<TRIP_JSON>
-{
-  "title": "Trip title here",
-  "description": "Brief trip description",
-  "startDate": "YYYY-MM-DD (actual date, e.g., '2025-03-15')",
-  "endDate": "YYYY-MM-DD (actual date, e.g., '2025-03-20')",
-  "city": "City name",
-  "country": "Country name",
-  "activities": [
-    {
-      "title": "Specific activity name (e.g., 'Visit Empire State Building')",
-      "date": "YYYY-MM-DD (MUST be between startDate and endDate)",
-      "time": "HH:MM (24-hour format, e.g., '10:00' or '14:30')",
-      "locationName": "Exact location/address",
-      "notes": "Brief description or tips",
-      "latitude": "decimal latitude if available",
-      "longitude": "decimal longitude if available"
-    }
-  ]
-}
-</TRIP_JSON>
-
-CRITICAL DATE RULES:
-- Today's date is ${new Date().toISOString().split('T')[0]}
-- All dates MUST be in the future
-- Activity dates MUST be between startDate and endDate
-- Use proper YYYY-MM-DD format (e.g., '2025-03-15', not '2023-09-08')
-- For "next weekend": Use the upcoming Saturday and Sunday dates
-- Distribute activities evenly across the trip days
-
-ACTIVITY GENERATION RULES:
-
-Generate EXACTLY 5 activities for EACH day of the trip following this pattern:
-- 3 meals (breakfast from CAFES, lunch & dinner from RESTAURANTS)
-- 2 tourist activities (from ATTRACTIONS list - museums, landmarks, parks, etc.)
-
-For a 3-day trip = 15 activities total (5 per day)
-For a 7-day trip = 35 activities total (5 per day)
-For a 13-day trip = 65 activities total (5 per day)
-
-For each day, create a balanced schedule with:
-- Breakfast (08:00-09:00) - Pick from CAFES list
-- Morning activity (09:30-11:30) - Pick from ATTRACTIONS list (museum, landmark, etc.)
-- Lunch (12:00-13:30) - Pick from RESTAURANTS list
-- Afternoon activity (14:00-17:00) - Pick from ATTRACTIONS list (different from morning)
-- Dinner (18:30-20:30) - Pick from RESTAURANTS list (different from lunch)
-
-CRITICAL: Each day should have:
-- 1 breakfast (cafe)
-- 2 different attractions/activities (NOT restaurants)
-- 1 lunch (restaurant)
-- 1 dinner (different restaurant)
-Total: 5 activities per day with proper variety
-
-Spread activities across ALL dates from startDate to endDate.
-
-${realPlaces ? `
-CRITICAL: You MUST use these REAL places from ${cityToSearch}:
-
-RESTAURANTS (use for lunch/dinner):
-${realPlaces.restaurants.slice(0, 15).map(r => `- ${r.name} (lat: ${r.lat}, lon: ${r.lon})`).join('\n')}
-
-ATTRACTIONS (use for sightseeing):
-${realPlaces.attractions.slice(0, 15).map(a => `- ${a.name} (lat: ${a.lat}, lon: ${a.lon})`).join('\n')}
-
-CAFES (use for breakfast/coffee):
-${realPlaces.cafes.slice(0, 10).map(c => `- ${c.name} (lat: ${c.lat}, lon: ${c.lon})`).join('\n')}
-
-IMPORTANT RULES FOR USING THESE PLACES:
-- Use ONLY these real places in your activities - DO NOT make up any places
-- Include the exact coordinates (latitude, longitude) for each activity
-- NEVER repeat the same restaurant or attraction twice in the trip
-- For MEALS: Only use items from RESTAURANTS list for lunch/dinner, CAFES for breakfast
-- For ACTIVITIES: Only use items from ATTRACTIONS list for sightseeing/tours
-- DO NOT use restaurants as "activities" - they are only for meal times
-` : ''}
-Use real, specific locations in the destination city.
-
-Make dates start from the next Friday if not specified.` : 'Do not include any JSON blocks unless the user explicitly asks to create or plan a trip.'}
-
-Keep your main response conversational and helpful.`
-    };
-
-    const response = await openai.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages: [systemMessage, ...messages],
-      temperature: 0.7,
-      max_tokens: 4000  // Maximum tokens for GPT-3.5 to handle 50+ activities
+    // System prompt for trip planning context, then the conversation so far
+    const { messages: systemMessages, ...chatSettings } = renderPrompt(tripChatPrompt, {
+      today: new Date().toISOString().split('T')[0],
+      creatingTrip: Boolean(isCreatingTrip),
+      city: cityToSearch,
+      places: realPlaces,
+    });
+    const response = await llm.chat('assistant', {
+      ...chatSettings,
+      messages: [...systemMessages, ...messages],
     });
 
-    const aiResponse = response.choices[0].message.content || "";
+    const aiResponse = response.content || "";
 
     // Extract trip JSON if present
     let tripSuggestion = null;
@@ -583,6 +514,9 @@ Keep your main response conversational and helpful.`
       createdTripId
     });
   } catch (error) {
+    if (error instanceof AIQuotaExceededError) {
+      return res.status(429).json(quotaErrorBody(error));
+    }
     res.status(500).json({
       success: false,
       error: "Failed to process chat message",
@@ -644,62 +578,24 @@ router.post("/suggest-activities", async (req, res) => {
     // Select 6 diverse real attractions
     const selectedAttractions = attractions.slice(0, 6);
     
-    const prompt = `Given these REAL attractions in ${city}, create activity suggestions for someone interested in ${interestsText}, planning to spend ${durationText} there.
-
-For each activity, provide:
-- Name/title
-- Brief description (1-2 sentences)
-- Best time to visit
-- Approximate duration
-- Activity type/category
-
-REAL ATTRACTIONS:
-${selectedAttractions.map(a => `- ${a.name} (lat: ${a.lat}, lon: ${a.lon})`).join('\n')}
-
-Format as JSON, using ONLY the real attractions above:
-{
-  "activities": [
-    {
-      "title": "Name from the list above",
-      "description": "Brief description",
-      "best_time": "Time recommendation",
-      "duration": "Time needed",
-      "category": "Activity type",
-      "priority": "high/medium/low",
-      "latitude": decimal latitude,
-      "longitude": decimal longitude
-    }
-  ]
-}`;
-
-    const response = await openai.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages: [
-        {
-          role: "system",
-          content: "You are a knowledgeable travel expert. Use ONLY the real attractions provided to create recommendations."
-        },
-        { role: "user", content: prompt }
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 1200,
-      temperature: 0.8,
-    });
+    const response = await llm.chat('suggestions', renderPrompt(activitySuggestionsPrompt, {
+      city,
+      interests: interestsText,
+      duration: durationText,
+      attractions: selectedAttractions,
+    }));
 
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const result = JSON.parse(response.content || '{}');
     
-    // Ensure all activities have coordinates from our real places
-    if (result.activities) {
-      result.activities = result.activities.map((activity: any) => {
-        const realPlace = selectedAttractions.find(a => 
-          activity.title?.includes(a.name) || a.name.includes(activity.title)
-        );
-        if (realPlace) {
-          activity.latitude = realPlace.lat;
-          activity.longitude = realPlace.lon;
-        }
-        return activity;
-      });
+    // Check the model kept to real places, taking coordinates from them and
+    // replacing any it made up
+    if (Array.isArray(result.activities)) {
+      const verifications = await placeVerification.verifyPlaces(
+        result.activities.map((activity: any) => ({ name: String(activity.title || ''), kind: 'attraction' as const })),
+        { city, country: countryContext, pool: { restaurants, attractions, cafes }, replace: true }
+      );
+      result.activities = result.activities.map((activity: any, index: number) =>
+        withVerifiedPlace(activity, 'title', verifications[index]));
     }
 
     const responseData = {
@@ -746,279 +642,9 @@ router.post("/generate-full-itinerary", async (req, res) => {
       return res.status(404).json({ success: false, error: "Trip not found or access denied" });
     }
 
-    // Calculate trip duration
-    const startDate = new Date(trip.start_date);
-    const endDate = new Date(trip.end_date);
-    const tripDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-    
-    logger.info(`Generating full itinerary for ${tripDays}-day trip to ${trip.city}`);
-    
-    // Get REAL places from OpenStreetMap using batch fetch with caching
-    const { batchFetchAndCache } = await import('../services/osmBatchFetch');
-    
-    const cityToSearch = trip.city || 'Berlin';
-    const countryToSearch = trip.country || 'Germany';
-    
-    logger.info(`[FULL-ITINERARY] Fetching real places for ${cityToSearch}, ${countryToSearch}`);
-    
-    // Fetch all places in a single request (or use cache)
-    const { restaurants, attractions, cafes } = await batchFetchAndCache(cityToSearch, countryToSearch);
-    
-    logger.info(`[FULL-ITINERARY] Got ${restaurants.length} restaurants, ${attractions.length} attractions, ${cafes.length} cafes`);
-    
-    // Only proceed if we got real places
-    if (restaurants.length === 0 && attractions.length === 0) {
-      logger.error(`[FULL-ITINERARY] No real places found for ${cityToSearch}`);
-      return res.status(400).json({
-        success: false,
-        error: `Could not find real places in ${cityToSearch}. Please try a different city.`
-      });
-    }
-
-    // Generate activities in batches of 3 days at a time
-    const allActivities = [];
-    const DAYS_PER_BATCH = 3;
-    const visitedAttractions = new Set(); // Track unique attractions to avoid duplicates
-    const usedRestaurants = new Set(); // Track used restaurants to ensure variety
-    
-    // First check if trip already has activities
-    const existingActivities = await db
-      .select()
-      .from(activities)
-      .where(eq(activities.trip_id, trip_id));
-    
-    logger.info(`[FULL-ITINERARY] Trip ${trip_id} has ${existingActivities.length} existing activities`);
-    
-    // If trip already has sufficient activities (at least 2 per day), don't add more
-    const minActivitiesNeeded = tripDays * 2;
-    if (existingActivities.length >= minActivitiesNeeded) {
-      logger.info(`[FULL-ITINERARY] Trip already has sufficient activities (${existingActivities.length} >= ${minActivitiesNeeded}), skipping generation`);
-      return res.json({
-        success: true,
-        activitiesCreated: 0,
-        message: `Trip already has ${existingActivities.length} activities`
-      });
-    }
-    
-    // Group existing activities by date to see which days need activities
-    const activitiesByDate = new Map<string, any[]>();
-    for (const activity of existingActivities) {
-      if (activity.date) {
-        const dateStr = activity.date;
-        if (!activitiesByDate.has(dateStr)) {
-          activitiesByDate.set(dateStr, []);
-        }
-        activitiesByDate.get(dateStr)!.push(activity);
-      }
-    }
-    
-    // Create activities for each day using real OSM places
-    for (let dayIndex = 0; dayIndex < tripDays; dayIndex++) {
-      const currentDate = new Date(startDate);
-      currentDate.setDate(startDate.getDate() + dayIndex);
-      const dateStr = currentDate.toISOString().split('T')[0];
-      
-      // Check how many activities exist for this day
-      const dayActivities = activitiesByDate.get(dateStr) || [];
-      const hasMeals = dayActivities.some(a => 
-        a.title?.toLowerCase().includes('breakfast') || 
-        a.title?.toLowerCase().includes('lunch') || 
-        a.title?.toLowerCase().includes('dinner') ||
-        a.tag === 'food' || a.tag === 'dining'
-      );
-      
-      logger.info(`[FULL-ITINERARY] Day ${dateStr} has ${dayActivities.length} activities, hasMeals: ${hasMeals}`);
-      
-      // If this day already has meals, only add attractions
-      if (hasMeals) {
-        // Only add attractions if there are fewer than 2 non-meal activities
-        const nonMealActivities = dayActivities.filter(a => 
-          a.tag !== 'food' && a.tag !== 'dining' && 
-          !a.title?.toLowerCase().includes('breakfast') &&
-          !a.title?.toLowerCase().includes('lunch') &&
-          !a.title?.toLowerCase().includes('dinner')
-        );
-        
-        if (nonMealActivities.length < 2) {
-          // Add one or two attractions
-          const morningAttraction = attractions.find(a => !visitedAttractions.has(a.name)) || attractions[dayIndex % attractions.length];
-          if (morningAttraction) {
-            allActivities.push({
-              date: dateStr,
-              time: "10:00",
-              title: `Visit ${morningAttraction.name}`,
-              locationName: morningAttraction.name,
-              latitude: morningAttraction.lat,
-              longitude: morningAttraction.lon,
-              notes: morningAttraction.tourism || "Explore this popular attraction",
-              tag: "sightseeing"
-            });
-            visitedAttractions.add(morningAttraction.name);
-          }
-          
-          if (nonMealActivities.length === 0 && attractions.length > dayIndex + 1) {
-            const afternoonAttraction = attractions.find(a => !visitedAttractions.has(a.name)) || attractions[(dayIndex + 1) % attractions.length];
-            if (afternoonAttraction && afternoonAttraction.name !== morningAttraction?.name) {
-              allActivities.push({
-                date: dateStr,
-                time: "14:30",
-                title: `Explore ${afternoonAttraction.name}`,
-                locationName: afternoonAttraction.name,
-                latitude: afternoonAttraction.lat,
-                longitude: afternoonAttraction.lon,
-                notes: afternoonAttraction.tourism || "Discover this attraction",
-                tag: "sightseeing"
-              });
-              visitedAttractions.add(afternoonAttraction.name);
-            }
-          }
-        }
-      } else if (dayActivities.length === 0) {
-        // No activities for this day, add full day plan
-        // Pick breakfast place (cafe)
-        const breakfastCafe = cafes.find(c => !usedRestaurants.has(c.name)) || cafes[dayIndex % cafes.length];
-        if (breakfastCafe) {
-          allActivities.push({
-            date: dateStr,
-            time: "08:30",
-            title: `Breakfast at ${breakfastCafe.name}`,
-            locationName: breakfastCafe.name,
-            latitude: breakfastCafe.lat,
-            longitude: breakfastCafe.lon,
-            notes: "Start your day with coffee and pastries",
-            tag: "food"
-          });
-          usedRestaurants.add(breakfastCafe.name);
-        }
-        
-        // Pick morning attraction
-        const morningAttraction = attractions.find(a => !visitedAttractions.has(a.name)) || attractions[dayIndex % attractions.length];
-        if (morningAttraction) {
-          allActivities.push({
-            date: dateStr,
-            time: "10:00",
-            title: `Visit ${morningAttraction.name}`,
-            locationName: morningAttraction.name,
-            latitude: morningAttraction.lat,
-            longitude: morningAttraction.lon,
-            notes: morningAttraction.tourism || "Explore this popular attraction",
-            tag: "sightseeing"
-          });
-          visitedAttractions.add(morningAttraction.name);
-        }
-        
-        // Pick lunch restaurant
-        const lunchPlace = restaurants.find(r => !usedRestaurants.has(r.name)) || restaurants[dayIndex % restaurants.length];
-        if (lunchPlace) {
-          allActivities.push({
-            date: dateStr,
-            time: "13:00",
-            title: `Lunch at ${lunchPlace.name}`,
-            locationName: lunchPlace.name,
-            latitude: lunchPlace.lat,
-            longitude: lunchPlace.lon,
-            notes: lunchPlace.cuisine ? `${lunchPlace.cuisine} cuisine` : "Enjoy local cuisine",
-            tag: "food"
-          });
-          usedRestaurants.add(lunchPlace.name);
-        }
-        
-        // Pick dinner restaurant
-        const dinnerPlace = restaurants.find(r => !usedRestaurants.has(r.name)) || restaurants[(dayIndex + 10) % restaurants.length];
-        if (dinnerPlace) {
-          allActivities.push({
-            date: dateStr,
-            time: "19:00",
-            title: `Dinner at ${dinnerPlace.name}`,
-            locationName: dinnerPlace.name,
-            latitude: dinnerPlace.lat,
-            longitude: dinnerPlace.lon,
-            notes: dinnerPlace.cuisine ? `${dinnerPlace.cuisine} dining experience` : "Evening dining",
-            tag: "food"
-          });
-          usedRestaurants.add(dinnerPlace.name);
-        }
-      } else {
-        // Day has some activities but no meals, add meals only
-        logger.info(`[FULL-ITINERARY] Day ${dateStr} has activities but no meals, adding meals only`);
-        
-        // Only add meals if they don't exist
-        const breakfastCafe = cafes.find(c => !usedRestaurants.has(c.name)) || cafes[dayIndex % cafes.length];
-        if (breakfastCafe) {
-          allActivities.push({
-            date: dateStr,
-            time: "08:30",
-            title: `Breakfast at ${breakfastCafe.name}`,
-            locationName: breakfastCafe.name,
-            latitude: breakfastCafe.lat,
-            longitude: breakfastCafe.lon,
-            notes: "Start your day with coffee and pastries",
-            tag: "food"
-          });
-          usedRestaurants.add(breakfastCafe.name);
-        }
-        
-        const lunchPlace = restaurants.find(r => !usedRestaurants.has(r.name)) || restaurants[dayIndex % restaurants.length];
-        if (lunchPlace) {
-          allActivities.push({
-            date: dateStr,
-            time: "13:00",
-            title: `Lunch at ${lunchPlace.name}`,
-            locationName: lunchPlace.name,
-            latitude: lunchPlace.lat,
-            longitude: lunchPlace.lon,
-            notes: lunchPlace.cuisine ? `${lunchPlace.cuisine} cuisine` : "Enjoy local cuisine",
-            tag: "food"
-          });
-          usedRestaurants.add(lunchPlace.name);
-        }
-        
-        const dinnerPlace = restaurants.find(r => !usedRestaurants.has(r.name)) || restaurants[(dayIndex + 10) % restaurants.length];
-        if (dinnerPlace) {
-          allActivities.push({
-            date: dateStr,
-            time: "19:00",
-            title: `Dinner at ${dinnerPlace.name}`,
-            locationName: dinnerPlace.name,
-            latitude: dinnerPlace.lat,
-            longitude: dinnerPlace.lon,
-            notes: dinnerPlace.cuisine ? `${dinnerPlace.cuisine} dining experience` : "Evening dining",
-            tag: "food"
-          });
-          usedRestaurants.add(dinnerPlace.name);
-        }
-      }
-    }
-    
-    logger.info(`[FULL-ITINERARY] Created ${allActivities.length} activities from real OSM places`);
-
-    // Save activities with real OSM coordinates
-    for (const activity of allActivities) {
-      // Save activity with real coordinates from OSM
-      await db.insert(activities).values({
-        trip_id,
-        title: activity.title,
-        date: activity.date,
-        time: activity.time,
-        location_name: activity.locationName,
-        latitude: activity.latitude ? String(activity.latitude) : null,
-        longitude: activity.longitude ? String(activity.longitude) : null,
-        notes: activity.notes,
-        tag: activity.tag || 'activity',
-        created_at: new Date(),
-        updated_at: new Date()
-      });
-    }
-
-    logger.info(`Created ${allActivities.length} activities for trip ${trip_id}`);
-
-    res.json({
-      success: true,
-      message: `Generated ${allActivities.length} activities for your ${tripDays}-day trip`,
-      activitiesCreated: allActivities.length,
-      activities: allActivities
-    });
-
+    const userId = req.user.id;
+    await respondWithJob(req, res, 'full_itinerary', "Failed to generate full itinerary",
+      context => generateFullItinerary(context, trip, userId));
   } catch (error) {
     logger.error('Error generating full itinerary:', error);
     res.status(500).json({
@@ -1053,205 +679,9 @@ router.post("/generate-weekend", async (req, res) => {
     if (!trip || trip.user_id !== req.user.id) {
       return res.status(404).json({ success: false, error: "Trip not found or access denied" });
     }
-    
-    // Get REAL places from OpenStreetMap using batch fetch with caching
-    const { batchFetchAndCache } = await import('../services/osmBatchFetch');
-    
-    const cityToSearch = trip.city || destination.split(',')[0].trim();
-    const countryToSearch = trip.country || destination.split(',')[1]?.trim() || 'Germany';
-    
-    logger.info(`[WEEKEND] Fetching real places for ${cityToSearch}, ${countryToSearch}`);
-    
-    // Fetch all places in a single request (or use cache)
-    const { restaurants, attractions, cafes } = await batchFetchAndCache(cityToSearch, countryToSearch);
-    
-    logger.info(`[WEEKEND] Got ${restaurants.length} restaurants, ${attractions.length} attractions, ${cafes.length} cafes`);
-    
-    // Log the first few places for debugging
-    if (restaurants.length > 0) {
-      logger.info(`[WEEKEND] Sample restaurants: ${restaurants.slice(0,3).map(r => `${r.name} (${r.lat},${r.lon})`).join(', ')}`);
-    }
-    if (attractions.length > 0) {
-      logger.info(`[WEEKEND] Sample attractions: ${attractions.slice(0,3).map(a => `${a.name} (${a.lat},${a.lon})`).join(', ')}`);
-    }
-    
-    // Only proceed if we got real places
-    if (restaurants.length === 0 && attractions.length === 0) {
-      logger.error(`[AI] No real places found for ${destination}`);
-      return res.status(400).json({
-        success: false,
-        error: `Could not find real places in ${destination}. Please try a different city.`
-      });
-    }
-    
-    // NEW APPROACH: Pick places first, then create itinerary
-    const startDate = new Date(trip.start_date);
-    const allPlaces = [...restaurants, ...attractions, ...cafes];
-    
-    // Select diverse places for the weekend
-    const selectedPlaces = [];
-    
-    // Day 1 (Friday evening): 1 restaurant for dinner
-    if (restaurants.length > 0) {
-      selectedPlaces.push({ ...restaurants[0], day: 0, time: '19:00', tag: 'food', title: `Dinner at ${restaurants[0].name}` });
-    }
-    
-    // Day 2 (Saturday): Full day
-    // Morning attraction
-    if (attractions.length > 0) {
-      selectedPlaces.push({ ...attractions[0], day: 1, time: '09:00', tag: 'sightseeing', title: `Visit ${attractions[0].name}` });
-    }
-    // Lunch
-    if (restaurants.length > 1) {
-      selectedPlaces.push({ ...restaurants[1], day: 1, time: '12:30', tag: 'food', title: `Lunch at ${restaurants[1].name}` });
-    } else if (cafes.length > 0) {
-      selectedPlaces.push({ ...cafes[0], day: 1, time: '12:30', tag: 'food', title: `Light lunch at ${cafes[0].name}` });
-    }
-    // Afternoon attraction
-    if (attractions.length > 1) {
-      selectedPlaces.push({ ...attractions[1], day: 1, time: '14:30', tag: 'sightseeing', title: `Explore ${attractions[1].name}` });
-    }
-    // Coffee break
-    if (cafes.length > 0) {
-      const cafeIndex = cafes.length > 1 ? 1 : 0;
-      selectedPlaces.push({ ...cafes[cafeIndex], day: 1, time: '16:30', tag: 'food', title: `Coffee break at ${cafes[cafeIndex].name}` });
-    }
-    // Dinner
-    if (restaurants.length > 2) {
-      selectedPlaces.push({ ...restaurants[2], day: 1, time: '19:30', tag: 'food', title: `Dinner at ${restaurants[2].name}` });
-    }
-    
-    // Day 3 (Sunday): Morning/afternoon before departure
-    // Morning attraction or cafe
-    if (attractions.length > 2) {
-      selectedPlaces.push({ ...attractions[2], day: 2, time: '09:30', tag: 'sightseeing', title: `Morning visit to ${attractions[2].name}` });
-    } else if (cafes.length > 2) {
-      selectedPlaces.push({ ...cafes[2], day: 2, time: '09:30', tag: 'food', title: `Breakfast at ${cafes[2].name}` });
-    }
-    // Final lunch before departure
-    if (restaurants.length > 3) {
-      selectedPlaces.push({ ...restaurants[3], day: 2, time: '12:00', tag: 'food', title: `Farewell lunch at ${restaurants[3].name}` });
-    }
-    
-    // Skip AI entirely - just use the real places directly
-    logger.info(`[AI] Selected ${selectedPlaces.length} real places for itinerary`);
-    
-    // Format activities without AI involvement
-    const activities = selectedPlaces.map(place => {
-      let notes = '';
-      
-      // Generate appropriate notes based on type
-      if (place.cuisine) {
-        notes = `Enjoy authentic ${place.cuisine} cuisine at this local favorite`;
-      } else if (place.tourism === 'viewpoint') {
-        notes = 'Take in panoramic views of the city and surrounding landscape';
-      } else if (place.tourism === 'museum' || place.tourism === 'attraction') {
-        notes = 'Explore the exhibits and learn about local history and culture';
-      } else if (place.tag === 'food') {
-        notes = 'Experience local flavors and traditional dishes';
-      } else {
-        notes = 'Discover this local gem and its unique character';
-      }
-      
-      return {
-        title: place.title,
-        locationName: place.name,
-        locationAddress: '',
-        latitude: place.lat.toString(),
-        longitude: place.lon.toString(),
-        time: place.time,
-        day: place.day,
-        notes: notes,
-        tag: place.tag
-      };
-    });
-    
-    logger.info(`[WEEKEND] Created ${activities.length} activities from real OSM places`);
-    
-    // Log what we're about to save
-    activities.forEach((act, i) => {
-      logger.info(`[WEEKEND] Activity ${i+1}: ${act.title} at ${act.locationName} (${act.latitude},${act.longitude})`);
-    });
 
-    // Map activities to actual dates - coordinates already included
-    const enrichedActivities = activities.map((activity: any, index: number) => {
-      // Calculate actual date based on day offset
-      const dayOffset = activity.day || 0;
-      const activityDate = new Date(startDate);
-      activityDate.setDate(startDate.getDate() + dayOffset);
-      
-      return {
-        ...activity,
-        date: activityDate.toISOString().split('T')[0],
-        trip_id,
-        order: index,
-        // Ensure coordinates are strings
-        latitude: activity.latitude?.toString(),
-        longitude: activity.longitude?.toString(),
-        location_name: activity.locationName,
-        location_address: activity.locationAddress
-      };
-    });
-
-    // Log coordinate status
-    const activitiesWithCoords = enrichedActivities.filter(a => a.latitude && a.longitude).length;
-    logger.info(`[AI] ${activitiesWithCoords}/${enrichedActivities.length} activities have coordinates from real OSM places`);
-    
-    // Only try geocoding if we're missing coordinates (which shouldn't happen with new approach)
-    if (activitiesWithCoords < enrichedActivities.length) {
-      logger.warn(`[AI] Some activities missing coordinates - this shouldn't happen with real places`);
-    }
-
-    // Import storage for proper activity creation
-    const { storage } = await import('../storage');
-    
-    // Save activities to database using storage layer
-    const savedActivities = [];
-    for (const activity of enrichedActivities) {
-      try {
-        // Use storage.createActivity which handles field validation properly
-        const activityData = {
-          trip_id: activity.trip_id,
-          title: activity.title,
-          date: activity.date,
-          time: activity.time || '09:00', // Default time if missing
-          location_name: activity.locationName || activity.location_name || activity.location || '', // Handle all field name variations
-          notes: activity.notes || '',
-          tag: activity.tag || 'activity',
-          latitude: activity.latitude ? activity.latitude.toString() : null,
-          longitude: activity.longitude ? activity.longitude.toString() : null,
-          order: activity.order || 0,
-          travel_mode: 'walking', // Add default travel mode
-          assigned_to: null // Add default assigned_to
-        };
-        
-        logger.info(`Creating weekend activity: ${activityData.title} on ${activityData.date} at ${activityData.time}`);
-        
-        // Use storage layer instead of raw db insert
-        const createdActivity = await storage.createActivity(activityData);
-        
-        if (createdActivity) {
-          savedActivities.push(createdActivity);
-          logger.info(`Successfully created activity: ${createdActivity.id}`);
-        }
-      } catch (error) {
-        logger.error(`Failed to create activity "${activity.title}":`, {
-          error: error instanceof Error ? error.message : 'Unknown error',
-          stack: error instanceof Error ? error.stack : undefined,
-          activity
-        });
-        // Continue with other activities even if one fails
-      }
-    }
-
-    res.json({
-      success: true,
-      trip_id,
-      destination,
-      duration,
-      activities: savedActivities,
-      message: `Generated ${savedActivities.length} activities for your weekend in ${destination}!`
-    });
+    await respondWithJob(req, res, 'weekend', "Failed to generate weekend itinerary",
+      context => generateWeekend(context, trip, destination, duration));
   } catch (error) {
     res.status(500).json({
       success: false,
@@ -1281,55 +711,18 @@ router.post("/find-location", async (req, res) => {
 
     // Check cache first
     const cacheKey = aiCache.generateKey('location', search_query, city_context);
-    const cachedResult = aiCache.get(cacheKey);
+    const cachedResult = aiCache.get(cacheKey, 'suggestions');
 
     if (cachedResult) {
       return res.json(cachedResult);
     }
 
-    const prompt = `Find places matching "${search_query}" in or near ${city_context || 'the specified location'}.
-
-Search for ANY type of location including:
-- Restaurants, cafes, bars
-- Tourist attractions, landmarks, museums
-- Parks, beaches, recreational areas
-- Shopping centers, stores, markets
-- Entertainment venues, theaters, stadiums
-- Hotels and accommodations
-- Transportation hubs
-- Any other places that match the search
-
-Return up to 5 locations that best match the search query. Focus on popular, well-known places.
-
-Format as JSON:
-{
-  "locations": [
-    {
-      "name": "Place Name",
-      "address": "Full street address or location description",
-      "city": "${city_context || 'City'}",
-      "region": "State/Province",
-      "country": "Country",
-      "description": "Brief description of what this place is (1-2 sentences)"
-    }
-  ]
-}`;
-
-    const response = await openai.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages: [
-        {
-          role: "system",
-          content: "You are a travel expert specializing in hotel recommendations. Provide real hotel information in valid JSON format."
-        },
-        { role: "user", content: prompt }
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 800,
-      temperature: 0.7,
-    });
+    const response = await llm.chat('suggestions', renderPrompt(locationSearchPrompt, {
+      query: search_query,
+      cityContext: city_context,
+    }));
 
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const result = JSON.parse(response.content || '{}');
 
     const responseData = {
       success: true,
@@ -1366,35 +759,12 @@ router.post("/translate-content", async (req, res) => {
       });
     }
 
-    const prompt = `Translate the following text to ${target_language}. Maintain the original tone and meaning. If the text is already in ${target_language}, return it unchanged.
-
-Text to translate:
-${text}
-
-Provide the translation in JSON format:
-{
-  "original_text": "original text here",
-  "translated_text": "translated text here",
-  "source_language": "detected source language",
-  "target_language": "${target_language}",
-  "confidence": "high/medium/low"
-}`;
-
-    const response = await openai.chat.completions.create({
-      model: OPENAI_MODEL, // Using GPT-3.5 for 80% cost savings
-      messages: [
-        {
-          role: "system",
-          content: "You are a professional translator. Provide accurate translations in valid JSON format."
-        },
-        { role: "user", content: prompt }
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 800,
-      temperature: 0.3,
-    });
+    const response = await llm.chat('translation', renderPrompt(translationPrompt, {
+      text,
+      targetLanguage: target_language,
+    }));
 
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const result = JSON.parse(response.content || '{}');
 
     res.json({
       success: true,
@@ -1439,7 +809,7 @@ router.post("/weather-activities", async (req, res) => {
 
     // Check cache first (shorter TTL for weather-based suggestions)
     const cacheKey = aiCache.generateKey('weather-activities', location, `${weatherCondition || 'any'}_${date || 'any'}`);
-    const cachedResult = aiCache.get(cacheKey);
+    const cachedResult = aiCache.get(cacheKey, 'suggestions');
 
     if (cachedResult) {
       return res.json(cachedResult);
@@ -1493,64 +863,25 @@ router.post("/weather-activities", async (req, res) => {
       suitablePlaces.push(...realPlaces.attractions.slice(0, needed));
     }
 
-    const prompt = `Given these real places in ${location} and ${weatherCondition} weather, recommend which 5 would be best and explain why they're suitable for the weather.
-    ${date ? `Date: ${date}` : ''}
-
-Available real places:
-${suitablePlaces.slice(0, 10).map(p => `- ${p.name} (${(p as any).tourism || (p as any).cuisine || 'attraction'})`).join('\n')}
-
-Format as JSON:
-{
-  "activities": [
-    {
-      "name": "Exact place name from the list",
-      "description": "Brief description",
-      "duration": "estimated time (e.g., 2-3 hours)",
-      "location": "Specific location or area",
-      "weatherSuitability": "Why this is good for ${weatherCondition} weather",
-      "tips": "Any helpful tips",
-      "latitude": number,
-      "longitude": number
-    }
-  ]
-}
-
-IMPORTANT: Only use places from the provided list. Include the exact coordinates.`;
-
-    const response = await openai.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages: [
-        {
-          role: "system",
-          content: "You are a travel advisor specializing in weather-appropriate activities. Only recommend places from the provided list."
-        },
-        { role: "user", content: prompt }
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 1000,
-      temperature: 0.7,
-    });
+    const response = await llm.chat('suggestions', renderPrompt(weatherActivitiesPrompt, {
+      location,
+      weatherCondition,
+      date,
+      places: suitablePlaces.slice(0, 10),
+    }));
 
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const result = JSON.parse(response.content || '{}');
 
-    // Add coordinates to the activities
-    if (result.activities) {
-      result.activities = result.activities.map((activity: any) => {
-        const matchingPlace = suitablePlaces.find(p => 
-          p.name === activity.name || 
-          activity.name.includes(p.name) ||
-          p.name.includes(activity.name)
-        );
-        
-        if (matchingPlace) {
-          return {
-            ...activity,
-            latitude: matchingPlace.lat,
-            longitude: matchingPlace.lon
-          };
-        }
-        return activity;
-      });
+    // Check the model kept to real places, taking coordinates from them and
+    // replacing any it made up with another suitable one
+    if (Array.isArray(result.activities)) {
+      const verifications = await placeVerification.verifyPlaces(
+        result.activities.map((activity: any) => ({ name: String(activity.name || ''), kind: 'attraction' as const })),
+        // Weather-suitable places are tried first as replacements
+        { city: cityToSearch, country: countryToSearch, pool: { ...realPlaces, attractions: [...suitablePlaces, ...realPlaces.attractions] }, replace: true }
+      );
+      result.activities = result.activities.map((activity: any, index: number) =>
+        withVerifiedPlace(activity, 'name', verifications[index]));
     }
 
     const responseData = {
@@ -1595,45 +926,19 @@ router.post("/budget-options", async (req, res) => {
 
     // Check cache first
     const cacheKey = aiCache.generateKey('budget', location, `${budgetLevel || 'any'}_${activityType || 'any'}`);
-    const cachedResult = aiCache.get(cacheKey);
+    const cachedResult = aiCache.get(cacheKey, 'suggestions');
 
     if (cachedResult) {
       return res.json(cachedResult);
     }
 
-    const prompt = `Suggest budget-friendly options in ${location} for a ${budgetLevel} budget.
-    ${activityType ? `Focus on: ${activityType}` : 'Include various categories'}
-
-Format as JSON:
-{
-  "level": "${budgetLevel}",
-  "location": "${location}",
-  "currency": "USD",
-  "breakdown": {
-    "accommodation": { "low": 50, "high": 100, "average": 75, "suggestions": ["Hotel A", "Hotel B"] },
-    "food": { "low": 30, "high": 60, "average": 45, "suggestions": ["Restaurant A", "Restaurant B"] },
-    "transportation": { "low": 10, "high": 30, "average": 20, "suggestions": ["Metro", "Bus"] },
-    "activities": { "low": 20, "high": 50, "average": 35, "suggestions": ["Museum", "Park"] }
-  },
-  "dailyTotal": { "low": 110, "high": 240, "average": 175 },
-  "tips": ["Tip 1", "Tip 2", "Tip 3"]
-}`;
-
-    const response = await openai.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages: [
-        {
-          role: "system",
-          content: "You are a travel budget advisor providing realistic cost estimates."
-        },
-        { role: "user", content: prompt }
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 1000,
-      temperature: 0.5,
-    });
+    const response = await llm.chat('suggestions', renderPrompt(budgetBreakdownPrompt, {
+      location,
+      budgetLevel,
+      activityType,
+    }));
 
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const result = JSON.parse(response.content || '{}');
 
     const responseData = {
       success: true,
@@ -1652,51 +957,88 @@ Format as JSON:
   }
 });
 
-// POST /api/ai/trip-assistant - Conversational AI assistant for trip planning
+const tripAssistantSchema = z.object({
+  trip_id: z.union([z.number(), z.string()]).transform(Number).optional(),
+  question: z.string().min(1),
+  trip_context: z.any().optional(),
+  conversation_history: z.array(z.any()).optional()
+});
+
+const applyAssistantChangesSchema = z.object({
+  trip_id: z.number().int(),
+  actions: z.array(z.unknown()).min(1).max(50)
+});
+
+// POST /api/ai/trip-assistant - Answer a question about a trip, proposing edits as a changeset
 router.post("/trip-assistant", async (req, res) => {
   try {
-    const { trip_id, question, trip_context, conversation_history } = req.body;
+    const { trip_id, question, trip_context, conversation_history } = tripAssistantSchema.parse(req.body);
 
     if (!req.user) {
       return res.status(401).json({ success: false, error: "Unauthorized" });
     }
 
-    if (!question) {
-      return res.status(400).json({
-        success: false,
-        error: "Question is required"
-      });
+    const tripId = trip_id ?? Number(trip_context?.trip?.id ?? trip_context?.id);
+    const context = Number.isInteger(tripId) ? await tripAssistantService.loadContext(tripId, req.user.id) : null;
+    if (!context) {
+      return res.status(404).json({ success: false, error: "Trip not found" });
     }
 
-    // Import the tripAssistant function from openai.ts
-    const { tripAssistant } = await import("../openai");
-
-    // Call the trip assistant with context
-    const result = await tripAssistant(question, {
-      trip: trip_context,
-      conversationHistory: conversation_history || []
+    const reply = await tripAssistantService.ask(context, question, conversation_history);
+    res.json({
+      success: true,
+      answer: reply.answer,
+      changeset: reply.changes.length ? { trip_id: tripId, changes: reply.changes } : null
     });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: "Question is required", details: error.errors });
+    }
+    if (error instanceof AIQuotaExceededError) {
+      return res.status(429).json(quotaErrorBody(error));
+    }
+    logger.error("Trip assistant failed", { error });
+    res.status(500).json({
+      success: false,
+      error: "Failed to process your request"
+    });
+  }
+});
 
-    // Handle different response types
-    if (typeof result === 'string') {
-      res.json({
-        success: true,
-        answer: result,
-        suggestions: []
-      });
-    } else {
-      // Result contains activities (parsed itinerary)
-      res.json({
-        success: true,
-        answer: result.answer,
-        activities: result.activities || [],
-        suggestions: []
-      });
+// POST /api/ai/trip-assistant/apply - Apply a confirmed changeset from the assistant
+router.post("/trip-assistant/apply", async (req, res) => {
+  try {
+    const { trip_id, actions } = applyAssistantChangesSchema.parse(req.body);
+
+    if (!req.user) {
+      return res.status(401).json({ success: false, error: "Unauthorized" });
+    }
+
+    const context = await tripAssistantService.loadContext(trip_id, req.user.id);
+    if (!context) {
+      return res.status(404).json({ success: false, error: "Trip not found" });
     }
+
+    const result = await tripAssistantService.apply(context, req.user.id, actions);
+    res.json({ success: true, ...result });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: "Invalid request data", details: error.errors });
+    }
+    if (error instanceof InvalidActionsError) {
+      return res.status(400).json({ success: false, error: error.message, details: error.errors });
+    }
+    if (error instanceof ChangesetRejectedError) {
+      return res.status(409).json({
+        success: false,
+        error: "The trip changed since these changes were suggested. Ask again for an updated suggestion.",
+        details: { step: error.step, reason: error.reason, conflicts: error.conflicts }
+      });
+    }
+    logger.error("Applying assistant changes failed", { error });
     res.status(500).json({
       success: false,
-      error: "Failed to process your request"
+      error: "Failed to apply the changes"
     });
   }
 });
@@ -1710,26 +1052,14 @@ router.post("/recommend-tours", async (req, res) => {
       return res.status(401).json({ success: false, error: "Unauthorized" });
     }
 
-    const prompt = `Recommend the top 5 must-do tours and activities for a trip to ${destination} from ${startDate} to ${endDate}.
-    ${interests?.length > 0 ? `The traveler is interested in: ${interests.join(', ')}` : ''}
-
-    Focus on:
-    1. Most iconic and popular attractions
-    2. Unique local experiences
-    3. Best value for money
-    4. Activities suitable for the season
-    5. Mix of culture, food, and adventure
-
-    Provide specific tour recommendations with brief descriptions.`;
-
-    const response = await openai.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages: [{ role: "user", content: prompt }],
-      max_tokens: 500,
-      temperature: 0.7,
-    });
+    const response = await llm.chat('suggestions', renderPrompt(tourRecommendationsPrompt, {
+      destination,
+      startDate,
+      endDate,
+      interests,
+    }));
 
-    const content = response.choices[0].message.content || "";
+    const content = response.content || "";
 
     // Parse recommendations into array
     const recommendations = content
@@ -1760,406 +1090,21 @@ router.post("/generate-trip", async (req, res) => {
       return res.status(401).json({ success: false, error: "Unauthorized" });
     }
 
-    // For now, generate trip inline since businessTripGenerator is for business trips
-    // We'll create a consumer-focused generation instead
-
-    // Parse the prompt to extract trip requirements
-    const promptLower = prompt.toLowerCase();
-    
-    // Check if user is forcing trip generation with defaults
-    const forceGeneration = promptLower.includes("create the trip now") || 
-                           promptLower.includes("use reasonable defaults") ||
-                           promptLower.includes("just create it");
-
-    // Use AI to extract structured data from natural language prompt
-    const extractionPrompt = `Extract trip details from this request and return as JSON:
-"${prompt}"
-
-IMPORTANT: Extract dates in any format (like "next week", "June 15-22", "15 days from now") and convert to YYYY-MM-DD format.
-For relative dates, use today's date as reference: ${new Date().toISOString().split('T')[0]}
-
-Return format:
-{
-  "destination": "city name",
-  "startDate": "YYYY-MM-DD",
-  "endDate": "YYYY-MM-DD",
-  "budget": number (extract any amount mentioned, or use 3000 as default),
-  "groupSize": number (default to 2 if not specified),
-  "tripPurpose": "business/leisure/mixed",
-  "preferences": {
-    "accommodationType": "luxury/business/budget",
-    "activityTypes": ["type1", "type2"],
-    "foodTypes": ["cuisine1", "cuisine2"]
-  }
-}
-
-Be aggressive in extracting information. For example:
-- "I want to go to Paris" -> destination: "Paris"
-- "next week" -> calculate actual dates
-- "for a week" -> 7 days from start date
-- "around $5000" -> budget: 5000
-- If dates are vague but destination is clear, default to 7 days starting 2 weeks from today
-- If budget isn't mentioned, use 3000 as default`;
-
-    const extractionResponse = await openai.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages: [{ role: "user", content: extractionPrompt }],
-      response_format: { type: "json_object" },
-      temperature: 0.3,
-    });
-
-    const extractedData = JSON.parse(extractionResponse.choices[0].message.content || "{}");
-
-    // Check if we need more information - only ask if destination is missing
-    // We can generate a trip with defaults for dates and budget
-    const missingFields = [];
-    if (!extractedData.destination && !forceGeneration) missingFields.push("destination");
-    
-    // Auto-fill destination if forcing and missing
-    if (!extractedData.destination && forceGeneration) {
-      // Try to extract any location mentioned or default to a popular destination
-      const locationMatch = prompt.match(/\b(paris|london|tokyo|rome|barcelona|amsterdam|new york|los angeles|miami|hawaii|bali|thailand|dubai)\b/i);
-      extractedData.destination = locationMatch ? locationMatch[0] : "Paris";
-      logger.info(`Auto-filled destination: ${extractedData.destination}`);
-    }
-    
-    // Auto-fill missing dates if we have a destination
-    if ((extractedData.destination || forceGeneration) && !extractedData.startDate) {
-      // Default to 2 weeks from now for 7 days
-      const defaultStart = new Date();
-      defaultStart.setDate(defaultStart.getDate() + 14);
-      extractedData.startDate = defaultStart.toISOString().split('T')[0];
-      
-      const defaultEnd = new Date(defaultStart);
-      defaultEnd.setDate(defaultEnd.getDate() + 6);
-      extractedData.endDate = defaultEnd.toISOString().split('T')[0];
-      
-      logger.info(`Auto-filled dates: ${extractedData.startDate} to ${extractedData.endDate}`);
-    }
-    
-    // Budget is no longer used for AI generation since we don't have real prices
-
-    if (missingFields.length > 0) {
-      // Return questions to gather missing information
-      const questions = `I'd love to help plan your trip! To create the perfect itinerary, could you provide:
-
-${missingFields.map((field, i) => `${i + 1}. What's your ${field}?`).join('\n')}
-
-Any other preferences like:
-- Preferred hotel type (luxury, business, budget)?
-- Activities you enjoy?
-- Dietary restrictions?`;
-
-      return res.json({
-        type: "questions",
-        message: questions,
-        conversation: [
-          ...(conversation || []),
-          { role: "user", content: prompt },
-          { role: "assistant", content: questions }
-        ]
-      });
-    }
-    
-    // All required info is present - we're generating the trip immediately
-    logger.info(`Generating trip for ${extractedData.destination} from ${extractedData.startDate} to ${extractedData.endDate}`);
-
-    // Calculate trip duration
-    const startDate = new Date(extractedData.startDate);
-    const endDate = new Date(extractedData.endDate);
-    const tripDurationDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-    
-    // For longer trips, we'll generate activities in chunks to avoid token limits
-    const MAX_DAYS_PER_REQUEST = 4; // Generate 4 days at a time to stay within token limits
-    
-    // Generate vacation itinerary using AI
-    const itineraryPrompt = `Create a detailed ${extractedData.tripPurpose || 'vacation'} itinerary for:
-Destination: ${extractedData.destination}
-Dates: ${extractedData.startDate} to ${extractedData.endDate} (${tripDurationDays} days)
-Travelers: ${extractedData.groupSize || 2} people
-Accommodation preference: ${extractedData.preferences?.accommodationType || 'mid-range'}
-Activities: ${extractedData.preferences?.activityTypes?.join(', ') || 'sightseeing, culture, relaxation'}
-Food preferences: ${extractedData.preferences?.foodTypes?.join(', ') || 'local cuisine, popular restaurants'}
-
-${tripDurationDays > MAX_DAYS_PER_REQUEST ? 
-  `IMPORTANT: This is a ${tripDurationDays}-day trip. For now, provide overview information and activities for the FIRST ${MAX_DAYS_PER_REQUEST} DAYS ONLY. Focus on quality over quantity.` : 
-  'Please provide a complete vacation itinerary.'}
-
-Please provide:
-1. Recommended flights (departure/arrival times and airlines)
-2. Hotel suggestions (2-3 options) - use REAL hotel names or chains
-3. Daily activities schedule (morning, afternoon, evening) ${tripDurationDays > MAX_DAYS_PER_REQUEST ? `for days 1-${MAX_DAYS_PER_REQUEST}` : ''} - use REAL attractions
-4. Restaurant recommendations - use ACTUAL restaurant names you know exist
-5. Transportation tips
-
-CRITICAL: Use ONLY real places from your knowledge base. NO generic names!
-
-Format as JSON with this structure:
-{
-  "tripSummary": {
-    "title": "Trip title",
-    "description": "Brief description",
-    "duration": number_of_days,
-    "highlights": ["highlight1", "highlight2"]
-  },
-  "flights": [
-    {
-      "airline": "Airline name",
-      "flightNumber": "XX123",
-      "route": "NYC to Paris",
-      "departure": "2024-03-15 10:00 AM",
-      "arrival": "2024-03-15 11:00 PM",
-      "cabin": "Economy"
-    }
-  ],
-  "accommodation": [
-    {
-      "name": "Hotel name",
-      "address": "Address",
-      "stars": 4,
-      "checkIn": "2024-03-15",
-      "checkOut": "2024-03-18",
-      "amenities": ["WiFi", "Pool", "Breakfast"]
-    }
-  ],
-  "activities": [
-    {
-      "date": "2024-03-16",
-      "time": "09:00",
-      "title": "REAL activity/attraction name (e.g., 'Sigmaringen Castle' not 'Local Castle')",
-      "description": "Description",
-      "duration": "2 hours",
-      "location": "Location",
-      "category": "sightseeing",
-      "bookingRequired": true
-    }
-  ],
-  "meals": [
-    {
-      "date": "2024-03-16",
-      "time": "12:30",
-      "restaurant": "REAL restaurant name that exists (not generic like 'Local Restaurant')",
-      "cuisine": "French",
-      "location": "Address",
-      "type": "lunch",
-      "mustTry": "Dish name"
-    }
-  ],
-  "transportation": [
-    {
-      "type": "Airport Transfer",
-      "description": "Taxi from airport to hotel"
-    }
-  ],
-  "recommendations": [
-    "Pack light layers for variable weather",
-    "Book popular restaurants in advance",
-    "Get city tourist pass for savings"
-  ],
-  "weatherConsiderations": {
-    "temperature": "15-22°C",
-    "conditions": "Partly cloudy with occasional rain",
-    "packingTips": ["Umbrella", "Light jacket"]
-  }
-}`;
-
-    const itineraryResponse = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo", // Using 3.5 for cost optimization
-      messages: [{ role: "user", content: itineraryPrompt }],
-      response_format: { type: "json_object" },
-      temperature: 0.7,
-      max_tokens: 1500, // Reduced for cost efficiency
-    });
-
-    const generatedTrip = JSON.parse(itineraryResponse.choices[0].message.content || "{}");
-
-    // If trip is longer than MAX_DAYS_PER_REQUEST, generate additional days
-    let allActivities = [...(generatedTrip.activities || [])];
-    let allMeals = [...(generatedTrip.meals || [])];
-    
-    if (tripDurationDays > MAX_DAYS_PER_REQUEST) {
-      // Track already suggested attractions
-      const visitedAttractions = new Set();
-      
-      // Add initial activities to visited list
-      for (const activity of allActivities) {
-        if (activity.title && !activity.title.toLowerCase().includes('breakfast') && 
-            !activity.title.toLowerCase().includes('lunch') && 
-            !activity.title.toLowerCase().includes('dinner')) {
-          visitedAttractions.add(activity.title);
-        }
-      }
-      
-      // Generate remaining days in chunks
-      for (let dayStart = MAX_DAYS_PER_REQUEST + 1; dayStart <= tripDurationDays; dayStart += MAX_DAYS_PER_REQUEST) {
-        const dayEnd = Math.min(dayStart + MAX_DAYS_PER_REQUEST - 1, tripDurationDays);
-        
-        // Calculate dates for this chunk
-        const chunkStartDate = new Date(startDate);
-        chunkStartDate.setDate(chunkStartDate.getDate() + dayStart - 1);
-        const chunkEndDate = new Date(startDate);
-        chunkEndDate.setDate(chunkEndDate.getDate() + dayEnd - 1);
-        
-        const alreadyVisitedList = Array.from(visitedAttractions).join(', ');
-        
-        const additionalDaysPrompt = `Continue creating the itinerary for days ${dayStart}-${dayEnd} of the trip to ${extractedData.destination}.
-        
-CRITICAL: You MUST suggest REAL, EXISTING places that tourists actually visit.
-Use actual tourist attractions, real restaurants with good reviews, and genuine hotels.
-DO NOT make up generic names like "Local Restaurant" or "Traditional Bakery".
-        
-Previous context:
-- Trip dates: ${extractedData.startDate} to ${extractedData.endDate}
-- Already planned: Days 1-${dayStart - 1}
-- Now planning: Days ${dayStart}-${dayEnd} (${chunkStartDate.toISOString().split('T')[0]} to ${chunkEndDate.toISOString().split('T')[0]})
-- Budget remaining: Proportional amount for remaining days
-- Same traveler preferences as before
-${alreadyVisitedList ? `\nIMPORTANT: These attractions have already been planned, DO NOT repeat them: ${alreadyVisitedList}` : ''}
-
-Create varied and interesting activities for days ${dayStart}-${dayEnd}, with completely NEW attractions not mentioned above.
-
-Return ONLY a JSON object with this structure:
-{
-  "activities": [
-    {
-      "date": "YYYY-MM-DD",
-      "time": "HH:MM",
-      "title": "Activity name",
-      "description": "Description",
-      "duration": "X hours",
-      "location": "Location",
-      "category": "sightseeing/culture/food/relaxation"
-    }
-  ],
-  "meals": [
-    {
-      "date": "YYYY-MM-DD",
-      "time": "HH:MM",
-      "restaurant": "Restaurant name",
-      "cuisine": "Type",
-      "location": "Address",
-      "type": "breakfast/lunch/dinner"
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+      return res.status(400).json({ success: false, error: "Prompt is required" });
     }
-  ]
-}`;
 
-        try {
-          const additionalResponse = await openai.chat.completions.create({
-            model: OPENAI_MODEL,
-            messages: [{ role: "user", content: additionalDaysPrompt }],
-            response_format: { type: "json_object" },
-            temperature: 0.8, // Slightly higher for variety
-            max_tokens: 1500,
-          });
-          
-          const additionalDays = JSON.parse(additionalResponse.choices[0].message.content || "{}");
-          
-          // Add the additional activities and meals
-          if (additionalDays.activities) {
-            // Track new attractions to avoid future duplicates
-            for (const activity of additionalDays.activities) {
-              if (activity.title && !activity.title.toLowerCase().includes('breakfast') && 
-                  !activity.title.toLowerCase().includes('lunch') && 
-                  !activity.title.toLowerCase().includes('dinner')) {
-                visitedAttractions.add(activity.title);
-              }
-            }
-            allActivities.push(...additionalDays.activities);
-          }
-          if (additionalDays.meals) {
-            allMeals.push(...additionalDays.meals);
-          }
-        } catch (error) {
-          logger.error(`Failed to generate days ${dayStart}-${dayEnd}:`, error);
-          // Continue with what we have
-        }
-      }
-    }
-    
-    // Update generatedTrip with all activities and meals
-    generatedTrip.activities = allActivities;
-    generatedTrip.meals = allMeals;
-
-    // Format activities for frontend consumption
-    const formattedActivities = allActivities.map((activity: any, index: number) => ({
-      id: `ai-${index}`,
-      title: activity.title || activity.name,
-      description: activity.description,
-      date: activity.date,
-      time: activity.time || activity.startTime,
-      duration: activity.duration,
-      location: activity.location,
-      category: activity.category || "activity",
-      price: activity.price || 0,
-      bookingUrl: activity.bookingUrl
-    }));
-
-    // If a tripId is provided, save the activities to the trip
-    if (tripId) {
-      let defaultTimeIndex = 0;
-      const defaultTimes = ['09:00', '11:00', '14:00', '16:00', '19:00', '21:00'];
-
-      for (const activity of formattedActivities) {
-        // Ensure activity has a time, generate smart default if missing
-        let activityTime = activity.time;
-        if (!activityTime) {
-          // Check for meal times based on title/category
-          const title = (activity.title || '').toLowerCase();
-          const category = (activity.category || '').toLowerCase();
-
-          if (title.includes('breakfast') || category === 'breakfast') {
-            activityTime = '08:00';
-          } else if (title.includes('lunch') || category === 'lunch') {
-            activityTime = '12:30';
-          } else if (title.includes('dinner') || category === 'dinner') {
-            activityTime = '19:00';
-          } else if (title.includes('check-in')) {
-            activityTime = '15:00';
-          } else if (title.includes('check-out')) {
-            activityTime = '11:00';
-          } else {
-            // Use rotating default times
-            activityTime = defaultTimes[defaultTimeIndex % defaultTimes.length];
-            defaultTimeIndex++;
-          }
-        }
-
-        await db.insert(activities).values({
-          trip_id: parseInt(tripId),
-          title: activity.title,
-          notes: activity.description,
-          date: activity.date || null,
-          time: activityTime,
-          location_name: activity.location,
-          category: activity.category,
-          price: activity.price ? activity.price.toString() : undefined,
-          booking_url: activity.bookingUrl,
-          created_at: new Date(),
-          updated_at: new Date()
-        });
+    // Generated activities are saved to the trip, so it has to be editable
+    const targetTripId = tripId ? parseInt(tripId) : null;
+    if (targetTripId) {
+      const access = await collaborationService.getTripAccess(targetTripId, req.user.id);
+      if (access !== 'owner' && access !== 'editor') {
+        return res.status(404).json({ success: false, error: "Trip not found or access denied" });
       }
     }
 
-    res.json({
-      type: "itinerary",
-      success: true,
-      tripSummary: generatedTrip.tripSummary,
-      flights: generatedTrip.flights,
-      accommodation: generatedTrip.accommodation,
-      activities: formattedActivities,
-      meals: allMeals,
-      groundTransportation: generatedTrip.transportation,
-      recommendations: generatedTrip.recommendations,
-      weatherConsiderations: generatedTrip.weatherConsiderations,
-      message: `Perfect! I've created your ${tripDurationDays}-day ${extractedData.destination} itinerary with ${formattedActivities.length} activities, ${allMeals.length} dining recommendations, and complete travel arrangements!`,
-      savedToTrip: !!tripId,
-      debug: {
-        tripDurationDays,
-        activitiesGenerated: formattedActivities.length,
-        mealsGenerated: allMeals.length
-      }
-    });
-
+    await respondWithJob(req, res, 'trip', "Failed to generate trip itinerary",
+      context => generateTrip(context, { prompt, conversation, tripId: targetTripId }));
   } catch (error) {
     res.status(500).json({
       success: false,
@@ -2168,6 +1113,42 @@ Return ONLY a JSON object with this structure:
   }
 });
 
+// GET /api/ai/jobs/:id - Status of a generation job, with its result once done
+router.get("/jobs/:id", (req, res) => {
+  const job = generationJobs.get(req.params.id, req.user!.id);
+  if (!job) {
+    return res.status(404).json({ success: false, error: "Generation job not found" });
+  }
+  res.json({ success: true, job: job.summary() });
+});
+
+// GET /api/ai/jobs/:id/events - Resume a job's event stream after Last-Event-ID
+router.get("/jobs/:id/events", (req, res) => {
+  const job = generationJobs.get(req.params.id, req.user!.id);
+  if (!job) {
+    return res.status(404).json({ success: false, error: "Generation job not found" });
+  }
+  generationJobs.stream(job, req, res, lastEventId(req));
+});
+
+// POST /api/ai/jobs/:id/cancel - Stop a job before it saves anything
+router.post("/jobs/:id/cancel", (req, res) => {
+  const job = generationJobs.get(req.params.id, req.user!.id);
+  if (!job) {
+    return res.status(404).json({ success: false, error: "Generation job not found" });
+  }
+  if (!generationJobs.cancel(job)) {
+    return res.status(409).json({
+      success: false,
+      error: job.committing && job.status === 'running'
+        ? "The itinerary is already being saved"
+        : "Generation has already finished",
+      job: job.summary()
+    });
+  }
+  res.json({ success: true });
+});
+
 // POST /api/ai/regenerate-activity - Generate a replacement activity
 router.post("/regenerate-activity", async (req, res) => {
   try {
@@ -2270,8 +1251,19 @@ router.post("/regenerate-activity", async (req, res) => {
       )
     );
     
+    // Prefer places open at the activity's time
+    const hoursContext = tripOpeningHoursContext(trip);
+    const openPlaces = oldActivity.date && oldActivity.time
+      ? availablePlaces.filter(place => isOpenForVisit(place.opening_hours, {
+          date: oldActivity.date!,
+          time: oldActivity.time!,
+          title: oldActivity.title,
+          tag: oldActivity.tag,
+        }, hoursContext))
+      : availablePlaces;
+
     // Pick a random place from available options
-    const placesToConsider = availablePlaces.length > 0 ? availablePlaces : placePool;
+    const placesToConsider = openPlaces.length > 0 ? openPlaces : availablePlaces.length > 0 ? availablePlaces : placePool;
     const selectedPlace = placesToConsider[Math.floor(Math.random() * Math.min(placesToConsider.length, 10))];
     
     if (!selectedPlace) {
@@ -2299,19 +1291,23 @@ router.post("/regenerate-activity", async (req, res) => {
       longitude: selectedPlace.lon
     };
     
-    // Update the activity
-    await db
-      .update(activities)
-      .set({
+    // Update the activity (recorded in the trip history as an AI change)
+    await collaborationService.applyOperation(trip_id, req.user.id, {
+      type: 'update_activity',
+      activity_id,
+      fields: {
         title: newActivityData.title,
         location_name: newActivityData.location_name || oldActivity.location_name,
         notes: newActivityData.notes || '',
         tag: newActivityData.tag || oldActivity.tag,
         latitude: newActivityData.latitude ? String(newActivityData.latitude) : oldActivity.latitude,
         longitude: newActivityData.longitude ? String(newActivityData.longitude) : oldActivity.longitude,
-        updated_at: new Date()
-      })
-      .where(eq(activities.id, activity_id));
+        opening_hours: selectedPlace.opening_hours || null,
+      },
+    }, {
+      change: { source: 'ai', description: `Regenerated "${oldActivity.title}"` },
+      verification: verificationColumns(pickedFromOsm(selectedPlace)),
+    });
 
     // Increment regeneration counter
     await db
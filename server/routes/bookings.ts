@@ -0,0 +1,142 @@
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import path from 'path';
+import { z } from 'zod';
+import { jwtAuthMiddleware } from '../middleware/jwtAuth';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import {
+  parseBookingSources,
+  importParsedBookings,
+  parsedBookingSchema,
+  ImportSource,
+} from '../services/bookingImportService';
+
+const router = Router();
+
+router.use(jwtAuthMiddleware);
+
+const ALLOWED_EXTENSIONS = ['.eml', '.ics', '.txt'];
+const ALLOWED_TYPES = ['message/rfc822', 'text/calendar', 'application/ics', 'text/plain'];
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max
+    files: 5,
+  },
+  fileFilter: (req, file, cb) => {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (ALLOWED_EXTENSIONS.includes(extension) || ALLOWED_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only .eml, .ics and .txt files are allowed.'));
+    }
+  },
+});
+
+function sourceKind(file: Express.Multer.File): ImportSource['kind'] {
+  const extension = path.extname(file.originalname).toLowerCase();
+  if (extension === '.ics' || file.mimetype.includes('calendar') || file.mimetype === 'application/ics') return 'ics';
+  if (extension === '.eml' || file.mimetype === 'message/rfc822') return 'eml';
+  return 'text';
+}
+
+// JSON bodies are snake_cased by the case conversion middleware; the import schema is camelCase
+function toCamelKeys(value: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [key.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase()), v])
+  );
+}
+
+async function loadOwnedTrip(req: Request, res: Response) {
+  const tripId = parseInt(req.params.trip_id);
+  if (isNaN(tripId)) {
+    res.status(400).json({ message: 'Invalid trip ID' });
+    return null;
+  }
+
+  const trip = await storage.getTrip(tripId);
+  if (!trip) {
+    res.status(404).json({ message: 'Trip not found' });
+    return null;
+  }
+
+  if (trip.user_id !== req.user?.id) {
+    res.status(403).json({ message: "Access denied: You don't have permission to access this trip" });
+    return null;
+  }
+
+  return trip;
+}
+
+// GET /api/bookings/trip/:trip_id - Bookings attached to a trip
+router.get('/trip/:trip_id', async (req: Request, res: Response) => {
+  try {
+    const trip = await loadOwnedTrip(req, res);
+    if (!trip) return;
+
+    const tripBookings = await storage.getBookingsByTripId(trip.id);
+    res.json(tripBookings);
+  } catch (error) {
+    logger.error('Error fetching trip bookings', { tripId: req.params.trip_id, error });
+    res.status(500).json({ message: 'Could not fetch bookings' });
+  }
+});
+
+/**
+ * POST /api/bookings/trip/:trip_id/import
+ *
+ * Accepts up to five .eml/.ics/.txt files (field "files") and/or pasted email
+ * text (field "text"). With preview=true the parsed bookings are returned
+ * without saving; posting them back as "bookings" imports the edited preview.
+ */
+router.post('/trip/:trip_id/import', upload.array('files', 5), async (req: Request, res: Response) => {
+  try {
+    const trip = await loadOwnedTrip(req, res);
+    if (!trip) return;
+
+    const userId = req.user!.id;
+
+    if (Array.isArray(req.body.bookings)) {
+      const parsed = z.array(parsedBookingSchema).safeParse(req.body.bookings.map(toCamelKeys));
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid booking data', errors: parsed.error.errors });
+      }
+
+      const result = await importParsedBookings(trip, userId, parsed.data);
+      return res.status(201).json(result);
+    }
+
+    const sources: ImportSource[] = ((req.files as Express.Multer.File[]) || []).map(file => ({
+      kind: sourceKind(file),
+      filename: file.originalname,
+      content: file.buffer,
+    }));
+    if (typeof req.body.text === 'string' && req.body.text.trim()) {
+      sources.push({ kind: 'text', content: Buffer.from(req.body.text, 'utf8') });
+    }
+
+    if (sources.length === 0) {
+      return res.status(400).json({ message: 'Upload a confirmation email or calendar file, or paste the email text' });
+    }
+
+    const { bookings, warnings } = await parseBookingSources(sources, {
+      referenceDate: new Date(`${trip.start_date}T00:00:00Z`),
+      timeZone: trip.timezone,
+    });
+
+    const preview = req.body.preview === true || req.body.preview === 'true' || req.query.preview === 'true';
+    if (preview || bookings.length === 0) {
+      return res.json({ bookings, warnings });
+    }
+
+    const result = await importParsedBookings(trip, userId, bookings);
+    res.status(201).json({ ...result, warnings: [...warnings, ...result.warnings] });
+  } catch (error) {
+    logger.error('Error importing bookings', { tripId: req.params.trip_id, error });
+    res.status(500).json({ message: 'Could not import bookings' });
+  }
+});
+
+export default router;
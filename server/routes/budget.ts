@@ -1,11 +1,31 @@
 import { Router } from "express";
+import multer from "multer";
 import { storage } from "../storage";
-import { jwtAuthMiddleware as jwtAuth } from "../middleware/jwtAuth";
+import { insertActivitySchema } from "@shared/schema";
+import { collaborationService } from "../services/collaborationService";
+import { jwtAuthMiddleware as jwtAuth, requireAdminRole } from "../middleware/jwtAuth";
 import { z } from "zod";
 import { logger } from "../utils/logger";
+import { currencyService, normalizeCurrencyCode, parseRatesCsv, roundMoney, toDateString } from "../services/currencyService";
+import { settleUpService, normalizeSplit, SETTLEMENT_METHODS } from "../services/settleUpService";
+import { receiptService, toExpenseDraft, RECEIPT_MIME_TYPES } from "../services/receiptService";
 
 const router = Router();
 
+const receiptUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max
+  },
+  fileFilter: (req, file, cb) => {
+    if (RECEIPT_MIME_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only JPEG, PNG, WebP and PDF receipts are allowed.'));
+    }
+  },
+});
+
 // Budget update schema
 const updateBudgetSchema = z.object({
   budget: z.number().min(0),
@@ -30,6 +50,7 @@ const updateActivityCostSchema = z.object({
   is_paid: z.boolean().optional(),
   paid_by: z.number().optional(),
   currency: z.string().optional(),
+  version: z.number().int().optional(), // Activity version the edit was made against
 });
 
 // Group expense schema
@@ -39,19 +60,71 @@ const createGroupExpenseSchema = z.object({
   description: z.string(),
   total_amount: z.number().min(0),
   currency: z.string().optional(),
+  expense_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   paid_by: z.number(),
   split_type: z.enum(['equal', 'custom', 'percentage']).optional(),
   split_details: z.array(z.object({
     user_id: z.number(),
-    amount: z.number().min(0),
+    amount: z.number().min(0).default(0), // Filled in from the percentage for percentage splits
     percentage: z.number().min(0).max(100).optional(),
     is_settled: z.boolean().optional(),
   })),
   category: z.string().optional(),
   receipt_url: z.string().url().optional(),
+  receipt_id: z.number().int().optional(), // Uploaded receipt to attach
   notes: z.string().optional(),
 });
 
+const currencyCode = z.string().regex(/^[A-Za-z]{3}$/).transform(code => code.toUpperCase());
+const rateDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// Manually loaded exchange rates (JSON entries or CSV text)
+const loadRatesSchema = z.object({
+  rates: z.array(z.object({
+    base_currency: currencyCode,
+    quote_currency: currencyCode,
+    rate: z.number().positive(),
+    rate_date: rateDate,
+  })).optional(),
+  csv: z.string().optional(),
+});
+
+const convertQuerySchema = z.object({
+  amount: z.coerce.number(),
+  from: currencyCode,
+  to: currencyCode,
+  date: rateDate.optional(),
+});
+
+const updateGroupExpenseSchema = createGroupExpenseSchema.omit({ trip_id: true }).partial();
+
+// Settle-up ledger entry
+const settlementSchema = z.object({
+  from_user_id: z.number().int(),
+  to_user_id: z.number().int(),
+  amount: z.number().positive(),
+  currency: z.string().optional(),
+  method: z.enum(SETTLEMENT_METHODS).optional(),
+  settled_on: rateDate.optional(),
+  note: z.string().max(500).optional(),
+  expense_id: z.number().int().optional(),
+}).refine(data => data.from_user_id !== data.to_user_id, { message: "A payment needs two different people" });
+
+// Owner or accepted collaborator
+async function canAccessTrip(tripId: number, userId: number): Promise<boolean> {
+  const trip = await storage.getTripById(tripId);
+  if (!trip) return false;
+  if (trip.user_id === userId) return true;
+
+  const collaborators = await storage.getTripCollaborators(tripId);
+  return collaborators.some(c => c.user_id === userId && c.status === 'accepted');
+}
+
+// Receipts are private; this route checks trip access before serving the file
+function receiptFileUrl(receiptId: number): string {
+  return `/api/budget/receipts/${receiptId}/file`;
+}
+
 // Update trip budget
 router.put("/trips/:tripId/budget", jwtAuth, async (req, res) => {
   try {
@@ -113,21 +186,36 @@ router.put("/activities/:activityId/cost", jwtAuth, async (req, res) => {
     if (!activity) {
       return res.status(404).json({ error: "Activity not found" });
     }
-    
-    // Check if user has access to the trip
-    const trip = await storage.getTripById(activity.trip_id);
-    if (!trip || trip.user_id !== userId) {
-      const collaborators = await storage.getTripCollaborators(activity.trip_id);
-      const isCollaborator = collaborators.some(c => c.user_id === userId && c.status === 'accepted');
-      if (!isCollaborator) {
-        return res.status(403).json({ error: "Access denied" });
-      }
+
+    // Viewers can see costs but not change them
+    const access = await collaborationService.getTripAccess(activity.trip_id, userId);
+    if (access !== 'owner' && access !== 'editor') {
+      return res.status(403).json({ error: "Access denied" });
     }
 
-    const costData = updateActivityCostSchema.parse(req.body);
-    const updated = await storage.updateActivityCost(activityId, costData);
-    
-    res.json(updated);
+    const { estimated_cost, category, version, ...costData } = updateActivityCostSchema.parse(req.body);
+    const fields = insertActivitySchema.partial().parse({
+      ...costData,
+      price: estimated_cost?.toString(),
+      actual_cost: costData.actual_cost?.toString(),
+      cost_category: category,
+    });
+
+    // Recorded and broadcast like any other activity edit
+    const result = await collaborationService.applyOperation(activity.trip_id, userId, {
+      type: 'update_activity',
+      activity_id: activityId,
+      base_version: version,
+      fields: Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)),
+    }, { rejectOnConflict: true });
+
+    if (result.status === 'rejected') {
+      return result.conflicts.length > 0
+        ? res.status(409).json({ error: result.reason || "Activity was changed by someone else", conflicts: result.conflicts, activity: result.current })
+        : res.status(404).json({ error: "Activity not found" });
+    }
+
+    res.json(result.current);
   } catch (error: any) {
     logger.error("Error updating activity cost:", error);
     if (error.name === 'ZodError') {
@@ -167,7 +255,29 @@ router.post("/group-expenses", jwtAuth, async (req, res) => {
       }));
     }
 
+    const split = normalizeSplit(
+      expenseData.total_amount,
+      expenseData.split_type || 'equal',
+      expenseData.split_details,
+      normalizeCurrencyCode(expenseData.currency)
+    );
+    if (split.errors.length > 0) {
+      return res.status(400).json({ error: "Invalid split", details: split.errors });
+    }
+    expenseData.split_details = split.details.map(detail => ({ ...detail, is_settled: detail.is_settled ?? false }));
+
+    if (expenseData.receipt_id) {
+      const receipt = await receiptService.getReceipt(expenseData.receipt_id);
+      if (!receipt || receipt.trip_id !== expenseData.trip_id) {
+        return res.status(400).json({ error: "Receipt does not belong to this trip" });
+      }
+      expenseData.receipt_url = receiptFileUrl(receipt.id);
+    }
+
     const expense = await storage.createGroupExpense(expenseData);
+    if (expenseData.receipt_id) {
+      await receiptService.attachToExpense(expenseData.receipt_id, expense.trip_id, expense.id);
+    }
     res.json(expense);
   } catch (error: any) {
     logger.error("Error creating group expense:", error);
@@ -207,15 +317,51 @@ router.put("/group-expenses/:id", jwtAuth, async (req, res) => {
   try {
     const expenseId = parseInt(req.params.id);
     const userId = req.user!.id;
-    
-    // Get expense to check access
-    const expenses = await storage.getGroupExpensesByTripId(0); // Need to add getGroupExpenseById
-    // For now, we'll skip detailed validation
-    
-    const updated = await storage.updateGroupExpense(expenseId, req.body);
+
+    const expense = await settleUpService.getExpense(expenseId);
+    if (!expense) {
+      return res.status(404).json({ error: "Expense not found" });
+    }
+    if (!(await canAccessTrip(expense.trip_id, userId))) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const updates = updateGroupExpenseSchema.parse(req.body);
+
+    // Re-check the split against the new total whenever either changes
+    if (updates.total_amount !== undefined || updates.split_details || updates.split_type) {
+      const split = normalizeSplit(
+        updates.total_amount ?? Number(expense.total_amount),
+        updates.split_type || (expense.split_type as 'equal' | 'custom' | 'percentage') || 'equal',
+        updates.split_details || expense.split_details,
+        normalizeCurrencyCode(updates.currency || expense.currency)
+      );
+      if (split.errors.length > 0) {
+        return res.status(400).json({ error: "Invalid split", details: split.errors });
+      }
+      updates.split_details = split.details.map(detail => ({ ...detail, is_settled: detail.is_settled ?? false }));
+    }
+
+    const { receipt_id: receiptId, ...fields } = updates;
+    if (receiptId) {
+      const receipt = await receiptService.getReceipt(receiptId);
+      if (!receipt || receipt.trip_id !== expense.trip_id) {
+        return res.status(400).json({ error: "Receipt does not belong to this trip" });
+      }
+      fields.receipt_url = receiptFileUrl(receipt.id);
+      await receiptService.attachToExpense(receiptId, expense.trip_id, expenseId);
+    }
+
+    const updated = await storage.updateGroupExpense(expenseId, {
+      ...fields,
+      total_amount: fields.total_amount !== undefined ? String(fields.total_amount) : undefined,
+    });
     res.json(updated);
   } catch (error: any) {
     logger.error("Error updating group expense:", error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: error.errors });
+    }
     res.status(500).json({ error: "Failed to update group expense" });
   }
 });
@@ -225,8 +371,15 @@ router.delete("/group-expenses/:id", jwtAuth, async (req, res) => {
   try {
     const expenseId = parseInt(req.params.id);
     const userId = req.user!.id;
-    
-    // For now, we'll skip detailed validation
+
+    const expense = await settleUpService.getExpense(expenseId);
+    if (!expense) {
+      return res.status(404).json({ error: "Expense not found" });
+    }
+    if (!(await canAccessTrip(expense.trip_id, userId))) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
     const deleted = await storage.deleteGroupExpense(expenseId);
     res.json({ success: deleted });
   } catch (error: any) {
@@ -235,13 +388,24 @@ router.delete("/group-expenses/:id", jwtAuth, async (req, res) => {
   }
 });
 
-// Settle group expense
+// Settle group expense: records each outstanding share as a payment to the payer
 router.post("/group-expenses/:id/settle", jwtAuth, async (req, res) => {
   try {
     const expenseId = parseInt(req.params.id);
     const userId = req.user!.id;
-    
-    const settled = await storage.settleGroupExpense(expenseId);
+
+    const expense = await settleUpService.getExpense(expenseId);
+    if (!expense) {
+      return res.status(404).json({ error: "Expense not found" });
+    }
+    if (!(await canAccessTrip(expense.trip_id, userId))) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+    if (expense.is_settled) {
+      return res.status(409).json({ error: "Expense is already settled" });
+    }
+
+    const settled = await settleUpService.settleExpense(expense, userId);
     res.json(settled);
   } catch (error: any) {
     logger.error("Error settling group expense:", error);
@@ -273,6 +437,250 @@ router.get("/trips/:tripId/expense-summary", jwtAuth, async (req, res) => {
   }
 });
 
+// Exchange rates against a base currency on a date
+router.get("/currencies/rates", jwtAuth, async (req, res) => {
+  try {
+    const base = normalizeCurrencyCode(req.query.base as string | undefined);
+    const date = rateDate.safeParse(req.query.date).success ? req.query.date as string : toDateString(new Date());
+
+    const table = await currencyService.getRateTable();
+    const rates: Record<string, { rate: number; rate_date: string }> = {};
+    for (const currency of table.currencies()) {
+      if (currency === base) continue;
+      const rate = table.getRate(base, currency, date);
+      if (rate) rates[currency] = rate;
+    }
+
+    res.json({ base, date, rates });
+  } catch (error: any) {
+    logger.error("Error getting exchange rates:", error);
+    res.status(500).json({ error: "Failed to get exchange rates" });
+  }
+});
+
+// Convert an amount at the rate on a date
+router.get("/currencies/convert", jwtAuth, async (req, res) => {
+  try {
+    const { amount, from, to, date } = convertQuerySchema.parse(req.query);
+    const table = await currencyService.getRateTable();
+    const converted = table.convert(amount, from, to, date || toDateString(new Date()));
+
+    if (!converted) {
+      return res.status(404).json({ error: `No exchange rate from ${from} to ${to}` });
+    }
+
+    res.json({ ...converted, amount: roundMoney(converted.amount, to), from, to });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: error.errors });
+    }
+    logger.error("Error converting currency:", error);
+    res.status(500).json({ error: "Failed to convert currency" });
+  }
+});
+
+// Load exchange rates (admin only)
+router.post("/currencies/rates", jwtAuth, requireAdminRole, async (req, res) => {
+  try {
+    const { rates = [], csv } = loadRatesSchema.parse(req.body);
+    const parsed = csv ? parseRatesCsv(csv) : { rates: [], errors: [] };
+
+    if (parsed.errors.length > 0) {
+      return res.status(400).json({ error: "Invalid rates CSV", details: parsed.errors });
+    }
+
+    const loaded = await currencyService.upsertRates([...rates, ...parsed.rates], csv ? 'import' : 'manual');
+    res.json({ loaded });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: error.errors });
+    }
+    logger.error("Error loading exchange rates:", error);
+    res.status(500).json({ error: "Failed to load exchange rates" });
+  }
+});
+
+// Settle-up view: balances, fewest transfers to clear them, and the payment ledger
+router.get("/trips/:tripId/settle-up", jwtAuth, async (req, res) => {
+  try {
+    const tripId = parseInt(req.params.tripId);
+    if (!(await canAccessTrip(tripId, req.user!.id))) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const summary = await settleUpService.getSummary(tripId);
+    res.json(summary);
+  } catch (error: any) {
+    logger.error("Error getting settle-up summary:", error);
+    res.status(500).json({ error: "Failed to get settle-up summary" });
+  }
+});
+
+// Record a payment between two members (full or partial)
+router.post("/trips/:tripId/settlements", jwtAuth, async (req, res) => {
+  try {
+    const tripId = parseInt(req.params.tripId);
+    const userId = req.user!.id;
+    if (!(await canAccessTrip(tripId, userId))) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const data = settlementSchema.parse(req.body);
+    const members = await settleUpService.getTripMembers(tripId);
+    const memberIds = new Set(members.map(m => m.id));
+    if (!memberIds.has(data.from_user_id) || !memberIds.has(data.to_user_id)) {
+      return res.status(400).json({ error: "Both people must be members of this trip" });
+    }
+
+    if (data.expense_id) {
+      const expense = await settleUpService.getExpense(data.expense_id);
+      if (!expense || expense.trip_id !== tripId) {
+        return res.status(400).json({ error: "Expense does not belong to this trip" });
+      }
+    }
+
+    const trip = await storage.getTripById(tripId);
+    const settlement = await settleUpService.recordSettlement(tripId, userId, data, normalizeCurrencyCode(trip?.currency));
+    res.status(201).json(settlement);
+  } catch (error: any) {
+    logger.error("Error recording settlement:", error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: error.errors });
+    }
+    res.status(500).json({ error: "Failed to record settlement" });
+  }
+});
+
+// Remove a ledger entry recorded by mistake (recorder or trip owner)
+router.delete("/settlements/:id", jwtAuth, async (req, res) => {
+  try {
+    const settlementId = parseInt(req.params.id);
+    const userId = req.user!.id;
+
+    const settlement = await settleUpService.getSettlement(settlementId);
+    if (!settlement) {
+      return res.status(404).json({ error: "Settlement not found" });
+    }
+
+    const trip = await storage.getTripById(settlement.trip_id);
+    if (settlement.recorded_by !== userId && trip?.user_id !== userId) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const deleted = await settleUpService.deleteSettlement(settlementId);
+    res.json({ success: deleted });
+  } catch (error: any) {
+    logger.error("Error deleting settlement:", error);
+    res.status(500).json({ error: "Failed to delete settlement" });
+  }
+});
+
+// Upload a receipt image or PDF; returns the stored receipt and an expense draft to confirm
+router.post("/trips/:tripId/receipts", jwtAuth, receiptUpload.single('receipt'), async (req, res) => {
+  try {
+    const tripId = parseInt(req.params.tripId);
+    const userId = req.user!.id;
+    if (isNaN(tripId)) {
+      return res.status(400).json({ error: "Invalid trip ID" });
+    }
+    if (!(await canAccessTrip(tripId, userId))) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: "No receipt file provided" });
+    }
+
+    const receipt = await receiptService.createReceipt(tripId, userId, req.file);
+    const trip = await storage.getTripById(tripId);
+    const draft = receipt.extracted
+      ? toExpenseDraft(receipt.id, receipt.extracted, normalizeCurrencyCode(trip?.currency))
+      : null;
+
+    res.status(201).json({
+      receipt: { ...receipt, file_url: receiptFileUrl(receipt.id) },
+      draft,
+    });
+  } catch (error: any) {
+    logger.error("Error uploading receipt:", error);
+    res.status(500).json({ error: "Failed to upload receipt" });
+  }
+});
+
+// List a trip's receipts
+router.get("/trips/:tripId/receipts", jwtAuth, async (req, res) => {
+  try {
+    const tripId = parseInt(req.params.tripId);
+    if (!(await canAccessTrip(tripId, req.user!.id))) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const receipts = await receiptService.getReceiptsForTrip(tripId);
+    res.json(receipts.map(receipt => ({ ...receipt, file_url: receiptFileUrl(receipt.id) })));
+  } catch (error: any) {
+    logger.error("Error getting receipts:", error);
+    res.status(500).json({ error: "Failed to get receipts" });
+  }
+});
+
+// Serve the receipt file itself
+router.get("/receipts/:id/file", jwtAuth, async (req, res) => {
+  try {
+    const receiptId = parseInt(req.params.id);
+    if (isNaN(receiptId)) {
+      return res.status(400).json({ error: "Invalid receipt ID" });
+    }
+
+    const receipt = await receiptService.getReceipt(receiptId);
+    if (!receipt) {
+      return res.status(404).json({ error: "Receipt not found" });
+    }
+    if (!(await canAccessTrip(receipt.trip_id, req.user!.id))) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.type(receipt.mime_type);
+    res.sendFile(receiptService.filePath(receipt), error => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: "Receipt file not found" });
+      }
+    });
+  } catch (error: any) {
+    logger.error("Error serving receipt:", error);
+    res.status(500).json({ error: "Failed to get receipt" });
+  }
+});
+
+// Delete a receipt (uploader or trip owner); detaches it from its expense
+router.delete("/receipts/:id", jwtAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const receiptId = parseInt(req.params.id);
+    if (isNaN(receiptId)) {
+      return res.status(400).json({ error: "Invalid receipt ID" });
+    }
+
+    const receipt = await receiptService.getReceipt(receiptId);
+    if (!receipt) {
+      return res.status(404).json({ error: "Receipt not found" });
+    }
+
+    const trip = await storage.getTripById(receipt.trip_id);
+    if (receipt.uploaded_by !== userId && trip?.user_id !== userId) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    if (receipt.expense_id) {
+      await storage.updateGroupExpense(receipt.expense_id, { receipt_url: null });
+    }
+    await receiptService.deleteReceipt(receipt);
+    res.json({ success: true });
+  } catch (error: any) {
+    logger.error("Error deleting receipt:", error);
+    res.status(500).json({ error: "Failed to delete receipt" });
+  }
+});
+
 // Get free activities suggestions
 router.get("/trips/:tripId/free-activities", jwtAuth, async (req, res) => {
   try {
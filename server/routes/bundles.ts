@@ -10,6 +10,9 @@ import {
 } from "@shared/schema";
 import { requireAuth, optionalAuth } from "../middleware/jwtAuth";
 import { generateSlug } from "../utils/slug";
+import { redactTemplate } from "../services/templatePreviewService";
+import { creatorPayoutService } from "../services/creatorPayoutService";
+import { splitBundle } from "../services/ledgerService";
 
 const router = Router();
 
@@ -51,7 +54,7 @@ router.get("/", optionalAuth, async (req: Request, res: Response) => {
 
         return {
           ...bundle,
-          templates: bundleTemplates,
+          templates: bundleTemplates.map(redactTemplate),
           savings: parseFloat(bundle.original_price) - parseFloat(bundle.bundle_price)
         };
       })
@@ -108,7 +111,7 @@ router.get("/:slug", optionalAuth, async (req: Request, res: Response) => {
 
     res.json({
       ...bundle,
-      templates: bundleTemplates,
+      templates: bundleTemplates.map(redactTemplate),
       savings: parseFloat(bundle.original_price) - parseFloat(bundle.bundle_price),
       hasPurchased
     });
@@ -344,7 +347,7 @@ router.get("/creator/:userId", optionalAuth, async (req: Request, res: Response)
 
         return {
           ...bundle,
-          templates: bundleTemplates,
+          templates: bundleTemplates.map(redactTemplate),
           savings: parseFloat(bundle.original_price) - parseFloat(bundle.bundle_price)
         };
       })
@@ -439,28 +442,39 @@ router.post("/:id/purchase", requireAuth, async (req: Request, res: Response) =>
       })
       .where(eq(templateBundles.id, bundleId));
 
-    // Also create individual template purchase records for access
+    // Also create individual template purchase records for access, each
+    // carrying its template's share of the bundle so its creator is paid
+    const bundleTemplates = [];
     for (const templateId of bundle.template_ids as number[]) {
       // Get the template to find the seller
       const [template] = await db
         .select()
         .from(templates)
         .where(eq(templates.id, templateId));
-      
-      if (template) {
-        await db
-          .insert(templatePurchases)
-          .values({
-            template_id: templateId,
-            buyer_id: userId,
-            seller_id: template.user_id,
-            price: "0", // Part of bundle
-            platform_fee: "0",
-            seller_earnings: "0",
-            status: "completed",
-            bundle_purchase_id: purchase.id
-          });
-      }
+      if (template) bundleTemplates.push({ template, price: parseFloat(template.price || "0") });
+    }
+
+    const shares = splitBundle(bundleTemplates, {
+      price: purchasePrice,
+      stripeFee,
+      sellerEarnings: creatorEarnings,
+    });
+    for (const share of shares) {
+      const [templatePurchase] = await db
+        .insert(templatePurchases)
+        .values({
+          template_id: share.template.id,
+          buyer_id: userId,
+          seller_id: share.template.user_id,
+          price: share.price.toFixed(2),
+          platform_fee: (share.price - share.sellerEarnings).toFixed(2),
+          seller_earnings: share.sellerEarnings.toFixed(2),
+          stripe_fee: share.stripeFee.toFixed(2),
+          status: "completed",
+          bundle_purchase_id: purchase.id
+        })
+        .returning();
+      await creatorPayoutService.creditSale(templatePurchase);
     }
 
     res.json({
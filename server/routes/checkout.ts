@@ -8,7 +8,9 @@ import { eq, and, sql, desc } from 'drizzle-orm';
 import Stripe from 'stripe';
 import { paymentRateLimit } from '../middleware/rateLimiting';
 import { auditService } from '../services/auditService';
+import { creatorPayoutService } from '../services/creatorPayoutService';
 import { paymentIdempotency } from '../middleware/idempotency';
+import { REFERRAL_COOKIE, readReferralCookie, referralService } from '../services/referralService';
 
 const router = Router();
 
@@ -68,6 +70,9 @@ router.post('/create-payment-intent', requireAuth, paymentRateLimit, paymentIdem
       .from(users)
       .where(eq(users.id, userId));
 
+    // Credit the share link the buyer last clicked for this template, if it's inside the referral window
+    const referral = await referralService.attribute(readReferralCookie(req.cookies?.[REFERRAL_COOKIE]), template.id, userId);
+
     // Create payment intent
     const amount = Math.round(parseFloat(template.price || '0') * 100); // Convert to cents
 
@@ -83,6 +88,10 @@ router.post('/create-payment-intent', requireAuth, paymentRateLimit, paymentIdem
         buyerId: userId.toString(),
         buyerEmail: user.email,
         sellerId: template.user_id.toString(),
+        ...(referral ? {
+          referralCode: referral.share.share_code,
+          referralClickedAt: referral.clickedAt.toISOString(),
+        } : {}),
       },
       description: `Purchase of template: ${template.title}`,
     });
@@ -158,6 +167,9 @@ router.post('/confirm-purchase', requireAuth, paymentRateLimit, paymentIdempoten
         })
         .where(eq(templates.id, template_id));
 
+      // Nothing to pay the creator, but the ledger records the discount
+      await creatorPayoutService.creditSale(purchase, { paid: 0, listPrice: parseFloat(template.price || '0') });
+
       // Create trip from template
       const { templateCopyService } = await import('../services/templateCopyService');
       const tripId = await templateCopyService.copyTemplateToTrip(
@@ -293,6 +305,9 @@ router.post('/confirm-purchase', requireAuth, paymentRateLimit, paymentIdempoten
       })
       .where(eq(users.id, template.user_id));
 
+    // Earnings are held in the pending balance until the refund window passes
+    await creatorPayoutService.creditSale(purchase, { paid: paymentIntent.amount / 100 });
+
     // Copy template to user's trips with the selected dates (using transactional version)
     const { templateCopyServiceV2 } = await import('../services/templateCopyServiceV2');
     const newTripId = await templateCopyServiceV2.copyTemplateToTrip(
@@ -302,6 +317,11 @@ router.post('/confirm-purchase', requireAuth, paymentRateLimit, paymentIdempoten
       end_date ? new Date(end_date) : undefined
     );
 
+    // Refunds and disputes revoke or freeze this trip
+    await db.update(templatePurchases)
+      .set({ trip_id: newTripId })
+      .where(eq(templatePurchases.id, purchase.id));
+
     logger.info(`Template ${template_id} purchased by user ${userId}, copied to trip ${newTripId}`);
 
     // Audit log the purchase
@@ -4,8 +4,18 @@ import { requireAuth } from '../middleware/jwtAuth';
 import { logger } from '../utils/logger';
 import { z } from 'zod';
 import { db } from '../db-connection';
-import { templates, templatePurchases } from '@shared/schema';
+import { templates, templatePurchases, CreatorBalance } from '@shared/schema';
 import { eq, desc, sql } from 'drizzle-orm';
+import { redactTemplate } from '../services/templatePreviewService';
+import { ledgerService } from '../services/ledgerService';
+import {
+  PAYOUT_METHODS,
+  PAYOUT_THRESHOLDS,
+  PayoutError,
+  TAX_INFO_THRESHOLD,
+  creatorPayoutService,
+} from '../services/creatorPayoutService';
+import { TAX_REPORTING_THRESHOLD, TaxError, taxProfileSchema, taxService } from '../services/taxService';
 
 const router = Router();
 
@@ -19,6 +29,15 @@ const updateProfileSchema = z.object({
   website_url: z.string().url().optional().or(z.literal('')),
   payout_method: z.enum(['paypal', 'amazon', 'bank', 'credits']).optional(),
   payout_email: z.string().email().optional(),
+  bank_account_holder: z.string().min(1).max(22).optional(),
+  bank_routing_number: z.string().regex(/^\d{9}$/).optional(),
+  bank_account_number: z.string().regex(/^\d{4,17}$/).optional(),
+  bank_account_type: z.enum(['checking', 'savings']).optional(),
+});
+
+const requestPayoutSchema = z.object({
+  method: z.enum(PAYOUT_METHODS),
+  amount: z.coerce.number().positive(),
 });
 
 // GET /api/creators/dashboard - Get creator dashboard data
@@ -63,7 +82,7 @@ router.get('/dashboard', requireAuth, async (req, res) => {
 
     res.json({
       profile,
-      balance,
+      balance: await visibleBalance(balance),
       metrics: {
         totalTemplates: templates.length,
         publishedTemplates: templates.filter(t => t.status === 'published').length,
@@ -91,16 +110,11 @@ router.get('/dashboard', requireAuth, async (req, res) => {
 router.get('/balance', requireAuth, async (req, res) => {
   try {
     const userId = req.user!.id;
-    const balance = await storage.getOrCreateCreatorBalance(userId);
+    const balance = await visibleBalance(await storage.getOrCreateCreatorBalance(userId));
 
     // Check payout eligibility
-    const availableBalance = parseFloat(balance.available_balance || '0');
-    const payoutThresholds = {
-      paypal: 10,
-      amazon: 25,
-      bank: 100,
-      credits: 5,
-    };
+    const availableBalance = parseFloat(balance.available_balance);
+    const payoutThresholds = PAYOUT_THRESHOLDS;
 
     const eligibility = {
       paypal: availableBalance >= payoutThresholds.paypal,
@@ -114,7 +128,7 @@ router.get('/balance', requireAuth, async (req, res) => {
       payoutThresholds,
       eligibility,
       preferredMethod: balance.payout_method || 'paypal',
-      taxInfoRequired: availableBalance >= 600 && !balance.w9_on_file,
+      taxInfoRequired: availableBalance >= TAX_INFO_THRESHOLD && !balance.w9_on_file,
     });
   } catch (error) {
     logger.error('Error fetching creator balance:', error);
@@ -211,20 +225,29 @@ router.put('/profile', requireAuth, async (req, res) => {
     // Ensure profile exists
     await storage.getOrCreateCreatorProfile(userId);
 
+    // Payout details live on the creator's balance, not the profile
+    const {
+      payout_method,
+      payout_email,
+      bank_account_holder,
+      bank_routing_number,
+      bank_account_number,
+      bank_account_type,
+      ...profileData
+    } = validatedData;
+
     // Update profile
-    const updated = await storage.updateCreatorProfile(userId, validatedData);
-
-    // Update payout info in balance if provided
-    if (validatedData.payout_method || validatedData.payout_email) {
-      await storage.getOrCreateCreatorBalance(userId);
-      const balanceUpdate: any = {};
-      if (validatedData.payout_method) {
-        balanceUpdate.payout_method = validatedData.payout_method;
-      }
-      if (validatedData.payout_email) {
-        balanceUpdate.payout_email = validatedData.payout_email;
-      }
-      await storage.updateCreatorBalance(userId, 0, 'add'); // Just to trigger update
+    const updated = await storage.updateCreatorProfile(userId, profileData);
+
+    if (payout_method || payout_email || bank_account_holder || bank_routing_number || bank_account_number || bank_account_type) {
+      await creatorPayoutService.updatePayoutDetails(userId, {
+        payout_method,
+        payout_email,
+        bank_account_holder,
+        bank_routing_number,
+        bank_account_number,
+        bank_account_type,
+      });
     }
 
     res.json(updated);
@@ -235,6 +258,9 @@ router.put('/profile', requireAuth, async (req, res) => {
         errors: error.errors
       });
     }
+    if (error instanceof PayoutError) {
+      return res.status(error.status).json({ message: error.message });
+    }
     logger.error('Error updating creator profile:', error);
     res.status(500).json({ message: 'Failed to update profile' });
   }
@@ -244,56 +270,27 @@ router.put('/profile', requireAuth, async (req, res) => {
 router.post('/request-payout', requireAuth, async (req, res) => {
   try {
     const userId = req.user!.id;
-    const { method, amount } = req.body;
+    const { method, amount } = requestPayoutSchema.parse(req.body);
 
-    // Validate payout method
-    if (!['paypal', 'amazon', 'bank', 'credits'].includes(method)) {
-      return res.status(400).json({ message: 'Invalid payout method' });
-    }
+    const payout = await creatorPayoutService.requestPayout(userId, method, amount);
 
-    // Get balance
-    const balance = await storage.getOrCreateCreatorBalance(userId);
-    const availableBalance = parseFloat(balance.available_balance || '0');
-
-    // Validate amount
-    const requestedAmount = parseFloat(amount);
-    if (requestedAmount <= 0 || requestedAmount > availableBalance) {
-      return res.status(400).json({
-        message: 'Invalid payout amount',
-        availableBalance,
-      });
-    }
-
-    // Check minimum thresholds
-    const minThresholds: Record<string, number> = {
-      paypal: 10,
-      amazon: 25,
-      bank: 100,
-      credits: 5,
-    };
-
-    if (requestedAmount < minThresholds[method]) {
-      return res.status(400).json({
-        message: `Minimum payout for ${method} is $${minThresholds[method]}`
-      });
-    }
-
-    // Check tax info for large payouts
-    if (requestedAmount >= 600 && !balance.w9_on_file) {
-      return res.status(400).json({
-        message: 'Tax information required for payouts over $600'
-      });
-    }
-
-    // TODO: Create payout record and process
-    // For now, just return success message
-    res.json({
+    res.status(201).json({
       message: 'Payout request submitted successfully',
-      amount: requestedAmount,
+      payout,
+      amount: parseFloat(payout.amount),
       method,
       estimatedArrival: getEstimatedPayoutDate(method),
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Invalid payout request',
+        errors: error.errors
+      });
+    }
+    if (error instanceof PayoutError) {
+      return res.status(error.status).json({ message: error.message });
+    }
     logger.error('Error requesting payout:', error);
     res.status(500).json({ message: 'Failed to request payout' });
   }
@@ -311,10 +308,14 @@ router.get('/payouts/history', requireAuth, async (req, res) => {
       .where(eq(templates.user_id, userId));
     
     const templateIds = creatorTemplates.map(t => t.id);
-    
+
+    // Payout requests and where each one is in the pipeline
+    const requests = await creatorPayoutService.listForCreator(userId);
+
     if (templateIds.length === 0) {
       return res.json({
         payouts: [],
+        requests,
         summary: {
           totalPaidOut: 0,
           lastPayoutDate: null,
@@ -334,6 +335,7 @@ router.get('/payouts/history', requireAuth, async (req, res) => {
         completedAt: templatePurchases.payout_completed_at,
         method: templatePurchases.payout_method,
         transactionId: templatePurchases.payout_transaction_id,
+        payoutId: templatePurchases.payout_id,
         purchasedAt: templatePurchases.purchased_at
       })
       .from(templatePurchases)
@@ -355,6 +357,7 @@ router.get('/payouts/history', requireAuth, async (req, res) => {
 
     res.json({
       payouts: payoutHistory,
+      requests,
       summary: {
         totalPaidOut,
         lastPayoutDate: lastPayout?.completedAt || null,
@@ -367,6 +370,68 @@ router.get('/payouts/history', requireAuth, async (req, res) => {
   }
 });
 
+// GET /api/creators/tax-profile - The creator's W-9 or W-8BEN, with the TIN masked
+router.get('/tax-profile', requireAuth, async (req, res) => {
+  try {
+    res.json({ profile: await taxService.getProfile(req.user!.id) });
+  } catch (error) {
+    logger.error('Error fetching tax profile:', error);
+    res.status(500).json({ message: 'Failed to fetch tax profile' });
+  }
+});
+
+// PUT /api/creators/tax-profile - Submit or replace the creator's tax form
+router.put('/tax-profile', requireAuth, async (req, res) => {
+  try {
+    const input = taxProfileSchema.parse(req.body);
+    res.json({ profile: await taxService.saveProfile(req.user!.id, input) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid tax information', errors: error.errors });
+    }
+    if (error instanceof TaxError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    logger.error('Error saving tax profile:', error);
+    res.status(500).json({ message: 'Failed to save tax information' });
+  }
+});
+
+// GET /api/creators/tax-statements - Annual earnings summaries
+router.get('/tax-statements', requireAuth, async (req, res) => {
+  try {
+    res.json({
+      threshold: TAX_REPORTING_THRESHOLD,
+      statements: await taxService.listStatements(req.user!.id),
+    });
+  } catch (error) {
+    logger.error('Error fetching tax statements:', error);
+    res.status(500).json({ message: 'Failed to fetch tax statements' });
+  }
+});
+
+// GET /api/creators/tax-statements/:year.:format - Download a year's statement as CSV or PDF
+router.get('/tax-statements/:year.:format', requireAuth, async (req, res) => {
+  try {
+    const year = parseInt(req.params.year);
+    const format = req.params.format;
+    if (!Number.isInteger(year) || year < 2000 || year > new Date().getUTCFullYear()) {
+      return res.status(400).json({ message: 'Invalid year' });
+    }
+    if (format !== 'csv' && format !== 'pdf') {
+      return res.status(400).json({ message: 'Statements are available as csv or pdf' });
+    }
+
+    const file = await taxService.statement(req.user!.id, year, format);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.send(file.body);
+  } catch (error) {
+    logger.error('Error building tax statement:', error);
+    res.status(500).json({ message: 'Failed to build tax statement' });
+  }
+});
+
 // GET /api/creators/:userId/public - Get public creator profile
 router.get('/:userId/public', async (req, res) => {
   try {
@@ -411,7 +476,7 @@ router.get('/:userId/public', async (req, res) => {
         averageRating,
         followerCount: profile.follower_count,
       },
-      templates: publishedTemplates.slice(0, 6), // Top 6 templates
+      templates: publishedTemplates.slice(0, 6).map(redactTemplate), // Top 6 templates
     });
   } catch (error) {
     logger.error('Error fetching public creator profile:', error);
@@ -420,6 +485,20 @@ router.get('/:userId/public', async (req, res) => {
 });
 
 // Helper functions
+
+// The creator's balance with amounts from the ledger. Bank details are only
+// read for payout files; creators see the last four digits.
+async function visibleBalance(balance: CreatorBalance) {
+  const { bank_routing_number_encrypted, bank_account_number_encrypted, ...visible } = balance;
+  const derived = await ledgerService.creatorBalance(balance.user_id);
+  return {
+    ...visible,
+    available_balance: derived.available.toFixed(2),
+    pending_balance: (derived.pending + derived.reserved).toFixed(2),
+    payouts_in_transit: derived.inTransit.toFixed(2),
+  };
+}
+
 function calculateMonthlyRevenue(sales: any[]): any[] {
   const months: Record<string, number> = {};
   const now = new Date();
@@ -0,0 +1,177 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { jwtAuthMiddleware } from '../middleware/jwtAuth';
+import { logger } from '../utils/logger';
+import { storage } from '../storage';
+import { collaborationService } from '../services/collaborationService';
+import { DuffelApiError } from '../services/duffelFlightService';
+import {
+  flightBookingService,
+  flightSearchSchema,
+  flightBookingSchema,
+  FlightBookingError,
+} from '../services/flightBookingService';
+
+const router = Router();
+
+router.use(jwtAuthMiddleware);
+
+// Without a Duffel key the rest of the app works; flights just aren't offered
+router.use((req: Request, res: Response, next: NextFunction) => {
+  if (!flightBookingService.isAvailable()) {
+    return res.status(503).json({ message: 'Flight booking is not available' });
+  }
+  next();
+});
+
+function sendFlightError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid request', errors: error.errors });
+  }
+  if (error instanceof FlightBookingError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  if (error instanceof DuffelApiError) {
+    // 422 from Duffel is almost always an offer that expired or changed price
+    if (error.status === 404 || error.status === 422) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    return res.status(502).json({ message: fallback });
+  }
+  return res.status(500).json({ message: fallback });
+}
+
+async function loadAccess(req: Request, res: Response, tripId: number) {
+  if (isNaN(tripId)) {
+    res.status(400).json({ message: 'Invalid trip ID' });
+    return null;
+  }
+
+  const access = await collaborationService.getTripAccess(tripId, req.user!.id);
+  if (!access) {
+    res.status(404).json({ message: 'Trip not found' });
+    return null;
+  }
+  return access;
+}
+
+async function loadBooking(req: Request, res: Response) {
+  const booking = await flightBookingService.getBooking(parseInt(req.params.bookingId));
+  if (!booking || booking.provider !== 'duffel') {
+    res.status(404).json({ message: 'Booking not found' });
+    return null;
+  }
+
+  const access = await loadAccess(req, res, booking.trip_id);
+  if (!access) return null;
+  return { booking, access };
+}
+
+// GET /api/flights/airports?q= - Airport and city suggestions
+router.get('/airports', async (req: Request, res: Response) => {
+  try {
+    const query = String(req.query.q || '').trim();
+    if (query.length < 2) {
+      return res.json([]);
+    }
+    res.json(await flightBookingService.searchAirports(query));
+  } catch (error) {
+    logger.error('Error searching airports', { error });
+    sendFlightError(res, error, 'Failed to search airports');
+  }
+});
+
+// POST /api/flights/search - Search offers, defaulting to the trip's dates
+router.post('/search', async (req: Request, res: Response) => {
+  try {
+    const data = flightSearchSchema.parse(req.body);
+
+    let trip;
+    if (data.trip_id) {
+      if (!(await loadAccess(req, res, data.trip_id))) return;
+      trip = await storage.getTrip(data.trip_id);
+    }
+
+    res.json(await flightBookingService.search(data, trip));
+  } catch (error) {
+    logger.error('Error searching flights', { error });
+    sendFlightError(res, error, 'Failed to search flights');
+  }
+});
+
+// GET /api/flights/offers/:offerId - Current price and conditions of an offer
+router.get('/offers/:offerId', async (req: Request, res: Response) => {
+  try {
+    res.json(await flightBookingService.getOffer(req.params.offerId));
+  } catch (error) {
+    logger.error('Error fetching flight offer', { offerId: req.params.offerId, error });
+    sendFlightError(res, error, 'Failed to fetch flight offer');
+  }
+});
+
+// POST /api/flights/trips/:tripId/book - Book an offer and add it to the itinerary
+router.post('/trips/:tripId/book', async (req: Request, res: Response) => {
+  try {
+    const tripId = parseInt(req.params.tripId);
+    const access = await loadAccess(req, res, tripId);
+    if (!access) return;
+    if (access === 'viewer') {
+      return res.status(403).json({ message: 'Access denied: Cannot book for this trip' });
+    }
+
+    const { offer_id, passengers } = flightBookingSchema.parse(req.body);
+    const trip = await storage.getTrip(tripId);
+    if (!trip) {
+      return res.status(404).json({ message: 'Trip not found' });
+    }
+
+    res.status(201).json(await flightBookingService.book(trip, req.user!.id, offer_id, passengers));
+  } catch (error) {
+    logger.error('Error booking flight', { tripId: req.params.tripId, error });
+    sendFlightError(res, error, 'Failed to book flight');
+  }
+});
+
+// GET /api/flights/trips/:tripId/bookings - Flights booked for a trip
+router.get('/trips/:tripId/bookings', async (req: Request, res: Response) => {
+  try {
+    const tripId = parseInt(req.params.tripId);
+    if (!(await loadAccess(req, res, tripId))) return;
+
+    res.json(await flightBookingService.getFlightBookings(tripId));
+  } catch (error) {
+    logger.error('Error fetching flight bookings', { tripId: req.params.tripId, error });
+    res.status(500).json({ message: 'Failed to fetch flight bookings' });
+  }
+});
+
+// POST /api/flights/bookings/:bookingId/cancel - Cancel with the airline and remove it from the itinerary
+router.post('/bookings/:bookingId/cancel', async (req: Request, res: Response) => {
+  try {
+    const context = await loadBooking(req, res);
+    if (!context) return;
+    if (context.booking.user_id !== req.user!.id && context.access !== 'owner') {
+      return res.status(403).json({ message: 'Access denied: Cannot cancel this booking' });
+    }
+
+    res.json(await flightBookingService.cancel(context.booking, req.user!.id));
+  } catch (error) {
+    logger.error('Error cancelling flight', { bookingId: req.params.bookingId, error });
+    sendFlightError(res, error, 'Failed to cancel flight');
+  }
+});
+
+// POST /api/flights/bookings/:bookingId/refresh - Pick up changes made on the airline's side
+router.post('/bookings/:bookingId/refresh', async (req: Request, res: Response) => {
+  try {
+    const context = await loadBooking(req, res);
+    if (!context) return;
+
+    res.json(await flightBookingService.syncOrder(context.booking));
+  } catch (error) {
+    logger.error('Error refreshing flight booking', { bookingId: req.params.bookingId, error });
+    sendFlightError(res, error, 'Failed to refresh flight booking');
+  }
+});
+
+export default router;
@@ -27,6 +27,10 @@ import rsvpRoutes from './rsvp';
 import travelAnalyticsRoutes from './travel-analytics';
 import bundlesRoutes from './bundles';
 import promoCodesRoutes from './promo-codes';
+import bookingRoutes from './bookings';
+import travelRoutes from './travel';
+import flightRoutes from './flights';
+import refundRoutes from './refunds';
 
 const router = Router();
 
@@ -60,6 +64,10 @@ router.use('/rsvp', rsvpRoutes);
 router.use('/travel-analytics', travelAnalyticsRoutes);
 router.use('/bundles', bundlesRoutes);
 router.use('/promo-codes', promoCodesRoutes);
+router.use('/bookings', bookingRoutes);
+router.use('/travel', travelRoutes);
+router.use('/flights', flightRoutes);
+router.use('/refunds', refundRoutes);
 
 // User permissions endpoint - simplified for consumer app
 router.get('/user/permissions', async (req, res) => {
@@ -114,7 +122,7 @@ router.post('/locations/airport-code', async (req, res) => {
 
     // Use AI to find the nearest major airport
     try {
-      const { callOpenAI } = await import('../openai');
+      const { llm } = await import('../services/llmService');
 
       const prompt = `Find the closest major commercial airport to ${cityName}. Consider:
 1. If it's a major city with multiple airports, return the main international airport
@@ -125,7 +133,7 @@ City: ${cityName}
 
 Return ONLY the 3-letter IATA airport code (e.g., LAX, JFK, ORD). Nothing else.`;
 
-      const aiResponse = await callOpenAI(prompt, { temperature: 0.1, max_tokens: 10 });
+      const aiResponse = await llm.complete('locations', prompt, { temperature: 0.1, maxTokens: 10 });
       const airportCode = aiResponse.trim().toUpperCase().replace(/[^A-Z]/g, '');
 
       // Validate it's a 3-letter code
@@ -3,6 +3,7 @@ import { storage } from '../storage';
 import { jwtAuthMiddleware } from '../middleware/jwtAuth';
 import { z } from 'zod';
 import { logger } from '../utils/logger';
+import { tripHistoryService, updateChange } from '../services/tripHistoryService';
 
 const router = Router();
 
@@ -49,6 +50,9 @@ router.post('/', async (req, res) => {
 
 
     const note = await storage.createNote(validatedData);
+    await tripHistoryService.recordChanges(note.trip_id, req.user?.id ?? null, { source: 'user' }, [
+      { entity_type: 'note', entity_id: note.id, action: 'create', after: note },
+    ]);
     res.status(201).json(note);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -68,11 +72,17 @@ router.put('/:id', async (req, res) => {
     }
 
     const validatedData = updateNoteSchema.parse(req.body);
+    const previous = await storage.getNote(noteId);
     const note = await storage.updateNote(noteId, validatedData);
     
     if (!note) {
       return res.status(404).json({ message: 'Note not found' });
     }
+
+    const change = previous ? updateChange('note', note.id, previous, note) : null;
+    if (change) {
+      await tripHistoryService.recordChanges(note.trip_id, req.user?.id ?? null, { source: 'user' }, [change]);
+    }
     res.json(note);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -91,11 +101,17 @@ router.delete('/:id', async (req, res) => {
       return res.status(400).json({ message: 'Invalid note ID' });
     }
 
+    const previous = await storage.getNote(noteId);
     const success = await storage.deleteNote(noteId);
     
     if (!success) {
       return res.status(404).json({ message: 'Note not found' });
     }
+    if (previous) {
+      await tripHistoryService.recordChanges(previous.trip_id, req.user?.id ?? null, { source: 'user' }, [
+        { entity_type: 'note', entity_id: previous.id, action: 'delete', before: previous },
+      ]);
+    }
     res.json({ message: 'Note deleted successfully' });
   } catch (error) {
     logger.error('Error deleting note', { error: error instanceof Error ? error.message : 'Unknown error' });
@@ -1,6 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
 import { logger } from '../utils/logger';
+import { buildTripCalendar } from '../services/calendarExportService';
+import { tripLicense } from '../services/templateWatermark';
+import { tripJournalService, localDateTime, withPhotoUrls, ActivityOutcome, JournalCheckin, JournalPhoto } from '../services/tripJournalService';
+import { tripPhotoService } from '../services/tripPhotoService';
 
 const router = Router();
 
@@ -85,6 +89,114 @@ router.get('/share/:shareCode', async (req: Request, res: Response) => {
   }
 });
 
+// Shared trip journal - NO AUTH REQUIRED. Only once the trip is over, so a
+// share link never gives away where the travellers are right now.
+router.get('/share/:shareCode/journal', async (req: Request, res: Response) => {
+  try {
+    const trip = await storage.getTripByShareCode(req.params.shareCode);
+
+    if (!trip || !trip.sharing_enabled) {
+      return res.status(404).json({ message: 'Trip not found or sharing not enabled' });
+    }
+
+    const journal = await tripJournalService.getJournal(trip.id);
+    if (!journal) {
+      return res.status(404).json({ message: 'Trip not found or sharing not enabled' });
+    }
+    if (!journal.is_complete) {
+      return res.status(403).json({ message: 'The journal is shared once the trip is over' });
+    }
+
+    // No traveller ids or exact positions on the public page
+    const checkin = ({ user_id, latitude, longitude, ...rest }: JournalCheckin) => rest;
+    const photo = ({ user_id, latitude, longitude, ...rest }: JournalPhoto) => rest;
+    const outcome = (o: ActivityOutcome) => ({ ...o, checkins: o.checkins.map(checkin), photos: o.photos.map(photo) });
+    const { trip: _trip, ...rest } = withPhotoUrls(journal, photoId => `/api/public/share/${trip.share_code}/photos/${photoId}`);
+
+    res.json({
+      trip: {
+        title: trip.title,
+        city: trip.city,
+        country: trip.country,
+        start_date: trip.start_date,
+        end_date: trip.end_date,
+      },
+      ...rest,
+      days: rest.days.map(day => ({
+        ...day,
+        planned: day.planned.map(outcome),
+        actual: day.actual.map(outcome),
+        photos: day.photos.map(photo),
+      })),
+      unscheduled: rest.unscheduled.map(outcome),
+    });
+  } catch (error) {
+    logger.error('Error fetching shared trip journal:', error);
+    res.status(500).json({ message: 'Could not fetch trip journal' });
+  }
+});
+
+// Photo in a shared trip journal - NO AUTH REQUIRED, same rules as the journal
+router.get('/share/:shareCode/photos/:photoId', async (req: Request, res: Response) => {
+  try {
+    const trip = await storage.getTripByShareCode(req.params.shareCode);
+    if (!trip || !trip.sharing_enabled || trip.end_date >= localDateTime(new Date(), null, trip.timezone).date) {
+      return res.status(404).json({ message: 'Photo not found' });
+    }
+
+    const photo = await tripPhotoService.getPhoto(parseInt(req.params.photoId));
+    if (!photo || photo.trip_id !== trip.id) {
+      return res.status(404).json({ message: 'Photo not found' });
+    }
+
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    res.type(photo.mime_type);
+    res.sendFile(tripPhotoService.filePath(photo), error => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ message: 'Photo file not found' });
+      }
+    });
+  } catch (error) {
+    logger.error('Error serving shared journal photo:', error);
+    res.status(500).json({ message: 'Could not fetch photo' });
+  }
+});
+
+// Subscribable calendar feed - NO AUTH REQUIRED, the token is the credential
+router.get('/calendar/:token.ics', async (req: Request, res: Response) => {
+  try {
+    const trip = await storage.getTripByCalendarToken(req.params.token);
+
+    if (!trip) {
+      return res.status(404).json({ message: 'Calendar feed not found' });
+    }
+
+    const activities = await storage.getActivitiesByTripId(trip.id);
+
+    // Stamp events with the latest change so unchanged feeds produce identical
+    // bodies and pollers get 304s from the ETag
+    const lastModified = [trip.updated_at, ...activities.map(a => a.updated_at)]
+      .filter((d): d is Date => !!d)
+      .reduce((latest, d) => (d > latest ? d : latest), new Date(0));
+
+    const baseUrl = (process.env.BASE_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+    const calendar = buildTripCalendar(trip, activities, {
+      // Notes and booking references follow the same rule as the share link
+      includePrivateDetails: trip.share_permission === 'edit',
+      tripUrl: trip.sharing_enabled && trip.share_code ? `${baseUrl}/share/${trip.share_code}` : undefined,
+      license: tripLicense(trip),
+      now: lastModified
+    });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Cache-Control', 'private, max-age=900');
+    res.send(calendar);
+  } catch (error) {
+    logger.error('Error serving calendar feed:', error);
+    res.status(500).json({ message: 'Could not load calendar feed' });
+  }
+});
+
 // Track guest-to-user conversion
 router.post('/share/:shareCode/interested', async (req: Request, res: Response) => {
   try {
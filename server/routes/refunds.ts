@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/jwtAuth';
+import { logger } from '../utils/logger';
+import { RefundError, refundService } from '../services/refundService';
+
+const router = Router();
+
+const refundRequestSchema = z.object({
+  template_purchase_id: z.coerce.number().int().positive().optional(),
+  bundle_purchase_id: z.coerce.number().int().positive().optional(),
+  reason: z.string().trim().min(1).max(2000),
+}).refine(body => !!body.template_purchase_id !== !!body.bundle_purchase_id, {
+  message: 'Give either a template purchase or a bundle purchase',
+});
+
+// GET /api/refunds - The current user's refund requests
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    res.json(await refundService.listForBuyer(req.user!.id));
+  } catch (error) {
+    logger.error('Error fetching refund requests:', error);
+    res.status(500).json({ message: 'Failed to fetch refund requests' });
+  }
+});
+
+// POST /api/refunds - Request a refund for a template or bundle purchase
+router.post('/', requireAuth, async (req, res) => {
+  try {
+    const body = refundRequestSchema.parse(req.body);
+    const request = await refundService.requestRefund(req.user!.id, {
+      templatePurchaseId: body.template_purchase_id,
+      bundlePurchaseId: body.bundle_purchase_id,
+    }, body.reason);
+
+    const messages: Record<string, string> = {
+      refunded: 'Your purchase has been refunded',
+      pending: 'Your refund request will be reviewed',
+      failed: 'The refund could not be processed; we will look into it',
+    };
+    res.status(201).json({ message: messages[request.status] ?? 'Refund request submitted', request });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid refund request', errors: error.errors });
+    }
+    if (error instanceof RefundError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    logger.error('Error requesting refund:', error);
+    res.status(500).json({ message: 'Failed to request refund' });
+  }
+});
+
+export default router;
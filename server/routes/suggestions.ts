@@ -4,6 +4,7 @@ import { activitySuggestions, tripComments, suggestionVotes, trips, activities }
 import { eq, and, desc } from "drizzle-orm";
 import { optionalAuth } from "../middleware/jwtAuth";
 import crypto from "crypto";
+import { collaborationService } from "../services/collaborationService";
 
 const router = Router();
 
@@ -203,6 +204,10 @@ router.post("/:suggestionId/accept", optionalAuth, async (req, res) => {
       order: 0,
       price: suggestion.estimated_cost || null
     }).returning();
+    await collaborationService.recordActivityCreated(activity, req.user!.id, {
+      source: 'suggestion',
+      description: `Accepted suggestion "${suggestion.title}"`,
+    });
     
     // Update suggestion status
     await db
@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { storage } from "../storage";
-import { requireAuth } from "../middleware/jwtAuth";
+import { requireAuth, optionalAuth } from "../middleware/jwtAuth";
 import { logger } from "../utils/logger";
 import { z } from "zod";
 import { templateQualityService } from "../services/templateQualityService";
@@ -11,6 +11,19 @@ import { eq, and, sql } from "drizzle-orm";
 import { searchRateLimit, templateCreationRateLimit, paymentRateLimit } from "../middleware/rateLimiting";
 import { optimizedQueries } from "../storage-consumer-optimized";
 import { auditService } from "../services/auditService";
+import { TemplateVersionError, templateVersionService } from "../services/templateVersionService";
+import { ChangesetRejectedError } from "../services/collaborationService";
+import { PREVIEW_LEVELS, isPreviewLevel, redactTemplate } from "../services/templatePreviewService";
+import { buyerWatermark } from "../services/templateWatermark";
+import { creatorPayoutService } from "../services/creatorPayoutService";
+import {
+  REFERRAL_COMMISSION_PERCENT,
+  REFERRAL_COOKIE,
+  REFERRAL_WINDOW_DAYS,
+  readReferralCookie,
+  recordClick,
+  referralService,
+} from "../services/referralService";
 
 const router = Router();
 
@@ -25,6 +38,7 @@ const createTemplateSchema = z.object({
   duration: z.number().min(1).max(365).optional(),
   trip_data: z.any(), // Full trip itinerary JSON
   tags: z.array(z.string()).default([]),
+  preview_level: z.enum(PREVIEW_LEVELS).default("standard"),
 });
 
 // GET /api/templates - Browse marketplace templates
@@ -70,57 +84,17 @@ router.get("/", searchRateLimit, async (req, res) => {
       }));
     }
 
-    // Transform templates to include activities array for frontend
-    templates = templates.map((template) => {
-      const tripData = (template.trip_data as any) || {};
-      let activities: any[] = [];
-
-      // Calculate a base date for the template (30 days from now)
-      const baseDate = new Date();
-      baseDate.setDate(baseDate.getDate() + 30);
-
-      // Extract activities from the days structure
-      if (tripData.days && Array.isArray(tripData.days)) {
-        tripData.days.forEach((day: any) => {
-          if (day.activities && Array.isArray(day.activities)) {
-            // Calculate the date for this day
-            const dayDate = new Date(baseDate);
-            const dayNumber = parseInt(day.day) || 1;
-            dayDate.setDate(dayDate.getDate() + (dayNumber - 1));
-
-            // Check if date is valid before converting
-            const dateStr = !isNaN(dayDate.getTime())
-              ? dayDate.toISOString().split("T")[0]
-              : new Date().toISOString().split("T")[0]; // Fallback to today
-
-            day.activities.forEach((activity: any) => {
-              activities.push({
-                ...activity,
-                day: day.day,
-                dayTitle: day.title,
-                date: dateStr, // Add the date field for grouping
-                locationName: activity.location, // Frontend expects locationName
-              });
-            });
-          }
-        });
-      }
-
-      // Add the activities array to tripData
-      tripData.activities = activities;
-
-      return {
-        ...template,
-        tripData, // Frontend expects camelCase
-        salesCount: template.sales_count || 0, // Add camelCase versions
-        reviewCount: template.review_count || 0,
-        coverImage: template.cover_image,
-        viewCount: template.view_count || 0,
-      };
-    });
+    // Listings show previews; the itinerary is only for buyers
+    const listed = templates.map((template) => ({
+      ...redactTemplate(template),
+      salesCount: template.sales_count || 0, // Add camelCase versions
+      reviewCount: template.review_count || 0,
+      coverImage: template.cover_image,
+      viewCount: template.view_count || 0,
+    }));
 
     res.json({
-      templates: sanitizeResponseDates(templates),
+      templates: sanitizeResponseDates(listed),
       pagination: {
         page: result.page,
         limit: parseInt(String(limit)),
@@ -168,10 +142,16 @@ router.get("/purchased", requireAuth, async (req, res) => {
       const template = templateMap.get(purchase.template_id);
       if (!template) return null;
 
+      const purchasedVersion = purchase.template_version ?? null;
+      const latestVersion = template.current_version || null;
       return {
         ...template,
         purchaseDate: purchase.purchased_at,
         purchaseId: purchase.id,
+        tripId: purchase.trip_id,
+        purchasedVersion,
+        latestVersion,
+        updateAvailable: purchasedVersion !== null && latestVersion !== null && latestVersion > purchasedVersion,
       };
     }).filter(t => t !== null);
 
@@ -182,8 +162,20 @@ router.get("/purchased", requireAuth, async (req, res) => {
   }
 });
 
+const publishVersionSchema = z.object({
+  changelog: z.string().trim().min(1).max(2000),
+});
+
+function sendVersionError(res: any, error: unknown): boolean {
+  if (error instanceof TemplateVersionError) {
+    res.status(error.status).json({ message: error.message });
+    return true;
+  }
+  return false;
+}
+
 // GET /api/templates/:slug - Get single template by slug
-router.get("/:slug", async (req, res) => {
+router.get("/:slug", optionalAuth, async (req, res) => {
   try {
     const { slug } = req.params;
     const template = await storage.getTemplateBySlug(slug);
@@ -221,8 +213,31 @@ router.get("/:slug", async (req, res) => {
     // Get reviews
     const reviews = await storage.getTemplateReviews(template.id);
 
+    // Everyone but the creator sees the published version, not the draft
+    const isCreator = req.user?.id === template.user_id;
+    let published: { title: string; description: string | null; trip_data: unknown } = template;
+    if (template.current_version > 0 && !isCreator) {
+      published = (await templateVersionService.getVersion(template.id, template.current_version)) ?? template;
+    }
+
+    // Only buyers and the creator get the itinerary; everyone else gets the preview
+    if (!hasPurchased && !isCreator) {
+      return res.json(
+        sanitizeResponseDates({
+          ...redactTemplate({ ...template, title: published.title, description: published.description, trip_data: published.trip_data }),
+          salesCount: template.sales_count || 0,
+          reviewCount: template.review_count || 0,
+          coverImage: template.cover_image,
+          viewCount: template.view_count || 0,
+          hasPurchased,
+          creator: creatorProfile,
+          reviews,
+        }),
+      );
+    }
+
     // Transform template data for frontend
-    const tripData = (template.trip_data as any) || {};
+    const tripData = (published.trip_data as any) || {};
     let activities: any[] = [];
 
     // Calculate a base date for the template (30 days from now)
@@ -265,12 +280,16 @@ router.get("/:slug", async (req, res) => {
     res.json(
       sanitizeResponseDates({
         ...template,
+        title: published.title,
+        description: published.description,
         tripData, // Frontend expects camelCase
         salesCount: template.sales_count || 0,
         reviewCount: template.review_count || 0,
         coverImage: template.cover_image,
         viewCount: template.view_count || 0,
         hasPurchased,
+        // Buyers' copies of the itinerary carry their watermark
+        license: hasPurchased && !isCreator ? buyerWatermark(template.id, req.user!.id) : null,
         creator: creatorProfile,
         reviews,
       }),
@@ -553,7 +572,12 @@ router.put("/:id", requireAuth, async (req, res) => {
         .json({ message: "Template not found or access denied" });
     }
 
-    const updated = await storage.updateTemplate(templateId, req.body);
+    // Edits change the draft; buyers get them when a new version is published
+    const { current_version, ...changes } = req.body;
+    if (changes.preview_level !== undefined && !isPreviewLevel(changes.preview_level)) {
+      return res.status(400).json({ message: `Preview level must be one of ${PREVIEW_LEVELS.join(", ")}` });
+    }
+    const updated = await storage.updateTemplate(templateId, changes);
     res.json(updated);
   } catch (error) {
     logger.error("Error updating template:", error);
@@ -561,6 +585,30 @@ router.put("/:id", requireAuth, async (req, res) => {
   }
 });
 
+/**
+ * Snapshot the draft of a template that was just published. The first
+ * publish creates version 1; republishing after edits creates the next
+ * version and tells buyers about it.
+ */
+async function publishDraftVersion(templateId: number, userId: number, changelog?: string) {
+  const template = await storage.getTemplate(templateId);
+  if (!template) return null;
+  if (template.current_version === 0) {
+    return templateVersionService.ensurePublishedVersion(template);
+  }
+
+  try {
+    const version = await templateVersionService.publishVersion(templateId, userId, changelog?.trim() || "Updated itinerary");
+    templateVersionService.notifyBuyers(template, version).catch(error =>
+      logger.error(`Failed to notify buyers of template ${templateId}:`, error));
+    return version;
+  } catch (error) {
+    // Republished without changes: buyers already have the latest version
+    if (error instanceof TemplateVersionError && error.status === 400) return null;
+    throw error;
+  }
+}
+
 // POST /api/templates/:id/publish - Publish template with quality checks
 router.post("/:id/publish", requireAuth, async (req, res) => {
   try {
@@ -613,6 +661,7 @@ router.post("/:id/publish", requireAuth, async (req, res) => {
       logger.info(
         `Template ${templateId} auto-approved: ${autoModResult.reason}`,
       );
+      const version = await publishDraftVersion(templateId, userId, req.body?.changelog);
 
       return res.json({
         message: "Template submitted and automatically approved!",
@@ -621,6 +670,7 @@ router.post("/:id/publish", requireAuth, async (req, res) => {
         qualityScore: qualityResult.score,
         autoApproved: true,
         approvalReason: autoModResult.reason,
+        version: version?.version ?? null,
       });
     }
 
@@ -644,9 +694,13 @@ router.post("/:id/publish", requireAuth, async (req, res) => {
       moderation_status: moderationStatus,
       quality_score: qualityResult.score,
     });
+    const version = status === "published"
+      ? await publishDraftVersion(templateId, userId, req.body?.changelog)
+      : null;
 
     res.json({
       ...updated,
+      version: version?.version ?? null,
       qualityScore: qualityResult.score,
       moderationStatus,
       message:
@@ -660,6 +714,110 @@ router.post("/:id/publish", requireAuth, async (req, res) => {
   }
 });
 
+// GET /api/templates/:id/versions - Version history with changelogs
+router.get("/:id/versions", requireAuth, async (req, res) => {
+  try {
+    const templateId = parseInt(req.params.id);
+    const template = await storage.getTemplate(templateId);
+    if (!template) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+
+    const versions = await templateVersionService.listVersions(templateId);
+    res.json(sanitizeResponseDates({ currentVersion: template.current_version, versions }));
+  } catch (error) {
+    logger.error("Error fetching template versions:", error);
+    res.status(500).json({ message: "Failed to fetch template versions" });
+  }
+});
+
+// POST /api/templates/:id/versions - Publish the draft as a new version
+router.post("/:id/versions", requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const templateId = parseInt(req.params.id);
+    const { changelog } = publishVersionSchema.parse(req.body);
+
+    const template = await storage.getTemplate(templateId);
+    if (!template || template.user_id !== userId) {
+      return res
+        .status(404)
+        .json({ message: "Template not found or access denied" });
+    }
+    if (template.status !== "published") {
+      return res.status(400).json({ message: "Publish the template before releasing new versions" });
+    }
+
+    const qualityResult = await templateQualityService.checkTemplateQuality({
+      title: template.title,
+      description: template.description || "",
+      price: parseFloat(template.price || "0"),
+      tripData: template.trip_data as any,
+      tags: (template.tags as string[]) || [],
+      destinations: (template.destinations as string[]) || [],
+      duration: template.duration || 0,
+      userId: userId,
+    });
+    if (!qualityResult.passed) {
+      return res.status(400).json({
+        message: "Template does not meet quality standards",
+        qualityScore: qualityResult.score,
+        issues: qualityResult.issues,
+        minimumScore: 40,
+      });
+    }
+
+    // Templates published before versioning get their original as version 1 first
+    await templateVersionService.ensurePublishedVersion(template);
+    const version = await templateVersionService.publishVersion(templateId, userId, changelog);
+    const notified = await templateVersionService.notifyBuyers(template, version);
+
+    const { trip_data, ...summary } = version;
+    res.status(201).json(sanitizeResponseDates({ ...summary, buyersNotified: notified }));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid version data", errors: error.errors });
+    }
+    if (sendVersionError(res, error)) return;
+    logger.error("Error publishing template version:", error);
+    res.status(500).json({ message: "Failed to publish template version" });
+  }
+});
+
+// GET /api/templates/:id/update - Preview pulling the latest version into the buyer's trip
+router.get("/:id/update", requireAuth, async (req, res) => {
+  try {
+    const plan = await templateVersionService.planUpdate(parseInt(req.params.id), req.user!.id);
+    const { purchase, ...preview } = plan;
+    res.json(sanitizeResponseDates(preview));
+  } catch (error) {
+    if (sendVersionError(res, error)) return;
+    logger.error("Error previewing template update:", error);
+    res.status(500).json({ message: "Failed to preview template update" });
+  }
+});
+
+// POST /api/templates/:id/update - Merge the latest version into the buyer's trip
+router.post("/:id/update", requireAuth, async (req, res) => {
+  try {
+    const result = await templateVersionService.applyUpdate(parseInt(req.params.id), req.user!.id);
+    const { purchase, ...applied } = result;
+    res.json(sanitizeResponseDates(applied));
+  } catch (error) {
+    if (error instanceof ChangesetRejectedError) {
+      return res.status(409).json({
+        message: "Your trip changed while updating; review the update again",
+        step: error.step,
+        reason: error.reason,
+        conflicts: error.conflicts,
+      });
+    }
+    if (sendVersionError(res, error)) return;
+    logger.error("Error applying template update:", error);
+    res.status(500).json({ message: "Failed to apply template update" });
+  }
+});
+
 // POST /api/templates/:id/unpublish - Unpublish template
 router.post("/:id/unpublish", requireAuth, async (req, res) => {
   try {
@@ -780,6 +938,8 @@ router.post("/:id/purchase", requireAuth, paymentRateLimit, async (req, res) =>
         })
         .where(eq(templates.id, templateId));
 
+      await creatorPayoutService.creditSale(purchase, {}, tx);
+
       return { purchase, template };
     });
 
@@ -912,6 +1072,16 @@ router.get("/share/:shareCode", async (req, res) => {
     // First try to get by share code
     let template = await storage.getTemplateByShareCode(shareCode);
 
+    if (template) {
+      // Last click wins: a purchase inside the window is credited to this link
+      res.cookie(REFERRAL_COOKIE, recordClick(readReferralCookie(req.cookies?.[REFERRAL_COOKIE]), template.id, shareCode), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: REFERRAL_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+      });
+    }
+
     // If not found, try treating it as a slug (for backward compatibility)
     if (!template) {
       template = await storage.getTemplateBySlug(shareCode);
@@ -926,38 +1096,16 @@ router.get("/share/:shareCode", async (req, res) => {
       ? await storage.getUser(template.user_id)
       : null;
 
-    // Transform the template data for frontend
-    const tripData = (template.trip_data as any) || {};
-    let activities: any[] = [];
-
-    // Calculate a base date for the template (30 days from now)
-    const baseDate = new Date();
-    baseDate.setDate(baseDate.getDate() + 30);
-
-    // Extract activities from the days structure
-    if (tripData.days && Array.isArray(tripData.days)) {
-      tripData.days.forEach((day: any) => {
-        if (day.activities && Array.isArray(day.activities)) {
-          // Calculate the date for this day
-          const dayDate = new Date(baseDate);
-          const dayNumber = parseInt(day.day) || 1;
-          dayDate.setDate(dayDate.getDate() + (dayNumber - 1));
-
-          day.activities.forEach((activity: any) => {
-            activities.push({
-              ...activity,
-              date: dayDate.toISOString(),
-              day: dayNumber,
-            });
-          });
-        }
-      });
-    }
+    // Public share pages sell the template: preview only
+    const published = template.current_version > 0
+      ? await templateVersionService.getVersion(template.id, template.current_version)
+      : null;
 
     const transformedTemplate = {
-      ...template,
-      activities: activities,
-      tripData: tripData,
+      ...redactTemplate({
+        ...template,
+        ...(published ? { title: published.title, description: published.description, trip_data: published.trip_data } : {}),
+      }),
       creator: creator
         ? {
             id: creator.id,
@@ -975,34 +1123,61 @@ router.get("/share/:shareCode", async (req, res) => {
   }
 });
 
-// POST /api/templates/:id/share - Track social share
-router.post("/:id/share", async (req, res) => {
+const shareSchema = z.object({
+  platform: z.string().regex(/^[a-z0-9_-]{1,30}$/, "Invalid platform"),
+});
+
+// POST /api/templates/:id/share - Get the user's referral link for a share channel
+router.post("/:id/share", requireAuth, async (req, res) => {
   try {
     const templateId = parseInt(req.params.id);
-    const { platform } = req.body;
-    const userId = req.user?.id;
+    const { platform } = shareSchema.parse(req.body);
 
-    if (!platform) {
-      return res.status(400).json({ message: "Platform is required" });
+    const template = await storage.getTemplate(templateId);
+    if (!template || template.status !== "published") {
+      return res.status(404).json({ message: "Template not found" });
     }
 
-    const share = await storage.trackTemplateShare({
-      template_id: templateId,
-      shared_by: userId,
-      platform,
-    });
+    const share = await referralService.shareLink(templateId, req.user!.id, platform);
+    const baseUrl = process.env.FRONTEND_URL || `${req.protocol}://${req.get("host")}`;
 
     res.json({
       message: "Share tracked successfully",
       shareCode: share.share_code,
-      shareUrl: `${process.env.FRONTEND_URL}/t/${share.share_code}`,
+      shareUrl: `${baseUrl}/t/${share.share_code}`,
+      // Sharing someone else's template earns a commission on the sales it brings
+      commissionPercent: template.user_id === req.user!.id ? 0 : REFERRAL_COMMISSION_PERCENT,
+      referralWindowDays: REFERRAL_WINDOW_DAYS,
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Platform is required", errors: error.errors });
+    }
     logger.error("Error tracking share:", error);
     res.status(500).json({ message: "Failed to track share" });
   }
 });
 
+// GET /api/templates/:id/share-performance - Share link clicks, conversions and commissions by channel (creator only)
+router.get("/:id/share-performance", requireAuth, async (req, res) => {
+  try {
+    const templateId = parseInt(req.params.id);
+    const template = await storage.getTemplate(templateId);
+    if (!template || template.user_id !== req.user!.id) {
+      return res.status(404).json({ message: "Template not found or access denied" });
+    }
+
+    res.json({
+      channels: await referralService.channelPerformance(templateId),
+      referralWindowDays: REFERRAL_WINDOW_DAYS,
+      commissionPercent: REFERRAL_COMMISSION_PERCENT,
+    });
+  } catch (error) {
+    logger.error("Error fetching share performance:", error);
+    res.status(500).json({ message: "Failed to fetch share performance" });
+  }
+});
+
 // POST /api/templates/reuse - Create a new trip from an owned template
 router.post("/reuse", requireAuth, async (req, res) => {
   try {
@@ -3,6 +3,7 @@ import { storage } from '../storage';
 import { jwtAuthMiddleware } from '../middleware/jwtAuth';
 import { z } from 'zod';
 import { logger } from '../utils/logger';
+import { tripHistoryService, updateChange } from '../services/tripHistoryService';
 
 const router = Router();
 
@@ -52,6 +53,9 @@ router.post('/', async (req, res) => {
 
 
     const todo = await storage.createTodo(validatedData);
+    await tripHistoryService.recordChanges(todo.trip_id, req.user?.id ?? null, { source: 'user' }, [
+      { entity_type: 'todo', entity_id: todo.id, action: 'create', after: todo },
+    ]);
     res.status(201).json(todo);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -71,12 +75,18 @@ router.put('/:id', async (req, res) => {
     }
 
     const validatedData = updateTodoSchema.parse(req.body);
+    const previous = await storage.getTodo(todoId);
     const todo = await storage.updateTodo(todoId, validatedData);
 
     if (!todo) {
       return res.status(404).json({ message: 'Todo not found' });
     }
 
+    const change = previous ? updateChange('todo', todo.id, previous, todo) : null;
+    if (change) {
+      await tripHistoryService.recordChanges(todo.trip_id, req.user?.id ?? null, { source: 'user' }, [change]);
+    }
+
     res.json(todo);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -95,12 +105,19 @@ router.delete('/:id', async (req, res) => {
       return res.status(400).json({ message: 'Invalid todo ID' });
     }
 
+    const previous = await storage.getTodo(todoId);
     const success = await storage.deleteTodo(todoId);
 
     if (!success) {
       return res.status(404).json({ message: 'Todo not found' });
     }
 
+    if (previous) {
+      await tripHistoryService.recordChanges(previous.trip_id, req.user?.id ?? null, { source: 'user' }, [
+        { entity_type: 'todo', entity_id: previous.id, action: 'delete', before: previous },
+      ]);
+    }
+
     res.json({ message: 'Todo deleted successfully' });
   } catch (error) {
     logger.error('Error deleting todo', { error: error instanceof Error ? error.message : 'Unknown error' });
@@ -1,8 +1,10 @@
 import { Router } from "express";
 import { db } from "../db";
-import { travelAnalytics, trips, activities, destinations } from "@shared/schema";
-import { eq, and, gte, lte, sql, desc } from "drizzle-orm";
+import { travelAnalytics, trips, activities, destinations, tripPhotos, ActivityCheckin, TravelAnalytics } from "@shared/schema";
+import { eq, and, gte, lte, sql, desc, inArray } from "drizzle-orm";
 import { requireAuth } from "../middleware/jwtAuth";
+import { tripJournalService, localDateTime, ON_TIME_WINDOW_MINUTES } from "../services/tripJournalService";
+import { timeToMinutes } from "../utils/timeOfDay";
 
 const router = Router();
 
@@ -21,28 +23,64 @@ function calculateTravelPersonality(stats: any): string {
   return "The Balanced Traveler";
 }
 
-// Helper function to generate fun stats
-function generateFunStats(userTrips: any[], userActivities: any[]): Record<string, any> {
+// Helper function to generate fun stats. Anything about what was actually
+// done comes from check-ins, not from the plan.
+function generateFunStats(
+  userTrips: any[],
+  userActivities: any[],
+  checkins: ActivityCheckin[],
+  photosTaken: number
+): Record<string, any> {
   const stats: Record<string, any> = {};
+  const activityById = new Map(userActivities.map(a => [a.id, a]));
+  const tripById = new Map(userTrips.map(t => [t.id, t]));
+  const visited = checkins
+    .map(c => ({ checkin: c, activity: activityById.get(c.activity_id) }))
+    .filter(v => v.activity);
+
+  stats.activitiesCompleted = visited.length;
+  if (visited.length > 0) {
+    stats.completedStat = `✅ You checked in at ${visited.length} of ${userActivities.length} planned activities`;
+  }
   
-  // Calculate total coffee shops visited
-  const coffeeActivities = userActivities.filter(a => 
-    a.title?.toLowerCase().includes('coffee') || 
-    a.title?.toLowerCase().includes('cafe')
+  // Coffee shops actually checked in at
+  const coffeeVisits = visited.filter(({ activity }) =>
+    activity.title?.toLowerCase().includes('coffee') || 
+    activity.title?.toLowerCase().includes('cafe') ||
+    activity.tag === 'coffee'
   );
-  if (coffeeActivities.length > 0) {
-    stats.coffeeShopsVisited = coffeeActivities.length;
-    stats.coffeeStat = `☕ You visited ${coffeeActivities.length} coffee shops - that's a lot of caffeine!`;
+  if (coffeeVisits.length > 0) {
+    stats.coffeeShopsVisited = coffeeVisits.length;
+    stats.coffeeStat = `☕ You visited ${coffeeVisits.length} coffee shops - that's a lot of caffeine!`;
   }
   
-  // Calculate earliest morning activity
-  const morningActivities = userActivities.filter(a => {
-    if (!a.time) return false;
-    const hour = parseInt(a.time.split(':')[0]);
-    return hour < 7;
+  // Check-ins before 7 AM local time
+  const local = visited.map(({ checkin }) =>
+    ({ checkin, time: localDateTime(new Date(checkin.checked_in_at), checkin.utc_offset_minutes, tripById.get(checkin.trip_id)?.timezone) })
+  );
+  const morningVisits = local.filter(({ time }) => parseInt(time.time.split(':')[0]) < 7);
+  if (morningVisits.length > 0) {
+    stats.earlyBird = `🌅 You were out and about before 7 AM ${morningVisits.length} times - early bird!`;
+  }
+
+  // How closely the plan was followed
+  const timed = local.filter(({ checkin, time }) => {
+    const activity = activityById.get(checkin.activity_id);
+    return activity.date === time.date && timeToMinutes(activity.time) !== null;
   });
-  if (morningActivities.length > 0) {
-    stats.earlyBird = `🌅 You had ${morningActivities.length} activities before 7 AM - early bird!`;
+  if (timed.length >= 3) {
+    const onTime = timed.filter(({ checkin, time }) =>
+      Math.abs(timeToMinutes(time.time)! - timeToMinutes(activityById.get(checkin.activity_id).time)!) <= ON_TIME_WINDOW_MINUTES
+    ).length;
+    stats.onTimeRate = Math.round((onTime / timed.length) * 100);
+    stats.onTimeStat = stats.onTimeRate >= 70
+      ? `⏱️ You were on schedule for ${stats.onTimeRate}% of your stops - impressively punctual!`
+      : `🐢 Only ${stats.onTimeRate}% of your stops happened on schedule - you travel on your own time`;
+  }
+
+  if (photosTaken > 0) {
+    stats.photosTaken = photosTaken;
+    stats.photoStat = `📸 You took ${photosTaken} photos along the way`;
   }
   
   // Weekend vs weekday trips
@@ -64,148 +102,165 @@ function generateFunStats(userTrips: any[], userActivities: any[]): Record<strin
   return stats;
 }
 
+// Year in Travel analytics for a user, cached for 7 days. Null when there
+// were no trips that year.
+async function getYearAnalytics(userId: number, year: number): Promise<TravelAnalytics | null> {
+  // Check if we already have cached analytics for this year
+  const [existingAnalytics] = await db
+    .select()
+    .from(travelAnalytics)
+    .where(and(
+      eq(travelAnalytics.user_id, userId),
+      eq(travelAnalytics.year, year)
+    ))
+    .limit(1);
+  
+  // If recent analytics exist (less than 7 days old), return cached
+  if (existingAnalytics && 
+      existingAnalytics.updated_at && 
+      new Date(existingAnalytics.updated_at).getTime() > Date.now() - 7 * 24 * 60 * 60 * 1000) {
+    return existingAnalytics;
+  }
+  
+  // Otherwise, calculate fresh analytics
+  const startDate = new Date(year, 0, 1);
+  const endDate = new Date(year, 11, 31);
+  
+  // Get all trips for the year
+  const userTrips = await db
+    .select()
+    .from(trips)
+    .where(and(
+      eq(trips.user_id, userId),
+      gte(trips.start_date, startDate.toISOString().split('T')[0]),
+      lte(trips.start_date, endDate.toISOString().split('T')[0])
+    ));
+  
+  if (userTrips.length === 0) {
+    return null;
+  }
+  
+  // Get all activities for these trips
+  const tripIds = userTrips.map(t => t.id);
+  const userActivities = await db
+    .select()
+    .from(activities)
+    .where(sql`${activities.trip_id} IN ${tripIds}`);
+  
+  // Calculate statistics
+  const stats = {
+    totalTrips: userTrips.length,
+    totalDaysTravel: userTrips.reduce((sum, trip) => {
+      const start = new Date(trip.start_date);
+      const end = new Date(trip.end_date);
+      const days = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+      return sum + days;
+    }, 0),
+    countriesVisited: [...new Set(userTrips.map(t => t.country).filter(Boolean))] as string[],
+    citiesVisited: [...new Set(userTrips.map(t => t.city).filter(Boolean))] as string[],
+    totalActivities: userActivities.length,
+  };
+  
+  // Find favorite destination (most visited city)
+  const cityCount = userTrips.reduce((acc, trip) => {
+    if (trip.city) {
+      acc[trip.city] = (acc[trip.city] || 0) + 1;
+    }
+    return acc;
+  }, {} as Record<string, number>);
+  
+  const favoriteDestination = Object.entries(cityCount)
+    .sort(([, a], [, b]) => b - a)[0]?.[0] || null;
+  
+  // Find busiest month
+  const monthCount = userTrips.reduce((acc, trip) => {
+    const month = new Date(trip.start_date).toLocaleString('default', { month: 'long' });
+    acc[month] = (acc[month] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  
+  const busiestMonth = Object.entries(monthCount)
+    .sort(([, a], [, b]) => b - a)[0]?.[0] || null;
+  
+  // Find longest trip
+  const longestTrip = userTrips.reduce((longest, trip) => {
+    const start = new Date(trip.start_date);
+    const end = new Date(trip.end_date);
+    const days = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+    return days > longest ? days : longest;
+  }, 0);
+  
+  // Calculate travel style based on activities
+  const avgActivitiesPerDay = stats.totalActivities / stats.totalDaysTravel;
+  const travelPersonality = calculateTravelPersonality({
+    avgActivitiesPerDay,
+    avgTripLength: stats.totalDaysTravel / stats.totalTrips,
+    tripTypes: userTrips.map(t => t.trip_type)
+  });
+  
+  // Generate fun stats from what was actually visited
+  const [checkins, [photoCount]] = await Promise.all([
+    tripJournalService.getCheckinsForUser(userId, tripIds),
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(tripPhotos)
+      .where(and(eq(tripPhotos.user_id, userId), inArray(tripPhotos.trip_id, tripIds))),
+  ]);
+  const funStats = generateFunStats(userTrips, userActivities, checkins, photoCount?.count ?? 0);
+  
+  // Create or update analytics record
+  const analyticsData = {
+    user_id: userId,
+    year,
+    total_trips: stats.totalTrips,
+    total_days_traveled: stats.totalDaysTravel,
+    countries_visited: stats.countriesVisited,
+    cities_visited: stats.citiesVisited,
+    total_activities: stats.totalActivities,
+    favorite_destination: favoriteDestination,
+    travel_style: avgActivitiesPerDay > 4 ? "adventurer" : avgActivitiesPerDay > 2 ? "explorer" : "relaxer",
+    busiest_month: busiestMonth,
+    longest_trip_days: longestTrip,
+    most_visited_city: favoriteDestination,
+    travel_personality: travelPersonality,
+    fun_stats: funStats,
+    updated_at: new Date()
+  };
+  
+  let result;
+  if (existingAnalytics) {
+    // Update existing
+    [result] = await db
+      .update(travelAnalytics)
+      .set(analyticsData)
+      .where(eq(travelAnalytics.id, existingAnalytics.id))
+      .returning();
+  } else {
+    // Create new
+    [result] = await db
+      .insert(travelAnalytics)
+      .values(analyticsData)
+      .returning();
+  }
+  
+  return result;
+}
+
 // Generate Year in Travel analytics
 router.get("/year/:year", requireAuth, async (req, res) => {
   try {
-    const userId = req.user!.id;
     const year = parseInt(req.params.year);
-    
-    // Check if we already have cached analytics for this year
-    const [existingAnalytics] = await db
-      .select()
-      .from(travelAnalytics)
-      .where(and(
-        eq(travelAnalytics.user_id, userId),
-        eq(travelAnalytics.year, year)
-      ))
-      .limit(1);
-    
-    // If recent analytics exist (less than 7 days old), return cached
-    if (existingAnalytics && 
-        existingAnalytics.updated_at && 
-        new Date(existingAnalytics.updated_at).getTime() > Date.now() - 7 * 24 * 60 * 60 * 1000) {
-      return res.json(existingAnalytics);
-    }
-    
-    // Otherwise, calculate fresh analytics
-    const startDate = new Date(year, 0, 1);
-    const endDate = new Date(year, 11, 31);
-    
-    // Get all trips for the year
-    const userTrips = await db
-      .select()
-      .from(trips)
-      .where(and(
-        eq(trips.user_id, userId),
-        gte(trips.start_date, startDate.toISOString().split('T')[0]),
-        lte(trips.start_date, endDate.toISOString().split('T')[0])
-      ));
-    
-    if (userTrips.length === 0) {
+    const analytics = await getYearAnalytics(req.user!.id, year);
+
+    if (!analytics) {
       return res.json({
         year,
         message: "No trips found for this year",
         totalTrips: 0
       });
     }
-    
-    // Get all activities for these trips
-    const tripIds = userTrips.map(t => t.id);
-    const userActivities = await db
-      .select()
-      .from(activities)
-      .where(sql`${activities.trip_id} IN ${tripIds}`);
-    
-    // Calculate statistics
-    const stats = {
-      totalTrips: userTrips.length,
-      totalDaysTravel: userTrips.reduce((sum, trip) => {
-        const start = new Date(trip.start_date);
-        const end = new Date(trip.end_date);
-        const days = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-        return sum + days;
-      }, 0),
-      countriesVisited: [...new Set(userTrips.map(t => t.country).filter(Boolean))] as string[],
-      citiesVisited: [...new Set(userTrips.map(t => t.city).filter(Boolean))] as string[],
-      totalActivities: userActivities.length,
-    };
-    
-    // Find favorite destination (most visited city)
-    const cityCount = userTrips.reduce((acc, trip) => {
-      if (trip.city) {
-        acc[trip.city] = (acc[trip.city] || 0) + 1;
-      }
-      return acc;
-    }, {} as Record<string, number>);
-    
-    const favoriteDestination = Object.entries(cityCount)
-      .sort(([, a], [, b]) => b - a)[0]?.[0] || null;
-    
-    // Find busiest month
-    const monthCount = userTrips.reduce((acc, trip) => {
-      const month = new Date(trip.start_date).toLocaleString('default', { month: 'long' });
-      acc[month] = (acc[month] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    
-    const busiestMonth = Object.entries(monthCount)
-      .sort(([, a], [, b]) => b - a)[0]?.[0] || null;
-    
-    // Find longest trip
-    const longestTrip = userTrips.reduce((longest, trip) => {
-      const start = new Date(trip.start_date);
-      const end = new Date(trip.end_date);
-      const days = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-      return days > longest ? days : longest;
-    }, 0);
-    
-    // Calculate travel style based on activities
-    const avgActivitiesPerDay = stats.totalActivities / stats.totalDaysTravel;
-    const travelPersonality = calculateTravelPersonality({
-      avgActivitiesPerDay,
-      avgTripLength: stats.totalDaysTravel / stats.totalTrips,
-      tripTypes: userTrips.map(t => t.trip_type)
-    });
-    
-    // Generate fun stats
-    const funStats = generateFunStats(userTrips, userActivities);
-    
-    // Create or update analytics record
-    const analyticsData = {
-      user_id: userId,
-      year,
-      total_trips: stats.totalTrips,
-      total_days_traveled: stats.totalDaysTravel,
-      countries_visited: stats.countriesVisited,
-      cities_visited: stats.citiesVisited,
-      total_activities: stats.totalActivities,
-      favorite_destination: favoriteDestination,
-      travel_style: avgActivitiesPerDay > 4 ? "adventurer" : avgActivitiesPerDay > 2 ? "explorer" : "relaxer",
-      busiest_month: busiestMonth,
-      longest_trip_days: longestTrip,
-      most_visited_city: favoriteDestination,
-      travel_personality: travelPersonality,
-      fun_stats: funStats,
-      updated_at: new Date()
-    };
-    
-    let result;
-    if (existingAnalytics) {
-      // Update existing
-      [result] = await db
-        .update(travelAnalytics)
-        .set(analyticsData)
-        .where(eq(travelAnalytics.id, existingAnalytics.id))
-        .returning();
-    } else {
-      // Create new
-      [result] = await db
-        .insert(travelAnalytics)
-        .values(analyticsData)
-        .returning();
-    }
-    
-    res.json(result);
+
+    res.json(analytics);
   } catch (error) {
     console.error("Error generating travel analytics:", error);
     res.status(500).json({ error: "Failed to generate travel analytics" });
@@ -219,16 +274,9 @@ router.get("/recap/:year", requireAuth, async (req, res) => {
     const year = parseInt(req.params.year);
     
     // Get or generate analytics
-    const analyticsResponse = await fetch(`${req.protocol}://${req.get('host')}/api/travel-analytics/year/${year}`, {
-      headers: {
-        'Authorization': req.headers.authorization || '',
-        'Cookie': req.headers.cookie || ''
-      }
-    });
-    
-    const analytics = await analyticsResponse.json();
+    const analytics = await getYearAnalytics(userId, year);
     
-    if (!analytics || analytics.totalTrips === 0) {
+    if (!analytics || !analytics.total_trips) {
       return res.json({
         year,
         hasData: false,
@@ -258,7 +306,7 @@ router.get("/recap/:year", requireAuth, async (req, res) => {
           title: "Days on the Road",
           value: analytics.total_days_traveled,
           unit: "Days",
-          description: `That's ${Math.round(analytics.total_days_traveled / 7)} weeks of adventure!`
+          description: `That's ${Math.round((analytics.total_days_traveled ?? 0) / 7)} weeks of adventure!`
         },
         {
           type: "list",
@@ -278,12 +326,13 @@ router.get("/recap/:year", requireAuth, async (req, res) => {
           type: "personality",
           title: "Your Travel Personality",
           value: analytics.travel_personality,
-          description: getPersonalityDescription(analytics.travel_personality)
+          description: getPersonalityDescription(analytics.travel_personality ?? "")
         },
         {
           type: "stat",
           title: "Activities Completed",
-          value: analytics.total_activities,
+          // Check-ins when there are any; older years only have the plan
+          value: analytics.fun_stats?.activitiesCompleted || analytics.total_activities,
           unit: "Experiences",
           description: "Each one a memory!"
         },
@@ -0,0 +1,302 @@
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { jwtAuthMiddleware } from '../middleware/jwtAuth';
+import { logger } from '../utils/logger';
+import { collaborationService } from '../services/collaborationService';
+import { storage } from '../storage';
+import { offlineSyncService, syncRequestSchema } from '../services/offlineSyncService';
+import { tripJournalService, withPhotoUrls } from '../services/tripJournalService';
+import { tripPhotoService, PHOTO_MIME_TYPES } from '../services/tripPhotoService';
+
+const router = Router();
+
+router.use(jwtAuthMiddleware);
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 15 * 1024 * 1024, // 15MB max, phone photos run large
+  },
+  fileFilter: (req, file, cb) => {
+    if (PHOTO_MIME_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only JPEG, PNG and WebP photos are allowed.'));
+    }
+  },
+});
+
+// Multipart fields arrive as strings
+const photoDetailsSchema = z.object({
+  client_id: z.string().min(1).max(64).optional(),
+  activity_id: z.coerce.number().int().optional(),
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
+  caption: z.string().max(500).optional(),
+  taken_at: z.string().datetime().optional(),
+});
+
+const checkinSchema = z.object({
+  activity_id: z.number().int(),
+  checked_in_at: z.string().datetime().optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  note: z.string().max(1000).optional(),
+  utc_offset_minutes: z.number().int().min(-840).max(840).optional(),
+});
+
+const checkinNoteSchema = z.object({
+  note: z.string().max(1000).nullable(),
+});
+
+async function loadAccess(req: Request, res: Response) {
+  const tripId = parseInt(req.params.tripId);
+  if (isNaN(tripId)) {
+    res.status(400).json({ message: 'Invalid trip ID' });
+    return null;
+  }
+
+  const access = await collaborationService.getTripAccess(tripId, req.user!.id);
+  if (!access) {
+    res.status(404).json({ message: 'Trip not found' });
+    return null;
+  }
+  return { tripId, access };
+}
+
+function photoFileUrl(tripId: number, photoId: number): string {
+  return `/api/travel/trips/${tripId}/photos/${photoId}/file`;
+}
+
+
+// GET /api/travel/trips/:tripId/bundle - Trip, activities, notes, todos, check-ins and photos for offline use
+router.get('/trips/:tripId/bundle', async (req: Request, res: Response) => {
+  try {
+    const context = await loadAccess(req, res);
+    if (!context) return;
+
+    const bundle = await offlineSyncService.getBundle(context.tripId);
+    if (!bundle) {
+      return res.status(404).json({ message: 'Trip not found' });
+    }
+
+    res.json({
+      ...bundle,
+      access: context.access,
+      photos: bundle.photos.map(photo => ({ ...photo, file_url: photoFileUrl(context.tripId, photo.id) })),
+    });
+  } catch (error) {
+    logger.error('Error building offline bundle', { tripId: req.params.tripId, error });
+    res.status(500).json({ message: 'Failed to load trip for offline use' });
+  }
+});
+
+// POST /api/travel/trips/:tripId/sync - Replay mutations queued while offline
+router.post('/trips/:tripId/sync', async (req: Request, res: Response) => {
+  try {
+    const context = await loadAccess(req, res);
+    if (!context) return;
+
+    const { mutations } = syncRequestSchema.parse(req.body);
+    const results = await offlineSyncService.sync(context.tripId, req.user!.id, context.access, mutations);
+    res.json({ results, revision: await collaborationService.getRevision(context.tripId) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid sync request', errors: error.errors });
+    }
+    logger.error('Error syncing offline changes', { tripId: req.params.tripId, error });
+    res.status(500).json({ message: 'Failed to sync offline changes' });
+  }
+});
+
+// GET /api/travel/trips/:tripId/checkins - Who has checked in where
+router.get('/trips/:tripId/checkins', async (req: Request, res: Response) => {
+  try {
+    const context = await loadAccess(req, res);
+    if (!context) return;
+
+    res.json(await tripJournalService.getCheckins(context.tripId));
+  } catch (error) {
+    logger.error('Error fetching check-ins', { tripId: req.params.tripId, error });
+    res.status(500).json({ message: 'Failed to fetch check-ins' });
+  }
+});
+
+// POST /api/travel/trips/:tripId/checkins - Check in at an activity (viewers included)
+router.post('/trips/:tripId/checkins', async (req: Request, res: Response) => {
+  try {
+    const context = await loadAccess(req, res);
+    if (!context) return;
+
+    const data = checkinSchema.parse(req.body);
+    const activity = await storage.getActivity(data.activity_id);
+    if (!activity || activity.trip_id !== context.tripId) {
+      return res.status(404).json({ message: 'Activity not found' });
+    }
+
+    const { checkin, created } = await tripJournalService.recordCheckin(context.tripId, activity.id, req.user!.id, {
+      ...data,
+      checked_in_at: data.checked_in_at ? new Date(data.checked_in_at) : new Date(),
+    });
+    res.status(created ? 201 : 200).json(checkin);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid check-in', errors: error.errors });
+    }
+    logger.error('Error checking in', { tripId: req.params.tripId, error });
+    res.status(500).json({ message: 'Failed to check in' });
+  }
+});
+
+// PATCH /api/travel/trips/:tripId/checkins/:checkinId - Edit the note on your own check-in
+router.patch('/trips/:tripId/checkins/:checkinId', async (req: Request, res: Response) => {
+  try {
+    const context = await loadAccess(req, res);
+    if (!context) return;
+
+    const checkin = await tripJournalService.getCheckin(parseInt(req.params.checkinId));
+    if (!checkin || checkin.trip_id !== context.tripId) {
+      return res.status(404).json({ message: 'Check-in not found' });
+    }
+    if (checkin.user_id !== req.user!.id) {
+      return res.status(403).json({ message: 'Access denied: Cannot edit this check-in' });
+    }
+
+    const { note } = checkinNoteSchema.parse(req.body);
+    res.json(await tripJournalService.updateNote(checkin.id, note));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid check-in note', errors: error.errors });
+    }
+    logger.error('Error updating check-in', { tripId: req.params.tripId, error });
+    res.status(500).json({ message: 'Failed to update check-in' });
+  }
+});
+
+// DELETE /api/travel/trips/:tripId/checkins/:checkinId - Remove a check-in (the traveller or trip owner)
+router.delete('/trips/:tripId/checkins/:checkinId', async (req: Request, res: Response) => {
+  try {
+    const context = await loadAccess(req, res);
+    if (!context) return;
+
+    const checkin = await tripJournalService.getCheckin(parseInt(req.params.checkinId));
+    if (!checkin || checkin.trip_id !== context.tripId) {
+      return res.status(404).json({ message: 'Check-in not found' });
+    }
+    if (checkin.user_id !== req.user!.id && context.access !== 'owner') {
+      return res.status(403).json({ message: 'Access denied: Cannot delete this check-in' });
+    }
+
+    await tripJournalService.deleteCheckin(checkin.id);
+    res.json({ message: 'Check-in deleted successfully' });
+  } catch (error) {
+    logger.error('Error deleting check-in', { tripId: req.params.tripId, error });
+    res.status(500).json({ message: 'Failed to delete check-in' });
+  }
+});
+
+// GET /api/travel/trips/:tripId/journal - Planned vs actual per day, with notes and photos
+router.get('/trips/:tripId/journal', async (req: Request, res: Response) => {
+  try {
+    const context = await loadAccess(req, res);
+    if (!context) return;
+
+    const journal = await tripJournalService.getJournal(context.tripId);
+    if (!journal) {
+      return res.status(404).json({ message: 'Trip not found' });
+    }
+
+    const { trip, ...rest } = journal;
+    res.json({
+      trip: {
+        id: trip.id,
+        title: trip.title,
+        city: trip.city,
+        country: trip.country,
+        start_date: trip.start_date,
+        end_date: trip.end_date,
+        timezone: trip.timezone,
+        share_code: trip.sharing_enabled ? trip.share_code : null,
+      },
+      access: context.access,
+      ...withPhotoUrls(rest, photoId => photoFileUrl(context.tripId, photoId)),
+    });
+  } catch (error) {
+    logger.error('Error building trip journal', { tripId: req.params.tripId, error });
+    res.status(500).json({ message: 'Failed to load trip journal' });
+  }
+});
+
+// POST /api/travel/trips/:tripId/photos - Upload a trip photo (idempotent per client_id)
+router.post('/trips/:tripId/photos', upload.single('photo'), async (req: Request, res: Response) => {
+  try {
+    const context = await loadAccess(req, res);
+    if (!context) return;
+    if (!req.file) {
+      return res.status(400).json({ message: 'No photo provided' });
+    }
+
+    const details = photoDetailsSchema.parse(req.body);
+    const { photo, created } = await tripPhotoService.savePhoto(context.tripId, req.user!.id, req.file.buffer, {
+      ...details,
+      taken_at: details.taken_at ? new Date(details.taken_at) : null,
+    });
+
+    res.status(created ? 201 : 200).json({ ...photo, file_url: photoFileUrl(context.tripId, photo.id) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid photo details', errors: error.errors });
+    }
+    logger.error('Error uploading trip photo', { tripId: req.params.tripId, error });
+    res.status(500).json({ message: 'Failed to upload photo' });
+  }
+});
+
+// GET /api/travel/trips/:tripId/photos/:photoId/file - The photo itself
+router.get('/trips/:tripId/photos/:photoId/file', async (req: Request, res: Response) => {
+  try {
+    const context = await loadAccess(req, res);
+    if (!context) return;
+
+    const photo = await tripPhotoService.getPhoto(parseInt(req.params.photoId));
+    if (!photo || photo.trip_id !== context.tripId) {
+      return res.status(404).json({ message: 'Photo not found' });
+    }
+
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+    res.type(photo.mime_type);
+    res.sendFile(tripPhotoService.filePath(photo), error => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ message: 'Photo file not found' });
+      }
+    });
+  } catch (error) {
+    logger.error('Error serving trip photo', { tripId: req.params.tripId, error });
+    res.status(500).json({ message: 'Failed to fetch photo' });
+  }
+});
+
+// DELETE /api/travel/trips/:tripId/photos/:photoId - Remove a photo (uploader or trip owner)
+router.delete('/trips/:tripId/photos/:photoId', async (req: Request, res: Response) => {
+  try {
+    const context = await loadAccess(req, res);
+    if (!context) return;
+
+    const photo = await tripPhotoService.getPhoto(parseInt(req.params.photoId));
+    if (!photo || photo.trip_id !== context.tripId) {
+      return res.status(404).json({ message: 'Photo not found' });
+    }
+    if (photo.user_id !== req.user!.id && context.access !== 'owner') {
+      return res.status(403).json({ message: 'Access denied: Cannot delete this photo' });
+    }
+
+    await tripPhotoService.deletePhoto(photo);
+    res.json({ message: 'Photo deleted successfully' });
+  } catch (error) {
+    logger.error('Error deleting trip photo', { tripId: req.params.tripId, error });
+    res.status(500).json({ message: 'Failed to delete photo' });
+  }
+});
+
+export default router;
@@ -8,7 +8,13 @@ import { storage } from '../storage';
 import { db } from '../db-connection';
 import { trips as tripsTable, users } from '@shared/schema';
 import { eq, desc } from 'drizzle-orm';
+import { randomBytes } from 'crypto';
 import { logger } from '../utils/logger';
+import { buildTripCalendar, isValidTimeZone } from '../services/calendarExportService';
+import { tripLicense } from '../services/templateWatermark';
+import { collaborationService, ChangesetRejectedError } from '../services/collaborationService';
+import { tripHistoryService, updateChange, RevertConflictError } from '../services/tripHistoryService';
+import { isTripLocked } from '../services/refundService';
 
 const router = Router();
 
@@ -17,6 +23,17 @@ router.use(jwtAuthMiddleware);
 // Organization context removed for consumer app
 router.use(fieldTransformMiddleware);
 
+const historyQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  before: z.coerce.number().int().optional(),
+  day: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+const restoreSchema = z.object({
+  changeset_id: z.number().int(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
 // Get all trips for authenticated user with pagination
 router.get("/", async (req: Request, res: Response) => {
   try {
@@ -172,23 +189,241 @@ router.get("/:id/activities", async (req: Request, res: Response) => {
       return res.status(401).json({ message: "User ID required" });
     }
 
-    // Verify trip exists and user has access
+    // Owner and every collaborator can read the itinerary
+    const access = await collaborationService.getTripAccess(tripId, userId);
+    if (!access) {
+      return res.status(404).json({ message: "Trip not found" });
+    }
+
+    const activities = await storage.getActivitiesByTripId(tripId);
+    res.json(activities);
+  } catch (error) {
+    logger.error("Error fetching activities for trip", { tripId: req.params.id, error });
+    res.status(500).json({ message: "Could not fetch activities", error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Public base URL for links handed to calendar apps
+function getPublicBaseUrl(req: Request): string {
+  return (process.env.BASE_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+}
+
+function getCalendarSubscription(req: Request, token: string | null) {
+  if (!token) {
+    return { subscribed: false, url: null, webcalUrl: null };
+  }
+  const url = `${getPublicBaseUrl(req)}/api/public/calendar/${token}.ics`;
+  return { subscribed: true, url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+}
+
+// Download the trip as an iCalendar file (owner export includes private details)
+router.get("/:id/calendar.ics", async (req: Request, res: Response) => {
+  try {
+    const tripId = parseInt(req.params.id);
+    if (isNaN(tripId)) {
+      return res.status(400).json({ message: "Invalid trip ID" });
+    }
+
     const trip = await storage.getTrip(tripId);
     if (!trip) {
       return res.status(404).json({ message: "Trip not found" });
     }
 
-    // Check if user owns the trip or is a collaborator
-    if (trip.user_id !== userId) {
-      // Could add collaborator check here if needed
+    if (trip.user_id !== req.user?.id) {
       return res.status(403).json({ message: "Access denied: You don't have permission to access this trip" });
     }
 
     const activities = await storage.getActivitiesByTripId(tripId);
-    res.json(activities);
+    const calendar = buildTripCalendar(trip, activities, {
+      includePrivateDetails: true,
+      tripUrl: `${getPublicBaseUrl(req)}/trip/${trip.id}`,
+      license: tripLicense(trip)
+    });
+
+    const filename = trip.title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || `trip-${trip.id}`;
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.ics"`);
+    res.send(calendar);
   } catch (error) {
-    logger.error("Error fetching activities for trip", { tripId: req.params.id, error });
-    res.status(500).json({ message: "Could not fetch activities", error: error instanceof Error ? error.message : 'Unknown error' });
+    logger.error("Error exporting trip calendar", { tripId: req.params.id, error });
+    res.status(500).json({ message: "Could not export calendar" });
+  }
+});
+
+// Get the subscribable calendar feed URL for a trip
+router.get("/:id/calendar/subscription", async (req: Request, res: Response) => {
+  try {
+    const tripId = parseInt(req.params.id);
+    if (isNaN(tripId)) {
+      return res.status(400).json({ message: "Invalid trip ID" });
+    }
+
+    const trip = await storage.getTrip(tripId);
+    if (!trip) {
+      return res.status(404).json({ message: "Trip not found" });
+    }
+
+    if (trip.user_id !== req.user?.id) {
+      return res.status(403).json({ message: "Access denied: You don't have permission to access this trip" });
+    }
+
+    res.json(getCalendarSubscription(req, trip.calendar_token));
+  } catch (error) {
+    logger.error("Error fetching calendar subscription:", error);
+    res.status(500).json({ message: "Could not fetch calendar subscription" });
+  }
+});
+
+// Create the calendar feed token, or rotate it to invalidate the old URL
+router.post("/:id/calendar/subscription", async (req: Request, res: Response) => {
+  try {
+    const tripId = parseInt(req.params.id);
+    if (isNaN(tripId)) {
+      return res.status(400).json({ message: "Invalid trip ID" });
+    }
+
+    const trip = await storage.getTrip(tripId);
+    if (!trip) {
+      return res.status(404).json({ message: "Trip not found" });
+    }
+
+    if (trip.user_id !== req.user?.id) {
+      return res.status(403).json({ message: "Access denied: Cannot modify this trip" });
+    }
+
+    const token = randomBytes(24).toString('base64url');
+    await storage.updateTrip(tripId, { calendar_token: token });
+
+    logger.info('Calendar feed token issued', { tripId, rotated: !!trip.calendar_token });
+    res.json(getCalendarSubscription(req, token));
+  } catch (error) {
+    logger.error("Error creating calendar subscription:", error);
+    res.status(500).json({ message: "Could not create calendar subscription" });
+  }
+});
+
+// Revoke the calendar feed
+router.delete("/:id/calendar/subscription", async (req: Request, res: Response) => {
+  try {
+    const tripId = parseInt(req.params.id);
+    if (isNaN(tripId)) {
+      return res.status(400).json({ message: "Invalid trip ID" });
+    }
+
+    const trip = await storage.getTrip(tripId);
+    if (!trip) {
+      return res.status(404).json({ message: "Trip not found" });
+    }
+
+    if (trip.user_id !== req.user?.id) {
+      return res.status(403).json({ message: "Access denied: Cannot modify this trip" });
+    }
+
+    await storage.updateTrip(tripId, { calendar_token: null });
+    res.json(getCalendarSubscription(req, null));
+  } catch (error) {
+    logger.error("Error revoking calendar subscription:", error);
+    res.status(500).json({ message: "Could not revoke calendar subscription" });
+  }
+});
+
+// Trip history, newest first. Any collaborator can read it.
+router.get("/:id/history", async (req: Request, res: Response) => {
+  try {
+    const tripId = parseInt(req.params.id);
+    if (isNaN(tripId)) {
+      return res.status(400).json({ message: "Invalid trip ID" });
+    }
+
+    const access = await collaborationService.getTripAccess(tripId, req.user!.id);
+    if (!access) {
+      return res.status(404).json({ message: "Trip not found" });
+    }
+
+    const query = historyQuerySchema.parse(req.query);
+    const history = await tripHistoryService.getHistory(tripId, query);
+    res.json(history);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid history query", errors: error.errors });
+    }
+    logger.error("Error fetching trip history", { tripId: req.params.id, error });
+    res.status(500).json({ message: "Could not fetch trip history" });
+  }
+});
+
+// Undo one changeset, e.g. a single AI regeneration
+router.post("/:id/history/:changesetId/revert", async (req: Request, res: Response) => {
+  try {
+    const tripId = parseInt(req.params.id);
+    const changesetId = parseInt(req.params.changesetId);
+    if (isNaN(tripId) || isNaN(changesetId)) {
+      return res.status(400).json({ message: "Invalid trip or changeset ID" });
+    }
+
+    const access = await collaborationService.getTripAccess(tripId, req.user!.id);
+    if (!access) {
+      return res.status(404).json({ message: "Trip not found" });
+    }
+    if (access === 'viewer') {
+      return res.status(403).json({ message: "Access denied: Cannot modify this trip" });
+    }
+
+    const changeset = await tripHistoryService.getChangeset(tripId, changesetId);
+    if (!changeset) {
+      return res.status(404).json({ message: "Changeset not found" });
+    }
+    if (changeset.reverted_by_changeset_id) {
+      return res.status(409).json({ message: "This change has already been reverted" });
+    }
+
+    const revertId = await tripHistoryService.revertChangeset(tripId, req.user!.id, changesetId, req.body?.force === true);
+    res.json({ changeset_id: revertId });
+  } catch (error) {
+    if (error instanceof RevertConflictError) {
+      return res.status(409).json({ message: error.message, conflicts: error.conflicts });
+    }
+    if (error instanceof ChangesetRejectedError) {
+      return res.status(409).json({ message: "Could not revert change: the trip changed meanwhile", reason: error.reason, conflicts: error.conflicts });
+    }
+    logger.error("Error reverting trip changeset", { tripId: req.params.id, error });
+    res.status(500).json({ message: "Could not revert change" });
+  }
+});
+
+// Put the whole trip, or one day of it, back to how it was after a changeset
+router.post("/:id/history/restore", async (req: Request, res: Response) => {
+  try {
+    const tripId = parseInt(req.params.id);
+    if (isNaN(tripId)) {
+      return res.status(400).json({ message: "Invalid trip ID" });
+    }
+
+    const access = await collaborationService.getTripAccess(tripId, req.user!.id);
+    if (!access) {
+      return res.status(404).json({ message: "Trip not found" });
+    }
+    if (access === 'viewer') {
+      return res.status(403).json({ message: "Access denied: Cannot modify this trip" });
+    }
+
+    const { changeset_id, date } = restoreSchema.parse(req.body);
+    const changeset = await tripHistoryService.getChangeset(tripId, changeset_id);
+    if (!changeset) {
+      return res.status(404).json({ message: "Changeset not found" });
+    }
+
+    const restoreId = await tripHistoryService.restoreToChangeset(tripId, req.user!.id, changeset_id, date);
+    res.json({ changeset_id: restoreId });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid restore request", errors: error.errors });
+    }
+    if (error instanceof ChangesetRejectedError) {
+      return res.status(409).json({ message: "Could not restore trip: the trip changed meanwhile", reason: error.reason, conflicts: error.conflicts });
+    }
+    logger.error("Error restoring trip history", { tripId: req.params.id, error });
+    res.status(500).json({ message: "Could not restore trip" });
   }
 });
 
@@ -208,7 +443,7 @@ router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
       .from(tripsTable)
       .where(eq(tripsTable.id, tripId));
 
-    if (!trip) {
+    if (!trip || isTripLocked(trip)) {
       return res.status(404).json({ message: "Trip not found" });
     }
 
@@ -237,6 +472,7 @@ router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
       hotel: trip.hotel,
       hotelLatitude: trip.hotel_latitude,
       hotelLongitude: trip.hotel_longitude,
+      timezone: trip.timezone,
       tripType: trip.trip_type,
       budget: trip.budget,
       aiRegenerationsLimit: trip.ai_regenerations_limit,
@@ -295,13 +531,24 @@ router.put("/:id", async (req: Request, res: Response) => {
       return res.status(403).json({ message: "Access denied: Cannot modify this trip" });
     }
 
-    const updateData = insertTripSchema.partial().parse(req.body);
+    // The calendar feed token is only issued through /calendar/subscription
+    const updateData = insertTripSchema.omit({ calendar_token: true, revision: true }).partial().parse(req.body);
+
+    if (updateData.timezone && !isValidTimeZone(updateData.timezone)) {
+      return res.status(400).json({ message: "Invalid time zone" });
+    }
+
     const updatedTrip = await storage.updateTrip(tripId, updateData);
 
     if (!updatedTrip) {
       return res.status(404).json({ message: "Trip not found" });
     }
 
+    const change = updateChange('trip', tripId, existingTrip, updatedTrip);
+    if (change) {
+      await tripHistoryService.recordChanges(tripId, req.user!.id, { source: 'user' }, [change]);
+    }
+
     res.json(updatedTrip);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -507,8 +754,17 @@ router.post("/:id/add-hotel", async (req: Request, res: Response) => {
       hotelTrackingId: trackingId
     });
 
+    const changesetId = await tripHistoryService.startChangeset(null, tripId, req.user!.id, {
+      source: 'user',
+      description: `Added hotel ${hotel.name}`,
+    });
+    const change = updatedTrip ? updateChange('trip', tripId, trip, updatedTrip) : null;
+    if (change) {
+      await tripHistoryService.recordChanges(tripId, req.user!.id, { source: 'user', changesetId }, [change]);
+    }
+
     // Also create an activity for the hotel stay
-    await storage.createActivity({
+    const checkInActivity = await storage.createActivity({
       trip_id: tripId,
       title: `Check-in: ${hotel.name}`,
       description: `Hotel stay at ${hotel.name}`,
@@ -522,7 +778,7 @@ router.post("/:id/add-hotel", async (req: Request, res: Response) => {
     });
 
     // Create check-out activity
-    await storage.createActivity({
+    const checkOutActivity = await storage.createActivity({
       trip_id: tripId,
       title: `Check-out: ${hotel.name}`,
       description: `Check out from ${hotel.name}`,
@@ -535,6 +791,10 @@ router.post("/:id/add-hotel", async (req: Request, res: Response) => {
       booking_reference: trackingId
     });
 
+    for (const activity of [checkInActivity, checkOutActivity]) {
+      await collaborationService.recordActivityCreated(activity, req.user!.id, { source: 'user', changesetId });
+    }
+
     res.json({
       success: true,
       trip: updatedTrip,
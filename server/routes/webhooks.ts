@@ -1,12 +1,17 @@
 import { Router, Request, Response } from 'express';
 import Stripe from 'stripe';
+import crypto from 'crypto';
 import { logger } from '../utils/logger';
 import { db } from '../db-connection';
-import { templatePurchases, templates, users, creatorBalances } from '@shared/schema';
+import { templatePurchases, templates, users, TemplatePurchase } from '@shared/schema';
 import { eq, and, sql } from 'drizzle-orm';
 import { storage } from '../storage';
 import { webhookRateLimit } from '../middleware/rateLimiting';
 import { auditService } from '../services/auditService';
+import { creatorPayoutService } from '../services/creatorPayoutService';
+import { referralService } from '../services/referralService';
+import { refundService } from '../services/refundService';
+import { flightBookingService } from '../services/flightBookingService';
 
 const router = Router();
 
@@ -86,6 +91,10 @@ router.post('/stripe', webhookRateLimit, async (req: Request, res: Response) =>
         await handleDisputeCreated(event.data.object as Stripe.Dispute);
         break;
 
+      case 'charge.dispute.closed':
+        await handleDisputeClosed(event.data.object as Stripe.Dispute);
+        break;
+
       default:
         logger.info(`Unhandled webhook event type: ${event.type}`);
     }
@@ -97,6 +106,56 @@ router.post('/stripe', webhookRateLimit, async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * Verify Duffel's X-Duffel-Signature header ("t=<timestamp>,v1=<hmac>"): an
+ * HMAC-SHA256 of "<timestamp>.<raw body>" keyed with the webhook secret
+ */
+function verifyDuffelSignature(header: string | undefined, rawBody: string, secret: string): boolean {
+  if (!header) return false;
+  const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=', 2) as [string, string]));
+  if (!parts.t || !parts.v1) return false;
+
+  const expected = crypto.createHmac('sha256', secret).update(`${parts.t}.${rawBody}`).digest('hex');
+  const received = Buffer.from(parts.v1, 'hex');
+  return received.length === expected.length / 2 && crypto.timingSafeEqual(received, Buffer.from(expected, 'hex'));
+}
+
+// Duffel order updates - airline cancellations and schedule changes
+router.post('/duffel', webhookRateLimit, async (req: Request, res: Response) => {
+  const duffelSecret = process.env.DUFFEL_WEBHOOK_SECRET;
+
+  if (duffelSecret) {
+    const rawBody = ((req as any).rawBody || Buffer.from(JSON.stringify(req.body))).toString();
+    if (!verifyDuffelSignature(req.headers['x-duffel-signature'] as string | undefined, rawBody, duffelSecret)) {
+      logger.error('Duffel webhook signature verification failed');
+      return res.status(400).send('Invalid signature');
+    }
+  } else if (process.env.NODE_ENV !== 'development') {
+    logger.error('Duffel webhook rejected - DUFFEL_WEBHOOK_SECRET is not configured');
+    return res.status(403).send('Webhook signature verification required');
+  }
+
+  const event = req.body || {};
+  logger.info(`Duffel webhook received: ${event.type}`, { eventId: event.id, type: event.type });
+
+  try {
+    const orderId = event.data?.object?.id;
+    if (typeof event.type === 'string' && event.type.startsWith('order.') && typeof orderId === 'string') {
+      const booking = await flightBookingService.findByOrderId(orderId);
+      if (booking) {
+        await flightBookingService.syncOrder(booking);
+      } else {
+        logger.info('Duffel webhook for an order not booked here', { orderId });
+      }
+    }
+
+    res.json({ received: true });
+  } catch (error) {
+    logger.error(`Error processing Duffel webhook ${event.type}:`, error);
+    res.status(500).send('Webhook processing failed');
+  }
+});
+
 /**
  * Handle successful payment intent
  */
@@ -131,6 +190,8 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
 
   if (existingPurchase.length > 0) {
     logger.info(`Purchase already processed for payment intent ${paymentIntent.id}`);
+    // Checkout confirmation may have created the purchase first; the conversion is only recorded here
+    await recordReferral(existingPurchase[0], metadata);
     return;
   }
 
@@ -173,39 +234,15 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
     })
     .where(eq(templates.id, templateId));
 
-  // Update seller's total sales and balance
+  // Update seller's total sales
   await db.update(users)
     .set({
       total_template_sales: sql`COALESCE(total_template_sales, 0) + 1`,
-      total_template_revenue: sql`COALESCE(total_template_revenue, 0) + ${sellerEarnings}`,
     })
     .where(eq(users.id, sellerId));
 
-  // Update or create creator balance
-  const [existingBalance] = await db.select()
-    .from(creatorBalances)
-    .where(eq(creatorBalances.user_id, sellerId))
-    .limit(1);
-
-  if (existingBalance) {
-    await db.update(creatorBalances)
-      .set({
-        available_balance: sql`available_balance + ${sellerEarnings}`,
-        lifetime_earnings: sql`lifetime_earnings + ${sellerEarnings}`,
-        updated_at: new Date()
-      })
-      .where(eq(creatorBalances.user_id, sellerId));
-  } else {
-    await db.insert(creatorBalances)
-      .values({
-        user_id: sellerId,
-        available_balance: sellerEarnings.toString(),
-        pending_balance: '0',
-        lifetime_earnings: sellerEarnings.toString(),
-        lifetime_payouts: '0',
-        currency: 'USD'
-      });
-  }
+  // Earnings are held in the pending balance until the refund window passes
+  await creatorPayoutService.creditSale(purchase);
 
   // Copy template to buyer's trips (without dates - user will set them)
   try {
@@ -220,6 +257,8 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
 
   logger.info(`Purchase ${purchase.id} created successfully via webhook`);
 
+  await recordReferral(purchase, metadata);
+
   // Audit log the successful payment
   await auditService.logPaymentEvent('payment.completed', paymentIntent.id, buyerId, {
     templateId,
@@ -229,6 +268,15 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
   });
 }
 
+/**
+ * Attribute a purchase to the share link named in its payment intent
+ */
+async function recordReferral(purchase: TemplatePurchase, metadata: Stripe.Metadata) {
+  if (!metadata.referralCode) return;
+  const clickedAt = metadata.referralClickedAt ? new Date(metadata.referralClickedAt) : null;
+  await referralService.recordConversion(purchase, metadata.referralCode, clickedAt && !isNaN(clickedAt.getTime()) ? clickedAt : null);
+}
+
 /**
  * Handle failed payment intent
  */
@@ -245,7 +293,7 @@ async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
 }
 
 /**
- * Handle charge refund
+ * Handle charge refund, for a template or bundle purchase
  */
 async function handleChargeRefunded(charge: Stripe.Charge) {
   if (!charge.payment_intent) {
@@ -257,81 +305,16 @@ async function handleChargeRefunded(charge: Stripe.Charge) {
     ? charge.payment_intent
     : charge.payment_intent.id;
 
-  // Find the purchase
-  const [purchase] = await db.select()
-    .from(templatePurchases)
-    .where(eq(templatePurchases.stripe_payment_intent_id, paymentIntentId))
-    .limit(1);
-
-  if (!purchase) {
+  const sale = await refundService.findSaleByPaymentIntent(paymentIntentId);
+  if (!sale) {
     logger.warn(`No purchase found for refunded payment intent ${paymentIntentId}`);
     return;
   }
 
-  // Update purchase status
-  await db.update(templatePurchases)
-    .set({
-      status: 'refunded',
-      refunded_at: new Date(),
-      refund_amount: (charge.amount_refunded / 100).toFixed(2)
-    })
-    .where(eq(templatePurchases.id, purchase.id));
-
-  // Decrease template sales count
-  await db.update(templates)
-    .set({
-      sales_count: sql`GREATEST(COALESCE(sales_count, 0) - 1, 0)`
-    })
-    .where(eq(templates.id, purchase.template_id));
-
-  // REVOKE ACCESS: Delete or mark the trip created from this template
-  try {
-    // Find trips created from this purchase
-    const { trips } = await import('@shared/schema');
-    const tripsToRevoke = await db.select()
-      .from(trips)
-      .where(and(
-        eq(trips.user_id, purchase.buyer_id),
-        eq(trips.source_template_id, purchase.template_id),
-        // Only delete trips created around the purchase time (within 1 hour)
-        sql`created_at BETWEEN ${purchase.purchased_at} - INTERVAL '1 hour' AND ${purchase.purchased_at} + INTERVAL '1 hour'`
-      ));
-
-    if (tripsToRevoke.length > 0) {
-      // Option 1: Soft delete (mark as revoked)
-      await db.update(trips)
-        .set({
-          status: 'revoked',
-          revoked_reason: 'Template purchase refunded',
-          revoked_at: new Date()
-        })
-        .where(eq(trips.id, tripsToRevoke[0].id));
-
-      logger.info(`Revoked access to trip ${tripsToRevoke[0].id} due to refund`);
-    }
-  } catch (error) {
-    logger.error('Failed to revoke trip access after refund:', error);
-  }
-
-  // Adjust seller's balance
-  const sellerEarnings = parseFloat(purchase.seller_earnings || '0');
-
-  await db.update(creatorBalances)
-    .set({
-      available_balance: sql`GREATEST(available_balance - ${sellerEarnings}, 0)`,
-      updated_at: new Date()
-    })
-    .where(eq(creatorBalances.user_id, purchase.seller_id));
+  // Claws back the creator's earnings and revokes the buyer's trips
+  const refunded = await refundService.applyRefund(sale, charge.amount_refunded / 100, `Refund of charge ${charge.id}`);
 
-  // Adjust seller's total sales
-  await db.update(users)
-    .set({
-      total_template_sales: sql`GREATEST(COALESCE(total_template_sales, 0) - 1, 0)`,
-      total_template_revenue: sql`GREATEST(COALESCE(total_template_revenue, 0) - ${sellerEarnings}, 0)`,
-    })
-    .where(eq(users.id, purchase.seller_id));
-
-  logger.info(`Refund processed for purchase ${purchase.id}`);
+  logger.info(`Refund processed for payment intent ${paymentIntentId}`, { purchases: refunded });
 }
 
 /**
@@ -340,61 +323,16 @@ async function handleChargeRefunded(charge: Stripe.Charge) {
 async function handleDisputeCreated(dispute: Stripe.Dispute) {
   const paymentIntentId = dispute.payment_intent as string;
 
-  // Find the purchase
-  const [purchase] = await db.select()
-    .from(templatePurchases)
-    .where(eq(templatePurchases.stripe_payment_intent_id, paymentIntentId))
-    .limit(1);
-
-  if (!purchase) {
+  const sale = await refundService.findSaleByPaymentIntent(paymentIntentId);
+  if (!sale) {
     logger.warn(`No purchase found for disputed payment intent ${paymentIntentId}`);
     return;
   }
 
-  // Update purchase status
-  await db.update(templatePurchases)
-    .set({
-      status: 'disputed',
-      disputed_at: new Date()
-    })
-    .where(eq(templatePurchases.id, purchase.id));
+  // Holds the earnings in the refunds reserve and freezes the buyer's trips
+  await refundService.openDispute(sale, dispute.id);
 
-  // Put seller earnings on hold
-  await db.update(creatorBalances)
-    .set({
-      pending_balance: sql`pending_balance + ${purchase.seller_earnings}`,
-      available_balance: sql`GREATEST(available_balance - ${purchase.seller_earnings}, 0)`,
-      updated_at: new Date()
-    })
-    .where(eq(creatorBalances.user_id, purchase.seller_id));
-
-  // FREEZE ACCESS: Mark the trip as under review
-  try {
-    const { trips } = await import('@shared/schema');
-    const tripsToFreeze = await db.select()
-      .from(trips)
-      .where(and(
-        eq(trips.user_id, purchase.buyer_id),
-        eq(trips.source_template_id, purchase.template_id),
-        sql`created_at BETWEEN ${purchase.purchased_at} - INTERVAL '1 hour' AND ${purchase.purchased_at} + INTERVAL '1 hour'`
-      ));
-
-    if (tripsToFreeze.length > 0) {
-      await db.update(trips)
-        .set({
-          status: 'frozen',
-          frozen_reason: 'Template purchase disputed',
-          frozen_at: new Date()
-        })
-        .where(eq(trips.id, tripsToFreeze[0].id));
-
-      logger.info(`Froze access to trip ${tripsToFreeze[0].id} due to dispute`);
-    }
-  } catch (error) {
-    logger.error('Failed to freeze trip access after dispute:', error);
-  }
-
-  logger.warn(`Dispute created for purchase ${purchase.id}`, {
+  logger.warn(`Dispute created for payment intent ${paymentIntentId}`, {
     reason: dispute.reason,
     amount: dispute.amount
   });
@@ -402,4 +340,21 @@ async function handleDisputeCreated(dispute: Stripe.Dispute) {
   // TODO: Send notification to admin and seller about the dispute
 }
 
-export default router;
\ No newline at end of file
+/**
+ * Handle dispute closure: reinstate the purchase if won, refund it if lost
+ */
+async function handleDisputeClosed(dispute: Stripe.Dispute) {
+  const paymentIntentId = dispute.payment_intent as string;
+
+  const sale = await refundService.findSaleByPaymentIntent(paymentIntentId);
+  if (!sale) {
+    logger.warn(`No purchase found for closed dispute on payment intent ${paymentIntentId}`);
+    return;
+  }
+
+  await refundService.closeDispute(sale, dispute);
+
+  logger.info(`Dispute ${dispute.id} closed as ${dispute.status} for payment intent ${paymentIntentId}`);
+}
+
+export default router;
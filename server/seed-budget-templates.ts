@@ -2,7 +2,7 @@ import 'dotenv/config';
 import { db } from './db';
 import { templates, users } from '@shared/schema';
 import { eq } from 'drizzle-orm';
-import { getOpenAIClient } from './services/openaiClient';
+import { llm } from './services/llmService';
 
 // Template configurations for budget-focused trips - 10 templates
 const budgetTemplates = [
@@ -208,9 +208,7 @@ async function seedBudgetTemplates() {
       }`;
 
       try {
-        const openaiClient = getOpenAIClient();
-        const response = await openaiClient.chat.completions.create({
-          model: 'gpt-3.5-turbo',
+        const response = await llm.chat('templates', {
           messages: [
             {
               role: 'system',
@@ -222,10 +220,10 @@ async function seedBudgetTemplates() {
             }
           ],
           temperature: 0.8,
-          max_tokens: 4000,
+          maxTokens: 4000,
         });
 
-        let content = response.choices[0].message.content || '{}';
+        let content = response.content || '{}';
         // Remove markdown code blocks if present
         content = content.replace(/^```json\n?/, '').replace(/\n?```$/, '');
         const generatedItinerary = JSON.parse(content);
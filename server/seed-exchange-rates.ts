@@ -0,0 +1,27 @@
+import 'dotenv/config';
+import { readFileSync } from 'fs';
+import { currencyService, parseRatesCsv } from './services/currencyService';
+
+// Seed the built-in reference rates, then optionally load a CSV of
+// `date,base,quote,rate` lines: npm run seed:rates -- rates.csv
+async function seedExchangeRates() {
+  const seeded = await currencyService.seedDefaultRates();
+  console.log(`Seeded ${seeded} reference exchange rates`);
+
+  const file = process.argv[2];
+  if (file) {
+    const { rates, errors } = parseRatesCsv(readFileSync(file, 'utf8'));
+    if (errors.length > 0) {
+      console.error(`Skipped ${errors.length} invalid lines:\n${errors.join('\n')}`);
+    }
+    const loaded = await currencyService.upsertRates(rates, 'import');
+    console.log(`Loaded ${loaded} exchange rates from ${file}`);
+  }
+}
+
+seedExchangeRates()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Failed to seed exchange rates:', error);
+    process.exit(1);
+  });
@@ -2,7 +2,7 @@ import 'dotenv/config';
 import { db } from './db';
 import { templates, users } from '@shared/schema';
 import { eq } from 'drizzle-orm';
-import { getOpenAIClient } from './services/openaiClient';
+import { llm } from './services/llmService';
 
 // Template configurations for kid-friendly family trips - 10 templates
 const kidFriendlyTemplates = [
@@ -217,9 +217,7 @@ async function seedKidFriendlyTemplates() {
       }`;
 
       try {
-        const openaiClient = getOpenAIClient();
-        const response = await openaiClient.chat.completions.create({
-          model: 'gpt-3.5-turbo',
+        const response = await llm.chat('templates', {
           messages: [
             {
               role: 'system',
@@ -231,10 +229,10 @@ async function seedKidFriendlyTemplates() {
             }
           ],
           temperature: 0.8,
-          max_tokens: 4000,
+          maxTokens: 4000,
         });
 
-        let content = response.choices[0].message.content || '{}';
+        let content = response.content || '{}';
         // Remove markdown code blocks if present
         content = content.replace(/^```json\n?/, '').replace(/\n?```$/, '');
         const generatedItinerary = JSON.parse(content);
@@ -1,4 +1,6 @@
 import { CONFIG } from '../config/constants';
+import { aiUsage } from './aiUsageService';
+import type { LLMFeature } from './llmService';
 
 // Simple in-memory cache for AI search results
 // Upgrade to Redis when scaling beyond single server
@@ -24,7 +26,8 @@ class AISearchCache {
     DEFAULT: CONFIG.CACHE_TTL_DEFAULT
   };
 
-  get(key: string): any | null {
+  // Hits are metered against `feature` when given, as requests that cost nothing
+  get(key: string, feature?: LLMFeature): any | null {
     const entry = this.cache.get(key);
     
     if (!entry) {
@@ -39,6 +42,9 @@ class AISearchCache {
     
     // Update hit count
     entry.hits++;
+    if (feature) {
+      aiUsage.recordCacheHit(feature);
+    }
     
     return entry.data;
   }
@@ -0,0 +1,291 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { NextFunction, Request, Response } from 'express';
+import { and, eq, gte, sql } from 'drizzle-orm';
+import { aiUsageEvents, users } from '@shared/schema';
+import { db } from '../db-connection';
+import { logger } from '../utils/logger';
+import { getSetting } from './systemSettingsService';
+import type { LLMUsage } from './llmProvider';
+import type { LLMFeature } from './llmService';
+
+/**
+ * AI usage metering. Every model call made through `llm` is recorded with
+ * its tokens, estimated cost and latency, and checked against the calling
+ * user's quotas first. The user comes from the request: `aiUsageScope` runs
+ * the rest of the request (and anything it starts, like generation jobs)
+ * with the signed-in user attached, so callers don't pass it around.
+ *
+ * Quotas are per user per UTC day, set with system settings (0 = no limit):
+ * `ai_quota_daily_requests`, `ai_quota_daily_cost_usd` and
+ * `ai_quota_<feature>_daily_requests`. AI cache hits are recorded but don't
+ * count towards them.
+ */
+
+export interface AIUsageScope {
+  userId: number | null;
+}
+
+export interface AIUsageRecord {
+  feature: LLMFeature;
+  provider: string;
+  model: string;
+  usage?: LLMUsage;
+  latencyMs: number;
+  cacheHit?: boolean;
+  success: boolean;
+}
+
+export type AIQuotaKind = 'daily_requests' | 'daily_cost' | 'feature_daily_requests';
+
+export class AIQuotaExceededError extends Error {
+  constructor(public feature: LLMFeature | null, public quota: AIQuotaKind, public resetAt: Date, message: string) {
+    super(message);
+    this.name = 'AIQuotaExceededError';
+  }
+}
+
+/**
+ * List prices in USD per million tokens, matched by model name prefix
+ * (longest first). Local and stub models are free; unknown models count as
+ * free too, so add them here when switching.
+ */
+const MODEL_PRICES: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+  { prefix: 'gpt-4-turbo', input: 10, output: 30 },
+  { prefix: 'gpt-4', input: 30, output: 60 },
+  { prefix: 'gpt-3.5-turbo', input: 0.5, output: 1.5 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-opus', input: 15, output: 75 },
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+].sort((a, b) => b.prefix.length - a.prefix.length);
+
+const FREE_PROVIDERS = new Set(['local', 'stub', 'cache']);
+
+export function estimateCost(provider: string, model: string, usage?: LLMUsage): number {
+  if (!usage || FREE_PROVIDERS.has(provider)) return 0;
+  const price = MODEL_PRICES.find(entry => model.startsWith(entry.prefix));
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+function startOfUTCDay(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+async function numberSetting(key: string): Promise<number> {
+  try {
+    const value = Number(await getSetting(key));
+    return Number.isFinite(value) && value > 0 ? value : 0;
+  } catch {
+    return 0;
+  }
+}
+
+export interface AIUsageTotals {
+  requests: number;
+  costUsd: number;
+  featureRequests: number;
+}
+
+export interface AIQuotas {
+  dailyRequests: number;
+  dailyCostUsd: number;
+  featureDailyRequests: number;
+}
+
+/**
+ * Which quota, if any, a user who has used `totals` today has run out of.
+ */
+export function exceededQuota(totals: AIUsageTotals, quotas: AIQuotas): AIQuotaKind | null {
+  if (quotas.featureDailyRequests && totals.featureRequests >= quotas.featureDailyRequests) return 'feature_daily_requests';
+  if (quotas.dailyRequests && totals.requests >= quotas.dailyRequests) return 'daily_requests';
+  if (quotas.dailyCostUsd && totals.costUsd >= quotas.dailyCostUsd) return 'daily_cost';
+  return null;
+}
+
+export class AIUsageService {
+  private storage = new AsyncLocalStorage<AIUsageScope>();
+
+  /**
+   * Run `fn` on behalf of a user; model calls inside it are metered to them.
+   */
+  run<T>(userId: number | null, fn: () => T): T {
+    return this.storage.run({ userId }, fn);
+  }
+
+  currentUserId(): number | null {
+    return this.storage.getStore()?.userId ?? null;
+  }
+
+  async quotas(feature?: LLMFeature): Promise<AIQuotas> {
+    const [dailyRequests, dailyCostUsd, featureDailyRequests] = await Promise.all([
+      numberSetting('ai_quota_daily_requests'),
+      numberSetting('ai_quota_daily_cost_usd'),
+      feature ? numberSetting(`ai_quota_${feature}_daily_requests`) : 0,
+    ]);
+    return { dailyRequests, dailyCostUsd, featureDailyRequests };
+  }
+
+  async todaysUsage(userId: number, feature?: LLMFeature): Promise<AIUsageTotals> {
+    const [totals] = await db.select({
+      requests: sql<number>`count(*)::int`,
+      costUsd: sql<string>`coalesce(sum(${aiUsageEvents.cost_usd}), 0)`,
+      featureRequests: sql<number>`(count(*) filter (where ${aiUsageEvents.feature} = ${feature ?? null}))::int`,
+    })
+    .from(aiUsageEvents)
+    .where(and(
+      eq(aiUsageEvents.user_id, userId),
+      eq(aiUsageEvents.cache_hit, false),
+      gte(aiUsageEvents.created_at, startOfUTCDay())
+    ));
+    return {
+      requests: Number(totals?.requests ?? 0),
+      costUsd: Number(totals?.costUsd ?? 0),
+      featureRequests: Number(totals?.featureRequests ?? 0),
+    };
+  }
+
+  /**
+   * The quota the user has run out of today, for one feature or overall.
+   * A metering failure doesn't block anyone.
+   */
+  async exceeded(userId: number, feature?: LLMFeature): Promise<AIQuotaExceededError | null> {
+    let kind: AIQuotaKind | null;
+    try {
+      const quotas = await this.quotas(feature);
+      if (!quotas.dailyRequests && !quotas.dailyCostUsd && !quotas.featureDailyRequests) return null;
+      kind = exceededQuota(await this.todaysUsage(userId, feature), quotas);
+    } catch (error) {
+      logger.warn('Could not check AI quota', { userId, feature, error });
+      return null;
+    }
+    if (!kind) return null;
+
+    const resetAt = new Date(startOfUTCDay().getTime() + 24 * 60 * 60 * 1000);
+    const message = kind === 'feature_daily_requests' && feature
+      ? `You've reached today's limit for AI ${feature.replace('_', ' ')} requests`
+      : kind === 'daily_cost'
+        ? "You've reached today's AI usage allowance"
+        : "You've reached today's limit for AI requests";
+    return new AIQuotaExceededError(feature ?? null, kind, resetAt, message);
+  }
+
+  /**
+   * Throw AIQuotaExceededError if the current user is out of quota for the
+   * feature. Calls without a user aren't limited.
+   */
+  async check(feature: LLMFeature): Promise<void> {
+    const userId = this.currentUserId();
+    if (userId === null) return;
+    const error = await this.exceeded(userId, feature);
+    if (error) throw error;
+  }
+
+  async record(entry: AIUsageRecord): Promise<void> {
+    try {
+      await db.insert(aiUsageEvents).values({
+        user_id: this.currentUserId(),
+        feature: entry.feature,
+        provider: entry.provider,
+        model: entry.model,
+        prompt_tokens: entry.usage?.inputTokens ?? 0,
+        completion_tokens: entry.usage?.outputTokens ?? 0,
+        cost_usd: estimateCost(entry.provider, entry.model, entry.usage).toFixed(6),
+        latency_ms: Math.round(entry.latencyMs),
+        cache_hit: entry.cacheHit ?? false,
+        success: entry.success,
+      });
+    } catch (error) {
+      logger.warn('Could not record AI usage', { feature: entry.feature, error });
+    }
+  }
+
+  /**
+   * A request answered from the AI cache instead of a model call.
+   */
+  recordCacheHit(feature: LLMFeature): Promise<void> {
+    return this.record({ feature, provider: 'cache', model: 'cache', latencyMs: 0, cacheHit: true, success: true });
+  }
+
+  /**
+   * Spend by feature and day, with totals and the heaviest users, for the
+   * admin dashboard.
+   */
+  async report(days: number) {
+    const since = new Date(startOfUTCDay().getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+    const inRange = gte(aiUsageEvents.created_at, since);
+    const day = sql<string>`to_char(date_trunc('day', ${aiUsageEvents.created_at}), 'YYYY-MM-DD')`;
+    const metrics = {
+      requests: sql<number>`(count(*) filter (where not ${aiUsageEvents.cache_hit}))::int`,
+      cache_hits: sql<number>`(count(*) filter (where ${aiUsageEvents.cache_hit}))::int`,
+      failures: sql<number>`(count(*) filter (where not ${aiUsageEvents.success}))::int`,
+      prompt_tokens: sql<number>`coalesce(sum(${aiUsageEvents.prompt_tokens}), 0)::int`,
+      completion_tokens: sql<number>`coalesce(sum(${aiUsageEvents.completion_tokens}), 0)::int`,
+      cost_usd: sql<number>`coalesce(sum(${aiUsageEvents.cost_usd}), 0)::float`,
+      avg_latency_ms: sql<number>`coalesce(avg(${aiUsageEvents.latency_ms}) filter (where not ${aiUsageEvents.cache_hit}), 0)::int`,
+    };
+
+    const [byDay, byFeature, topUsers, [totals]] = await Promise.all([
+      db.select({ day, feature: aiUsageEvents.feature, ...metrics })
+        .from(aiUsageEvents)
+        .where(inRange)
+        .groupBy(day, aiUsageEvents.feature)
+        .orderBy(day, aiUsageEvents.feature),
+      db.select({ feature: aiUsageEvents.feature, ...metrics })
+        .from(aiUsageEvents)
+        .where(inRange)
+        .groupBy(aiUsageEvents.feature)
+        .orderBy(sql`sum(${aiUsageEvents.cost_usd}) desc`),
+      db.select({ user_id: aiUsageEvents.user_id, username: users.username, ...metrics })
+        .from(aiUsageEvents)
+        .leftJoin(users, eq(aiUsageEvents.user_id, users.id))
+        .where(inRange)
+        .groupBy(aiUsageEvents.user_id, users.username)
+        .orderBy(sql`sum(${aiUsageEvents.cost_usd}) desc`)
+        .limit(10),
+      db.select(metrics).from(aiUsageEvents).where(inRange),
+    ]);
+
+    return { since: since.toISOString(), days, totals, by_feature: byFeature, by_day: byDay, top_users: topUsers };
+  }
+}
+
+export const aiUsage = new AIUsageService();
+
+/**
+ * Attach the signed-in user to everything the rest of the request does, so
+ * model calls are metered to them. Mount after authentication.
+ */
+export function aiUsageScope(req: Request, _res: Response, next: NextFunction) {
+  aiUsage.run(req.user?.id ?? null, next);
+}
+
+/**
+ * Turn away AI requests from users who are out of their daily quota before
+ * any work is done. Per-feature limits are checked when the model is called.
+ */
+export async function aiQuotaGuard(req: Request, res: Response, next: NextFunction) {
+  const exceeded = req.user ? await aiUsage.exceeded(req.user.id) : null;
+  if (exceeded) {
+    return res.status(429).json(quotaErrorBody(exceeded));
+  }
+  next();
+}
+
+export function quotaErrorBody(error: AIQuotaExceededError) {
+  return {
+    success: false,
+    error: error.message,
+    code: 'ai_quota_exceeded',
+    quota: error.quota,
+    reset_at: error.resetAt.toISOString(),
+  };
+}
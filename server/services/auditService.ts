@@ -19,7 +19,9 @@ export type AuditEventType =
   | 'trip.shared'
   | 'security.webhook_failed'
   | 'security.rate_limit_exceeded'
-  | 'security.piracy_detected';
+  | 'security.piracy_detected'
+  | 'tax.profile_submitted'
+  | 'tax.report_exported';
 
 export interface AuditEvent {
   eventType: AuditEventType;
@@ -339,7 +341,8 @@ export class AuditService {
       'payment.disputed',
       'security.piracy_detected',
       'security.webhook_failed',
-      'user.suspicious_activity'
+      'user.suspicious_activity',
+      'tax.report_exported'
     ];
     return importantEvents.includes(eventType);
   }
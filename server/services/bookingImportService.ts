@@ -0,0 +1,623 @@
+import { z } from 'zod';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../db-connection';
+import { activities, bookings, trips, Activity, Booking, Trip, TripOperation } from '@shared/schema';
+import { storage } from '../storage';
+import { llm } from './llmService';
+import { detectConflicts } from './itineraryOptimizationService';
+import { collaborationService } from './collaborationService';
+import { tripHistoryService } from './tripHistoryService';
+import { logger } from '../utils/logger';
+import { parseEml } from '../utils/emailParser';
+import { parseIcsEvents, IcsEvent } from '../utils/icsParser';
+import {
+  parseLooseDate,
+  extractTime,
+  extractAmount,
+  extractLabeledValue,
+  normalizeCurrency,
+} from '../utils/textExtraction';
+
+/**
+ * Booking import: turns confirmation emails, .eml files and .ics attachments
+ * into `bookings` rows plus the matching activities on the trip.
+ *
+ * Parsing runs in three tiers:
+ *   1. .ics events (structured, highest confidence)
+ *   2. vendor-specific extractors for flights, hotels, car rentals and tours
+ *   3. the LLM, only for documents no extractor recognised
+ */
+
+export type ImportedBookingType = 'flight' | 'hotel' | 'car_rental' | 'activity';
+
+export const parsedBookingSchema = z.object({
+  bookingType: z.enum(['flight', 'hotel', 'car_rental', 'activity']),
+  provider: z.string().nullable(),
+  confirmationNumber: z.string().nullable(),
+  title: z.string().min(1),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/).nullable(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/).nullable(),
+  locationName: z.string().nullable(),
+  endLocationName: z.string().nullable().optional(),
+  totalAmount: z.number().nullable(),
+  currency: z.string().nullable(),
+  details: z.record(z.any()).default({}),
+  source: z.enum(['ics', 'vendor', 'llm', 'manual']),
+  confidence: z.number().min(0).max(1),
+});
+
+export type ParsedBooking = z.infer<typeof parsedBookingSchema>;
+
+export interface ImportSource {
+  kind: 'text' | 'eml' | 'ics';
+  filename?: string;
+  content: Buffer;
+}
+
+export interface ParseContext {
+  referenceDate: Date;
+  timeZone?: string | null;
+  allowLlmFallback?: boolean;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+interface SourceDocument {
+  subject: string;
+  from: string;
+  text: string;
+  referenceDate: Date;
+}
+
+interface VendorExtractor {
+  name: string;
+  matches(doc: SourceDocument): boolean;
+  extract(doc: SourceDocument): ParsedBooking[];
+}
+
+const AIRLINES = [
+  'United', 'Delta', 'American Airlines', 'Southwest', 'JetBlue', 'Alaska Airlines', 'Air Canada',
+  'British Airways', 'Lufthansa', 'Air France', 'KLM', 'Iberia', 'Emirates', 'Qatar Airways',
+  'Ryanair', 'easyJet', 'Turkish Airlines', 'Singapore Airlines', 'Qantas', 'ANA', 'Japan Airlines',
+];
+const HOTEL_PROVIDERS = ['Booking.com', 'Expedia', 'Hotels.com', 'Airbnb', 'Marriott', 'Hilton', 'Hyatt', 'IHG', 'Accor', 'Agoda', 'Vrbo'];
+const RENTAL_PROVIDERS = ['Hertz', 'Avis', 'Enterprise', 'Sixt', 'Budget', 'Europcar', 'National', 'Alamo', 'Thrifty', 'Dollar', 'Turo'];
+const TOUR_PROVIDERS = ['Viator', 'GetYourGuide', 'Klook', 'Tiqets', 'Musement'];
+
+function findProvider(doc: SourceDocument, names: string[]): string | null {
+  const haystack = `${doc.from}\n${doc.subject}\n${doc.text.slice(0, 2000)}`;
+  return names.find(name => new RegExp(`\\b${name.replace(/\./g, '\\.')}\\b`, 'i').test(haystack)) || null;
+}
+
+function findConfirmationNumber(text: string): string | null {
+  const patterns = [
+    /(?:record locator|PNR|confirmation code|booking code)\s*[:#]?\s*([A-Z0-9]{5,8})\b/i,
+    /(?:confirmation|booking|reservation|itinerary)\s*(?:number|no\.?|reference|ref\.?|id|#)\s*[:#]?\s*([A-Za-z0-9-]{5,20})\b/gi,
+    /(?:confirmation|booking|reservation)\s*:\s*([A-Za-z0-9-]{5,20})\b/gi,
+  ];
+
+  for (const pattern of patterns) {
+    const matches = pattern.global ? Array.from(text.matchAll(pattern)) : [text.match(pattern)].filter(Boolean) as RegExpMatchArray[];
+    for (const match of matches) {
+      const code = match[1];
+      // Skip plain words like "Confirmed" that follow the label
+      if (/\d/.test(code) || code === code.toUpperCase()) return code.toUpperCase();
+    }
+  }
+  return null;
+}
+
+function dateAndTime(value: string | null, doc: SourceDocument): { date: string | null; time: string | null } {
+  return { date: parseLooseDate(value, doc.referenceDate), time: extractTime(value) };
+}
+
+function baseBooking(bookingType: ImportedBookingType, title: string): ParsedBooking {
+  return {
+    bookingType,
+    provider: null,
+    confirmationNumber: null,
+    title,
+    startDate: null,
+    startTime: null,
+    endDate: null,
+    endTime: null,
+    locationName: null,
+    endLocationName: null,
+    totalAmount: null,
+    currency: null,
+    details: {},
+    source: 'vendor',
+    confidence: 0.8,
+  };
+}
+
+const FLIGHT_NUMBER = /\bFlight\s*(?:number|no\.?|#)?\s*:?\s*([A-Z][A-Z0-9]|[0-9][A-Z])\s?(\d{1,4})\b/g;
+
+const flightExtractor: VendorExtractor = {
+  name: 'flight',
+  matches: (doc) => new RegExp(FLIGHT_NUMBER.source, 'i').test(doc.text),
+  extract: (doc) => {
+    const matches = Array.from(doc.text.matchAll(new RegExp(FLIGHT_NUMBER.source, 'gi')))
+      .filter(m => /^[A-Z0-9]{2}$/.test(m[1]));
+    const provider = findProvider(doc, AIRLINES);
+    const confirmationNumber = findConfirmationNumber(doc.text);
+    const seen = new Set<string>();
+    const results: ParsedBooking[] = [];
+
+    matches.forEach((match, index) => {
+      const flightNumber = `${match[1]}${match[2]}`;
+      const start = match.index!;
+      const end = index + 1 < matches.length ? matches[index + 1].index! : Math.min(doc.text.length, start + 600);
+      const chunk = doc.text.slice(start, end);
+      const context = doc.text.slice(Math.max(0, start - 200), start);
+
+      const route = chunk.match(/\b([A-Z]{3})\b\s*(?:→|->|–|-|to)\s*\b([A-Z]{3})\b/)
+        || chunk.match(/\(([A-Z]{3})\)[\s\S]*?\(([A-Z]{3})\)/);
+      const departure = dateAndTime(extractLabeledValue(chunk, ['Departs', 'Departure', 'Depart', 'Departing']), doc);
+      const arrival = dateAndTime(extractLabeledValue(chunk, ['Arrives', 'Arrival', 'Arrive', 'Arriving']), doc);
+      const departureDate = departure.date || parseLooseDate(chunk, doc.referenceDate) || parseLooseDate(context, doc.referenceDate);
+      const departureTime = departure.time || extractTime(chunk);
+
+      const key = `${flightNumber}-${departureDate}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      const booking = baseBooking('flight', route ? `Flight ${flightNumber} ${route[1]} → ${route[2]}` : `Flight ${flightNumber}`);
+      booking.provider = provider;
+      booking.confirmationNumber = confirmationNumber;
+      booking.startDate = departureDate;
+      booking.startTime = departureTime;
+      booking.endDate = arrival.date || departureDate;
+      booking.endTime = arrival.time;
+      booking.locationName = route ? `${route[1]} Airport` : null;
+      booking.endLocationName = route ? `${route[2]} Airport` : null;
+      booking.details = {
+        flightNumber,
+        origin: route?.[1] || null,
+        destination: route?.[2] || null,
+      };
+      booking.confidence = departureDate && departureTime ? 0.85 : 0.6;
+      results.push(booking);
+    });
+
+    // The total usually covers all segments, so attach it to the first one
+    const total = extractAmount(doc.text, ['total price', 'total fare', 'total charged', 'total']);
+    if (results.length > 0 && total) {
+      results[0].totalAmount = total.amount;
+      results[0].currency = total.currency;
+    }
+    return results;
+  },
+};
+
+const hotelExtractor: VendorExtractor = {
+  name: 'hotel',
+  matches: (doc) => /check-?\s?in/i.test(doc.text) && /check-?\s?out/i.test(doc.text),
+  extract: (doc) => {
+    const checkIn = dateAndTime(extractLabeledValue(doc.text, ['Check-in date', 'Check-in', 'Check in', 'Arrival date']), doc);
+    const checkOut = dateAndTime(extractLabeledValue(doc.text, ['Check-out date', 'Check-out', 'Check out', 'Departure date']), doc);
+    if (!checkIn.date) return [];
+
+    const subjectName = doc.subject.match(/(?:stay|booking|reservation) (?:at|for) (.+?)(?:\s+is confirmed|\s+confirmed|[!.]|$)/i)?.[1];
+    const name = extractLabeledValue(doc.text, ['Hotel name', 'Property name', 'Property:', 'Hotel:', 'Accommodation:'])
+      || subjectName
+      || 'Hotel stay';
+    const total = extractAmount(doc.text, ['total price', 'total cost', 'amount paid', 'total charged', 'total']);
+
+    const booking = baseBooking('hotel', name);
+    booking.provider = findProvider(doc, HOTEL_PROVIDERS);
+    booking.confirmationNumber = findConfirmationNumber(doc.text);
+    booking.startDate = checkIn.date;
+    booking.startTime = checkIn.time;
+    booking.endDate = checkOut.date;
+    booking.endTime = checkOut.time;
+    booking.locationName = extractLabeledValue(doc.text, ['Address', 'Location']) || name;
+    booking.totalAmount = total?.amount ?? null;
+    booking.currency = total?.currency ?? null;
+    booking.details = {
+      hotelName: name,
+      guests: extractLabeledValue(doc.text, ['Guests', 'Number of guests']),
+      roomType: extractLabeledValue(doc.text, ['Room type', 'Room']),
+    };
+    booking.confidence = checkOut.date ? 0.85 : 0.6;
+    return [booking];
+  },
+};
+
+const carRentalExtractor: VendorExtractor = {
+  name: 'car_rental',
+  matches: (doc) => (!!findProvider(doc, RENTAL_PROVIDERS) || /car rental|rental car|rental agreement/i.test(doc.text))
+    && /pick-?\s?up/i.test(doc.text),
+  extract: (doc) => {
+    const pickupValue = extractLabeledValue(doc.text, ['Pick-up date', 'Pickup date', 'Pick-up', 'Pickup', 'Pick up']);
+    const returnValue = extractLabeledValue(doc.text, ['Drop-off date', 'Return date', 'Drop-off', 'Dropoff', 'Return']);
+    const pickup = dateAndTime(pickupValue, doc);
+    const dropoff = dateAndTime(returnValue, doc);
+    if (!pickup.date) return [];
+
+    const provider = findProvider(doc, RENTAL_PROVIDERS);
+    const total = extractAmount(doc.text, ['estimated total', 'total price', 'total']);
+
+    const booking = baseBooking('car_rental', `${provider || 'Car'} rental`);
+    booking.provider = provider;
+    booking.confirmationNumber = findConfirmationNumber(doc.text);
+    booking.startDate = pickup.date;
+    booking.startTime = pickup.time || extractTime(extractLabeledValue(doc.text, ['Pick-up time', 'Pickup time']));
+    booking.endDate = dropoff.date;
+    booking.endTime = dropoff.time || extractTime(extractLabeledValue(doc.text, ['Drop-off time', 'Return time']));
+    booking.locationName = extractLabeledValue(doc.text, ['Pick-up location', 'Pickup location', 'Pick-up branch']);
+    booking.endLocationName = extractLabeledValue(doc.text, ['Drop-off location', 'Return location']) || booking.locationName;
+    booking.totalAmount = total?.amount ?? null;
+    booking.currency = total?.currency ?? null;
+    booking.details = { vehicle: extractLabeledValue(doc.text, ['Vehicle', 'Car type', 'Car class']) };
+    return [booking];
+  },
+};
+
+const tourExtractor: VendorExtractor = {
+  name: 'activity',
+  matches: (doc) => !!findProvider(doc, TOUR_PROVIDERS) || /\b(?:tour|activity|ticket|experience)\s+(?:voucher|confirmation)/i.test(`${doc.subject}\n${doc.text}`),
+  extract: (doc) => {
+    const dateValue = extractLabeledValue(doc.text, ['Travel date', 'Tour date', 'Activity date', 'Date']);
+    const date = parseLooseDate(dateValue, doc.referenceDate);
+    if (!date) return [];
+
+    const subjectTitle = doc.subject.match(/(?:booking|reservation) (?:for|of) (.+?)(?:\s+is confirmed|[!.]|$)/i)?.[1];
+    const title = extractLabeledValue(doc.text, ['Tour name', 'Tour', 'Activity', 'Product', 'Experience']) || subjectTitle || 'Booked activity';
+    const total = extractAmount(doc.text, ['total price', 'total paid', 'amount paid', 'total']);
+
+    const booking = baseBooking('activity', title);
+    booking.provider = findProvider(doc, TOUR_PROVIDERS);
+    booking.confirmationNumber = doc.text.match(/\b(BR-\d{6,})\b/)?.[1] || findConfirmationNumber(doc.text);
+    booking.startDate = date;
+    booking.startTime = extractTime(extractLabeledValue(doc.text, ['Tour time', 'Start time', 'Departure time', 'Time'])) || extractTime(dateValue);
+    booking.endDate = date;
+    booking.locationName = extractLabeledValue(doc.text, ['Meeting point', 'Departure point', 'Location', 'Address']);
+    booking.totalAmount = total?.amount ?? null;
+    booking.currency = total?.currency ?? null;
+    booking.details = {
+      travelers: extractLabeledValue(doc.text, ['Travelers', 'Travellers', 'Participants']),
+      voucher: booking.provider === 'Viator' ? booking.confirmationNumber : null,
+    };
+    return [booking];
+  },
+};
+
+// Most specific first; several can match one email (e.g. a flight + hotel package)
+const VENDOR_EXTRACTORS: VendorExtractor[] = [tourExtractor, carRentalExtractor, flightExtractor, hotelExtractor];
+
+function bookingFromIcsEvent(event: IcsEvent): ParsedBooking | null {
+  if (!event.start) return null;
+  const summary = event.summary || 'Imported event';
+  const haystack = `${summary}\n${event.description || ''}\n${event.organizer || ''}`;
+
+  let bookingType: ImportedBookingType = 'activity';
+  if (/\bflight\b|\b[A-Z]{2}\s?\d{2,4}\b.*\b[A-Z]{3}\b/.test(summary) || /\bflight\b/i.test(summary)) {
+    bookingType = 'flight';
+  } else if (/hotel|stay at|check-?in|accommodation|airbnb/i.test(summary)) {
+    bookingType = 'hotel';
+  } else if (new RegExp(`car rental|rental car|${RENTAL_PROVIDERS.join('|')}`, 'i').test(summary)) {
+    bookingType = 'car_rental';
+  }
+
+  const booking = baseBooking(bookingType, summary);
+  const providers = [...AIRLINES, ...HOTEL_PROVIDERS, ...RENTAL_PROVIDERS, ...TOUR_PROVIDERS];
+  booking.provider = providers.find(p => new RegExp(`\\b${p.replace(/\./g, '\\.')}\\b`, 'i').test(haystack)) || null;
+  booking.confirmationNumber = findConfirmationNumber(haystack);
+  booking.startDate = event.start.date;
+  booking.startTime = event.start.time;
+  booking.endDate = event.end?.date || event.start.date;
+  booking.endTime = event.end?.time || null;
+  booking.locationName = event.location;
+  booking.source = 'ics';
+  booking.confidence = 0.9;
+  booking.details = {
+    uid: event.uid,
+    timeZone: event.start.timeZone,
+    description: event.description,
+    ...(event.geo ? { latitude: event.geo.latitude, longitude: event.geo.longitude } : {}),
+  };
+  return booking;
+}
+
+function extractFromDocument(doc: SourceDocument): ParsedBooking[] {
+  const results: ParsedBooking[] = [];
+  for (const extractor of VENDOR_EXTRACTORS) {
+    if (!extractor.matches(doc)) continue;
+    try {
+      results.push(...extractor.extract(doc));
+    } catch (error) {
+      logger.warn(`Booking extractor ${extractor.name} failed`, { error });
+    }
+  }
+  return results;
+}
+
+const llmResponseSchema = z.object({
+  bookings: z.array(z.object({
+    type: z.enum(['flight', 'hotel', 'car_rental', 'activity']),
+    title: z.string(),
+    provider: z.string().nullable().optional(),
+    confirmationNumber: z.string().nullable().optional(),
+    startDate: z.string().nullable().optional(),
+    startTime: z.string().nullable().optional(),
+    endDate: z.string().nullable().optional(),
+    endTime: z.string().nullable().optional(),
+    location: z.string().nullable().optional(),
+    totalAmount: z.number().nullable().optional(),
+    currency: z.string().nullable().optional(),
+  })),
+});
+
+async function extractWithLlm(doc: SourceDocument): Promise<ParsedBooking[]> {
+  const prompt = `Extract the travel bookings from this confirmation email. Only use information that appears in the text.
+
+Subject: ${doc.subject}
+From: ${doc.from}
+
+${doc.text.slice(0, 6000)}
+
+Respond with JSON: {"bookings": [{"type": "flight" | "hotel" | "car_rental" | "activity", "title": string, "provider": string | null, "confirmationNumber": string | null, "startDate": "YYYY-MM-DD" | null, "startTime": "HH:MM" | null, "endDate": "YYYY-MM-DD" | null, "endTime": "HH:MM" | null, "location": string | null, "totalAmount": number | null, "currency": "ISO code" | null}]}
+Return {"bookings": []} if there are no bookings.`;
+
+  const response = await llm.complete('booking_import', prompt, {
+    temperature: 0.1,
+    maxTokens: 800,
+    json: true,
+  });
+  const parsed = llmResponseSchema.parse(JSON.parse(response));
+
+  return parsed.bookings.map(item => {
+    const booking = baseBooking(item.type, item.title);
+    booking.provider = item.provider || null;
+    booking.confirmationNumber = item.confirmationNumber || null;
+    // Re-normalize what the model returned so bad formats don't reach the database
+    booking.startDate = parseLooseDate(item.startDate, doc.referenceDate);
+    booking.startTime = extractTime(item.startTime);
+    booking.endDate = parseLooseDate(item.endDate, doc.referenceDate);
+    booking.endTime = extractTime(item.endTime);
+    booking.locationName = item.location || null;
+    booking.totalAmount = item.totalAmount ?? null;
+    booking.currency = normalizeCurrency(item.currency || null);
+    booking.source = 'llm';
+    booking.confidence = 0.5;
+    return booking;
+  });
+}
+
+/**
+ * Parse uploaded files and pasted text into booking candidates without
+ * touching the database, so the client can show a preview first.
+ */
+export async function parseBookingSources(
+  sources: ImportSource[],
+  context: ParseContext
+): Promise<{ bookings: ParsedBooking[]; warnings: string[] }> {
+  const parsedBookings: ParsedBooking[] = [];
+  const warnings: string[] = [];
+
+  for (const source of sources) {
+    const label = source.filename || (source.kind === 'text' ? 'pasted text' : source.kind);
+    const countBefore = parsedBookings.length;
+
+    try {
+      const documents: SourceDocument[] = [];
+      const calendars: string[] = [];
+
+      if (source.kind === 'ics') {
+        calendars.push(source.content.toString('utf8'));
+      } else if (source.kind === 'eml') {
+        const email = parseEml(source.content);
+        documents.push({
+          subject: email.subject || '',
+          from: email.from || '',
+          text: email.text,
+          referenceDate: email.date || context.referenceDate,
+        });
+        for (const attachment of email.attachments) {
+          if (attachment.contentType.includes('calendar') || attachment.filename?.toLowerCase().endsWith('.ics')) {
+            calendars.push(attachment.content.toString('utf8'));
+          }
+        }
+      } else {
+        const text = source.content.toString('utf8');
+        const subject = text.match(/^Subject:\s*(.+)$/im)?.[1] || '';
+        const from = text.match(/^From:\s*(.+)$/im)?.[1] || '';
+        documents.push({ subject, from, text, referenceDate: context.referenceDate });
+      }
+
+      const fromCalendars = calendars
+        .flatMap(calendar => parseIcsEvents(calendar, context.timeZone))
+        .map(bookingFromIcsEvent)
+        .filter((b): b is ParsedBooking => b !== null);
+      parsedBookings.push(...fromCalendars);
+
+      for (const doc of documents) {
+        const fromVendors = extractFromDocument(doc);
+        // An attached invite already describes the booking; keep the email's extras only if it adds something
+        const additional = fromVendors.filter(candidate => !fromCalendars.some(existing => isSameBooking(existing, candidate)));
+        parsedBookings.push(...additional);
+
+        if (fromVendors.length === 0 && fromCalendars.length === 0) {
+          if (context.allowLlmFallback !== false && await llm.isAvailable('booking_import')) {
+            const fromLlm = await extractWithLlm(doc);
+            parsedBookings.push(...fromLlm);
+            if (fromLlm.length > 0) {
+              warnings.push(`${label}: details were extracted by AI, please double-check them`);
+            }
+          }
+        }
+      }
+
+      if (parsedBookings.length === countBefore) {
+        warnings.push(`${label}: no bookings found`);
+      }
+    } catch (error) {
+      logger.warn('Failed to parse booking source', { label, error });
+      warnings.push(`${label}: could not be read`);
+    }
+  }
+
+  return { bookings: parsedBookings, warnings };
+}
+
+function isSameBooking(a: ParsedBooking, b: ParsedBooking): boolean {
+  if (a.bookingType !== b.bookingType || a.startDate !== b.startDate) return false;
+  if (a.confirmationNumber && b.confirmationNumber) return a.confirmationNumber === b.confirmationNumber;
+  return a.title.toLowerCase() === b.title.toLowerCase();
+}
+
+export interface ImportedBooking {
+  booking: Booking;
+  activities: Activity[];
+}
+
+export interface BookingImportResult {
+  imported: ImportedBooking[];
+  duplicates: ParsedBooking[];
+  warnings: string[];
+  conflicts: any[];
+}
+
+// Activities that represent a booking on the itinerary
+function activitiesForBooking(parsed: ParsedBooking): Array<{ title: string; date: string | null; time: string | null; location: string | null }> {
+  switch (parsed.bookingType) {
+    case 'hotel':
+      return [
+        { title: `Check-in: ${parsed.title}`, date: parsed.startDate, time: parsed.startTime || '15:00', location: parsed.locationName },
+        { title: `Check-out: ${parsed.title}`, date: parsed.endDate, time: parsed.endTime || '11:00', location: parsed.locationName },
+      ];
+    case 'car_rental':
+      return [
+        { title: `Pick up ${parsed.title}`, date: parsed.startDate, time: parsed.startTime, location: parsed.locationName },
+        { title: `Return ${parsed.title}`, date: parsed.endDate, time: parsed.endTime, location: parsed.endLocationName || parsed.locationName },
+      ];
+    default:
+      return [{ title: parsed.title, date: parsed.startDate, time: parsed.startTime, location: parsed.locationName }];
+  }
+}
+
+async function findExistingBooking(executor: Transaction, tripId: number, parsed: ParsedBooking): Promise<Booking | undefined> {
+  if (!parsed.confirmationNumber) return undefined;
+
+  const conditions = [
+    eq(bookings.trip_id, tripId),
+    eq(bookings.booking_type, parsed.bookingType),
+    eq(bookings.confirmation_number, parsed.confirmationNumber),
+  ];
+  if (parsed.startDate) conditions.push(eq(bookings.check_in_date, parsed.startDate));
+
+  const [existing] = await executor.select().from(bookings).where(and(...conditions)).limit(1);
+  return existing;
+}
+
+/**
+ * Persist parsed bookings on a trip: one `bookings` row each plus its
+ * activities, then run conflict detection on every affected day. The rows
+ * are written in one transaction, so a failed import leaves nothing behind.
+ */
+export async function importParsedBookings(
+  trip: Trip,
+  userId: number,
+  parsedBookings: ParsedBooking[]
+): Promise<BookingImportResult> {
+  const result: BookingImportResult = { imported: [], duplicates: [], warnings: [], conflicts: [] };
+  const touchedDates = new Set<string>();
+  const newActivityIds = new Set<number>();
+  const operations: TripOperation[] = [];
+
+  await db.transaction(async (tx) => {
+    let changesetId: number | undefined; // The whole import is one revertible history entry
+
+    for (const parsed of parsedBookings) {
+      if (await findExistingBooking(tx, trip.id, parsed)) {
+        result.duplicates.push(parsed);
+        continue;
+      }
+
+      if (parsed.startDate && (parsed.startDate < trip.start_date || parsed.startDate > trip.end_date)) {
+        result.warnings.push(`${parsed.title} on ${parsed.startDate} is outside the trip dates`);
+      }
+
+      const created: Activity[] = [];
+      for (const item of activitiesForBooking(parsed)) {
+        if (!item.date) continue;
+        const [activity] = await tx.insert(activities).values({
+          trip_id: trip.id,
+          title: item.title,
+          date: item.date,
+          time: item.time,
+          location_name: item.location,
+          latitude: parsed.details.latitude != null ? String(parsed.details.latitude) : undefined,
+          longitude: parsed.details.longitude != null ? String(parsed.details.longitude) : undefined,
+          tag: parsed.bookingType === 'activity' ? 'activity' : 'transport',
+          booking_reference: parsed.confirmationNumber,
+          provider: parsed.provider,
+          price: created.length === 0 && parsed.totalAmount != null ? String(parsed.totalAmount) : undefined,
+          currency: parsed.currency || trip.currency || 'USD',
+        }).returning();
+        changesetId ??= await tripHistoryService.startChangeset(tx, trip.id, userId, {
+          source: 'import',
+          description: 'Imported bookings',
+        });
+        operations.push(await collaborationService.recordActivityCreatedIn(tx, activity, userId, { source: 'import', changesetId }));
+        created.push(activity);
+        touchedDates.add(item.date);
+        newActivityIds.add(activity.id);
+      }
+
+      const [booking] = await tx.insert(bookings).values({
+        trip_id: trip.id,
+        activity_id: created[0]?.id ?? null,
+        user_id: userId,
+        booking_type: parsed.bookingType,
+        provider: parsed.provider,
+        confirmation_number: parsed.confirmationNumber,
+        booking_date: new Date(),
+        check_in_date: parsed.startDate,
+        check_out_date: parsed.endDate,
+        total_amount: parsed.totalAmount != null ? String(parsed.totalAmount) : null,
+        currency: parsed.currency || trip.currency || 'USD',
+        status: 'confirmed',
+        booking_details: {
+          ...parsed.details,
+          title: parsed.title,
+          startTime: parsed.startTime,
+          endTime: parsed.endTime,
+          location: parsed.locationName,
+          endLocation: parsed.endLocationName,
+          source: parsed.source,
+          confidence: parsed.confidence,
+          activityIds: created.map(a => a.id),
+        },
+      }).returning();
+
+      if (parsed.bookingType === 'hotel' && !trip.hotel) {
+        await tx.update(trips).set({ hotel: parsed.title }).where(eq(trips.id, trip.id));
+        trip = { ...trip, hotel: parsed.title };
+      }
+
+      result.imported.push({ booking, activities: created });
+    }
+  });
+
+  collaborationService.publish(operations);
+
+  if (touchedDates.size > 0) {
+    const allActivities = await storage.getActivitiesByTripId(trip.id);
+    for (const date of Array.from(touchedDates)) {
+      const dayActivities = allActivities.filter(a => a.date === date);
+      const conflicts = detectConflicts(dayActivities);
+
+      result.conflicts.push(
+        ...conflicts
+          .filter(c => newActivityIds.has(c.activityId1) || newActivityIds.has(c.activityId2))
+          .map(c => ({ ...c, date }))
+      );
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,362 @@
+import type { Activity, Trip } from '@shared/schema';
+import { parseTimeOfDay, TimeOfDay } from '../utils/timeOfDay';
+
+/**
+ * iCalendar (RFC 5545) export for trips.
+ * Builds a VCALENDAR with one VEVENT per activity plus the trip's hotel stay.
+ * Output is deterministic for the same input (apart from DTSTAMP) so calendar
+ * clients that poll the subscription feed only see real changes.
+ */
+
+const PRODID = '-//Remvana//Trip Planner//EN';
+const UID_DOMAIN = 'remvana.app';
+const DEFAULT_DURATION_MINUTES = 60;
+const MIN_DURATION_MINUTES = 15;
+
+export interface CalendarExportOptions {
+  // Include notes and booking references (owner export or share_permission 'edit')
+  includePrivateDetails: boolean;
+  // Link back to the trip in the app, added to every event
+  tripUrl?: string;
+  // Buyer license for trips copied from a template (tripLicense), added to every event
+  license?: string | null;
+  now?: Date;
+}
+
+interface LocalDateTime {
+  date: string; // YYYY-MM-DD
+  time: TimeOfDay;
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function buildTripCalendar(
+  trip: Trip,
+  tripActivities: Activity[],
+  options: CalendarExportOptions
+): string {
+  const now = options.now || new Date();
+  const timeZone = isValidTimeZone(trip.timezone) ? trip.timezone : null;
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(trip.title)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  if (options.license) {
+    lines.push(`X-REMVANA-LICENSE:${escapeText(options.license)}`);
+  }
+
+  if (timeZone) {
+    lines.push(`X-WR-TIMEZONE:${timeZone}`);
+    lines.push(...buildTimeZone(timeZone, trip.start_date, trip.end_date));
+  }
+
+  if (trip.hotel) {
+    lines.push(...buildHotelEvent(trip, now, options));
+  }
+
+  const sorted = [...tripActivities].sort(compareActivities);
+  sorted.forEach((activity, index) => {
+    const next = sorted[index + 1];
+    lines.push(...buildActivityEvent(activity, next, timeZone, now, options));
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function buildActivityEvent(
+  activity: Activity,
+  next: Activity | undefined,
+  timeZone: string | null,
+  now: Date,
+  options: CalendarExportOptions
+): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:activity-${activity.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `SEQUENCE:${sequenceFor(activity.updated_at)}`,
+  ];
+
+  if (activity.updated_at) {
+    lines.push(`LAST-MODIFIED:${formatUtc(new Date(activity.updated_at))}`);
+  }
+
+  const date = normalizeDate(activity.date);
+  const time = parseTimeOfDay(activity.time);
+
+  if (date && time) {
+    const start: LocalDateTime = { date, time };
+    const end = addMinutes(start, durationFor(activity, next));
+    lines.push(formatDateTimeProperty('DTSTART', start, timeZone));
+    lines.push(formatDateTimeProperty('DTEND', end, timeZone));
+  } else if (date) {
+    lines.push(`DTSTART;VALUE=DATE:${compactDate(date)}`);
+    lines.push(`DTEND;VALUE=DATE:${compactDate(shiftDate(date, 1))}`);
+    lines.push('TRANSP:TRANSPARENT');
+  } else {
+    // Undated activities can't be placed on a calendar
+    return [];
+  }
+
+  lines.push(`SUMMARY:${escapeText(activity.title)}`);
+
+  if (activity.location_name) {
+    lines.push(`LOCATION:${escapeText(activity.location_name)}`);
+  }
+
+  const geo = formatGeo(activity.latitude, activity.longitude);
+  if (geo) lines.push(geo);
+
+  const categories = [activity.tag, activity.category].filter(Boolean) as string[];
+  if (categories.length > 0) {
+    lines.push(`CATEGORIES:${categories.map(escapeText).join(',')}`);
+  }
+
+  const description: string[] = [];
+  if (options.includePrivateDetails) {
+    if (activity.notes) description.push(activity.notes);
+    if (activity.booking_reference) description.push(`Booking reference: ${activity.booking_reference}`);
+  }
+  if (activity.booking_url) description.push(`Booking: ${activity.booking_url}`);
+  if (options.tripUrl) description.push(`View in Remvana: ${options.tripUrl}`);
+  if (options.license) description.push(options.license);
+  if (description.length > 0) {
+    lines.push(`DESCRIPTION:${escapeText(description.join('\n'))}`);
+  }
+
+  if (options.tripUrl) lines.push(`URL:${options.tripUrl}`);
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+function buildHotelEvent(trip: Trip, now: Date, options: CalendarExportOptions): string[] {
+  const start = normalizeDate(trip.start_date);
+  const end = normalizeDate(trip.end_date);
+  if (!start || !end) return [];
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:trip-${trip.id}-hotel@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `SEQUENCE:${sequenceFor(trip.updated_at)}`,
+    `DTSTART;VALUE=DATE:${compactDate(start)}`,
+    // DTEND is exclusive for all-day events
+    `DTEND;VALUE=DATE:${compactDate(shiftDate(end, 1))}`,
+    `SUMMARY:${escapeText(`Stay: ${trip.hotel}`)}`,
+    `LOCATION:${escapeText(trip.hotel!)}`,
+    'TRANSP:TRANSPARENT',
+  ];
+
+  const geo = formatGeo(trip.hotel_latitude, trip.hotel_longitude);
+  if (geo) lines.push(geo);
+  if (options.license) lines.push(`DESCRIPTION:${escapeText(options.license)}`);
+  if (options.tripUrl) lines.push(`URL:${options.tripUrl}`);
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build a VTIMEZONE component from the runtime's IANA database.
+ * Instead of recurrence rules we list the offset in effect when the trip starts
+ * and every transition inside the trip window, which is all a client needs.
+ */
+export function buildTimeZone(timeZone: string, startDate: string, endDate: string): string[] {
+  const windowStart = Date.parse(`${shiftDate(startDate, -1)}T00:00:00Z`);
+  const windowEnd = Date.parse(`${shiftDate(endDate, 2)}T00:00:00Z`);
+  const year = new Date(windowStart).getUTCFullYear();
+  const standardOffset = Math.min(
+    getUtcOffsetMinutes(timeZone, new Date(Date.UTC(year, 0, 1))),
+    getUtcOffsetMinutes(timeZone, new Date(Date.UTC(year, 6, 1)))
+  );
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const pushObservance = (offsetFrom: number, offsetTo: number, localStart: string) => {
+    const kind = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${localStart}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`
+    );
+  };
+
+  let offset = getUtcOffsetMinutes(timeZone, new Date(windowStart));
+  pushObservance(offset, offset, '19700101T000000');
+
+  const hour = 60 * 60 * 1000;
+  for (let t = windowStart + hour; t <= windowEnd; t += hour) {
+    const nextOffset = getUtcOffsetMinutes(timeZone, new Date(t));
+    if (nextOffset === offset) continue;
+
+    // Narrow the transition down to the minute
+    let transition = t - hour;
+    while (getUtcOffsetMinutes(timeZone, new Date(transition)) === offset) {
+      transition += 60 * 1000;
+    }
+    const localBefore = new Date(transition + offset * 60 * 1000);
+    pushObservance(offset, nextOffset, formatFloating(localBefore));
+    offset = nextOffset;
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+export function getUtcOffsetMinutes(timeZone: string, instant: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)!.value, 10);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+function durationFor(activity: Activity, next: Activity | undefined): number {
+  const start = parseTimeOfDay(activity.time);
+  const nextStart = next && normalizeDate(next.date) === normalizeDate(activity.date)
+    ? parseTimeOfDay(next.time)
+    : null;
+
+  if (start && nextStart) {
+    const gap = (nextStart.hours * 60 + nextStart.minutes) - (start.hours * 60 + start.minutes);
+    if (gap >= MIN_DURATION_MINUTES && gap < DEFAULT_DURATION_MINUTES) return gap;
+  }
+  return DEFAULT_DURATION_MINUTES;
+}
+
+function compareActivities(a: Activity, b: Activity): number {
+  const dateCompare = (normalizeDate(a.date) || '').localeCompare(normalizeDate(b.date) || '');
+  if (dateCompare !== 0) return dateCompare;
+
+  const timeA = parseTimeOfDay(a.time);
+  const timeB = parseTimeOfDay(b.time);
+  const minutesA = timeA ? timeA.hours * 60 + timeA.minutes : Number.MAX_SAFE_INTEGER;
+  const minutesB = timeB ? timeB.hours * 60 + timeB.minutes : Number.MAX_SAFE_INTEGER;
+  if (minutesA !== minutesB) return minutesA - minutesB;
+
+  return (a.order ?? 0) - (b.order ?? 0);
+}
+
+// Calendar clients only apply updates when SEQUENCE increases
+function sequenceFor(updatedAt: Date | string | null): number {
+  if (!updatedAt) return 0;
+  return Math.max(0, Math.floor(new Date(updatedAt).getTime() / 1000) - 1_600_000_000);
+}
+
+function formatDateTimeProperty(name: string, value: LocalDateTime, timeZone: string | null): string {
+  const local = `${compactDate(value.date)}T${pad(value.time.hours)}${pad(value.time.minutes)}00`;
+  // Without a trip time zone we emit floating times, which stay at the local wall-clock time
+  return timeZone ? `${name};TZID=${timeZone}:${local}` : `${name}:${local}`;
+}
+
+function addMinutes(value: LocalDateTime, minutes: number): LocalDateTime {
+  const total = value.time.hours * 60 + value.time.minutes + minutes;
+  const dayShift = Math.floor(total / 1440);
+  const remainder = total - dayShift * 1440;
+  return {
+    date: shiftDate(value.date, dayShift),
+    time: { hours: Math.floor(remainder / 60), minutes: remainder % 60 },
+  };
+}
+
+function normalizeDate(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().split('T')[0];
+  }
+  const match = value.match(/^\d{4}-\d{2}-\d{2}/);
+  return match ? match[0] : null;
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+function compactDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatFloating(date: Date): string {
+  return formatUtc(date).replace('Z', '');
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+function formatGeo(latitude: string | null, longitude: string | null): string | null {
+  const lat = latitude ? parseFloat(latitude) : NaN;
+  const lng = longitude ? parseFloat(longitude) : NaN;
+  if (isNaN(lat) || isNaN(lng)) return null;
+  return `GEO:${lat.toFixed(6)};${lng.toFixed(6)}`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 lines are limited to 75 octets; continuation lines start with a space
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
@@ -0,0 +1,631 @@
+import { EventEmitter } from 'events';
+import { z } from 'zod';
+import { and, asc, eq, gt, sql } from 'drizzle-orm';
+import { db } from '../db-connection';
+import {
+  activities,
+  trips,
+  tripOperations,
+  tripCollaborators,
+  insertActivitySchema,
+  Activity,
+  Trip,
+  TripOperation,
+} from '@shared/schema';
+import { logger } from '../utils/logger';
+import { tripHistoryService, updateChange, ChangeContext, RecordedChange } from './tripHistoryService';
+import { isTripLocked } from './refundService';
+
+/**
+ * Server-authoritative collaborative editing for trip activities.
+ *
+ * Every edit - from the /ws/collaboration socket or the REST routes - goes
+ * through applyOperation, which serializes writes per trip (row lock on the
+ * trip), bumps the trip revision and the activity version, and appends the
+ * resolved operation to trip_operations. Clients replay that log after a
+ * reconnect instead of refetching everything.
+ *
+ * Conflict resolution:
+ *   - field updates carry the activity version the client last saw; fields
+ *     someone else changed since then are conflicts (first writer wins)
+ *   - moves are expressed relative to a neighbour ("after activity X"), so
+ *     concurrent moves of different activities both land where intended
+ *   - deletes always win
+ */
+
+export const EDITABLE_ACTIVITY_FIELDS = [
+  'title', 'date', 'time', 'location_name', 'latitude', 'longitude', 'notes', 'tag',
+  'assigned_to', 'order', 'travel_mode', 'booking_url', 'booking_reference', 'price',
+  'actual_cost', 'currency', 'cost_category', 'split_between', 'is_paid', 'paid_by', 'provider',
+  'opening_hours',
+] as const;
+
+export type EditableActivityField = typeof EDITABLE_ACTIVITY_FIELDS[number];
+
+const activityFieldsSchema = insertActivitySchema
+  .pick(Object.fromEntries(EDITABLE_ACTIVITY_FIELDS.map(field => [field, true])) as { [K in EditableActivityField]: true })
+  .partial()
+  .strict();
+
+export const operationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('update_activity'),
+    activity_id: z.number().int(),
+    base_version: z.number().int().optional(),
+    fields: activityFieldsSchema,
+  }),
+  z.object({
+    type: z.literal('move_activity'),
+    activity_id: z.number().int(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    after_activity_id: z.number().int().nullable(),
+    index: z.number().int().min(0).optional(), // Fallback position if the anchor moved away
+  }),
+  z.object({
+    type: z.literal('delete_activity'),
+    activity_id: z.number().int(),
+  }),
+]);
+
+export type CollaborationOperation = z.infer<typeof operationSchema>;
+
+export interface OperationChanges {
+  activities: Activity[]; // Rows as they are after the operation
+  previous: Record<number, Record<string, any>>; // Prior values of changed fields (whole row for deletes)
+  deleted_activity_ids: number[];
+}
+
+export interface FieldConflict {
+  activity_id: number;
+  field: string;
+  attempted: any;
+  current: any;
+}
+
+export interface OperationResult {
+  status: 'applied' | 'partial' | 'rejected' | 'duplicate';
+  operation?: TripOperation;
+  conflicts: FieldConflict[];
+  reason?: string;
+  current?: Activity;
+}
+
+export interface ApplyOptions {
+  opId?: string | null;
+  // REST writes reject the whole update on any conflict instead of applying the rest
+  rejectOnConflict?: boolean;
+  // Where the change came from, for the trip history (defaults to a user edit)
+  change?: ChangeContext;
+  // Verification of the place an AI update moves an activity to
+  verification?: Pick<Activity, 'verification_status' | 'verification_confidence' | 'verification_source'>;
+}
+
+// Fields that say where an activity is; changing them voids its place verification
+const PLACE_FIELDS = ['location_name', 'latitude', 'longitude'];
+const UNVERIFIED_PLACE = { verification_status: null, verification_confidence: null, verification_source: null };
+
+// Replay is capped so a long-offline client refetches instead
+export const MAX_REPLAY_OPERATIONS = 500;
+
+/**
+ * One step of a changeset applied with applyChangeset: an activity operation,
+ * a new activity, or a change to the trip itself (hotel, budget).
+ */
+export type ChangesetStep =
+  | CollaborationOperation
+  | { type: 'create_activity'; fields: Omit<typeof activities.$inferInsert, 'trip_id'> }
+  | { type: 'update_trip'; fields: Partial<Pick<Trip, 'hotel' | 'hotel_latitude' | 'hotel_longitude' | 'budget' | 'currency'>> };
+
+export interface ChangesetResult {
+  changeset_id: number;
+  operations: TripOperation[];
+}
+
+export class ChangesetRejectedError extends Error {
+  constructor(public step: number, public reason: string, public conflicts: FieldConflict[] = []) {
+    super(`Change ${step + 1} could not be applied: ${reason}`);
+    this.name = 'ChangesetRejectedError';
+  }
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function valuesEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return a == b;
+  // Decimal columns come back as strings ("12.50") while clients send numbers
+  if (!isNaN(Number(a)) && !isNaN(Number(b)) && typeof a !== 'boolean' && typeof b !== 'boolean') {
+    return Number(a) === Number(b);
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+type MoveCandidate = Pick<Activity, 'id' | 'date' | 'order'>;
+
+/**
+ * Resolve a move against the day as it is now: place the activity after its
+ * anchor, or at the fallback index if the anchor was moved away or deleted
+ * concurrently. Returns the order/date changes needed, renumbering the day.
+ */
+export function planMove<T extends MoveCandidate>(
+  dayActivities: T[],
+  target: T,
+  targetDate: string | null,
+  afterActivityId: number | null,
+  fallbackIndex?: number
+): Array<{ activity: T; fields: { order?: number; date?: string | null } }> {
+  const ordered = dayActivities
+    .filter(a => a.id !== target.id)
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0) || a.id - b.id);
+
+  let index = 0;
+  if (afterActivityId !== null) {
+    const anchorIndex = ordered.findIndex(a => a.id === afterActivityId);
+    index = anchorIndex >= 0
+      ? anchorIndex + 1
+      : Math.min(fallbackIndex ?? ordered.length, ordered.length);
+  }
+  ordered.splice(index, 0, target);
+
+  const plan: Array<{ activity: T; fields: { order?: number; date?: string | null } }> = [];
+  ordered.forEach((activity, position) => {
+    const fields: { order?: number; date?: string | null } = {};
+    if ((activity.order ?? 0) !== position) fields.order = position;
+    if (activity.id === target.id && activity.date !== targetDate) fields.date = targetDate;
+    if (Object.keys(fields).length > 0) plan.push({ activity, fields });
+  });
+  return plan;
+}
+
+export class CollaborationService extends EventEmitter {
+  /**
+   * Owner or accepted editor can write; accepted viewers can read. Nobody
+   * gets into a revoked or frozen trip.
+   */
+  async getTripAccess(tripId: number, userId: number): Promise<'owner' | 'editor' | 'viewer' | null> {
+    const [trip] = await db.select({ user_id: trips.user_id, status: trips.status }).from(trips).where(eq(trips.id, tripId)).limit(1);
+    if (!trip || isTripLocked(trip)) return null;
+    if (trip.user_id === userId) return 'owner';
+
+    const [collaborator] = await db
+      .select({ role: tripCollaborators.role, status: tripCollaborators.status })
+      .from(tripCollaborators)
+      .where(and(eq(tripCollaborators.trip_id, tripId), eq(tripCollaborators.user_id, userId)))
+      .limit(1);
+
+    if (!collaborator || collaborator.status !== 'accepted') return null;
+    return collaborator.role === 'editor' || collaborator.role === 'owner' ? 'editor' : 'viewer';
+  }
+
+  async getRevision(tripId: number): Promise<number> {
+    const [trip] = await db.select({ revision: trips.revision }).from(trips).where(eq(trips.id, tripId)).limit(1);
+    return trip?.revision ?? 0;
+  }
+
+  /**
+   * Operations after the given revision, oldest first. Returns null when the
+   * gap is too large to replay.
+   */
+  async getOperationsSince(tripId: number, revision: number): Promise<TripOperation[] | null> {
+    const operations = await db
+      .select()
+      .from(tripOperations)
+      .where(and(eq(tripOperations.trip_id, tripId), gt(tripOperations.revision, revision)))
+      .orderBy(asc(tripOperations.revision))
+      .limit(MAX_REPLAY_OPERATIONS + 1);
+
+    return operations.length > MAX_REPLAY_OPERATIONS ? null : operations;
+  }
+
+  async applyOperation(
+    tripId: number,
+    userId: number,
+    operation: CollaborationOperation,
+    options: ApplyOptions = {}
+  ): Promise<OperationResult> {
+    const result = await db.transaction(async (tx) => {
+      // Serialize writers on this trip
+      const [trip] = await tx
+        .select({ id: trips.id, revision: trips.revision })
+        .from(trips)
+        .where(eq(trips.id, tripId))
+        .for('update');
+      if (!trip) {
+        return { status: 'rejected', conflicts: [], reason: 'Trip not found' } as OperationResult;
+      }
+
+      if (options.opId) {
+        const [existing] = await tx
+          .select()
+          .from(tripOperations)
+          .where(and(eq(tripOperations.trip_id, tripId), eq(tripOperations.op_id, options.opId)))
+          .limit(1);
+        if (existing) {
+          return { status: 'duplicate', operation: existing, conflicts: [] } as OperationResult;
+        }
+      }
+
+      const [target] = await tx
+        .select()
+        .from(activities)
+        .where(and(eq(activities.id, operation.activity_id), eq(activities.trip_id, tripId)))
+        .limit(1);
+      if (!target) {
+        return { status: 'rejected', conflicts: [], reason: 'Activity no longer exists' } as OperationResult;
+      }
+
+      switch (operation.type) {
+        case 'update_activity':
+          return this.applyUpdate(tx, trip.revision, userId, target, operation, options);
+        case 'move_activity':
+          return this.applyMove(tx, trip.revision, userId, target, operation, options);
+        case 'delete_activity':
+          return this.applyDelete(tx, trip.revision, userId, target, operation, options);
+      }
+    });
+
+    if (result.operation && result.status !== 'duplicate') {
+      this.emit('operation', result.operation);
+    }
+    return result;
+  }
+
+  /**
+   * Record an activity created outside applyOperation (REST create, imports)
+   * so collaborators receive it and it shows up in the replay log.
+   */
+  async recordActivityCreated(activity: Activity, userId: number, change?: ChangeContext): Promise<TripOperation> {
+    const operation = await db.transaction(tx => this.recordActivityCreatedIn(tx, activity, userId, change));
+
+    this.emit('operation', operation);
+    return operation;
+  }
+
+  // recordActivityCreated inside the caller's transaction; publish() the result once it commits
+  async recordActivityCreatedIn(tx: Transaction, activity: Activity, userId: number, change?: ChangeContext): Promise<TripOperation> {
+    return this.appendCreated(tx, activity, userId, change);
+  }
+
+  /**
+   * Apply several steps as one changeset: either all of them land or none
+   * do. Activity steps are checked against the versions they were planned
+   * on, so an edit someone made in the meantime rejects the whole changeset.
+   */
+  async applyChangeset(tripId: number, userId: number, steps: ChangesetStep[], change: ChangeContext): Promise<ChangesetResult> {
+    const result = await db.transaction(tx => this.applyChangesetIn(tx, tripId, userId, steps, change));
+
+    this.publish(result.operations);
+    return result;
+  }
+
+  /**
+   * applyChangeset inside a transaction the caller owns, for callers that
+   * write other rows alongside the steps. Nothing is broadcast: pass the
+   * returned operations to publish() once the transaction has committed.
+   */
+  async applyChangesetIn(
+    tx: Transaction,
+    tripId: number,
+    userId: number,
+    steps: ChangesetStep[],
+    change: ChangeContext
+  ): Promise<ChangesetResult> {
+    const [trip] = await tx.select().from(trips).where(eq(trips.id, tripId)).for('update');
+    if (!trip) {
+      throw new ChangesetRejectedError(0, 'Trip not found');
+    }
+
+    const changesetId = change.changesetId ?? await tripHistoryService.startChangeset(tx, tripId, userId, change);
+    const options: ApplyOptions = { change: { ...change, changesetId }, rejectOnConflict: true };
+    const operations: TripOperation[] = [];
+    let revision = trip.revision;
+    let current = trip;
+
+    for (const [index, step] of steps.entries()) {
+      if (step.type === 'update_trip') {
+        const [updated] = await tx.update(trips).set({ ...step.fields, updated_at: new Date() }).where(eq(trips.id, tripId)).returning();
+        await this.recordHistory(tx, tripId, userId, options.change, [updateChange('trip', tripId, current, updated)]);
+        current = updated;
+        continue;
+      }
+
+      if (step.type === 'create_activity') {
+        const [created] = await tx.insert(activities).values({ ...step.fields, trip_id: tripId }).returning();
+        const operation = await this.appendCreated(tx, created, userId, options.change, revision);
+        operations.push(operation);
+        revision = operation.revision;
+        continue;
+      }
+
+      const [target] = await tx
+        .select()
+        .from(activities)
+        .where(and(eq(activities.id, step.activity_id), eq(activities.trip_id, tripId)))
+        .limit(1);
+      if (!target) {
+        throw new ChangesetRejectedError(index, 'Activity no longer exists');
+      }
+
+      let applied: OperationResult;
+      switch (step.type) {
+        case 'update_activity':
+          applied = await this.applyUpdate(tx, revision, userId, target, step, options);
+          break;
+        case 'move_activity':
+          applied = await this.applyMove(tx, revision, userId, target, step, options);
+          break;
+        case 'delete_activity':
+          applied = await this.applyDelete(tx, revision, userId, target, step, options);
+          break;
+      }
+      if (applied.status === 'rejected') {
+        throw new ChangesetRejectedError(index, applied.reason ?? 'Rejected', applied.conflicts);
+      }
+      if (applied.operation) {
+        operations.push(applied.operation);
+        revision = applied.operation.revision;
+      }
+    }
+
+    return { changeset_id: changesetId, operations };
+  }
+
+  // Broadcast operations whose transaction has committed
+  publish(operations: TripOperation[]) {
+    operations.forEach(operation => this.emit('operation', operation));
+  }
+
+  private async appendCreated(
+    tx: Transaction,
+    activity: Activity,
+    userId: number,
+    change: ChangeContext | undefined,
+    revision?: number
+  ): Promise<TripOperation> {
+    const changes: OperationChanges = { activities: [activity], previous: {}, deleted_activity_ids: [] };
+    await this.recordHistory(tx, activity.trip_id, userId, change, [
+      { entity_type: 'activity', entity_id: activity.id, action: 'create', after: activity },
+    ]);
+    return this.appendOperation(tx, activity.trip_id, userId, null, {
+      type: 'create_activity',
+      activity_id: activity.id,
+      activity_version: activity.version,
+      payload: { type: 'create_activity', activity_id: activity.id },
+      changes,
+    }, revision);
+  }
+
+  private async applyUpdate(
+    tx: Transaction,
+    revision: number,
+    userId: number,
+    target: Activity,
+    operation: Extract<CollaborationOperation, { type: 'update_activity' }>,
+    options: ApplyOptions
+  ): Promise<OperationResult> {
+    const requested = operation.fields as Record<string, any>;
+    const conflicts: FieldConflict[] = [];
+
+    if (operation.base_version !== undefined && operation.base_version < target.version) {
+      const touched = await this.fieldsChangedSince(tx, target.id, operation.base_version);
+      for (const [field, value] of Object.entries(requested)) {
+        const current = (target as Record<string, any>)[field];
+        if (touched.has(field) && !valuesEqual(current, value)) {
+          conflicts.push({ activity_id: target.id, field, attempted: value, current });
+        }
+      }
+    }
+
+    if (conflicts.length > 0 && options.rejectOnConflict) {
+      return { status: 'rejected', conflicts, reason: 'Activity was changed by someone else', current: target };
+    }
+
+    const conflicting = new Set(conflicts.map(c => c.field));
+    const fields: Record<string, any> = {};
+    const previous: Record<string, any> = {};
+    for (const [field, value] of Object.entries(requested)) {
+      const current = (target as Record<string, any>)[field];
+      if (conflicting.has(field) || valuesEqual(current, value)) continue;
+      fields[field] = value;
+      previous[field] = current;
+    }
+
+    // A new place needs checking again, unless the caller already has
+    if (PLACE_FIELDS.some(field => field in fields)) {
+      for (const [field, value] of Object.entries(options.verification ?? UNVERIFIED_PLACE)) {
+        const current = (target as Record<string, any>)[field];
+        if (valuesEqual(current, value)) continue;
+        fields[field] = value;
+        previous[field] = current;
+      }
+    }
+
+    if (Object.keys(fields).length === 0) {
+      return {
+        status: conflicts.length > 0 ? 'rejected' : 'applied',
+        conflicts,
+        reason: conflicts.length > 0 ? 'Activity was changed by someone else' : undefined,
+        current: target,
+      };
+    }
+
+    const updated = await this.writeActivity(tx, target.id, fields);
+    await this.recordHistory(tx, target.trip_id, userId, options.change, [
+      updateChange('activity', target.id, target, updated),
+    ]);
+    const changes: OperationChanges = { activities: [updated], previous: { [target.id]: previous }, deleted_activity_ids: [] };
+    const stored = await this.appendOperation(tx, target.trip_id, userId, options.opId ?? null, {
+      type: operation.type,
+      activity_id: target.id,
+      activity_version: updated.version,
+      payload: operation,
+      changes,
+    }, revision);
+
+    return { status: conflicts.length > 0 ? 'partial' : 'applied', operation: stored, conflicts, current: updated };
+  }
+
+  private async applyMove(
+    tx: Transaction,
+    revision: number,
+    userId: number,
+    target: Activity,
+    operation: Extract<CollaborationOperation, { type: 'move_activity' }>,
+    options: ApplyOptions
+  ): Promise<OperationResult> {
+    const targetDate = operation.date ?? target.date;
+
+    const dayActivities = await tx
+      .select()
+      .from(activities)
+      .where(and(
+        eq(activities.trip_id, target.trip_id),
+        targetDate ? eq(activities.date, targetDate) : sql`${activities.date} IS NULL`
+      ));
+
+    const updatedRows: Activity[] = [];
+    const previous: Record<number, Record<string, any>> = {};
+    for (const { activity, fields } of planMove(dayActivities, target, targetDate, operation.after_activity_id, operation.index)) {
+      previous[activity.id] = Object.fromEntries(Object.keys(fields).map(f => [f, (activity as Record<string, any>)[f]]));
+      // Neighbours only shift position, which never conflicts with their field edits
+      updatedRows.push(await this.writeActivity(tx, activity.id, fields, activity.id === target.id));
+    }
+
+    if (updatedRows.length === 0) {
+      return { status: 'applied', conflicts: [], current: target };
+    }
+
+    const moved = updatedRows.find(a => a.id === target.id) ?? target;
+    await this.recordHistory(tx, target.trip_id, userId, options.change, updatedRows.map(row => {
+      const before = dayActivities.find(a => a.id === row.id) ?? target;
+      return updateChange('activity', row.id, before, row);
+    }));
+    const stored = await this.appendOperation(tx, target.trip_id, userId, options.opId ?? null, {
+      type: operation.type,
+      activity_id: target.id,
+      activity_version: moved.version,
+      payload: operation,
+      changes: { activities: updatedRows, previous, deleted_activity_ids: [] },
+    }, revision);
+
+    return { status: 'applied', operation: stored, conflicts: [], current: moved };
+  }
+
+  private async applyDelete(
+    tx: Transaction,
+    revision: number,
+    userId: number,
+    target: Activity,
+    operation: Extract<CollaborationOperation, { type: 'delete_activity' }>,
+    options: ApplyOptions
+  ): Promise<OperationResult> {
+    await tx.delete(activities).where(eq(activities.id, target.id));
+    await this.recordHistory(tx, target.trip_id, userId, options.change, [
+      { entity_type: 'activity', entity_id: target.id, action: 'delete', before: target },
+    ]);
+
+    const stored = await this.appendOperation(tx, target.trip_id, userId, options.opId ?? null, {
+      type: operation.type,
+      activity_id: target.id,
+      activity_version: target.version + 1,
+      payload: operation,
+      changes: { activities: [], previous: { [target.id]: target }, deleted_activity_ids: [target.id] },
+    }, revision);
+
+    return { status: 'applied', operation: stored, conflicts: [] };
+  }
+
+  private async recordHistory(
+    tx: Transaction,
+    tripId: number,
+    userId: number,
+    change: ChangeContext | undefined,
+    entries: Array<RecordedChange | null>
+  ) {
+    const recorded = entries.filter((entry): entry is RecordedChange => entry !== null);
+    await tripHistoryService.record(tx, tripId, userId, change ?? { source: 'user' }, recorded);
+  }
+
+  // Fields other writers changed on this activity after the client's version
+  private async fieldsChangedSince(tx: Transaction, activityId: number, baseVersion: number): Promise<Set<string>> {
+    const operations = await tx
+      .select({ changes: tripOperations.changes })
+      .from(tripOperations)
+      .where(and(eq(tripOperations.activity_id, activityId), gt(tripOperations.activity_version, baseVersion)));
+
+    const fields = new Set<string>();
+    for (const { changes } of operations) {
+      const previous = (changes as OperationChanges).previous?.[activityId];
+      Object.keys(previous || {}).forEach(field => fields.add(field));
+    }
+
+    // Edits made before the operation log existed leave no trace; treat every field as changed
+    if (operations.length === 0) {
+      EDITABLE_ACTIVITY_FIELDS.forEach(field => fields.add(field));
+    }
+    return fields;
+  }
+
+  private async writeActivity(
+    tx: Transaction,
+    activityId: number,
+    fields: Record<string, any>,
+    bumpVersion = true
+  ): Promise<Activity> {
+    const [updated] = await tx
+      .update(activities)
+      .set({ ...fields, ...(bumpVersion ? { version: sql`${activities.version} + 1` } : {}), updated_at: new Date() })
+      .where(eq(activities.id, activityId))
+      .returning();
+    return updated;
+  }
+
+  private async appendOperation(
+    tx: Transaction,
+    tripId: number,
+    userId: number,
+    opId: string | null,
+    entry: {
+      type: string;
+      activity_id: number;
+      activity_version: number;
+      payload: Record<string, any>;
+      changes: OperationChanges;
+    },
+    lockedRevision?: number
+  ): Promise<TripOperation> {
+    let revision: number;
+    if (lockedRevision !== undefined) {
+      revision = lockedRevision + 1;
+      await tx.update(trips).set({ revision }).where(eq(trips.id, tripId));
+    } else {
+      const [trip] = await tx
+        .update(trips)
+        .set({ revision: sql`${trips.revision} + 1` })
+        .where(eq(trips.id, tripId))
+        .returning({ revision: trips.revision });
+      revision = trip.revision;
+    }
+
+    const [stored] = await tx
+      .insert(tripOperations)
+      .values({
+        trip_id: tripId,
+        revision,
+        user_id: userId,
+        op_id: opId,
+        type: entry.type,
+        activity_id: entry.activity_id,
+        activity_version: entry.activity_version,
+        payload: entry.payload,
+        changes: entry.changes as unknown as Record<string, any>,
+      })
+      .returning();
+
+    logger.debug('Recorded trip operation', { tripId, revision, type: entry.type, activityId: entry.activity_id });
+    return stored;
+  }
+}
+
+export const collaborationService = new CollaborationService();
+
@@ -0,0 +1,738 @@
+import { and, asc, desc, eq, inArray, isNull, lte, sql } from 'drizzle-orm';
+import {
+  creatorBalances,
+  creatorPayouts,
+  payoutBatches,
+  referralConversions,
+  templatePurchases,
+  users,
+  CreatorBalance,
+  CreatorPayout,
+  PayoutBatch,
+  TemplatePurchase,
+} from '@shared/schema';
+import { db } from '../db-connection';
+import { logger } from '../utils/logger';
+import { decryptValue, encryptValue, parseEncryptionKey } from '../utils/fieldEncryption';
+import { intervalCleanup } from './intervalCleanup';
+import { ledgerService, saleLines, transferLines } from './ledgerService';
+import {
+  BankPayoutLine,
+  NachaConfig,
+  ReconciliationResult,
+  isValidRoutingNumber,
+  maskAccountNumber,
+  nachaFile,
+  parseReconciliationFile,
+  paypalMassPayCsv,
+} from './payoutFiles';
+
+/**
+ * Creator payouts. Sale earnings land in pending_balance and move to
+ * available_balance once the refund window has passed. A payout request
+ * takes its amount out of available_balance straight away and becomes a
+ * creator_payouts row:
+ *
+ *   requested -> approved -> processing -> paid
+ *        \           \            \-----> failed (amount returned)
+ *
+ * Admins approve requests, export approved PayPal and bank payouts as a
+ * batch file, and import the provider's results, which mark each payout
+ * paid or failed and copy the transaction id onto the purchases it covers.
+ * Amazon and credits payouts are settled by hand and marked paid directly.
+ *
+ * Each step is posted to the marketplace ledger (ledgerService), which is
+ * what availability is checked against; the creator_balances columns are
+ * kept up to date alongside it.
+ *
+ * Bank routing and account numbers, and the batch files that carry them,
+ * are encrypted with AES-256-GCM under PAYOUT_ENCRYPTION_KEY. They are only
+ * decrypted to build and download bank files; creators and admins otherwise
+ * see the account's last four digits.
+ */
+
+export const PAYOUT_METHODS = ['paypal', 'amazon', 'bank', 'credits'] as const;
+export type PayoutMethod = typeof PAYOUT_METHODS[number];
+
+export const BATCH_METHODS = ['paypal', 'bank'] as const;
+export type BatchMethod = typeof BATCH_METHODS[number];
+
+export type PayoutStatus = 'requested' | 'approved' | 'processing' | 'paid' | 'failed';
+
+export const PAYOUT_THRESHOLDS: Record<PayoutMethod, number> = {
+  paypal: 10,
+  amazon: 25,
+  bank: 100,
+  credits: 5,
+};
+
+// Payouts from this amount need a W-9 on file
+export const TAX_INFO_THRESHOLD = 600;
+
+// Refund window: earnings are held this long after a sale
+export const PAYOUT_HOLD_DAYS = Number(process.env.PAYOUT_HOLD_DAYS) || 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOLD_RELEASE_INTERVAL_MS = 60 * 60 * 1000;
+
+const TRANSITIONS: Record<PayoutStatus, PayoutStatus[]> = {
+  requested: ['approved', 'failed'],
+  approved: ['processing', 'failed'],
+  processing: ['paid', 'failed'],
+  paid: [],
+  failed: [],
+};
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class PayoutError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'PayoutError';
+  }
+}
+
+export interface PayoutDetails {
+  payout_method?: PayoutMethod;
+  payout_email?: string;
+  bank_account_holder?: string;
+  bank_routing_number?: string;
+  bank_account_number?: string;
+  bank_account_type?: 'checking' | 'savings';
+}
+
+export interface ReconciliationSummary {
+  paid: number;
+  failed: number;
+  skipped: Array<{ payoutId: number; reason: string }>;
+  errors: string[];
+}
+
+export function canTransition(from: string, to: PayoutStatus): boolean {
+  return (TRANSITIONS[from as PayoutStatus] ?? []).includes(to);
+}
+
+function cents(amount: string | number | null | undefined): number {
+  return Math.round(parseFloat(String(amount ?? 0)) * 100) || 0;
+}
+
+/**
+ * The purchases a payout of `amount` pays out, oldest first. Purchases are
+ * only taken whole, so a payout that doesn't land on a purchase boundary
+ * leaves the last partly-paid one for the next payout.
+ */
+export function coveredPurchases<T extends { seller_earnings: string | null }>(purchases: T[], amount: number): T[] {
+  const covered: T[] = [];
+  let remaining = cents(amount);
+  for (const purchase of purchases) {
+    const earnings = cents(purchase.seller_earnings);
+    if (earnings > remaining) break;
+    covered.push(purchase);
+    remaining -= earnings;
+  }
+  return covered;
+}
+
+/**
+ * Why a creator can't request this payout, or null when they can.
+ */
+export function payoutRequestProblem(balance: CreatorBalance, method: PayoutMethod, amount: number): string | null {
+  const available = parseFloat(balance.available_balance || '0');
+  if (!(amount > 0) || cents(amount) > cents(available)) {
+    return `Invalid payout amount: $${available.toFixed(2)} is available`;
+  }
+  if (amount < PAYOUT_THRESHOLDS[method]) {
+    return `Minimum payout for ${method} is $${PAYOUT_THRESHOLDS[method]}`;
+  }
+  if (amount >= TAX_INFO_THRESHOLD && !balance.w9_on_file) {
+    return `Tax information required for payouts over $${TAX_INFO_THRESHOLD}`;
+  }
+  if ((method === 'paypal' || method === 'amazon') && !balance.payout_email) {
+    return `Add a payout email before requesting a ${method} payout`;
+  }
+  if (method === 'bank' && (!balance.bank_routing_number_encrypted || !balance.bank_account_number_encrypted || !balance.bank_account_holder)) {
+    return 'Add your bank account details before requesting a bank payout';
+  }
+  return null;
+}
+
+function destination(balance: CreatorBalance, method: PayoutMethod): string | null {
+  if (method === 'bank') return maskAccountNumber(balance.bank_account_last4 || '');
+  if (method === 'credits') return null;
+  return balance.payout_email;
+}
+
+function encryptionKey(): Buffer {
+  const key = parseEncryptionKey(process.env.PAYOUT_ENCRYPTION_KEY);
+  if (!key) {
+    throw new PayoutError(503, 'Payout details storage is not configured (PAYOUT_ENCRYPTION_KEY)');
+  }
+  return key;
+}
+
+function nachaConfig(): NachaConfig | null {
+  const immediateDestination = process.env.NACHA_IMMEDIATE_DESTINATION;
+  const companyId = process.env.NACHA_COMPANY_ID;
+  if (!immediateDestination || !companyId) return null;
+  return {
+    immediateDestination,
+    immediateDestinationName: process.env.NACHA_IMMEDIATE_DESTINATION_NAME || '',
+    immediateOrigin: process.env.NACHA_IMMEDIATE_ORIGIN || companyId,
+    companyName: process.env.NACHA_COMPANY_NAME || 'REMVANA',
+    companyId,
+    originatingDfi: process.env.NACHA_ORIGINATING_DFI || immediateDestination.substring(0, 8),
+  };
+}
+
+export class CreatorPayoutService {
+  /**
+   * Credit a sale's earnings to the seller's pending balance and post the
+   * sale to the ledger. When a promo code discounted it, `paid` is what the
+   * buyer was charged and `listPrice` the price before the discount, if the
+   * purchase doesn't record it.
+   */
+  async creditSale(
+    purchase: TemplatePurchase,
+    options: { paid?: number; listPrice?: number } = {},
+    tx?: Transaction,
+  ): Promise<void> {
+    const write = async (executor: Transaction) => {
+      const earnings = parseFloat(purchase.seller_earnings || '0');
+      const posted = await ledgerService.post({
+        kind: 'sale',
+        idempotencyKey: `sale:${purchase.id}`,
+        referenceType: 'template_purchase',
+        referenceId: purchase.id,
+        description: `Sale of template ${purchase.template_id}`,
+        lines: saleLines({
+          sellerId: purchase.seller_id,
+          price: options.listPrice ?? parseFloat(purchase.price || '0'),
+          paid: options.paid ?? parseFloat(purchase.price || '0'),
+          stripeFee: parseFloat(purchase.stripe_fee || '0'),
+          sellerEarnings: earnings,
+        }),
+      }, executor);
+      // Already credited (a retried webhook, say): the balance columns were updated then
+      if (!posted || !(earnings > 0)) return;
+
+      const amount = earnings.toFixed(2);
+      await executor.insert(creatorBalances)
+        .values({
+          user_id: purchase.seller_id,
+          available_balance: '0',
+          pending_balance: amount,
+          lifetime_earnings: amount,
+          lifetime_payouts: '0',
+          total_sales: 1,
+        })
+        .onConflictDoUpdate({
+          target: creatorBalances.user_id,
+          set: {
+            pending_balance: sql`COALESCE(${creatorBalances.pending_balance}, 0) + ${amount}`,
+            lifetime_earnings: sql`COALESCE(${creatorBalances.lifetime_earnings}, 0) + ${amount}`,
+            total_sales: sql`COALESCE(${creatorBalances.total_sales}, 0) + 1`,
+            updated_at: new Date(),
+          },
+        });
+      await executor.update(users)
+        .set({ total_template_revenue: sql`COALESCE(${users.total_template_revenue}, 0) + ${amount}` })
+        .where(eq(users.id, purchase.seller_id));
+    };
+
+    if (tx) {
+      await write(tx);
+    } else {
+      await db.transaction(write);
+    }
+  }
+
+  /**
+   * Move earnings from sales older than the hold period from pending to
+   * available, along with referral commissions on those sales. Refunded and
+   * disputed purchases stay held.
+   */
+  async releaseHeldEarnings(now: Date = new Date()): Promise<{ purchases: number; commissions: number; amount: number }> {
+    const cutoff = new Date(now.getTime() - PAYOUT_HOLD_DAYS * DAY_MS);
+    const due = await db
+      .select({ id: templatePurchases.id, seller_id: templatePurchases.seller_id })
+      .from(templatePurchases)
+      .where(and(
+        eq(templatePurchases.status, 'completed'),
+        isNull(templatePurchases.earnings_released_at),
+        lte(templatePurchases.purchased_at, cutoff),
+      ));
+
+    const bySeller = new Map<number, number[]>();
+    for (const purchase of due) {
+      bySeller.set(purchase.seller_id, [...(bySeller.get(purchase.seller_id) ?? []), purchase.id]);
+    }
+
+    let released = 0;
+    let total = 0;
+    for (const [sellerId, purchaseIds] of Array.from(bySeller)) {
+      const amount = await db.transaction(async (tx) => {
+        const rows = await tx.update(templatePurchases)
+          .set({ earnings_released_at: now })
+          .where(and(inArray(templatePurchases.id, purchaseIds), isNull(templatePurchases.earnings_released_at)))
+          .returning({ id: templatePurchases.id, seller_earnings: templatePurchases.seller_earnings });
+        released += rows.length;
+
+        for (const row of rows) {
+          await ledgerService.post({
+            kind: 'release',
+            idempotencyKey: `release:${row.id}`,
+            referenceType: 'template_purchase',
+            referenceId: row.id,
+            lines: transferLines('creator_pending', 'creator_available', sellerId, parseFloat(row.seller_earnings)),
+          }, tx);
+        }
+
+        const sum = rows.reduce((acc, row) => acc + cents(row.seller_earnings), 0) / 100;
+        if (sum > 0) {
+          await tx.update(creatorBalances)
+            .set({
+              pending_balance: sql`GREATEST(COALESCE(${creatorBalances.pending_balance}, 0) - ${sum.toFixed(2)}, 0)`,
+              available_balance: sql`COALESCE(${creatorBalances.available_balance}, 0) + ${sum.toFixed(2)}`,
+              updated_at: now,
+            })
+            .where(eq(creatorBalances.user_id, sellerId));
+        }
+        return sum;
+      });
+      total += amount;
+    }
+
+    const commissions = await this.releaseCommissions(cutoff, now);
+    total += commissions.amount;
+
+    if (released > 0 || commissions.count > 0) {
+      logger.info(`Released $${total.toFixed(2)} of held earnings from ${released} purchases and ${commissions.count} referral commissions`);
+    }
+    return { purchases: released, commissions: commissions.count, amount: total };
+  }
+
+  private async releaseCommissions(cutoff: Date, now: Date): Promise<{ count: number; amount: number }> {
+    const due = await db
+      .select({ id: referralConversions.id })
+      .from(referralConversions)
+      .innerJoin(templatePurchases, eq(templatePurchases.id, referralConversions.template_purchase_id))
+      .where(and(
+        eq(referralConversions.commission_status, 'pending'),
+        eq(templatePurchases.status, 'completed'),
+        lte(templatePurchases.purchased_at, cutoff),
+      ));
+
+    let count = 0;
+    let amount = 0;
+    for (const { id } of due) {
+      const commission = await db.transaction(async (tx) => {
+        const [row] = await tx.update(referralConversions)
+          .set({ commission_status: 'released', released_at: now })
+          .where(and(eq(referralConversions.id, id), eq(referralConversions.commission_status, 'pending')))
+          .returning();
+        if (!row) return 0;
+
+        const value = parseFloat(row.commission || '0');
+        await ledgerService.post({
+          kind: 'release',
+          idempotencyKey: `release:referral:${row.id}`,
+          referenceType: 'template_purchase',
+          referenceId: row.template_purchase_id,
+          lines: transferLines('creator_pending', 'creator_available', row.referrer_id, value),
+        }, tx);
+        await tx.update(creatorBalances)
+          .set({
+            pending_balance: sql`GREATEST(COALESCE(${creatorBalances.pending_balance}, 0) - ${value.toFixed(2)}, 0)`,
+            available_balance: sql`COALESCE(${creatorBalances.available_balance}, 0) + ${value.toFixed(2)}`,
+            updated_at: now,
+          })
+          .where(eq(creatorBalances.user_id, row.referrer_id));
+        return value;
+      });
+      if (commission > 0) {
+        count++;
+        amount += commission;
+      }
+    }
+    return { count, amount };
+  }
+
+  /**
+   * Encrypt bank details and batch files stored in clear before migration
+   * 0030 and clear the plaintext columns. Safe to run on every start.
+   */
+  async encryptStoredDetails(): Promise<{ balances: number; batches: number }> {
+    const key = parseEncryptionKey(process.env.PAYOUT_ENCRYPTION_KEY);
+    const [balances, batches] = await Promise.all([
+      db.execute(sql`
+        SELECT id, bank_routing_number, bank_account_number FROM creator_balances
+        WHERE bank_routing_number IS NOT NULL OR bank_account_number IS NOT NULL`),
+      db.execute(sql`SELECT id, file_contents FROM payout_batches WHERE file_contents IS NOT NULL`),
+    ]);
+    if (balances.rows.length + batches.rows.length === 0) return { balances: 0, batches: 0 };
+    if (!key) {
+      logger.error('Payout details are stored unencrypted; set PAYOUT_ENCRYPTION_KEY to encrypt them');
+      return { balances: 0, batches: 0 };
+    }
+
+    for (const row of balances.rows as Array<{ id: number; bank_routing_number: string | null; bank_account_number: string | null }>) {
+      await db.execute(sql`
+        UPDATE creator_balances SET
+          bank_routing_number_encrypted = ${row.bank_routing_number ? encryptValue(row.bank_routing_number, key) : null},
+          bank_account_number_encrypted = ${row.bank_account_number ? encryptValue(row.bank_account_number, key) : null},
+          bank_routing_number = NULL,
+          bank_account_number = NULL
+        WHERE id = ${row.id}`);
+    }
+    for (const row of batches.rows as Array<{ id: number; file_contents: string }>) {
+      await db.execute(sql`
+        UPDATE payout_batches SET file_contents_encrypted = ${encryptValue(row.file_contents, key)}, file_contents = NULL
+        WHERE id = ${row.id}`);
+    }
+
+    logger.info(`Encrypted stored bank details for ${balances.rows.length} creators and ${batches.rows.length} payout batch files`);
+    return { balances: balances.rows.length, batches: batches.rows.length };
+  }
+
+  startHoldRelease(): void {
+    intervalCleanup.setInterval(() => {
+      this.releaseHeldEarnings().catch(error => logger.error('Failed to release held earnings:', error));
+    }, HOLD_RELEASE_INTERVAL_MS, 'creator-payout-hold-release');
+  }
+
+  async updatePayoutDetails(userId: number, details: PayoutDetails): Promise<CreatorBalance> {
+    const update: Partial<CreatorBalance> = {};
+    if (details.payout_method) update.payout_method = details.payout_method;
+    if (details.payout_email) update.payout_email = details.payout_email;
+    if (details.bank_account_holder) update.bank_account_holder = details.bank_account_holder;
+    if (details.bank_account_type) update.bank_account_type = details.bank_account_type;
+    if (details.bank_routing_number || details.bank_account_number) {
+      if (!details.bank_routing_number || !details.bank_account_number) {
+        throw new PayoutError(400, 'Routing and account number are both required');
+      }
+      if (!isValidRoutingNumber(details.bank_routing_number)) {
+        throw new PayoutError(400, 'Invalid routing number');
+      }
+      const key = encryptionKey();
+      update.bank_routing_number_encrypted = encryptValue(details.bank_routing_number, key);
+      update.bank_account_number_encrypted = encryptValue(details.bank_account_number, key);
+      update.bank_account_last4 = details.bank_account_number.slice(-4);
+      update.bank_account_status = 'unverified';
+    }
+
+    const [balance] = await db.insert(creatorBalances)
+      .values({ user_id: userId, ...update })
+      .onConflictDoUpdate({ target: creatorBalances.user_id, set: { ...update, updated_at: new Date() } })
+      .returning();
+    return balance;
+  }
+
+  /**
+   * Create a payout request, taking the amount out of the available balance
+   * and linking the purchases it pays out.
+   */
+  async requestPayout(userId: number, method: PayoutMethod, amount: number): Promise<CreatorPayout> {
+    const payout = await db.transaction(async (tx) => {
+      const [balance] = await tx.select().from(creatorBalances).where(eq(creatorBalances.user_id, userId)).for('update');
+      if (!balance) throw new PayoutError(400, 'No earnings available for payout');
+
+      // The ledger decides what is available; the balance row is locked so requests queue up
+      const derived = await ledgerService.creatorBalance(userId, tx);
+      const problem = payoutRequestProblem({ ...balance, available_balance: derived.available.toFixed(2) }, method, amount);
+      if (problem) throw new PayoutError(400, problem);
+
+      const value = (cents(amount) / 100).toFixed(2);
+      await tx.update(creatorBalances)
+        .set({ available_balance: sql`${creatorBalances.available_balance} - ${value}`, updated_at: new Date() })
+        .where(eq(creatorBalances.user_id, userId));
+
+      const [created] = await tx.insert(creatorPayouts).values({
+        user_id: userId,
+        amount: value,
+        currency: balance.currency || 'USD',
+        method,
+        destination: destination(balance, method),
+        status: 'requested',
+      }).returning();
+
+      await ledgerService.post({
+        kind: 'payout_requested',
+        idempotencyKey: `payout:${created.id}:requested`,
+        referenceType: 'creator_payout',
+        referenceId: created.id,
+        lines: transferLines('creator_available', 'payouts_in_transit', userId, amount),
+      }, tx);
+
+      const unpaid = await tx
+        .select({ id: templatePurchases.id, seller_earnings: templatePurchases.seller_earnings })
+        .from(templatePurchases)
+        .where(and(
+          eq(templatePurchases.seller_id, userId),
+          eq(templatePurchases.status, 'completed'),
+          eq(templatePurchases.payout_status, 'pending'),
+          isNull(templatePurchases.payout_id),
+          sql`${templatePurchases.earnings_released_at} IS NOT NULL`,
+        ))
+        .orderBy(asc(templatePurchases.purchased_at));
+      const covered = coveredPurchases(unpaid, amount);
+      if (covered.length > 0) {
+        await tx.update(templatePurchases)
+          .set({ payout_id: created.id, payout_method: method })
+          .where(inArray(templatePurchases.id, covered.map(purchase => purchase.id)));
+      }
+      return created;
+    });
+
+    logger.info(`Creator ${userId} requested a ${method} payout of $${payout.amount} (payout ${payout.id})`);
+    return payout;
+  }
+
+  async listForCreator(userId: number): Promise<CreatorPayout[]> {
+    return db.select().from(creatorPayouts)
+      .where(eq(creatorPayouts.user_id, userId))
+      .orderBy(desc(creatorPayouts.requested_at));
+  }
+
+  async listPayouts(status?: PayoutStatus) {
+    const rows = await db
+      .select({
+        payout: creatorPayouts,
+        username: users.username,
+        email: users.email,
+      })
+      .from(creatorPayouts)
+      .leftJoin(users, eq(creatorPayouts.user_id, users.id))
+      .where(status ? eq(creatorPayouts.status, status) : sql`true`)
+      .orderBy(desc(creatorPayouts.requested_at));
+    return rows.map(row => ({ ...row.payout, username: row.username, email: row.email }));
+  }
+
+  /**
+   * Move a payout to its next status, applying what that means for the
+   * creator's balance and the purchases it covers.
+   */
+  private async transition(
+    tx: Transaction,
+    payoutId: number,
+    to: PayoutStatus,
+    changes: Partial<CreatorPayout> = {},
+  ): Promise<CreatorPayout> {
+    const [payout] = await tx.select().from(creatorPayouts).where(eq(creatorPayouts.id, payoutId)).for('update');
+    if (!payout) throw new PayoutError(404, 'Payout not found');
+    if (!canTransition(payout.status, to)) {
+      throw new PayoutError(409, `Payout ${payoutId} is ${payout.status} and can't become ${to}`);
+    }
+
+    const now = new Date();
+    const timestamps: Partial<CreatorPayout> = {
+      approved: { approved_at: now },
+      processing: { processing_at: now },
+      paid: { paid_at: now },
+      failed: { failed_at: now },
+      requested: {},
+    }[to];
+    const [updated] = await tx.update(creatorPayouts)
+      .set({ ...changes, ...timestamps, status: to, updated_at: now })
+      .where(eq(creatorPayouts.id, payoutId))
+      .returning();
+
+    if (to === 'processing') {
+      await tx.update(templatePurchases)
+        .set({ payout_status: 'processing', payout_initiated_at: now })
+        .where(eq(templatePurchases.payout_id, payoutId));
+    } else if (to === 'paid') {
+      await tx.update(templatePurchases)
+        .set({
+          payout_status: 'completed',
+          payout_completed_at: now,
+          payout_transaction_id: updated.transaction_id,
+          payout_notes: updated.notes,
+        })
+        .where(eq(templatePurchases.payout_id, payoutId));
+      await tx.update(creatorBalances)
+        .set({ lifetime_payouts: sql`COALESCE(${creatorBalances.lifetime_payouts}, 0) + ${updated.amount}`, updated_at: now })
+        .where(eq(creatorBalances.user_id, updated.user_id));
+      await ledgerService.post({
+        kind: 'payout_paid',
+        idempotencyKey: `payout:${payoutId}:paid`,
+        referenceType: 'creator_payout',
+        referenceId: payoutId,
+        description: updated.transaction_id ? `Paid as ${updated.transaction_id}` : undefined,
+        lines: transferLines('payouts_in_transit', 'platform_cash', updated.user_id, parseFloat(updated.amount)),
+      }, tx);
+    } else if (to === 'failed') {
+      // The purchases go back to waiting for a payout and the money back to the creator
+      await tx.update(templatePurchases)
+        .set({ payout_id: null, payout_status: 'pending', payout_initiated_at: null, payout_notes: updated.failure_reason })
+        .where(eq(templatePurchases.payout_id, payoutId));
+      await tx.update(creatorBalances)
+        .set({ available_balance: sql`COALESCE(${creatorBalances.available_balance}, 0) + ${updated.amount}`, updated_at: now })
+        .where(eq(creatorBalances.user_id, updated.user_id));
+      await ledgerService.post({
+        kind: 'payout_failed',
+        idempotencyKey: `payout:${payoutId}:failed`,
+        referenceType: 'creator_payout',
+        referenceId: payoutId,
+        description: updated.failure_reason ?? undefined,
+        lines: transferLines('payouts_in_transit', 'creator_available', updated.user_id, parseFloat(updated.amount)),
+      }, tx);
+    }
+    return updated;
+  }
+
+  async approve(payoutId: number, adminId: number): Promise<CreatorPayout> {
+    const payout = await db.transaction(tx => this.transition(tx, payoutId, 'approved', { approved_by: adminId }));
+    logger.info(`Payout ${payoutId} approved by ${adminId}`);
+    return payout;
+  }
+
+  async fail(payoutId: number, reason: string): Promise<CreatorPayout> {
+    const payout = await db.transaction(tx => this.transition(tx, payoutId, 'failed', { failure_reason: reason }));
+    logger.info(`Payout ${payoutId} failed: ${reason}`);
+    return payout;
+  }
+
+  /**
+   * Mark a payout settled outside a batch file (Amazon, credits, or a
+   * batch payout confirmed by hand). Approved payouts pass through
+   * processing.
+   */
+  async markPaid(payoutId: number, transactionId: string | null, notes?: string | null): Promise<CreatorPayout> {
+    const payout = await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(creatorPayouts).where(eq(creatorPayouts.id, payoutId));
+      if (current?.status === 'approved') await this.transition(tx, payoutId, 'processing');
+      return this.transition(tx, payoutId, 'paid', { transaction_id: transactionId, notes: notes ?? null });
+    });
+    logger.info(`Payout ${payoutId} marked paid (${transactionId ?? 'no transaction id'})`);
+    return payout;
+  }
+
+  /**
+   * Export every approved payout for a method as one batch file and move
+   * them to processing.
+   */
+  async createBatch(method: BatchMethod, adminId: number): Promise<PayoutBatch> {
+    const config = method === 'bank' ? nachaConfig() : null;
+    if (method === 'bank' && !config) {
+      throw new PayoutError(503, 'Bank payouts are not configured (NACHA_IMMEDIATE_DESTINATION, NACHA_COMPANY_ID)');
+    }
+    const key = encryptionKey();
+
+    const batch = await db.transaction(async (tx) => {
+      const approved = await tx
+        .select({ payout: creatorPayouts, balance: creatorBalances })
+        .from(creatorPayouts)
+        .innerJoin(creatorBalances, eq(creatorPayouts.user_id, creatorBalances.user_id))
+        .where(and(eq(creatorPayouts.status, 'approved'), eq(creatorPayouts.method, method)))
+        .orderBy(asc(creatorPayouts.id))
+        .for('update', { of: creatorPayouts });
+      if (approved.length === 0) throw new PayoutError(400, `No approved ${method} payouts to export`);
+
+      const now = new Date();
+      let contents: string;
+      if (method === 'paypal') {
+        contents = paypalMassPayCsv(approved.map(({ payout, balance }) => ({
+          payoutId: payout.id,
+          email: balance.payout_email || payout.destination || '',
+          amount: parseFloat(payout.amount),
+          currency: payout.currency || 'USD',
+        })));
+      } else {
+        contents = nachaFile(approved.map(({ payout, balance }): BankPayoutLine => ({
+          payoutId: payout.id,
+          accountHolder: balance.bank_account_holder || '',
+          routingNumber: balance.bank_routing_number_encrypted ? decryptValue(balance.bank_routing_number_encrypted, key) : '',
+          accountNumber: balance.bank_account_number_encrypted ? decryptValue(balance.bank_account_number_encrypted, key) : '',
+          accountType: balance.bank_account_type === 'savings' ? 'savings' : 'checking',
+          amount: parseFloat(payout.amount),
+        })), config!, now);
+      }
+
+      const stamp = now.toISOString().slice(0, 10).replace(/-/g, '');
+      const [created] = await tx.insert(payoutBatches).values({
+        method,
+        format: method === 'paypal' ? 'paypal_mass_pay' : 'nacha',
+        file_name: method === 'paypal' ? `remvana-paypal-${stamp}.csv` : `remvana-ach-${stamp}.txt`,
+        file_contents_encrypted: encryptValue(contents, key),
+        payout_count: approved.length,
+        total_amount: (approved.reduce((sum, { payout }) => sum + cents(payout.amount), 0) / 100).toFixed(2),
+        created_by: adminId,
+      }).returning();
+
+      for (const { payout } of approved) {
+        await this.transition(tx, payout.id, 'processing', { batch_id: created.id });
+      }
+      return created;
+    });
+
+    logger.info(`Payout batch ${batch.id}: ${batch.payout_count} ${method} payouts, $${batch.total_amount}`);
+    return batch;
+  }
+
+  async listBatches(): Promise<Array<Omit<PayoutBatch, 'file_contents_encrypted'>>> {
+    const batches = await db.select().from(payoutBatches).orderBy(desc(payoutBatches.created_at));
+    return batches.map(({ file_contents_encrypted, ...batch }) => batch);
+  }
+
+  async getBatch(batchId: number): Promise<PayoutBatch | null> {
+    const [batch] = await db.select().from(payoutBatches).where(eq(payoutBatches.id, batchId)).limit(1);
+    return batch ?? null;
+  }
+
+  // The batch file as it was exported, for download
+  async getBatchFile(batchId: number): Promise<{ batch: PayoutBatch; contents: string } | null> {
+    const batch = await this.getBatch(batchId);
+    if (!batch) return null;
+    if (!batch.file_contents_encrypted) {
+      throw new PayoutError(409, 'This batch file has not been encrypted yet; try again shortly');
+    }
+    return { batch, contents: decryptValue(batch.file_contents_encrypted, encryptionKey()) };
+  }
+
+  /**
+   * Import a provider's results for a batch. Re-importing the same file
+   * is harmless: payouts already settled the same way are skipped.
+   */
+  async reconcile(batchId: number, file: string): Promise<ReconciliationSummary> {
+    const batch = await this.getBatch(batchId);
+    if (!batch) throw new PayoutError(404, 'Payout batch not found');
+
+    const { results, errors } = parseReconciliationFile(file);
+    const summary: ReconciliationSummary = { paid: 0, failed: 0, skipped: [], errors };
+
+    for (const result of results) {
+      const skip = await this.applyResult(batchId, result);
+      if (skip) {
+        summary.skipped.push({ payoutId: result.payoutId, reason: skip });
+      } else {
+        summary[result.outcome]++;
+      }
+    }
+
+    const [{ open }] = await db
+      .select({ open: sql<number>`count(*)::int` })
+      .from(creatorPayouts)
+      .where(and(eq(creatorPayouts.batch_id, batchId), eq(creatorPayouts.status, 'processing')));
+    if (open === 0 && !batch.reconciled_at) {
+      await db.update(payoutBatches).set({ reconciled_at: new Date() }).where(eq(payoutBatches.id, batchId));
+    }
+
+    logger.info(`Reconciled payout batch ${batchId}: ${summary.paid} paid, ${summary.failed} failed, ${summary.skipped.length} skipped`);
+    return summary;
+  }
+
+  // Null when applied, otherwise why the result was skipped
+  private async applyResult(batchId: number, result: ReconciliationResult): Promise<string | null> {
+    const [payout] = await db.select().from(creatorPayouts).where(eq(creatorPayouts.id, result.payoutId)).limit(1);
+    if (!payout || payout.batch_id !== batchId) return 'Not in this batch';
+    if (payout.status === result.outcome) return `Already ${payout.status}`;
+    if (payout.status !== 'processing') return `Payout is ${payout.status}`;
+
+    await db.transaction(tx => this.transition(tx, payout.id, result.outcome, result.outcome === 'paid'
+      ? { transaction_id: result.transactionId }
+      : { transaction_id: result.transactionId, failure_reason: result.reason }));
+    return null;
+  }
+}
+
+export const creatorPayoutService = new CreatorPayoutService();
@@ -0,0 +1,332 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../db-connection';
+import { exchangeRates } from '@shared/schema';
+import { logger } from '../utils/logger';
+
+/**
+ * Currency conversion for trip budgets.
+ *
+ * Rates live in the exchange_rates table and are loaded manually (admin
+ * route, CSV via `npm run seed:rates`). A built-in table of USD rates is
+ * always available underneath, so conversion works with no network and an
+ * empty table. Amounts convert at the rate on their own date: the latest
+ * rate on or before that day, or the earliest one we have if the date
+ * predates every rate.
+ */
+
+export interface RateEntry {
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  rate_date: string; // YYYY-MM-DD
+}
+
+export interface ResolvedRate {
+  rate: number;
+  rate_date: string;
+}
+
+export interface ConvertedAmount {
+  amount: number;
+  rate: number;
+  rate_date: string | null; // null when no conversion was needed
+}
+
+// Reference rates (1 USD = x) used when nothing has been loaded
+export const SEED_RATE_DATE = '2025-01-02';
+export const SEED_USD_RATES: Record<string, number> = {
+  EUR: 0.9657,
+  GBP: 0.8034,
+  JPY: 157.26,
+  CAD: 1.4383,
+  AUD: 1.6117,
+  NZD: 1.7842,
+  CHF: 0.9104,
+  CNY: 7.2993,
+  HKD: 7.7688,
+  SGD: 1.3661,
+  INR: 85.79,
+  MXN: 20.6606,
+  BRL: 6.1804,
+  ZAR: 18.8338,
+  SEK: 11.0627,
+  NOK: 11.3791,
+  DKK: 7.2024,
+  PLN: 4.1279,
+  CZK: 24.3198,
+  HUF: 397.31,
+  TRY: 35.3821,
+  THB: 34.3365,
+  KRW: 1472.35,
+  IDR: 16162.5,
+  MYR: 4.4725,
+  PHP: 57.897,
+  AED: 3.6725,
+  ILS: 3.6538,
+  ISK: 139.38,
+  COP: 4405.37,
+  ARS: 1032.5,
+  CLP: 995.44,
+  PEN: 3.7635,
+  EGP: 50.8512,
+  MAD: 10.1304,
+  VND: 25455,
+};
+
+export function seedRateEntries(): RateEntry[] {
+  return Object.entries(SEED_USD_RATES).map(([quote, rate]) => ({
+    base_currency: 'USD',
+    quote_currency: quote,
+    rate,
+    rate_date: SEED_RATE_DATE,
+  }));
+}
+
+export function normalizeCurrencyCode(code: string | null | undefined, fallback = 'USD'): string {
+  const normalized = (code || '').trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(normalized) ? normalized : fallback;
+}
+
+// Minor units per ISO 4217 (JPY 0, most 2), via Intl
+export function minorUnits(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2; // Unknown code
+  }
+}
+
+export function roundMoney(amount: number, currency: string): number {
+  const factor = Math.pow(10, minorUnits(currency));
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * In-memory lookup over a set of rates. Direct, inverse and cross rates
+ * (through any currency both sides are quoted against) are supported.
+ */
+export class RateTable {
+  private series = new Map<string, Array<{ date: string; rate: number }>>();
+  private neighbours = new Map<string, Set<string>>();
+
+  constructor(entries: RateEntry[]) {
+    for (const entry of entries) {
+      if (!(entry.rate > 0)) continue;
+      const base = normalizeCurrencyCode(entry.base_currency, '');
+      const quote = normalizeCurrencyCode(entry.quote_currency, '');
+      if (!base || !quote || base === quote) continue;
+
+      this.add(base, quote, entry.rate_date, entry.rate);
+      this.add(quote, base, entry.rate_date, 1 / entry.rate);
+    }
+
+    this.series.forEach(points => points.sort((a, b) => a.date.localeCompare(b.date)));
+  }
+
+  currencies(): string[] {
+    return Array.from(this.neighbours.keys()).sort();
+  }
+
+  getRate(from: string, to: string, date: string): ResolvedRate | null {
+    if (from === to) return { rate: 1, rate_date: date };
+
+    const direct = this.lookup(from, to, date);
+    if (direct) return direct;
+
+    // Cross through a shared currency, preferring the one with the freshest rates
+    let best: ResolvedRate | null = null;
+    for (const via of Array.from(this.neighbours.get(from) || [])) {
+      const first = this.lookup(from, via, date);
+      const second = first && this.lookup(via, to, date);
+      if (!first || !second) continue;
+
+      const rateDate = first.rate_date < second.rate_date ? first.rate_date : second.rate_date;
+      if (!best || rateDate > best.rate_date) {
+        best = { rate: first.rate * second.rate, rate_date: rateDate };
+      }
+    }
+    return best;
+  }
+
+  convert(amount: number, from: string, to: string, date: string): ConvertedAmount | null {
+    if (from === to) return { amount, rate: 1, rate_date: null };
+
+    const resolved = this.getRate(from, to, date);
+    if (!resolved) return null;
+    return { amount: amount * resolved.rate, rate: resolved.rate, rate_date: resolved.rate_date };
+  }
+
+  private add(from: string, to: string, date: string, rate: number) {
+    const key = `${from}/${to}`;
+    const points = this.series.get(key) || [];
+    // A loaded rate replaces another on the same day (later entries win)
+    const existing = points.findIndex(p => p.date === date);
+    if (existing >= 0) points[existing].rate = rate;
+    else points.push({ date, rate });
+    this.series.set(key, points);
+
+    if (!this.neighbours.has(from)) this.neighbours.set(from, new Set());
+    this.neighbours.get(from)!.add(to);
+  }
+
+  private lookup(from: string, to: string, date: string): ResolvedRate | null {
+    const points = this.series.get(`${from}/${to}`);
+    if (!points || points.length === 0) return null;
+
+    let match = points[0];
+    for (const point of points) {
+      if (point.date > date) break;
+      match = point;
+    }
+    return { rate: match.rate, rate_date: match.date };
+  }
+}
+
+export interface MoneyItem {
+  amount: number;
+  currency: string;
+  date: string;
+}
+
+export interface CurrencyBreakdown {
+  currency: string;
+  amount: number; // In the original currency
+  converted_amount: number | null; // In the home currency, null when no rate exists
+}
+
+export interface CurrencyTotals {
+  currency: string;
+  total: number;
+  by_currency: CurrencyBreakdown[];
+  unconverted_currencies: string[];
+}
+
+/**
+ * Total a list of amounts in the home currency, converting each at the rate
+ * on its own date, with the per-currency subtotals alongside.
+ */
+export function totalInCurrency(items: MoneyItem[], homeCurrency: string, table: RateTable): CurrencyTotals {
+  const byCurrency = new Map<string, { amount: number; converted: number; missing: boolean }>();
+  let total = 0;
+
+  for (const item of items) {
+    const currency = normalizeCurrencyCode(item.currency, homeCurrency);
+    const bucket = byCurrency.get(currency) || { amount: 0, converted: 0, missing: false };
+    bucket.amount += item.amount;
+
+    const converted = table.convert(item.amount, currency, homeCurrency, item.date);
+    if (converted) {
+      bucket.converted += converted.amount;
+      total += converted.amount;
+    } else {
+      bucket.missing = true;
+    }
+    byCurrency.set(currency, bucket);
+  }
+
+  return {
+    currency: homeCurrency,
+    total: roundMoney(total, homeCurrency),
+    by_currency: Array.from(byCurrency.entries())
+      .map(([currency, bucket]) => ({
+        currency,
+        amount: roundMoney(bucket.amount, currency),
+        converted_amount: bucket.missing ? null : roundMoney(bucket.converted, homeCurrency),
+      }))
+      .sort((a, b) => (b.converted_amount ?? 0) - (a.converted_amount ?? 0)),
+    unconverted_currencies: Array.from(byCurrency.entries()).filter(([, b]) => b.missing).map(([c]) => c),
+  };
+}
+
+/**
+ * Parse rates from CSV: `date,base,quote,rate` per line. A header row and
+ * blank or # lines are skipped.
+ */
+export function parseRatesCsv(text: string): { rates: RateEntry[]; errors: string[] } {
+  const rates: RateEntry[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const [date, base, quote, rate] = trimmed.split(',').map(part => part.trim());
+    if (index === 0 && isNaN(Number(rate))) return; // Header
+
+    const value = Number(rate);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date || '') || !/^[A-Za-z]{3}$/.test(base || '') || !/^[A-Za-z]{3}$/.test(quote || '') || !(value > 0)) {
+      errors.push(`Line ${index + 1}: expected date,base,quote,rate`);
+      return;
+    }
+    rates.push({ base_currency: base.toUpperCase(), quote_currency: quote.toUpperCase(), rate: value, rate_date: date });
+  });
+
+  return { rates, errors };
+}
+
+export function toDateString(value: Date | string | null | undefined): string {
+  if (!value) return new Date().toISOString().slice(0, 10);
+  if (typeof value === 'string') return value.slice(0, 10);
+  return value.toISOString().slice(0, 10);
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export class CurrencyService {
+  private cached: { table: RateTable; loadedAt: number } | null = null;
+
+  /**
+   * Built-in rates plus everything in exchange_rates (which wins on the
+   * same day). Cached for a few minutes.
+   */
+  async getRateTable(): Promise<RateTable> {
+    if (this.cached && Date.now() - this.cached.loadedAt < CACHE_TTL_MS) {
+      return this.cached.table;
+    }
+
+    let stored: RateEntry[] = [];
+    try {
+      const rows = await db.select().from(exchangeRates);
+      stored = rows.map(row => ({
+        base_currency: row.base_currency,
+        quote_currency: row.quote_currency,
+        rate: Number(row.rate),
+        rate_date: row.rate_date,
+      }));
+    } catch (error) {
+      logger.warn('Could not load exchange rates, using built-in rates', { error });
+    }
+
+    const table = new RateTable([...seedRateEntries(), ...stored]);
+    this.cached = { table, loadedAt: Date.now() };
+    return table;
+  }
+
+  async upsertRates(rates: RateEntry[], source: 'manual' | 'seed' | 'import' = 'manual'): Promise<number> {
+    if (rates.length === 0) return 0;
+
+    await db
+      .insert(exchangeRates)
+      .values(rates.map(rate => ({
+        base_currency: normalizeCurrencyCode(rate.base_currency),
+        quote_currency: normalizeCurrencyCode(rate.quote_currency),
+        rate: String(rate.rate),
+        rate_date: rate.rate_date,
+        source,
+      })))
+      .onConflictDoUpdate({
+        target: [exchangeRates.base_currency, exchangeRates.quote_currency, exchangeRates.rate_date],
+        set: { rate: sql`excluded.rate`, source: sql`excluded.source` },
+      });
+
+    this.cached = null;
+    logger.info('Exchange rates loaded', { count: rates.length, source });
+    return rates.length;
+  }
+
+  async seedDefaultRates(): Promise<number> {
+    return this.upsertRates(seedRateEntries(), 'seed');
+  }
+}
+
+export const currencyService = new CurrencyService();
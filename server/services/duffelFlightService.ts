@@ -1,24 +1,52 @@
 import { logger } from '../utils/logger';
 
-if (!process.env.DUFFEL_API_KEY) {
-  throw new Error('DUFFEL_API_KEY environment variable is required');
+/**
+ * Duffel flights API. Configured by DUFFEL_API_KEY; DUFFEL_API_URL points it
+ * somewhere else, e.g. the stand-in from ./duffelMock when working offline.
+ * Without a key the service reports itself unconfigured instead of failing
+ * at startup, and the flight routes answer 503.
+ */
+
+const DUFFEL_API_BASE = 'https://api.duffel.com';
+
+export class DuffelApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'DuffelApiError';
+  }
 }
 
-const DUFFEL_API_BASE = process.env.NODE_ENV === 'production'
-  ? 'https://api.duffel.com'
-  : 'https://api.duffel.com'; // Duffel uses same endpoint for both
+export interface DuffelClientOptions {
+  baseURL?: string;
+  apiKey?: string;
+}
 
 // HTTP client for Duffel API
-class DuffelHTTPClient {
-  private baseURL = DUFFEL_API_BASE;
-  private apiKey = process.env.DUFFEL_API_KEY!;
+export class DuffelHTTPClient {
+  constructor(private options: DuffelClientOptions = {}) {}
+
+  // An apiKey passed in, even an empty one, takes the place of DUFFEL_API_KEY
+  private get apiKey(): string | undefined {
+    return 'apiKey' in this.options ? this.options.apiKey : process.env.DUFFEL_API_KEY;
+  }
+
+  get isConfigured(): boolean {
+    return !!this.apiKey;
+  }
 
   async request(endpoint: string, options: RequestInit = {}) {
-    const url = `${this.baseURL}${endpoint}`;
+    const baseURL = this.options.baseURL || process.env.DUFFEL_API_URL || DUFFEL_API_BASE;
+    const apiKey = this.apiKey;
+    if (!apiKey) {
+      throw new DuffelApiError(503, 'Flight booking is not configured');
+    }
+
+    const url = `${baseURL.replace(/\/$/, '')}${endpoint}`;
     const headers = {
-      'Authorization': `Bearer ${this.apiKey}`,
+      'Authorization': `Bearer ${apiKey}`,
       'Content-Type': 'application/json',
-      'Duffel-Version': 'v1',
+      'Accept': 'application/json',
+      'Duffel-Version': 'v2',
       ...options.headers
     };
 
@@ -32,7 +60,13 @@ class DuffelHTTPClient {
     if (!response.ok) {
       const errorText = await response.text();
       logger.error(`Duffel API Error: ${response.status} ${errorText}`);
-      throw new Error(`Duffel API Error: ${response.status} ${response.statusText}`);
+      let message = response.statusText;
+      try {
+        message = JSON.parse(errorText).errors?.[0]?.message || message;
+      } catch {
+        // Not JSON; keep the status text
+      }
+      throw new DuffelApiError(response.status, message);
     }
 
     const data = await response.json();
@@ -41,8 +75,6 @@ class DuffelHTTPClient {
   }
 }
 
-const duffelClient = new DuffelHTTPClient();
-
 export interface FlightSearchParams {
   origin: string;
   destination: string;
@@ -58,6 +90,7 @@ export interface FlightSearchParams {
 
 export interface FlightOffer {
   id: string;
+  expires_at?: string;
   price: {
     amount: string;
     currency: string;
@@ -100,6 +133,7 @@ export interface FlightOffer {
     }>;
   }>;
   passengers: Array<{
+    id: string; // Duffel's passenger id, needed to book
     type: string;
     fare_basis_code?: string;
     cabin_class: string;
@@ -127,27 +161,35 @@ export interface FlightOffer {
   };
 }
 
+export interface BookingPassenger {
+  id: string; // From the offer's passengers, in the same order
+  title: 'mr' | 'ms' | 'mrs' | 'miss' | 'dr';
+  given_name: string;
+  family_name: string;
+  born_on: string;
+  email: string;
+  phone_number: string;
+  gender: 'm' | 'f';
+}
+
 export interface BookingRequest {
   offer_id: string;
-  passengers: Array<{
-    title: string;
-    given_name: string;
-    family_name: string;
-    born_on: string;
-    email: string;
-    phone_number: string;
-    gender: 'M' | 'F';
-  }>;
+  passengers: BookingPassenger[];
   payment: {
     type: 'balance';
+    amount: string; // Must match the offer's current total
+    currency: string;
   };
 }
 
 export interface BookingResponse {
   id: string;
   reference: string;
-  status: string;
+  status: 'confirmed' | 'cancelled';
   created_at: string;
+  cancelled_at: string | null;
+  total_amount: string;
+  total_currency: string;
   booking_reference: string;
   documents: Array<{
     type: string;
@@ -174,7 +216,127 @@ export interface BookingResponse {
   }>;
 }
 
+// Duffel offer to our format
+function toFlightOffer(offer: any): FlightOffer {
+  return {
+    id: offer.id,
+    expires_at: offer.expires_at,
+    price: {
+      amount: offer.total_amount,
+      currency: offer.total_currency
+    },
+    slices: offer.slices.map((slice: any) => ({
+      origin: {
+        iata_code: slice.origin.iata_code,
+        name: slice.origin.name,
+        city_name: slice.origin.city_name || slice.origin.name
+      },
+      destination: {
+        iata_code: slice.destination.iata_code,
+        name: slice.destination.name,
+        city_name: slice.destination.city_name || slice.destination.name
+      },
+      departure_datetime: slice.segments[0].departing_at,
+      arrival_datetime: slice.segments[slice.segments.length - 1].arriving_at,
+      duration: slice.duration,
+      segments: slice.segments.map((segment: any) => ({
+        airline: {
+          name: segment.marketing_carrier?.name || segment.operating_carrier.name,
+          iata_code: segment.marketing_carrier?.iata_code || segment.operating_carrier.iata_code,
+          logo_url: (segment.marketing_carrier || segment.operating_carrier).logo_symbol_url
+        },
+        flight_number: segment.marketing_carrier_flight_number || segment.operating_carrier_flight_number,
+        aircraft: {
+          name: segment.aircraft?.name || 'Unknown aircraft'
+        },
+        origin: {
+          iata_code: segment.origin.iata_code,
+          name: segment.origin.name
+        },
+        destination: {
+          iata_code: segment.destination.iata_code,
+          name: segment.destination.name
+        },
+        departure_datetime: segment.departing_at,
+        arrival_datetime: segment.arriving_at,
+        duration: segment.duration
+      }))
+    })),
+    passengers: offer.passengers.map((passenger: any) => ({
+      id: passenger.id,
+      type: passenger.type,
+      fare_basis_code: passenger.fare_basis_code,
+      cabin_class: passenger.cabin_class,
+      baggage: passenger.baggages?.map((baggage: any) => ({
+        type: baggage.type,
+        quantity: baggage.quantity
+      })) || []
+    })),
+    conditions: {
+      change_before_departure: toCondition(offer.conditions?.change_before_departure),
+      cancel_before_departure: toCondition(offer.conditions?.cancel_before_departure),
+      refund_before_departure: toCondition(offer.conditions?.refund_before_departure)
+    }
+  };
+}
+
+function toCondition(condition: any) {
+  return condition ? {
+    allowed: condition.allowed,
+    penalty_amount: condition.penalty_amount,
+    penalty_currency: condition.penalty_currency
+  } : undefined;
+}
+
+// Duffel order to our format
+function toBookingResponse(order: any): BookingResponse {
+  return {
+    id: order.id,
+    reference: order.booking_reference,
+    status: order.cancelled_at ? 'cancelled' : 'confirmed',
+    created_at: order.created_at,
+    cancelled_at: order.cancelled_at || null,
+    total_amount: order.total_amount,
+    total_currency: order.total_currency,
+    booking_reference: order.booking_reference,
+    documents: order.documents?.map((doc: any) => ({
+      type: doc.type,
+      url: doc.url
+    })) || [],
+    passengers: order.passengers.map((passenger: any) => ({
+      id: passenger.id,
+      given_name: passenger.given_name,
+      family_name: passenger.family_name,
+      title: passenger.title
+    })),
+    slices: order.slices.map((slice: any) => ({
+      id: slice.id,
+      segments: slice.segments.map((segment: any) => ({
+        id: segment.id,
+        passengers: (segment.passengers || []).map((passenger: any) => ({
+          passenger_id: passenger.passenger_id,
+          seat: passenger.seat ? {
+            designator: passenger.seat.designator,
+            name: passenger.seat.name
+          } : undefined
+        }))
+      }))
+    }))
+  };
+}
+
+// Keep Duffel's status on errors so routes can tell an expired offer from an outage
+function rethrow(error: any, action: string): never {
+  throw new DuffelApiError(error instanceof DuffelApiError ? error.status : 502, `${action}: ${error.message}`);
+}
+
 export class DuffelFlightService {
+  constructor(private client = new DuffelHTTPClient()) {}
+
+  isConfigured(): boolean {
+    return this.client.isConfigured;
+  }
+
   /**
    * Search for flights based on search criteria
    */
@@ -182,7 +344,6 @@ export class DuffelFlightService {
     try {
       logger.info('Searching flights with Duffel API:', params);
 
-      // Create offer request
       const offerRequestData = {
         slices: [
           {
@@ -208,253 +369,63 @@ export class DuffelFlightService {
         });
       }
 
-      // Create offer request via HTTP
-      const offerRequest = await duffelClient.request('/air/offer_requests', {
+      const offerRequest = await this.client.request('/air/offer_requests?return_offers=false', {
         method: 'POST',
         body: JSON.stringify({ data: offerRequestData })
       });
 
       logger.info('Duffel offer request created:', offerRequest.data.id);
 
-      // Get offers from the request
-      const offersResponse = await duffelClient.request(`/air/offers?offer_request_id=${offerRequest.data.id}&limit=50`);
+      const offersResponse = await this.client.request(
+        `/air/offers?offer_request_id=${offerRequest.data.id}&sort=total_amount&limit=50`
+      );
 
       logger.info(`Found ${offersResponse.data.length} flight offers`);
 
-      // Transform Duffel response to our format
-      return offersResponse.data.map((offer: any) => ({
-        id: offer.id,
-        price: {
-          amount: offer.total_amount,
-          currency: offer.total_currency
-        },
-        slices: offer.slices.map((slice: any) => ({
-          origin: {
-            iata_code: slice.origin.iata_code,
-            name: slice.origin.name,
-            city_name: slice.origin.city_name || slice.origin.name
-          },
-          destination: {
-            iata_code: slice.destination.iata_code,
-            name: slice.destination.name,
-            city_name: slice.destination.city_name || slice.destination.name
-          },
-          departure_datetime: slice.segments[0].departing_at,
-          arrival_datetime: slice.segments[slice.segments.length - 1].arriving_at,
-          duration: slice.duration,
-          segments: slice.segments.map((segment: any) => ({
-            airline: {
-              name: segment.operating_carrier.name,
-              iata_code: segment.operating_carrier.iata_code,
-              logo_url: segment.operating_carrier.logo_symbol_url
-            },
-            flight_number: segment.operating_carrier_flight_number,
-            aircraft: {
-              name: segment.aircraft.name
-            },
-            origin: {
-              iata_code: segment.origin.iata_code,
-              name: segment.origin.name
-            },
-            destination: {
-              iata_code: segment.destination.iata_code,
-              name: segment.destination.name
-            },
-            departure_datetime: segment.departing_at,
-            arrival_datetime: segment.arriving_at,
-            duration: segment.duration
-          }))
-        })),
-        passengers: offer.passengers.map((passenger: any) => ({
-          type: passenger.type,
-          fare_basis_code: passenger.fare_basis_code,
-          cabin_class: passenger.cabin_class,
-          baggage: passenger.baggages?.map((baggage: any) => ({
-            type: baggage.type,
-            quantity: baggage.quantity
-          })) || []
-        })),
-        conditions: {
-          change_before_departure: offer.conditions?.change_before_departure ? {
-            allowed: offer.conditions.change_before_departure.allowed,
-            penalty_amount: offer.conditions.change_before_departure.penalty_amount,
-            penalty_currency: offer.conditions.change_before_departure.penalty_currency
-          } : undefined,
-          cancel_before_departure: offer.conditions?.cancel_before_departure ? {
-            allowed: offer.conditions.cancel_before_departure.allowed,
-            penalty_amount: offer.conditions.cancel_before_departure.penalty_amount,
-            penalty_currency: offer.conditions.cancel_before_departure.penalty_currency
-          } : undefined,
-          refund_before_departure: offer.conditions?.refund_before_departure ? {
-            allowed: offer.conditions.refund_before_departure.allowed,
-            penalty_amount: offer.conditions.refund_before_departure.penalty_amount,
-            penalty_currency: offer.conditions.refund_before_departure.penalty_currency
-          } : undefined
-        }
-      }));
-
+      return offersResponse.data.map(toFlightOffer);
     } catch (error: any) {
       logger.error('Duffel flight search error:', error);
-
-      if (error.response?.data) {
-        logger.error('Duffel API error details:', error.response.data);
-      }
-
-      throw new Error(`Flight search failed: ${error.message}`);
+      rethrow(error, 'Flight search failed');
     }
   }
 
   /**
-   * Get detailed offer information
+   * Get detailed offer information, with the current price
    */
   async getOffer(offerId: string): Promise<FlightOffer> {
     try {
-      const offerResponse = await duffelClient.request(`/air/offers/${offerId}`);
-      const offer = offerResponse.data;
-
-      // Transform to our format (same as in searchFlights)
-      return {
-        id: offer.id,
-        price: {
-          amount: offer.total_amount,
-          currency: offer.total_currency
-        },
-        slices: offer.slices.map((slice: any) => ({
-          origin: {
-            iata_code: slice.origin.iata_code,
-            name: slice.origin.name,
-            city_name: slice.origin.city_name || slice.origin.name
-          },
-          destination: {
-            iata_code: slice.destination.iata_code,
-            name: slice.destination.name,
-            city_name: slice.destination.city_name || slice.destination.name
-          },
-          departure_datetime: slice.segments[0].departing_at,
-          arrival_datetime: slice.segments[slice.segments.length - 1].arriving_at,
-          duration: slice.duration,
-          segments: slice.segments.map((segment: any) => ({
-            airline: {
-              name: segment.operating_carrier.name,
-              iata_code: segment.operating_carrier.iata_code,
-              logo_url: segment.operating_carrier.logo_symbol_url
-            },
-            flight_number: segment.operating_carrier_flight_number,
-            aircraft: {
-              name: segment.aircraft.name
-            },
-            origin: {
-              iata_code: segment.origin.iata_code,
-              name: segment.origin.name
-            },
-            destination: {
-              iata_code: segment.destination.iata_code,
-              name: segment.destination.name
-            },
-            departure_datetime: segment.departing_at,
-            arrival_datetime: segment.arriving_at,
-            duration: segment.duration
-          }))
-        })),
-        passengers: offer.passengers.map((passenger: any) => ({
-          type: passenger.type,
-          fare_basis_code: passenger.fare_basis_code,
-          cabin_class: passenger.cabin_class,
-          baggage: passenger.baggages?.map((baggage: any) => ({
-            type: baggage.type,
-            quantity: baggage.quantity
-          })) || []
-        })),
-        conditions: {
-          change_before_departure: offer.conditions?.change_before_departure ? {
-            allowed: offer.conditions.change_before_departure.allowed,
-            penalty_amount: offer.conditions.change_before_departure.penalty_amount,
-            penalty_currency: offer.conditions.change_before_departure.penalty_currency
-          } : undefined,
-          cancel_before_departure: offer.conditions?.cancel_before_departure ? {
-            allowed: offer.conditions.cancel_before_departure.allowed,
-            penalty_amount: offer.conditions.cancel_before_departure.penalty_amount,
-            penalty_currency: offer.conditions.cancel_before_departure.penalty_currency
-          } : undefined,
-          refund_before_departure: offer.conditions?.refund_before_departure ? {
-            allowed: offer.conditions.refund_before_departure.allowed,
-            penalty_amount: offer.conditions.refund_before_departure.penalty_amount,
-            penalty_currency: offer.conditions.refund_before_departure.penalty_currency
-          } : undefined
-        }
-      };
-
+      const offerResponse = await this.client.request(`/air/offers/${encodeURIComponent(offerId)}`);
+      return toFlightOffer(offerResponse.data);
     } catch (error: any) {
       logger.error('Duffel get offer error:', error);
-      throw new Error(`Failed to get offer: ${error.message}`);
+      rethrow(error, 'Failed to get offer');
     }
   }
 
   /**
-   * Create a flight booking
+   * Create a flight booking, paid from the Duffel balance
    */
   async createBooking(bookingData: BookingRequest): Promise<BookingResponse> {
     try {
       logger.info('Creating booking with Duffel API:', bookingData.offer_id);
 
-      const booking = await duffelClient.request('/air/orders', {
+      const response = await this.client.request('/air/orders', {
         method: 'POST',
         body: JSON.stringify({
-          selected_offers: [bookingData.offer_id],
-          passengers: bookingData.passengers.map((passenger: any) => ({
-            title: passenger.title,
-            given_name: passenger.given_name,
-            family_name: passenger.family_name,
-            born_on: passenger.born_on,
-            email: passenger.email,
-            phone_number: passenger.phone_number,
-            gender: passenger.gender
-          })),
-          payments: [bookingData.payment]
+          data: {
+            type: 'instant',
+            selected_offers: [bookingData.offer_id],
+            passengers: bookingData.passengers,
+            payments: [bookingData.payment]
+          }
         })
       });
 
-      logger.info('Duffel booking created:', booking.id);
-
-      return {
-        id: booking.id,
-        reference: booking.booking_reference,
-        status: booking.status,
-        created_at: booking.created_at,
-        booking_reference: booking.booking_reference,
-        documents: booking.documents?.map((doc: any) => ({
-          type: doc.type,
-          url: doc.url
-        })) || [],
-        passengers: booking.passengers.map((passenger: any) => ({
-          id: passenger.id,
-          given_name: passenger.given_name,
-          family_name: passenger.family_name,
-          title: passenger.title
-        })),
-        slices: booking.slices.map((slice: any) => ({
-          id: slice.id,
-          segments: slice.segments.map((segment: any) => ({
-            id: segment.id,
-            passengers: segment.passengers.map((passenger: any) => ({
-              passenger_id: passenger.passenger_id,
-              seat: passenger.seat ? {
-                designator: passenger.seat.designator,
-                name: passenger.seat.name
-              } : undefined
-            }))
-          }))
-        }))
-      };
-
+      logger.info('Duffel booking created:', response.data.id);
+      return toBookingResponse(response.data);
     } catch (error: any) {
       logger.error('Duffel booking error:', error);
-
-      if (error.response?.data) {
-        logger.error('Duffel API booking error details:', error.response.data);
-      }
-
-      throw new Error(`Booking failed: ${error.message}`);
+      rethrow(error, 'Booking failed');
     }
   }
 
@@ -463,70 +434,41 @@ export class DuffelFlightService {
    */
   async getBooking(bookingId: string): Promise<BookingResponse> {
     try {
-      const booking = await duffelClient.request(`/air/orders/${bookingId}`);
-
-      return {
-        id: booking.id,
-        reference: booking.booking_reference,
-        status: booking.status,
-        created_at: booking.created_at,
-        booking_reference: booking.booking_reference,
-        documents: booking.documents?.map((doc: any) => ({
-          type: doc.type,
-          url: doc.url
-        })) || [],
-        passengers: booking.passengers.map((passenger: any) => ({
-          id: passenger.id,
-          given_name: passenger.given_name,
-          family_name: passenger.family_name,
-          title: passenger.title
-        })),
-        slices: booking.slices.map((slice: any) => ({
-          id: slice.id,
-          segments: slice.segments.map((segment: any) => ({
-            id: segment.id,
-            passengers: segment.passengers.map((passenger: any) => ({
-              passenger_id: passenger.passenger_id,
-              seat: passenger.seat ? {
-                designator: passenger.seat.designator,
-                name: passenger.seat.name
-              } : undefined
-            }))
-          }))
-        }))
-      };
-
+      const response = await this.client.request(`/air/orders/${encodeURIComponent(bookingId)}`);
+      return toBookingResponse(response.data);
     } catch (error: any) {
       logger.error('Duffel get booking error:', error);
-      throw new Error(`Failed to get booking: ${error.message}`);
+      rethrow(error, 'Failed to get booking');
     }
   }
 
   /**
-   * Cancel a booking
+   * Cancel a booking. Duffel quotes the refund first, then the quote is
+   * confirmed.
    */
   async cancelBooking(bookingId: string): Promise<{ success: boolean; refund_amount?: string; refund_currency?: string }> {
     try {
       logger.info('Cancelling booking with Duffel API:', bookingId);
 
-      const cancellation = await duffelClient.request('/air/order_cancellations', {
+      const quote = await this.client.request('/air/order_cancellations', {
         method: 'POST',
-        body: JSON.stringify({
-          order_id: bookingId
-        })
+        body: JSON.stringify({ data: { order_id: bookingId } })
       });
+      const cancellation = await this.client.request(
+        `/air/order_cancellations/${quote.data.id}/actions/confirm`,
+        { method: 'POST' }
+      );
 
-      logger.info('Duffel booking cancelled:', cancellation.id);
+      logger.info('Duffel booking cancelled:', cancellation.data.id);
 
       return {
         success: true,
-        refund_amount: cancellation.refund_amount,
-        refund_currency: cancellation.refund_currency
+        refund_amount: cancellation.data.refund_amount,
+        refund_currency: cancellation.data.refund_currency
       };
-
     } catch (error: any) {
       logger.error('Duffel cancel booking error:', error);
-      throw new Error(`Cancellation failed: ${error.message}`);
+      rethrow(error, 'Cancellation failed');
     }
   }
 
@@ -535,23 +477,24 @@ export class DuffelFlightService {
    */
   async searchAirports(query: string): Promise<Array<{ iata_code: string; name: string; city_name: string; country_name: string }>> {
     try {
-      const response = await duffelClient.request('/air/airports?' + new URLSearchParams({
-        name: query,
-        limit: '10'
-      }));
+      const response = await this.client.request('/places/suggestions?' + new URLSearchParams({ query }));
 
-      return response.data.map((airport: any) => ({
+      // Cities come back with their airports; flatten to airports
+      const airports = response.data.flatMap((place: any) =>
+        place.type === 'airport' ? [place] : (place.airports || []).map((airport: any) => ({ ...airport, city: place }))
+      );
+
+      return airports.slice(0, 10).map((airport: any) => ({
         iata_code: airport.iata_code,
         name: airport.name,
-        city_name: airport.city_name || airport.name,
-        country_name: airport.city?.country_name || 'Unknown'
+        city_name: airport.city_name || airport.city?.name || airport.name,
+        country_name: airport.iata_country_code || airport.city?.iata_country_code || 'Unknown'
       }));
-
     } catch (error: any) {
       logger.error('Duffel airport search error:', error);
-      throw new Error(`Airport search failed: ${error.message}`);
+      rethrow(error, 'Airport search failed');
     }
   }
 }
 
-export const duffelFlightService = new DuffelFlightService();
\ No newline at end of file
+export const duffelFlightService = new DuffelFlightService();
@@ -0,0 +1,290 @@
+import express, { Request, Response } from 'express';
+import { randomBytes } from 'crypto';
+
+/**
+ * A stand-in for the parts of the Duffel API the app uses, so flight search,
+ * booking and cancellation can be exercised without a Duffel account or a
+ * network connection. State lives in memory for the life of the process.
+ *
+ * Run it with `npm run mock:duffel` and point the app at it:
+ *   DUFFEL_API_URL=http://localhost:4010 DUFFEL_API_KEY=test
+ *
+ * Offers are generated deterministically from the search, so the same search
+ * always returns the same flights and prices.
+ */
+
+interface MockAirport {
+  iata_code: string;
+  name: string;
+  city_name: string;
+  iata_country_code: string;
+}
+
+const AIRPORTS: MockAirport[] = [
+  { iata_code: 'LHR', name: 'Heathrow Airport', city_name: 'London', iata_country_code: 'GB' },
+  { iata_code: 'LGW', name: 'Gatwick Airport', city_name: 'London', iata_country_code: 'GB' },
+  { iata_code: 'CDG', name: 'Charles de Gaulle Airport', city_name: 'Paris', iata_country_code: 'FR' },
+  { iata_code: 'AMS', name: 'Amsterdam Airport Schiphol', city_name: 'Amsterdam', iata_country_code: 'NL' },
+  { iata_code: 'BCN', name: 'Barcelona-El Prat Airport', city_name: 'Barcelona', iata_country_code: 'ES' },
+  { iata_code: 'FCO', name: 'Leonardo da Vinci-Fiumicino Airport', city_name: 'Rome', iata_country_code: 'IT' },
+  { iata_code: 'JFK', name: 'John F. Kennedy International Airport', city_name: 'New York', iata_country_code: 'US' },
+  { iata_code: 'LAX', name: 'Los Angeles International Airport', city_name: 'Los Angeles', iata_country_code: 'US' },
+  { iata_code: 'SFO', name: 'San Francisco International Airport', city_name: 'San Francisco', iata_country_code: 'US' },
+  { iata_code: 'ORD', name: "O'Hare International Airport", city_name: 'Chicago', iata_country_code: 'US' },
+  { iata_code: 'NRT', name: 'Narita International Airport', city_name: 'Tokyo', iata_country_code: 'JP' },
+  { iata_code: 'HND', name: 'Haneda Airport', city_name: 'Tokyo', iata_country_code: 'JP' },
+];
+
+const CARRIERS = [
+  { name: 'Duffel Airways', iata_code: 'ZZ' },
+  { name: 'Mock Atlantic', iata_code: 'MA' },
+  { name: 'Stub Air', iata_code: 'SA' },
+];
+
+// Departure hour, duration in minutes and price factor per generated offer
+const SCHEDULES = [
+  { hour: 7, minutes: 25, factor: 0.85 },
+  { hour: 11, minutes: 40, factor: 1 },
+  { hour: 18, minutes: 5, factor: 1.2 },
+];
+
+function airport(iata: string): MockAirport {
+  return AIRPORTS.find(a => a.iata_code === iata.toUpperCase())
+    || { iata_code: iata.toUpperCase(), name: `${iata.toUpperCase()} Airport`, city_name: iata.toUpperCase(), iata_country_code: 'ZZ' };
+}
+
+function id(prefix: string): string {
+  return `${prefix}_${randomBytes(10).toString('hex')}`;
+}
+
+function hash(value: string): number {
+  let result = 0;
+  for (const char of value) result = (result * 31 + char.charCodeAt(0)) >>> 0;
+  return result;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+// Local wall-clock time, as Duffel returns departing_at/arriving_at
+function addMinutes(date: string, hour: number, minutes: number): string {
+  const d = new Date(`${date}T${pad(hour)}:00:00Z`);
+  d.setUTCMinutes(d.getUTCMinutes() + minutes);
+  return d.toISOString().slice(0, 19);
+}
+
+function isoDuration(minutes: number): string {
+  return `PT${Math.floor(minutes / 60)}H${minutes % 60}M`;
+}
+
+function errorResponse(res: Response, status: number, message: string) {
+  return res.status(status).json({ errors: [{ message, title: message, code: 'mock_error' }] });
+}
+
+export interface DuffelMock {
+  app: express.Express;
+  // Simulate the airline cancelling an order, as a webhook would report
+  airlineCancel(orderId: string): boolean;
+}
+
+export function createDuffelMock(): DuffelMock {
+  const app = express();
+  app.use(express.json());
+
+  const offers = new Map<string, any>();
+  const offerRequests = new Map<string, string[]>();
+  const orders = new Map<string, any>();
+  const cancellations = new Map<string, any>();
+
+  app.use((req, res, next) => {
+    if (!req.headers.authorization?.startsWith('Bearer ')) {
+      return errorResponse(res, 401, 'Missing access token');
+    }
+    next();
+  });
+
+  app.post('/air/offer_requests', (req: Request, res: Response) => {
+    const { slices, passengers, cabin_class = 'economy' } = req.body?.data || {};
+    if (!Array.isArray(slices) || slices.length === 0 || !Array.isArray(passengers) || passengers.length === 0) {
+      return errorResponse(res, 422, 'slices and passengers are required');
+    }
+
+    const requestId = id('orq');
+    const offerPassengers = passengers.map((p: any) => ({ id: id('pas'), type: p.type, cabin_class, baggages: [{ type: 'checked', quantity: 1 }] }));
+    const ids: string[] = [];
+
+    SCHEDULES.forEach((schedule, index) => {
+      const carrier = CARRIERS[index % CARRIERS.length];
+      const offerSlices = slices.map((slice: any, sliceIndex: number) => {
+        const seed = hash(`${slice.origin}${slice.destination}`);
+        const duration = 60 + (seed % 600) + schedule.minutes;
+        const departing = addMinutes(slice.departure_date, schedule.hour, schedule.minutes);
+        const arriving = addMinutes(slice.departure_date, schedule.hour, schedule.minutes + duration);
+        const origin = airport(slice.origin);
+        const destination = airport(slice.destination);
+        return {
+          id: id('sli'),
+          origin,
+          destination,
+          duration: isoDuration(duration),
+          segments: [{
+            id: id('seg'),
+            origin,
+            destination,
+            departing_at: departing,
+            arriving_at: arriving,
+            duration: isoDuration(duration),
+            marketing_carrier: carrier,
+            operating_carrier: carrier,
+            marketing_carrier_flight_number: String(100 + ((seed + index * 7 + sliceIndex) % 900)),
+            operating_carrier_flight_number: String(100 + ((seed + index * 7 + sliceIndex) % 900)),
+            aircraft: { name: 'Airbus A320' },
+            passengers: [],
+          }],
+        };
+      });
+
+      const base = 80 + (hash(slices.map((s: any) => s.origin + s.destination).join()) % 400);
+      const total = (base * schedule.factor * passengers.length * slices.length).toFixed(2);
+      const offer = {
+        id: id('off'),
+        offer_request_id: requestId,
+        expires_at: new Date(Date.now() + 30 * 60 * 1000).toISOString(),
+        total_amount: total,
+        total_currency: 'USD',
+        slices: offerSlices,
+        passengers: offerPassengers,
+        conditions: {
+          change_before_departure: { allowed: index > 0, penalty_amount: index > 0 ? '50.00' : undefined, penalty_currency: 'USD' },
+          refund_before_departure: { allowed: index === 2, penalty_amount: index === 2 ? '25.00' : undefined, penalty_currency: 'USD' },
+        },
+      };
+      offers.set(offer.id, offer);
+      ids.push(offer.id);
+    });
+
+    offerRequests.set(requestId, ids);
+    const returnOffers = req.query.return_offers !== 'false';
+    res.status(201).json({
+      data: { id: requestId, slices, passengers: offerPassengers, ...(returnOffers ? { offers: ids.map(o => offers.get(o)) } : {}) },
+    });
+  });
+
+  app.get('/air/offers', (req: Request, res: Response) => {
+    const ids = offerRequests.get(String(req.query.offer_request_id));
+    if (!ids) return errorResponse(res, 404, 'Offer request not found');
+
+    const list = ids.map(o => offers.get(o));
+    if (req.query.sort === 'total_amount') {
+      list.sort((a, b) => parseFloat(a.total_amount) - parseFloat(b.total_amount));
+    }
+    res.json({ data: list.slice(0, Number(req.query.limit) || 50) });
+  });
+
+  app.get('/air/offers/:id', (req: Request, res: Response) => {
+    const offer = offers.get(req.params.id);
+    if (!offer) return errorResponse(res, 404, 'Offer not found');
+    if (new Date(offer.expires_at) < new Date()) return errorResponse(res, 422, 'Offer has expired');
+    res.json({ data: offer });
+  });
+
+  app.post('/air/orders', (req: Request, res: Response) => {
+    const { selected_offers, passengers, payments } = req.body?.data || {};
+    const offer = offers.get(selected_offers?.[0]);
+    if (!offer) return errorResponse(res, 422, 'Selected offer not found');
+    if (new Date(offer.expires_at) < new Date()) return errorResponse(res, 422, 'Offer has expired');
+
+    const offerPassengerIds = offer.passengers.map((p: any) => p.id).sort();
+    const givenIds = (passengers || []).map((p: any) => p.id).sort();
+    if (JSON.stringify(offerPassengerIds) !== JSON.stringify(givenIds)) {
+      return errorResponse(res, 422, 'Passengers must match the offer passengers');
+    }
+    const payment = payments?.[0];
+    if (!payment || payment.amount !== offer.total_amount || payment.currency !== offer.total_currency) {
+      return errorResponse(res, 422, 'Payment must match the offer total');
+    }
+
+    const order = {
+      id: id('ord'),
+      booking_reference: randomBytes(3).toString('hex').toUpperCase(),
+      created_at: new Date().toISOString(),
+      cancelled_at: null,
+      total_amount: offer.total_amount,
+      total_currency: offer.total_currency,
+      passengers: passengers.map((p: any) => ({ id: p.id, title: p.title, given_name: p.given_name, family_name: p.family_name })),
+      slices: offer.slices.map((slice: any) => ({
+        ...slice,
+        segments: slice.segments.map((segment: any) => ({
+          ...segment,
+          passengers: passengers.map((p: any) => ({ passenger_id: p.id, seat: null })),
+        })),
+      })),
+      documents: [{ type: 'electronic_ticket', url: null }],
+      conditions: offer.conditions,
+    };
+    orders.set(order.id, order);
+    offers.delete(offer.id);
+    res.status(201).json({ data: order });
+  });
+
+  app.get('/air/orders/:id', (req: Request, res: Response) => {
+    const order = orders.get(req.params.id);
+    if (!order) return errorResponse(res, 404, 'Order not found');
+    res.json({ data: order });
+  });
+
+  app.post('/air/order_cancellations', (req: Request, res: Response) => {
+    const order = orders.get(req.body?.data?.order_id);
+    if (!order) return errorResponse(res, 404, 'Order not found');
+    if (order.cancelled_at) return errorResponse(res, 422, 'Order is already cancelled');
+
+    const refundable = order.conditions?.refund_before_departure?.allowed;
+    const penalty = parseFloat(order.conditions?.refund_before_departure?.penalty_amount || '0');
+    const cancellation = {
+      id: id('ore'),
+      order_id: order.id,
+      refund_amount: refundable ? Math.max(parseFloat(order.total_amount) - penalty, 0).toFixed(2) : '0.00',
+      refund_currency: order.total_currency,
+      refund_to: 'balance',
+      expires_at: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
+      confirmed_at: null as string | null,
+    };
+    cancellations.set(cancellation.id, cancellation);
+    res.status(201).json({ data: cancellation });
+  });
+
+  app.post('/air/order_cancellations/:id/actions/confirm', (req: Request, res: Response) => {
+    const cancellation = cancellations.get(req.params.id);
+    if (!cancellation) return errorResponse(res, 404, 'Order cancellation not found');
+
+    const order = orders.get(cancellation.order_id);
+    if (!cancellation.confirmed_at) {
+      cancellation.confirmed_at = new Date().toISOString();
+      order.cancelled_at = cancellation.confirmed_at;
+    }
+    res.json({ data: cancellation });
+  });
+
+  app.get('/places/suggestions', (req: Request, res: Response) => {
+    const query = String(req.query.query || '').toLowerCase();
+    if (query.length < 2) return res.json({ data: [] });
+
+    const matches = AIRPORTS.filter(a =>
+      a.iata_code.toLowerCase() === query ||
+      a.name.toLowerCase().includes(query) ||
+      a.city_name.toLowerCase().includes(query)
+    );
+    res.json({ data: matches.map(a => ({ type: 'airport', id: id('arp'), ...a })) });
+  });
+
+  return {
+    app,
+    airlineCancel(orderId: string) {
+      const order = orders.get(orderId);
+      if (!order || order.cancelled_at) return false;
+      order.cancelled_at = new Date().toISOString();
+      return true;
+    },
+  };
+}
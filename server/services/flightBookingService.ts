@@ -0,0 +1,318 @@
+import { z } from 'zod';
+import { and, eq, sql } from 'drizzle-orm';
+import { db } from '../db-connection';
+import { bookings, Activity, Booking, Trip } from '@shared/schema';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { collaborationService } from './collaborationService';
+import { tripHistoryService } from './tripHistoryService';
+import { duffelFlightService, DuffelFlightService, FlightOffer } from './duffelFlightService';
+
+/**
+ * Flights booked through Duffel, tied to a trip.
+ *
+ * Booking an offer creates a `bookings` row (provider "duffel", the Duffel
+ * order id in booking_details) and a departure and arrival activity per
+ * leg. Cancelling - from the app, or by the airline as reported by Duffel's
+ * webhook - marks the booking cancelled and takes those activities off the
+ * itinerary again.
+ */
+
+const iataCode = z.string().regex(/^[A-Za-z]{3}$/, 'Use a 3-letter airport code').transform(code => code.toUpperCase());
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const flightSearchSchema = z.object({
+  trip_id: z.number().int().optional(),
+  origin: iataCode,
+  destination: iataCode,
+  departure_date: isoDate.optional(), // Defaults to the trip's start date
+  return_date: isoDate.optional(), // Defaults to the trip's end date when round_trip
+  round_trip: z.boolean().default(true),
+  passengers: z.object({
+    adults: z.number().int().min(1).max(9).default(1),
+    children: z.number().int().min(0).max(8).optional(),
+    infants: z.number().int().min(0).max(4).optional(),
+  }).default({ adults: 1 }),
+  cabin_class: z.enum(['economy', 'premium_economy', 'business', 'first']).optional(),
+});
+
+export const flightPassengerSchema = z.object({
+  title: z.enum(['mr', 'ms', 'mrs', 'miss', 'dr']),
+  given_name: z.string().min(1).max(100),
+  family_name: z.string().min(1).max(100),
+  born_on: isoDate,
+  email: z.string().email(),
+  phone_number: z.string().regex(/^\+[1-9]\d{6,14}$/, 'Use international format, e.g. +442080160509'),
+  gender: z.enum(['m', 'f']),
+});
+
+export const flightBookingSchema = z.object({
+  offer_id: z.string().min(1),
+  passengers: z.array(flightPassengerSchema).min(1).max(9),
+});
+
+export type FlightSearchRequest = z.infer<typeof flightSearchSchema>;
+export type FlightPassenger = z.infer<typeof flightPassengerSchema>;
+
+export class FlightBookingError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'FlightBookingError';
+  }
+}
+
+export interface FlightActivity {
+  kind: 'departure' | 'arrival';
+  title: string;
+  date: string;
+  time: string;
+  location: string;
+}
+
+// Duffel times are the airport's local wall-clock time: "2026-05-01T10:35:00"
+function splitLocal(datetime: string): { date: string; time: string } {
+  return { date: datetime.slice(0, 10), time: datetime.slice(11, 16) };
+}
+
+/**
+ * The itinerary entries for a flight: a departure and an arrival per leg.
+ */
+export function flightActivities(offer: FlightOffer): FlightActivity[] {
+  return offer.slices.flatMap(slice => {
+    const flightNumbers = slice.segments.map(s => `${s.airline.iata_code}${s.flight_number}`).join(' / ');
+    const departure = splitLocal(slice.departure_datetime);
+    const arrival = splitLocal(slice.arrival_datetime);
+    return [
+      {
+        kind: 'departure' as const,
+        title: `Flight ${flightNumbers}: ${slice.origin.city_name} → ${slice.destination.city_name}`,
+        ...departure,
+        location: `${slice.origin.name} (${slice.origin.iata_code})`,
+      },
+      {
+        kind: 'arrival' as const,
+        title: `Arrive in ${slice.destination.city_name} (${slice.destination.iata_code})`,
+        ...arrival,
+        location: `${slice.destination.name} (${slice.destination.iata_code})`,
+      },
+    ];
+  });
+}
+
+export class FlightBookingService {
+  constructor(private duffel: DuffelFlightService = duffelFlightService) {}
+
+  isAvailable(): boolean {
+    return this.duffel.isConfigured();
+  }
+
+  /**
+   * Search flights, filling in the trip's dates when they weren't given.
+   */
+  async search(request: FlightSearchRequest, trip?: Trip): Promise<FlightOffer[]> {
+    const departureDate = request.departure_date || trip?.start_date;
+    if (!departureDate) {
+      throw new FlightBookingError(400, 'A departure date is required');
+    }
+    const returnDate = request.round_trip ? (request.return_date || trip?.end_date) : undefined;
+    if (returnDate && returnDate < departureDate) {
+      throw new FlightBookingError(400, 'The return date is before the departure date');
+    }
+
+    return this.duffel.searchFlights({
+      origin: request.origin,
+      destination: request.destination,
+      departure_date: departureDate,
+      return_date: returnDate,
+      passengers: request.passengers,
+      cabin_class: request.cabin_class,
+    });
+  }
+
+  getOffer(offerId: string): Promise<FlightOffer> {
+    return this.duffel.getOffer(offerId);
+  }
+
+  searchAirports(query: string) {
+    return this.duffel.searchAirports(query);
+  }
+
+  async getFlightBookings(tripId: number): Promise<Booking[]> {
+    const tripBookings = await storage.getBookingsByTripId(tripId);
+    return tripBookings.filter(b => b.booking_type === 'flight' && b.provider === 'duffel');
+  }
+
+  async getBooking(id: number): Promise<Booking | undefined> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
+    return booking;
+  }
+
+  async findByOrderId(orderId: string): Promise<Booking | undefined> {
+    const [booking] = await db
+      .select()
+      .from(bookings)
+      .where(and(eq(bookings.provider, 'duffel'), sql`${bookings.booking_details}->>'orderId' = ${orderId}`))
+      .limit(1);
+    return booking;
+  }
+
+  /**
+   * Book an offer for the trip. The offer is fetched again first so the
+   * payment matches its current price; passengers are matched to the offer's
+   * passengers in order.
+   */
+  async book(
+    trip: Trip,
+    userId: number,
+    offerId: string,
+    passengers: FlightPassenger[]
+  ): Promise<{ booking: Booking; activities: Activity[] }> {
+    const offer = await this.duffel.getOffer(offerId);
+    if (passengers.length !== offer.passengers.length) {
+      throw new FlightBookingError(422, `This offer is for ${offer.passengers.length} passenger(s)`);
+    }
+
+    const order = await this.duffel.createBooking({
+      offer_id: offer.id,
+      passengers: passengers.map((passenger, index) => ({ ...passenger, id: offer.passengers[index].id })),
+      payment: { type: 'balance', amount: offer.price.amount, currency: offer.price.currency },
+    });
+
+    // The flight is paid for at this point; if saving it fails, the order id
+    // in the log is what support needs to reconcile it
+    try {
+      const changesetId = await tripHistoryService.startChangeset(null, trip.id, userId, {
+        source: 'booking',
+        description: `Booked flight ${order.booking_reference}`,
+      });
+
+      const created: Activity[] = [];
+      for (const item of flightActivities(offer)) {
+        const activity = await storage.createActivity({
+          trip_id: trip.id,
+          title: item.title,
+          date: item.date,
+          time: item.time,
+          location_name: item.location,
+          tag: 'transport',
+          travel_mode: 'flight',
+          booking_reference: order.booking_reference,
+          provider: offer.slices[0].segments[0].airline.name,
+          price: created.length === 0 ? offer.price.amount : undefined,
+          currency: offer.price.currency,
+          is_paid: created.length === 0,
+          paid_by: created.length === 0 ? userId : undefined,
+        });
+        await collaborationService.recordActivityCreated(activity, userId, { source: 'booking', changesetId });
+        created.push(activity);
+      }
+
+      const lastSlice = offer.slices[offer.slices.length - 1];
+      const booking = await storage.createBooking({
+        trip_id: trip.id,
+        activity_id: created[0]?.id ?? null,
+        user_id: userId,
+        booking_type: 'flight',
+        provider: 'duffel',
+        confirmation_number: order.booking_reference,
+        booking_date: new Date(),
+        check_in_date: splitLocal(offer.slices[0].departure_datetime).date,
+        check_out_date: splitLocal(lastSlice.arrival_datetime).date,
+        total_amount: order.total_amount,
+        currency: order.total_currency,
+        status: 'confirmed',
+        booking_details: {
+          orderId: order.id,
+          offerId: offer.id,
+          title: created[0]?.title,
+          slices: offer.slices.map(slice => ({
+            origin: slice.origin.iata_code,
+            destination: slice.destination.iata_code,
+            departure: slice.departure_datetime,
+            arrival: slice.arrival_datetime,
+            flights: slice.segments.map(s => `${s.airline.iata_code}${s.flight_number}`),
+            airline: slice.segments[0].airline.name,
+          })),
+          passengers: passengers.map(p => `${p.given_name} ${p.family_name}`),
+          conditions: offer.conditions,
+          activityIds: created.map(a => a.id),
+        },
+      });
+
+      return { booking, activities: created };
+    } catch (error) {
+      logger.error('Flight booked with Duffel but not saved to the trip', { tripId: trip.id, orderId: order.id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a flight with Duffel and take it off the itinerary.
+   */
+  async cancel(booking: Booking, userId: number): Promise<Booking> {
+    if (booking.status === 'cancelled') return booking;
+
+    const orderId = (booking.booking_details as any)?.orderId;
+    if (!orderId) {
+      throw new FlightBookingError(422, 'This booking was not made through Remvana');
+    }
+
+    const cancellation = await this.duffel.cancelBooking(orderId);
+    return this.markCancelled(booking, userId, {
+      cancelledBy: 'traveller',
+      refundAmount: cancellation.refund_amount ?? null,
+      refundCurrency: cancellation.refund_currency ?? null,
+    });
+  }
+
+  /**
+   * Bring a booking in line with its Duffel order, e.g. after the airline
+   * cancelled it.
+   */
+  async syncOrder(booking: Booking): Promise<Booking> {
+    const orderId = (booking.booking_details as any)?.orderId;
+    if (!orderId || booking.status === 'cancelled') return booking;
+
+    const order = await this.duffel.getBooking(orderId);
+    if (order.status === 'cancelled') {
+      logger.info('Duffel order cancelled outside the app', { bookingId: booking.id, orderId });
+      return this.markCancelled(booking, booking.user_id, { cancelledBy: 'airline', refundAmount: null, refundCurrency: null });
+    }
+    return booking;
+  }
+
+  private async markCancelled(
+    booking: Booking,
+    userId: number,
+    details: { cancelledBy: 'traveller' | 'airline'; refundAmount: string | null; refundCurrency: string | null }
+  ): Promise<Booking> {
+    const activityIds: number[] = (booking.booking_details as any)?.activityIds || [];
+
+    if (activityIds.length > 0) {
+      const changesetId = await tripHistoryService.startChangeset(null, booking.trip_id, userId, {
+        source: 'booking',
+        description: `Cancelled flight ${booking.confirmation_number}`,
+      });
+      for (const activityId of activityIds) {
+        // Already removed by hand is fine
+        await collaborationService.applyOperation(booking.trip_id, userId, { type: 'delete_activity', activity_id: activityId }, {
+          change: { source: 'booking', changesetId },
+        });
+      }
+    }
+
+    const updated = await storage.updateBooking(booking.id, {
+      status: 'cancelled',
+      activity_id: null,
+      booking_details: {
+        ...(booking.booking_details as Record<string, any>),
+        ...details,
+        cancelledAt: new Date().toISOString(),
+      },
+      updated_at: new Date(),
+    });
+    return updated ?? booking;
+  }
+}
+
+export const flightBookingService = new FlightBookingService();
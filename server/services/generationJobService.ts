@@ -0,0 +1,267 @@
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { nanoid } from 'nanoid';
+import { snakeToCamel } from '../middleware/caseConversionMiddleware';
+import { logger } from '../utils/logger';
+
+/**
+ * Long-running AI generation (itineraries, weekend plans, whole trips) as
+ * jobs that stream their progress as server-sent events.
+ *
+ * A job runs independently of the request that started it: if the client's
+ * connection drops, the job keeps going and the client resumes with the job
+ * id and the last event id it saw, replaying what it missed. Jobs only live
+ * in this process and are forgotten a while after they finish.
+ *
+ * Generators write to the database through `commit`. Cancelling stops a job
+ * before it commits; once it has started writing it runs to the end, so a
+ * job saves either everything the blocking endpoint would have or nothing.
+ */
+
+export type GenerationKind = 'full_itinerary' | 'weekend' | 'trip';
+export type GenerationStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationEvent {
+  id: number;
+  event: string;
+  data: unknown;
+}
+
+// Events that end the stream
+const TERMINAL_EVENTS = new Set(['done', 'error', 'cancelled']);
+
+// Finished jobs can be resumed for this long
+const JOB_RETENTION_MS = 15 * 60 * 1000;
+
+// Comment line that keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 15 * 1000;
+
+/**
+ * A failure to report to the client with an HTTP status, e.g. a city with no
+ * places. `body` is sent as-is by the blocking endpoints.
+ */
+export class GenerationError extends Error {
+  constructor(public status: number, message: string, public body?: Record<string, any>) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+}
+
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation was cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export interface ProgressUpdate {
+  day?: number;
+  total_days?: number;
+  message: string;
+}
+
+/**
+ * What a generator gets to report progress and write its results.
+ */
+export interface GenerationContext {
+  readonly signal: AbortSignal;
+  progress(update: ProgressUpdate): void;
+  // Activities planned so far for one day, before anything is saved
+  activities(day: number, date: string | null, activities: unknown[]): void;
+  throwIfCancelled(): void;
+  commit<T>(write: () => Promise<T>): Promise<T>;
+}
+
+export class GenerationJob extends EventEmitter {
+  readonly id = nanoid(16);
+  readonly createdAt = new Date();
+  status: GenerationStatus = 'running';
+  events: GenerationEvent[] = [];
+  result?: unknown;
+  error?: GenerationError;
+  finishedAt?: Date;
+  committing = false;
+  readonly controller = new AbortController();
+
+  constructor(public readonly userId: number, public readonly kind: GenerationKind) {
+    super();
+    this.setMaxListeners(0);
+  }
+
+  push(event: string, data: unknown): GenerationEvent {
+    const entry = { id: this.events.length + 1, event, data };
+    this.events.push(entry);
+    this.emit('event', entry);
+    return entry;
+  }
+
+  eventsAfter(lastEventId: number): GenerationEvent[] {
+    return this.events.filter(e => e.id > lastEventId);
+  }
+
+  summary() {
+    return {
+      job_id: this.id,
+      kind: this.kind,
+      status: this.status,
+      last_event_id: this.events.length,
+      created_at: this.createdAt,
+      finished_at: this.finishedAt ?? null,
+      ...(this.status === 'completed' ? { result: this.result } : {}),
+      ...(this.error ? { error: this.error.message } : {}),
+    };
+  }
+}
+
+function writeEvent(res: Response, entry: GenerationEvent) {
+  res.write(`id: ${entry.id}\nevent: ${entry.event}\ndata: ${JSON.stringify(snakeToCamel(entry.data))}\n\n`);
+}
+
+export class GenerationJobService {
+  private jobs = new Map<string, GenerationJob>();
+
+  /**
+   * Start a job. The generator's return value is the job result, the same
+   * body the blocking endpoint responds with.
+   */
+  start(userId: number, kind: GenerationKind, generate: (context: GenerationContext) => Promise<unknown>): GenerationJob {
+    this.prune();
+    const job = new GenerationJob(userId, kind);
+    this.jobs.set(job.id, job);
+    job.push('job', { job_id: job.id, kind });
+
+    const context: GenerationContext = {
+      signal: job.controller.signal,
+      progress: update => job.push('progress', update),
+      activities: (day, date, activities) => job.push('activities', { day, date, activities }),
+      throwIfCancelled: () => {
+        if (job.controller.signal.aborted && !job.committing) throw new GenerationCancelledError();
+      },
+      commit: async (write) => {
+        context.throwIfCancelled();
+        job.committing = true;
+        job.push('progress', { message: 'Saving your itinerary' });
+        return write();
+      },
+    };
+
+    generate(context).then(
+      result => this.finish(job, 'completed', 'done', { result }, result),
+      error => {
+        if (error instanceof GenerationCancelledError) {
+          this.finish(job, 'cancelled', 'cancelled', {});
+          return;
+        }
+        const failure = error instanceof GenerationError ? error : new GenerationError(500, 'Generation failed');
+        if (!(error instanceof GenerationError)) {
+          logger.error('Generation job failed', { jobId: job.id, kind, error });
+        }
+        job.error = failure;
+        this.finish(job, 'failed', 'error', { status: failure.status, message: failure.message });
+      }
+    );
+
+    return job;
+  }
+
+  get(jobId: string, userId: number): GenerationJob | undefined {
+    const job = this.jobs.get(jobId);
+    return job && job.userId === userId ? job : undefined;
+  }
+
+  /**
+   * Ask a running job to stop. Returns false if it already finished or is
+   * saving its results.
+   */
+  cancel(job: GenerationJob): boolean {
+    if (job.status !== 'running' || job.committing) return false;
+    job.controller.abort();
+    return true;
+  }
+
+  /**
+   * The job's result, for callers that don't stream.
+   */
+  async wait(job: GenerationJob): Promise<unknown> {
+    if (job.status === 'running') {
+      await new Promise(resolve => job.once('finished', resolve));
+    }
+    return this.outcome(job);
+  }
+
+  /**
+   * Send the job's events after `lastEventId` and then live ones as
+   * server-sent events, ending with the job.
+   */
+  stream(job: GenerationJob, req: Request, res: Response, lastEventId = 0): void {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      'X-Job-Id': job.id,
+    });
+    res.flushHeaders();
+
+    const missed = job.eventsAfter(lastEventId);
+    missed.forEach(entry => writeEvent(res, entry));
+    if (missed.some(entry => TERMINAL_EVENTS.has(entry.event)) || job.status !== 'running') {
+      res.end();
+      return;
+    }
+
+    const onEvent = (entry: GenerationEvent) => {
+      writeEvent(res, entry);
+      if (TERMINAL_EVENTS.has(entry.event)) close();
+    };
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+    const close = () => {
+      clearInterval(heartbeat);
+      job.off('event', onEvent);
+      res.end();
+    };
+
+    job.on('event', onEvent);
+    // The job carries on without the client; it can resume with the job id
+    req.on('close', close);
+  }
+
+  private outcome(job: GenerationJob): unknown {
+    if (job.status === 'completed') return job.result;
+    if (job.status === 'cancelled') throw new GenerationCancelledError();
+    throw job.error ?? new GenerationError(500, 'Generation failed');
+  }
+
+  private finish(job: GenerationJob, status: GenerationStatus, event: string, data: unknown, result?: unknown) {
+    job.status = status;
+    job.result = result;
+    job.finishedAt = new Date();
+    job.push(event, data);
+    job.emit('finished');
+  }
+
+  private prune() {
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+    for (const [id, job] of Array.from(this.jobs.entries())) {
+      if (job.finishedAt && job.finishedAt.getTime() < cutoff) this.jobs.delete(id);
+    }
+  }
+}
+
+export const generationJobs = new GenerationJobService();
+
+/**
+ * Whether the client asked for server-sent events rather than one JSON body.
+ */
+export function wantsEventStream(req: Request): boolean {
+  return (req.headers.accept || '').includes('text/event-stream');
+}
+
+/**
+ * The last event id a resuming client saw, from the standard header or the
+ * query string.
+ */
+export function lastEventId(req: Request): number {
+  const value = Number(req.headers['last-event-id'] ?? req.query.last_event_id ?? 0);
+  return Number.isInteger(value) && value > 0 ? value : 0;
+}
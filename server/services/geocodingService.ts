@@ -155,10 +155,10 @@ export class GeocodingService {
       return mapboxResult;
     }
 
-    // If Mapbox fails and we have OpenAI, try to get approximate coordinates
-    if (process.env.OPENAI_API_KEY) {
+    // If Mapbox fails and an AI model is available, try to get approximate coordinates
+    const { llm } = await import('./llmService');
+    if (await llm.isAvailable('locations')) {
       try {
-        const { callOpenAI } = await import('../openai');
 
         const prompt = `Find the approximate latitude and longitude coordinates for: ${locationName}${cityContext ? ` in ${cityContext}` : ''}.
 
@@ -174,9 +174,9 @@ If you cannot find the location, return:
   "longitude": null
 }`;
 
-        const response = await callOpenAI(prompt, {
+        const response = await llm.complete('locations', prompt, {
           temperature: 0.1,
-          max_tokens: 100
+          maxTokens: 100
         });
 
         try {
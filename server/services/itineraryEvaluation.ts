@@ -0,0 +1,143 @@
+import { MIN_MATCH_LENGTH, normalizePlaceName } from '../utils/placeNames';
+import { OptimizableActivity, Point, detectConflicts, haversineKm } from './itineraryOptimizationService';
+
+/**
+ * Scores for a generated itinerary, used by the prompt evaluation harness
+ * (server/eval-prompts.ts) to compare prompt versions. Everything here is
+ * deterministic: places are checked against a fixed list of OpenStreetMap
+ * places rather than looked up.
+ */
+
+export interface EvaluationPlace {
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+// An activity or meal as generateTrip returns it
+export interface EvaluatedItem {
+  title?: string;
+  restaurant?: string;
+  location?: string;
+  date?: string;
+  time?: string;
+  category?: string;
+  type?: string; // Meals: breakfast, lunch or dinner
+  price?: number | string;
+}
+
+export interface ItineraryScore {
+  jsonValid: number;        // Share of the model's JSON replies that parsed
+  realPlaceRatio: number;   // Share of activities and meals at a known place
+  timeConflicts: number;    // Activities that start before the previous one ends
+  maxDailySpreadKm: number; // Furthest apart two known places are on any one day
+  budgetAdherence: number;  // 1 within budget, budget / cost when over
+}
+
+export interface EvaluationOptions {
+  places: EvaluationPlace[];
+  budget?: number;
+  travelers?: number;
+  jsonReplies: { total: number; valid: number };
+}
+
+/**
+ * The known place an activity or meal is at: one whose name contains, or is
+ * contained in, its title, restaurant or location.
+ */
+export function matchPlace(item: EvaluatedItem, places: EvaluationPlace[]): EvaluationPlace | null {
+  const texts = [item.restaurant, item.title, item.location]
+    .filter((text): text is string => !!text)
+    .map(normalizePlaceName)
+    .filter(text => text.length >= MIN_MATCH_LENGTH);
+
+  for (const text of texts) {
+    const place = places.find(candidate => {
+      const name = normalizePlaceName(candidate.name);
+      return name.length >= MIN_MATCH_LENGTH && (text.includes(name) || name.includes(text));
+    });
+    if (place) return place;
+  }
+  return null;
+}
+
+export function parsePrice(value: number | string | undefined): number {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : 0;
+  const match = String(value ?? '').replace(',', '.').match(/\d+(\.\d+)?/);
+  return match ? Number(match[0]) : 0;
+}
+
+export function budgetAdherence(cost: number, budget: number | undefined): number {
+  if (!budget || cost <= budget) return 1;
+  return budget / cost;
+}
+
+function itemTitle(item: EvaluatedItem): string {
+  return item.restaurant ? `${item.type || 'Meal'} at ${item.restaurant}` : item.title || '';
+}
+
+/**
+ * Overlapping activities, counted day by day the way the itinerary view
+ * reports them. Meals count as food, with the optimizer's usual durations.
+ */
+export function countTimeConflicts(items: EvaluatedItem[]): number {
+  const byDate = new Map<string, OptimizableActivity[]>();
+  items.forEach((item, index) => {
+    if (!item.date || !item.time) return;
+    const day = byDate.get(item.date) || [];
+    day.push({
+      id: index + 1,
+      title: itemTitle(item),
+      date: item.date,
+      time: item.time,
+      latitude: null,
+      longitude: null,
+      tag: item.restaurant ? 'food' : null,
+      category: item.category || null,
+    });
+    byDate.set(item.date, day);
+  });
+
+  let conflicts = 0;
+  for (const day of Array.from(byDate.values())) {
+    conflicts += detectConflicts(day).filter(conflict => conflict.type === 'overlap').length;
+  }
+  return conflicts;
+}
+
+/**
+ * The largest distance between two places visited on the same day.
+ */
+export function maxDailySpreadKm(points: Array<{ date?: string; point: Point | null }>): number {
+  const byDate = new Map<string, Point[]>();
+  for (const { date, point } of points) {
+    if (!date || !point) continue;
+    byDate.set(date, [...(byDate.get(date) || []), point]);
+  }
+
+  let spread = 0;
+  for (const day of Array.from(byDate.values())) {
+    for (let i = 0; i < day.length; i++) {
+      for (let j = i + 1; j < day.length; j++) {
+        spread = Math.max(spread, haversineKm(day[i], day[j]));
+      }
+    }
+  }
+  return spread;
+}
+
+export function scoreItinerary(items: EvaluatedItem[], options: EvaluationOptions): ItineraryScore {
+  const matches = items.map(item => matchPlace(item, options.places));
+  const cost = items.reduce((sum, item) => sum + parsePrice(item.price), 0) * (options.travelers || 1);
+
+  return {
+    jsonValid: options.jsonReplies.total ? options.jsonReplies.valid / options.jsonReplies.total : 0,
+    realPlaceRatio: items.length ? matches.filter(Boolean).length / items.length : 0,
+    timeConflicts: countTimeConflicts(items),
+    maxDailySpreadKm: maxDailySpreadKm(items.map((item, index) => ({
+      date: item.date,
+      point: matches[index] ? { latitude: matches[index]!.lat, longitude: matches[index]!.lon } : null,
+    }))),
+    budgetAdherence: budgetAdherence(cost, options.budget),
+  };
+}
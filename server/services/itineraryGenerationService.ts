@@ -0,0 +1,684 @@
+import { eq } from 'drizzle-orm';
+import { Trip, activities } from '@shared/schema';
+import { db } from '../db-connection';
+import { renderPrompt, tripAdditionalDaysPrompt, tripExtractionPrompt, tripItineraryPrompt } from '../prompts';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { completedArrayItems } from '../utils/partialJson';
+import { collaborationService } from './collaborationService';
+import { GenerationContext, GenerationError } from './generationJobService';
+import { fitToOpeningHours, pickOpenPlace, tripOpeningHoursContext } from './itineraryOptimizationService';
+import { LLMRequest, extractJson } from './llmProvider';
+import { LLMService, llm } from './llmService';
+import { batchFetchAndCache } from './osmBatchFetch';
+import {
+  PlaceCandidate,
+  PlacePool,
+  PlaceVerificationService,
+  placeVerification,
+  verificationColumns,
+  verificationSummary,
+} from './placeVerificationService';
+import { tripHistoryService } from './tripHistoryService';
+
+/**
+ * The itinerary generators behind /api/ai/generate-full-itinerary,
+ * /generate-weekend and /generate-trip. Each runs as a generation job: it
+ * reports day-by-day progress and the activities it plans as it goes, and
+ * writes to the database only at the end, through `context.commit`.
+ * The return value is the endpoint's JSON response.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Place = Awaited<ReturnType<typeof batchFetchAndCache>>['restaurants'][number];
+
+interface PlannedActivity {
+  date: string;
+  time: string;
+  title: string;
+  locationName: string;
+  latitude: number;
+  longitude: number;
+  openingHours?: string;
+  notes: string;
+  tag: string;
+  verification?: ReturnType<typeof verificationSummary>;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function tripDayCount(start: string | Date, end: string | Date): number {
+  return Math.ceil((new Date(end).getTime() - new Date(start).getTime()) / DAY_MS) + 1;
+}
+
+function planned(place: Place, date: string, time: string, title: string, notes: string, tag: string): PlannedActivity {
+  return {
+    date,
+    time,
+    title,
+    locationName: place.name,
+    latitude: place.lat,
+    longitude: place.lon,
+    openingHours: place.opening_hours,
+    notes,
+    tag,
+  };
+}
+
+function placeKind(tag: string | undefined): PlaceCandidate['kind'] {
+  return tag === 'food' || tag === 'dining' ? 'meal' : 'attraction';
+}
+
+/**
+ * Run the planned activities' places through verification. They come from
+ * the city's places, so they match there without any lookups.
+ */
+async function verifyPlanned(
+  plan: Array<{ locationName: string; latitude: number | string; longitude: number | string; tag: string; verification?: PlannedActivity['verification'] }>,
+  city: string,
+  country: string,
+  pool: PlacePool
+) {
+  const results = await placeVerification.verifyPlaces(plan.map(activity => ({
+    name: activity.locationName,
+    kind: placeKind(activity.tag),
+    latitude: Number(activity.latitude),
+    longitude: Number(activity.longitude),
+  })), { city, country, pool });
+  plan.forEach((activity, index) => { activity.verification = verificationSummary(results[index]); });
+}
+
+function isMeal(activity: { title?: string | null; tag?: string | null }): boolean {
+  const title = activity.title?.toLowerCase() || '';
+  return title.includes('breakfast') || title.includes('lunch') || title.includes('dinner') ||
+    activity.tag === 'food' || activity.tag === 'dining';
+}
+
+/**
+ * Fill the trip's empty days with meals and sights from OpenStreetMap.
+ * Days that already have meals only get attractions, days with other
+ * activities only get meals.
+ */
+export async function generateFullItinerary(context: GenerationContext, trip: Trip, userId: number) {
+  const startDate = new Date(trip.start_date);
+  const tripDays = tripDayCount(trip.start_date, trip.end_date);
+  logger.info(`Generating full itinerary for ${tripDays}-day trip to ${trip.city}`);
+
+  const cityToSearch = trip.city || 'Berlin';
+  const countryToSearch = trip.country || 'Germany';
+  context.progress({ total_days: tripDays, message: `Finding places in ${cityToSearch}` });
+
+  // Fetch all places in a single request (or use cache)
+  const { restaurants, attractions, cafes } = await batchFetchAndCache(cityToSearch, countryToSearch);
+  logger.info(`[FULL-ITINERARY] Got ${restaurants.length} restaurants, ${attractions.length} attractions, ${cafes.length} cafes`);
+
+  // Prefer places that are open at the planned time (holidays included)
+  const hoursContext = tripOpeningHoursContext(trip);
+
+  if (restaurants.length === 0 && attractions.length === 0) {
+    logger.error(`[FULL-ITINERARY] No real places found for ${cityToSearch}`);
+    const error = `Could not find real places in ${cityToSearch}. Please try a different city.`;
+    throw new GenerationError(400, error, { success: false, error });
+  }
+
+  const existingActivities = await db.select().from(activities).where(eq(activities.trip_id, trip.id));
+  logger.info(`[FULL-ITINERARY] Trip ${trip.id} has ${existingActivities.length} existing activities`);
+
+  // If trip already has sufficient activities (at least 2 per day), don't add more
+  const minActivitiesNeeded = tripDays * 2;
+  if (existingActivities.length >= minActivitiesNeeded) {
+    return {
+      success: true,
+      activitiesCreated: 0,
+      message: `Trip already has ${existingActivities.length} activities`
+    };
+  }
+
+  const activitiesByDate = new Map<string, typeof existingActivities>();
+  for (const activity of existingActivities) {
+    if (!activity.date) continue;
+    activitiesByDate.set(activity.date, [...(activitiesByDate.get(activity.date) || []), activity]);
+  }
+
+  const allActivities: PlannedActivity[] = [];
+  const visitedAttractions = new Set(); // Avoid visiting an attraction twice
+  const usedRestaurants = new Set(); // Vary the restaurants
+
+  for (let dayIndex = 0; dayIndex < tripDays; dayIndex++) {
+    context.throwIfCancelled();
+    const currentDate = new Date(startDate);
+    currentDate.setDate(startDate.getDate() + dayIndex);
+    const dateStr = isoDate(currentDate);
+
+    const dayActivities = activitiesByDate.get(dateStr) || [];
+    const hasMeals = dayActivities.some(isMeal);
+    const plan: PlannedActivity[] = [];
+
+    const addBreakfast = () => {
+      const breakfastCafe = pickOpenPlace(cafes, usedRestaurants, { date: dateStr, time: '08:30', title: 'Breakfast', tag: 'food' }, hoursContext) || cafes[dayIndex % cafes.length];
+      if (breakfastCafe) {
+        plan.push(planned(breakfastCafe, dateStr, '08:30', `Breakfast at ${breakfastCafe.name}`, 'Start your day with coffee and pastries', 'food'));
+        usedRestaurants.add(breakfastCafe.name);
+      }
+    };
+    const addLunch = () => {
+      const lunchPlace = pickOpenPlace(restaurants, usedRestaurants, { date: dateStr, time: '13:00', title: 'Lunch', tag: 'food' }, hoursContext) || restaurants[dayIndex % restaurants.length];
+      if (lunchPlace) {
+        plan.push(planned(lunchPlace, dateStr, '13:00', `Lunch at ${lunchPlace.name}`, lunchPlace.cuisine ? `${lunchPlace.cuisine} cuisine` : 'Enjoy local cuisine', 'food'));
+        usedRestaurants.add(lunchPlace.name);
+      }
+    };
+    const addDinner = () => {
+      const dinnerPlace = pickOpenPlace(restaurants, usedRestaurants, { date: dateStr, time: '19:00', title: 'Dinner', tag: 'food' }, hoursContext) || restaurants[(dayIndex + 10) % restaurants.length];
+      if (dinnerPlace) {
+        plan.push(planned(dinnerPlace, dateStr, '19:00', `Dinner at ${dinnerPlace.name}`, dinnerPlace.cuisine ? `${dinnerPlace.cuisine} dining experience` : 'Evening dining', 'food'));
+        usedRestaurants.add(dinnerPlace.name);
+      }
+    };
+    const addMorningAttraction = () => {
+      const morningAttraction = pickOpenPlace(attractions, visitedAttractions, { date: dateStr, time: '10:00', title: 'Visit', tag: 'sightseeing' }, hoursContext) || attractions[dayIndex % attractions.length];
+      if (morningAttraction) {
+        plan.push(planned(morningAttraction, dateStr, '10:00', `Visit ${morningAttraction.name}`, morningAttraction.tourism || 'Explore this popular attraction', 'sightseeing'));
+        visitedAttractions.add(morningAttraction.name);
+      }
+      return morningAttraction;
+    };
+
+    if (hasMeals) {
+      // Only add attractions if there are fewer than 2 non-meal activities
+      const nonMealActivities = dayActivities.filter(a => !isMeal(a));
+      if (nonMealActivities.length < 2) {
+        const morningAttraction = addMorningAttraction();
+        if (nonMealActivities.length === 0 && attractions.length > dayIndex + 1) {
+          const afternoonAttraction = pickOpenPlace(attractions, visitedAttractions, { date: dateStr, time: '14:30', title: 'Explore', tag: 'sightseeing' }, hoursContext) || attractions[(dayIndex + 1) % attractions.length];
+          if (afternoonAttraction && afternoonAttraction.name !== morningAttraction?.name) {
+            plan.push(planned(afternoonAttraction, dateStr, '14:30', `Explore ${afternoonAttraction.name}`, afternoonAttraction.tourism || 'Discover this attraction', 'sightseeing'));
+            visitedAttractions.add(afternoonAttraction.name);
+          }
+        }
+      }
+    } else if (dayActivities.length === 0) {
+      // Nothing planned yet: a full day
+      addBreakfast();
+      addMorningAttraction();
+      addLunch();
+      addDinner();
+    } else {
+      // Day has some activities but no meals, add meals only
+      addBreakfast();
+      addLunch();
+      addDinner();
+    }
+
+    // Moved into the places' opening hours now, so what streams is what gets saved
+    for (const activity of plan) {
+      activity.time = fitToOpeningHours(activity.openingHours, activity, hoursContext);
+    }
+    await verifyPlanned(plan, cityToSearch, countryToSearch, { restaurants, attractions, cafes });
+    allActivities.push(...plan);
+    if (plan.length > 0) {
+      context.activities(dayIndex + 1, dateStr, plan);
+    }
+    context.progress({ day: dayIndex + 1, total_days: tripDays, message: `Planned day ${dayIndex + 1} of ${tripDays}` });
+  }
+
+  logger.info(`[FULL-ITINERARY] Created ${allActivities.length} activities from real OSM places`);
+
+  await context.commit(async () => {
+    // One changeset for the whole run so it can be reverted in one step
+    const changesetId = await tripHistoryService.startChangeset(null, trip.id, userId, {
+      source: 'ai',
+      description: `Generated ${allActivities.length} activities`,
+    });
+
+    for (const activity of allActivities) {
+      const [created] = await db.insert(activities).values({
+        trip_id: trip.id,
+        title: activity.title,
+        date: activity.date,
+        time: activity.time,
+        location_name: activity.locationName,
+        opening_hours: activity.openingHours || null,
+        latitude: activity.latitude ? String(activity.latitude) : null,
+        longitude: activity.longitude ? String(activity.longitude) : null,
+        notes: activity.notes,
+        tag: activity.tag || 'activity',
+        ...verificationColumns(activity.verification),
+        created_at: new Date(),
+        updated_at: new Date()
+      }).returning();
+      await collaborationService.recordActivityCreated(created, userId, { source: 'ai', changesetId });
+    }
+  });
+
+  logger.info(`Created ${allActivities.length} activities for trip ${trip.id}`);
+
+  return {
+    success: true,
+    message: `Generated ${allActivities.length} activities for your ${tripDays}-day trip`,
+    activitiesCreated: allActivities.length,
+    activities: allActivities
+  };
+}
+
+function weekendNotes(place: Place & { tag: string }): string {
+  if (place.cuisine) return `Enjoy authentic ${place.cuisine} cuisine at this local favorite`;
+  if (place.tourism === 'viewpoint') return 'Take in panoramic views of the city and surrounding landscape';
+  if (place.tourism === 'museum' || place.tourism === 'attraction') return 'Explore the exhibits and learn about local history and culture';
+  if (place.tag === 'food') return 'Experience local flavors and traditional dishes';
+  return 'Discover this local gem and its unique character';
+}
+
+/**
+ * A Friday-to-Sunday plan from real places: dinner on arrival, a full
+ * Saturday and a Sunday morning before leaving.
+ */
+export async function generateWeekend(context: GenerationContext, trip: Trip, destination: string, duration: number) {
+  const cityToSearch = trip.city || destination.split(',')[0].trim();
+  const countryToSearch = trip.country || destination.split(',')[1]?.trim() || 'Germany';
+  context.progress({ total_days: 3, message: `Finding places in ${cityToSearch}` });
+
+  logger.info(`[WEEKEND] Fetching real places for ${cityToSearch}, ${countryToSearch}`);
+  const { restaurants, attractions, cafes } = await batchFetchAndCache(cityToSearch, countryToSearch);
+  logger.info(`[WEEKEND] Got ${restaurants.length} restaurants, ${attractions.length} attractions, ${cafes.length} cafes`);
+
+  if (restaurants.length === 0 && attractions.length === 0) {
+    logger.error(`[AI] No real places found for ${destination}`);
+    const error = `Could not find real places in ${destination}. Please try a different city.`;
+    throw new GenerationError(400, error, { success: false, error });
+  }
+  context.throwIfCancelled();
+
+  // Pick places first, then create the itinerary
+  const startDate = new Date(trip.start_date);
+  const selectedPlaces: Array<Place & { day: number; time: string; tag: string; title: string }> = [];
+
+  // Day 1 (Friday evening): dinner
+  if (restaurants.length > 0) {
+    selectedPlaces.push({ ...restaurants[0], day: 0, time: '19:00', tag: 'food', title: `Dinner at ${restaurants[0].name}` });
+  }
+
+  // Day 2 (Saturday): full day
+  if (attractions.length > 0) {
+    selectedPlaces.push({ ...attractions[0], day: 1, time: '09:00', tag: 'sightseeing', title: `Visit ${attractions[0].name}` });
+  }
+  if (restaurants.length > 1) {
+    selectedPlaces.push({ ...restaurants[1], day: 1, time: '12:30', tag: 'food', title: `Lunch at ${restaurants[1].name}` });
+  } else if (cafes.length > 0) {
+    selectedPlaces.push({ ...cafes[0], day: 1, time: '12:30', tag: 'food', title: `Light lunch at ${cafes[0].name}` });
+  }
+  if (attractions.length > 1) {
+    selectedPlaces.push({ ...attractions[1], day: 1, time: '14:30', tag: 'sightseeing', title: `Explore ${attractions[1].name}` });
+  }
+  if (cafes.length > 0) {
+    const cafeIndex = cafes.length > 1 ? 1 : 0;
+    selectedPlaces.push({ ...cafes[cafeIndex], day: 1, time: '16:30', tag: 'food', title: `Coffee break at ${cafes[cafeIndex].name}` });
+  }
+  if (restaurants.length > 2) {
+    selectedPlaces.push({ ...restaurants[2], day: 1, time: '19:30', tag: 'food', title: `Dinner at ${restaurants[2].name}` });
+  }
+
+  // Day 3 (Sunday): morning and lunch before departure
+  if (attractions.length > 2) {
+    selectedPlaces.push({ ...attractions[2], day: 2, time: '09:30', tag: 'sightseeing', title: `Morning visit to ${attractions[2].name}` });
+  } else if (cafes.length > 2) {
+    selectedPlaces.push({ ...cafes[2], day: 2, time: '09:30', tag: 'food', title: `Breakfast at ${cafes[2].name}` });
+  }
+  if (restaurants.length > 3) {
+    selectedPlaces.push({ ...restaurants[3], day: 2, time: '12:00', tag: 'food', title: `Farewell lunch at ${restaurants[3].name}` });
+  }
+
+  const enrichedActivities = selectedPlaces.map((place, index) => {
+    const activityDate = new Date(startDate);
+    activityDate.setDate(startDate.getDate() + place.day);
+    return {
+      title: place.title,
+      locationName: place.name,
+      latitude: place.lat.toString(),
+      longitude: place.lon.toString(),
+      time: place.time,
+      day: place.day,
+      notes: weekendNotes(place),
+      tag: place.tag,
+      openingHours: place.opening_hours,
+      date: isoDate(activityDate),
+      trip_id: trip.id,
+      order: index,
+      verification: undefined as PlannedActivity['verification'],
+    };
+  });
+
+  // Moved into the places' opening hours
+  const hoursContext = tripOpeningHoursContext(trip);
+  for (const activity of enrichedActivities) {
+    activity.time = fitToOpeningHours(activity.openingHours, activity, hoursContext);
+  }
+  await verifyPlanned(enrichedActivities, cityToSearch, countryToSearch, { restaurants, attractions, cafes });
+
+  for (let day = 0; day < 3; day++) {
+    const plan = enrichedActivities.filter(activity => activity.day === day);
+    if (plan.length > 0) {
+      context.activities(day + 1, plan[0].date, plan);
+    }
+    context.progress({ day: day + 1, total_days: 3, message: `Planned day ${day + 1} of 3` });
+  }
+  logger.info(`[WEEKEND] Created ${enrichedActivities.length} activities from real OSM places`);
+
+  const savedActivities = await context.commit(async () => {
+    const saved = [];
+    for (const activity of enrichedActivities) {
+      try {
+        const createdActivity = await storage.createActivity({
+          trip_id: activity.trip_id,
+          title: activity.title,
+          date: activity.date,
+          time: activity.time,
+          location_name: activity.locationName,
+          notes: activity.notes,
+          tag: activity.tag || 'activity',
+          latitude: activity.latitude,
+          longitude: activity.longitude,
+          order: activity.order,
+          travel_mode: 'walking',
+          opening_hours: activity.openingHours || null,
+          assigned_to: null,
+          ...verificationColumns(activity.verification),
+        });
+        if (createdActivity) saved.push(createdActivity);
+      } catch (error) {
+        logger.error(`Failed to create activity "${activity.title}":`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          activity
+        });
+        // Continue with other activities even if one fails
+      }
+    }
+    return saved;
+  });
+
+  return {
+    success: true,
+    trip_id: trip.id,
+    destination,
+    duration,
+    activities: savedActivities,
+    message: `Generated ${savedActivities.length} activities for your weekend in ${destination}!`
+  };
+}
+
+export interface GenerateTripInput {
+  prompt: string;
+  conversation?: Array<{ role: string; content: string }>;
+  tripId?: number | null;
+  today?: string; // YYYY-MM-DD for relative dates; defaults to now, fixed when replaying
+}
+
+// Longer trips are generated a few days per request to stay within token limits
+const MAX_DAYS_PER_REQUEST = 4;
+
+const DEFAULT_TIMES = ['09:00', '11:00', '14:00', '16:00', '19:00', '21:00'];
+
+export function formatGeneratedActivity(activity: any, index: number) {
+  return {
+    id: `ai-${index}`,
+    title: activity.title || activity.name,
+    description: activity.description,
+    date: activity.date,
+    time: activity.time || activity.startTime,
+    duration: activity.duration,
+    location: activity.location,
+    category: activity.category || "activity",
+    price: activity.price || 0,
+    bookingUrl: activity.bookingUrl
+  };
+}
+
+// A sensible time for a meal or hotel activity the model left without one
+function usualTime(activity: { title?: string; category?: string }): string | undefined {
+  const title = (activity.title || '').toLowerCase();
+  const category = (activity.category || '').toLowerCase();
+  if (title.includes('breakfast') || category === 'breakfast') return '08:00';
+  if (title.includes('lunch') || category === 'lunch') return '12:30';
+  if (title.includes('dinner') || category === 'dinner') return '19:00';
+  if (title.includes('check-in')) return '15:00';
+  if (title.includes('check-out')) return '11:00';
+  return undefined;
+}
+
+/**
+ * Stream a JSON-mode completion, reporting each activity as soon as the
+ * model has finished writing it.
+ */
+async function streamItineraryJson(
+  context: GenerationContext,
+  model: LLMService,
+  request: LLMRequest,
+  onActivity: (activity: any) => void
+): Promise<any> {
+  let text = '';
+  let reported = 0;
+  for await (const event of model.stream('itinerary', { ...request, json: true })) {
+    context.throwIfCancelled();
+    if (event.type === 'done') {
+      text = event.response.content || text;
+      break;
+    }
+    text += event.text;
+    const items = completedArrayItems(text, 'activities');
+    for (; reported < items.length; reported++) onActivity(items[reported]);
+  }
+
+  const result = JSON.parse(extractJson(text) || '{}');
+  for (const activity of (result.activities || []).slice(reported)) onActivity(activity);
+  return result;
+}
+
+/**
+ * A whole vacation from a free-text request: flights, hotels, activities and
+ * meals. Asks a question instead when the destination is missing.
+ * `model` and `verifier` are only swapped by the prompt evaluation harness.
+ */
+export async function generateTrip(
+  context: GenerationContext,
+  input: GenerateTripInput,
+  model: LLMService = llm,
+  verifier: PlaceVerificationService = placeVerification
+) {
+  const { prompt, conversation, tripId } = input;
+  const promptLower = prompt.toLowerCase();
+
+  // Check if user is forcing trip generation with defaults
+  const forceGeneration = promptLower.includes("create the trip now") ||
+                         promptLower.includes("use reasonable defaults") ||
+                         promptLower.includes("just create it");
+
+  context.progress({ message: 'Reading your request' });
+
+  // Use AI to extract structured data from natural language prompt
+  const extractedData = await model.json('itinerary', renderPrompt(tripExtractionPrompt, {
+    request: prompt,
+    today: input.today || isoDate(new Date()),
+  }));
+  context.throwIfCancelled();
+
+  // Only the destination is required; dates get defaults
+  const missingFields = [];
+  if (!extractedData.destination && !forceGeneration) missingFields.push("destination");
+
+  if (!extractedData.destination && forceGeneration) {
+    const locationMatch = prompt.match(/\b(paris|london|tokyo|rome|barcelona|amsterdam|new york|los angeles|miami|hawaii|bali|thailand|dubai)\b/i);
+    extractedData.destination = locationMatch ? locationMatch[0] : "Paris";
+    logger.info(`Auto-filled destination: ${extractedData.destination}`);
+  }
+
+  if ((extractedData.destination || forceGeneration) && !extractedData.startDate) {
+    // Default to 2 weeks from now for 7 days
+    const defaultStart = new Date();
+    defaultStart.setDate(defaultStart.getDate() + 14);
+    extractedData.startDate = isoDate(defaultStart);
+
+    const defaultEnd = new Date(defaultStart);
+    defaultEnd.setDate(defaultEnd.getDate() + 6);
+    extractedData.endDate = isoDate(defaultEnd);
+  }
+
+  if (missingFields.length > 0) {
+    const questions = `I'd love to help plan your trip! To create the perfect itinerary, could you provide:
+
+${missingFields.map((field, i) => `${i + 1}. What's your ${field}?`).join('\n')}
+
+Any other preferences like:
+- Preferred hotel type (luxury, business, budget)?
+- Activities you enjoy?
+- Dietary restrictions?`;
+
+    return {
+      type: "questions",
+      message: questions,
+      conversation: [
+        ...(conversation || []),
+        { role: "user", content: prompt },
+        { role: "assistant", content: questions }
+      ]
+    };
+  }
+
+  logger.info(`Generating trip for ${extractedData.destination} from ${extractedData.startDate} to ${extractedData.endDate}`);
+
+  const startDate = new Date(extractedData.startDate);
+  const tripDurationDays = tripDayCount(extractedData.startDate, extractedData.endDate);
+  const dayOf = (date: string | undefined) => {
+    const time = date ? Date.parse(date) : NaN;
+    return isNaN(time) ? 0 : Math.round((time - startDate.getTime()) / DAY_MS) + 1;
+  };
+
+  // Report each activity as soon as it's complete, in the shape of the final response
+  let streamed = 0;
+  const reportActivity = (activity: any) => {
+    const formatted = formatGeneratedActivity(activity, streamed++);
+    context.activities(dayOf(formatted.date), formatted.date || null, [formatted]);
+  };
+
+  const firstDays = Math.min(MAX_DAYS_PER_REQUEST, tripDurationDays);
+  context.progress({ day: 1, total_days: tripDurationDays, message: `Planning days 1-${firstDays} of ${tripDurationDays}` });
+
+  const generatedTrip = await streamItineraryJson(context, model, renderPrompt(tripItineraryPrompt, {
+    destination: extractedData.destination,
+    startDate: extractedData.startDate,
+    endDate: extractedData.endDate,
+    days: tripDurationDays,
+    maxDays: MAX_DAYS_PER_REQUEST,
+    purpose: extractedData.tripPurpose,
+    groupSize: extractedData.groupSize,
+    accommodationType: extractedData.preferences?.accommodationType,
+    activityTypes: extractedData.preferences?.activityTypes,
+    foodTypes: extractedData.preferences?.foodTypes,
+  }), reportActivity);
+
+  const allActivities = [...(generatedTrip.activities || [])];
+  const allMeals = [...(generatedTrip.meals || [])];
+
+  if (tripDurationDays > MAX_DAYS_PER_REQUEST) {
+    // Attractions already suggested, so later days don't repeat them
+    const visitedAttractions = new Set<string>();
+    const trackVisited = (activity: any) => {
+      if (activity.title && !isMeal({ title: activity.title })) visitedAttractions.add(activity.title);
+    };
+    allActivities.forEach(trackVisited);
+
+    for (let dayStart = MAX_DAYS_PER_REQUEST + 1; dayStart <= tripDurationDays; dayStart += MAX_DAYS_PER_REQUEST) {
+      const dayEnd = Math.min(dayStart + MAX_DAYS_PER_REQUEST - 1, tripDurationDays);
+      context.progress({ day: dayStart, total_days: tripDurationDays, message: `Planning days ${dayStart}-${dayEnd} of ${tripDurationDays}` });
+
+      const chunkStartDate = new Date(startDate);
+      chunkStartDate.setDate(chunkStartDate.getDate() + dayStart - 1);
+      const chunkEndDate = new Date(startDate);
+      chunkEndDate.setDate(chunkEndDate.getDate() + dayEnd - 1);
+
+      try {
+        const additionalDays = await streamItineraryJson(context, model, renderPrompt(tripAdditionalDaysPrompt, {
+          destination: extractedData.destination,
+          startDate: extractedData.startDate,
+          endDate: extractedData.endDate,
+          dayStart,
+          dayEnd,
+          chunkStartDate: isoDate(chunkStartDate),
+          chunkEndDate: isoDate(chunkEndDate),
+          alreadyVisited: Array.from(visitedAttractions),
+        }), reportActivity);
+
+        (additionalDays.activities || []).forEach(trackVisited);
+        allActivities.push(...(additionalDays.activities || []));
+        allMeals.push(...(additionalDays.meals || []));
+      } catch (error) {
+        if (context.signal.aborted) throw error;
+        logger.error(`Failed to generate days ${dayStart}-${dayEnd}:`, error);
+        // Continue with what we have
+      }
+    }
+  }
+
+  // The model names places itself, so check them; unverified ones are
+  // flagged rather than replaced, since the plan around them is the model's
+  context.progress({ message: 'Checking places' });
+  const [destinationCity, destinationCountry = ''] = String(extractedData.destination).split(',').map(part => part.trim());
+  const verifications = await verifier.verifyPlaces([
+    ...allActivities.map(activity => ({ name: activity.title || activity.name || '', kind: 'attraction' as const })),
+    ...allMeals.map(meal => ({ name: meal.restaurant || '', kind: 'meal' as const })),
+  ], { city: destinationCity, country: destinationCountry });
+  context.throwIfCancelled();
+
+  const formattedActivities = allActivities.map((activity, index) => ({
+    ...formatGeneratedActivity(activity, index),
+    verification: verificationSummary(verifications[index]),
+  }));
+  const verifiedMeals = allMeals.map((meal, index) => ({
+    ...meal,
+    verification: verificationSummary(verifications[allActivities.length + index]),
+  }));
+
+  if (tripId) {
+    await context.commit(async () => {
+      let defaultTimeIndex = 0;
+      for (const activity of formattedActivities) {
+        await db.insert(activities).values({
+          trip_id: tripId,
+          title: activity.title,
+          notes: activity.description,
+          date: activity.date || null,
+          time: activity.time || usualTime(activity) || DEFAULT_TIMES[defaultTimeIndex++ % DEFAULT_TIMES.length],
+          location_name: activity.location,
+          category: activity.category,
+          price: activity.price ? activity.price.toString() : undefined,
+          booking_url: activity.bookingUrl,
+          ...verificationColumns(activity.verification),
+          created_at: new Date(),
+          updated_at: new Date()
+        });
+      }
+    });
+  }
+
+  return {
+    type: "itinerary",
+    success: true,
+    tripSummary: generatedTrip.tripSummary,
+    flights: generatedTrip.flights,
+    accommodation: generatedTrip.accommodation,
+    activities: formattedActivities,
+    meals: verifiedMeals,
+    groundTransportation: generatedTrip.transportation,
+    recommendations: generatedTrip.recommendations,
+    weatherConsiderations: generatedTrip.weatherConsiderations,
+    message: `Perfect! I've created your ${tripDurationDays}-day ${extractedData.destination} itinerary with ${formattedActivities.length} activities, ${allMeals.length} dining recommendations, and complete travel arrangements!`,
+    savedToTrip: !!tripId,
+    debug: {
+      tripDurationDays,
+      activitiesGenerated: formattedActivities.length,
+      mealsGenerated: allMeals.length
+    }
+  };
+}
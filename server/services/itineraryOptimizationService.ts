@@ -0,0 +1,817 @@
+import { Activity, Booking, Trip } from '@shared/schema';
+import { OpenInterval, OpeningHoursContext, checkVisit, openIntervals, tryParseOpeningHours } from '@shared/openingHours';
+import { publicHolidaysBetween } from '@shared/publicHolidays';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { timeToMinutes, minutesToTime } from '../utils/timeOfDay';
+import { getUtcOffsetMinutes, isValidTimeZone } from './calendarExportService';
+import { llm } from './llmService';
+
+/**
+ * Deterministic itinerary optimization.
+ *
+ * Each day is solved on its own as a small travelling-salesman problem with
+ * time windows: start and end at the hotel when its location is known, keep
+ * booked activities at their booked time, keep meals inside meal hours, visit
+ * places while they are open and order everything else to cut travel time. Travel times come from straight-
+ * line distances and the activity's travel mode, so the same itinerary always
+ * gives the same result. The LLM is only asked to explain the result.
+ */
+
+export type TravelStyle = 'relaxed' | 'balanced' | 'packed';
+export type TravelMode = 'walking' | 'cycling' | 'transit' | 'driving';
+
+// km/h door to door, plus a fixed overhead for parking, waiting or finding the entrance
+const TRAVEL_SPEEDS: Record<TravelMode, { kmh: number; overheadMinutes: number }> = {
+  walking: { kmh: 4.5, overheadMinutes: 0 },
+  cycling: { kmh: 14, overheadMinutes: 3 },
+  transit: { kmh: 20, overheadMinutes: 8 },
+  driving: { kmh: 28, overheadMinutes: 8 },
+};
+
+// Streets aren't straight lines
+const ROUTE_FACTOR = 1.3;
+
+// Used when one end of a leg has no coordinates
+const UNKNOWN_TRAVEL_MINUTES = 20;
+
+// Longer than this on foot and the leg is planned by transit instead
+const MAX_WALK_MINUTES = 45;
+
+const DAY_START = 9 * 60;
+const DAY_END = 22 * 60;
+
+const BUFFER_MINUTES: Record<TravelStyle, number> = { relaxed: 20, balanced: 10, packed: 0 };
+
+// Exhaustive search up to this many stops a day, heuristics above
+const EXHAUSTIVE_LIMIT = 8;
+
+const DEFAULT_DURATION = 90;
+const DURATIONS: Record<string, number> = {
+  food: 75,
+  dining: 75,
+  culture: 120,
+  sightseeing: 90,
+  shopping: 90,
+  nature: 120,
+  adventure: 180,
+  spa: 120,
+  wellness: 120,
+  entertainment: 120,
+  nightlife: 120,
+  wine: 90,
+  transport: 30,
+  accommodation: 30,
+};
+
+export interface MealWindow {
+  meal: 'breakfast' | 'lunch' | 'dinner';
+  start: number;
+  end: number;
+}
+
+export const MEAL_WINDOWS: Record<MealWindow['meal'], MealWindow> = {
+  breakfast: { meal: 'breakfast', start: 7 * 60, end: 10 * 60 },
+  lunch: { meal: 'lunch', start: 11 * 60 + 30, end: 14 * 60 + 30 },
+  dinner: { meal: 'dinner', start: 18 * 60, end: 21 * 60 + 30 },
+};
+
+// The fields the optimizer reads, so callers can pass partial rows
+export type OptimizableActivity = Pick<Activity, 'id' | 'title' | 'date' | 'time' | 'latitude' | 'longitude'> &
+  Partial<Pick<Activity, 'tag' | 'category' | 'travel_mode' | 'booking_reference' | 'order' | 'opening_hours'>>;
+
+export interface Point {
+  latitude: number;
+  longitude: number;
+}
+
+export interface OptimizeOptions {
+  hotel?: Point | null;
+  fixedActivityIds?: Set<number>;
+  travelStyle?: TravelStyle;
+  // Holidays and location used to evaluate opening_hours
+  openingHours?: OpeningHoursContext;
+}
+
+export interface Stop {
+  activity_id: number;
+  title: string;
+  start_time: string;
+  end_time: string;
+  travel_minutes: number; // To get here from the previous stop or the hotel
+  fixed: boolean;
+  meal: MealWindow['meal'] | null;
+}
+
+export type ViolationType = 'late_for_booking' | 'meal_outside_window' | 'day_overrun' | 'closed';
+
+export interface Violation {
+  type: ViolationType;
+  activity_id: number;
+  minutes: number;
+}
+
+export interface DayPlan {
+  date: string;
+  stops: Stop[];
+  travel_minutes: number;
+  original_travel_minutes: number;
+  return_minutes: number; // Back to the hotel after the last stop
+  violations: Violation[];
+}
+
+export interface ActivityChange {
+  activity_id: number;
+  date: string;
+  from_time: string | null;
+  to_time: string;
+  order: number;
+  reason: string;
+}
+
+export interface OptimizationResult {
+  days: DayPlan[];
+  changes: ActivityChange[];
+  undated_activity_ids: number[];
+  travel_minutes_before: number;
+  travel_minutes_after: number;
+}
+
+export type ConflictType = 'overlap' | 'tight_connection' | 'long_distance';
+
+export interface TimeConflict {
+  activityId1: number;
+  activityId2: number;
+  type: ConflictType;
+  description: string;
+  severity: 'low' | 'medium' | 'high';
+}
+
+interface Item {
+  activity: OptimizableActivity;
+  point: Point | null;
+  mode: TravelMode;
+  duration: number;
+  fixedAt: number | null;
+  planned: number | null;
+  window: MealWindow | null;
+  open: OpenInterval[] | null; // Opening hours on the day, null when unknown
+}
+
+interface Simulation {
+  starts: number[];
+  legs: number[];
+  returnLeg: number;
+  travel: number;
+  violations: Violation[];
+  penalty: number; // Cost of the violations alone
+  cost: number;
+}
+
+function toPoint(latitude: unknown, longitude: unknown): Point | null {
+  if (latitude === null || latitude === undefined || longitude === null || longitude === undefined) return null;
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || (lat === 0 && lng === 0)) return null;
+  return { latitude: lat, longitude: lng };
+}
+
+export function haversineKm(a: Point, b: Point): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+export function normalizeTravelMode(mode: string | null | undefined): TravelMode {
+  const value = String(mode || '').toLowerCase();
+  if (value === 'driving' || value === 'car' || value === 'taxi') return 'driving';
+  if (value === 'transit' || value === 'bus' || value === 'train' || value === 'subway') return 'transit';
+  if (value === 'cycling' || value === 'bike' || value === 'bicycle') return 'cycling';
+  return 'walking';
+}
+
+/**
+ * Estimated minutes from a to b. Walks that would take too long are planned
+ * by transit, which is what people do.
+ */
+export function travelMinutes(a: Point | null, b: Point | null, mode: TravelMode): number {
+  if (!a || !b) return UNKNOWN_TRAVEL_MINUTES;
+  const km = haversineKm(a, b) * ROUTE_FACTOR;
+  if (km < 0.05) return 0;
+
+  const minutes = (speed: { kmh: number; overheadMinutes: number }) => Math.round((km / speed.kmh) * 60 + speed.overheadMinutes);
+  const estimate = minutes(TRAVEL_SPEEDS[mode]);
+  if (mode === 'walking' && estimate > MAX_WALK_MINUTES) {
+    return Math.min(estimate, minutes(TRAVEL_SPEEDS.transit));
+  }
+  return estimate;
+}
+
+/**
+ * Minutes between every pair of points, using the mode of the destination
+ * (an activity's travel_mode is how you get there).
+ */
+export function buildTravelMatrix(points: Array<Point | null>, modes: TravelMode[]): number[][] {
+  return points.map((from, i) => points.map((to, j) => (i === j ? 0 : travelMinutes(from, to, modes[j]))));
+}
+
+export function mealWindow(activity: Pick<OptimizableActivity, 'title' | 'tag' | 'category' | 'time'>): MealWindow | null {
+  const title = activity.title.toLowerCase();
+  if (/\b(breakfast|brunch)\b/.test(title)) return MEAL_WINDOWS.breakfast;
+  if (/\blunch\b/.test(title)) return MEAL_WINDOWS.lunch;
+  if (/\b(dinner|supper)\b/.test(title)) return MEAL_WINDOWS.dinner;
+
+  // Food without a hint in the title keeps the meal it was planned for
+  const isFood = activity.tag === 'food' || activity.tag === 'dining' || activity.category === 'dining';
+  const planned = timeToMinutes(activity.time);
+  if (!isFood || planned === null || /\b(coffee|cafe|café|bar|drinks|dessert|gelato)\b/.test(title)) return null;
+  if (planned < 11 * 60) return MEAL_WINDOWS.breakfast;
+  if (planned < 16 * 60) return MEAL_WINDOWS.lunch;
+  return MEAL_WINDOWS.dinner;
+}
+
+export function activityDuration(activity: Pick<OptimizableActivity, 'title' | 'tag' | 'category'>, window: MealWindow | null): number {
+  if (window?.meal === 'breakfast') return 45;
+  return DURATIONS[activity.tag || ''] ?? DURATIONS[activity.category || ''] ?? DEFAULT_DURATION;
+}
+
+// Activities that can't move: booked tickets, flights and anything the caller knows is booked
+export function isFixed(activity: OptimizableActivity, fixedActivityIds?: Set<number>): boolean {
+  if (timeToMinutes(activity.time) === null) return false;
+  return !!(fixedActivityIds?.has(activity.id) || activity.booking_reference || activity.tag === 'transport');
+}
+
+function toItem(activity: OptimizableActivity, options: OptimizeOptions, date?: string): Item {
+  const window = mealWindow(activity);
+  const hours = date ? tryParseOpeningHours(activity.opening_hours) : null;
+  return {
+    activity,
+    point: toPoint(activity.latitude, activity.longitude),
+    mode: normalizeTravelMode(activity.travel_mode),
+    duration: activityDuration(activity, window),
+    fixedAt: isFixed(activity, options.fixedActivityIds) ? timeToMinutes(activity.time) : null,
+    planned: timeToMinutes(activity.time),
+    window,
+    open: hours && date ? openIntervals(hours, date, options.openingHours) : null,
+  };
+}
+
+const roundUp5 = (minutes: number) => Math.ceil(minutes / 5) * 5;
+
+// Earliest start at or after `from` with the place open for the whole visit
+function openStart(item: Item, from: number): number | null {
+  if (!item.open) return from;
+  for (const interval of item.open) {
+    const start = from >= interval.start ? from : roundUp5(interval.start);
+    // When the closing time isn't known, being there after it opens is enough
+    if (interval.state === 'unknown' ? start < interval.end : start + item.duration <= interval.end) return start;
+  }
+  return null;
+}
+
+// The planned time, when it's a sensible time for the stop
+function plannedStart(item: Item): number | null {
+  if (item.planned === null) return null;
+  if (item.window && (item.planned < item.window.start || item.planned > item.window.end)) return null;
+  return item.planned;
+}
+
+/**
+ * Walk the day in the given order and work out when each stop starts: as
+ * early as possible, or with keepPlanned at its planned time when it can
+ * still get there. Index 0 of the matrix is the hotel; item i is matrix
+ * index i + 1.
+ */
+function simulate(
+  order: number[],
+  items: Item[],
+  matrix: number[][],
+  hasHotel: boolean,
+  buffer: number,
+  keepPlanned = false
+): Simulation {
+  const starts: number[] = [];
+  const legs: number[] = [];
+  const violations: Violation[] = [];
+  let penalty = 0;
+  let idle = 0;
+  let travel = 0;
+  let position: number | null = hasHotel ? 0 : null;
+  let clock = DAY_START;
+
+  // Leave early enough for an early booking, breakfast or an early planned start
+  const first = order.length > 0 ? items[order[0]] : null;
+  if (first) {
+    const anchor = first.fixedAt ?? (keepPlanned ? plannedStart(first) : null) ?? first.window?.start ?? null;
+    if (anchor !== null) {
+      clock = Math.min(clock, anchor - (hasHotel ? matrix[0][order[0] + 1] : 0));
+    }
+  }
+
+  order.forEach((index, stopIndex) => {
+    const item = items[index];
+    const leg = position === null ? 0 : matrix[position][index + 1];
+    const arrival = clock + leg + (stopIndex > 0 ? buffer : 0);
+    let start: number;
+
+    if (item.fixedAt !== null) {
+      start = item.fixedAt;
+      if (arrival > item.fixedAt) {
+        const late = arrival - item.fixedAt;
+        violations.push({ type: 'late_for_booking', activity_id: item.activity.id, minutes: late });
+        penalty += 1000 + late * 20;
+      }
+    } else {
+      const planned = keepPlanned ? plannedStart(item) : null;
+      const earliest = planned !== null && planned >= arrival
+        ? planned
+        : roundUp5(item.window ? Math.max(arrival, item.window.start) : arrival);
+      const open = openStart(item, earliest);
+      if (open === null) {
+        violations.push({ type: 'closed', activity_id: item.activity.id, minutes: item.duration });
+        penalty += 500;
+      }
+      start = open ?? earliest;
+      if (item.window && start > item.window.end) {
+        const late = start - item.window.end;
+        violations.push({ type: 'meal_outside_window', activity_id: item.activity.id, minutes: late });
+        penalty += 200 + late * 5;
+      }
+      idle += start - arrival;
+    }
+
+    const end = start + item.duration;
+    if (end > DAY_END) {
+      violations.push({ type: 'day_overrun', activity_id: item.activity.id, minutes: end - DAY_END });
+      penalty += (end - Math.max(start, DAY_END)) * 3;
+    }
+
+    starts.push(start);
+    legs.push(leg);
+    travel += leg;
+    clock = end;
+    position = index + 1;
+  });
+
+  const returnLeg = hasHotel && position !== null && order.length > 0 ? matrix[position][0] : 0;
+  travel += returnLeg;
+  // Idle time between stops is allowed but a tighter day is better
+  return { starts, legs, returnLeg, travel, violations, penalty, cost: travel + penalty + idle * 0.05 };
+}
+
+function permutations(n: number): number[][] {
+  if (n === 0) return [[]];
+  const result: number[][] = [];
+  const walk = (prefix: number[], rest: number[]) => {
+    if (rest.length === 0) {
+      result.push(prefix);
+      return;
+    }
+    rest.forEach((value, i) => walk([...prefix, value], [...rest.slice(0, i), ...rest.slice(i + 1)]));
+  };
+  walk([], Array.from({ length: n }, (_, i) => i));
+  return result;
+}
+
+/**
+ * Best visiting order for one day. Small days are searched exhaustively;
+ * bigger ones use cheapest insertion followed by relocate/2-opt passes.
+ * Ties keep the earlier candidate, which starts as the current order.
+ */
+function solveDay(items: Item[], matrix: number[][], hasHotel: boolean, buffer: number): number[] {
+  const current = items.map((_, i) => i);
+  // Scored with planned times kept, so equally good orders don't reshuffle the plan
+  const evaluate = (order: number[]) => simulate(order, items, matrix, hasHotel, buffer, true).cost;
+
+  // Bookings only make sense in time order
+  const fixedInOrder = (order: number[]) => {
+    let last = -1;
+    for (const i of order) {
+      const at = items[i].fixedAt;
+      if (at === null) continue;
+      if (at < last) return false;
+      last = at;
+    }
+    return true;
+  };
+
+  let best = current;
+  let bestCost = evaluate(current);
+
+  if (items.length <= EXHAUSTIVE_LIMIT) {
+    for (const order of permutations(items.length)) {
+      if (!fixedInOrder(order)) continue;
+      const cost = evaluate(order);
+      if (cost < bestCost - 1e-9) {
+        best = order;
+        bestCost = cost;
+      }
+    }
+    return best;
+  }
+
+  // Cheapest insertion: bookings first in time order, then the rest longest first
+  const fixed = current.filter(i => items[i].fixedAt !== null).sort((a, b) => items[a].fixedAt! - items[b].fixedAt!);
+  const flexible = current
+    .filter(i => items[i].fixedAt === null)
+    .sort((a, b) => items[b].duration - items[a].duration || items[a].activity.id - items[b].activity.id);
+  let order = fixed;
+  for (const index of flexible) {
+    let bestInsert: number[] = [...order, index];
+    let bestInsertCost = evaluate(bestInsert);
+    for (let position = 0; position < order.length; position++) {
+      const candidate = [...order.slice(0, position), index, ...order.slice(position)];
+      const cost = evaluate(candidate);
+      if (cost < bestInsertCost - 1e-9) {
+        bestInsert = candidate;
+        bestInsertCost = cost;
+      }
+    }
+    order = bestInsert;
+  }
+
+  // Relocate single stops and reverse segments until nothing improves
+  let orderCost = evaluate(order);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length; i++) {
+      for (let j = 0; j < order.length; j++) {
+        if (i === j) continue;
+        const moved = [...order];
+        const [stop] = moved.splice(i, 1);
+        moved.splice(j, 0, stop);
+        const cost = fixedInOrder(moved) ? evaluate(moved) : Infinity;
+        if (cost < orderCost - 1e-9) {
+          order = moved;
+          orderCost = cost;
+          improved = true;
+        }
+      }
+    }
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const reversed = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        const cost = fixedInOrder(reversed) ? evaluate(reversed) : Infinity;
+        if (cost < orderCost - 1e-9) {
+          order = reversed;
+          orderCost = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return orderCost < bestCost - 1e-9 ? order : best;
+}
+
+// Current order: by planned time, untimed activities after in their list order
+function currentOrder(activities: OptimizableActivity[]): OptimizableActivity[] {
+  return [...activities].sort((a, b) => {
+    const at = timeToMinutes(a.time);
+    const bt = timeToMinutes(b.time);
+    if (at !== null && bt !== null && at !== bt) return at - bt;
+    if (at === null && bt !== null) return 1;
+    if (at !== null && bt === null) return -1;
+    return (a.order ?? 0) - (b.order ?? 0) || a.id - b.id;
+  });
+}
+
+export function optimizeDay(date: string, activities: OptimizableActivity[], options: OptimizeOptions = {}): DayPlan {
+  const sorted = currentOrder(activities);
+  const items = sorted.map(activity => toItem(activity, options, date));
+  const hotel = options.hotel ?? null;
+  const buffer = BUFFER_MINUTES[options.travelStyle || 'balanced'];
+
+  const points = [hotel, ...items.map(item => item.point)];
+  const modes: TravelMode[] = ['walking', ...items.map(item => item.mode)];
+  // Back to the hotel the same way the last stop was reached
+  const matrix = buildTravelMatrix(points, modes).map((row, i) =>
+    row.map((value, j) => (j === 0 && i > 0 ? travelMinutes(points[i], hotel, items[i - 1].mode) : value))
+  );
+
+  const original = simulate(items.map((_, i) => i), items, matrix, !!hotel, buffer);
+  const order = solveDay(items, matrix, !!hotel, buffer);
+  // Keep planned times where that doesn't make anything late
+  const earliest = simulate(order, items, matrix, !!hotel, buffer);
+  const planned = simulate(order, items, matrix, !!hotel, buffer, true);
+  const result = planned.penalty <= earliest.penalty ? planned : earliest;
+
+  return {
+    date,
+    stops: order.map((index, i) => ({
+      activity_id: items[index].activity.id,
+      title: items[index].activity.title,
+      start_time: minutesToTime(result.starts[i]),
+      end_time: minutesToTime(result.starts[i] + items[index].duration),
+      travel_minutes: result.legs[i],
+      fixed: items[index].fixedAt !== null,
+      meal: items[index].window?.meal ?? null,
+    })),
+    travel_minutes: result.travel,
+    original_travel_minutes: original.travel,
+    return_minutes: result.returnLeg,
+    violations: result.violations,
+  };
+}
+
+function describeChange(stop: Stop, previous: Stop | null, hasHotel: boolean): string {
+  if (stop.meal) {
+    const window = MEAL_WINDOWS[stop.meal];
+    return `Keeps ${stop.meal} between ${minutesToTime(window.start)} and ${minutesToTime(window.end)}`;
+  }
+  if (!previous) {
+    return hasHotel ? `First stop of the day, ${stop.travel_minutes} min from the hotel` : 'First stop of the day';
+  }
+  return `Follows ${previous.title} (${stop.travel_minutes} min away)`;
+}
+
+/**
+ * Optimize every dated activity, day by day. Activities without a date are
+ * left alone and listed in undated_activity_ids.
+ */
+export function optimizeActivities(activities: OptimizableActivity[], options: OptimizeOptions = {}): OptimizationResult {
+  const byDate = new Map<string, OptimizableActivity[]>();
+  const undated: number[] = [];
+  for (const activity of activities) {
+    const date = activity.date ? String(activity.date).slice(0, 10) : null;
+    if (!date) {
+      undated.push(activity.id);
+      continue;
+    }
+    byDate.set(date, [...(byDate.get(date) || []), activity]);
+  }
+
+  const days = Array.from(byDate.keys()).sort().map(date => optimizeDay(date, byDate.get(date)!, options));
+  const planned = new Map(activities.map(a => [a.id, a]));
+
+  // Whether the planned time was while the place is closed
+  const plannedWhileClosed = (activity: OptimizableActivity, date: string) => {
+    const hours = tryParseOpeningHours(activity.opening_hours);
+    const start = timeToMinutes(activity.time);
+    if (!hours || start === null) return false;
+    const { status } = checkVisit(hours, date, start, activityDuration(activity, mealWindow(activity)), options.openingHours);
+    return status === 'closed' || status === 'closes_early';
+  };
+
+  const changes: ActivityChange[] = [];
+  for (const day of days) {
+    day.stops.forEach((stop, index) => {
+      const activity = planned.get(stop.activity_id)!;
+      const currentMinutes = timeToMinutes(activity.time);
+      if (stop.fixed || (currentMinutes !== null && minutesToTime(currentMinutes) === stop.start_time)) return;
+      changes.push({
+        activity_id: stop.activity_id,
+        date: day.date,
+        from_time: activity.time,
+        to_time: stop.start_time,
+        order: index,
+        reason: plannedWhileClosed(activity, day.date)
+          ? `${activity.title} is closed at ${minutesToTime(currentMinutes!)}; moved into its opening hours`
+          : describeChange(stop, index > 0 ? day.stops[index - 1] : null, !!options.hotel),
+      });
+    });
+  }
+
+  return {
+    days,
+    changes,
+    undated_activity_ids: undated,
+    travel_minutes_before: days.reduce((sum, day) => sum + day.original_travel_minutes, 0),
+    travel_minutes_after: days.reduce((sum, day) => sum + day.travel_minutes, 0),
+  };
+}
+
+/**
+ * Overlaps, tight connections and long legs in a day as currently planned.
+ */
+export function detectConflicts(activities: OptimizableActivity[]): TimeConflict[] {
+  const timed = currentOrder(activities).filter(a => timeToMinutes(a.time) !== null);
+  const conflicts: TimeConflict[] = [];
+
+  for (let i = 0; i < timed.length - 1; i++) {
+    const a = toItem(timed[i], {});
+    const b = toItem(timed[i + 1], {});
+    const start = timeToMinutes(a.activity.time)!;
+    const nextStart = timeToMinutes(b.activity.time)!;
+    const travel = travelMinutes(a.point, b.point, b.mode);
+    const gap = nextStart - (start + a.duration);
+
+    if (nextStart < start + a.duration) {
+      conflicts.push({
+        activityId1: a.activity.id,
+        activityId2: b.activity.id,
+        type: 'overlap',
+        description: `${b.activity.title} starts before ${a.activity.title} is likely to finish`,
+        severity: 'high',
+      });
+    } else if (gap < travel) {
+      conflicts.push({
+        activityId1: a.activity.id,
+        activityId2: b.activity.id,
+        type: 'tight_connection',
+        description: `${gap} min to get from ${a.activity.title} to ${b.activity.title}, about ${travel} min needed`,
+        severity: 'medium',
+      });
+    } else if (travel > 60) {
+      conflicts.push({
+        activityId1: a.activity.id,
+        activityId2: b.activity.id,
+        type: 'long_distance',
+        description: `About ${travel} min between ${a.activity.title} and ${b.activity.title}`,
+        severity: 'low',
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Plain-language summary of a result, also the fallback when no LLM is available.
+ */
+export function summarizeOptimization(result: OptimizationResult): string[] {
+  const lines: string[] = [];
+  const saved = result.travel_minutes_before - result.travel_minutes_after;
+
+  if (result.changes.length === 0) {
+    lines.push('Your itinerary is already in a good order.');
+  } else if (saved > 0) {
+    lines.push(`Reordering cuts travel from ${result.travel_minutes_before} to ${result.travel_minutes_after} minutes.`);
+  } else {
+    lines.push(`Adjusted ${result.changes.length} activity time${result.changes.length === 1 ? '' : 's'} to fit travel, bookings and meals.`);
+  }
+
+  for (const day of result.days) {
+    const late = day.violations.filter(v => v.type === 'late_for_booking');
+    if (late.length > 0) {
+      lines.push(`${day.date}: there isn't enough time to reach ${late.length === 1 ? 'a booking' : `${late.length} bookings`} on time. Consider moving something to another day.`);
+    }
+    const closed = day.violations.filter(v => v.type === 'closed');
+    if (closed.length > 0) {
+      lines.push(`${day.date}: ${closed.length === 1 ? 'one place is' : `${closed.length} places are`} closed all day or too briefly open to fit in.`);
+    }
+    const overrun = day.violations.filter(v => v.type === 'day_overrun');
+    if (overrun.length > 0) {
+      lines.push(`${day.date} runs past ${minutesToTime(DAY_END)}. It may be too full.`);
+    }
+  }
+
+  if (result.undated_activity_ids.length > 0) {
+    lines.push(`${result.undated_activity_ids.length} activit${result.undated_activity_ids.length === 1 ? 'y has' : 'ies have'} no date and were left out.`);
+  }
+  return lines;
+}
+
+/**
+ * Public holidays and location for evaluating opening hours during a trip.
+ */
+export function tripOpeningHoursContext(
+  trip: Pick<Trip, 'country' | 'start_date' | 'end_date' | 'city_latitude' | 'city_longitude' | 'timezone'>
+): OpeningHoursContext {
+  const point = toPoint(trip.city_latitude, trip.city_longitude);
+  return {
+    publicHolidays: trip.country ? publicHolidaysBetween(trip.country, String(trip.start_date), String(trip.end_date)) : new Map(),
+    latitude: point?.latitude,
+    longitude: point?.longitude,
+    utcOffsetMinutes: isValidTimeZone(trip.timezone)
+      ? getUtcOffsetMinutes(trip.timezone, new Date(`${trip.start_date}T12:00:00Z`))
+      : undefined,
+  };
+}
+
+// A visit the generators are about to plan, before the place is chosen
+export interface VisitSlot {
+  date: string;
+  time: string;
+  title: string;
+  tag?: string | null;
+}
+
+function slotActivity(slot: VisitSlot) {
+  return { title: slot.title, tag: slot.tag ?? null, category: null, time: slot.time };
+}
+
+/**
+ * Whether the place is open for the whole visit. Places without (readable)
+ * opening hours count as open.
+ */
+export function isOpenForVisit(openingHours: string | null | undefined, slot: VisitSlot, ctx: OpeningHoursContext): boolean {
+  const hours = tryParseOpeningHours(openingHours);
+  const start = timeToMinutes(slot.time);
+  if (!hours || start === null) return true;
+  const activity = slotActivity(slot);
+  const { status } = checkVisit(hours, slot.date, start, activityDuration(activity, mealWindow(activity)), ctx);
+  return status === 'open' || status === 'unknown';
+}
+
+/**
+ * The first unused place that is open for the visit, or the first unused
+ * place when none is.
+ */
+export function pickOpenPlace<T extends { name: string; opening_hours?: string }>(
+  places: T[],
+  used: Set<unknown>,
+  slot: VisitSlot,
+  ctx: OpeningHoursContext
+): T | undefined {
+  const unused = places.filter(place => !used.has(place.name));
+  return unused.find(place => isOpenForVisit(place.opening_hours, slot, ctx)) ?? unused[0];
+}
+
+/**
+ * Move a planned visit into the place's opening hours, as close to the
+ * planned time as possible. Meals stay inside meal hours; when nothing fits
+ * the planned time is kept and the itinerary shows a closed warning.
+ */
+export function fitToOpeningHours(openingHours: string | null | undefined, slot: VisitSlot, ctx: OpeningHoursContext): string {
+  const hours = tryParseOpeningHours(openingHours);
+  const planned = timeToMinutes(slot.time);
+  if (!hours || planned === null || isOpenForVisit(openingHours, slot, ctx)) return slot.time;
+
+  const activity = slotActivity(slot);
+  const window = mealWindow(activity);
+  const duration = activityDuration(activity, window);
+  const bounds = window ? { start: window.start, end: window.end } : { start: DAY_START, end: DAY_END - duration };
+
+  let best: number | null = null;
+  for (const interval of openIntervals(hours, slot.date, ctx)) {
+    const earliest = Math.max(interval.start, bounds.start);
+    const latest = Math.min(interval.state === 'unknown' ? interval.end - 1 : interval.end - duration, bounds.end);
+    if (earliest > latest) continue;
+
+    const closest = Math.min(Math.max(planned, earliest), latest);
+    let candidate = roundUp5(closest);
+    if (candidate > latest) candidate = Math.floor(closest / 5) * 5;
+    if (candidate < earliest) candidate = closest;
+    if (best === null || Math.abs(candidate - planned) < Math.abs(best - planned)) best = candidate;
+  }
+  return best === null ? slot.time : minutesToTime(best);
+}
+
+export class ItineraryOptimizationService {
+  /**
+   * Activities with a booking attached can't be moved.
+   */
+  private bookedActivityIds(bookings: Booking[]): Set<number> {
+    const ids = new Set<number>();
+    for (const booking of bookings) {
+      if (booking.status === 'cancelled') continue;
+      if (booking.activity_id) ids.add(booking.activity_id);
+      const activityIds = (booking.booking_details as any)?.activityIds;
+      if (Array.isArray(activityIds)) activityIds.forEach((id: number) => ids.add(id));
+    }
+    return ids;
+  }
+
+  async optimizeTrip(trip: Trip, travelStyle: TravelStyle = 'balanced'): Promise<OptimizationResult> {
+    const [tripActivities, bookings] = await Promise.all([
+      storage.getActivitiesByTripId(trip.id),
+      storage.getBookingsByTripId(trip.id),
+    ]);
+
+    return optimizeActivities(tripActivities, {
+      hotel: toPoint(trip.hotel_latitude, trip.hotel_longitude),
+      fixedActivityIds: this.bookedActivityIds(bookings),
+      travelStyle,
+      openingHours: tripOpeningHoursContext(trip),
+    });
+  }
+
+  /**
+   * A short explanation of the changes for the traveller. The LLM only words
+   * what the solver decided; without one the summary lines are used as-is.
+   */
+  async explain(trip: Trip, result: OptimizationResult): Promise<string | null> {
+    if (result.changes.length === 0 || !await llm.isAvailable('summaries')) return null;
+
+    const changes = result.changes
+      .map(change => `- ${change.date}: activity ${change.activity_id} from ${change.from_time || 'no time'} to ${change.to_time} (${change.reason})`)
+      .join('\n');
+
+    try {
+      const response = await llm.chat('summaries', {
+        messages: [
+          {
+            role: 'system',
+            content: 'You explain itinerary changes to travellers in 2-3 friendly sentences. Do not suggest other changes or times.',
+          },
+          {
+            role: 'user',
+            content: `Trip: ${trip.title} (${trip.city || trip.country || 'unknown destination'})\nTravel time before: ${result.travel_minutes_before} min, after: ${result.travel_minutes_after} min\nChanges:\n${changes}`,
+          },
+        ],
+        maxTokens: 200,
+        temperature: 0,
+      });
+      return response.content.trim() || null;
+    } catch (error) {
+      logger.warn('Could not generate optimization explanation', { tripId: trip.id, error });
+      return null;
+    }
+  }
+}
+
+export const itineraryOptimizationService = new ItineraryOptimizationService();
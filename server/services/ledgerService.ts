@@ -0,0 +1,403 @@
+import { and, asc, desc, eq, inArray, sql } from 'drizzle-orm';
+import {
+  creatorBalances,
+  ledgerEntries,
+  ledgerTransactions,
+  templatePurchases,
+  users,
+  LedgerEntry,
+  LedgerTransaction,
+} from '@shared/schema';
+import { db } from '../db-connection';
+import { logger } from '../utils/logger';
+
+/**
+ * The marketplace ledger: an append-only, double-entry record of every
+ * money movement. Each posting is one ledger transaction whose entries sum
+ * to zero, debits positive and credits negative, and is posted once per
+ * idempotency key. Creator balances are derived from the entries; the
+ * legacy columns (creator_balances, users.total_template_revenue) are
+ * still written alongside and checkConsistency() reports where they drift.
+ *
+ * Amounts are handled in cents here and stored as decimals.
+ */
+
+export const LEDGER_ACCOUNTS = {
+  platform_cash: 'asset', // Money held at Stripe and the payout providers
+  stripe_fees: 'expense',
+  promo_discounts: 'expense',
+  platform_revenue: 'revenue',
+  creator_pending: 'liability', // Per creator: earnings inside the refund window
+  creator_available: 'liability', // Per creator: earnings they can request
+  payouts_in_transit: 'liability', // Per creator: requested, not yet paid
+  refunds_reserve: 'liability', // Per creator: earnings held while a dispute is open
+  opening_balances: 'equity', // Per creator: balances from before the ledger
+} as const;
+
+export type LedgerAccount = keyof typeof LEDGER_ACCOUNTS;
+
+export type LedgerKind =
+  | 'sale'
+  | 'release'
+  | 'refund'
+  | 'dispute'
+  | 'referral'
+  | 'payout_requested'
+  | 'payout_paid'
+  | 'payout_failed'
+  | 'opening_balance';
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  userId?: number | null;
+  cents: number; // Debit positive, credit negative
+}
+
+export interface LedgerPosting {
+  kind: LedgerKind;
+  idempotencyKey: string;
+  referenceType?: string;
+  referenceId?: number;
+  description?: string;
+  metadata?: Record<string, any>;
+  lines: LedgerLine[];
+}
+
+export interface DerivedCreatorBalance {
+  available: number;
+  pending: number;
+  reserved: number;
+  inTransit: number;
+}
+
+export interface LedgerDrift {
+  userId: number | null;
+  check: string;
+  legacy: number | null;
+  ledger: number | null;
+  difference: number;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+export function toCents(amount: string | number | null | undefined): number {
+  return Math.round(parseFloat(String(amount ?? 0)) * 100) || 0;
+}
+
+function dollars(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Entries for a sale. What the buyer paid (less Stripe's fee) lands in
+ * platform cash; the gap to list price is a promo discount; the seller's
+ * share waits in their pending account and the platform keeps the rest.
+ */
+export function saleLines(sale: { sellerId: number; price: number; paid: number; stripeFee: number; sellerEarnings: number }): LedgerLine[] {
+  const price = toCents(sale.price);
+  const paid = toCents(sale.paid);
+  const fee = toCents(sale.stripeFee);
+  const earnings = toCents(sale.sellerEarnings);
+  return [
+    { account: 'platform_cash', cents: paid - fee },
+    { account: 'stripe_fees', cents: fee },
+    { account: 'promo_discounts', cents: price - paid },
+    { account: 'creator_pending', userId: sale.sellerId, cents: -earnings },
+    { account: 'platform_revenue', cents: -(price - earnings) },
+  ];
+}
+
+/**
+ * Entries for refunding a sale: the seller's earnings come back out of
+ * wherever they are now, the platform gives up the rest of the refund,
+ * and the refund leaves platform cash. Stripe keeps its fee.
+ */
+export function refundLines(refund: { sellerId: number; refundAmount: number; sellerEarnings: number; heldIn: LedgerAccount }): LedgerLine[] {
+  const amount = toCents(refund.refundAmount);
+  const earnings = toCents(refund.sellerEarnings);
+  return [
+    { account: refund.heldIn, userId: refund.sellerId, cents: earnings },
+    { account: 'platform_revenue', cents: amount - earnings },
+    { account: 'platform_cash', cents: -amount },
+  ];
+}
+
+export function transferLines(from: LedgerAccount, to: LedgerAccount, userId: number, amount: number): LedgerLine[] {
+  const cents = toCents(amount);
+  return [
+    { account: from, userId, cents },
+    { account: to, userId: to === 'platform_cash' ? null : userId, cents: -cents },
+  ];
+}
+
+/**
+ * Split a bundle's price, fee and creator earnings across its templates in
+ * proportion to their list prices (evenly when none has one), to the cent.
+ */
+export function splitBundle<T extends { price: number }>(
+  items: T[],
+  totals: { price: number; stripeFee: number; sellerEarnings: number },
+): Array<T & { price: number; stripeFee: number; sellerEarnings: number }> {
+  const weights = items.map(item => Math.max(toCents(item.price), 0));
+  const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+  const share = (total: number): number[] => {
+    const cents = toCents(total);
+    const exact = items.map((_, index) => (weightTotal > 0 ? (cents * weights[index]) / weightTotal : cents / items.length));
+    const floors = exact.map(Math.floor);
+    let remainder = cents - floors.reduce((sum, value) => sum + value, 0);
+    // Largest remainders get the leftover cents
+    const order = exact.map((value, index) => ({ index, fraction: value - floors[index] })).sort((a, b) => b.fraction - a.fraction);
+    for (const { index } of order) {
+      if (remainder <= 0) break;
+      floors[index]++;
+      remainder--;
+    }
+    return floors;
+  };
+  const prices = share(totals.price);
+  const fees = share(totals.stripeFee);
+  const earnings = share(totals.sellerEarnings);
+  return items.map((item, index) => ({
+    ...item,
+    price: dollars(prices[index]),
+    stripeFee: dollars(fees[index]),
+    sellerEarnings: dollars(earnings[index]),
+  }));
+}
+
+/**
+ * The lines that will be posted: zero lines dropped, and the rest checked
+ * to balance.
+ */
+export function balancedLines(lines: LedgerLine[]): LedgerLine[] {
+  const kept = lines.filter(line => line.cents !== 0);
+  for (const line of kept) {
+    if (!Number.isInteger(line.cents)) throw new LedgerError(`Ledger amounts must be whole cents (${line.account})`);
+    if (!(line.account in LEDGER_ACCOUNTS)) throw new LedgerError(`Unknown ledger account ${line.account}`);
+  }
+  const total = kept.reduce((sum, line) => sum + line.cents, 0);
+  if (total !== 0) throw new LedgerError(`Ledger transaction is unbalanced by ${dollars(total).toFixed(2)}`);
+  return kept;
+}
+
+function amountSum(account: LedgerAccount) {
+  return sql<string>`COALESCE(SUM(${ledgerEntries.amount}) FILTER (WHERE ${ledgerEntries.account} = ${account}), 0)`;
+}
+
+export class LedgerService {
+  /**
+   * Post a transaction. Returns null when the idempotency key was already
+   * posted, so callers can post from retried webhooks safely.
+   */
+  async post(posting: LedgerPosting, tx?: Transaction): Promise<LedgerTransaction | null> {
+    const lines = balancedLines(posting.lines);
+    if (lines.length === 0) return null;
+
+    const write = async (executor: Transaction) => {
+      const [created] = await executor.insert(ledgerTransactions)
+        .values({
+          kind: posting.kind,
+          reference_type: posting.referenceType ?? null,
+          reference_id: posting.referenceId ?? null,
+          description: posting.description ?? null,
+          idempotency_key: posting.idempotencyKey,
+          metadata: posting.metadata ?? null,
+        })
+        .onConflictDoNothing({ target: ledgerTransactions.idempotency_key })
+        .returning();
+      if (!created) return null;
+
+      await executor.insert(ledgerEntries).values(lines.map(line => ({
+        transaction_id: created.id,
+        account: line.account,
+        user_id: line.userId ?? null,
+        amount: dollars(line.cents).toFixed(2),
+      })));
+      return created;
+    };
+
+    const created = tx ? await write(tx) : await db.transaction(write);
+    if (!created) logger.info(`Ledger transaction ${posting.idempotencyKey} already posted`);
+    return created;
+  }
+
+  /**
+   * A creator's balances as the ledger has them. Liability accounts carry
+   * credit balances, so each is the negated sum of its entries.
+   */
+  async creatorBalance(userId: number, tx?: Transaction): Promise<DerivedCreatorBalance> {
+    const [row] = await (tx ?? db)
+      .select({
+        available: amountSum('creator_available'),
+        pending: amountSum('creator_pending'),
+        reserved: amountSum('refunds_reserve'),
+        inTransit: amountSum('payouts_in_transit'),
+      })
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.user_id, userId));
+    return {
+      available: dollars(-toCents(row?.available)),
+      pending: dollars(-toCents(row?.pending)),
+      reserved: dollars(-toCents(row?.reserved)),
+      inTransit: dollars(-toCents(row?.inTransit)),
+    };
+  }
+
+  /**
+   * Debit and credit totals per account; across the whole ledger they
+   * should net to zero.
+   */
+  async trialBalance() {
+    const rows = await db
+      .select({
+        account: ledgerEntries.account,
+        debits: sql<string>`COALESCE(SUM(${ledgerEntries.amount}) FILTER (WHERE ${ledgerEntries.amount} > 0), 0)`,
+        credits: sql<string>`COALESCE(-SUM(${ledgerEntries.amount}) FILTER (WHERE ${ledgerEntries.amount} < 0), 0)`,
+      })
+      .from(ledgerEntries)
+      .groupBy(ledgerEntries.account)
+      .orderBy(asc(ledgerEntries.account));
+
+    const accounts = rows.map(row => ({
+      account: row.account,
+      type: LEDGER_ACCOUNTS[row.account as LedgerAccount] ?? 'unknown',
+      debits: dollars(toCents(row.debits)),
+      credits: dollars(toCents(row.credits)),
+      balance: dollars(toCents(row.debits) - toCents(row.credits)),
+    }));
+    const net = accounts.reduce((sum, account) => sum + toCents(account.balance), 0);
+    return { accounts, balanced: net === 0 };
+  }
+
+  async listTransactions(filters: { userId?: number; account?: string; limit?: number } = {}) {
+    const conditions = [];
+    if (filters.userId) conditions.push(eq(ledgerEntries.user_id, filters.userId));
+    if (filters.account) conditions.push(eq(ledgerEntries.account, filters.account));
+
+    const ids = await db
+      .selectDistinct({ id: ledgerEntries.transaction_id })
+      .from(ledgerEntries)
+      .where(conditions.length > 0 ? and(...conditions) : sql`true`)
+      .orderBy(desc(ledgerEntries.transaction_id))
+      .limit(Math.min(filters.limit ?? 100, 500));
+    if (ids.length === 0) return [];
+
+    const transactionIds = ids.map(row => row.id);
+    const transactions = await db.select().from(ledgerTransactions)
+      .where(inArray(ledgerTransactions.id, transactionIds))
+      .orderBy(desc(ledgerTransactions.id));
+    const entries = await db.select().from(ledgerEntries)
+      .where(inArray(ledgerEntries.transaction_id, transactionIds))
+      .orderBy(asc(ledgerEntries.id));
+
+    const byTransaction = new Map<number, LedgerEntry[]>();
+    for (const entry of entries) {
+      byTransaction.set(entry.transaction_id, [...(byTransaction.get(entry.transaction_id) ?? []), entry]);
+    }
+    return transactions.map(transaction => ({ ...transaction, entries: byTransaction.get(transaction.id) ?? [] }));
+  }
+
+  /**
+   * Compare the ledger with the legacy columns it replaces: each creator's
+   * balances and lifetime totals, sales posted since the ledger started,
+   * and any transaction that doesn't balance.
+   */
+  async checkConsistency(): Promise<{ checkedCreators: number; drift: LedgerDrift[] }> {
+    const drift: LedgerDrift[] = [];
+    const compare = (userId: number | null, check: string, legacy: number, ledger: number) => {
+      const difference = toCents(legacy) - toCents(ledger);
+      if (difference !== 0) drift.push({ userId, check, legacy, ledger, difference: dollars(difference) });
+    };
+
+    const creatorTotals = await db
+      .select({
+        userId: ledgerEntries.user_id,
+        available: amountSum('creator_available'),
+        pending: amountSum('creator_pending'),
+        reserved: amountSum('refunds_reserve'),
+        earned: sql<string>`COALESCE(SUM(${ledgerEntries.amount}) FILTER (WHERE ${ledgerTransactions.kind} = 'sale' AND ${ledgerEntries.account} = 'creator_pending'), 0)`,
+        referred: sql<string>`COALESCE(SUM(${ledgerEntries.amount}) FILTER (WHERE ${ledgerTransactions.kind} = 'referral' AND ${ledgerEntries.account} = 'creator_pending' AND ${ledgerEntries.amount} < 0), 0)`,
+        refunded: sql<string>`COALESCE(SUM(${ledgerEntries.amount}) FILTER (WHERE ${ledgerTransactions.kind} = 'refund'), 0)`,
+        paidOut: sql<string>`COALESCE(SUM(${ledgerEntries.amount}) FILTER (WHERE ${ledgerTransactions.kind} = 'payout_paid' AND ${ledgerEntries.account} = 'payouts_in_transit'), 0)`,
+      })
+      .from(ledgerEntries)
+      .innerJoin(ledgerTransactions, eq(ledgerEntries.transaction_id, ledgerTransactions.id))
+      .where(sql`${ledgerEntries.user_id} IS NOT NULL`)
+      .groupBy(ledgerEntries.user_id);
+    const ledgerByUser = new Map(creatorTotals.map(row => [row.userId!, row]));
+
+    const openings = await db.select().from(ledgerTransactions).where(eq(ledgerTransactions.kind, 'opening_balance'));
+    const openingByUser = new Map(openings.map(opening => [opening.reference_id!, opening.metadata ?? {}]));
+
+    const legacy = await db
+      .select({ balance: creatorBalances, revenue: users.total_template_revenue })
+      .from(creatorBalances)
+      .leftJoin(users, eq(users.id, creatorBalances.user_id));
+
+    for (const { balance, revenue } of legacy) {
+      const userId = balance.user_id;
+      const totals = ledgerByUser.get(userId);
+      const opening = openingByUser.get(userId) ?? {};
+      const earned = -toCents(totals?.earned);
+
+      compare(userId, 'available_balance', parseFloat(balance.available_balance || '0'), dollars(-toCents(totals?.available)));
+      compare(userId, 'pending_balance', parseFloat(balance.pending_balance || '0'),
+        dollars(-toCents(totals?.pending) - toCents(totals?.reserved)));
+      // Referral commissions count towards lifetime earnings but aren't template revenue
+      compare(userId, 'lifetime_earnings', parseFloat(balance.lifetime_earnings || '0'),
+        dollars(toCents(opening.lifetime_earnings) + earned - toCents(totals?.referred)));
+      compare(userId, 'lifetime_payouts', parseFloat(balance.lifetime_payouts || '0'),
+        dollars(toCents(opening.lifetime_payouts) + toCents(totals?.paidOut)));
+      compare(userId, 'total_template_revenue', parseFloat(revenue || '0'),
+        dollars(toCents(opening.total_template_revenue) + earned - toCents(totals?.refunded)));
+    }
+
+    // Completed sales since the ledger started should each have a sale posting for their earnings
+    const [{ startedAt }] = await db
+      .select({ startedAt: sql<Date | null>`MIN(${ledgerTransactions.created_at})` })
+      .from(ledgerTransactions)
+      .where(sql`${ledgerTransactions.kind} <> 'opening_balance'`);
+    if (startedAt) {
+      const sales = await db
+        .select({
+          purchaseId: templatePurchases.id,
+          sellerId: templatePurchases.seller_id,
+          sellerEarnings: templatePurchases.seller_earnings,
+          posted: sql<string | null>`(
+            SELECT -SUM(e.amount) FROM ${ledgerEntries} e
+            JOIN ${ledgerTransactions} t ON t.id = e.transaction_id
+            WHERE t.idempotency_key = 'sale:' || ${templatePurchases.id} AND e.account = 'creator_pending'
+          )`,
+        })
+        .from(templatePurchases)
+        .where(and(
+          sql`${templatePurchases.purchased_at} >= ${startedAt}`,
+          sql`${templatePurchases.seller_earnings} > 0`,
+        ));
+      for (const sale of sales) {
+        compare(sale.sellerId, `purchase ${sale.purchaseId} seller_earnings`, parseFloat(sale.sellerEarnings), dollars(toCents(sale.posted)));
+      }
+    }
+
+    const unbalanced = await db
+      .select({ transactionId: ledgerEntries.transaction_id, total: sql<string>`SUM(${ledgerEntries.amount})` })
+      .from(ledgerEntries)
+      .groupBy(ledgerEntries.transaction_id)
+      .having(sql`SUM(${ledgerEntries.amount}) <> 0`);
+    for (const row of unbalanced) {
+      drift.push({ userId: null, check: `transaction ${row.transactionId} balances`, legacy: null, ledger: null, difference: dollars(toCents(row.total)) });
+    }
+
+    if (drift.length > 0) logger.warn(`Ledger consistency check found ${drift.length} differences`);
+    return { checkedCreators: legacy.length, drift };
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -0,0 +1,392 @@
+import OpenAI from 'openai';
+import type { ChatCompletionCreateParamsBase, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import {
+  JSON_INSTRUCTION,
+  LLMError,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+  LLMProviderRequest,
+  LLMResponse,
+  LLMStreamEvent,
+  LLMToolCall,
+  ToolCallAccumulator,
+} from './llmProvider';
+
+function openAIFinishReason(reason: string | null | undefined): LLMResponse['finishReason'] {
+  if (reason === 'stop' || reason === 'length' || reason === 'tool_calls') return reason;
+  return reason === 'function_call' ? 'tool_calls' : 'other';
+}
+
+function toOpenAIMessage(message: LLMMessage): ChatCompletionMessageParam {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.role === 'assistant') {
+    return {
+      role: 'assistant',
+      content: message.content,
+      ...(message.toolCalls?.length
+        ? {
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function' as const,
+              function: { name: call.name, arguments: call.arguments },
+            })),
+          }
+        : {}),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+/**
+ * OpenAI, and any server speaking the OpenAI chat completions API (Ollama,
+ * vLLM, llama.cpp, LM Studio) as the "local" provider.
+ */
+export class OpenAIProvider implements LLMProvider {
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly name: LLMProviderName,
+    readonly defaultModel: string,
+    private options: { apiKey?: string; baseURL?: string; supportsUsageInStream: boolean }
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.options.apiKey);
+  }
+
+  private getClient(): OpenAI {
+    if (!this.options.apiKey) {
+      throw new LLMError(this.name, `The ${this.name} LLM provider is not configured`);
+    }
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: this.options.apiKey, baseURL: this.options.baseURL });
+    }
+    return this.client;
+  }
+
+  private params(request: LLMProviderRequest): ChatCompletionCreateParamsBase {
+    const { toolChoice } = request;
+    return {
+      model: request.model,
+      messages: request.messages.map(toOpenAIMessage),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map(tool => ({
+              type: 'function' as const,
+              function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+            })),
+            tool_choice: typeof toolChoice === 'object'
+              ? { type: 'function' as const, function: { name: toolChoice.name } }
+              : toolChoice,
+          }
+        : {}),
+    };
+  }
+
+  private wrapError(error: any): LLMError {
+    if (error instanceof LLMError) return error;
+    return new LLMError(this.name, error?.message || 'LLM request failed', error?.status);
+  }
+
+  async chat(request: LLMProviderRequest): Promise<LLMResponse> {
+    try {
+      const response = await this.getClient().chat.completions.create({ ...this.params(request), stream: false });
+      const choice = response.choices[0];
+      return {
+        content: choice?.message?.content || '',
+        toolCalls: (choice?.message?.tool_calls || []).map(call => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments || '{}',
+        })),
+        finishReason: openAIFinishReason(choice?.finish_reason),
+        provider: this.name,
+        model: response.model || request.model,
+        usage: {
+          inputTokens: response.usage?.prompt_tokens ?? 0,
+          outputTokens: response.usage?.completion_tokens ?? 0,
+        },
+      };
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+  }
+
+  async *stream(request: LLMProviderRequest): AsyncGenerator<LLMStreamEvent> {
+    let stream;
+    try {
+      stream = await this.getClient().chat.completions.create({
+        ...this.params(request),
+        stream: true,
+        ...(this.options.supportsUsageInStream ? { stream_options: { include_usage: true } } : {}),
+      });
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+
+    const toolCalls = new ToolCallAccumulator();
+    let content = '';
+    let finishReason: LLMResponse['finishReason'] = 'other';
+    let model = request.model;
+    let usage = { inputTokens: 0, outputTokens: 0 };
+
+    try {
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+        if (chunk.usage) {
+          usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+        }
+        const choice = chunk.choices[0];
+        if (!choice) continue;
+
+        if (choice.delta?.content) {
+          content += choice.delta.content;
+          yield { type: 'text', text: choice.delta.content };
+        }
+        for (const call of choice.delta?.tool_calls || []) {
+          toolCalls.add(call.index, { id: call.id, name: call.function?.name, arguments: call.function?.arguments });
+        }
+        if (choice.finish_reason) finishReason = openAIFinishReason(choice.finish_reason);
+      }
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+
+    yield {
+      type: 'done',
+      response: { content, toolCalls: toolCalls.toArray(), finishReason, provider: this.name, model, usage },
+    };
+  }
+}
+
+type AnthropicContent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContent[];
+}
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 1024;
+
+function parseArguments(value: string): unknown {
+  try {
+    return JSON.parse(value || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function anthropicFinishReason(reason: string | null | undefined): LLMResponse['finishReason'] {
+  if (reason === 'end_turn' || reason === 'stop_sequence') return 'stop';
+  if (reason === 'max_tokens') return 'length';
+  return reason === 'tool_use' ? 'tool_calls' : 'other';
+}
+
+/**
+ * Anthropic's Messages API. System prompts move to the top-level `system`
+ * field, tool results become user turns, and JSON mode is an instruction
+ * since the API has no response format switch.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(
+    readonly defaultModel: string,
+    private options: { apiKey?: string; baseURL: string }
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.options.apiKey);
+  }
+
+  private body(request: LLMProviderRequest, stream: boolean): Record<string, unknown> {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content as string);
+    if (request.json) system.push(JSON_INSTRUCTION);
+
+    // The API wants alternating turns, so consecutive same-role turns are merged
+    const messages: AnthropicMessage[] = [];
+    for (const message of request.messages) {
+      if (message.role === 'system') continue;
+
+      let role: AnthropicMessage['role'];
+      let content: AnthropicContent[];
+      if (message.role === 'tool') {
+        role = 'user';
+        content = [{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }];
+      } else if (message.role === 'assistant') {
+        role = 'assistant';
+        content = [
+          ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+          ...(message.toolCalls || []).map(call => ({
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.name,
+            input: parseArguments(call.arguments),
+          })),
+        ];
+      } else {
+        role = 'user';
+        content = [{ type: 'text', text: message.content }];
+      }
+
+      const last = messages[messages.length - 1];
+      if (last && last.role === role) last.content.push(...content);
+      else messages.push({ role, content });
+    }
+
+    const { toolChoice } = request;
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+      messages,
+      ...(system.length ? { system: system.join('\n\n') } : {}),
+      // Anthropic's temperature range is 0-1
+      ...(request.temperature !== undefined ? { temperature: Math.min(request.temperature, 1) } : {}),
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+            ...(toolChoice
+              ? {
+                  tool_choice: typeof toolChoice === 'object'
+                    ? { type: 'tool', name: toolChoice.name }
+                    : { type: toolChoice === 'required' ? 'any' : toolChoice },
+                }
+              : {}),
+          }
+        : {}),
+      ...(stream ? { stream: true } : {}),
+    };
+  }
+
+  private async post(request: LLMProviderRequest, stream: boolean): Promise<Response> {
+    if (!this.options.apiKey) {
+      throw new LLMError(this.name, 'The anthropic LLM provider is not configured');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.options.baseURL}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': this.options.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify(this.body(request, stream)),
+      });
+    } catch (error: any) {
+      throw new LLMError(this.name, error?.message || 'LLM request failed');
+    }
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      throw new LLMError(this.name, payload?.error?.message || `Anthropic API error ${response.status}`, response.status);
+    }
+    return response;
+  }
+
+  async chat(request: LLMProviderRequest): Promise<LLMResponse> {
+    const data = await (await this.post(request, false)).json();
+    const blocks: any[] = data.content || [];
+
+    return {
+      content: blocks.filter(block => block.type === 'text').map(block => block.text).join(''),
+      toolCalls: blocks
+        .filter(block => block.type === 'tool_use')
+        .map((block): LLMToolCall => ({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) })),
+      finishReason: anthropicFinishReason(data.stop_reason),
+      provider: this.name,
+      model: data.model || request.model,
+      usage: {
+        inputTokens: data.usage?.input_tokens ?? 0,
+        outputTokens: data.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+
+  async *stream(request: LLMProviderRequest): AsyncGenerator<LLMStreamEvent> {
+    const response = await this.post(request, true);
+    if (!response.body) throw new LLMError(this.name, 'Anthropic returned an empty stream');
+
+    const toolCalls = new ToolCallAccumulator();
+    let content = '';
+    let finishReason: LLMResponse['finishReason'] = 'other';
+    let model = request.model;
+    const usage = { inputTokens: 0, outputTokens: 0 };
+
+    for await (const event of serverSentEvents(response.body)) {
+      const data = JSON.parse(event.data);
+      switch (data.type) {
+        case 'message_start':
+          model = data.message?.model || model;
+          usage.inputTokens = data.message?.usage?.input_tokens ?? 0;
+          break;
+        case 'content_block_start':
+          if (data.content_block?.type === 'tool_use') {
+            toolCalls.add(data.index, { id: data.content_block.id, name: data.content_block.name });
+          }
+          break;
+        case 'content_block_delta':
+          if (data.delta?.type === 'text_delta') {
+            content += data.delta.text;
+            yield { type: 'text', text: data.delta.text };
+          } else if (data.delta?.type === 'input_json_delta') {
+            toolCalls.add(data.index, { arguments: data.delta.partial_json });
+          }
+          break;
+        case 'message_delta':
+          finishReason = anthropicFinishReason(data.delta?.stop_reason);
+          usage.outputTokens = data.usage?.output_tokens ?? usage.outputTokens;
+          break;
+        case 'error':
+          throw new LLMError(this.name, data.error?.message || 'Anthropic stream failed');
+      }
+    }
+
+    yield {
+      type: 'done',
+      response: { content, toolCalls: toolCalls.toArray(), finishReason, provider: this.name, model, usage },
+    };
+  }
+}
+
+/**
+ * The events of a text/event-stream body.
+ */
+async function* serverSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event: string | null; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event: string | null = null;
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      if (data.length) yield { event, data: data.join('\n') };
+    }
+    if (done) return;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Provider-neutral types for LLM calls. The adapters in llmAdapters.ts and the
+ * fixture stub in llmStub.ts implement LLMProvider; features go through `llm`
+ * in llmService.ts, which picks the provider and model for them.
+ */
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'local' | 'stub';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON, as produced by the model
+}
+
+export type LLMMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON schema of the arguments
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a single JSON object
+  tools?: LLMTool[];
+  toolChoice?: 'auto' | 'none' | 'required' | { name: string };
+}
+
+export interface LLMProviderRequest extends LLMRequest {
+  model: string;
+  feature?: string; // Which feature is asking; providers may use it (the stub does)
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  content: string;
+  toolCalls: LLMToolCall[];
+  finishReason: 'stop' | 'length' | 'tool_calls' | 'other';
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+}
+
+export type LLMStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'done'; response: LLMResponse };
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  isConfigured(): boolean;
+  chat(request: LLMProviderRequest): Promise<LLMResponse>;
+  stream(request: LLMProviderRequest): AsyncGenerator<LLMStreamEvent>;
+}
+
+export class LLMError extends Error {
+  constructor(public provider: LLMProviderName, message: string, public status?: number) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+// Added to the system prompt for providers without a native JSON mode
+export const JSON_INSTRUCTION = 'Respond with a single valid JSON object and nothing else.';
+
+/**
+ * The JSON object in a model reply, without the markdown fences some models
+ * wrap it in.
+ */
+export function extractJson(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = (fenced ? fenced[1] : content).trim();
+  if (text.startsWith('{') || text.startsWith('[')) return text;
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+}
+
+/**
+ * Messages for a single prompt, with an optional system prompt.
+ */
+export function promptMessages(prompt: string, system?: string): LLMMessage[] {
+  return system
+    ? [{ role: 'system', content: system }, { role: 'user', content: prompt }]
+    : [{ role: 'user', content: prompt }];
+}
+
+/**
+ * Collects streamed tool call fragments, keyed by the provider's index.
+ */
+export class ToolCallAccumulator {
+  private calls = new Map<number, LLMToolCall>();
+
+  add(index: number, fragment: { id?: string; name?: string; arguments?: string }): void {
+    const call = this.calls.get(index) ?? { id: '', name: '', arguments: '' };
+    if (fragment.id) call.id = fragment.id;
+    if (fragment.name) call.name += fragment.name;
+    if (fragment.arguments) call.arguments += fragment.arguments;
+    this.calls.set(index, call);
+  }
+
+  toArray(): LLMToolCall[] {
+    return Array.from(this.calls.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, call]) => ({ ...call, arguments: call.arguments || '{}' }));
+  }
+}
@@ -0,0 +1,233 @@
+import { CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+import { getSetting } from './systemSettingsService';
+import { AnthropicProvider, OpenAIProvider } from './llmAdapters';
+import {
+  LLMError,
+  LLMProvider,
+  LLMProviderName,
+  LLMProviderRequest,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamEvent,
+  extractJson,
+  promptMessages,
+} from './llmProvider';
+import { DEFAULT_FIXTURES_DIR, StubProvider, recordFixture } from './llmStub';
+import { AIUsageRecord, aiUsage } from './aiUsageService';
+
+/**
+ * Everything that calls a model, so each can be given its own model with the
+ * `ai_model_<feature>` system setting.
+ */
+export const LLM_FEATURES = [
+  'assistant',      // Trip chat and questions about a trip
+  'itinerary',      // Generating and parsing itineraries
+  'suggestions',    // Activity, food, hotel, weather and budget suggestions
+  'summaries',      // Day summaries and optimization explanations
+  'translation',
+  'booking_import', // Reading forwarded booking emails
+  'content',        // Destination and SEO pages
+  'locations',      // Place lookup, geocoding and airport codes
+  'templates',      // Generated marketplace templates
+] as const;
+
+export type LLMFeature = typeof LLM_FEATURES[number];
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'local', 'stub'];
+
+export interface ModelChoice {
+  provider: LLMProvider;
+  model: string;
+}
+
+/**
+ * Quotas and usage recording around each call; `aiUsage` in the app.
+ */
+export interface LLMMeter {
+  check(feature: LLMFeature): Promise<void>;
+  record(entry: AIUsageRecord): Promise<void>;
+}
+
+export interface CompleteOptions {
+  system?: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+}
+
+/**
+ * A model setting is either "model" (on the default provider) or
+ * "provider:model", e.g. "anthropic:claude-3-5-haiku-latest" or "local:".
+ */
+export function parseModelSpec(spec: string | null | undefined): { provider: LLMProviderName | null; model: string | null } {
+  const value = (spec || '').trim();
+  const separator = value.indexOf(':');
+  if (separator !== -1) {
+    const provider = value.slice(0, separator) as LLMProviderName;
+    if (PROVIDER_NAMES.includes(provider)) {
+      return { provider, model: value.slice(separator + 1).trim() || null };
+    }
+  }
+  return { provider: null, model: value || null };
+}
+
+function providersFromEnv(): Record<LLMProviderName, LLMProvider> {
+  return {
+    openai: new OpenAIProvider('openai', CONFIG.AI_MODEL, {
+      apiKey: process.env.OPENAI_API_KEY,
+      supportsUsageInStream: true,
+    }),
+    anthropic: new AnthropicProvider(CONFIG.ANTHROPIC_MODEL, {
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      baseURL: CONFIG.ANTHROPIC_API_URL,
+    }),
+    local: new OpenAIProvider('local', CONFIG.LOCAL_LLM_MODEL, {
+      apiKey: CONFIG.LOCAL_LLM_URL ? process.env.LOCAL_LLM_API_KEY || 'local' : undefined,
+      baseURL: CONFIG.LOCAL_LLM_URL || undefined,
+      supportsUsageInStream: false,
+    }),
+    stub: new StubProvider(),
+  };
+}
+
+async function readSetting(key: string): Promise<string | null> {
+  try {
+    const value = await getSetting(key);
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+  } catch {
+    // No database (scripts, tests): fall back to the environment
+    return null;
+  }
+}
+
+/**
+ * The one way the app talks to a model. Callers name the feature; the
+ * provider and model come from system settings, then the environment.
+ */
+export class LLMService {
+  private providers: Record<LLMProviderName, LLMProvider>;
+
+  constructor(
+    providers: Partial<Record<LLMProviderName, LLMProvider>> = {},
+    private settings: (key: string) => Promise<string | null> = readSetting,
+    private meter: LLMMeter = aiUsage
+  ) {
+    this.providers = { ...providersFromEnv(), ...providers };
+  }
+
+  async resolve(feature: LLMFeature): Promise<ModelChoice> {
+    // AI_PROVIDER=stub replays fixtures everywhere, whatever the settings say
+    if (CONFIG.AI_PROVIDER === 'stub') {
+      return { provider: this.providers.stub, model: this.providers.stub.defaultModel };
+    }
+
+    const spec = parseModelSpec(
+      await this.settings(`ai_model_${feature}`) ?? await this.settings('ai_model_default')
+    );
+    const name = spec.provider ?? (await this.settings('ai_provider') || CONFIG.AI_PROVIDER) as LLMProviderName;
+    const provider = this.providers[name];
+    if (!provider) {
+      throw new LLMError('openai', `Unknown LLM provider "${name}"`);
+    }
+    return { provider, model: spec.model || provider.defaultModel };
+  }
+
+  /**
+   * Whether the feature's provider has credentials. Callers with a non-AI
+   * fallback check this first instead of handling the error.
+   */
+  async isAvailable(feature: LLMFeature): Promise<boolean> {
+    try {
+      return (await this.resolve(feature)).provider.isConfigured();
+    } catch {
+      return false;
+    }
+  }
+
+  private async prepare(feature: LLMFeature, request: LLMRequest): Promise<{ provider: LLMProvider; request: LLMProviderRequest }> {
+    const { provider, model } = await this.resolve(feature);
+    if (!provider.isConfigured()) {
+      throw new LLMError(provider.name, `The ${provider.name} LLM provider is not configured`);
+    }
+    await this.meter.check(feature);
+    return { provider, request: { ...request, model, feature } };
+  }
+
+  private meterCall(feature: LLMFeature, prepared: { provider: LLMProvider; request: LLMProviderRequest }, startedAt: number, response?: LLMResponse) {
+    return this.meter.record({
+      feature,
+      provider: prepared.provider.name,
+      model: response?.model || prepared.request.model,
+      usage: response?.usage,
+      latencyMs: Date.now() - startedAt,
+      success: !!response,
+    });
+  }
+
+  private async record(provider: LLMProvider, request: LLMProviderRequest, response: LLMResponse): Promise<void> {
+    if (process.env.LLM_RECORD_FIXTURES !== 'true' || provider.name === 'stub') return;
+    try {
+      await recordFixture(process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR, request, response);
+    } catch (error) {
+      logger.warn('Could not record LLM fixture', { feature: request.feature, error });
+    }
+  }
+
+  async chat(feature: LLMFeature, request: LLMRequest): Promise<LLMResponse> {
+    const prepared = await this.prepare(feature, request);
+    const startedAt = Date.now();
+    let response: LLMResponse;
+    try {
+      response = await prepared.provider.chat(prepared.request);
+    } catch (error) {
+      await this.meterCall(feature, prepared, startedAt);
+      throw error;
+    }
+    await this.meterCall(feature, prepared, startedAt, response);
+    await this.record(prepared.provider, prepared.request, response);
+    return request.json ? { ...response, content: extractJson(response.content) } : response;
+  }
+
+  /**
+   * A JSON-mode chat, parsed. Throws when the reply isn't valid JSON.
+   */
+  async json<T = any>(feature: LLMFeature, request: Omit<LLMRequest, 'json'>): Promise<T> {
+    const response = await this.chat(feature, { ...request, json: true });
+    try {
+      return JSON.parse(response.content || '{}') as T;
+    } catch {
+      throw new LLMError(response.provider, `The model returned invalid JSON for ${feature}`);
+    }
+  }
+
+  /**
+   * A single prompt, returning the reply text.
+   */
+  async complete(feature: LLMFeature, prompt: string, options: CompleteOptions = {}): Promise<string> {
+    const { system, ...rest } = options;
+    const response = await this.chat(feature, { messages: promptMessages(prompt, system), ...rest });
+    return response.content;
+  }
+
+  async *stream(feature: LLMFeature, request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    const prepared = await this.prepare(feature, request);
+    const startedAt = Date.now();
+    let finished = false;
+    try {
+      for await (const event of prepared.provider.stream(prepared.request)) {
+        if (event.type === 'done') {
+          finished = true;
+          await this.meterCall(feature, prepared, startedAt, event.response);
+          await this.record(prepared.provider, prepared.request, event.response);
+        }
+        yield event;
+      }
+    } finally {
+      // Failed, or abandoned by the caller before the end
+      if (!finished) await this.meterCall(feature, prepared, startedAt);
+    }
+  }
+}
+
+export const llm = new LLMService();
@@ -0,0 +1,155 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  LLMProvider,
+  LLMProviderRequest,
+  LLMResponse,
+  LLMStreamEvent,
+  LLMToolCall,
+} from './llmProvider';
+
+/**
+ * A provider that replays recorded responses, so the AI features can run and
+ * be tested without an API key or a network connection. Select it with
+ * AI_PROVIDER=stub.
+ *
+ * Fixtures are JSON files named after the feature (`itinerary.json`) in
+ * LLM_FIXTURES_DIR, each an array of entries:
+ *
+ *   { "key": "…", "response": { "content": "…" } }           recorded, exact request
+ *   { "match": "Day 2", "response": { "toolCalls": [...] } }  last message contains "Day 2"
+ *   { "response": { "content": "{}" } }                      anything else for the feature
+ *
+ * Set LLM_RECORD_FIXTURES=true while using a real provider to record entries.
+ */
+
+export interface LLMFixture {
+  key?: string;
+  match?: string;
+  response: {
+    content?: string;
+    toolCalls?: LLMToolCall[];
+  };
+}
+
+export const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'tests', 'fixtures', 'llm');
+
+/**
+ * A stable key for a request. The model and sampling settings are left out so
+ * fixtures recorded with one model replay under another.
+ */
+export function fixtureKey(request: LLMProviderRequest): string {
+  const canonical = JSON.stringify({
+    messages: request.messages,
+    json: Boolean(request.json),
+    tools: (request.tools || []).map(tool => tool.name),
+    toolChoice: request.toolChoice ?? null,
+  });
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 16);
+}
+
+function fixturePath(dir: string, feature: string | undefined): string {
+  return path.join(dir, `${(feature || 'default').replace(/[^a-z0-9_-]/gi, '_')}.json`);
+}
+
+function lastMessageText(request: LLMProviderRequest): string {
+  const last = request.messages[request.messages.length - 1];
+  return last?.content || '';
+}
+
+// Rough token count for replayed usage: about four characters per token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub' as const;
+  readonly defaultModel = 'stub';
+  private fixtures = new Map<string, LLMFixture[]>();
+
+  constructor(private dir: string = process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private async load(feature: string | undefined): Promise<LLMFixture[]> {
+    const file = fixturePath(this.dir, feature);
+    let fixtures = this.fixtures.get(file);
+    if (!fixtures) {
+      try {
+        fixtures = JSON.parse(await fs.readFile(file, 'utf8')) as LLMFixture[];
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+        fixtures = [];
+      }
+      this.fixtures.set(file, fixtures);
+    }
+    return fixtures;
+  }
+
+  private fallback(request: LLMProviderRequest): LLMFixture['response'] {
+    if (request.json) return { content: '{}' };
+    return { content: `[stub ${request.feature || 'default'}] ${lastMessageText(request).trim().slice(0, 80)}` };
+  }
+
+  async chat(request: LLMProviderRequest): Promise<LLMResponse> {
+    const fixtures = await this.load(request.feature);
+    const key = fixtureKey(request);
+    const text = lastMessageText(request);
+
+    const fixture = fixtures.find(f => f.key === key)
+      ?? fixtures.find(f => !f.key && f.match && text.includes(f.match))
+      ?? fixtures.find(f => !f.key && !f.match);
+    const { content = '', toolCalls = [] } = fixture ? fixture.response : this.fallback(request);
+
+    return {
+      content,
+      toolCalls,
+      finishReason: toolCalls.length ? 'tool_calls' : 'stop',
+      provider: this.name,
+      model: request.model,
+      usage: {
+        inputTokens: estimateTokens(request.messages.map(m => m.content || '').join('\n')),
+        outputTokens: estimateTokens(content),
+      },
+    };
+  }
+
+  async *stream(request: LLMProviderRequest): AsyncGenerator<LLMStreamEvent> {
+    const response = await this.chat(request);
+    for (const piece of response.content.match(/\S+\s*|\s+/g) || []) {
+      yield { type: 'text', text: piece };
+    }
+    yield { type: 'done', response };
+  }
+}
+
+/**
+ * Append a real response to the feature's fixture file.
+ */
+export async function recordFixture(dir: string, request: LLMProviderRequest, response: LLMResponse): Promise<void> {
+  const file = fixturePath(dir, request.feature);
+  let fixtures: LLMFixture[] = [];
+  try {
+    fixtures = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+
+  const key = fixtureKey(request);
+  const entry: LLMFixture = {
+    key,
+    response: {
+      content: response.content,
+      ...(response.toolCalls.length ? { toolCalls: response.toolCalls } : {}),
+    },
+  };
+  const existing = fixtures.findIndex(f => f.key === key);
+  if (existing === -1) fixtures.push(entry);
+  else fixtures[existing] = entry;
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(file, JSON.stringify(fixtures, null, 2) + '\n');
+}
@@ -0,0 +1,354 @@
+import { z } from 'zod';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../db-connection';
+import { offlineMutations, Note, Todo } from '@shared/schema';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { collaborationService, operationSchema } from './collaborationService';
+import { tripHistoryService, updateChange } from './tripHistoryService';
+import { tripJournalService } from './tripJournalService';
+import { tripPhotoService } from './tripPhotoService';
+
+/**
+ * Offline Travel Mode sync.
+ *
+ * The client keeps a copy of the trip (the bundle below) in IndexedDB and
+ * queues edits made without a connection. When it reconnects it replays the
+ * queue here, in order. Each queued entry carries a client id, so a replay
+ * interrupted half way can simply be sent again: entries already handled
+ * return their stored result.
+ *
+ * Edits carry the values the client based them on. A field someone else
+ * changed in the meantime is a conflict and the edit is not applied; the
+ * client gets the current row back and lets the traveller decide. Activity
+ * edits go through the collaboration pipeline and its version check.
+ */
+
+const clientId = z.string().min(1).max(64);
+
+export const offlineMutationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('activity'), client_id: clientId, operation: operationSchema }),
+  z.object({ type: z.literal('create_note'), client_id: clientId, content: z.string().min(1) }),
+  z.object({
+    type: z.literal('update_note'),
+    client_id: clientId,
+    note_id: z.number().int(),
+    base: z.object({ content: z.string() }),
+    content: z.string().min(1),
+  }),
+  z.object({ type: z.literal('delete_note'), client_id: clientId, note_id: z.number().int() }),
+  z.object({ type: z.literal('create_todo'), client_id: clientId, content: z.string().min(1), is_completed: z.boolean().optional() }),
+  z.object({
+    type: z.literal('update_todo'),
+    client_id: clientId,
+    todo_id: z.number().int(),
+    base: z.object({ content: z.string().optional(), is_completed: z.boolean().optional() }),
+    fields: z.object({ content: z.string().min(1).optional(), is_completed: z.boolean().optional() }),
+  }),
+  z.object({ type: z.literal('delete_todo'), client_id: clientId, todo_id: z.number().int() }),
+  z.object({
+    type: z.literal('check_in'),
+    client_id: clientId,
+    activity_id: z.number().int(),
+    checked_in_at: z.string().datetime(),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional(),
+    note: z.string().max(1000).optional(),
+    utc_offset_minutes: z.number().int().min(-840).max(840).optional(),
+  }),
+  z.object({
+    type: z.literal('check_in_note'),
+    client_id: clientId,
+    activity_id: z.number().int(),
+    note: z.string().max(1000),
+  }),
+  z.object({ type: z.literal('undo_check_in'), client_id: clientId, activity_id: z.number().int() }),
+]);
+
+export type OfflineMutation = z.infer<typeof offlineMutationSchema>;
+
+export const syncRequestSchema = z.object({
+  mutations: z.array(offlineMutationSchema).max(500),
+});
+
+export interface MutationResult {
+  client_id: string;
+  status: 'applied' | 'conflict' | 'rejected';
+  entity?: Record<string, any> | null; // Row after the mutation, or the current row on conflict
+  conflicts?: Array<{ field: string; attempted: any; current: any }>;
+  reason?: string;
+}
+
+export interface Bounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+const WRITE_MUTATIONS = new Set<OfflineMutation['type']>([
+  'activity', 'create_note', 'update_note', 'delete_note', 'create_todo', 'update_todo', 'delete_todo',
+]);
+
+function sameValue(a: any, b: any): boolean {
+  return (a ?? null) === (b ?? null);
+}
+
+/**
+ * Fields whose server value moved away from what the client started from,
+ * to something other than what the client wants. A field both sides changed
+ * to the same value is not a conflict.
+ */
+export function fieldConflicts(
+  base: Record<string, any>,
+  attempted: Record<string, any>,
+  current: Record<string, any>
+): Array<{ field: string; attempted: any; current: any }> {
+  return Object.keys(attempted)
+    .filter(field => field in base && !sameValue(current[field], base[field]) && !sameValue(current[field], attempted[field]))
+    .map(field => ({ field, attempted: attempted[field], current: current[field] ?? null }));
+}
+
+/**
+ * Box around the trip's places, padded so the surrounding streets are
+ * included when map tiles are cached. Null with no coordinates.
+ */
+export function tripBounds(points: Array<{ latitude: number; longitude: number }>, paddingKm = 2): Bounds | null {
+  const valid = points.filter(p => Number.isFinite(p.latitude) && Number.isFinite(p.longitude) && !(p.latitude === 0 && p.longitude === 0));
+  if (valid.length === 0) return null;
+
+  const lats = valid.map(p => p.latitude);
+  const lngs = valid.map(p => p.longitude);
+  const latPad = paddingKm / 111;
+  const midLat = (Math.max(...lats) + Math.min(...lats)) / 2;
+  const lngPad = paddingKm / (111 * Math.max(Math.cos(midLat * Math.PI / 180), 0.01));
+
+  return {
+    north: Math.min(Math.max(...lats) + latPad, 85),
+    south: Math.max(Math.min(...lats) - latPad, -85),
+    east: Math.min(Math.max(...lngs) + lngPad, 180),
+    west: Math.max(Math.min(...lngs) - lngPad, -180),
+  };
+}
+
+function toPoint(latitude: unknown, longitude: unknown) {
+  return { latitude: parseFloat(String(latitude)), longitude: parseFloat(String(longitude)) };
+}
+
+export class OfflineSyncService {
+  /**
+   * Everything Travel Mode needs to work without a connection.
+   */
+  async getBundle(tripId: number) {
+    const trip = await storage.getTrip(tripId);
+    if (!trip) return null;
+
+    const [tripActivities, tripNotes, tripTodos, checkins, photos, revision] = await Promise.all([
+      storage.getActivitiesByTripId(tripId),
+      storage.getNotesByTripId(tripId),
+      storage.getTodosByTripId(tripId),
+      tripJournalService.getCheckins(tripId),
+      tripPhotoService.getPhotosForTrip(tripId),
+      collaborationService.getRevision(tripId),
+    ]);
+
+    const points = [
+      toPoint(trip.city_latitude, trip.city_longitude),
+      toPoint(trip.hotel_latitude, trip.hotel_longitude),
+      ...tripActivities.map(a => toPoint(a.latitude, a.longitude)),
+    ];
+
+    return {
+      trip,
+      activities: tripActivities,
+      notes: tripNotes,
+      todos: tripTodos,
+      checkins,
+      photos,
+      revision,
+      bounds: tripBounds(points),
+      synced_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Replay a client's queue in order. Viewers can only check in.
+   */
+  async sync(
+    tripId: number,
+    userId: number,
+    access: 'owner' | 'editor' | 'viewer',
+    mutations: OfflineMutation[]
+  ): Promise<MutationResult[]> {
+    const results: MutationResult[] = [];
+
+    for (const mutation of mutations) {
+      const [replayed] = await db
+        .select()
+        .from(offlineMutations)
+        .where(and(eq(offlineMutations.user_id, userId), eq(offlineMutations.client_id, mutation.client_id)))
+        .limit(1);
+      if (replayed) {
+        results.push({ client_id: mutation.client_id, ...(replayed.result as Omit<MutationResult, 'client_id'>) });
+        continue;
+      }
+
+      let result: MutationResult;
+      if (access === 'viewer' && WRITE_MUTATIONS.has(mutation.type)) {
+        result = { client_id: mutation.client_id, status: 'rejected', reason: 'Read-only access to this trip' };
+      } else {
+        try {
+          result = await this.apply(tripId, userId, mutation);
+        } catch (error) {
+          // Leave it unrecorded so the next sync retries it
+          logger.error('Offline mutation failed', { tripId, clientId: mutation.client_id, type: mutation.type, error });
+          results.push({ client_id: mutation.client_id, status: 'rejected', reason: 'Server error, will retry' });
+          continue;
+        }
+      }
+
+      const { client_id, ...stored } = result;
+      await db
+        .insert(offlineMutations)
+        .values({ user_id: userId, trip_id: tripId, client_id, type: mutation.type, status: result.status, result: stored })
+        .onConflictDoNothing();
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  private async apply(tripId: number, userId: number, mutation: OfflineMutation): Promise<MutationResult> {
+    const id = mutation.client_id;
+
+    switch (mutation.type) {
+      case 'activity': {
+        const outcome = await collaborationService.applyOperation(tripId, userId, mutation.operation, {
+          opId: id,
+          rejectOnConflict: true,
+        });
+        if (outcome.status === 'rejected') {
+          return outcome.conflicts.length > 0
+            ? { client_id: id, status: 'conflict', entity: outcome.current, conflicts: outcome.conflicts, reason: outcome.reason }
+            : { client_id: id, status: 'rejected', reason: outcome.reason };
+        }
+        return { client_id: id, status: 'applied', entity: outcome.current ?? null };
+      }
+
+      case 'create_note': {
+        const note = await storage.createNote({ trip_id: tripId, content: mutation.content, created_by: userId });
+        await tripHistoryService.recordChanges(tripId, userId, { source: 'user' }, [
+          { entity_type: 'note', entity_id: note.id, action: 'create', after: note },
+        ]);
+        return { client_id: id, status: 'applied', entity: note };
+      }
+
+      case 'update_note': {
+        const current = await storage.getNote(mutation.note_id);
+        if (!current || current.trip_id !== tripId) {
+          return { client_id: id, status: 'rejected', reason: 'Note was deleted' };
+        }
+        const conflicts = fieldConflicts(mutation.base, { content: mutation.content }, current);
+        if (conflicts.length > 0) {
+          return { client_id: id, status: 'conflict', entity: current, conflicts, reason: 'Note was changed by someone else' };
+        }
+        const note = await storage.updateNote(current.id, { content: mutation.content });
+        await this.recordUpdate('note', tripId, userId, current, note);
+        return { client_id: id, status: 'applied', entity: note };
+      }
+
+      case 'delete_note': {
+        const current = await storage.getNote(mutation.note_id);
+        // Deletes win; one that already happened is fine
+        if (current && current.trip_id === tripId) {
+          await storage.deleteNote(current.id);
+          await tripHistoryService.recordChanges(tripId, userId, { source: 'user' }, [
+            { entity_type: 'note', entity_id: current.id, action: 'delete', before: current },
+          ]);
+        }
+        return { client_id: id, status: 'applied', entity: null };
+      }
+
+      case 'create_todo': {
+        const todo = await storage.createTodo({ trip_id: tripId, content: mutation.content, is_completed: mutation.is_completed });
+        await tripHistoryService.recordChanges(tripId, userId, { source: 'user' }, [
+          { entity_type: 'todo', entity_id: todo.id, action: 'create', after: todo },
+        ]);
+        return { client_id: id, status: 'applied', entity: todo };
+      }
+
+      case 'update_todo': {
+        const current = await storage.getTodo(mutation.todo_id);
+        if (!current || current.trip_id !== tripId) {
+          return { client_id: id, status: 'rejected', reason: 'Todo was deleted' };
+        }
+        const conflicts = fieldConflicts(mutation.base, mutation.fields, current);
+        if (conflicts.length > 0) {
+          return { client_id: id, status: 'conflict', entity: current, conflicts, reason: 'Todo was changed by someone else' };
+        }
+        const updates: Partial<Todo> = { ...mutation.fields };
+        if (mutation.fields.is_completed !== undefined) {
+          updates.completed_at = mutation.fields.is_completed ? new Date() : null;
+        }
+        const todo = await storage.updateTodo(current.id, updates);
+        await this.recordUpdate('todo', tripId, userId, current, todo);
+        return { client_id: id, status: 'applied', entity: todo };
+      }
+
+      case 'delete_todo': {
+        const current = await storage.getTodo(mutation.todo_id);
+        if (current && current.trip_id === tripId) {
+          await storage.deleteTodo(current.id);
+          await tripHistoryService.recordChanges(tripId, userId, { source: 'user' }, [
+            { entity_type: 'todo', entity_id: current.id, action: 'delete', before: current },
+          ]);
+        }
+        return { client_id: id, status: 'applied', entity: null };
+      }
+
+      case 'check_in': {
+        const activity = await storage.getActivity(mutation.activity_id);
+        if (!activity || activity.trip_id !== tripId) {
+          return { client_id: id, status: 'rejected', reason: 'Activity no longer exists' };
+        }
+        const { checkin } = await tripJournalService.recordCheckin(tripId, activity.id, userId, {
+          checked_in_at: new Date(mutation.checked_in_at),
+          latitude: mutation.latitude,
+          longitude: mutation.longitude,
+          note: mutation.note,
+          utc_offset_minutes: mutation.utc_offset_minutes,
+          client_id: id,
+        });
+        return { client_id: id, status: 'applied', entity: checkin };
+      }
+
+      case 'check_in_note': {
+        const checkin = await tripJournalService.updateNoteForActivity(tripId, mutation.activity_id, userId, mutation.note);
+        if (!checkin) {
+          return { client_id: id, status: 'rejected', reason: 'Not checked in at this activity' };
+        }
+        return { client_id: id, status: 'applied', entity: checkin };
+      }
+
+      case 'undo_check_in': {
+        await tripJournalService.undoCheckin(tripId, mutation.activity_id, userId);
+        return { client_id: id, status: 'applied', entity: null };
+      }
+    }
+  }
+
+  private async recordUpdate(
+    entityType: 'note' | 'todo',
+    tripId: number,
+    userId: number,
+    before: Note | Todo,
+    after: Note | Todo | undefined
+  ) {
+    const change = after ? updateChange(entityType, before.id, before, after) : null;
+    if (change) {
+      await tripHistoryService.recordChanges(tripId, userId, { source: 'user' }, [change]);
+    }
+  }
+}
+
+export const offlineSyncService = new OfflineSyncService();
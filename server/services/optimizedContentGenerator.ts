@@ -2,7 +2,7 @@
  * Optimized Content Generator - Generates content in parallel chunks for speed
  */
 
-import { callOpenAI } from '../openai';
+import { llm } from './llmService';
 import { logger } from '../utils/logger';
 import { unsplashService } from './unsplashService';
 
@@ -37,11 +37,10 @@ export class OptimizedContentGenerator {
     }`;
 
     try {
-      const response = await callOpenAI(prompt, {
+      const response = await llm.complete('content', prompt, {
         temperature: 0.7,
-        max_tokens: 400,
-        model: 'gpt-3.5-turbo', // Faster model for simple content
-        response_format: { type: "json_object" }
+        maxTokens: 400,
+        json: true
       });
       return JSON.parse(response);
     } catch (error) {
@@ -70,10 +69,9 @@ export class OptimizedContentGenerator {
     const prompt = `List 6 famous attractions in ${destination}. Return a JSON array of strings, each being a specific landmark or place name. Example: ["Eiffel Tower", "Louvre Museum"]`;
 
     try {
-      const response = await callOpenAI(prompt, {
+      const response = await llm.complete('content', prompt, {
         temperature: 0.5,
-        max_tokens: 200,
-        model: 'gpt-3.5-turbo'
+        maxTokens: 200
       });
       return JSON.parse(response);
     } catch (error) {
@@ -89,10 +87,9 @@ export class OptimizedContentGenerator {
     const prompt = `Write 2 paragraphs about ${destination} covering its character, culture, and what makes it unique. Be specific and engaging.`;
 
     try {
-      const response = await callOpenAI(prompt, {
+      const response = await llm.complete('content', prompt, {
         temperature: 0.7,
-        max_tokens: 400,
-        model: 'gpt-3.5-turbo'
+        maxTokens: 400
       });
       return response;
     } catch (error) {
@@ -114,11 +111,10 @@ export class OptimizedContentGenerator {
     }`;
 
     try {
-      const response = await callOpenAI(prompt, {
+      const response = await llm.complete('content', prompt, {
         temperature: 0.6,
-        max_tokens: 400,
-        model: 'gpt-3.5-turbo',
-        response_format: { type: "json_object" }
+        maxTokens: 400,
+        json: true
       });
       return JSON.parse(response);
     } catch (error) {
@@ -200,11 +196,10 @@ export class OptimizedContentGenerator {
     IMPORTANT: Replace all text in square brackets with REAL, SPECIFIC information about ${destination}. Do NOT return placeholder text or instructions as the answer.`;
 
     try {
-      const response = await callOpenAI(prompt, {
+      const response = await llm.complete('content', prompt, {
         temperature: 0.7,
-        max_tokens: 800,
-        model: 'gpt-3.5-turbo',
-        response_format: { type: "json_object" }
+        maxTokens: 800,
+        json: true
       });
 
       const parsed = JSON.parse(response);
@@ -12,6 +12,7 @@ interface RealPlace {
   cuisine?: string;
   tourism?: string;
   amenity?: string;
+  opening_hours?: string; // Raw OSM opening_hours value
 }
 
 interface PlaceCollection {
@@ -198,6 +199,7 @@ function categorizePlaces(elements: any[]): PlaceCollection {
     };
     
     if (!place.lat || !place.lon) continue;
+    if (element.tags.opening_hours) place.opening_hours = element.tags.opening_hours;
     
     // Categorize based on tags
     if (element.tags.amenity === 'restaurant') {
@@ -10,6 +10,7 @@ interface RealPlace {
   cuisine?: string;
   tourism?: string;
   amenity?: string;
+  opening_hours?: string; // Raw OSM opening_hours value
 }
 
 interface CachedPlaces {
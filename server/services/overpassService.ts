@@ -14,6 +14,7 @@ interface Place {
   cuisine?: string;
   tourism?: string;
   amenity?: string;
+  opening_hours?: string; // Raw OSM opening_hours value
 }
 
 /**
@@ -119,7 +120,8 @@ export async function findRealPlaces(
           address: formatAddress(element.tags),
           cuisine: element.tags.cuisine,
           tourism: element.tags.tourism,
-          amenity: element.tags.amenity
+          amenity: element.tags.amenity,
+          opening_hours: element.tags.opening_hours
         });
       }
 
@@ -0,0 +1,285 @@
+/**
+ * Payout batch files and the results imported back from them. Pure: the
+ * payout service loads the payouts and stores what these build.
+ *
+ *   paypalMassPayCsv - PayPal mass payment upload (email, amount, currency,
+ *                      reference, note; no header row)
+ *   nachaFile        - NACHA PPD credit file for the bank, one entry per payout
+ *   parseReconciliationFile - a CSV of results keyed by payout reference
+ */
+
+export interface PaypalPayoutLine {
+  payoutId: number;
+  email: string;
+  amount: number;
+  currency: string;
+}
+
+export interface BankPayoutLine {
+  payoutId: number;
+  accountHolder: string;
+  routingNumber: string;
+  accountNumber: string;
+  accountType: 'checking' | 'savings';
+  amount: number;
+}
+
+export interface NachaConfig {
+  immediateDestination: string; // The bank's 9-digit routing number
+  immediateDestinationName: string;
+  immediateOrigin: string; // Usually the company's 10-digit tax id
+  companyName: string;
+  companyId: string;
+  originatingDfi: string; // First 8 digits of the bank's routing number
+}
+
+export type ReconciliationOutcome = 'paid' | 'failed';
+
+export interface ReconciliationResult {
+  payoutId: number;
+  outcome: ReconciliationOutcome;
+  transactionId: string | null;
+  reason: string | null;
+}
+
+const NACHA_RECORD_LENGTH = 94;
+const NACHA_BLOCKING_FACTOR = 10;
+
+const PAID_STATUSES = ['paid', 'completed', 'complete', 'success', 'succeeded', 'processed', 'settled'];
+const FAILED_STATUSES = ['failed', 'returned', 'denied', 'blocked', 'rejected', 'reversed', 'refunded', 'canceled', 'cancelled'];
+
+// Header names providers use for each column, lowercased without punctuation
+const REFERENCE_COLUMNS = ['reference', 'referenceid', 'uniqueid', 'customid', 'payoutid', 'individualid'];
+const STATUS_COLUMNS = ['status', 'transactionstatus', 'result'];
+const TRANSACTION_COLUMNS = ['transactionid', 'paypaltransactionid', 'transactionnumber', 'tracenumber', 'traceid'];
+const REASON_COLUMNS = ['reason', 'failurereason', 'returnreason', 'returncode'];
+
+/**
+ * The reference a payout goes out under, and comes back with in results.
+ */
+export function payoutReference(payoutId: number): string {
+  return `payout-${payoutId}`;
+}
+
+export function parsePayoutReference(value: string): number | null {
+  const match = value.trim().match(/^(?:payout-?)?(\d+)$/i);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * ABA routing number checksum.
+ */
+export function isValidRoutingNumber(value: string): boolean {
+  if (!/^\d{9}$/.test(value)) return false;
+  const d = value.split('').map(Number);
+  const sum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+  return sum % 10 === 0;
+}
+
+export function maskAccountNumber(accountNumber: string): string {
+  return `****${accountNumber.slice(-4)}`;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function paypalMassPayCsv(lines: PaypalPayoutLine[]): string {
+  return lines
+    .map(line => [
+      line.email,
+      (toCents(line.amount) / 100).toFixed(2),
+      line.currency.toUpperCase(),
+      payoutReference(line.payoutId),
+      'Remvana creator payout',
+    ].map(csvField).join(','))
+    .join('\n') + '\n';
+}
+
+// NACHA fields are fixed width: text left-justified in upper case, numbers
+// right-justified with zeros
+function alpha(value: string, length: number): string {
+  return value.toUpperCase().replace(/[^A-Z0-9 .\-&]/g, '').substring(0, length).padEnd(length, ' ');
+}
+
+function numeric(value: number | string, length: number): string {
+  return String(value).replace(/\D/g, '').slice(-length).padStart(length, '0');
+}
+
+function yymmdd(date: Date): string {
+  return date.toISOString().slice(2, 10).replace(/-/g, '');
+}
+
+function record(...fields: string[]): string {
+  const line = fields.join('');
+  if (line.length !== NACHA_RECORD_LENGTH) {
+    throw new Error(`NACHA record is ${line.length} characters, expected ${NACHA_RECORD_LENGTH}`);
+  }
+  return line;
+}
+
+/**
+ * A single-batch NACHA file crediting each payout's bank account. The
+ * effective date is the next day; the bank settles from the originator's
+ * account, so the file only holds credits.
+ */
+export function nachaFile(lines: BankPayoutLine[], config: NachaConfig, createdAt: Date = new Date()): string {
+  const effective = new Date(createdAt.getTime() + 24 * 60 * 60 * 1000);
+  const batchNumber = numeric(1, 7);
+  const serviceClass = '220'; // Credits only
+
+  const entries = lines.map((line, index) => record(
+    '6',
+    line.accountType === 'savings' ? '32' : '22',
+    line.routingNumber.substring(0, 8),
+    line.routingNumber.substring(8, 9),
+    line.accountNumber.replace(/\s/g, '').substring(0, 17).padEnd(17, ' '),
+    numeric(toCents(line.amount), 10),
+    alpha(`PAYOUT${line.payoutId}`, 15),
+    alpha(line.accountHolder, 22),
+    '  ',
+    '0',
+    numeric(config.originatingDfi, 8) + numeric(index + 1, 7),
+  ));
+
+  const entryHash = numeric(lines.reduce((sum, line) => sum + Number(line.routingNumber.substring(0, 8)), 0), 10);
+  const totalCredit = numeric(lines.reduce((sum, line) => sum + toCents(line.amount), 0), 12);
+
+  const records = [
+    record(
+      '1', '01',
+      ' ' + numeric(config.immediateDestination, 9),
+      config.immediateOrigin.padStart(10, ' ').substring(0, 10),
+      yymmdd(createdAt),
+      createdAt.toISOString().slice(11, 16).replace(':', ''),
+      'A', '094', String(NACHA_BLOCKING_FACTOR), '1',
+      alpha(config.immediateDestinationName, 23),
+      alpha(config.companyName, 23),
+      ' '.repeat(8),
+    ),
+    record(
+      '5', serviceClass,
+      alpha(config.companyName, 16),
+      ' '.repeat(20),
+      config.companyId.padEnd(10, ' ').substring(0, 10),
+      'PPD',
+      alpha('PAYOUT', 10),
+      yymmdd(createdAt),
+      yymmdd(effective),
+      '   ', '1',
+      numeric(config.originatingDfi, 8),
+      batchNumber,
+    ),
+    ...entries,
+    record(
+      '8', serviceClass,
+      numeric(entries.length, 6),
+      entryHash,
+      numeric(0, 12),
+      totalCredit,
+      config.companyId.padEnd(10, ' ').substring(0, 10),
+      ' '.repeat(19), ' '.repeat(6),
+      numeric(config.originatingDfi, 8),
+      batchNumber,
+    ),
+  ];
+
+  const blockCount = Math.ceil((records.length + 1) / NACHA_BLOCKING_FACTOR);
+  records.push(record(
+    '9',
+    numeric(1, 6),
+    numeric(blockCount, 6),
+    numeric(entries.length, 8),
+    entryHash,
+    numeric(0, 12),
+    totalCredit,
+    ' '.repeat(39),
+  ));
+
+  // Pad the last block with all-nines filler records
+  while (records.length % NACHA_BLOCKING_FACTOR !== 0) {
+    records.push('9'.repeat(NACHA_RECORD_LENGTH));
+  }
+
+  return records.join('\n') + '\n';
+}
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Results from a provider's payout report. Needs a header row naming a
+ * reference column (the payout-<id> each payout was sent with) and a status
+ * column; transaction id and failure reason columns are read when present.
+ * Rows still in progress (pending, unclaimed) are left out.
+ */
+export function parseReconciliationFile(text: string): { results: ReconciliationResult[]; errors: string[] } {
+  const results: ReconciliationResult[] = [];
+  const errors: string[] = [];
+  const lines = text.split(/\r?\n/).filter(line => line.trim() && !line.trim().startsWith('#'));
+  if (lines.length === 0) return { results, errors: ['File is empty'] };
+
+  const header = splitCsvLine(lines[0]).map(name => name.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const column = (names: string[]) => header.findIndex(name => names.includes(name));
+  const referenceColumn = column(REFERENCE_COLUMNS);
+  const statusColumn = column(STATUS_COLUMNS);
+  const transactionColumn = column(TRANSACTION_COLUMNS);
+  const reasonColumn = column(REASON_COLUMNS);
+
+  if (referenceColumn === -1 || statusColumn === -1) {
+    return { results, errors: ['Header row needs a reference column and a status column'] };
+  }
+
+  lines.slice(1).forEach((line, index) => {
+    const fields = splitCsvLine(line);
+    const payoutId = parsePayoutReference(fields[referenceColumn] || '');
+    if (payoutId === null) {
+      errors.push(`Line ${index + 2}: unrecognised reference "${fields[referenceColumn] || ''}"`);
+      return;
+    }
+
+    const status = (fields[statusColumn] || '').toLowerCase();
+    const outcome: ReconciliationOutcome | null = PAID_STATUSES.includes(status)
+      ? 'paid'
+      : FAILED_STATUSES.includes(status) ? 'failed' : null;
+    if (!outcome) return;
+
+    results.push({
+      payoutId,
+      outcome,
+      transactionId: (transactionColumn !== -1 && fields[transactionColumn]) || null,
+      reason: (reasonColumn !== -1 && fields[reasonColumn]) || (outcome === 'failed' ? status : null),
+    });
+  });
+
+  return { results, errors };
+}
@@ -0,0 +1,250 @@
+import { logger } from '../utils/logger';
+import { createLRUCache } from '../utils/lruCache';
+import { nameSimilarity } from '../utils/placeNames';
+import { geocodingService } from './geocodingService';
+import { haversineKm } from './itineraryOptimizationService';
+import { batchFetchAndCache } from './osmBatchFetch';
+import { geocodePlace } from './overpassService';
+
+/**
+ * Checks that the places AI features suggest exist. Each place is looked up
+ * in the city's OpenStreetMap places (osmCache, via batchFetchAndCache),
+ * then with Nominatim, then with Mapbox geocoding, and gets a confidence
+ * from how closely the name found matches. Places below
+ * VERIFIED_CONFIDENCE are unverified: callers either keep them flagged or,
+ * with `replace`, swap in an unused OSM place of the same kind.
+ *
+ * The result is stored on activities (verification_status,
+ * verification_confidence, verification_source) so the UI can mark
+ * unverified items.
+ */
+
+export type VerificationStatus = 'verified' | 'unverified' | 'replaced';
+export type VerificationSource = 'osm' | 'nominatim' | 'geocoding';
+
+export interface KnownPlace {
+  name: string;
+  lat: number;
+  lon: number;
+  cuisine?: string;
+  tourism?: string;
+  amenity?: string;
+  opening_hours?: string;
+}
+
+export interface PlacePool {
+  restaurants: KnownPlace[];
+  attractions: KnownPlace[];
+  cafes: KnownPlace[];
+}
+
+export interface PlaceCandidate {
+  name: string;
+  kind?: 'meal' | 'attraction'; // Which places can replace it
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface PlaceVerification {
+  status: VerificationStatus;
+  confidence: number; // 0 to 1
+  source: VerificationSource | null;
+  place: KnownPlace | null; // The place found or swapped in
+  original?: string; // Name of a replaced place
+}
+
+type NominatimPlace = { lat: number; lon: number; address?: string };
+
+export interface PlaceLookups {
+  places(city: string, country: string): Promise<PlacePool>;
+  nominatim(name: string, city: string, country: string): Promise<NominatimPlace | null>;
+  geocode(name: string, cityContext: string): Promise<{ latitude: string; longitude: string; formattedAddress?: string } | null>;
+}
+
+export interface VerifyOptions {
+  city: string;
+  country: string;
+  pool?: PlacePool; // Places the caller already fetched for the city
+  replace?: boolean;
+  exclude?: string[]; // Names replacements must not reuse (already in the itinerary)
+}
+
+export const VERIFIED_CONFIDENCE = 0.6;
+
+// Nominatim allows about one request a second, so each call looks up only a
+// few places outside OSM; the rest stay unverified
+const MAX_LOOKUPS = 10;
+
+// A match further than this from where the model put the place is doubtful
+const COORDINATE_TOLERANCE_KM = 2;
+const DISTANCE_PENALTY = 0.3;
+
+const defaultLookups: PlaceLookups = {
+  places: (city, country) => batchFetchAndCache(city, country),
+  nominatim: (name, city, country) => geocodePlace(name, city, country),
+  geocode: (name, cityContext) => geocodingService.geocodeLocation(name, cityContext),
+};
+
+// The name part of an address ("Louvre Museum, Rue de Rivoli, Paris")
+function addressName(address: string | undefined): string {
+  return (address || '').split(',')[0].trim();
+}
+
+function round(confidence: number): number {
+  return Math.round(Math.max(0, Math.min(1, confidence)) * 100) / 100;
+}
+
+function distancePenalty(candidate: PlaceCandidate, lat: number, lon: number): number {
+  if (candidate.latitude == null || candidate.longitude == null) return 0;
+  const km = haversineKm(
+    { latitude: Number(candidate.latitude), longitude: Number(candidate.longitude) },
+    { latitude: lat, longitude: lon },
+  );
+  return km > COORDINATE_TOLERANCE_KM ? DISTANCE_PENALTY : 0;
+}
+
+/**
+ * Confidence that a candidate is a place found by a lookup. Nominatim and
+ * Mapbox return their closest match for anything, street names and the city
+ * itself included, so a hit counts for less than an OSM name match and the
+ * name found has to agree with the name asked for.
+ */
+export function matchConfidence(candidate: PlaceCandidate, source: VerificationSource, found: { name: string; lat: number; lon: number }): number {
+  const similarity = nameSimilarity(candidate.name, found.name);
+  const base = source === 'osm' ? similarity : source === 'nominatim' ? 0.3 + 0.6 * similarity : 0.2 + 0.6 * similarity;
+  return round(base - distancePenalty(candidate, found.lat, found.lon));
+}
+
+/**
+ * Verification of a place picked straight from the city's OSM places.
+ */
+export function pickedFromOsm(place: KnownPlace): PlaceVerification {
+  return { status: 'verified', confidence: 1, source: 'osm', place };
+}
+
+/**
+ * What responses say about a place's verification.
+ */
+export function verificationSummary(verification: PlaceVerification) {
+  return {
+    status: verification.status,
+    confidence: verification.confidence,
+    source: verification.source,
+    ...(verification.original ? { original: verification.original } : {}),
+  };
+}
+
+/**
+ * The activities columns for a verification result.
+ */
+export function verificationColumns(verification: Pick<PlaceVerification, 'status' | 'confidence' | 'source'> | null | undefined) {
+  return {
+    verification_status: verification?.status ?? null,
+    verification_confidence: verification ? verification.confidence.toFixed(2) : null,
+    verification_source: verification?.source ?? null,
+  };
+}
+
+export class PlaceVerificationService {
+  // Misses are cached too, wrapped since the cache can't hold null
+  private nominatimCache = createLRUCache<string, { found: NominatimPlace | null }>({
+    max: 5000,
+    ttl: 7 * 24 * 60 * 60 * 1000,
+  });
+
+  constructor(private lookups: PlaceLookups = defaultLookups) {}
+
+  async verifyPlaces(candidates: PlaceCandidate[], options: VerifyOptions): Promise<PlaceVerification[]> {
+    const pool = options.pool ?? await this.fetchPool(options.city, options.country);
+    const known = [...pool.attractions, ...pool.restaurants, ...pool.cafes];
+    let lookupsLeft = MAX_LOOKUPS;
+
+    const results: PlaceVerification[] = [];
+    for (const candidate of candidates) {
+      let best: PlaceVerification = { status: 'unverified', confidence: 0, source: null, place: null };
+      const consider = (source: VerificationSource, place: KnownPlace) => {
+        const confidence = matchConfidence(candidate, source, place);
+        if (confidence > best.confidence) best = { status: 'unverified', confidence, source, place };
+      };
+
+      for (const place of known) consider('osm', place);
+
+      if (best.confidence < VERIFIED_CONFIDENCE && lookupsLeft > 0 && candidate.name.trim()) {
+        lookupsLeft--;
+        const found = await this.nominatim(candidate.name, options.city, options.country);
+        if (found) consider('nominatim', { name: addressName(found.address), lat: found.lat, lon: found.lon });
+
+        if (best.confidence < VERIFIED_CONFIDENCE) {
+          const geocoded = await this.geocode(candidate.name, [options.city, options.country].filter(Boolean).join(', '));
+          if (geocoded) {
+            consider('geocoding', {
+              name: addressName(geocoded.formattedAddress),
+              lat: parseFloat(geocoded.latitude),
+              lon: parseFloat(geocoded.longitude),
+            });
+          }
+        }
+      }
+
+      if (best.confidence >= VERIFIED_CONFIDENCE) best.status = 'verified';
+      results.push(best);
+    }
+
+    if (options.replace) this.replaceUnverified(candidates, results, pool, options.exclude || []);
+    return results;
+  }
+
+  private replaceUnverified(candidates: PlaceCandidate[], results: PlaceVerification[], pool: PlacePool, exclude: string[]) {
+    const used = new Set([
+      ...exclude,
+      ...results.filter(r => r.status === 'verified' && r.place).map(r => r.place!.name),
+    ].map(name => name.toLowerCase()));
+
+    results.forEach((result, index) => {
+      if (result.status !== 'unverified') return;
+      const candidate = candidates[index];
+      const options = candidate.kind === 'meal' ? [...pool.restaurants, ...pool.cafes] : pool.attractions;
+      const replacement = options.find(place => !used.has(place.name.toLowerCase()));
+      if (!replacement) return;
+
+      used.add(replacement.name.toLowerCase());
+      results[index] = { status: 'replaced', confidence: 1, source: 'osm', place: replacement, original: candidate.name };
+      logger.info(`[VERIFY] Replaced unverified place "${candidate.name}" with ${replacement.name}`);
+    });
+  }
+
+  private async fetchPool(city: string, country: string): Promise<PlacePool> {
+    try {
+      return await this.lookups.places(city, country);
+    } catch (error) {
+      logger.warn(`[VERIFY] Could not fetch places for ${city}, ${country}`, error);
+      return { restaurants: [], attractions: [], cafes: [] };
+    }
+  }
+
+  private async nominatim(name: string, city: string, country: string) {
+    const key = `${name}|${city}|${country}`.toLowerCase();
+    const cached = this.nominatimCache.get(key);
+    if (cached) return cached.found;
+
+    try {
+      const found = await this.lookups.nominatim(name, city, country);
+      this.nominatimCache.set(key, { found });
+      return found;
+    } catch (error) {
+      logger.warn(`[VERIFY] Nominatim lookup failed for ${name}`, error);
+      return null;
+    }
+  }
+
+  private async geocode(name: string, cityContext: string) {
+    try {
+      return await this.lookups.geocode(name, cityContext);
+    } catch (error) {
+      logger.warn(`[VERIFY] Geocoding failed for ${name}`, error);
+      return null;
+    }
+  }
+}
+
+export const placeVerification = new PlaceVerificationService();
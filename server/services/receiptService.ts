@@ -0,0 +1,256 @@
+import path from 'path';
+import fs from 'fs/promises';
+import sharp from 'sharp';
+import { nanoid } from 'nanoid';
+import { and, desc, eq } from 'drizzle-orm';
+import type { Worker } from 'tesseract.js';
+import { db } from '../db-connection';
+import { expenseReceipts, ExpenseReceipt } from '@shared/schema';
+import { logger } from '../utils/logger';
+import { extractAmount, normalizeCurrency, parseLooseDate, parseNumber } from '../utils/textExtraction';
+import { SEED_USD_RATES } from './currencyService';
+
+/**
+ * Receipt capture for group expenses.
+ *
+ * Uploads are kept per trip in a private directory (not under the public
+ * /uploads mount) and only served back through the budget routes. Text is
+ * read locally: tesseract.js for photos, the embedded text layer for PDFs.
+ * The merchant, total, currency and date pulled from that text become an
+ * expense draft the user confirms before anything is saved.
+ */
+
+export const RECEIPT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+const RECEIPTS_DIR = process.env.RECEIPTS_DIR || path.join(process.cwd(), 'private', 'receipts');
+
+export interface ReceiptFields {
+  merchant: string | null;
+  total: number | null;
+  currency: string | null;
+  date: string | null;
+}
+
+export interface ExpenseDraft {
+  receipt_id: number;
+  description: string;
+  total_amount: number | null;
+  currency: string;
+  expense_date: string | null;
+}
+
+// Most specific first; a "Total" line only wins when nothing better is printed
+const TOTAL_LABELS = ['grand total', 'total due', 'amount due', 'balance due', 'total amount', 'amount paid', 'total', 'gesamt', 'summe', 'totale', 'montant'];
+
+// Lines that mention a total but aren't the amount paid
+const NOT_TOTAL = /sub\s*-?\s*total|total\s*(tax|vat|discount|savings)|\b(change|tendered|items?|qty)\b/i;
+
+const NOT_MERCHANT = /receipt|invoice|welcome|thank|tel\b|phone|www\.|https?:|@|\b(date|time|order|table|server|cashier|store\s*#)\b/i;
+
+const KNOWN_CURRENCIES = new Set(['USD', ...Object.keys(SEED_USD_RATES)]);
+
+function findTotal(lines: string[]): { amount: number; currency: string | null } | null {
+  let best: { rank: number; amount: number; currency: string | null } | null = null;
+
+  for (const line of lines) {
+    if (NOT_TOTAL.test(line)) continue;
+    const rank = TOTAL_LABELS.findIndex(label => new RegExp(`\\b${label}\\b`, 'i').test(line));
+    if (rank < 0) continue;
+
+    const found = extractAmount(line, [TOTAL_LABELS[rank]]);
+    if (!found || !(found.amount > 0)) continue;
+    // Equal rank: the later line wins, since totals are printed last
+    if (!best || rank <= best.rank) {
+      best = { rank, amount: found.amount, currency: found.currency };
+    }
+  }
+
+  return best && { amount: best.amount, currency: best.currency };
+}
+
+// With no labelled total, the largest price on the receipt is the best guess
+function largestAmount(text: string): number | null {
+  let largest: number | null = null;
+  for (const match of Array.from(text.matchAll(/(?<![\d.,])\d{1,3}(?:[.,\s]\d{3})*[.,]\d{2}(?![\d.,])/g))) {
+    const amount = parseNumber(match[0]);
+    if (amount !== null && (largest === null || amount > largest)) largest = amount;
+  }
+  return largest;
+}
+
+function findCurrency(text: string): string | null {
+  const symbol = text.match(/US\$|C\$|A\$|[€£¥₹₩฿$]/);
+  if (symbol) return normalizeCurrency(symbol[0]);
+
+  for (const match of Array.from(text.matchAll(/\b[A-Z]{3}\b/g))) {
+    if (KNOWN_CURRENCIES.has(match[0])) return match[0];
+  }
+  return null;
+}
+
+function findMerchant(lines: string[]): string | null {
+  for (const line of lines.slice(0, 6)) {
+    const cleaned = line.replace(/[^\p{L}\p{N}&'.,\- ]/gu, ' ').replace(/\s+/g, ' ').trim();
+    const letters = (cleaned.match(/\p{L}/gu) || []).length;
+    if (letters < 3 || letters < cleaned.replace(/\s/g, '').length / 2) continue;
+    if (NOT_MERCHANT.test(cleaned)) continue;
+    return cleaned.slice(0, 120);
+  }
+  return null;
+}
+
+/**
+ * Pull the merchant, total, currency and date out of OCR text. Every field
+ * is best effort and null when nothing plausible was found.
+ */
+export function parseReceiptText(text: string, referenceDate: Date = new Date()): ReceiptFields {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+  const total = findTotal(lines);
+  return {
+    merchant: findMerchant(lines),
+    total: total ? total.amount : largestAmount(text),
+    currency: total?.currency || findCurrency(text),
+    date: parseLooseDate(text, referenceDate),
+  };
+}
+
+export function toExpenseDraft(receiptId: number, fields: ReceiptFields, tripCurrency: string): ExpenseDraft {
+  return {
+    receipt_id: receiptId,
+    description: fields.merchant || 'Receipt',
+    total_amount: fields.total,
+    currency: fields.currency || tripCurrency,
+    expense_date: fields.date,
+  };
+}
+
+export class ReceiptService {
+  private worker: Promise<Worker> | null = null;
+
+  // One OCR worker for the process; language data is cached after the first load
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      this.worker = import('tesseract.js').then(({ createWorker }) =>
+        createWorker(process.env.RECEIPT_OCR_LANGS || 'eng', undefined, {
+          langPath: process.env.TESSERACT_LANG_PATH,
+          cachePath: path.join(RECEIPTS_DIR, '.tessdata'),
+        })
+      );
+      this.worker.catch(() => { this.worker = null; });
+    }
+    return this.worker;
+  }
+
+  async extractText(buffer: Buffer, mimeType: string): Promise<{ text: string; confidence: number | null }> {
+    if (mimeType === 'application/pdf') {
+      const { PDFParse } = await import('pdf-parse');
+      const parser = new PDFParse({ data: buffer });
+      try {
+        const result = await parser.getText();
+        return { text: result.text, confidence: null };
+      } finally {
+        await parser.destroy();
+      }
+    }
+
+    // Upright, greyscale and a sensible size reads far better than a raw phone photo
+    const prepared = await sharp(buffer)
+      .rotate()
+      .resize({ width: 1800, withoutEnlargement: true })
+      .grayscale()
+      .normalize()
+      .png()
+      .toBuffer();
+
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(prepared);
+    return { text: data.text, confidence: Math.round(data.confidence) };
+  }
+
+  /**
+   * Store an upload and run OCR on it. A failed OCR still keeps the receipt,
+   * so it can be attached to an expense entered by hand.
+   */
+  async createReceipt(
+    tripId: number,
+    userId: number,
+    file: { buffer: Buffer; mimetype: string; originalname: string; size: number }
+  ): Promise<ExpenseReceipt> {
+    const extension = file.mimetype === 'application/pdf' ? '.pdf' : path.extname(file.originalname).toLowerCase() || '.jpg';
+    const storageKey = path.join(String(tripId), `${nanoid(16)}${extension}`);
+
+    await fs.mkdir(path.join(RECEIPTS_DIR, String(tripId)), { recursive: true });
+    await fs.writeFile(path.join(RECEIPTS_DIR, storageKey), file.buffer);
+
+    const [receipt] = await db
+      .insert(expenseReceipts)
+      .values({
+        trip_id: tripId,
+        uploaded_by: userId,
+        storage_key: storageKey,
+        original_name: file.originalname,
+        mime_type: file.mimetype,
+        size_bytes: file.size,
+      })
+      .returning();
+
+    let update: Partial<ExpenseReceipt>;
+    try {
+      const { text, confidence } = await this.extractText(file.buffer, file.mimetype);
+      update = {
+        ocr_status: 'complete',
+        ocr_text: text,
+        ocr_confidence: confidence,
+        extracted: parseReceiptText(text),
+      };
+    } catch (error) {
+      logger.warn('Receipt OCR failed', { receiptId: receipt.id, error });
+      update = { ocr_status: 'failed' };
+    }
+
+    const [processed] = await db
+      .update(expenseReceipts)
+      .set(update)
+      .where(eq(expenseReceipts.id, receipt.id))
+      .returning();
+    return processed;
+  }
+
+  async getReceipt(id: number): Promise<ExpenseReceipt | undefined> {
+    const [receipt] = await db.select().from(expenseReceipts).where(eq(expenseReceipts.id, id));
+    return receipt;
+  }
+
+  async getReceiptsForTrip(tripId: number): Promise<ExpenseReceipt[]> {
+    return db
+      .select()
+      .from(expenseReceipts)
+      .where(eq(expenseReceipts.trip_id, tripId))
+      .orderBy(desc(expenseReceipts.created_at));
+  }
+
+  filePath(receipt: ExpenseReceipt): string {
+    return path.join(RECEIPTS_DIR, receipt.storage_key);
+  }
+
+  async attachToExpense(receiptId: number, tripId: number, expenseId: number): Promise<ExpenseReceipt | undefined> {
+    const [receipt] = await db
+      .update(expenseReceipts)
+      .set({ expense_id: expenseId })
+      .where(and(eq(expenseReceipts.id, receiptId), eq(expenseReceipts.trip_id, tripId)))
+      .returning();
+    return receipt;
+  }
+
+  async deleteReceipt(receipt: ExpenseReceipt): Promise<void> {
+    await db.delete(expenseReceipts).where(eq(expenseReceipts.id, receipt.id));
+    try {
+      await fs.unlink(this.filePath(receipt));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+}
+
+export const receiptService = new ReceiptService();
@@ -0,0 +1,320 @@
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import {
+  creatorBalances,
+  referralConversions,
+  templateShares,
+  ReferralConversion,
+  TemplatePurchase,
+  TemplateShare,
+} from '@shared/schema';
+import { db } from '../db-connection';
+import { logger } from '../utils/logger';
+import { LedgerAccount, LedgerLine, ledgerService, toCents } from './ledgerService';
+
+/**
+ * Referral tracking on template share links.
+ *
+ * Each sharer gets one share link per template and channel. Opening a link
+ * records the click in the referral cookie, which holds the last link
+ * clicked for each template; a purchase of that template within
+ * REFERRAL_WINDOW_DAYS carries the link's code in the payment intent's
+ * metadata, and payment_intent.succeeded records the conversion against
+ * the share.
+ *
+ * When the sharer isn't the template's creator they earn
+ * REFERRAL_COMMISSION_PERCENT of the sale, paid out of the platform fee.
+ * Commissions are credited to the sharer's pending balance, released with
+ * sale earnings once the hold period passes (creatorPayoutService), and
+ * reversed if the purchase is refunded.
+ */
+
+export const REFERRAL_WINDOW_DAYS = Number(process.env.REFERRAL_WINDOW_DAYS) || 30;
+
+// 0 turns commissions off; conversions are still tracked
+export const REFERRAL_COMMISSION_PERCENT = Math.max(Number(process.env.REFERRAL_COMMISSION_PERCENT ?? 10) || 0, 0);
+
+export const REFERRAL_COOKIE = 'remvana_ref';
+
+export type CommissionStatus = 'none' | 'pending' | 'released' | 'reversed';
+
+// Template id -> the last share link clicked for it
+export type ReferralCookie = Record<string, { code: string; at: number }>;
+
+export interface ChannelPerformance {
+  channel: string;
+  links: number;
+  clicks: number;
+  conversions: number;
+  revenue: number;
+  commission: number;
+  conversionRate: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_COOKIE_TEMPLATES = 20;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * The referral cookie as sent back by the browser, with anything malformed
+ * or outside the window dropped.
+ */
+export function readReferralCookie(value: unknown, now: Date = new Date()): ReferralCookie {
+  const cookie: ReferralCookie = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return cookie;
+  for (const [templateId, click] of Object.entries(value as Record<string, any>)) {
+    if (!/^\d+$/.test(templateId) || typeof click?.code !== 'string' || typeof click?.at !== 'number') continue;
+    if (click.at > now.getTime() || now.getTime() - click.at > REFERRAL_WINDOW_DAYS * DAY_MS) continue;
+    cookie[templateId] = { code: click.code, at: click.at };
+  }
+  return cookie;
+}
+
+/**
+ * Record a share link click: the last click for a template wins, and only
+ * the most recently clicked templates are kept.
+ */
+export function recordClick(cookie: ReferralCookie, templateId: number, code: string, now: Date = new Date()): ReferralCookie {
+  const updated: ReferralCookie = { ...cookie, [templateId]: { code, at: now.getTime() } };
+  const clicks = Object.entries(updated)
+    .sort(([, a], [, b]) => b.at - a.at)
+    .slice(0, MAX_COOKIE_TEMPLATES);
+  return Object.fromEntries(clicks);
+}
+
+/**
+ * The commission on a sale: a percentage of the price, never more than the
+ * platform's fee it comes out of.
+ */
+export function referralCommission(sale: { price: number; platformFee: number }, percent: number = REFERRAL_COMMISSION_PERCENT): number {
+  const commission = Math.min(Math.round(toCents(sale.price) * percent / 100), toCents(sale.platformFee));
+  return Math.max(commission, 0) / 100;
+}
+
+/**
+ * Entries for crediting a commission: the platform gives up that much of
+ * its revenue to the sharer's pending balance.
+ */
+export function commissionLines(referrerId: number, commission: number): LedgerLine[] {
+  const cents = toCents(commission);
+  return [
+    { account: 'platform_revenue', cents },
+    { account: 'creator_pending', userId: referrerId, cents: -cents },
+  ];
+}
+
+export function conversionRate(clicks: number, conversions: number): number {
+  return clicks > 0 ? Math.round((conversions / clicks) * 10000) / 100 : 0;
+}
+
+export class ReferralService {
+  /**
+   * The sharer's link for a template on a channel, created the first time
+   * they share there.
+   */
+  async shareLink(templateId: number, userId: number, channel: string): Promise<TemplateShare> {
+    const [existing] = await db.select().from(templateShares)
+      .where(and(
+        eq(templateShares.template_id, templateId),
+        eq(templateShares.shared_by, userId),
+        eq(templateShares.share_channel, channel),
+      ))
+      .orderBy(desc(templateShares.id))
+      .limit(1);
+    if (existing) return existing;
+
+    const [share] = await db.insert(templateShares)
+      .values({
+        template_id: templateId,
+        shared_by: userId,
+        share_code: nanoid(10),
+        share_channel: channel,
+        clicks: 0,
+        conversions: 0,
+        revenue_generated: '0',
+      })
+      .returning();
+    return share;
+  }
+
+  /**
+   * The share link a purchase is attributed to: the last one clicked for
+   * the template inside the window, unless the buyer shared it themselves.
+   */
+  async attribute(cookie: ReferralCookie, templateId: number, buyerId: number): Promise<{ share: TemplateShare; clickedAt: Date } | null> {
+    const click = cookie[templateId];
+    if (!click) return null;
+
+    const [share] = await db.select().from(templateShares)
+      .where(eq(templateShares.share_code, click.code))
+      .limit(1);
+    if (!share || share.template_id !== templateId || share.shared_by === buyerId) return null;
+    return { share, clickedAt: new Date(click.at) };
+  }
+
+  /**
+   * Record a purchase made through a share link and credit the sharer's
+   * commission. Safe to call again for the same purchase.
+   */
+  async recordConversion(purchase: TemplatePurchase, shareCode: string, clickedAt: Date | null = null): Promise<ReferralConversion | null> {
+    const conversion = await db.transaction(async (tx) => {
+      const [share] = await tx.select().from(templateShares)
+        .where(eq(templateShares.share_code, shareCode))
+        .limit(1);
+      if (!share || share.template_id !== purchase.template_id || share.shared_by === purchase.buyer_id) {
+        logger.warn(`Purchase ${purchase.id} carries share code ${shareCode} that doesn't apply to it`);
+        return null;
+      }
+
+      const saleAmount = parseFloat(purchase.price || '0');
+      // The creator sharing their own template earns the sale, not a commission
+      const commission = share.shared_by === purchase.seller_id
+        ? 0
+        : referralCommission({ price: saleAmount, platformFee: parseFloat(purchase.platform_fee || '0') });
+
+      const [created] = await tx.insert(referralConversions)
+        .values({
+          share_id: share.id,
+          template_id: share.template_id,
+          template_purchase_id: purchase.id,
+          referrer_id: share.shared_by,
+          buyer_id: purchase.buyer_id,
+          sale_amount: saleAmount.toFixed(2),
+          commission: commission.toFixed(2),
+          commission_status: commission > 0 ? 'pending' : 'none',
+          clicked_at: clickedAt,
+        })
+        .onConflictDoNothing({ target: referralConversions.template_purchase_id })
+        .returning();
+      if (!created) return null;
+
+      await tx.update(templateShares)
+        .set({
+          conversions: sql`COALESCE(${templateShares.conversions}, 0) + 1`,
+          revenue_generated: sql`COALESCE(${templateShares.revenue_generated}, 0) + ${saleAmount.toFixed(2)}`,
+        })
+        .where(eq(templateShares.id, share.id));
+
+      if (commission > 0) {
+        await ledgerService.post({
+          kind: 'referral',
+          idempotencyKey: `referral:${created.id}`,
+          referenceType: 'template_purchase',
+          referenceId: purchase.id,
+          description: `Referral commission on template ${purchase.template_id}`,
+          lines: commissionLines(share.shared_by, commission),
+        }, tx);
+
+        const amount = commission.toFixed(2);
+        await tx.insert(creatorBalances)
+          .values({
+            user_id: share.shared_by,
+            available_balance: '0',
+            pending_balance: amount,
+            lifetime_earnings: amount,
+            lifetime_payouts: '0',
+          })
+          .onConflictDoUpdate({
+            target: creatorBalances.user_id,
+            set: {
+              pending_balance: sql`COALESCE(${creatorBalances.pending_balance}, 0) + ${amount}`,
+              lifetime_earnings: sql`COALESCE(${creatorBalances.lifetime_earnings}, 0) + ${amount}`,
+              updated_at: new Date(),
+            },
+          });
+      }
+      return created;
+    });
+
+    if (conversion) {
+      logger.info(`Purchase ${purchase.id} attributed to share ${conversion.share_id}`, {
+        referrerId: conversion.referrer_id,
+        commission: conversion.commission,
+      });
+    }
+    return conversion;
+  }
+
+  /**
+   * Undo a refunded purchase's conversion: it no longer counts for the
+   * share, and the commission comes back out of wherever it is held.
+   * Runs inside the refund's transaction.
+   */
+  async reverseConversion(purchaseId: number, tx: Transaction): Promise<void> {
+    const [conversion] = await tx.select().from(referralConversions)
+      .where(eq(referralConversions.template_purchase_id, purchaseId))
+      .for('update');
+    if (!conversion || conversion.commission_status === 'reversed') return;
+
+    await tx.update(referralConversions)
+      .set({ commission_status: 'reversed', reversed_at: new Date() })
+      .where(eq(referralConversions.id, conversion.id));
+    await tx.update(templateShares)
+      .set({
+        conversions: sql`GREATEST(COALESCE(${templateShares.conversions}, 0) - 1, 0)`,
+        revenue_generated: sql`GREATEST(COALESCE(${templateShares.revenue_generated}, 0) - ${conversion.sale_amount}, 0)`,
+      })
+      .where(eq(templateShares.id, conversion.share_id));
+
+    const commission = parseFloat(conversion.commission || '0');
+    if (conversion.commission_status === 'none' || !(commission > 0)) return;
+
+    const heldIn: LedgerAccount = conversion.commission_status === 'released' ? 'creator_available' : 'creator_pending';
+    await ledgerService.post({
+      kind: 'referral',
+      idempotencyKey: `referral:${conversion.id}:reversed`,
+      referenceType: 'template_purchase',
+      referenceId: purchaseId,
+      description: `Referral commission reversed on refund of purchase ${purchaseId}`,
+      lines: [
+        { account: heldIn, userId: conversion.referrer_id, cents: toCents(commission) },
+        { account: 'platform_revenue', cents: -toCents(commission) },
+      ],
+    }, tx);
+
+    // Like sale clawbacks, a released commission can take available below zero
+    await tx.update(creatorBalances)
+      .set(heldIn === 'creator_available'
+        ? { available_balance: sql`COALESCE(${creatorBalances.available_balance}, 0) - ${commission.toFixed(2)}`, updated_at: new Date() }
+        : { pending_balance: sql`GREATEST(COALESCE(${creatorBalances.pending_balance}, 0) - ${commission.toFixed(2)}, 0)`, updated_at: new Date() })
+      .where(eq(creatorBalances.user_id, conversion.referrer_id));
+  }
+
+  /**
+   * Clicks, conversions, revenue and commission for a template's share
+   * links, by channel.
+   */
+  async channelPerformance(templateId: number): Promise<ChannelPerformance[]> {
+    const rows = await db
+      .select({
+        channel: sql<string>`COALESCE(${templateShares.share_channel}, 'link')`,
+        links: sql<number>`COUNT(*)::int`,
+        clicks: sql<number>`COALESCE(SUM(${templateShares.clicks}), 0)::int`,
+        conversions: sql<number>`COALESCE(SUM(${templateShares.conversions}), 0)::int`,
+        revenue: sql<string>`COALESCE(SUM(${templateShares.revenue_generated}), 0)`,
+        commission: sql<string>`COALESCE(SUM((
+          SELECT SUM(${referralConversions.commission}) FROM ${referralConversions}
+          WHERE ${referralConversions.share_id} = ${templateShares.id}
+            AND ${referralConversions.commission_status} IN ('pending', 'released')
+        )), 0)`,
+      })
+      .from(templateShares)
+      .where(eq(templateShares.template_id, templateId))
+      .groupBy(sql`COALESCE(${templateShares.share_channel}, 'link')`);
+
+    return rows
+      .map(row => ({
+        channel: row.channel,
+        links: Number(row.links),
+        clicks: Number(row.clicks),
+        conversions: Number(row.conversions),
+        revenue: toCents(row.revenue) / 100,
+        commission: toCents(row.commission) / 100,
+        conversionRate: conversionRate(Number(row.clicks), Number(row.conversions)),
+      }))
+      .sort((a, b) => b.revenue - a.revenue || b.clicks - a.clicks);
+  }
+}
+
+export const referralService = new ReferralService();
@@ -0,0 +1,568 @@
+import Stripe from 'stripe';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import {
+  activityCheckins,
+  bundlePurchases,
+  creatorBalances,
+  refundRequests,
+  templateBundles,
+  templatePurchases,
+  templates,
+  tripChangesets,
+  tripPhotos,
+  trips,
+  users,
+  BundlePurchase,
+  RefundRequest,
+  TemplatePurchase,
+  Trip,
+} from '@shared/schema';
+import { db } from '../db-connection';
+import { stripe } from '../stripe';
+import { logger } from '../utils/logger';
+import { PAYOUT_HOLD_DAYS } from './creatorPayoutService';
+import { LedgerAccount, ledgerService, refundLines, splitBundle, transferLines } from './ledgerService';
+import { referralService } from './referralService';
+
+/**
+ * Refunds and disputes for template and bundle purchases.
+ *
+ * Buyers ask for refunds through refund requests. The policy
+ * (refundDecision) approves a request straight away inside the refund
+ * window when the trip hasn't been used, sends it to an admin when it has,
+ * and turns it down outside the window. Approved requests are refunded
+ * through Stripe.
+ *
+ * However a refund starts - a request, or a refund made in the Stripe
+ * dashboard arriving as charge.refunded - applyRefund undoes the sale: the
+ * creator's earnings are clawed back from wherever they sit and the
+ * buyer's trip is revoked. Earnings that were already paid out are taken
+ * from the available balance, which can go negative and is made up from
+ * later sales. A dispute holds the earnings in the refunds reserve and
+ * freezes the trip until it closes; won, both are reinstated, lost, it is
+ * handled as a refund.
+ *
+ * Refunds also reverse the referral commission on the sale, if any.
+ *
+ * A bundle is one payment covering one template purchase per template, so
+ * each of these applies to all of its purchases.
+ */
+
+// Buyers can ask for a refund this long after purchase; by default the
+// same as the payout hold, so most refunds come out of pending earnings
+export const REFUND_WINDOW_DAYS = Number(process.env.REFUND_WINDOW_DAYS) || PAYOUT_HOLD_DAYS;
+
+export type RefundRequestStatus = 'pending' | 'approved' | 'rejected' | 'refunded' | 'failed';
+
+export type RefundDecision =
+  | { outcome: 'approve' | 'review'; reason: string }
+  | { outcome: 'deny'; reason: string };
+
+export interface RefundCandidate {
+  status: string | null;
+  amount: number; // What the buyer was charged
+  purchasedAt: Date | null;
+  hasPayment: boolean;
+  tripUsed: boolean;
+}
+
+// A template purchase on its own, or a bundle purchase with its template purchases
+export interface Sale {
+  bundle: BundlePurchase | null;
+  purchases: TemplatePurchase[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OPEN_REQUEST_STATUSES = ['pending', 'approved'];
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class RefundError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+// What a buyer has done with their copy of a template
+export interface TripUsage {
+  checkins: number;
+  photos: number;
+  edits: number; // Changesets other than template updates
+}
+
+// A refunded trip is revoked; a disputed one is frozen until the dispute closes.
+// Either way it's treated as if it didn't exist.
+export const LOCKED_TRIP_STATUSES = ['revoked', 'frozen'];
+
+export function isTripLocked(trip: Pick<Trip, 'status'>): boolean {
+  return LOCKED_TRIP_STATUSES.includes(trip.status ?? '');
+}
+
+/**
+ * A trip counts as used once it has been completed, checked in to,
+ * photographed, edited or had spending recorded against it, or once the
+ * start date the buyer picked has come. Copies made without dates start
+ * today, so their start date says nothing.
+ */
+export function tripWasUsed(
+  trip: Pick<Trip, 'start_date' | 'status' | 'total_spent' | 'collaborators'>,
+  usage: TripUsage,
+  now: Date = new Date(),
+): boolean {
+  if (trip.status === 'completed') return true;
+  if (parseFloat(trip.total_spent || '0') > 0) return true;
+  if (usage.checkins > 0 || usage.photos > 0 || usage.edits > 0) return true;
+
+  const source = Array.isArray(trip.collaborators)
+    ? (trip.collaborators as any[]).find(entry => entry?.source === 'template')
+    : null;
+  return source?.datesChosen === true && String(trip.start_date) <= now.toISOString().slice(0, 10);
+}
+
+export function refundDecision(candidate: RefundCandidate, now: Date = new Date()): RefundDecision {
+  if (candidate.status === 'refunded') return { outcome: 'deny', reason: 'This purchase has already been refunded' };
+  if (candidate.status === 'disputed') return { outcome: 'deny', reason: 'This purchase is being disputed with your bank' };
+  if (candidate.status !== 'completed') return { outcome: 'deny', reason: 'This purchase cannot be refunded' };
+  if (!candidate.hasPayment || !(candidate.amount > 0)) {
+    return { outcome: 'deny', reason: 'Free purchases have nothing to refund' };
+  }
+
+  const purchasedAt = candidate.purchasedAt ?? now;
+  if (now.getTime() - purchasedAt.getTime() > REFUND_WINDOW_DAYS * DAY_MS) {
+    return { outcome: 'deny', reason: `Refunds are available for ${REFUND_WINDOW_DAYS} days after purchase` };
+  }
+  if (candidate.tripUsed) {
+    return { outcome: 'review', reason: 'The trip has already been used, so the request needs review' };
+  }
+  return { outcome: 'approve', reason: `Requested within ${REFUND_WINDOW_DAYS} days of purchase and the trip is unused` };
+}
+
+/**
+ * Where a purchase's earnings sit in the ledger: the refunds reserve while
+ * disputed, otherwise pending or available depending on the hold.
+ */
+export function earningsAccount(purchase: Pick<TemplatePurchase, 'status' | 'earnings_released_at'>): LedgerAccount {
+  if (purchase.status === 'disputed') return 'refunds_reserve';
+  return purchase.earnings_released_at ? 'creator_available' : 'creator_pending';
+}
+
+function paymentIntentOf(sale: Sale): string | null {
+  return sale.bundle ? sale.bundle.payment_intent_id : sale.purchases[0]?.stripe_payment_intent_id ?? null;
+}
+
+export class RefundService {
+  async findSaleByPaymentIntent(paymentIntentId: string): Promise<Sale | null> {
+    const [purchase] = await db.select().from(templatePurchases)
+      .where(eq(templatePurchases.stripe_payment_intent_id, paymentIntentId))
+      .limit(1);
+    if (purchase) return { bundle: null, purchases: [purchase] };
+
+    const [bundle] = await db.select().from(bundlePurchases)
+      .where(eq(bundlePurchases.payment_intent_id, paymentIntentId))
+      .limit(1);
+    return bundle ? this.bundleSale(bundle) : null;
+  }
+
+  private async bundleSale(bundle: BundlePurchase): Promise<Sale> {
+    const purchases = await db.select().from(templatePurchases)
+      .where(eq(templatePurchases.bundle_purchase_id, bundle.id));
+    return { bundle, purchases };
+  }
+
+  private async findSale(target: { templatePurchaseId?: number; bundlePurchaseId?: number }): Promise<Sale | null> {
+    if (target.bundlePurchaseId) {
+      const [bundle] = await db.select().from(bundlePurchases).where(eq(bundlePurchases.id, target.bundlePurchaseId));
+      return bundle ? this.bundleSale(bundle) : null;
+    }
+    if (!target.templatePurchaseId) return null;
+    const [purchase] = await db.select().from(templatePurchases).where(eq(templatePurchases.id, target.templatePurchaseId));
+    return purchase ? { bundle: null, purchases: [purchase] } : null;
+  }
+
+  /**
+   * Trips a buyer made from a purchase: the one recorded on it, or for
+   * older and bundle purchases, the buyer's copies of the template since
+   * the purchase.
+   */
+  private purchaseTrips(purchase: TemplatePurchase, executor: Transaction | typeof db = db) {
+    return executor.select().from(trips).where(purchase.trip_id
+      ? eq(trips.id, purchase.trip_id)
+      : and(
+        eq(trips.user_id, purchase.buyer_id),
+        eq(trips.source_template_id, purchase.template_id),
+        sql`${trips.created_at} >= ${purchase.purchased_at ?? new Date(0)}::timestamp - INTERVAL '1 hour'`,
+      ));
+  }
+
+  private async tripUsage(tripId: number): Promise<TripUsage> {
+    const count = sql<number>`count(*)::int`;
+    const [[checkins], [photos], [edits]] = await Promise.all([
+      db.select({ count }).from(activityCheckins).where(eq(activityCheckins.trip_id, tripId)),
+      db.select({ count }).from(tripPhotos).where(eq(tripPhotos.trip_id, tripId)),
+      db.select({ count }).from(tripChangesets)
+        .where(and(eq(tripChangesets.trip_id, tripId), sql`${tripChangesets.source} <> 'template'`)),
+    ]);
+    return { checkins: checkins.count, photos: photos.count, edits: edits.count };
+  }
+
+  async requestRefund(
+    buyerId: number,
+    target: { templatePurchaseId?: number; bundlePurchaseId?: number },
+    reason: string,
+  ): Promise<RefundRequest> {
+    const sale = await this.findSale(target);
+    const owner = sale?.bundle?.buyer_id ?? sale?.purchases[0]?.buyer_id;
+    if (!sale || owner !== buyerId) throw new RefundError(404, 'Purchase not found');
+    if (!sale.bundle && sale.purchases[0].bundle_purchase_id) {
+      throw new RefundError(400, 'Templates bought in a bundle are refunded with the bundle');
+    }
+
+    const [open] = await db.select({ id: refundRequests.id }).from(refundRequests)
+      .where(and(this.requestTarget(sale), inArray(refundRequests.status, OPEN_REQUEST_STATUSES)))
+      .limit(1);
+    if (open) throw new RefundError(409, 'A refund request for this purchase is already open');
+
+    const paymentIntentId = paymentIntentOf(sale);
+    let amount = 0;
+    if (paymentIntentId) {
+      if (!stripe) throw new RefundError(503, 'Payment processing is not configured');
+      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+      amount = paymentIntent.amount_received / 100;
+    }
+
+    let tripUsed = false;
+    for (const purchase of sale.purchases) {
+      const purchaseTrips = await this.purchaseTrips(purchase);
+      for (const trip of purchaseTrips) {
+        if (tripWasUsed(trip, await this.tripUsage(trip.id))) tripUsed = true;
+      }
+    }
+
+    const decision = refundDecision({
+      status: sale.bundle ? sale.bundle.status : sale.purchases[0].status,
+      amount,
+      purchasedAt: sale.bundle ? sale.bundle.purchased_at : sale.purchases[0].purchased_at,
+      hasPayment: !!paymentIntentId,
+      tripUsed,
+    });
+    if (decision.outcome === 'deny') throw new RefundError(400, decision.reason);
+
+    const [request] = await db.insert(refundRequests)
+      .values({
+        buyer_id: buyerId,
+        template_purchase_id: sale.bundle ? null : sale.purchases[0].id,
+        bundle_purchase_id: sale.bundle?.id ?? null,
+        amount: amount.toFixed(2),
+        reason,
+        decision: decision.reason,
+      })
+      .returning();
+    logger.info(`Refund request ${request.id} by user ${buyerId}: ${decision.outcome}`);
+
+    return decision.outcome === 'approve' ? this.refund(request, sale, null) : request;
+  }
+
+  private requestTarget(sale: Sale) {
+    return sale.bundle
+      ? eq(refundRequests.bundle_purchase_id, sale.bundle.id)
+      : eq(refundRequests.template_purchase_id, sale.purchases[0].id);
+  }
+
+  async listForBuyer(buyerId: number): Promise<RefundRequest[]> {
+    return db.select().from(refundRequests)
+      .where(eq(refundRequests.buyer_id, buyerId))
+      .orderBy(desc(refundRequests.created_at));
+  }
+
+  async listRequests(status?: RefundRequestStatus) {
+    return db
+      .select({ request: refundRequests, buyerEmail: users.email })
+      .from(refundRequests)
+      .leftJoin(users, eq(users.id, refundRequests.buyer_id))
+      .where(status ? eq(refundRequests.status, status) : sql`true`)
+      .orderBy(desc(refundRequests.created_at));
+  }
+
+  async approve(requestId: number, adminId: number, note?: string): Promise<RefundRequest> {
+    const request = await this.pendingRequest(requestId);
+    const sale = await this.findSale({
+      templatePurchaseId: request.template_purchase_id ?? undefined,
+      bundlePurchaseId: request.bundle_purchase_id ?? undefined,
+    });
+    if (!sale) throw new RefundError(404, 'Purchase not found');
+    const status = sale.bundle ? sale.bundle.status : sale.purchases[0].status;
+    if (status !== 'completed') throw new RefundError(409, `The purchase is ${status} and can't be refunded`);
+
+    return this.refund({ ...request, decision: note ?? request.decision }, sale, adminId);
+  }
+
+  async reject(requestId: number, adminId: number, note: string): Promise<RefundRequest> {
+    await this.pendingRequest(requestId);
+    const [rejected] = await db.update(refundRequests)
+      .set({ status: 'rejected', decision: note, reviewed_by: adminId, reviewed_at: new Date() })
+      .where(and(eq(refundRequests.id, requestId), eq(refundRequests.status, 'pending')))
+      .returning();
+    if (!rejected) throw new RefundError(409, `Refund request ${requestId} is no longer pending`);
+    return rejected;
+  }
+
+  private async pendingRequest(requestId: number): Promise<RefundRequest> {
+    const [request] = await db.select().from(refundRequests).where(eq(refundRequests.id, requestId));
+    if (!request) throw new RefundError(404, 'Refund request not found');
+    if (request.status !== 'pending') throw new RefundError(409, `Refund request ${requestId} is ${request.status}`);
+    return request;
+  }
+
+  /**
+   * Refund an approved request through Stripe and undo the sale. A Stripe
+   * failure leaves the request failed with the reason rather than throwing.
+   */
+  private async refund(request: RefundRequest, sale: Sale, adminId: number | null): Promise<RefundRequest> {
+    const paymentIntentId = paymentIntentOf(sale);
+    if (!stripe || !paymentIntentId) throw new RefundError(503, 'Payment processing is not configured');
+
+    await db.update(refundRequests)
+      .set({ status: 'approved', decision: request.decision, reviewed_by: adminId, reviewed_at: adminId ? new Date() : null })
+      .where(eq(refundRequests.id, request.id));
+
+    let refund: Stripe.Refund;
+    try {
+      refund = await stripe.refunds.create(
+        { payment_intent: paymentIntentId, reason: 'requested_by_customer', metadata: { refund_request_id: String(request.id) } },
+        { idempotencyKey: `refund-request-${request.id}` },
+      );
+    } catch (error: any) {
+      logger.error(`Stripe refund failed for refund request ${request.id}:`, error);
+      const [failed] = await db.update(refundRequests)
+        .set({ status: 'failed', failure_reason: error?.message ?? 'Stripe refund failed' })
+        .where(eq(refundRequests.id, request.id))
+        .returning();
+      return failed;
+    }
+
+    await this.applyRefund(sale, refund.amount / 100, `Refund request ${request.id}`);
+
+    const [refunded] = await db.update(refundRequests)
+      .set({ status: 'refunded', stripe_refund_id: refund.id, refunded_at: new Date() })
+      .where(eq(refundRequests.id, request.id))
+      .returning();
+    return refunded;
+  }
+
+  /**
+   * Undo a sale that has been refunded (or charged back): mark the
+   * purchases refunded, claw back the creator's earnings, revoke the trips
+   * and close any open refund request. Purchases already refunded are
+   * skipped, so it is safe to call again for the same refund.
+   */
+  async applyRefund(sale: Sale, amount: number, description: string, options: { disputeLost?: boolean } = {}): Promise<number> {
+    // A bundle refund is shared across its templates like the price was
+    const shares = splitBundle(
+      sale.purchases.map(purchase => ({ purchase, price: parseFloat(purchase.price || '0') })),
+      { price: amount, stripeFee: 0, sellerEarnings: 0 },
+    );
+
+    let refunded = 0;
+    for (const share of shares) {
+      const applied = await db.transaction(async (tx) => {
+        const [purchase] = await tx.select().from(templatePurchases)
+          .where(eq(templatePurchases.id, share.purchase.id))
+          .for('update');
+        if (!purchase || (purchase.status !== 'completed' && purchase.status !== 'disputed')) return false;
+
+        const heldIn = earningsAccount(purchase);
+        const earnings = parseFloat(purchase.seller_earnings || '0');
+        await tx.update(templatePurchases)
+          .set({
+            status: 'refunded',
+            refunded_at: new Date(),
+            refund_amount: share.price.toFixed(2),
+            ...(options.disputeLost ? { dispute_status: 'lost' } : {}),
+          })
+          .where(eq(templatePurchases.id, purchase.id));
+
+        await ledgerService.post({
+          kind: 'refund',
+          idempotencyKey: `refund:${purchase.id}`,
+          referenceType: 'template_purchase',
+          referenceId: purchase.id,
+          description,
+          lines: refundLines({ sellerId: purchase.seller_id, refundAmount: share.price, sellerEarnings: earnings, heldIn }),
+        }, tx);
+
+        // Clawback: released earnings come out of available even if that takes it below zero
+        if (earnings > 0) {
+          await tx.update(creatorBalances)
+            .set(heldIn === 'creator_available'
+              ? { available_balance: sql`COALESCE(${creatorBalances.available_balance}, 0) - ${earnings.toFixed(2)}`, updated_at: new Date() }
+              : { pending_balance: sql`GREATEST(COALESCE(${creatorBalances.pending_balance}, 0) - ${earnings.toFixed(2)}, 0)`, updated_at: new Date() })
+            .where(eq(creatorBalances.user_id, purchase.seller_id));
+        }
+
+        // The sale no longer counts for the share link that brought it, nor earns its commission
+        await referralService.reverseConversion(purchase.id, tx);
+
+        await tx.update(users)
+          .set({
+            total_template_revenue: sql`GREATEST(COALESCE(${users.total_template_revenue}, 0) - ${earnings.toFixed(2)}, 0)`,
+            // Bundle sales never counted towards the template and seller sales totals
+            ...(purchase.bundle_purchase_id ? {} : { total_template_sales: sql`GREATEST(COALESCE(${users.total_template_sales}, 0) - 1, 0)` }),
+          })
+          .where(eq(users.id, purchase.seller_id));
+        if (!purchase.bundle_purchase_id) {
+          await tx.update(templates)
+            .set({ sales_count: sql`GREATEST(COALESCE(${templates.sales_count}, 0) - 1, 0)` })
+            .where(eq(templates.id, purchase.template_id));
+        }
+
+        const revoked = (await this.purchaseTrips(purchase, tx)).filter(trip => trip.status !== 'revoked');
+        if (revoked.length > 0) {
+          await tx.update(trips)
+            .set({
+              status: 'revoked',
+              revoked_reason: options.disputeLost ? 'Template purchase charged back' : 'Template purchase refunded',
+              revoked_at: new Date(),
+            })
+            .where(inArray(trips.id, revoked.map(trip => trip.id)));
+          logger.info(`Revoked trips ${revoked.map(trip => trip.id).join(', ')} after refunding purchase ${purchase.id}`);
+        }
+        return true;
+      });
+      if (applied) refunded++;
+    }
+
+    if (sale.bundle) {
+      const [bundle] = await db.update(bundlePurchases)
+        .set({ status: 'refunded', refunded_at: new Date(), refund_amount: amount.toFixed(2) })
+        .where(and(eq(bundlePurchases.id, sale.bundle.id), sql`${bundlePurchases.status} <> 'refunded'`))
+        .returning();
+      if (bundle) {
+        await db.update(templateBundles)
+          .set({ sales_count: sql`GREATEST(COALESCE(${templateBundles.sales_count}, 0) - 1, 0)`, updated_at: new Date() })
+          .where(eq(templateBundles.id, bundle.bundle_id));
+      }
+    }
+
+    // A refund made outside a request (in the Stripe dashboard) settles any request still open
+    await db.update(refundRequests)
+      .set({ status: 'refunded', refunded_at: new Date() })
+      .where(and(this.requestTarget(sale), eq(refundRequests.status, 'pending')));
+
+    return refunded;
+  }
+
+  /**
+   * A dispute opened: hold the earnings in the refunds reserve and freeze
+   * the trips until it closes.
+   */
+  async openDispute(sale: Sale, disputeId: string): Promise<void> {
+    for (const { id } of sale.purchases) {
+      await db.transaction(async (tx) => {
+        const [purchase] = await tx.select().from(templatePurchases).where(eq(templatePurchases.id, id)).for('update');
+        if (!purchase || purchase.status !== 'completed') return;
+
+        const earnings = parseFloat(purchase.seller_earnings || '0');
+        await tx.update(templatePurchases)
+          .set({ status: 'disputed', disputed_at: new Date(), dispute_status: 'open' })
+          .where(eq(templatePurchases.id, id));
+        await ledgerService.post({
+          kind: 'dispute',
+          idempotencyKey: `dispute:${id}:${disputeId}`,
+          referenceType: 'template_purchase',
+          referenceId: id,
+          description: `Dispute ${disputeId}`,
+          lines: transferLines(earningsAccount(purchase), 'refunds_reserve', purchase.seller_id, earnings),
+        }, tx);
+
+        // Earnings still inside the hold period are already in pending_balance
+        if (purchase.earnings_released_at && earnings > 0) {
+          await tx.update(creatorBalances)
+            .set({
+              pending_balance: sql`COALESCE(${creatorBalances.pending_balance}, 0) + ${earnings.toFixed(2)}`,
+              available_balance: sql`COALESCE(${creatorBalances.available_balance}, 0) - ${earnings.toFixed(2)}`,
+              updated_at: new Date(),
+            })
+            .where(eq(creatorBalances.user_id, purchase.seller_id));
+        }
+
+        const frozen = (await this.purchaseTrips(purchase, tx)).filter(trip => trip.status !== 'revoked' && trip.status !== 'frozen');
+        if (frozen.length > 0) {
+          await tx.update(trips)
+            .set({ status: 'frozen', frozen_reason: 'Template purchase disputed', frozen_at: new Date() })
+            .where(inArray(trips.id, frozen.map(trip => trip.id)));
+          logger.info(`Froze trips ${frozen.map(trip => trip.id).join(', ')} while purchase ${id} is disputed`);
+        }
+      });
+    }
+
+    if (sale.bundle) {
+      await db.update(bundlePurchases)
+        .set({ status: 'disputed', disputed_at: new Date() })
+        .where(and(eq(bundlePurchases.id, sale.bundle.id), eq(bundlePurchases.status, 'completed')));
+    }
+  }
+
+  /**
+   * A dispute closed. Won (or an inquiry closed without a chargeback): the
+   * earnings go back where they were and the trips are unfrozen. Lost: the
+   * disputed amount went back to the buyer, so it's applied as a refund.
+   */
+  async closeDispute(sale: Sale, dispute: Pick<Stripe.Dispute, 'id' | 'status' | 'amount'>): Promise<void> {
+    if (dispute.status === 'lost') {
+      await this.applyRefund(sale, dispute.amount / 100, `Dispute ${dispute.id} lost`, { disputeLost: true });
+      return;
+    }
+    if (dispute.status !== 'won' && dispute.status !== 'warning_closed') {
+      logger.warn(`Dispute ${dispute.id} closed with unexpected status ${dispute.status}`);
+      return;
+    }
+
+    for (const { id } of sale.purchases) {
+      await db.transaction(async (tx) => {
+        const [purchase] = await tx.select().from(templatePurchases).where(eq(templatePurchases.id, id)).for('update');
+        if (!purchase || purchase.status !== 'disputed') return;
+
+        const earnings = parseFloat(purchase.seller_earnings || '0');
+        const reinstated = { ...purchase, status: 'completed' };
+        await tx.update(templatePurchases)
+          .set({ status: 'completed', dispute_status: 'won' })
+          .where(eq(templatePurchases.id, id));
+        await ledgerService.post({
+          kind: 'dispute',
+          idempotencyKey: `dispute:${id}:${dispute.id}:won`,
+          referenceType: 'template_purchase',
+          referenceId: id,
+          description: `Dispute ${dispute.id} won`,
+          lines: transferLines('refunds_reserve', earningsAccount(reinstated), purchase.seller_id, earnings),
+        }, tx);
+
+        if (purchase.earnings_released_at && earnings > 0) {
+          await tx.update(creatorBalances)
+            .set({
+              pending_balance: sql`GREATEST(COALESCE(${creatorBalances.pending_balance}, 0) - ${earnings.toFixed(2)}, 0)`,
+              available_balance: sql`COALESCE(${creatorBalances.available_balance}, 0) + ${earnings.toFixed(2)}`,
+              updated_at: new Date(),
+            })
+            .where(eq(creatorBalances.user_id, purchase.seller_id));
+        }
+
+        const frozen = (await this.purchaseTrips(purchase, tx)).filter(trip => trip.status === 'frozen');
+        if (frozen.length > 0) {
+          await tx.update(trips)
+            .set({ status: 'active', frozen_reason: null, frozen_at: null })
+            .where(inArray(trips.id, frozen.map(trip => trip.id)));
+          logger.info(`Reinstated trips ${frozen.map(trip => trip.id).join(', ')} after dispute ${dispute.id}`);
+        }
+      });
+    }
+
+    if (sale.bundle) {
+      await db.update(bundlePurchases)
+        .set({ status: 'completed' })
+        .where(and(eq(bundlePurchases.id, sale.bundle.id), eq(bundlePurchases.status, 'disputed')));
+    }
+  }
+}
+
+export const refundService = new RefundService();
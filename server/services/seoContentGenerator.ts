@@ -3,7 +3,7 @@
  * Generates high-quality, unique content for destination pages
  */
 
-import { callOpenAI } from '../openai';
+import { llm } from './llmService';
 import { logger } from '../utils/logger';
 
 interface DestinationContent {
@@ -46,8 +46,8 @@ export class SEOContentGenerator {
       return cached.content;
     }
 
-    // Skip AI generation if no OpenAI key
-    if (!process.env.OPENAI_API_KEY) {
+    // Skip AI generation if no model is configured
+    if (!await llm.isAvailable('content')) {
       return this.getFallbackDestinationContent(destination);
     }
 
@@ -73,10 +73,10 @@ export class SEOContentGenerator {
       }`;
 
       // Give AI sufficient time to generate quality content
-      const response = await callOpenAI(prompt, {
+      const response = await llm.complete('content', prompt, {
         temperature: 0.7,
-        max_tokens: 2000, // Balanced for content quality and speed
-        response_format: { type: "json_object" }
+        maxTokens: 2000, // Balanced for content quality and speed
+        json: true
       });
 
       // No timeout - let OpenAI complete the request
@@ -123,10 +123,10 @@ export class SEOContentGenerator {
         "tips": ["3-5 practical tips for this activity"]
       }`;
 
-      const response = await callOpenAI(prompt, {
+      const response = await llm.complete('content', prompt, {
         temperature: 0.7,
-        max_tokens: 1000,
-        response_format: { type: "json_object" }
+        maxTokens: 1000,
+        json: true
       });
 
       const content = JSON.parse(response);
@@ -247,10 +247,10 @@ export class SEOContentGenerator {
           ]
         }`;
 
-        const response = await callOpenAI(prompt, {
+        const response = await llm.complete('content', prompt, {
           temperature: 0.7,
-          max_tokens: 2000,
-          response_format: { type: "json_object" }
+          maxTokens: 2000,
+          json: true
         });
 
         const content = JSON.parse(response);
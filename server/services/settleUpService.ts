@@ -0,0 +1,439 @@
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { db } from '../db-connection';
+import { expenseSettlements, groupExpenses, trips, tripCollaborators, users, ExpenseSettlement, GroupExpense } from '@shared/schema';
+import {
+  currencyService,
+  minorUnits,
+  normalizeCurrencyCode,
+  roundMoney,
+  toDateString,
+  totalInCurrency,
+  RateTable,
+} from './currencyService';
+
+/**
+ * Settle-up for group expenses.
+ *
+ * Each member's net position is what they paid minus their share of every
+ * expense, adjusted by payments recorded in the settlement ledger, all in
+ * the trip currency. The suggested transfers are the fewest payments that
+ * bring everyone to zero.
+ */
+
+export type SplitType = 'equal' | 'custom' | 'percentage';
+
+export interface SplitDetail {
+  user_id: number;
+  amount: number;
+  percentage?: number;
+  is_settled?: boolean;
+}
+
+export interface Transfer {
+  from: number;
+  to: number;
+  amount: number;
+}
+
+export const SETTLEMENT_METHODS = ['cash', 'bank_transfer', 'card', 'venmo', 'paypal', 'other'] as const;
+
+// Brute-force grouping is exact but exponential; above this many people use the greedy pass
+const MAX_EXACT_PARTICIPANTS = 14;
+
+function minorUnitFactor(currency: string): number {
+  return Math.pow(10, minorUnits(currency));
+}
+
+function toMinor(amount: number, factor: number): number {
+  return Math.round(amount * factor);
+}
+
+/**
+ * Check a split adds up and fill in the amounts for percentage splits.
+ * Percentages must total 100; custom amounts must total the expense.
+ * Rounding leftovers go to the first person so amounts always add up.
+ */
+export function normalizeSplit(
+  totalAmount: number,
+  splitType: SplitType,
+  details: SplitDetail[],
+  currency = 'USD'
+): { details: SplitDetail[]; errors: string[] } {
+  const errors: string[] = [];
+  const factor = minorUnitFactor(currency);
+  const total = toMinor(totalAmount, factor);
+
+  if (details.length === 0) {
+    return { details, errors: ['At least one person must share the expense'] };
+  }
+
+  const userIds = details.map(d => d.user_id);
+  if (new Set(userIds).size !== userIds.length) {
+    errors.push('Each person can only appear once in a split');
+  }
+
+  let amounts: number[];
+  if (splitType === 'percentage') {
+    if (details.some(d => d.percentage === undefined || d.percentage < 0)) {
+      return { details, errors: [...errors, 'Every person needs a percentage'] };
+    }
+    const percentTotal = details.reduce((sum, d) => sum + (d.percentage || 0), 0);
+    if (Math.abs(percentTotal - 100) > 0.01) {
+      errors.push(`Percentages add up to ${Math.round(percentTotal * 100) / 100}%, not 100%`);
+    }
+    amounts = details.map(d => Math.floor(total * (d.percentage || 0) / 100));
+  } else if (splitType === 'custom') {
+    amounts = details.map(d => toMinor(d.amount, factor));
+    const splitTotal = amounts.reduce((sum, a) => sum + a, 0);
+    if (splitTotal !== total) {
+      errors.push(`Split amounts add up to ${splitTotal / factor}, not ${total / factor}`);
+    }
+  } else {
+    amounts = details.map(() => Math.floor(total / details.length));
+  }
+
+  if (errors.length > 0) return { details, errors };
+
+  const remainder = total - amounts.reduce((sum, a) => sum + a, 0);
+  amounts[0] += remainder;
+
+  return {
+    details: details.map((d, i) => ({ ...d, amount: amounts[i] / factor })),
+    errors,
+  };
+}
+
+/**
+ * The fewest transfers that settle every balance (positive = is owed).
+ *
+ * The minimum is (people - number of groups that already net to zero), so
+ * first split everyone into as many zero-sum groups as possible, then
+ * settle each group largest-debtor-to-largest-creditor. Amounts are in
+ * minor units so the grouping is exact.
+ */
+export function simplifyDebts(balances: Record<number, number>, currency = 'USD'): Transfer[] {
+  const factor = minorUnitFactor(currency);
+  const people = Object.entries(balances)
+    .map(([id, amount]) => ({ id: Number(id), amount: toMinor(amount, factor) }))
+    .filter(p => p.amount !== 0)
+    .sort((a, b) => a.id - b.id);
+
+  // Rounding can leave a cent unaccounted for; absorb it into the largest balance
+  const drift = people.reduce((sum, p) => sum + p.amount, 0);
+  if (drift !== 0 && people.length > 0) {
+    const largest = people.reduce((max, p) => (Math.abs(p.amount) > Math.abs(max.amount) ? p : max));
+    largest.amount -= drift;
+  }
+
+  const groups = people.length <= MAX_EXACT_PARTICIPANTS
+    ? zeroSumGroups(people)
+    : [people];
+
+  const transfers: Transfer[] = [];
+  for (const group of groups) {
+    const creditors = group.filter(p => p.amount > 0).map(p => ({ ...p }));
+    const debtors = group.filter(p => p.amount < 0).map(p => ({ ...p, amount: -p.amount }));
+
+    while (creditors.length > 0 && debtors.length > 0) {
+      creditors.sort((a, b) => b.amount - a.amount || a.id - b.id);
+      debtors.sort((a, b) => b.amount - a.amount || a.id - b.id);
+      const creditor = creditors[0];
+      const debtor = debtors[0];
+      const amount = Math.min(creditor.amount, debtor.amount);
+
+      transfers.push({ from: debtor.id, to: creditor.id, amount: amount / factor });
+      creditor.amount -= amount;
+      debtor.amount -= amount;
+      if (creditor.amount === 0) creditors.shift();
+      if (debtor.amount === 0) debtors.shift();
+    }
+  }
+
+  return transfers;
+}
+
+// Partition into the largest number of zero-sum groups (subset DP)
+function zeroSumGroups<T extends { amount: number }>(people: T[]): T[][] {
+  const n = people.length;
+  if (n === 0) return [];
+
+  const size = 1 << n;
+  const sums = new Array<number>(size).fill(0);
+  const best = new Array<number>(size).fill(0);
+  const removed = new Array<number>(size).fill(-1);
+
+  for (let mask = 1; mask < size; mask++) {
+    const low = Math.log2(mask & -mask);
+    sums[mask] = sums[mask & (mask - 1)] + people[low].amount;
+
+    for (let i = 0; i < n; i++) {
+      if (!(mask & (1 << i))) continue;
+      const candidate = best[mask ^ (1 << i)];
+      if (removed[mask] === -1 || candidate > best[mask]) {
+        best[mask] = candidate;
+        removed[mask] = i;
+      }
+    }
+    if (sums[mask] === 0) best[mask] += 1;
+  }
+
+  // Walk back down; consecutive zero-sum masks on the path bound each group
+  const groups: T[][] = [];
+  let mask = size - 1;
+  let groupMask = mask;
+  while (mask) {
+    mask ^= 1 << removed[mask];
+    if (sums[mask] === 0) {
+      const members = groupMask ^ mask;
+      groups.push(people.filter((_, i) => members & (1 << i)));
+      groupMask = mask;
+    }
+  }
+  return groups;
+}
+
+export interface MemberBalance {
+  user_id: number;
+  paid: number; // Expenses they paid for
+  share: number; // Their share of all expenses
+  sent: number; // Settlement payments made
+  received: number; // Settlement payments received
+  net: number; // Positive: is owed money
+  by_currency: Record<string, number>; // Net in each original currency
+}
+
+/**
+ * Net position per member in the home currency. Expenses marked settled
+ * before the ledger existed (no ledger entries) are left out entirely.
+ */
+export function computeBalances(
+  expenses: Array<Pick<GroupExpense, 'id' | 'total_amount' | 'currency' | 'paid_by' | 'split_details' | 'is_settled' | 'expense_date' | 'created_at'>>,
+  settlements: Array<Pick<ExpenseSettlement, 'expense_id' | 'from_user_id' | 'to_user_id' | 'amount' | 'currency' | 'settled_on'>>,
+  homeCurrency: string,
+  table: RateTable
+): { balances: Map<number, MemberBalance>; unconverted_expense_ids: number[]; unconverted_settlement_count: number } {
+  const balances = new Map<number, MemberBalance>();
+  const member = (userId: number) => {
+    if (!balances.has(userId)) {
+      balances.set(userId, { user_id: userId, paid: 0, share: 0, sent: 0, received: 0, net: 0, by_currency: {} });
+    }
+    return balances.get(userId)!;
+  };
+  const addOriginal = (userId: number, currency: string, amount: number) => {
+    const byCurrency = member(userId).by_currency;
+    byCurrency[currency] = (byCurrency[currency] || 0) + amount;
+  };
+
+  const ledgerExpenseIds = new Set(settlements.map(s => s.expense_id).filter((id): id is number => id != null));
+  const unconvertedExpenseIds: number[] = [];
+  let unconvertedSettlements = 0;
+
+  for (const expense of expenses) {
+    if (expense.is_settled && !ledgerExpenseIds.has(expense.id)) continue;
+
+    const currency = normalizeCurrencyCode(expense.currency, homeCurrency);
+    const rate = table.getRate(currency, homeCurrency, expense.expense_date || toDateString(expense.created_at));
+    if (!rate) {
+      unconvertedExpenseIds.push(expense.id);
+      continue;
+    }
+
+    member(expense.paid_by).paid += Number(expense.total_amount) * rate.rate;
+    addOriginal(expense.paid_by, currency, Number(expense.total_amount));
+    for (const split of expense.split_details || []) {
+      member(split.user_id).share += Number(split.amount) * rate.rate;
+      addOriginal(split.user_id, currency, -Number(split.amount));
+    }
+  }
+
+  for (const settlement of settlements) {
+    const currency = normalizeCurrencyCode(settlement.currency, homeCurrency);
+    const converted = table.convert(Number(settlement.amount), currency, homeCurrency, settlement.settled_on);
+    if (!converted) {
+      unconvertedSettlements++;
+      continue;
+    }
+    member(settlement.from_user_id).sent += converted.amount;
+    member(settlement.to_user_id).received += converted.amount;
+    addOriginal(settlement.from_user_id, currency, Number(settlement.amount));
+    addOriginal(settlement.to_user_id, currency, -Number(settlement.amount));
+  }
+
+  balances.forEach(balance => {
+    balance.net = roundMoney(balance.paid - balance.share + balance.sent - balance.received, homeCurrency);
+    balance.paid = roundMoney(balance.paid, homeCurrency);
+    balance.share = roundMoney(balance.share, homeCurrency);
+    balance.sent = roundMoney(balance.sent, homeCurrency);
+    balance.received = roundMoney(balance.received, homeCurrency);
+    balance.by_currency = Object.fromEntries(
+      Object.entries(balance.by_currency)
+        .map(([currency, amount]) => [currency, roundMoney(amount, currency)] as const)
+        .filter(([, amount]) => amount !== 0)
+    );
+  });
+
+  return { balances, unconverted_expense_ids: unconvertedExpenseIds, unconverted_settlement_count: unconvertedSettlements };
+}
+
+export interface NewSettlement {
+  from_user_id: number;
+  to_user_id: number;
+  amount: number;
+  currency?: string;
+  method?: typeof SETTLEMENT_METHODS[number];
+  settled_on?: string;
+  note?: string;
+  expense_id?: number;
+}
+
+export class SettleUpService {
+  /**
+   * Owner plus accepted collaborators, with display names.
+   */
+  async getTripMembers(tripId: number): Promise<Array<{ id: number; username: string; display_name: string | null }>> {
+    const [trip] = await db.select({ user_id: trips.user_id }).from(trips).where(eq(trips.id, tripId)).limit(1);
+    if (!trip) return [];
+
+    const collaborators = await db
+      .select({ user_id: tripCollaborators.user_id })
+      .from(tripCollaborators)
+      .where(and(eq(tripCollaborators.trip_id, tripId), eq(tripCollaborators.status, 'accepted')));
+
+    const ids = Array.from(new Set([trip.user_id, ...collaborators.map(c => c.user_id)]));
+    return db
+      .select({ id: users.id, username: users.username, display_name: users.display_name })
+      .from(users)
+      .where(inArray(users.id, ids));
+  }
+
+  async getSettlements(tripId: number): Promise<ExpenseSettlement[]> {
+    return db
+      .select()
+      .from(expenseSettlements)
+      .where(eq(expenseSettlements.trip_id, tripId))
+      .orderBy(desc(expenseSettlements.settled_on), desc(expenseSettlements.id));
+  }
+
+  async getSettlement(id: number): Promise<ExpenseSettlement | undefined> {
+    const [settlement] = await db.select().from(expenseSettlements).where(eq(expenseSettlements.id, id)).limit(1);
+    return settlement;
+  }
+
+  async getExpense(id: number): Promise<GroupExpense | undefined> {
+    const [expense] = await db.select().from(groupExpenses).where(eq(groupExpenses.id, id)).limit(1);
+    return expense;
+  }
+
+  async getSummary(tripId: number) {
+    const [trip] = await db
+      .select({ currency: trips.currency })
+      .from(trips)
+      .where(eq(trips.id, tripId))
+      .limit(1);
+    const homeCurrency = normalizeCurrencyCode(trip?.currency);
+
+    const [expenses, settlements, members, table] = await Promise.all([
+      db.select().from(groupExpenses).where(eq(groupExpenses.trip_id, tripId)),
+      this.getSettlements(tripId),
+      this.getTripMembers(tripId),
+      currencyService.getRateTable(),
+    ]);
+
+    const { balances, unconverted_expense_ids, unconverted_settlement_count } =
+      computeBalances(expenses, settlements, homeCurrency, table);
+    members.forEach(m => {
+      if (!balances.has(m.id)) balances.set(m.id, { user_id: m.id, paid: 0, share: 0, sent: 0, received: 0, net: 0, by_currency: {} });
+    });
+
+    const nets = Object.fromEntries(Array.from(balances.values()).map(b => [b.user_id, b.net]));
+    const totals = totalInCurrency(
+      expenses.map(e => ({
+        amount: Number(e.total_amount),
+        currency: normalizeCurrencyCode(e.currency, homeCurrency),
+        date: e.expense_date || toDateString(e.created_at),
+      })),
+      homeCurrency,
+      table
+    );
+
+    return {
+      trip_id: tripId,
+      currency: homeCurrency,
+      members,
+      balances: Array.from(balances.values()).sort((a, b) => b.net - a.net),
+      transfers: simplifyDebts(nets, homeCurrency),
+      settlements,
+      total_expenses: expenses.length,
+      total_amount: totals.total,
+      totals_by_currency: totals.by_currency,
+      unconverted_expense_ids,
+      unconverted_settlement_count,
+    };
+  }
+
+  async recordSettlement(tripId: number, recordedBy: number, settlement: NewSettlement, homeCurrency: string): Promise<ExpenseSettlement> {
+    const [created] = await db
+      .insert(expenseSettlements)
+      .values({
+        trip_id: tripId,
+        expense_id: settlement.expense_id ?? null,
+        from_user_id: settlement.from_user_id,
+        to_user_id: settlement.to_user_id,
+        amount: String(settlement.amount),
+        currency: normalizeCurrencyCode(settlement.currency, homeCurrency),
+        method: settlement.method || 'other',
+        settled_on: settlement.settled_on || toDateString(new Date()),
+        note: settlement.note ?? null,
+        recorded_by: recordedBy,
+      })
+      .returning();
+    return created;
+  }
+
+  async deleteSettlement(id: number): Promise<boolean> {
+    const result = await db.delete(expenseSettlements).where(eq(expenseSettlements.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Settle one expense in full: every unsettled share is recorded as a
+   * payment to whoever paid, then the expense is marked settled.
+   */
+  async settleExpense(expense: GroupExpense, recordedBy: number): Promise<{ expense: GroupExpense; settlements: ExpenseSettlement[] }> {
+    return db.transaction(async (tx) => {
+      const settledOn = toDateString(new Date());
+      const outstanding = (expense.split_details || []).filter(split =>
+        split.user_id !== expense.paid_by && !split.is_settled && Number(split.amount) > 0
+      );
+
+      const created = outstanding.length > 0
+        ? await tx.insert(expenseSettlements).values(outstanding.map(split => ({
+            trip_id: expense.trip_id,
+            expense_id: expense.id,
+            from_user_id: split.user_id,
+            to_user_id: expense.paid_by,
+            amount: String(split.amount),
+            currency: normalizeCurrencyCode(expense.currency),
+            method: 'other',
+            settled_on: settledOn,
+            recorded_by: recordedBy,
+          }))).returning()
+        : [];
+
+      const [updated] = await tx
+        .update(groupExpenses)
+        .set({
+          is_settled: true,
+          settled_at: new Date(),
+          split_details: (expense.split_details || []).map(split => ({ ...split, is_settled: true })),
+          updated_at: new Date(),
+        })
+        .where(eq(groupExpenses.id, expense.id))
+        .returning();
+
+      return { expense: updated, settlements: created };
+    });
+  }
+}
+
+export const settleUpService = new SettleUpService();
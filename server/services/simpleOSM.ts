@@ -12,6 +12,7 @@ interface RealPlace {
   type?: string;
   address?: string;
   cuisine?: string;
+  opening_hours?: string; // Raw OSM opening_hours value
 }
 
 /**
@@ -132,6 +133,10 @@ export async function getRealPlaces(
         if (element.tags.cuisine) {
           place.cuisine = element.tags.cuisine;
         }
+
+        if (element.tags.opening_hours) {
+          place.opening_hours = element.tags.opening_hours;
+        }
         
         places.push(place);
         
@@ -157,6 +162,7 @@ export function formatPlacesForPrompt(places: RealPlace[]): string {
     let line = `- ${p.name}`;
     if (p.address) line += ` (${p.address})`;
     if (p.cuisine) line += ` - ${p.cuisine} cuisine`;
+    if (p.opening_hours) line += ` - open ${p.opening_hours}`;
     line += ` [GPS: ${p.lat}, ${p.lon}]`;
     return line;
   }).join('\n');
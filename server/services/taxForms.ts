@@ -0,0 +1,386 @@
+/**
+ * Tax details and year-end earnings statements. Pure: the tax service loads
+ * the purchases and profiles and serves what these build.
+ *
+ *   isValidTin / maskTin  - SSN, EIN and foreign TIN checks and display
+ *   statementEntries      - a creator's sales and refunds in a calendar year
+ *   summarizeEarnings     - the 1099-style totals for that year
+ *   statementCsv          - the entries, for the creator's spreadsheet
+ *   statementPdf          - the summary as a one-page PDF statement
+ *   taxReportCsv          - the admin export of creators over the threshold
+ *
+ * Sales count in the year they were made and refunds in the year they were
+ * refunded, so a statement doesn't change once the year is over.
+ */
+
+export type TaxFormType = 'w9' | 'w8ben';
+export type TinType = 'ssn' | 'ein' | 'foreign';
+
+export interface EarningsRow {
+  purchaseId: number;
+  templateTitle: string | null;
+  bundlePurchaseId: number | null;
+  status: string | null;
+  price: string | null;
+  stripeFee: string | null;
+  platformFee: string | null;
+  sellerEarnings: string | null;
+  refundAmount: string | null;
+  purchasedAt: Date | null;
+  refundedAt: Date | null;
+}
+
+export interface StatementEntry {
+  date: Date;
+  kind: 'sale' | 'refund';
+  purchaseId: number;
+  template: string;
+  bundle: boolean;
+  amount: number; // Sale price, or the refund as a negative amount
+  stripeFee: number;
+  platformFee: number;
+  earnings: number; // Creator's share; negative for refunds
+}
+
+export interface AnnualSummary {
+  year: number;
+  sales: number;
+  bundleSales: number;
+  grossSales: number;
+  stripeFees: number;
+  platformFees: number;
+  earnings: number;
+  refunds: number;
+  refundedAmount: number;
+  refundedEarnings: number;
+  netEarnings: number; // The reportable amount
+  monthly: number[]; // Net earnings per month, January first
+}
+
+export interface StatementParty {
+  name: string;
+  addressLines: string[];
+  tin: string | null; // Masked for the recipient
+}
+
+export interface TaxReportLine {
+  userId: number;
+  email: string | null;
+  formType: TaxFormType | null; // null when no tax profile is on file
+  legalName: string | null;
+  businessName: string | null;
+  tinType: TinType | null;
+  tin: string | null;
+  addressLine1: string | null;
+  addressLine2: string | null;
+  city: string | null;
+  state: string | null;
+  postalCode: string | null;
+  country: string | null;
+  summary: AnnualSummary;
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Prefixes the IRS has never issued EINs under
+const INVALID_EIN_PREFIXES = ['00', '07', '08', '09', '17', '18', '19', '28', '29', '49', '69', '70', '78', '79', '89', '96', '97'];
+
+function toCents(amount: string | number | null | undefined): number {
+  return Math.round(parseFloat(String(amount ?? 0)) * 100) || 0;
+}
+
+function money(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function normalizeTin(type: TinType, value: string): string {
+  return type === 'foreign' ? value.replace(/\s/g, '').toUpperCase() : value.replace(/[\s-]/g, '');
+}
+
+export function isValidTin(type: TinType, value: string): boolean {
+  const tin = normalizeTin(type, value);
+  if (type === 'foreign') return /^[A-Z0-9-]{4,30}$/.test(tin);
+  if (!/^\d{9}$/.test(tin)) return false;
+  if (type === 'ein') return !INVALID_EIN_PREFIXES.includes(tin.slice(0, 2));
+  // SSNs: no 000, 666 or 9xx area, 00 group or 0000 serial
+  const area = tin.slice(0, 3);
+  return area !== '000' && area !== '666' && area[0] !== '9' && tin.slice(3, 5) !== '00' && tin.slice(5) !== '0000';
+}
+
+export function maskTin(type: TinType, last4: string): string {
+  if (type === 'ssn') return `***-**-${last4}`;
+  if (type === 'ein') return `**-***${last4}`;
+  return `****${last4}`;
+}
+
+/**
+ * Format a full TIN the way it is written on tax forms.
+ */
+export function formatTin(type: TinType, tin: string): string {
+  if (type === 'ssn') return `${tin.slice(0, 3)}-${tin.slice(3, 5)}-${tin.slice(5)}`;
+  if (type === 'ein') return `${tin.slice(0, 2)}-${tin.slice(2)}`;
+  return tin;
+}
+
+function inYear(date: Date | null, year: number): date is Date {
+  return !!date && date.getUTCFullYear() === year;
+}
+
+export function statementEntries(rows: EarningsRow[], year: number): StatementEntry[] {
+  const entries: StatementEntry[] = [];
+  for (const row of rows) {
+    // Free purchases earn nothing and aren't reported
+    if (toCents(row.price) <= 0 && toCents(row.sellerEarnings) <= 0) continue;
+    const base = {
+      purchaseId: row.purchaseId,
+      template: row.templateTitle ?? `Template purchase ${row.purchaseId}`,
+      bundle: !!row.bundlePurchaseId,
+    };
+
+    if (inYear(row.purchasedAt, year) && row.status !== 'pending' && row.status !== 'failed') {
+      entries.push({
+        ...base,
+        date: row.purchasedAt,
+        kind: 'sale',
+        amount: toCents(row.price) / 100,
+        stripeFee: toCents(row.stripeFee) / 100,
+        platformFee: toCents(row.platformFee) / 100,
+        earnings: toCents(row.sellerEarnings) / 100,
+      });
+    }
+    if (row.status === 'refunded' && inYear(row.refundedAt, year)) {
+      entries.push({
+        ...base,
+        date: row.refundedAt,
+        kind: 'refund',
+        amount: -toCents(row.refundAmount ?? row.price) / 100,
+        stripeFee: 0,
+        platformFee: 0,
+        earnings: -toCents(row.sellerEarnings) / 100,
+      });
+    }
+  }
+  return entries.sort((a, b) => a.date.getTime() - b.date.getTime() || a.purchaseId - b.purchaseId);
+}
+
+export function summarizeEarnings(entries: StatementEntry[], year: number): AnnualSummary {
+  const monthly = new Array(12).fill(0);
+  let sales = 0;
+  let bundleSales = 0;
+  let gross = 0;
+  let fees = 0;
+  let platform = 0;
+  let earnings = 0;
+  let refunds = 0;
+  let refunded = 0;
+  let refundedEarnings = 0;
+
+  for (const entry of entries) {
+    const cents = toCents(entry.earnings);
+    monthly[entry.date.getUTCMonth()] += cents;
+    if (entry.kind === 'sale') {
+      sales++;
+      if (entry.bundle) bundleSales++;
+      gross += toCents(entry.amount);
+      fees += toCents(entry.stripeFee);
+      platform += toCents(entry.platformFee);
+      earnings += cents;
+    } else {
+      refunds++;
+      refunded -= toCents(entry.amount);
+      refundedEarnings -= cents;
+    }
+  }
+
+  return {
+    year,
+    sales,
+    bundleSales,
+    grossSales: gross / 100,
+    stripeFees: fees / 100,
+    platformFees: platform / 100,
+    earnings: earnings / 100,
+    refunds,
+    refundedAmount: refunded / 100,
+    refundedEarnings: refundedEarnings / 100,
+    netEarnings: (earnings - refundedEarnings) / 100,
+    monthly: monthly.map(cents => cents / 100),
+  };
+}
+
+export function statementCsv(entries: StatementEntry[]): string {
+  const header = ['Date', 'Type', 'Purchase', 'Template', 'Bundle', 'Amount', 'Stripe fee', 'Platform fee', 'Your earnings'];
+  const lines = entries.map(entry => [
+    isoDate(entry.date),
+    entry.kind,
+    String(entry.purchaseId),
+    entry.template,
+    entry.bundle ? 'yes' : 'no',
+    money(toCents(entry.amount)),
+    money(toCents(entry.stripeFee)),
+    money(toCents(entry.platformFee)),
+    money(toCents(entry.earnings)),
+  ]);
+  const total = entries.reduce((sum, entry) => sum + toCents(entry.earnings), 0);
+  lines.push(['', 'total', '', '', '', '', '', '', money(total)]);
+  return [header, ...lines].map(line => line.map(csvField).join(',')).join('\n') + '\n';
+}
+
+export function taxReportCsv(lines: TaxReportLine[]): string {
+  const header = [
+    'user_id', 'email', 'form_type', 'legal_name', 'business_name', 'tin_type', 'tin',
+    'address_line1', 'address_line2', 'city', 'state', 'postal_code', 'country',
+    'sales', 'gross_sales', 'refunded_earnings', 'net_earnings',
+    ...MONTHS.map(month => month.slice(0, 3).toLowerCase()),
+  ];
+  const rows = lines.map(line => [
+    String(line.userId),
+    line.email ?? '',
+    line.formType ?? 'missing',
+    line.legalName ?? '',
+    line.businessName ?? '',
+    line.tinType ?? '',
+    line.tin && line.tinType ? formatTin(line.tinType, line.tin) : '',
+    line.addressLine1 ?? '',
+    line.addressLine2 ?? '',
+    line.city ?? '',
+    line.state ?? '',
+    line.postalCode ?? '',
+    line.country ?? '',
+    String(line.summary.sales),
+    money(toCents(line.summary.grossSales)),
+    money(toCents(line.summary.refundedEarnings)),
+    money(toCents(line.summary.netEarnings)),
+    ...line.summary.monthly.map(amount => money(toCents(amount))),
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+interface PdfLine {
+  text: string;
+  font?: 'regular' | 'bold' | 'mono';
+  size?: number;
+}
+
+const PDF_FONTS = { regular: 'F1', bold: 'F2', mono: 'F3' } as const;
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const PAGE_MARGIN = 56;
+
+function pdfText(value: string): string {
+  // Standard fonts only cover Latin-1; anything else is replaced
+  return value.replace(/[^\x20-\x7e\xa0-\xff]/g, '?').replace(/([\\()])/g, '\\$1');
+}
+
+/**
+ * A minimal text-only PDF: the standard Helvetica and Courier fonts, one
+ * line per entry, flowing onto new pages as needed.
+ */
+export function textPdf(lines: PdfLine[]): Buffer {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - PAGE_MARGIN;
+  for (const line of lines) {
+    const size = line.size ?? 10;
+    const height = size * 1.5;
+    if (y - height < PAGE_MARGIN) {
+      pages.push([]);
+      y = PAGE_HEIGHT - PAGE_MARGIN;
+    }
+    y -= height;
+    if (line.text) {
+      pages[pages.length - 1].push(`BT /${PDF_FONTS[line.font ?? 'regular']} ${size} Tf ${PAGE_MARGIN} ${y.toFixed(1)} Td (${pdfText(line.text)}) Tj ET`);
+    }
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3-5 fonts, then a page and its content per page
+  const fontObjects = ['Helvetica', 'Helvetica-Bold', 'Courier']
+    .map(name => `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`);
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    ...fontObjects,
+  ];
+  for (const [index, page] of pages.entries()) {
+    const content = page.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    );
+  }
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(body, 'latin1'));
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(body, 'latin1');
+}
+
+function row(label: string, value: string): string {
+  return `${label.padEnd(52, ' ')}${value.padStart(16, ' ')}`;
+}
+
+function dollars(amount: number): string {
+  const cents = toCents(amount);
+  const formatted = (Math.abs(cents) / 100).toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return `${cents < 0 ? '-' : ''}$${formatted}`;
+}
+
+export function statementPdf(
+  summary: AnnualSummary,
+  payer: StatementParty,
+  recipient: StatementParty & { formType: TaxFormType | null },
+  options: { threshold: number; generatedAt?: Date },
+): Buffer {
+  const party = (title: string, details: StatementParty): PdfLine[] => [
+    { text: title, font: 'bold' },
+    { text: details.name },
+    ...details.addressLines.filter(Boolean).map(text => ({ text })),
+    { text: `TIN: ${details.tin ?? 'not on file'}` },
+    { text: '' },
+  ];
+
+  const lines: PdfLine[] = [
+    { text: `Annual Earnings Statement ${summary.year}`, font: 'bold', size: 16 },
+    { text: `1099-style summary of template earnings for ${summary.year}. This statement is not an IRS form.`, size: 9 },
+    { text: '' },
+    ...party('Payer', payer),
+    ...party('Recipient', recipient),
+    { text: recipient.formType ? `Tax form on file: ${recipient.formType === 'w9' ? 'W-9' : 'W-8BEN'}` : 'Tax form on file: none', size: 9 },
+    { text: '' },
+    { text: 'Summary', font: 'bold' },
+    { text: row(`Gross sales (${summary.sales} sales, ${summary.bundleSales} in bundles)`, dollars(summary.grossSales)), font: 'mono', size: 9 },
+    { text: row('Payment processing fees', dollars(-summary.stripeFees)), font: 'mono', size: 9 },
+    { text: row('Platform fees', dollars(-summary.platformFees)), font: 'mono', size: 9 },
+    { text: row('Earnings from sales', dollars(summary.earnings)), font: 'mono', size: 9 },
+    { text: row(`Refunded earnings (${summary.refunds} refunds)`, dollars(-summary.refundedEarnings)), font: 'mono', size: 9 },
+    { text: row('Net earnings', dollars(summary.netEarnings)), font: 'mono', size: 9 },
+    { text: '' },
+    { text: 'Net earnings by month', font: 'bold' },
+    ...summary.monthly.map((amount, month) => ({ text: row(MONTHS[month], dollars(amount)), font: 'mono' as const, size: 9 })),
+    { text: '' },
+    {
+      text: summary.netEarnings >= options.threshold
+        ? `Net earnings reached the $${options.threshold} reporting threshold.`
+        : `Net earnings are below the $${options.threshold} reporting threshold.`,
+      size: 9,
+    },
+    { text: `Generated ${isoDate(options.generatedAt ?? new Date())}`, size: 8 },
+  ];
+  return textPdf(lines);
+}
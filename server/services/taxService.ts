@@ -0,0 +1,344 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { and, eq, gte, inArray, lt, or, sql } from 'drizzle-orm';
+import {
+  creatorBalances,
+  creatorTaxProfiles,
+  templatePurchases,
+  templates,
+  users,
+  CreatorTaxProfile,
+} from '@shared/schema';
+import { db } from '../db-connection';
+import { logger } from '../utils/logger';
+import { auditService } from './auditService';
+import { TAX_INFO_THRESHOLD } from './creatorPayoutService';
+import {
+  AnnualSummary,
+  EarningsRow,
+  StatementParty,
+  TaxFormType,
+  TaxReportLine,
+  TinType,
+  isValidTin,
+  maskTin,
+  normalizeTin,
+  statementCsv,
+  statementEntries,
+  statementPdf,
+  summarizeEarnings,
+  taxReportCsv,
+} from './taxForms';
+
+/**
+ * Creator tax details and year-end statements. Creators submit a W-9 (US
+ * persons) or W-8BEN (foreign individuals); either one sets
+ * creator_balances.w9_on_file, which payouts over the threshold require.
+ * The TIN is encrypted with AES-256-GCM under TAX_ENCRYPTION_KEY and only
+ * decrypted for the admin's annual export.
+ *
+ * Statements are built from template_purchases, which include each
+ * template's share of a bundle sale.
+ */
+
+// Net earnings from this amount are reported; the same amount payouts need tax details for
+export const TAX_REPORTING_THRESHOLD = TAX_INFO_THRESHOLD;
+
+const TIN_CIPHER = 'aes-256-gcm';
+const TIN_FORMAT_VERSION = 'v1';
+
+export class TaxError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'TaxError';
+  }
+}
+
+const country = z.string().trim().length(2).transform(value => value.toUpperCase());
+
+const taxProfileBase = {
+  legal_name: z.string().trim().min(1).max(200),
+  address_line1: z.string().trim().min(1).max(200),
+  address_line2: z.string().trim().max(200).optional(),
+  city: z.string().trim().min(1).max(100),
+  state: z.string().trim().max(100).optional(),
+  postal_code: z.string().trim().max(20).optional(),
+  tin: z.string().trim().min(4).max(30),
+  signature_name: z.string().trim().min(1).max(200),
+  // The creator certifies the form's statements under penalties of perjury
+  certify: z.literal(true),
+};
+
+export const taxProfileSchema = z.discriminatedUnion('form_type', [
+  z.object({
+    ...taxProfileBase,
+    form_type: z.literal('w9'),
+    business_name: z.string().trim().max(200).optional(),
+    tax_classification: z.enum(['individual', 'c_corporation', 's_corporation', 'partnership', 'trust_estate', 'llc', 'other']),
+    tin_type: z.enum(['ssn', 'ein']),
+    state: z.string().trim().length(2),
+    postal_code: z.string().trim().regex(/^\d{5}(-\d{4})?$/),
+  }),
+  z.object({
+    ...taxProfileBase,
+    form_type: z.literal('w8ben'),
+    citizenship_country: country.refine(value => value !== 'US', 'US citizens submit a W-9'),
+    country: country.refine(value => value !== 'US', 'US residents submit a W-9'),
+    date_of_birth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    tin_type: z.enum(['foreign', 'ssn', 'ein']).default('foreign'),
+    treaty_country: country.optional(),
+    treaty_article: z.string().trim().max(50).optional(),
+    treaty_rate: z.coerce.number().min(0).max(30).optional(),
+  }),
+]);
+
+export type TaxProfileInput = z.infer<typeof taxProfileSchema>;
+
+export type VisibleTaxProfile = Omit<CreatorTaxProfile, 'tin_encrypted'> & { tin_masked: string };
+
+function encryptionKey(): Buffer {
+  const value = process.env.TAX_ENCRYPTION_KEY;
+  const key = value ? Buffer.from(value, /^[0-9a-f]{64}$/i.test(value) ? 'hex' : 'base64') : null;
+  if (!key || key.length !== 32) {
+    throw new TaxError(503, 'Tax information storage is not configured');
+  }
+  return key;
+}
+
+export function encryptTin(tin: string, key: Buffer): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(TIN_CIPHER, key, iv);
+  const encrypted = Buffer.concat([cipher.update(tin, 'utf8'), cipher.final()]);
+  return [TIN_FORMAT_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+}
+
+export function decryptTin(value: string, key: Buffer): string {
+  const [version, iv, tag, encrypted] = value.split(':');
+  if (version !== TIN_FORMAT_VERSION || !iv || !tag || !encrypted) {
+    throw new TaxError(500, 'Unreadable encrypted TIN');
+  }
+  const decipher = crypto.createDecipheriv(TIN_CIPHER, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+}
+
+function visibleProfile(profile: CreatorTaxProfile): VisibleTaxProfile {
+  const { tin_encrypted, ...rest } = profile;
+  return { ...rest, tin_masked: maskTin(profile.tin_type as TinType, profile.tin_last4) };
+}
+
+function yearRange(year: number): { start: Date; end: Date } {
+  return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)) };
+}
+
+function payer(): StatementParty {
+  return {
+    name: process.env.TAX_PAYER_NAME || 'Remvana',
+    addressLines: (process.env.TAX_PAYER_ADDRESS || '').split('|').map(line => line.trim()),
+    tin: process.env.TAX_PAYER_TIN || null,
+  };
+}
+
+export class TaxService {
+  async getProfile(userId: number): Promise<VisibleTaxProfile | null> {
+    const [profile] = await db.select().from(creatorTaxProfiles).where(eq(creatorTaxProfiles.user_id, userId));
+    return profile ? visibleProfile(profile) : null;
+  }
+
+  /**
+   * Save the creator's W-9 or W-8BEN, replacing any earlier one, and mark
+   * tax information as on file for payouts.
+   */
+  async saveProfile(userId: number, input: TaxProfileInput): Promise<VisibleTaxProfile> {
+    if (!isValidTin(input.tin_type, input.tin)) {
+      throw new TaxError(400, `Invalid ${input.tin_type === 'foreign' ? 'foreign tax identifying number' : input.tin_type.toUpperCase()}`);
+    }
+    const tin = normalizeTin(input.tin_type, input.tin);
+
+    const values = {
+      user_id: userId,
+      form_type: input.form_type,
+      legal_name: input.legal_name,
+      business_name: input.form_type === 'w9' ? input.business_name || null : null,
+      tax_classification: input.form_type === 'w9' ? input.tax_classification : null,
+      citizenship_country: input.form_type === 'w8ben' ? input.citizenship_country : null,
+      date_of_birth: input.form_type === 'w8ben' ? input.date_of_birth : null,
+      address_line1: input.address_line1,
+      address_line2: input.address_line2 || null,
+      city: input.city,
+      state: input.state || null,
+      postal_code: input.postal_code || null,
+      country: input.form_type === 'w8ben' ? input.country : 'US',
+      tin_type: input.tin_type,
+      tin_encrypted: encryptTin(tin, encryptionKey()),
+      tin_last4: tin.slice(-4),
+      treaty_country: input.form_type === 'w8ben' ? input.treaty_country ?? null : null,
+      treaty_article: input.form_type === 'w8ben' ? input.treaty_article ?? null : null,
+      treaty_rate: input.form_type === 'w8ben' && input.treaty_rate !== undefined ? input.treaty_rate.toFixed(2) : null,
+      signature_name: input.signature_name,
+      signed_at: new Date(),
+      updated_at: new Date(),
+    };
+
+    const profile = await db.transaction(async (tx) => {
+      const [saved] = await tx.insert(creatorTaxProfiles)
+        .values(values)
+        .onConflictDoUpdate({ target: creatorTaxProfiles.user_id, set: values })
+        .returning();
+      await tx.insert(creatorBalances)
+        .values({ user_id: userId, w9_on_file: true })
+        .onConflictDoUpdate({ target: creatorBalances.user_id, set: { w9_on_file: true, updated_at: new Date() } });
+      return saved;
+    });
+
+    await auditService.log({
+      eventType: 'tax.profile_submitted',
+      userId,
+      entityId: profile.id,
+      entityType: 'creator_tax_profile',
+      metadata: { formType: profile.form_type, tinType: profile.tin_type },
+    });
+    return visibleProfile(profile);
+  }
+
+  private async earningsRows(year: number, sellerIds?: number[]): Promise<Array<EarningsRow & { sellerId: number }>> {
+    const { start, end } = yearRange(year);
+    return db
+      .select({
+        sellerId: templatePurchases.seller_id,
+        purchaseId: templatePurchases.id,
+        templateTitle: templates.title,
+        bundlePurchaseId: templatePurchases.bundle_purchase_id,
+        status: templatePurchases.status,
+        price: templatePurchases.price,
+        stripeFee: templatePurchases.stripe_fee,
+        platformFee: templatePurchases.platform_fee,
+        sellerEarnings: templatePurchases.seller_earnings,
+        refundAmount: templatePurchases.refund_amount,
+        purchasedAt: templatePurchases.purchased_at,
+        refundedAt: templatePurchases.refunded_at,
+      })
+      .from(templatePurchases)
+      .leftJoin(templates, eq(templates.id, templatePurchases.template_id))
+      .where(and(
+        sellerIds ? inArray(templatePurchases.seller_id, sellerIds) : undefined,
+        or(
+          and(gte(templatePurchases.purchased_at, start), lt(templatePurchases.purchased_at, end)),
+          and(gte(templatePurchases.refunded_at, start), lt(templatePurchases.refunded_at, end)),
+        ),
+      ));
+  }
+
+  /**
+   * Summaries for every year the creator had sales or refunds, newest first.
+   */
+  async listStatements(userId: number): Promise<AnnualSummary[]> {
+    const years = await db
+      .selectDistinct({ year: sql<number>`EXTRACT(YEAR FROM ${templatePurchases.purchased_at})::int` })
+      .from(templatePurchases)
+      .where(and(eq(templatePurchases.seller_id, userId), sql`${templatePurchases.purchased_at} IS NOT NULL`));
+    const refundYears = await db
+      .selectDistinct({ year: sql<number>`EXTRACT(YEAR FROM ${templatePurchases.refunded_at})::int` })
+      .from(templatePurchases)
+      .where(and(eq(templatePurchases.seller_id, userId), sql`${templatePurchases.refunded_at} IS NOT NULL`));
+
+    const allYears = Array.from(new Set([...years, ...refundYears].map(row => Number(row.year)))).sort((a, b) => b - a);
+    const summaries: AnnualSummary[] = [];
+    for (const year of allYears) {
+      const summary = summarizeEarnings(statementEntries(await this.earningsRows(year, [userId]), year), year);
+      if (summary.sales > 0 || summary.refunds > 0) summaries.push(summary);
+    }
+    return summaries;
+  }
+
+  async statement(userId: number, year: number, format: 'csv' | 'pdf'): Promise<{ fileName: string; contentType: string; body: string | Buffer }> {
+    const entries = statementEntries(await this.earningsRows(year, [userId]), year);
+    const fileName = `remvana-earnings-${year}.${format}`;
+    if (format === 'csv') {
+      return { fileName, contentType: 'text/csv; charset=utf-8', body: statementCsv(entries) };
+    }
+
+    const [profile] = await db.select().from(creatorTaxProfiles).where(eq(creatorTaxProfiles.user_id, userId));
+    const [user] = await db.select({ displayName: users.display_name, username: users.username }).from(users).where(eq(users.id, userId));
+    const recipient = profile
+      ? {
+        name: profile.business_name ? `${profile.legal_name} (${profile.business_name})` : profile.legal_name,
+        addressLines: [
+          profile.address_line1,
+          profile.address_line2 ?? '',
+          [profile.city, profile.state, profile.postal_code].filter(Boolean).join(' '),
+          profile.country === 'US' ? '' : profile.country,
+        ],
+        tin: maskTin(profile.tin_type as TinType, profile.tin_last4),
+        formType: profile.form_type as TaxFormType,
+      }
+      : { name: user?.displayName || user?.username || `Creator ${userId}`, addressLines: [], tin: null, formType: null };
+
+    return {
+      fileName,
+      contentType: 'application/pdf',
+      body: statementPdf(summarizeEarnings(entries, year), payer(), recipient, { threshold: TAX_REPORTING_THRESHOLD }),
+    };
+  }
+
+  /**
+   * Creators whose net earnings for the year reached the reporting
+   * threshold, with their tax details. The TIN is only decrypted when
+   * asked for, for the filing export.
+   */
+  async taxReport(year: number, options: { includeTin?: boolean } = {}): Promise<TaxReportLine[]> {
+    const rows = await this.earningsRows(year);
+    const bySeller = new Map<number, EarningsRow[]>();
+    for (const row of rows) {
+      bySeller.set(row.sellerId, [...(bySeller.get(row.sellerId) ?? []), row]);
+    }
+
+    const summaries = Array.from(bySeller)
+      .map(([userId, sellerRows]) => ({ userId, summary: summarizeEarnings(statementEntries(sellerRows, year), year) }))
+      .filter(({ summary }) => summary.netEarnings >= TAX_REPORTING_THRESHOLD)
+      .sort((a, b) => a.userId - b.userId);
+    if (summaries.length === 0) return [];
+
+    const userIds = summaries.map(({ userId }) => userId);
+    const profiles = await db.select().from(creatorTaxProfiles).where(inArray(creatorTaxProfiles.user_id, userIds));
+    const emails = await db.select({ id: users.id, email: users.email }).from(users).where(inArray(users.id, userIds));
+    const profileByUser = new Map(profiles.map(profile => [profile.user_id, profile]));
+    const emailByUser = new Map(emails.map(user => [user.id, user.email]));
+    const key = options.includeTin && profiles.length > 0 ? encryptionKey() : null;
+
+    return summaries.map(({ userId, summary }) => {
+      const profile = profileByUser.get(userId);
+      return {
+        userId,
+        email: emailByUser.get(userId) ?? null,
+        formType: (profile?.form_type as TaxFormType) ?? null,
+        legalName: profile?.legal_name ?? null,
+        businessName: profile?.business_name ?? null,
+        tinType: (profile?.tin_type as TinType) ?? null,
+        tin: profile ? (key ? decryptTin(profile.tin_encrypted, key) : maskTin(profile.tin_type as TinType, profile.tin_last4)) : null,
+        addressLine1: profile?.address_line1 ?? null,
+        addressLine2: profile?.address_line2 ?? null,
+        city: profile?.city ?? null,
+        state: profile?.state ?? null,
+        postalCode: profile?.postal_code ?? null,
+        country: profile?.country ?? null,
+        summary,
+      };
+    });
+  }
+
+  async taxReportExport(year: number, adminId: number): Promise<string> {
+    const lines = await this.taxReport(year, { includeTin: true });
+    await auditService.log({
+      eventType: 'tax.report_exported',
+      userId: adminId,
+      entityId: year,
+      entityType: 'tax_report',
+      metadata: { creators: lines.length, missingProfiles: lines.filter(line => !line.formType).length },
+    });
+    logger.info(`Tax report for ${year} exported by admin ${adminId} (${lines.length} creators)`);
+    return taxReportCsv(lines);
+  }
+}
+
+export const taxService = new TaxService();
@@ -5,6 +5,8 @@ import { geocodingService } from './geocodingService';
 import crypto from 'crypto';
 import { db } from '../db-connection';
 import { trips, activities } from '@shared/schema';
+import { templateVersionService } from './templateVersionService';
+import { buyerWatermark } from './templateWatermark';
 
 /**
  * Service to copy a purchased template to user's trips
@@ -36,7 +38,9 @@ export class TemplateCopyService {
         throw new Error('Template not purchased');
       }
 
-      const tripData = template.trip_data as any;
+      // Published templates are copied from their latest version, not the draft
+      const version = await templateVersionService.ensurePublishedVersion(template);
+      const tripData = (version?.trip_data ?? template.trip_data) as any;
       if (!tripData) {
         throw new Error('Template has no trip data');
       }
@@ -76,8 +80,9 @@ export class TemplateCopyService {
           templateSellerId: template.user_id,
           purchaserId: userId,
           copiedAt: new Date().toISOString(),
-          // Add a unique watermark for tracking
-          watermark: `${templateId}-${userId}-${Date.now()}`,
+          datesChosen: !!startDate, // Otherwise the trip starts today as a placeholder
+          // Signed buyer watermark for tracking
+          watermark: buyerWatermark(templateId, userId),
           // Hash of the original template content for verification
           contentHash: this.generateContentHash(template)
         }]
@@ -166,6 +171,7 @@ export class TemplateCopyService {
               tag: activity.tag,
               order: order++,
               travel_mode: activity.travelMode || activity.travel_mode,
+              template_item_key: activity.key || null,
             });
             } catch (activityError) {
               logger.error(`Failed to create activity "${activity.title}":`, activityError);
@@ -254,6 +260,7 @@ export class TemplateCopyService {
             tag: activity.tag,
             order: activity.order || 0,
             travel_mode: activity.travelMode || activity.travel_mode,
+            template_item_key: activity.key || null,
           });
           } catch (activityError) {
             logger.error(`Failed to create activity "${activity.title}":`, activityError);
@@ -262,6 +269,8 @@ export class TemplateCopyService {
         }
       }
 
+      await templateVersionService.linkPurchase(templateId, userId, newTrip.id, version?.version ?? null);
+
       logger.info(`Copied template ${templateId} to trip ${newTrip.id} for user ${userId}`);
       return newTrip.id;
     } catch (error) {
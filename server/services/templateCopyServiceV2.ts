@@ -6,6 +6,8 @@ import { geocodingBatchService } from './geocodingBatchService';
 import crypto from 'crypto';
 import { db } from '../db-connection';
 import { trips, activities } from '@shared/schema';
+import { templateVersionService } from './templateVersionService';
+import { buyerWatermark } from './templateWatermark';
 import { eq } from 'drizzle-orm';
 
 /**
@@ -22,8 +24,10 @@ export class TemplateCopyServiceV2 {
     endDate?: Date
   ): Promise<number> {
     try {
+      let copiedVersion: number | null = null;
+
       // Use database transaction for atomicity
-      return await db.transaction(async (tx) => {
+      const tripId = await db.transaction(async (tx) => {
         // Get template within transaction
         const template = await storage.getTemplate(templateId);
         if (!template) {
@@ -36,7 +40,10 @@ export class TemplateCopyServiceV2 {
           throw new Error('Template not purchased');
         }
 
-        const tripData = template.trip_data as any;
+        // Published templates are copied from their latest version, not the draft
+        const version = await templateVersionService.ensurePublishedVersion(template);
+        copiedVersion = version?.version ?? null;
+        const tripData = (version?.trip_data ?? template.trip_data) as any;
 
         // Calculate dates
         const defaultDuration = template.duration || 7;
@@ -73,7 +80,8 @@ export class TemplateCopyServiceV2 {
             templateSellerId: template.user_id,
             purchaserId: userId,
             copiedAt: new Date().toISOString(),
-            watermark: `${templateId}-${userId}-${Date.now()}`,
+            datesChosen: !!startDate, // Otherwise the trip starts today as a placeholder
+            watermark: buyerWatermark(templateId, userId),
             contentHash: this.generateContentHash(template)
           }]
         }).returning();
@@ -131,6 +139,7 @@ export class TemplateCopyServiceV2 {
                 tag: activity.tag,
                 order: order++,
                 travel_mode: activity.travelMode || activity.travel_mode,
+                template_item_key: activity.key || null,
               });
             }
           }
@@ -177,6 +186,7 @@ export class TemplateCopyServiceV2 {
               tag: activity.tag,
               order: activity.order ?? i,
               travel_mode: activity.travelMode || activity.travel_mode,
+              template_item_key: activity.key || null,
             });
           }
         }
@@ -208,6 +218,9 @@ export class TemplateCopyServiceV2 {
         logger.info(`Successfully copied template ${templateId} to trip ${newTrip.id} for user ${userId}`);
         return newTrip.id;
       });
+
+      await templateVersionService.linkPurchase(templateId, userId, tripId, copiedVersion);
+      return tripId;
     } catch (error) {
       logger.error(`Failed to copy template ${templateId} for user ${userId}:`, error);
       throw error; // Re-throw to maintain transaction rollback
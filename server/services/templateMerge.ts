@@ -0,0 +1,228 @@
+import { normalizePlaceName } from '../utils/placeNames';
+
+/**
+ * Template activities and the three-way merge behind template updates.
+ *
+ * A template's trip_data holds activities either by day
+ * (`days: [{ day, activities }]`) or as a flat list with `day`/`date`. Each
+ * published version gives its activities a stable `key`, carried over from
+ * the previous version by title, and copies into a buyer's trip remember it
+ * (activities.template_item_key). Updating a trip from version A to B merges
+ * B's changes since A with the buyer's own edits since A:
+ *   - a field the creator changed is updated unless the buyer changed it too
+ *     (then the buyer's value stays and it's reported as a conflict)
+ *   - new activities are added
+ *   - activities the creator removed are removed, unless the buyer edited them
+ *   - activities the buyer deleted or added are left alone
+ * Copying fills in times and coordinates the template leaves empty (default
+ * times, geocoding), so for those a value where the base had none doesn't
+ * count as the buyer's edit.
+ */
+
+export interface TemplateItem {
+  key: string;
+  day: number;
+  title: string;
+  time: string | null;
+  location: string | null;
+  notes: string | null;
+  tag: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// An activity in the buyer's trip, in template terms
+export interface TripItem extends Omit<TemplateItem, 'key'> {
+  key: string | null;
+  activityId: number;
+  version: number;
+}
+
+export const MERGE_FIELDS = ['day', 'time', 'title', 'location', 'notes', 'tag', 'latitude', 'longitude'] as const;
+export type MergeField = typeof MERGE_FIELDS[number];
+
+export type MergeChange =
+  | { type: 'add'; item: TemplateItem }
+  | { type: 'update'; activityId: number; baseVersion: number; key: string; title: string; fields: Partial<Pick<TemplateItem, MergeField>> }
+  | { type: 'remove'; activityId: number; key: string; title: string };
+
+export interface MergeConflict {
+  key: string;
+  title: string;
+  field?: MergeField;
+  reason: string;
+}
+
+export interface MergeResult {
+  changes: MergeChange[];
+  conflicts: MergeConflict[];
+}
+
+function text(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const trimmed = String(value).trim();
+  return trimmed === '' ? null : trimmed;
+}
+
+function coordinate(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function rawItems(tripData: any): Array<{ raw: any; day: number; index: number }> {
+  const items: Array<{ raw: any; day: number; index: number }> = [];
+  if (Array.isArray(tripData?.days)) {
+    for (const day of tripData.days) {
+      const dayNumber = parseInt(day?.day) || 1;
+      (Array.isArray(day?.activities) ? day.activities : []).forEach((raw: any, index: number) => {
+        if (raw?.title) items.push({ raw, day: dayNumber, index });
+      });
+    }
+  } else if (Array.isArray(tripData?.activities)) {
+    tripData.activities.forEach((raw: any, index: number) => {
+      if (raw?.title) items.push({ raw, day: parseInt(raw.day) || 1, index });
+    });
+  }
+  return items;
+}
+
+/**
+ * The activities in a template's trip_data. Activities without a key (data
+ * from before versioning) get one from their position.
+ */
+export function templateItems(tripData: any): TemplateItem[] {
+  return rawItems(tripData).map(({ raw, day, index }) => ({
+    key: text(raw.key) ?? `d${day}-${index}`,
+    day,
+    title: String(raw.title).trim(),
+    time: text(raw.time),
+    location: text(raw.location ?? raw.locationName ?? raw.location_name),
+    notes: text(raw.notes),
+    tag: text(raw.tag),
+    latitude: coordinate(raw.latitude),
+    longitude: coordinate(raw.longitude),
+  }));
+}
+
+/**
+ * trip_data for a new version, with every activity keyed: activities keep
+ * their key, or take the key of the previous version's activity with the
+ * same title (on the same day if there's a choice), or get a new one.
+ * Returns a copy; the input is left as it is.
+ */
+export function assignItemKeys(tripData: any, previousTripData: any, newKey: () => string): any {
+  const copy = JSON.parse(JSON.stringify(tripData ?? {}));
+  const previous = templateItems(previousTripData);
+  const taken = new Set<string>();
+  const items = rawItems(copy);
+
+  // Explicit keys first, so title matching can't hand them to another activity
+  for (const { raw } of items) {
+    if (text(raw.key)) taken.add(String(raw.key));
+  }
+  for (const { raw, day } of items) {
+    if (text(raw.key)) continue;
+    const title = normalizePlaceName(String(raw.title));
+    const sameTitle = previous.filter(item => !taken.has(item.key) && normalizePlaceName(item.title) === title);
+    const match = sameTitle.find(item => item.day === day) ?? sameTitle[0];
+    let key = match?.key;
+    while (!key || taken.has(key)) key = newKey();
+    raw.key = key;
+    taken.add(key);
+  }
+  return copy;
+}
+
+function sameValue(field: MergeField, a: unknown, b: unknown): boolean {
+  if (field === 'latitude' || field === 'longitude') {
+    const left = coordinate(a);
+    const right = coordinate(b);
+    return left === right || (left !== null && right !== null && Math.abs(left - right) < 1e-6);
+  }
+  return (field === 'day' ? a : text(a)) === (field === 'day' ? b : text(b));
+}
+
+const COPY_FILLED_FIELDS: MergeField[] = ['time', 'latitude', 'longitude'];
+
+function buyerChanged(field: MergeField, before: TemplateItem, current: TripItem): boolean {
+  if (before[field] === null && COPY_FILLED_FIELDS.includes(field)) return false;
+  return !sameValue(field, current[field], before[field]);
+}
+
+/**
+ * Give trip activities copied before keys were recorded the key of the base
+ * version activity with the same title and day.
+ */
+export function matchUnkeyedItems(base: TemplateItem[], ours: TripItem[]): TripItem[] {
+  const claimed = new Set(ours.map(item => item.key).filter(Boolean));
+  return ours.map(item => {
+    if (item.key) return item;
+    const title = normalizePlaceName(item.title);
+    const match = base.find(candidate =>
+      !claimed.has(candidate.key) && candidate.day === item.day && normalizePlaceName(candidate.title) === title);
+    if (!match) return item;
+    claimed.add(match.key);
+    return { ...item, key: match.key };
+  });
+}
+
+export function mergeTemplateUpdate(base: TemplateItem[], theirs: TemplateItem[], ours: TripItem[]): MergeResult {
+  const baseByKey = new Map(base.map(item => [item.key, item]));
+  const theirsByKey = new Map(theirs.map(item => [item.key, item]));
+  const oursByKey = new Map(ours.filter(item => item.key).map(item => [item.key!, item]));
+  const changes: MergeChange[] = [];
+  const conflicts: MergeConflict[] = [];
+
+  for (const next of theirs) {
+    const before = baseByKey.get(next.key);
+    const current = oursByKey.get(next.key);
+
+    if (!before) {
+      if (!current) changes.push({ type: 'add', item: next });
+      continue;
+    }
+
+    const changedFields = MERGE_FIELDS.filter(field => !sameValue(field, before[field], next[field]));
+    if (!current) {
+      if (changedFields.length > 0) {
+        conflicts.push({ key: next.key, title: next.title, reason: 'You removed this activity; the new version changes it' });
+      }
+      continue;
+    }
+
+    const fields: Partial<Record<MergeField, unknown>> = {};
+    for (const field of changedFields) {
+      if (sameValue(field, current[field], next[field])) continue;
+      if (!buyerChanged(field, before, current)) {
+        fields[field] = next[field];
+      } else {
+        conflicts.push({ key: next.key, title: current.title, field, reason: `You changed the ${field}; the new version changes it too` });
+      }
+    }
+    if (Object.keys(fields).length > 0) {
+      changes.push({
+        type: 'update',
+        activityId: current.activityId,
+        baseVersion: current.version,
+        key: next.key,
+        title: current.title,
+        fields: fields as Partial<Pick<TemplateItem, MergeField>>,
+      });
+    }
+  }
+
+  for (const before of base) {
+    if (theirsByKey.has(before.key)) continue;
+    const current = oursByKey.get(before.key);
+    if (!current) continue;
+    const edited = MERGE_FIELDS.some(field => buyerChanged(field, before, current));
+    if (edited) {
+      conflicts.push({ key: before.key, title: current.title, reason: 'The new version removes this activity; kept because you changed it' });
+    } else {
+      changes.push({ type: 'remove', activityId: current.activityId, key: before.key, title: current.title });
+    }
+  }
+
+  return { changes, conflicts };
+}
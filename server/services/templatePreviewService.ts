@@ -0,0 +1,182 @@
+import type { Template } from '@shared/schema';
+import { parseTimeOfDay } from '../utils/timeOfDay';
+import { TemplateItem, templateItems } from './templateMerge';
+
+/**
+ * Previews of paid templates for people who haven't bought them. The preview
+ * is built on the server from trip_data and is all non-buyers get: enough to
+ * judge the trip (its shape, what kind of days, where it goes) without the
+ * itinerary itself. Nothing in it carries notes, costs or exact coordinates.
+ *
+ * How much it shows is the template's preview_level:
+ *   minimal  - day outlines (title, number of activities, categories)
+ *   standard - also an area heatmap and one sample day
+ *   extended - also each day's activity titles and time of day
+ */
+
+export const PREVIEW_LEVELS = ['minimal', 'standard', 'extended'] as const;
+export type PreviewLevel = typeof PREVIEW_LEVELS[number];
+
+export type TimeOfDayBucket = 'morning' | 'afternoon' | 'evening';
+
+export interface PreviewActivity {
+  title: string;
+  timeOfDay: TimeOfDayBucket | null;
+  category: string;
+}
+
+export interface DayOutline {
+  day: number;
+  title: string | null;
+  activityCount: number;
+  categories: string[];
+  activities?: PreviewActivity[]; // extended only
+}
+
+export interface HeatmapCell {
+  latitude: number;
+  longitude: number;
+  weight: number; // Activities in the cell
+}
+
+export interface SampleDay {
+  day: number;
+  title: string | null;
+  activities: Array<PreviewActivity & { time: string | null; location: string | null }>;
+}
+
+export interface TemplatePreview {
+  level: PreviewLevel;
+  dayCount: number;
+  activityCount: number;
+  categories: Array<{ category: string; count: number }>;
+  days: DayOutline[];
+  heatmap: HeatmapCell[];
+  sampleDay: SampleDay | null;
+  budget: { level: string | null; total: number | null; daily: number | null; currency: string | null } | null;
+}
+
+// About a kilometre: shows the areas a trip covers, not the places
+const HEATMAP_CELL_DEGREES = 0.01;
+
+const DEFAULT_CATEGORY = 'activity';
+
+export function isPreviewLevel(value: unknown): value is PreviewLevel {
+  return typeof value === 'string' && (PREVIEW_LEVELS as readonly string[]).includes(value);
+}
+
+function timeOfDay(time: string | null): TimeOfDayBucket | null {
+  const parsed = parseTimeOfDay(time);
+  if (!parsed) return null;
+  if (parsed.hours < 12) return 'morning';
+  return parsed.hours < 17 ? 'afternoon' : 'evening';
+}
+
+function category(item: TemplateItem): string {
+  return item.tag?.toLowerCase() || DEFAULT_CATEGORY;
+}
+
+function previewActivity(item: TemplateItem): PreviewActivity {
+  return { title: item.title, timeOfDay: timeOfDay(item.time), category: category(item) };
+}
+
+function heatmap(items: TemplateItem[]): HeatmapCell[] {
+  const cells = new Map<string, HeatmapCell>();
+  for (const item of items) {
+    if (item.latitude === null || item.longitude === null) continue;
+    const row = Math.floor(item.latitude / HEATMAP_CELL_DEGREES);
+    const column = Math.floor(item.longitude / HEATMAP_CELL_DEGREES);
+    const key = `${row}:${column}`;
+    const cell = cells.get(key) ?? {
+      latitude: Number(((row + 0.5) * HEATMAP_CELL_DEGREES).toFixed(3)),
+      longitude: Number(((column + 0.5) * HEATMAP_CELL_DEGREES).toFixed(3)),
+      weight: 0,
+    };
+    cell.weight++;
+    cells.set(key, cell);
+  }
+  return Array.from(cells.values()).sort((a, b) => b.weight - a.weight);
+}
+
+function budgetSummary(tripData: any): TemplatePreview['budget'] {
+  const budget = tripData?.budget;
+  if (!budget || typeof budget !== 'object') return null;
+  const amount = (value: unknown) => (Number.isFinite(Number(value)) && value !== null && value !== '' ? Number(value) : null);
+  return {
+    level: typeof budget.level === 'string' ? budget.level : null,
+    total: amount(budget.total),
+    daily: amount(budget.daily),
+    currency: typeof budget.currency === 'string' ? budget.currency : null,
+  };
+}
+
+/**
+ * The preview of a template's trip_data at a reveal level.
+ */
+export function buildTemplatePreview(tripData: any, level: PreviewLevel, duration?: number | null): TemplatePreview {
+  const items = templateItems(tripData);
+  const dayTitles = new Map<number, string | null>();
+  if (Array.isArray(tripData?.days)) {
+    for (const day of tripData.days) {
+      dayTitles.set(parseInt(day?.day) || 1, typeof day?.title === 'string' && day.title.trim() ? day.title.trim() : null);
+    }
+  }
+
+  const byDay = new Map<number, TemplateItem[]>();
+  for (const item of items) {
+    byDay.set(item.day, [...(byDay.get(item.day) ?? []), item]);
+  }
+  const dayCount = Math.max(duration || 0, ...Array.from(byDay.keys()), ...Array.from(dayTitles.keys()), 0);
+
+  const days: DayOutline[] = [];
+  for (let day = 1; day <= dayCount; day++) {
+    const dayItems = byDay.get(day) ?? [];
+    const outline: DayOutline = {
+      day,
+      title: dayTitles.get(day) ?? null,
+      activityCount: dayItems.length,
+      categories: Array.from(new Set(dayItems.map(category))),
+    };
+    if (level === 'extended') outline.activities = dayItems.map(previewActivity);
+    days.push(outline);
+  }
+
+  const counts = new Map<string, number>();
+  for (const item of items) counts.set(category(item), (counts.get(category(item)) ?? 0) + 1);
+
+  let sampleDay: SampleDay | null = null;
+  if (level !== 'minimal' && items.length > 0) {
+    // The busiest day shows the most of what the trip is like
+    const busiest = days.reduce((best, day) => (day.activityCount > best.activityCount ? day : best), days[0]);
+    sampleDay = {
+      day: busiest.day,
+      title: busiest.title,
+      activities: (byDay.get(busiest.day) ?? []).map(item => ({
+        ...previewActivity(item),
+        time: item.time,
+        location: item.location,
+      })),
+    };
+  }
+
+  return {
+    level,
+    dayCount,
+    activityCount: items.length,
+    categories: Array.from(counts, ([name, count]) => ({ category: name, count })).sort((a, b) => b.count - a.count),
+    days,
+    heatmap: level === 'minimal' ? [] : heatmap(items),
+    sampleDay,
+    budget: budgetSummary(tripData),
+  };
+}
+
+/**
+ * A template as shown to people who haven't bought it: trip_data replaced
+ * by its preview.
+ */
+export function redactTemplate<T extends Pick<Template, 'trip_data' | 'preview_level' | 'duration'>>(template: T) {
+  const { trip_data, ...rest } = template;
+  const level = isPreviewLevel(template.preview_level) ? template.preview_level : 'standard';
+  return { ...rest, preview: buildTemplatePreview(trip_data, level, template.duration) };
+}
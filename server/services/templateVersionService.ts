@@ -0,0 +1,372 @@
+import { and, asc, desc, eq, gt, lt, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import {
+  activities,
+  templatePurchases,
+  templates,
+  templateVersions,
+  trips,
+  users,
+  Activity,
+  Template,
+  TemplatePurchase,
+  TemplateVersion,
+} from '@shared/schema';
+import { db } from '../db-connection';
+import { sendNotificationEmail } from '../emailService';
+import { logger } from '../utils/logger';
+import { ChangesetStep, collaborationService } from './collaborationService';
+import {
+  MergeChange,
+  MergeConflict,
+  TemplateItem,
+  TripItem,
+  assignItemKeys,
+  matchUnkeyedItems,
+  mergeTemplateUpdate,
+  templateItems,
+} from './templateMerge';
+
+/**
+ * Template versions. Publishing snapshots the template's draft trip_data as
+ * the next version with a changelog; versions never change afterwards.
+ * Purchases record the version the buyer's trip is on, and buyers are told
+ * (by email, and `updateAvailable` on their purchases) when a newer one is
+ * published. Pulling an update merges the new version into their trip with
+ * their own edits kept (see templateMerge.ts), as one changeset in the trip
+ * history.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class TemplateVersionError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'TemplateVersionError';
+  }
+}
+
+export type VersionSummary = Omit<TemplateVersion, 'trip_data'>;
+
+export interface TemplateUpdatePlan {
+  purchase: TemplatePurchase;
+  tripId: number;
+  fromVersion: number;
+  toVersion: number;
+  versions: VersionSummary[]; // The versions being pulled in, oldest first
+  changes: MergeChange[];
+  conflicts: MergeConflict[];
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function summary(version: TemplateVersion): VersionSummary {
+  const { trip_data, ...rest } = version;
+  return rest;
+}
+
+function sameTripData(a: unknown, b: unknown): boolean {
+  const strip = (data: unknown) => templateItems(data).map(({ key, ...item }) => item);
+  return JSON.stringify(strip(a)) === JSON.stringify(strip(b));
+}
+
+/**
+ * A trip activity in template terms, its day counted from the trip start.
+ */
+export function tripItem(activity: Activity, tripStart: string | Date): TripItem {
+  const start = new Date(tripStart);
+  const day = activity.date
+    ? Math.round((new Date(activity.date).getTime() - Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate())) / DAY_MS) + 1
+    : 1;
+  return {
+    key: activity.template_item_key,
+    activityId: activity.id,
+    version: activity.version,
+    day,
+    title: activity.title,
+    time: activity.time,
+    location: activity.location_name,
+    notes: activity.notes,
+    tag: activity.tag,
+    latitude: activity.latitude === null ? null : Number(activity.latitude),
+    longitude: activity.longitude === null ? null : Number(activity.longitude),
+  };
+}
+
+/**
+ * The trip changes for a merge. Activities are placed by day from the
+ * trip's start date.
+ */
+export function mergeSteps(changes: MergeChange[], tripStart: string | Date): ChangesetStep[] {
+  const start = new Date(tripStart);
+  const dateOf = (day: number) => isoDate(new Date(start.getTime() + (day - 1) * DAY_MS));
+  const columns = (fields: Partial<TemplateItem>) => {
+    const mapped: Record<string, unknown> = {};
+    if (fields.day !== undefined) mapped.date = dateOf(fields.day);
+    if (fields.time !== undefined) mapped.time = fields.time;
+    if (fields.title !== undefined) mapped.title = fields.title;
+    if (fields.location !== undefined) mapped.location_name = fields.location;
+    if (fields.notes !== undefined) mapped.notes = fields.notes;
+    if (fields.tag !== undefined) mapped.tag = fields.tag;
+    if (fields.latitude !== undefined) mapped.latitude = fields.latitude === null ? null : String(fields.latitude);
+    if (fields.longitude !== undefined) mapped.longitude = fields.longitude === null ? null : String(fields.longitude);
+    return mapped;
+  };
+
+  return changes.map((change): ChangesetStep => {
+    switch (change.type) {
+      case 'add': {
+        const { key, ...item } = change.item;
+        return {
+          type: 'create_activity',
+          fields: { ...columns(item), title: item.title, template_item_key: key },
+        };
+      }
+      case 'update':
+        return { type: 'update_activity', activity_id: change.activityId, base_version: change.baseVersion, fields: columns(change.fields) };
+      case 'remove':
+        return { type: 'delete_activity', activity_id: change.activityId };
+    }
+  });
+}
+
+export class TemplateVersionService {
+  async listVersions(templateId: number): Promise<VersionSummary[]> {
+    const versions = await db
+      .select()
+      .from(templateVersions)
+      .where(eq(templateVersions.template_id, templateId))
+      .orderBy(desc(templateVersions.version));
+    return versions.map(summary);
+  }
+
+  async getVersion(templateId: number, version: number): Promise<TemplateVersion | null> {
+    const [found] = await db
+      .select()
+      .from(templateVersions)
+      .where(and(eq(templateVersions.template_id, templateId), eq(templateVersions.version, version)))
+      .limit(1);
+    return found ?? null;
+  }
+
+  /**
+   * Snapshot the template's draft as its next version. Throws when nothing
+   * changed since the last version.
+   */
+  async publishVersion(templateId: number, userId: number | null, changelog: string): Promise<TemplateVersion> {
+    const created = await db.transaction(async (tx) => {
+      const [template] = await tx.select().from(templates).where(eq(templates.id, templateId)).for('update');
+      if (!template) throw new TemplateVersionError(404, 'Template not found');
+
+      const [previous] = await tx
+        .select()
+        .from(templateVersions)
+        .where(eq(templateVersions.template_id, templateId))
+        .orderBy(desc(templateVersions.version))
+        .limit(1);
+      if (previous && sameTripData(previous.trip_data, template.trip_data) &&
+          previous.title === template.title && previous.description === template.description) {
+        throw new TemplateVersionError(400, 'Nothing has changed since the last version');
+      }
+
+      const tripData = assignItemKeys(template.trip_data, previous?.trip_data, () => nanoid(10));
+      const number = (previous?.version ?? 0) + 1;
+      const [version] = await tx.insert(templateVersions).values({
+        template_id: templateId,
+        version: number,
+        title: template.title,
+        description: template.description,
+        duration: template.duration,
+        trip_data: tripData,
+        changelog,
+        published_by: userId,
+      }).returning();
+
+      // The draft keeps the keys so the next version matches activities by key
+      await tx.update(templates)
+        .set({ current_version: number, trip_data: tripData, updated_at: new Date() })
+        .where(eq(templates.id, templateId));
+      return version;
+    });
+
+    logger.info(`Published version ${created.version} of template ${templateId}`);
+    return created;
+  }
+
+  /**
+   * The version copies of a published template are made from, creating the
+   * first one for templates published before versioning or outside the
+   * publish flow (admin approval, seeds). Null for unpublished templates.
+   */
+  async ensurePublishedVersion(template: Template): Promise<TemplateVersion | null> {
+    if (template.current_version > 0) {
+      return this.getVersion(template.id, template.current_version);
+    }
+    if (template.status !== 'published') return null;
+
+    try {
+      return await this.publishVersion(template.id, template.user_id, 'Initial version');
+    } catch (error) {
+      // Another request published it first
+      const [latest] = await db.select().from(templates).where(eq(templates.id, template.id)).limit(1);
+      if (latest && latest.current_version > 0) return this.getVersion(template.id, latest.current_version);
+      throw error;
+    }
+  }
+
+  /**
+   * Record which trip and version a buyer's copy is, on their purchase.
+   */
+  async linkPurchase(templateId: number, buyerId: number, tripId: number, version: number | null): Promise<void> {
+    const [purchase] = await db
+      .select()
+      .from(templatePurchases)
+      .where(and(
+        eq(templatePurchases.template_id, templateId),
+        eq(templatePurchases.buyer_id, buyerId),
+        sql`${templatePurchases.trip_id} IS NULL`,
+      ))
+      .orderBy(desc(templatePurchases.purchased_at))
+      .limit(1);
+    if (!purchase) return;
+
+    await db.update(templatePurchases)
+      .set({ trip_id: tripId, template_version: version })
+      .where(eq(templatePurchases.id, purchase.id));
+  }
+
+  /**
+   * Email buyers on an older version that a new one is out.
+   */
+  async notifyBuyers(template: Template, version: TemplateVersion): Promise<number> {
+    const buyers = await db
+      .selectDistinctOn([templatePurchases.buyer_id], { email: users.email, tripId: templatePurchases.trip_id })
+      .from(templatePurchases)
+      .innerJoin(users, eq(users.id, templatePurchases.buyer_id))
+      .where(and(
+        eq(templatePurchases.template_id, template.id),
+        eq(templatePurchases.status, 'completed'),
+        lt(templatePurchases.template_version, version.version),
+      ));
+
+    const baseUrl = process.env.FRONTEND_URL || 'http://localhost:5000';
+    let sent = 0;
+    for (const buyer of buyers) {
+      const delivered = await sendNotificationEmail({
+        to: buyer.email,
+        subject: `"${template.title}" has been updated`,
+        title: `Version ${version.version} of ${template.title}`,
+        message: `What's new: ${version.changelog}. You can pull the changes into your trip; anything you changed yourself is kept.`,
+        ctaLink: buyer.tripId ? `${baseUrl}/trip/${buyer.tripId}` : `${baseUrl}/templates/${template.slug}`,
+        type: 'template_update',
+      });
+      if (delivered) sent++;
+    }
+    logger.info(`Notified ${sent} of ${buyers.length} buyers about version ${version.version} of template ${template.id}`);
+    return sent;
+  }
+
+  private async buyerPurchase(templateId: number, buyerId: number): Promise<TemplatePurchase> {
+    const [purchase] = await db
+      .select()
+      .from(templatePurchases)
+      .where(and(
+        eq(templatePurchases.template_id, templateId),
+        eq(templatePurchases.buyer_id, buyerId),
+        eq(templatePurchases.status, 'completed'),
+      ))
+      .orderBy(desc(templatePurchases.purchased_at))
+      .limit(1);
+    if (!purchase) throw new TemplateVersionError(404, 'You have not purchased this template');
+    return purchase;
+  }
+
+  // Purchases made before trips were linked: the buyer's copy, found by its template watermark
+  private async purchaseTripId(purchase: TemplatePurchase): Promise<number | null> {
+    if (purchase.trip_id) return purchase.trip_id;
+    const [trip] = await db
+      .select({ id: trips.id })
+      .from(trips)
+      .where(and(
+        eq(trips.user_id, purchase.buyer_id),
+        sql`${trips.collaborators} @> ${JSON.stringify([{ source: 'template', templateId: purchase.template_id }])}::jsonb`,
+      ))
+      .orderBy(desc(trips.created_at))
+      .limit(1);
+    return trip?.id ?? null;
+  }
+
+  /**
+   * What pulling the latest version into the buyer's trip would change.
+   */
+  async planUpdate(templateId: number, buyerId: number): Promise<TemplateUpdatePlan> {
+    const purchase = await this.buyerPurchase(templateId, buyerId);
+    const [template] = await db.select().from(templates).where(eq(templates.id, templateId)).limit(1);
+    if (!template) throw new TemplateVersionError(404, 'Template not found');
+
+    const fromVersion = purchase.template_version ?? 1;
+    const toVersion = template.current_version;
+    if (toVersion <= fromVersion) {
+      throw new TemplateVersionError(400, 'Your trip is already on the latest version');
+    }
+
+    const tripId = await this.purchaseTripId(purchase);
+    const [trip] = tripId
+      ? await db.select().from(trips).where(and(eq(trips.id, tripId), eq(trips.user_id, buyerId))).limit(1)
+      : [];
+    if (!trip) throw new TemplateVersionError(404, 'The trip made from this template no longer exists');
+
+    const [base, latest] = await Promise.all([this.getVersion(templateId, fromVersion), this.getVersion(templateId, toVersion)]);
+    if (!base || !latest) throw new TemplateVersionError(404, 'Template version not found');
+
+    const versions = await db
+      .select()
+      .from(templateVersions)
+      .where(and(eq(templateVersions.template_id, templateId), gt(templateVersions.version, fromVersion)))
+      .orderBy(asc(templateVersions.version));
+
+    const baseItems = templateItems(base.trip_data);
+    const tripActivities = await db.select().from(activities).where(eq(activities.trip_id, trip.id));
+    const ours = matchUnkeyedItems(baseItems, tripActivities.map(activity => tripItem(activity, trip.start_date)));
+    const { changes, conflicts } = mergeTemplateUpdate(baseItems, templateItems(latest.trip_data), ours);
+
+    return {
+      purchase: { ...purchase, trip_id: trip.id },
+      tripId: trip.id,
+      fromVersion,
+      toVersion,
+      versions: versions.map(summary),
+      changes,
+      conflicts,
+    };
+  }
+
+  /**
+   * Pull the latest version into the buyer's trip and move their purchase
+   * onto it. Throws ChangesetRejectedError if the trip changed while the
+   * update was being applied.
+   */
+  async applyUpdate(templateId: number, buyerId: number): Promise<TemplateUpdatePlan & { changesetId: number | null }> {
+    const plan = await this.planUpdate(templateId, buyerId);
+    const [trip] = await db.select().from(trips).where(eq(trips.id, plan.tripId)).limit(1);
+
+    let changesetId: number | null = null;
+    if (plan.changes.length > 0) {
+      const result = await collaborationService.applyChangeset(plan.tripId, buyerId, mergeSteps(plan.changes, trip.start_date), {
+        source: 'template',
+        description: `Updated to version ${plan.toVersion} of the template`,
+      });
+      changesetId = result.changeset_id;
+    }
+
+    await db.update(templatePurchases)
+      .set({ template_version: plan.toVersion, trip_id: plan.tripId })
+      .where(eq(templatePurchases.id, plan.purchase.id));
+
+    return { ...plan, changesetId };
+  }
+}
+
+export const templateVersionService = new TemplateVersionService();
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import type { Trip } from '@shared/schema';
+import { SERVER_CONFIG } from '../config';
+
+/**
+ * Buyer watermarks for purchased template content. A watermark names the
+ * template and the buyer and is signed, so one found in a leaked export or
+ * a copied trip says whose purchase it came from and can't be forged onto
+ * someone else: RMV-<templateId>-<buyerId>-<signature>.
+ */
+
+const WATERMARK_PATTERN = /RMV-(\d+)-(\d+)-([0-9a-f]{12})/;
+
+function signature(templateId: number, buyerId: number): string {
+  return crypto
+    .createHmac('sha256', SERVER_CONFIG.sessionSecret)
+    .update(`template-watermark:${templateId}:${buyerId}`)
+    .digest('hex')
+    .substring(0, 12);
+}
+
+export function buyerWatermark(templateId: number, buyerId: number): string {
+  return `RMV-${templateId}-${buyerId}-${signature(templateId, buyerId)}`;
+}
+
+/**
+ * The template and buyer of the first genuine watermark in some text.
+ */
+export function readWatermark(text: string): { templateId: number; buyerId: number } | null {
+  const match = text.match(new RegExp(WATERMARK_PATTERN.source, 'g'));
+  for (const candidate of match ?? []) {
+    const [, templateId, buyerId, signed] = candidate.match(WATERMARK_PATTERN)!;
+    const expected = signature(Number(templateId), Number(buyerId));
+    if (crypto.timingSafeEqual(Buffer.from(signed), Buffer.from(expected))) {
+      return { templateId: Number(templateId), buyerId: Number(buyerId) };
+    }
+  }
+  return null;
+}
+
+/**
+ * The license line for exports of a trip copied from a template, or null
+ * for the buyer's own trips.
+ */
+export function tripLicense(trip: Pick<Trip, 'collaborators'>): string | null {
+  const source = Array.isArray(trip.collaborators)
+    ? (trip.collaborators as any[]).find(entry => entry?.source === 'template' && entry.templateId && entry.purchaserId)
+    : null;
+  if (!source) return null;
+  return `Template "${source.templateTitle ?? source.templateId}" licensed to buyer #${source.purchaserId} (${buyerWatermark(Number(source.templateId), Number(source.purchaserId))})`;
+}
@@ -0,0 +1,524 @@
+import { z } from 'zod';
+import { Activity, Trip } from '@shared/schema';
+import { activityValidationSchema } from '../middleware/inputValidation';
+import { geocodeLocation } from '../geocoding';
+import { getWeatherForecast } from '../weather';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { collaborationService, ChangesetResult, ChangesetStep } from './collaborationService';
+import { LLMMessage, LLMTool, LLMToolCall } from './llmProvider';
+import { LLMService, llm } from './llmService';
+import { batchFetchAndCache } from './osmBatchFetch';
+
+/**
+ * The trip assistant answers questions about a trip and edits it through
+ * tools. Read-only tools (places, weather) run while the model works; edits
+ * are never written directly. Each edit tool call is validated and turned into
+ * an action, and the actions come back to the user as a proposed changeset.
+ * Nothing changes until the user applies it, which re-validates the actions
+ * against the current trip and writes them in one transaction.
+ */
+
+export type TripAccess = 'owner' | 'editor' | 'viewer';
+
+// Model round trips per question before it has to answer
+const MAX_TOOL_ROUNDS = 5;
+
+const HISTORY_MESSAGES = 10;
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be HH:MM in 24-hour format');
+const coordinateSchema = z.union([z.number(), z.string()]).transform(String);
+
+const newActivitySchema = z.object({
+  title: z.string(),
+  date: dateSchema,
+  time: timeSchema,
+  location_name: z.string(),
+  notes: z.string().optional(),
+  tag: z.string().optional(),
+  latitude: coordinateSchema.optional(),
+  longitude: coordinateSchema.optional(),
+});
+
+/**
+ * An edit as proposed to the user and sent back to apply it. Moves and
+ * deletes carry the activity version they were planned on.
+ */
+export const assistantActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('add_activity'),
+    activity: newActivitySchema,
+  }),
+  z.object({
+    type: z.literal('move_activity'),
+    activity_id: z.number().int(),
+    base_version: z.number().int().optional(),
+    date: dateSchema.optional(),
+    time: timeSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('delete_activity'),
+    activity_id: z.number().int(),
+    base_version: z.number().int().optional(),
+  }),
+  z.object({
+    type: z.literal('set_hotel'),
+    hotel: z.string().min(1).max(200),
+    hotel_latitude: coordinateSchema.optional(),
+    hotel_longitude: coordinateSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('adjust_budget'),
+    budget: z.number().min(0),
+    currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter code').optional(),
+  }),
+]);
+
+export type AssistantAction = z.infer<typeof assistantActionSchema>;
+
+export interface ProposedChange {
+  action: AssistantAction;
+  description: string;
+}
+
+export interface AssistantContext {
+  trip: Pick<Trip, 'id' | 'title' | 'start_date' | 'end_date' | 'city' | 'country' | 'hotel' | 'budget' | 'currency'>;
+  activities: Array<Pick<Activity, 'id' | 'title' | 'date' | 'time' | 'location_name' | 'order' | 'version'>>;
+  access: TripAccess;
+}
+
+export type ValidatedAction =
+  | { ok: true; change: ProposedChange }
+  | { ok: false; error: string };
+
+export interface AssistantReply {
+  answer: string;
+  changes: ProposedChange[];
+}
+
+export class InvalidActionsError extends Error {
+  constructor(public errors: Array<{ index: number; error: string }>) {
+    super(errors.map(e => `Change ${e.index + 1}: ${e.error}`).join('; '));
+    this.name = 'InvalidActionsError';
+  }
+}
+
+const activityFields = {
+  title: { type: 'string', description: 'Short activity title' },
+  date: { type: 'string', description: 'YYYY-MM-DD, within the trip dates' },
+  time: { type: 'string', description: 'Start time, HH:MM in 24-hour format' },
+  location_name: { type: 'string', description: 'Place name as it would appear on a map' },
+  notes: { type: 'string' },
+  tag: { type: 'string', description: "One of 'Food', 'Culture', 'Shop', 'Rest', 'Transport', 'Event'" },
+  latitude: { type: 'number', description: 'From search_places when available' },
+  longitude: { type: 'number', description: 'From search_places when available' },
+};
+
+const READ_TOOLS: LLMTool[] = [
+  {
+    name: 'search_places',
+    description: 'Find real restaurants, attractions or cafes in the trip city from OpenStreetMap, with coordinates and opening hours.',
+    parameters: {
+      type: 'object',
+      properties: {
+        category: { type: 'string', enum: ['restaurants', 'attractions', 'cafes'] },
+        query: { type: 'string', description: 'Optional words the place name or cuisine should contain' },
+      },
+      required: ['category'],
+    },
+  },
+  {
+    name: 'check_weather',
+    description: 'Weather forecast for trip dates in the trip city. Only the next five days are available.',
+    parameters: {
+      type: 'object',
+      properties: { dates: { type: 'array', items: { type: 'string', description: 'YYYY-MM-DD' } } },
+      required: ['dates'],
+    },
+  },
+];
+
+const ACTIVITY_TOOLS: LLMTool[] = [
+  {
+    name: 'add_activity',
+    description: 'Propose adding an activity to the itinerary.',
+    parameters: { type: 'object', properties: activityFields, required: ['title', 'date', 'time', 'location_name'] },
+  },
+  {
+    name: 'move_activity',
+    description: 'Propose moving an existing activity to another date and/or time.',
+    parameters: {
+      type: 'object',
+      properties: { activity_id: { type: 'integer' }, date: activityFields.date, time: activityFields.time },
+      required: ['activity_id'],
+    },
+  },
+  {
+    name: 'delete_activity',
+    description: 'Propose removing an activity from the itinerary.',
+    parameters: { type: 'object', properties: { activity_id: { type: 'integer' } }, required: ['activity_id'] },
+  },
+];
+
+const TRIP_TOOLS: LLMTool[] = [
+  {
+    name: 'set_hotel',
+    description: "Propose setting the trip's hotel.",
+    parameters: {
+      type: 'object',
+      properties: { name: { type: 'string' }, latitude: { type: 'number' }, longitude: { type: 'number' } },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'adjust_budget',
+    description: "Propose changing the trip's total budget.",
+    parameters: {
+      type: 'object',
+      properties: { budget: { type: 'number' }, currency: { type: 'string', description: 'ISO 4217 code, e.g. EUR' } },
+      required: ['budget'],
+    },
+  },
+];
+
+/**
+ * The tools the user's access allows: viewers can only ask, editors can
+ * change activities and owners can also change the trip.
+ */
+export function assistantTools(access: TripAccess): LLMTool[] {
+  if (access === 'viewer') return READ_TOOLS;
+  if (access === 'editor') return [...READ_TOOLS, ...ACTIVITY_TOOLS];
+  return [...READ_TOOLS, ...ACTIVITY_TOOLS, ...TRIP_TOOLS];
+}
+
+/**
+ * The action an edit tool call asks for, before validation. Returns null for
+ * tools that don't edit the trip.
+ */
+export function actionFromToolCall(name: string, args: Record<string, any>): Record<string, any> | null {
+  switch (name) {
+    case 'add_activity':
+      return { type: name, activity: args };
+    case 'move_activity':
+    case 'delete_activity':
+    case 'adjust_budget':
+      return { type: name, ...args };
+    case 'set_hotel':
+      return { type: name, hotel: args.name, hotel_latitude: args.latitude, hotel_longitude: args.longitude };
+    default:
+      return null;
+  }
+}
+
+function zodMessage(error: z.ZodError): string {
+  return error.errors.map(issue => (issue.path.length ? `${issue.path.join('.')}: ` : '') + issue.message).join('; ');
+}
+
+function tripDay(value: string | Date | null | undefined): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value ?? '').slice(0, 10);
+}
+
+function outsideTrip(date: string, trip: AssistantContext['trip']): boolean {
+  return date < tripDay(trip.start_date) || date > tripDay(trip.end_date);
+}
+
+function when(date: string | null | undefined, time: string | null | undefined): string {
+  return [tripDay(date) || 'no date', time].filter(Boolean).join(' ');
+}
+
+/**
+ * Check an action against the trip as it is now. Used for tool calls while
+ * the assistant works and again when the user applies the changeset.
+ */
+export function validateAction(raw: unknown, context: AssistantContext): ValidatedAction {
+  const parsed = assistantActionSchema.safeParse(raw);
+  if (!parsed.success) {
+    return { ok: false, error: zodMessage(parsed.error) };
+  }
+  const action = parsed.data;
+
+  if (context.access === 'viewer') {
+    return { ok: false, error: 'You can only view this trip' };
+  }
+  if ((action.type === 'set_hotel' || action.type === 'adjust_budget') && context.access !== 'owner') {
+    return { ok: false, error: 'Only the trip owner can change the hotel or budget' };
+  }
+
+  switch (action.type) {
+    case 'add_activity': {
+      const { activity } = action;
+      const checked = activityValidationSchema.safeParse({
+        trip_id: context.trip.id,
+        title: activity.title,
+        date: activity.date,
+        time: activity.time,
+        locationName: activity.location_name,
+        notes: activity.notes,
+        tag: activity.tag,
+        order: 0,
+        latitude: activity.latitude,
+        longitude: activity.longitude,
+      });
+      if (!checked.success) return { ok: false, error: zodMessage(checked.error) };
+      if (outsideTrip(activity.date, context.trip)) {
+        return { ok: false, error: `${activity.date} is outside the trip dates` };
+      }
+      return { ok: true, change: { action, description: `Add "${activity.title}" on ${when(activity.date, activity.time)}` } };
+    }
+
+    case 'move_activity':
+    case 'delete_activity': {
+      const target = context.activities.find(a => a.id === action.activity_id);
+      if (!target) {
+        return { ok: false, error: `Activity ${action.activity_id} is not part of this trip` };
+      }
+      const planned = { ...action, base_version: action.base_version ?? target.version };
+
+      if (planned.type === 'delete_activity') {
+        return { ok: true, change: { action: planned, description: `Remove "${target.title}" (${when(target.date, target.time)})` } };
+      }
+
+      if (planned.date === undefined && planned.time === undefined) {
+        return { ok: false, error: 'A move needs a new date or time' };
+      }
+      const checked = activityValidationSchema.pick({ date: true, time: true }).partial().safeParse({ date: planned.date, time: planned.time });
+      if (!checked.success) return { ok: false, error: zodMessage(checked.error) };
+      if (planned.date && outsideTrip(planned.date, context.trip)) {
+        return { ok: false, error: `${planned.date} is outside the trip dates` };
+      }
+      const to = when(planned.date ?? target.date, planned.time ?? target.time);
+      return { ok: true, change: { action: planned, description: `Move "${target.title}" from ${when(target.date, target.time)} to ${to}` } };
+    }
+
+    case 'set_hotel':
+      return { ok: true, change: { action, description: `Set the hotel to ${action.hotel}` } };
+
+    case 'adjust_budget': {
+      const currency = action.currency ?? context.trip.currency ?? 'USD';
+      return { ok: true, change: { action, description: `Change the budget to ${action.budget.toFixed(2)} ${currency}` } };
+    }
+  }
+}
+
+/**
+ * Turn validated actions into changeset steps. New activities go after the
+ * last activity of their day.
+ */
+export function changesetSteps(actions: AssistantAction[], activities: AssistantContext['activities']): ChangesetStep[] {
+  const lastOrder = new Map<string, number>();
+  for (const activity of activities) {
+    const day = tripDay(activity.date);
+    lastOrder.set(day, Math.max(lastOrder.get(day) ?? -1, activity.order ?? 0));
+  }
+
+  return actions.map((action): ChangesetStep => {
+    switch (action.type) {
+      case 'add_activity': {
+        const { activity } = action;
+        const order = (lastOrder.get(activity.date) ?? -1) + 1;
+        lastOrder.set(activity.date, order);
+        return {
+          type: 'create_activity',
+          fields: {
+            title: activity.title,
+            date: activity.date,
+            time: activity.time,
+            location_name: activity.location_name,
+            notes: activity.notes ?? null,
+            tag: activity.tag ?? null,
+            latitude: activity.latitude ?? null,
+            longitude: activity.longitude ?? null,
+            order,
+          },
+        };
+      }
+      case 'move_activity':
+        return {
+          type: 'update_activity',
+          activity_id: action.activity_id,
+          base_version: action.base_version,
+          fields: {
+            ...(action.date !== undefined ? { date: action.date } : {}),
+            ...(action.time !== undefined ? { time: action.time } : {}),
+          },
+        };
+      case 'delete_activity':
+        return { type: 'delete_activity', activity_id: action.activity_id };
+      case 'set_hotel':
+        return {
+          type: 'update_trip',
+          fields: { hotel: action.hotel, hotel_latitude: action.hotel_latitude ?? null, hotel_longitude: action.hotel_longitude ?? null },
+        };
+      case 'adjust_budget':
+        return {
+          type: 'update_trip',
+          fields: { budget: action.budget.toFixed(2), ...(action.currency ? { currency: action.currency } : {}) },
+        };
+    }
+  });
+}
+
+function systemPrompt(context: AssistantContext): string {
+  const { trip } = context;
+  const itinerary = [...context.activities]
+    .sort((a, b) => `${tripDay(a.date)} ${a.time ?? ''}`.localeCompare(`${tripDay(b.date)} ${b.time ?? ''}`))
+    .map(a => `- [id ${a.id}] ${when(a.date, a.time)}: ${a.title}${a.location_name ? ` @ ${a.location_name}` : ''}`)
+    .join('\n');
+
+  return `You are a travel assistant for the trip "${trip.title}" to ${[trip.city, trip.country].filter(Boolean).join(', ') || 'an unknown destination'}, from ${tripDay(trip.start_date)} to ${tripDay(trip.end_date)}.
+Today is ${new Date().toISOString().slice(0, 10)}.
+Hotel: ${trip.hotel || 'not set'}. Budget: ${trip.budget ? `${trip.budget} ${trip.currency || 'USD'}` : 'not set'}.
+
+Current itinerary:
+${itinerary || '(no activities yet)'}
+
+Answer questions about the trip concisely. ${context.access === 'viewer'
+    ? 'The user can only view this trip, so do not offer to change it.'
+    : `When the user wants to change the itinerary - including pasting a schedule to import - use the edit tools. Edits are only proposals: the user reviews and applies them, so say what you proposed rather than claiming it is done.
+Refer to existing activities by their id. Use search_places to find real places and pass their coordinates. If an edit tool returns an error, fix the arguments and try again.`}`;
+}
+
+function historyMessages(history: unknown): LLMMessage[] {
+  if (!Array.isArray(history)) return [];
+  return history
+    .filter((m: any) => (m?.role === 'user' || m?.role === 'assistant') && typeof m.content === 'string' && m.content.trim())
+    .slice(-HISTORY_MESSAGES)
+    .map((m: any) => ({ role: m.role, content: m.content }));
+}
+
+export class TripAssistantService {
+  constructor(private model: LLMService = llm) {}
+
+  /**
+   * The trip and its activities as the user may see them, or null without access.
+   */
+  async loadContext(tripId: number, userId: number): Promise<AssistantContext | null> {
+    const access = await collaborationService.getTripAccess(tripId, userId);
+    const trip = access ? await storage.getTrip(tripId) : undefined;
+    if (!access || !trip) return null;
+    return { trip, activities: await storage.getActivitiesByTripId(tripId), access };
+  }
+
+  /**
+   * Run the conversation until the model answers, collecting proposed edits.
+   */
+  async ask(context: AssistantContext, question: string, history: unknown = []): Promise<AssistantReply> {
+    const tools = assistantTools(context.access);
+    const messages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt(context) },
+      ...historyMessages(history),
+      { role: 'user', content: question },
+    ];
+    const changes: ProposedChange[] = [];
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const response = await this.model.chat('assistant', {
+        messages,
+        tools,
+        toolChoice: round === MAX_TOOL_ROUNDS ? 'none' : 'auto',
+        temperature: 0.4,
+      });
+
+      if (response.toolCalls.length === 0) {
+        return { answer: response.content.trim() || (changes.length ? 'Here are the changes I suggest.' : "I couldn't answer that. Could you rephrase it?"), changes };
+      }
+
+      messages.push({ role: 'assistant', content: response.content || null, toolCalls: response.toolCalls });
+      for (const call of response.toolCalls) {
+        const result = await this.runTool(call, context, changes);
+        messages.push({ role: 'tool', toolCallId: call.id, content: JSON.stringify(result) });
+      }
+    }
+
+    return { answer: 'Here are the changes I suggest.', changes };
+  }
+
+  /**
+   * Re-validate the actions against the current trip and apply them as one
+   * AI changeset. Throws InvalidActionsError when any of them no longer fits.
+   */
+  async apply(context: AssistantContext, userId: number, actions: unknown[]): Promise<ChangesetResult> {
+    const validated = actions.map(action => validateAction(action, context));
+    const errors = validated.flatMap((result, index) => result.ok ? [] : [{ index, error: result.error }]);
+    if (errors.length > 0) {
+      throw new InvalidActionsError(errors);
+    }
+    const changes = validated.map(result => (result as Extract<ValidatedAction, { ok: true }>).change);
+
+    // Place new activities on the map the way the activities route does
+    for (const { action } of changes) {
+      if (action.type !== 'add_activity' || (action.activity.latitude && action.activity.longitude)) continue;
+      const coordinates = await geocodeLocation(action.activity.location_name, context.trip.city || undefined, context.trip.country || undefined);
+      if (coordinates) {
+        action.activity.latitude = String(coordinates.latitude);
+        action.activity.longitude = String(coordinates.longitude);
+      }
+    }
+
+    return collaborationService.applyChangeset(
+      context.trip.id,
+      userId,
+      changesetSteps(changes.map(c => c.action), context.activities),
+      { source: 'ai', description: changes.length === 1 ? changes[0].description : `Assistant: ${changes.length} changes` }
+    );
+  }
+
+  private async runTool(call: LLMToolCall, context: AssistantContext, changes: ProposedChange[]): Promise<Record<string, any>> {
+    let args: Record<string, any>;
+    try {
+      args = JSON.parse(call.arguments || '{}');
+    } catch {
+      return { error: 'Arguments were not valid JSON' };
+    }
+    if (!assistantTools(context.access).some(tool => tool.name === call.name)) {
+      return { error: `Unknown tool ${call.name}` };
+    }
+
+    try {
+      if (call.name === 'search_places') return await this.searchPlaces(context, args);
+      if (call.name === 'check_weather') return await this.checkWeather(context, args);
+    } catch (error) {
+      logger.warn('Trip assistant tool failed', { tool: call.name, error });
+      return { error: `${call.name} is unavailable right now` };
+    }
+
+    const validated = validateAction(actionFromToolCall(call.name, args), context);
+    if (!validated.ok) {
+      return { error: validated.error };
+    }
+    changes.push(validated.change);
+    return { proposed: validated.change.description };
+  }
+
+  private async searchPlaces(context: AssistantContext, args: Record<string, any>) {
+    const { city, country } = context.trip;
+    if (!city) return { error: 'The trip has no city' };
+
+    const category = ['restaurants', 'attractions', 'cafes'].includes(args.category) ? args.category as 'restaurants' | 'attractions' | 'cafes' : 'attractions';
+    const query = typeof args.query === 'string' ? args.query.toLowerCase() : '';
+    const places = (await batchFetchAndCache(city, country || ''))[category]
+      .filter(place => !query || [place.name, place.cuisine, place.tourism].some(value => value?.toLowerCase().includes(query)))
+      .slice(0, 10);
+
+    return {
+      places: places.map(place => ({
+        name: place.name,
+        latitude: place.lat,
+        longitude: place.lon,
+        ...(place.opening_hours ? { opening_hours: place.opening_hours } : {}),
+      })),
+    };
+  }
+
+  private async checkWeather(context: AssistantContext, args: Record<string, any>) {
+    const location = [context.trip.city, context.trip.country].filter(Boolean).join(', ');
+    if (!location) return { error: 'The trip has no location' };
+
+    const dates = (Array.isArray(args.dates) ? args.dates : []).filter((d: unknown) => typeof d === 'string').slice(0, 7);
+    const forecast = await getWeatherForecast(location, dates);
+    return forecast.length ? { forecast } : { error: 'No forecast available for those dates' };
+  }
+}
+
+export const tripAssistantService = new TripAssistantService();
@@ -0,0 +1,502 @@
+import { and, desc, eq, gt, inArray, lt, or, sql } from 'drizzle-orm';
+import { db } from '../db-connection';
+import {
+  activities,
+  notes,
+  todos,
+  trips,
+  tripChanges,
+  tripChangesets,
+  users,
+  TripChange,
+  TripChangeset,
+} from '@shared/schema';
+import type { ChangesetStep } from './collaborationService';
+
+/**
+ * Trip version history.
+ *
+ * Every write to a trip, its activities, notes or todos is recorded as a
+ * change (before/after values) inside a changeset. A changeset is one user
+ * action, or one AI run that touched many rows, so it can be reverted as a
+ * unit. Restoring to an earlier point reverts the later changesets for the
+ * whole trip or a single day; the restore is itself a changeset.
+ */
+
+export type ChangeSource = 'user' | 'ai' | 'suggestion' | 'import' | 'restore' | 'booking' | 'template';
+export type HistoryEntityType = 'trip' | 'activity' | 'note' | 'todo';
+export type ChangeAction = 'create' | 'update' | 'delete';
+
+export interface ChangeContext {
+  source: ChangeSource;
+  description?: string;
+  changesetId?: number; // Append to an existing changeset (AI bulk changes)
+}
+
+export interface RecordedChange {
+  entity_type: HistoryEntityType;
+  entity_id: number;
+  action: ChangeAction;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}
+
+export interface FieldDiff {
+  field: string;
+  before: any;
+  after: any;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Bookkeeping columns that change on every write and aren't worth showing
+const IGNORED_FIELDS = new Set(['updated_at', 'created_at', 'version', 'revision']);
+
+// Never written back by a restore
+const PROTECTED_TRIP_FIELDS = new Set(['id', 'user_id', 'calendar_token', 'share_code', 'revision', 'created_at', 'updated_at']);
+
+function normalize(value: any): any {
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+}
+
+/**
+ * Field-level differences between two versions of a row.
+ */
+export function diffRows(before: Record<string, any> | null | undefined, after: Record<string, any> | null | undefined): FieldDiff[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const diffs: FieldDiff[] = [];
+
+  for (const field of Array.from(fields)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const oldValue = normalize(before?.[field]);
+    const newValue = normalize(after?.[field]);
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      diffs.push({ field, before: oldValue, after: newValue });
+    }
+  }
+  return diffs;
+}
+
+/**
+ * Build an update change holding only the fields that actually changed, or
+ * null when nothing did.
+ */
+export function updateChange(
+  entityType: HistoryEntityType,
+  entityId: number,
+  before: Record<string, any>,
+  after: Record<string, any>
+): RecordedChange | null {
+  const diffs = diffRows(before, after);
+  if (diffs.length === 0) return null;
+
+  return {
+    entity_type: entityType,
+    entity_id: entityId,
+    action: 'update',
+    before: Object.fromEntries(diffs.map(d => [d.field, d.before])),
+    after: Object.fromEntries(diffs.map(d => [d.field, d.after])),
+  };
+}
+
+export type RestoreTarget =
+  | { entity_type: HistoryEntityType; entity_id: number; state: 'absent' }
+  | { entity_type: HistoryEntityType; entity_id: number; state: 'present'; row: Record<string, any> | null; fields: Record<string, any> };
+
+/**
+ * Work out, per entity, the state before the first of the given changes.
+ * Changes must be in chronological order. Creates mean the entity should not
+ * exist; deletes carry the whole row; updates carry the earliest value of
+ * each field they touched.
+ */
+export function planRestore(changes: Array<Pick<TripChange, 'entity_type' | 'entity_id' | 'action' | 'before'>>): RestoreTarget[] {
+  const targets = new Map<string, RestoreTarget>();
+
+  for (const change of changes) {
+    const key = `${change.entity_type}:${change.entity_id}`;
+    const entityType = change.entity_type as HistoryEntityType;
+    const existing = targets.get(key);
+
+    if (!existing) {
+      if (change.action === 'create') {
+        targets.set(key, { entity_type: entityType, entity_id: change.entity_id, state: 'absent' });
+      } else if (change.action === 'delete') {
+        targets.set(key, { entity_type: entityType, entity_id: change.entity_id, state: 'present', row: change.before || {}, fields: {} });
+      } else {
+        targets.set(key, { entity_type: entityType, entity_id: change.entity_id, state: 'present', row: null, fields: { ...change.before } });
+      }
+      continue;
+    }
+
+    if (existing.state === 'absent') continue;
+
+    if (change.action === 'update') {
+      // Earlier values win; only fill in fields not seen yet
+      for (const [field, value] of Object.entries(change.before || {})) {
+        if (!(field in existing.fields) && !(existing.row && field in existing.row)) {
+          existing.fields[field] = value;
+        }
+      }
+    } else if (change.action === 'delete' && !existing.row) {
+      // The full row at delete time, with the earlier field values on top
+      existing.row = { ...(change.before || {}), ...existing.fields };
+    }
+  }
+
+  return Array.from(targets.values());
+}
+
+// JSON round-trips turn timestamps into strings
+function reviveRow(row: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [
+      key,
+      typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) ? new Date(value) : value,
+    ])
+  );
+}
+
+export interface HistoryTimelineEntry {
+  id: number;
+  source: ChangeSource;
+  description: string | null;
+  created_at: Date | null;
+  reverted_by_changeset_id: number | null;
+  user: { id: number; username: string | null; display_name: string | null } | null;
+  changes: Array<{
+    id: number;
+    entity_type: HistoryEntityType;
+    entity_id: number;
+    action: ChangeAction;
+    label: string | null;
+    day: string | null;
+    diff: FieldDiff[];
+  }>;
+}
+
+export class RevertConflictError extends Error {
+  constructor(public conflicts: Array<{ entity_type: string; entity_id: number; changeset_id: number }>) {
+    super('Some of these rows were changed again later');
+    this.name = 'RevertConflictError';
+  }
+}
+
+export class TripHistoryService {
+  async startChangeset(tx: Transaction | null, tripId: number, userId: number | null, context: ChangeContext): Promise<number> {
+    const executor = tx ?? db;
+    const [changeset] = await executor
+      .insert(tripChangesets)
+      .values({
+        trip_id: tripId,
+        user_id: userId,
+        source: context.source,
+        description: context.description ?? null,
+      })
+      .returning({ id: tripChangesets.id });
+    return changeset.id;
+  }
+
+  /**
+   * Record changes inside the caller's transaction. Creates a changeset
+   * unless the context names one. Returns the changeset id.
+   */
+  async record(
+    tx: Transaction,
+    tripId: number,
+    userId: number | null,
+    context: ChangeContext,
+    changes: RecordedChange[]
+  ): Promise<number | null> {
+    if (changes.length === 0) return context.changesetId ?? null;
+
+    const changesetId = context.changesetId ?? await this.startChangeset(tx, tripId, userId, context);
+
+    await tx.insert(tripChanges).values(changes.map(change => {
+      const day = change.after?.date ?? change.before?.date ?? null;
+      return {
+        changeset_id: changesetId,
+        trip_id: tripId,
+        entity_type: change.entity_type,
+        entity_id: change.entity_id,
+        action: change.action,
+        day: change.entity_type === 'activity' && typeof day === 'string' ? day : null,
+        before: change.before ? JSON.parse(JSON.stringify(change.before)) : null,
+        after: change.after ? JSON.parse(JSON.stringify(change.after)) : null,
+      };
+    }));
+
+    return changesetId;
+  }
+
+  // Same as record() for callers that aren't already in a transaction
+  async recordChanges(tripId: number, userId: number | null, context: ChangeContext, changes: RecordedChange[]): Promise<number | null> {
+    if (changes.length === 0) return context.changesetId ?? null;
+    return db.transaction(tx => this.record(tx, tripId, userId, context, changes));
+  }
+
+  /**
+   * Newest first. `before` is a changeset id cursor for paging.
+   */
+  async getHistory(tripId: number, options: { limit?: number; before?: number; day?: string } = {}): Promise<{
+    changesets: HistoryTimelineEntry[];
+    next_cursor: number | null;
+  }> {
+    const limit = Math.min(options.limit ?? 50, 200);
+
+    const conditions = [eq(tripChangesets.trip_id, tripId)];
+    if (options.before) conditions.push(lt(tripChangesets.id, options.before));
+    if (options.day) {
+      conditions.push(inArray(
+        tripChangesets.id,
+        db.select({ id: tripChanges.changeset_id }).from(tripChanges).where(and(
+          eq(tripChanges.trip_id, tripId),
+          this.dayCondition(options.day)
+        ))
+      ));
+    }
+
+    const rows = await db
+      .select({
+        changeset: tripChangesets,
+        username: users.username,
+        display_name: users.display_name,
+      })
+      .from(tripChangesets)
+      .leftJoin(users, eq(users.id, tripChangesets.user_id))
+      .where(and(...conditions))
+      .orderBy(desc(tripChangesets.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const ids = page.map(r => r.changeset.id);
+    const changes = ids.length > 0
+      ? await db.select().from(tripChanges).where(inArray(tripChanges.changeset_id, ids)).orderBy(tripChanges.id)
+      : [];
+
+    return {
+      changesets: page.map(({ changeset, username, display_name }) => ({
+        id: changeset.id,
+        source: changeset.source as ChangeSource,
+        description: changeset.description,
+        created_at: changeset.created_at,
+        reverted_by_changeset_id: changeset.reverted_by_changeset_id,
+        user: changeset.user_id ? { id: changeset.user_id, username, display_name } : null,
+        changes: changes
+          .filter(change => change.changeset_id === changeset.id)
+          .map(change => ({
+            id: change.id,
+            entity_type: change.entity_type as HistoryEntityType,
+            entity_id: change.entity_id,
+            action: change.action as ChangeAction,
+            label: this.labelFor(change),
+            day: change.day,
+            diff: diffRows(change.before, change.after),
+          })),
+      })),
+      next_cursor: rows.length > limit ? page[page.length - 1].changeset.id : null,
+    };
+  }
+
+  async getChangeset(tripId: number, changesetId: number): Promise<TripChangeset | undefined> {
+    const [changeset] = await db
+      .select()
+      .from(tripChangesets)
+      .where(and(eq(tripChangesets.id, changesetId), eq(tripChangesets.trip_id, tripId)))
+      .limit(1);
+    return changeset;
+  }
+
+  /**
+   * Put the trip (or one day of it) back the way it was right after the
+   * given changeset.
+   */
+  async restoreToChangeset(tripId: number, userId: number, changesetId: number, day?: string): Promise<number | null> {
+    const conditions = [eq(tripChanges.trip_id, tripId), gt(tripChanges.changeset_id, changesetId)];
+    if (day) conditions.push(this.dayCondition(day));
+
+    const later = await db.select().from(tripChanges).where(and(...conditions)).orderBy(tripChanges.id);
+
+    return this.applyRestore(tripId, userId, later, {
+      source: 'restore',
+      description: day ? `Restored ${day} to an earlier version` : 'Restored trip to an earlier version',
+    });
+  }
+
+  /**
+   * Undo a single changeset, e.g. one AI regeneration. Refuses when later
+   * changesets touched the same rows unless forced.
+   */
+  async revertChangeset(tripId: number, userId: number, changesetId: number, force = false): Promise<number | null> {
+    const changes = await db
+      .select()
+      .from(tripChanges)
+      .where(and(eq(tripChanges.trip_id, tripId), eq(tripChanges.changeset_id, changesetId)))
+      .orderBy(tripChanges.id);
+
+    if (!force && changes.length > 0) {
+      const laterTouches = await db
+        .select({ entity_type: tripChanges.entity_type, entity_id: tripChanges.entity_id, changeset_id: tripChanges.changeset_id })
+        .from(tripChanges)
+        .where(and(
+          eq(tripChanges.trip_id, tripId),
+          gt(tripChanges.changeset_id, changesetId),
+          or(...changes.map(c => and(eq(tripChanges.entity_type, c.entity_type), eq(tripChanges.entity_id, c.entity_id))))
+        ));
+      if (laterTouches.length > 0) {
+        throw new RevertConflictError(laterTouches);
+      }
+    }
+
+    return this.applyRestore(tripId, userId, changes, {
+      source: 'restore',
+      description: `Reverted changeset #${changesetId}`,
+    }, changesetId);
+  }
+
+  private dayCondition(day: string) {
+    return or(
+      eq(tripChanges.day, day),
+      sql`${tripChanges.before}->>'date' = ${day}`,
+      sql`${tripChanges.after}->>'date' = ${day}`
+    )!;
+  }
+
+  private labelFor(change: TripChange): string | null {
+    const row = change.after || change.before || {};
+    return row.title ?? row.content ?? null;
+  }
+
+  /**
+   * Write the planned targets back in one transaction: if any of them can't
+   * be restored (an activity operation is rejected, a row fails to write)
+   * nothing is, and the error reaches the caller.
+   */
+  private async applyRestore(
+    tripId: number,
+    userId: number,
+    changes: TripChange[],
+    context: ChangeContext,
+    revertedChangesetId?: number
+  ): Promise<number | null> {
+    const targets = planRestore(changes);
+    if (targets.length === 0) return null;
+
+    // Activity writes go through the collaboration layer so editors see them live
+    const { collaborationService, EDITABLE_ACTIVITY_FIELDS } = await import('./collaborationService');
+    const editable = new Set<string>(EDITABLE_ACTIVITY_FIELDS);
+
+    const result = await db.transaction(async (tx) => {
+      await tx.select({ id: trips.id }).from(trips).where(eq(trips.id, tripId)).for('update');
+      const changesetId = await this.startChangeset(tx, tripId, userId, context);
+      const restoreContext: ChangeContext = { ...context, changesetId };
+
+      const steps: ChangesetStep[] = [];
+      for (const target of targets) {
+        if (target.entity_type === 'activity') {
+          const step = await this.activityStep(tx, tripId, target, editable);
+          if (step) steps.push(step);
+        } else {
+          await this.restoreRow(tx, tripId, userId, target, restoreContext);
+        }
+      }
+
+      // Throws ChangesetRejectedError when any step is rejected
+      const { operations } = await collaborationService.applyChangesetIn(tx, tripId, userId, steps, restoreContext);
+
+      if (revertedChangesetId) {
+        await tx
+          .update(tripChangesets)
+          .set({ reverted_by_changeset_id: changesetId })
+          .where(eq(tripChangesets.id, revertedChangesetId));
+      }
+      return { changesetId, operations };
+    });
+
+    collaborationService.publish(result.operations);
+    return result.changesetId;
+  }
+
+  // The changeset step that puts an activity back, or null when it already matches
+  private async activityStep(
+    tx: Transaction,
+    tripId: number,
+    target: RestoreTarget,
+    editable: Set<string>
+  ): Promise<ChangesetStep | null> {
+    const [current] = await tx
+      .select()
+      .from(activities)
+      .where(and(eq(activities.id, target.entity_id), eq(activities.trip_id, tripId)))
+      .limit(1);
+
+    if (target.state === 'absent') {
+      return current ? { type: 'delete_activity', activity_id: current.id } : null;
+    }
+
+    const desired = { ...(target.row || {}), ...target.fields };
+    if (!current) {
+      if (!target.row) return null; // Deleted outside the history log; nothing to rebuild from
+      const row = reviveRow(desired);
+      return {
+        type: 'create_activity',
+        fields: { ...row, id: target.entity_id, version: (row.version ?? 1) + 1 } as Omit<typeof activities.$inferInsert, 'trip_id'>,
+      };
+    }
+
+    const fields = Object.fromEntries(Object.entries(desired).filter(([field]) => editable.has(field)));
+    return Object.keys(fields).length > 0 ? { type: 'update_activity', activity_id: current.id, fields } : null;
+  }
+
+  private async restoreRow(tx: Transaction, tripId: number, userId: number, target: RestoreTarget, context: ChangeContext) {
+    const table = target.entity_type === 'trip' ? trips : target.entity_type === 'note' ? notes : todos;
+    const idColumn = table.id;
+    const tripColumn = target.entity_type === 'trip' ? trips.id : target.entity_type === 'note' ? notes.trip_id : todos.trip_id;
+
+    const [current] = await tx
+      .select()
+      .from(table)
+      .where(and(eq(idColumn, target.entity_id), eq(tripColumn, tripId)))
+      .limit(1) as Record<string, any>[];
+
+    if (target.state === 'absent') {
+      if (current && target.entity_type !== 'trip') {
+        await tx.delete(table).where(eq(idColumn, target.entity_id));
+        await this.record(tx, tripId, userId, context, [
+          { entity_type: target.entity_type, entity_id: target.entity_id, action: 'delete', before: current },
+        ]);
+      }
+      return;
+    }
+
+    const desired = reviveRow({ ...(target.row || {}), ...target.fields });
+    if (target.entity_type === 'trip') {
+      for (const field of Array.from(PROTECTED_TRIP_FIELDS)) delete desired[field];
+    }
+
+    if (!current) {
+      if (!target.row || target.entity_type === 'trip') return;
+      const row = { ...desired, id: target.entity_id, trip_id: tripId };
+      const [recreated] = target.entity_type === 'note'
+        ? await tx.insert(notes).values(row as typeof notes.$inferInsert).returning()
+        : await tx.insert(todos).values(row as typeof todos.$inferInsert).returning();
+      await this.record(tx, tripId, userId, context, [
+        { entity_type: target.entity_type, entity_id: target.entity_id, action: 'create', after: recreated },
+      ]);
+      return;
+    }
+
+    delete desired.id;
+    delete desired.trip_id;
+    const [updated] = await tx
+      .update(table)
+      .set(desired)
+      .where(eq(idColumn, target.entity_id))
+      .returning() as Record<string, any>[];
+
+    const change = updateChange(target.entity_type, target.entity_id, current, updated);
+    if (change) await this.record(tx, tripId, userId, context, [change]);
+  }
+}
+
+export const tripHistoryService = new TripHistoryService();
@@ -0,0 +1,424 @@
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { db } from '../db-connection';
+import { activityCheckins, Activity, ActivityCheckin, Trip, TripPhoto } from '@shared/schema';
+import { storage } from '../storage';
+import { timeToMinutes, minutesToTime } from '../utils/timeOfDay';
+import { getUtcOffsetMinutes, isValidTimeZone } from './calendarExportService';
+import { tripPhotoService } from './tripPhotoService';
+
+/**
+ * Check-ins and the trip journal.
+ *
+ * A check-in records that a traveller actually got to an activity: when, where
+ * and optionally a note. Set against the plan they give a per-day "planned vs
+ * actual" view while travelling, and once the trip is over the same data reads
+ * as a journal of what happened, with the photos taken along the way.
+ *
+ * Times are compared in the traveller's local time. Check-ins carry the
+ * device's UTC offset; older ones and photos fall back to the trip's time zone.
+ */
+
+// A visit this close to the planned time counts as on time
+export const ON_TIME_WINDOW_MINUTES = 30;
+
+// Longest trip the day list is filled in for
+const MAX_TRIP_DAYS = 366;
+
+export type VisitStatus =
+  | 'on_time'
+  | 'early'
+  | 'late'
+  | 'moved' // Visited, but on another day than planned
+  | 'visited' // Visited, no planned time to compare with
+  | 'skipped'
+  | 'upcoming'
+  | 'unscheduled';
+
+export interface CheckinInput {
+  checked_in_at: Date;
+  latitude?: number | null;
+  longitude?: number | null;
+  note?: string | null;
+  utc_offset_minutes?: number | null;
+  client_id?: string | null;
+}
+
+export interface JournalCheckin {
+  id: number;
+  user_id: number;
+  checked_in_at: Date;
+  local_time: string;
+  note: string | null;
+  latitude: string | null;
+  longitude: string | null;
+}
+
+export interface JournalPhoto {
+  id: number;
+  user_id: number;
+  activity_id: number | null;
+  caption: string | null;
+  taken_at: Date | null;
+  local_time: string | null;
+  latitude: string | null;
+  longitude: string | null;
+}
+
+export interface ActivityOutcome {
+  activity_id: number;
+  title: string;
+  location_name: string | null;
+  tag: string | null;
+  planned_date: string | null;
+  planned_time: string | null;
+  actual_date: string | null;
+  actual_time: string | null;
+  delta_minutes: number | null; // Positive when later than planned
+  status: VisitStatus;
+  checkins: JournalCheckin[];
+  photos: JournalPhoto[];
+}
+
+export interface JournalDay {
+  date: string;
+  planned: ActivityOutcome[]; // What the plan had for the day, in planned order
+  actual: ActivityOutcome[]; // What was visited that day, in the order it happened
+  photos: JournalPhoto[]; // Photos not tied to an activity
+  summary: { planned: number; visited: number; skipped: number };
+}
+
+export interface JournalStats {
+  planned: number;
+  visited: number;
+  on_time: number;
+  early: number;
+  late: number;
+  moved: number;
+  skipped: number;
+  notes: number;
+  photos: number;
+  completion_rate: number | null; // Percent of past planned activities visited
+}
+
+export interface Journal {
+  days: JournalDay[];
+  unscheduled: ActivityOutcome[];
+  stats: JournalStats;
+  is_complete: boolean; // The trip is over
+}
+
+type JournalActivity = Pick<Activity, 'id' | 'title' | 'date' | 'time' | 'location_name' | 'tag' | 'order'>;
+type JournalCheckinRow = Pick<ActivityCheckin, 'id' | 'activity_id' | 'user_id' | 'checked_in_at' | 'utc_offset_minutes' | 'note' | 'latitude' | 'longitude'>;
+type JournalPhotoRow = Pick<TripPhoto, 'id' | 'activity_id' | 'user_id' | 'caption' | 'taken_at' | 'created_at' | 'latitude' | 'longitude'>;
+
+/**
+ * Local date and time of an instant, using a known UTC offset when there is
+ * one and the time zone otherwise (UTC when neither is known).
+ */
+export function localDateTime(
+  instant: Date,
+  offsetMinutes: number | null | undefined,
+  timeZone: string | null | undefined
+): { date: string; time: string } {
+  const offset = offsetMinutes ?? (isValidTimeZone(timeZone) ? getUtcOffsetMinutes(timeZone, instant) : 0);
+  const shifted = new Date(instant.getTime() + offset * 60000).toISOString();
+  return { date: shifted.slice(0, 10), time: shifted.slice(11, 16) };
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function tripDates(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate && dates.length < MAX_TRIP_DAYS; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+function classify(
+  plannedDate: string | null,
+  plannedMinutes: number | null,
+  actual: { date: string; time: string } | null,
+  today: string
+): { status: VisitStatus; delta: number | null } {
+  if (!actual) {
+    if (!plannedDate) return { status: 'unscheduled', delta: null };
+    return { status: plannedDate < today ? 'skipped' : 'upcoming', delta: null };
+  }
+  if (!plannedDate || plannedMinutes === null) return { status: 'visited', delta: null };
+  if (actual.date !== plannedDate) return { status: 'moved', delta: null };
+
+  const delta = (timeToMinutes(actual.time) ?? 0) - plannedMinutes;
+  if (delta > ON_TIME_WINDOW_MINUTES) return { status: 'late', delta };
+  if (delta < -ON_TIME_WINDOW_MINUTES) return { status: 'early', delta };
+  return { status: 'on_time', delta };
+}
+
+function byPlan(a: ActivityOutcome & { order: number }, b: ActivityOutcome & { order: number }): number {
+  const timeA = timeToMinutes(a.planned_time);
+  const timeB = timeToMinutes(b.planned_time);
+  if (timeA !== null && timeB !== null && timeA !== timeB) return timeA - timeB;
+  if (timeA !== null && timeB === null) return -1;
+  if (timeA === null && timeB !== null) return 1;
+  return a.order - b.order;
+}
+
+/**
+ * Set the trip's check-ins and photos against its plan. `today` is the
+ * current date in the trip's time zone; anything planned before it and not
+ * checked in was skipped.
+ */
+export function buildJournal(
+  trip: Pick<Trip, 'start_date' | 'end_date' | 'timezone'>,
+  activities: JournalActivity[],
+  checkins: JournalCheckinRow[],
+  photos: JournalPhotoRow[],
+  today: string
+): Journal {
+  const timeZone = trip.timezone;
+
+  const journalPhotos = photos.map(photo => {
+    const takenAt = photo.taken_at ?? photo.created_at;
+    const local = takenAt ? localDateTime(new Date(takenAt), null, timeZone) : null;
+    return {
+      date: local?.date ?? null,
+      photo: {
+        id: photo.id,
+        user_id: photo.user_id,
+        activity_id: photo.activity_id,
+        caption: photo.caption,
+        taken_at: photo.taken_at,
+        local_time: local?.time ?? null,
+        latitude: photo.latitude,
+        longitude: photo.longitude,
+      } as JournalPhoto,
+    };
+  });
+
+  const outcomes = activities.map(activity => {
+    const activityCheckins = checkins
+      .filter(c => c.activity_id === activity.id)
+      .map(c => ({ checkin: c, local: localDateTime(new Date(c.checked_in_at), c.utc_offset_minutes, timeZone) }))
+      .sort((a, b) => new Date(a.checkin.checked_in_at).getTime() - new Date(b.checkin.checked_in_at).getTime());
+
+    // The group got there when the first traveller checked in
+    const first = activityCheckins[0]?.local ?? null;
+    const plannedMinutes = timeToMinutes(activity.time);
+    const { status, delta } = classify(activity.date, plannedMinutes, first, today);
+
+    return {
+      activity_id: activity.id,
+      title: activity.title,
+      location_name: activity.location_name,
+      tag: activity.tag,
+      planned_date: activity.date,
+      planned_time: plannedMinutes === null ? null : minutesToTime(plannedMinutes),
+      actual_date: first?.date ?? null,
+      actual_time: first?.time ?? null,
+      delta_minutes: delta,
+      status,
+      checkins: activityCheckins.map(({ checkin, local }) => ({
+        id: checkin.id,
+        user_id: checkin.user_id,
+        checked_in_at: checkin.checked_in_at,
+        local_time: local.time,
+        note: checkin.note,
+        latitude: checkin.latitude,
+        longitude: checkin.longitude,
+      })),
+      photos: journalPhotos.filter(p => p.photo.activity_id === activity.id).map(p => p.photo),
+      order: activity.order ?? 0,
+    };
+  });
+
+  const dates = new Set(tripDates(trip.start_date, trip.end_date));
+  for (const outcome of outcomes) {
+    if (outcome.planned_date) dates.add(outcome.planned_date);
+    if (outcome.actual_date) dates.add(outcome.actual_date);
+  }
+
+  const strip = ({ order, ...outcome }: ActivityOutcome & { order: number }): ActivityOutcome => outcome;
+
+  const days = [...dates].sort().map(date => {
+    const planned = outcomes.filter(o => o.planned_date === date).sort(byPlan);
+    const actual = outcomes
+      .filter(o => o.actual_date === date)
+      .sort((a, b) => a.actual_time!.localeCompare(b.actual_time!));
+    return {
+      date,
+      planned: planned.map(strip),
+      actual: actual.map(strip),
+      photos: journalPhotos
+        .filter(p => p.date === date && !outcomes.some(o => o.activity_id === p.photo.activity_id))
+        .map(p => p.photo),
+      summary: {
+        planned: planned.length,
+        visited: planned.filter(o => o.actual_date !== null).length,
+        skipped: planned.filter(o => o.status === 'skipped').length,
+      },
+    };
+  });
+
+  const count = (status: VisitStatus) => outcomes.filter(o => o.status === status).length;
+  const visited = outcomes.filter(o => o.actual_date !== null).length;
+  const skipped = count('skipped');
+
+  return {
+    days,
+    unscheduled: outcomes.filter(o => o.status === 'unscheduled').map(strip),
+    stats: {
+      planned: outcomes.filter(o => o.planned_date !== null).length,
+      visited,
+      on_time: count('on_time'),
+      early: count('early'),
+      late: count('late'),
+      moved: count('moved'),
+      skipped,
+      notes: checkins.filter(c => c.note && c.note.trim()).length,
+      photos: photos.length,
+      completion_rate: visited + skipped > 0 ? Math.round((visited / (visited + skipped)) * 100) : null,
+    },
+    is_complete: trip.end_date < today,
+  };
+}
+
+/**
+ * Add file URLs to every photo in a journal; the URL depends on whether it is
+ * served to a trip member or through a share link.
+ */
+export function withPhotoUrls<T extends Pick<Journal, 'days' | 'unscheduled'>>(
+  journal: T,
+  fileUrl: (photoId: number) => string
+): T {
+  const addUrl = (photo: JournalPhoto) => ({ ...photo, file_url: fileUrl(photo.id) });
+  const withUrls = (outcome: ActivityOutcome) => ({ ...outcome, photos: outcome.photos.map(addUrl) });
+  return {
+    ...journal,
+    days: journal.days.map(day => ({
+      ...day,
+      planned: day.planned.map(withUrls),
+      actual: day.actual.map(withUrls),
+      photos: day.photos.map(addUrl),
+    })),
+    unscheduled: journal.unscheduled.map(withUrls),
+  };
+}
+
+export class TripJournalService {
+  async getCheckins(tripId: number): Promise<ActivityCheckin[]> {
+    return db
+      .select()
+      .from(activityCheckins)
+      .where(eq(activityCheckins.trip_id, tripId))
+      .orderBy(asc(activityCheckins.checked_in_at));
+  }
+
+  async getCheckin(id: number): Promise<ActivityCheckin | undefined> {
+    const [checkin] = await db.select().from(activityCheckins).where(eq(activityCheckins.id, id));
+    return checkin;
+  }
+
+  // A traveller's check-ins across several trips, for the year in travel stats
+  async getCheckinsForUser(userId: number, tripIds: number[]): Promise<ActivityCheckin[]> {
+    if (tripIds.length === 0) return [];
+    return db
+      .select()
+      .from(activityCheckins)
+      .where(and(eq(activityCheckins.user_id, userId), inArray(activityCheckins.trip_id, tripIds)));
+  }
+
+  /**
+   * Check a traveller in at an activity. Checking in again keeps the first
+   * visit; `created` is false then.
+   */
+  async recordCheckin(
+    tripId: number,
+    activityId: number,
+    userId: number,
+    input: CheckinInput
+  ): Promise<{ checkin: ActivityCheckin; created: boolean }> {
+    const [checkin] = await db
+      .insert(activityCheckins)
+      .values({
+        trip_id: tripId,
+        activity_id: activityId,
+        user_id: userId,
+        checked_in_at: input.checked_in_at,
+        utc_offset_minutes: input.utc_offset_minutes ?? null,
+        latitude: input.latitude?.toString(),
+        longitude: input.longitude?.toString(),
+        note: input.note || null,
+        client_id: input.client_id ?? null,
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (checkin) return { checkin, created: true };
+
+    const [existing] = await db
+      .select()
+      .from(activityCheckins)
+      .where(and(eq(activityCheckins.activity_id, activityId), eq(activityCheckins.user_id, userId)))
+      .limit(1);
+    return { checkin: existing, created: false };
+  }
+
+  async updateNote(id: number, note: string | null): Promise<ActivityCheckin | undefined> {
+    const [checkin] = await db
+      .update(activityCheckins)
+      .set({ note: note || null })
+      .where(eq(activityCheckins.id, id))
+      .returning();
+    return checkin;
+  }
+
+  // Note on a traveller's check-in at an activity; undefined when not checked in
+  async updateNoteForActivity(tripId: number, activityId: number, userId: number, note: string | null) {
+    const [checkin] = await db
+      .update(activityCheckins)
+      .set({ note: note || null })
+      .where(and(
+        eq(activityCheckins.trip_id, tripId),
+        eq(activityCheckins.activity_id, activityId),
+        eq(activityCheckins.user_id, userId)
+      ))
+      .returning();
+    return checkin;
+  }
+
+  async deleteCheckin(id: number): Promise<void> {
+    await db.delete(activityCheckins).where(eq(activityCheckins.id, id));
+  }
+
+  async undoCheckin(tripId: number, activityId: number, userId: number): Promise<void> {
+    await db
+      .delete(activityCheckins)
+      .where(and(
+        eq(activityCheckins.trip_id, tripId),
+        eq(activityCheckins.activity_id, activityId),
+        eq(activityCheckins.user_id, userId)
+      ));
+  }
+
+  /**
+   * The trip's journal, or null when the trip doesn't exist.
+   */
+  async getJournal(tripId: number, now = new Date()) {
+    const trip = await storage.getTrip(tripId);
+    if (!trip) return null;
+
+    const [tripActivities, checkins, photos] = await Promise.all([
+      storage.getActivitiesByTripId(tripId),
+      this.getCheckins(tripId),
+      tripPhotoService.getPhotosForTrip(tripId),
+    ]);
+
+    const today = localDateTime(now, null, trip.timezone).date;
+    return { trip, ...buildJournal(trip, tripActivities, checkins, photos, today) };
+  }
+}
+
+export const tripJournalService = new TripJournalService();
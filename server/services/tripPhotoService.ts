@@ -0,0 +1,115 @@
+import path from 'path';
+import fs from 'fs/promises';
+import sharp from 'sharp';
+import { nanoid } from 'nanoid';
+import { and, asc, eq } from 'drizzle-orm';
+import { db } from '../db-connection';
+import { tripPhotos, TripPhoto } from '@shared/schema';
+
+/**
+ * Photos taken in Travel Mode. Like receipts they are private to the trip:
+ * stored outside the public /uploads mount and served through an access
+ * checked route. Uploads are keyed by the client's queue id so a photo
+ * queued offline and retried after a dropped connection is stored once.
+ */
+
+export const PHOTO_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const PHOTOS_DIR = process.env.TRIP_PHOTOS_DIR || path.join(process.cwd(), 'private', 'photos');
+
+export interface PhotoDetails {
+  client_id?: string;
+  activity_id?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  caption?: string | null;
+  taken_at?: Date | null;
+}
+
+export class TripPhotoService {
+  async getPhotosForTrip(tripId: number): Promise<TripPhoto[]> {
+    return db.select().from(tripPhotos).where(eq(tripPhotos.trip_id, tripId)).orderBy(asc(tripPhotos.taken_at));
+  }
+
+  async getPhoto(id: number): Promise<TripPhoto | undefined> {
+    const [photo] = await db.select().from(tripPhotos).where(eq(tripPhotos.id, id));
+    return photo;
+  }
+
+  /**
+   * Store a photo, returning the existing row when this client id was
+   * already uploaded. `created` is false for those repeats.
+   */
+  async savePhoto(
+    tripId: number,
+    userId: number,
+    buffer: Buffer,
+    details: PhotoDetails
+  ): Promise<{ photo: TripPhoto; created: boolean }> {
+    if (details.client_id) {
+      const [existing] = await db
+        .select()
+        .from(tripPhotos)
+        .where(and(eq(tripPhotos.user_id, userId), eq(tripPhotos.client_id, details.client_id)))
+        .limit(1);
+      if (existing) return { photo: existing, created: false };
+    }
+
+    // Phone photos are large; a 2048px WebP is plenty for the trip journal
+    const optimized = await sharp(buffer)
+      .rotate()
+      .resize({ width: 2048, height: 2048, fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 82 })
+      .toBuffer();
+
+    const storageKey = path.join(String(tripId), `${nanoid(16)}.webp`);
+    await fs.mkdir(path.join(PHOTOS_DIR, String(tripId)), { recursive: true });
+    await fs.writeFile(path.join(PHOTOS_DIR, storageKey), optimized);
+
+    const [photo] = await db
+      .insert(tripPhotos)
+      .values({
+        trip_id: tripId,
+        user_id: userId,
+        activity_id: details.activity_id ?? null,
+        storage_key: storageKey,
+        mime_type: 'image/webp',
+        size_bytes: optimized.length,
+        latitude: details.latitude?.toString() ?? null,
+        longitude: details.longitude?.toString() ?? null,
+        caption: details.caption ?? null,
+        taken_at: details.taken_at ?? new Date(),
+        client_id: details.client_id ?? null,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!photo) {
+      // The same upload finished concurrently; keep that one
+      await fs.unlink(path.join(PHOTOS_DIR, storageKey)).catch(() => undefined);
+      const [existing] = await db
+        .select()
+        .from(tripPhotos)
+        .where(and(eq(tripPhotos.user_id, userId), eq(tripPhotos.client_id, details.client_id!)))
+        .limit(1);
+      return { photo: existing, created: false };
+    }
+
+    return { photo, created: true };
+  }
+
+  filePath(photo: TripPhoto): string {
+    return path.join(PHOTOS_DIR, photo.storage_key);
+  }
+
+  async deletePhoto(photo: TripPhoto): Promise<void> {
+    await db.delete(tripPhotos).where(eq(tripPhotos.id, photo.id));
+    try {
+      await fs.unlink(this.filePath(photo));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+}
+
+export const tripPhotoService = new TripPhotoService();
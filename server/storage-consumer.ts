@@ -39,12 +39,17 @@ import {
   ViatorCommission,
   TemplateCollection,
 } from "../shared/schema";
+import { currencyService, normalizeCurrencyCode, roundMoney, totalInCurrency, MoneyItem } from "./services/currencyService";
+import { settleUpService } from "./services/settleUpService";
+import { creatorPayoutService } from "./services/creatorPayoutService";
+import { LOCKED_TRIP_STATUSES } from "./services/refundService";
 import {
   eq,
   and,
   desc,
   asc,
   inArray,
+  notInArray,
   sql,
   or,
   gte,
@@ -56,6 +61,9 @@ import { nanoid } from "nanoid";
 import { logger } from "./utils/logger";
 import { QUERY_LIMITS, applyLimit } from "./config/queryLimits";
 
+// Revoked and frozen trips aren't served to anyone
+const tripIsOpen = notInArray(sql`coalesce(${trips.status}, 'active')`, LOCKED_TRIP_STATUSES);
+
 // Simple storage interface for consumer app
 export interface IStorage {
   // User management
@@ -84,6 +92,7 @@ export interface IStorage {
   deleteTrip(id: number): Promise<boolean>;
   getPublicTrips(): Promise<Trip[]>;
   getTripByShareCode(shareCode: string): Promise<Trip | undefined>;
+  getTripByCalendarToken(token: string): Promise<Trip | undefined>;
 
   // Activity management
   createActivity(activityData: any): Promise<Activity>;
@@ -94,8 +103,10 @@ export interface IStorage {
 
   // Notes & Todos
   createNote(noteData: any): Promise<Note>;
+  getNote(id: number): Promise<Note | undefined>;
   getNotesByTripId(tripId: number): Promise<Note[]>;
   createTodo(todoData: any): Promise<Todo>;
+  getTodo(id: number): Promise<Todo | undefined>;
   getTodosByTripId(tripId: number): Promise<Todo[]>;
   updateTodo(id: number, updates: any): Promise<Todo | undefined>;
   deleteTodo(id: number): Promise<boolean>;
@@ -103,6 +114,7 @@ export interface IStorage {
   // Bookings
   createBooking(bookingData: any): Promise<Booking>;
   getBookingsByUserId(userId: number): Promise<Booking[]>;
+  getBookingsByTripId(tripId: number): Promise<Booking[]>;
   updateBooking(id: number, updates: any): Promise<Booking | undefined>;
 
   // Collaboration
@@ -182,7 +194,6 @@ export interface IStorage {
   // Budget management
   updateTripBudget(tripId: number, budgetData: any): Promise<Trip | undefined>;
   getTripBudgetSummary(tripId: number): Promise<any>;
-  updateActivityCost(activityId: number, costData: any): Promise<Activity | undefined>;
   
   // Group expenses
   createGroupExpense(expenseData: any): Promise<any>;
@@ -300,7 +311,7 @@ export class ConsumerDatabaseStorage implements IStorage {
     const [trip] = await db
       .select()
       .from(trips)
-      .where(eq(trips.id, id))
+      .where(and(eq(trips.id, id), tripIsOpen))
       .limit(1);
     return trip;
   }
@@ -313,7 +324,7 @@ export class ConsumerDatabaseStorage implements IStorage {
     const ownTrips = await db
       .select()
       .from(trips)
-      .where(eq(trips.user_id, userId))
+      .where(and(eq(trips.user_id, userId), tripIsOpen))
       .orderBy(desc(trips.start_date))
       .limit(QUERY_LIMITS.TRIPS.MAX);
 
@@ -325,6 +336,7 @@ export class ConsumerDatabaseStorage implements IStorage {
         and(
           eq(tripCollaborators.user_id, userId),
           eq(tripCollaborators.status, "accepted"),
+          tripIsOpen,
         ),
       )
       .orderBy(desc(trips.start_date))
@@ -344,7 +356,7 @@ export class ConsumerDatabaseStorage implements IStorage {
     const ownTrips = await db
       .select()
       .from(trips)
-      .where(eq(trips.user_id, userId))
+      .where(and(eq(trips.user_id, userId), tripIsOpen))
       .orderBy(desc(trips.start_date))
       .limit(limit)
       .offset(offset);
@@ -356,7 +368,7 @@ export class ConsumerDatabaseStorage implements IStorage {
     const result = await db
       .select({ count: sql<number>`count(*)::int` })
       .from(trips)
-      .where(eq(trips.user_id, userId));
+      .where(and(eq(trips.user_id, userId), tripIsOpen));
 
     return result[0]?.count || 0;
   }
@@ -393,12 +405,21 @@ export class ConsumerDatabaseStorage implements IStorage {
       .select()
       .from(trips)
       .where(
-        and(eq(trips.share_code, shareCode), eq(trips.sharing_enabled, true)),
+        and(eq(trips.share_code, shareCode), eq(trips.sharing_enabled, true), tripIsOpen),
       )
       .limit(1);
     return trip;
   }
 
+  async getTripByCalendarToken(token: string): Promise<Trip | undefined> {
+    const [trip] = await db
+      .select()
+      .from(trips)
+      .where(and(eq(trips.calendar_token, token), tripIsOpen))
+      .limit(1);
+    return trip;
+  }
+
   // Activity management
   async createActivity(activityData: any): Promise<Activity> {
     const insertActivity = insertActivitySchema.parse(activityData);
@@ -420,9 +441,14 @@ export class ConsumerDatabaseStorage implements IStorage {
         travel_mode: insertActivity.travel_mode,
         booking_url: insertActivity.booking_url,
         booking_reference: insertActivity.booking_reference,
+        opening_hours: insertActivity.opening_hours,
         price: insertActivity.price,
         currency: insertActivity.currency,
         provider: insertActivity.provider,
+        verification_status: insertActivity.verification_status,
+        verification_confidence: insertActivity.verification_confidence,
+        verification_source: insertActivity.verification_source,
+        template_item_key: insertActivity.template_item_key,
       })
       .returning();
 
@@ -453,7 +479,7 @@ export class ConsumerDatabaseStorage implements IStorage {
   ): Promise<Activity | undefined> {
     const [updated] = await db
       .update(activities)
-      .set(updates)
+      .set({ ...updates, updated_at: new Date() })
       .where(eq(activities.id, id))
       .returning();
     return updated;
@@ -483,6 +509,15 @@ export class ConsumerDatabaseStorage implements IStorage {
     return newNote;
   }
 
+  async getNote(id: number): Promise<Note | undefined> {
+    const [note] = await db
+      .select()
+      .from(notes)
+      .where(eq(notes.id, id))
+      .limit(1);
+    return note;
+  }
+
   async getNotesByTripId(tripId: number): Promise<Note[]> {
     return await db
       .select()
@@ -529,6 +564,15 @@ export class ConsumerDatabaseStorage implements IStorage {
     return newTodo;
   }
 
+  async getTodo(id: number): Promise<Todo | undefined> {
+    const [todo] = await db
+      .select()
+      .from(todos)
+      .where(eq(todos.id, id))
+      .limit(1);
+    return todo;
+  }
+
   async getTodosByTripId(tripId: number): Promise<Todo[]> {
     return await db
       .select()
@@ -573,6 +617,14 @@ export class ConsumerDatabaseStorage implements IStorage {
       .orderBy(desc(bookings.created_at));
   }
 
+  async getBookingsByTripId(tripId: number): Promise<Booking[]> {
+    return await db
+      .select()
+      .from(bookings)
+      .where(eq(bookings.trip_id, tripId))
+      .orderBy(asc(bookings.check_in_date), asc(bookings.created_at));
+  }
+
   async updateBooking(id: number, updates: any): Promise<Booking | undefined> {
     const [updated] = await db
       .update(bookings)
@@ -839,12 +891,8 @@ export class ConsumerDatabaseStorage implements IStorage {
       .set({ sales_count: sql`${templates.sales_count} + 1` })
       .where(eq(templates.id, purchaseData.template_id));
 
-    // Update creator balance
-    await this.updateCreatorBalance(
-      purchaseData.seller_id,
-      purchaseData.seller_earnings,
-      "add",
-    );
+    // Earnings are held in the pending balance until the refund window passes
+    await creatorPayoutService.creditSale(purchase);
 
     return purchase;
   }
@@ -1181,21 +1229,34 @@ export class ConsumerDatabaseStorage implements IStorage {
       .from(activities)
       .where(eq(activities.trip_id, tripId));
 
-    // Calculate spending by category
+    // Costs are converted to the trip currency at the rate on the activity's date
+    const homeCurrency = normalizeCurrencyCode(trip.currency);
+    const rateTable = await currencyService.getRateTable();
     const spendingByCategory: Record<string, number> = {};
-    let totalSpent = 0;
+    const paidItems: MoneyItem[] = [];
 
     for (const activity of activityList) {
       if (activity.is_paid) {
         const cost = Number(activity.actual_cost || activity.price || 0);
         const perPersonCost = cost / (activity.split_between || 1);
-        totalSpent += perPersonCost;
-        
-        const category = activity.cost_category || 'uncategorized';
-        spendingByCategory[category] = (spendingByCategory[category] || 0) + perPersonCost;
+        const item = {
+          amount: perPersonCost,
+          currency: normalizeCurrencyCode(activity.currency, homeCurrency),
+          date: activity.date || trip.start_date,
+        };
+        paidItems.push(item);
+
+        const converted = rateTable.convert(item.amount, item.currency, homeCurrency, item.date);
+        if (converted) {
+          const category = activity.cost_category || 'uncategorized';
+          spendingByCategory[category] = roundMoney((spendingByCategory[category] || 0) + converted.amount, homeCurrency);
+        }
       }
     }
 
+    const spending = totalInCurrency(paidItems, homeCurrency, rateTable);
+    const totalSpent = spending.total;
+
     // Get group expenses
     const groupExpensesList = await db
       .select()
@@ -1205,11 +1266,13 @@ export class ConsumerDatabaseStorage implements IStorage {
     return {
       tripId,
       budget: Number(trip.budget || 0),
-      currency: trip.currency || "USD",
+      currency: homeCurrency,
       totalSpent,
-      remaining: Number(trip.budget || 0) - totalSpent,
+      remaining: roundMoney(Number(trip.budget || 0) - totalSpent, homeCurrency),
       percentUsed: trip.budget ? (totalSpent / Number(trip.budget)) * 100 : 0,
       spendingByCategory,
+      spendingByCurrency: spending.by_currency,
+      unconvertedCurrencies: spending.unconverted_currencies,
       budgetCategories: trip.budget_categories || {},
       alertThreshold: trip.budget_alert_threshold || 80,
       groupExpensesCount: groupExpensesList.length,
@@ -1218,24 +1281,6 @@ export class ConsumerDatabaseStorage implements IStorage {
     };
   }
 
-  async updateActivityCost(activityId: number, costData: any): Promise<Activity | undefined> {
-    const [updated] = await db
-      .update(activities)
-      .set({
-        price: costData.estimated_cost,
-        actual_cost: costData.actual_cost,
-        cost_category: costData.category,
-        split_between: costData.split_between || 1,
-        is_paid: costData.is_paid || false,
-        paid_by: costData.paid_by,
-        currency: costData.currency || "USD",
-        updated_at: new Date(),
-      })
-      .where(eq(activities.id, activityId))
-      .returning();
-    return updated;
-  }
-
   // Group expense methods
   async createGroupExpense(expenseData: any): Promise<any> {
     const [expense] = await db
@@ -1246,6 +1291,7 @@ export class ConsumerDatabaseStorage implements IStorage {
         description: expenseData.description,
         total_amount: expenseData.total_amount,
         currency: expenseData.currency || "USD",
+        expense_date: expenseData.expense_date,
         paid_by: expenseData.paid_by,
         split_type: expenseData.split_type || "equal",
         split_details: expenseData.split_details,
@@ -1311,65 +1357,7 @@ export class ConsumerDatabaseStorage implements IStorage {
   }
 
   async getTripExpenseSummary(tripId: number): Promise<any> {
-    const expenses = await this.getGroupExpensesByTripId(tripId);
-    
-    // Calculate who owes whom
-    const balances: Record<number, number> = {};
-    const transactions: Array<{ from: number; to: number; amount: number }> = [];
-
-    for (const expense of expenses) {
-      if (!expense.is_settled) {
-        // Add what the payer is owed
-        balances[expense.paid_by] = (balances[expense.paid_by] || 0) + Number(expense.total_amount);
-        
-        // Subtract what each person owes
-        for (const split of expense.split_details) {
-          balances[split.user_id] = (balances[split.user_id] || 0) - Number(split.amount);
-        }
-      }
-    }
-
-    // Calculate simplified transactions
-    const creditors = Object.entries(balances)
-      .filter(([_, amount]) => amount > 0)
-      .sort((a, b) => b[1] - a[1]);
-    
-    const debtors = Object.entries(balances)
-      .filter(([_, amount]) => amount < 0)
-      .sort((a, b) => a[1] - b[1]);
-
-    let i = 0, j = 0;
-    while (i < creditors.length && j < debtors.length) {
-      const creditorId = Number(creditors[i][0]);
-      const debtorId = Number(debtors[j][0]);
-      const creditAmount = creditors[i][1];
-      const debtAmount = Math.abs(debtors[j][1]);
-      
-      const settleAmount = Math.min(creditAmount, debtAmount);
-      
-      if (settleAmount > 0.01) { // Ignore tiny amounts
-        transactions.push({
-          from: debtorId,
-          to: creditorId,
-          amount: settleAmount,
-        });
-      }
-      
-      creditors[i][1] -= settleAmount;
-      debtors[j][1] += settleAmount;
-      
-      if (creditors[i][1] < 0.01) i++;
-      if (Math.abs(debtors[j][1]) < 0.01) j++;
-    }
-
-    return {
-      tripId,
-      totalExpenses: expenses.length,
-      unsettledExpenses: expenses.filter(e => !e.is_settled).length,
-      totalAmount: expenses.reduce((sum, e) => sum + Number(e.total_amount), 0),
-      balances,
-      suggestedTransactions: transactions,
-    };
+    return settleUpService.getSummary(tripId);
   }
 }
 
@@ -0,0 +1,196 @@
+// Minimal MIME (RFC 5322 / 2045) reader for .eml confirmation emails.
+// Handles multipart nesting, base64 / quoted-printable bodies and encoded-word headers.
+
+export interface EmailAttachment {
+  filename: string | null;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  subject: string | null;
+  from: string | null;
+  date: Date | null;
+  text: string; // Plain text body, or the HTML body converted to text
+  attachments: EmailAttachment[];
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+function splitHeaders(raw: Buffer): { headerText: string; body: Buffer } {
+  const source = raw.toString('latin1');
+  const match = source.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) {
+    return { headerText: source, body: Buffer.alloc(0) };
+  }
+  return {
+    headerText: source.slice(0, match.index),
+    body: raw.subarray(match.index + match[0].length),
+  };
+}
+
+function parseHeaders(headerText: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const unfolded = headerText.replace(/\r?\n[ \t]+/g, ' ');
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Keep the first occurrence (e.g. the outermost Content-Type)
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+function headerParam(header: string | undefined, param: string): string | null {
+  if (!header) return null;
+  const match = header.match(new RegExp(`${param}\\*?=(?:"([^"]*)"|([^;\\s]*))`, 'i'));
+  if (!match) return null;
+  const value = match[1] ?? match[2];
+  // RFC 2231 extended value: charset''percent-encoded
+  const extended = value.match(/^[\w-]+''(.*)$/);
+  return extended ? decodeURIComponent(extended[1]) : value;
+}
+
+function decodeCharset(buffer: Buffer, charset: string | null): string {
+  const normalized = (charset || 'utf-8').toLowerCase();
+  try {
+    return new TextDecoder(normalized).decode(buffer);
+  } catch {
+    return buffer.toString('utf8');
+  }
+}
+
+function decodeQuotedPrintable(input: string): Buffer {
+  const softBreaksRemoved = input.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < softBreaksRemoved.length; i++) {
+    const char = softBreaksRemoved[i];
+    if (char === '=' && /^[0-9A-F]{2}$/i.test(softBreaksRemoved.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(softBreaksRemoved.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(softBreaksRemoved.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeTransfer(body: Buffer, encoding: string | undefined): Buffer {
+  switch ((encoding || '').toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.toString('latin1').replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body.toString('latin1'));
+    default:
+      return body;
+  }
+}
+
+// Decode RFC 2047 encoded words, e.g. =?UTF-8?B?...?=
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset, encoding, text) => {
+      const buffer = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeCharset(buffer, charset);
+    });
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const source = body.toString('latin1');
+  const delimiter = `--${boundary}`;
+  const parts: Buffer[] = [];
+
+  let index = source.indexOf(delimiter);
+  while (index !== -1) {
+    const start = index + delimiter.length;
+    if (source.startsWith('--', start)) break; // Closing delimiter
+
+    const next = source.indexOf(delimiter, start);
+    const chunk = source.slice(start, next === -1 ? undefined : next).replace(/^\r?\n/, '').replace(/\r?\n$/, '');
+    parts.push(Buffer.from(chunk, 'latin1'));
+    index = next;
+  }
+  return parts;
+}
+
+function flattenParts(raw: Buffer): MimePart[] {
+  const { headerText, body } = splitHeaders(raw);
+  const headers = parseHeaders(headerText);
+  const contentType = headers['content-type'] || 'text/plain';
+
+  if (/^multipart\//i.test(contentType)) {
+    const boundary = headerParam(contentType, 'boundary');
+    if (boundary) {
+      return splitMultipart(body, boundary).flatMap(flattenParts);
+    }
+  }
+
+  return [{ headers, body: decodeTransfer(body, headers['content-transfer-encoding']) }];
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', euro: '€', pound: '£', yen: '¥', rarr: '→', ndash: '–', mdash: '—',
+};
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|h[1-6]|li|table|section)>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&([a-z]+);/gi, (entity, name) => HTML_ENTITIES[name.toLowerCase()] ?? entity)
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function parseEml(raw: Buffer): ParsedEmail {
+  const { headerText } = splitHeaders(raw);
+  const headers = parseHeaders(headerText);
+  const parts = flattenParts(raw);
+
+  let plainText: string | null = null;
+  let htmlText: string | null = null;
+  const attachments: EmailAttachment[] = [];
+
+  for (const part of parts) {
+    const contentType = (part.headers['content-type'] || 'text/plain').split(';')[0].trim().toLowerCase();
+    const disposition = part.headers['content-disposition'] || '';
+    const filename = headerParam(disposition, 'filename') || headerParam(part.headers['content-type'], 'name');
+    const charset = headerParam(part.headers['content-type'], 'charset');
+
+    if (/^attachment/i.test(disposition) || contentType === 'text/calendar' || contentType === 'application/ics') {
+      attachments.push({ filename: filename ? decodeEncodedWords(filename) : null, contentType, content: part.body });
+    } else if (contentType === 'text/plain' && plainText === null) {
+      plainText = decodeCharset(part.body, charset);
+    } else if (contentType === 'text/html' && htmlText === null) {
+      htmlText = decodeCharset(part.body, charset);
+    }
+  }
+
+  // HTML bodies usually carry the full itinerary; plain parts are often a stub
+  const text = htmlText && (!plainText || htmlText.length > plainText.length * 2)
+    ? htmlToText(htmlText)
+    : (plainText || '').trim();
+
+  const date = headers['date'] ? new Date(headers['date']) : null;
+
+  return {
+    subject: headers['subject'] ? decodeEncodedWords(headers['subject']) : null,
+    from: headers['from'] ? decodeEncodedWords(headers['from']) : null,
+    date: date && !isNaN(date.getTime()) ? date : null,
+    text,
+    attachments,
+  };
+}
@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+
+/**
+ * AES-256-GCM for sensitive values stored in the database (bank account
+ * numbers, payout files). Encrypted values are stored as
+ * "v1:<iv>:<auth tag>:<ciphertext>", each part base64.
+ */
+
+const CIPHER = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+/**
+ * A 32-byte key given as 64 hex characters or base64, or null when the
+ * value is missing or the wrong length.
+ */
+export function parseEncryptionKey(value: string | undefined): Buffer | null {
+  const key = value ? Buffer.from(value, /^[0-9a-f]{64}$/i.test(value) ? 'hex' : 'base64') : null;
+  return key && key.length === 32 ? key : null;
+}
+
+export function encryptValue(value: string, key: Buffer): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return [FORMAT_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+}
+
+// Throws when the value is malformed, was encrypted under another key, or was altered
+export function decryptValue(value: string, key: Buffer): string {
+  const [version, iv, tag, encrypted] = value.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || !encrypted) {
+    throw new Error('Unreadable encrypted value');
+  }
+  const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,172 @@
+// Minimal RFC 5545 reader for importing calendar attachments.
+// Only VEVENTs are read; recurrence rules are ignored.
+
+export interface IcsDateTime {
+  date: string; // YYYY-MM-DD, wall-clock date at the event location when known
+  time: string | null; // HH:MM, null for all-day values
+  timeZone: string | null; // TZID, "UTC" for Z-suffixed values, null when floating
+}
+
+export interface IcsEvent {
+  uid: string | null;
+  summary: string | null;
+  description: string | null;
+  location: string | null;
+  organizer: string | null;
+  start: IcsDateTime | null;
+  end: IcsDateTime | null;
+  geo: { latitude: number; longitude: number } | null;
+  properties: Record<string, string>;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unfold(source: string): string[] {
+  return source.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/).filter(Boolean);
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon that isn't inside a quoted parameter
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+}
+
+export function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\,/g, ',')
+    .replace(/\\;/g, ';')
+    .replace(/\\\\/g, '\\');
+}
+
+function parseDateTime(line: ContentLine, targetTimeZone?: string | null): IcsDateTime | null {
+  const match = line.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (!match[4] || line.params.VALUE === 'DATE') {
+    return { date, time: null, timeZone: null };
+  }
+
+  if (match[7]) {
+    // UTC instant - show it in the trip's zone when we know it
+    const instant = new Date(`${date}T${match[4]}:${match[5]}:${match[6] || '00'}Z`);
+    if (targetTimeZone) {
+      return { ...toZonedDateTime(instant, targetTimeZone), timeZone: targetTimeZone };
+    }
+    return { date, time: `${match[4]}:${match[5]}`, timeZone: 'UTC' };
+  }
+
+  return { date, time: `${match[4]}:${match[5]}`, timeZone: line.params.TZID || null };
+}
+
+function toZonedDateTime(instant: Date, timeZone: string): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find(p => p.type === type)!.value;
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, time: `${get('hour')}:${get('minute')}` };
+}
+
+/**
+ * Parse the VEVENTs in an iCalendar document.
+ * UTC times are converted to targetTimeZone when given so they line up with
+ * the wall-clock times used by activities.
+ */
+export function parseIcsEvents(source: string, targetTimeZone?: string | null): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | null = null;
+  let nestedDepth = 0;
+
+  for (const rawLine of unfold(source)) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = {
+        uid: null, summary: null, description: null, location: null, organizer: null,
+        start: null, end: null, geo: null, properties: {},
+      };
+      nestedDepth = 0;
+      continue;
+    }
+
+    if (!current) continue;
+
+    // Skip VALARM and other components nested inside the event
+    if (line.name === 'BEGIN') {
+      nestedDepth++;
+      continue;
+    }
+    if (line.name === 'END') {
+      if (nestedDepth > 0) {
+        nestedDepth--;
+      } else if (line.value.toUpperCase() === 'VEVENT') {
+        events.push(current);
+        current = null;
+      }
+      continue;
+    }
+    if (nestedDepth > 0) continue;
+
+    switch (line.name) {
+      case 'UID':
+        current.uid = line.value;
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(line.value);
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(line.value);
+        break;
+      case 'LOCATION':
+        current.location = unescapeText(line.value);
+        break;
+      case 'ORGANIZER':
+        current.organizer = line.params.CN || line.value.replace(/^mailto:/i, '');
+        break;
+      case 'DTSTART':
+        current.start = parseDateTime(line, targetTimeZone);
+        break;
+      case 'DTEND':
+        current.end = parseDateTime(line, targetTimeZone);
+        break;
+      case 'GEO': {
+        const [lat, lng] = line.value.split(/[;,]/).map(parseFloat);
+        if (!isNaN(lat) && !isNaN(lng)) current.geo = { latitude: lat, longitude: lng };
+        break;
+      }
+      default:
+        current.properties[line.name] = unescapeText(line.value);
+    }
+  }
+
+  return events;
+}
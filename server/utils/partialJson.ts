@@ -0,0 +1,73 @@
+/**
+ * Reading JSON that a model is still streaming.
+ */
+
+// Index just past the value starting at `start`, or -1 if it is cut off
+function valueEnd(text: string, start: number): number {
+  const open = text[start];
+
+  if (open === '"') {
+    for (let i = start + 1; i < text.length; i++) {
+      if (text[i] === '\\') i++;
+      else if (text[i] === '"') return i + 1;
+    }
+    return -1;
+  }
+
+  if (open === '{' || open === '[') {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (inString) {
+        if (char === '\\') i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 0) return i + 1;
+      }
+    }
+    return -1;
+  }
+
+  // Numbers and literals are only known to be complete once something follows them
+  const match = /^[^,\]\s}]+(?=[,\]\s}])/.exec(text.slice(start));
+  return match ? start + match[0].length : -1;
+}
+
+/**
+ * The complete items so far of the array under `key` in a partial JSON
+ * document, e.g. the two finished activities of
+ * `{"activities": [{...}, {...}, {"title": "Lou`. The first array with that
+ * key wins; items that don't parse are skipped.
+ */
+export function completedArrayItems(text: string, key: string): unknown[] {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const start = new RegExp(`"${escaped}"\\s*:\\s*\\[`).exec(text);
+  if (!start) return [];
+
+  const items: unknown[] = [];
+  let i = start.index + start[0].length;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === ']') break;
+    if (char === ',' || /\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const end = valueEnd(text, i);
+    if (end === -1) break;
+    try {
+      items.push(JSON.parse(text.slice(i, end)));
+    } catch {
+      // Malformed item: leave it to the full parse at the end
+    }
+    i = end;
+  }
+  return items;
+}
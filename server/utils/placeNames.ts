@@ -0,0 +1,51 @@
+/**
+ * Comparing place names as people and models write them: accents,
+ * ligatures, punctuation and filler words ("Visit the ...") vary.
+ */
+
+// Names shorter than this match too much by accident ("Bar", "Zoo")
+export const MIN_MATCH_LENGTH = 4;
+
+// Words that say what to do at a place rather than name it
+const FILLER_WORDS = new Set([
+  'the', 'a', 'an', 'at', 'of', 'to', 'in', 'visit', 'explore', 'tour', 'breakfast', 'lunch', 'dinner',
+  'brunch', 'coffee', 'drinks', 'morning', 'afternoon', 'evening',
+]);
+
+export function normalizePlaceName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/œ/g, 'oe')
+    .replace(/æ/g, 'ae')
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function nameTokens(name: string): string[] {
+  return normalizePlaceName(name).split(' ').filter(token => token && !FILLER_WORDS.has(token));
+}
+
+/**
+ * How alike two place names are, from 0 to 1: 1 for the same name, 0.9 when
+ * one contains the other ("Visit the Louvre Museum" and "Louvre Museum"),
+ * otherwise the share of words they have in common.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizePlaceName(a);
+  const right = normalizePlaceName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const shorter = left.length < right.length ? left : right;
+  const longer = shorter === left ? right : left;
+  if (shorter.length >= MIN_MATCH_LENGTH && ` ${longer} `.includes(` ${shorter} `)) return 0.9;
+
+  const leftTokens = new Set(nameTokens(a));
+  const rightTokens = new Set(nameTokens(b));
+  if (leftTokens.size === 0 || rightTokens.size === 0) return 0;
+  const shared = Array.from(leftTokens).filter(token => rightTokens.has(token)).length;
+  return shared / new Set([...Array.from(leftTokens), ...Array.from(rightTokens)]).size;
+}
@@ -0,0 +1,131 @@
+// Helpers for pulling dates, times and money amounts out of free text
+// (confirmation emails, receipts). All dates are returned as YYYY-MM-DD strings.
+
+import { parseTimeOfDay, minutesToTime } from './timeOfDay';
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4,
+  may: 5, jun: 6, june: 6, jul: 7, july: 7, aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9, oct: 10, october: 10, nov: 11, november: 11,
+  dec: 12, december: 12,
+};
+
+const MONTH_PATTERN = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join('|');
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD', 'US$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR',
+  'C$': 'CAD', 'A$': 'AUD', 'CHF': 'CHF', 'kr': 'SEK', '₩': 'KRW', '฿': 'THB',
+};
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().split('T')[0];
+}
+
+function normalizeYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+/**
+ * Find the first date in a string. Understands ISO dates, "March 30, 2025",
+ * "30 Mar 2025", "Sun, Mar 30" (year taken from referenceDate) and numeric
+ * dates, which are read month-first unless the first number can't be a month.
+ */
+export function parseLooseDate(text: string | null | undefined, referenceDate: Date = new Date()): string | null {
+  if (!text) return null;
+  const referenceYear = referenceDate.getUTCFullYear();
+
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return toIsoDate(+iso[1], +iso[2], +iso[3]);
+
+  const monthFirst = text.match(new RegExp(`\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?!\\d)(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?`, 'i'));
+  if (monthFirst) {
+    const year = monthFirst[3] ? +monthFirst[3] : referenceYear;
+    return toIsoDate(year, MONTHS[monthFirst[1].toLowerCase()], +monthFirst[2]);
+  }
+
+  const dayFirst = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_PATTERN})\\.?,?(?:\\s+(\\d{4}))?`, 'i'));
+  if (dayFirst) {
+    const year = dayFirst[3] ? +dayFirst[3] : referenceYear;
+    return toIsoDate(year, MONTHS[dayFirst[2].toLowerCase()], +dayFirst[1]);
+  }
+
+  const numeric = text.match(/\b(\d{1,2})[\/.](\d{1,2})[\/.](\d{2,4})\b/);
+  if (numeric) {
+    const first = +numeric[1];
+    const second = +numeric[2];
+    const year = normalizeYear(+numeric[3]);
+    return first > 12 ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+  }
+
+  return null;
+}
+
+// First clock time in a string, normalized to "HH:MM"
+export function extractTime(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const match = text.match(/\b(\d{1,2}:\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?/i) || text.match(/\b(\d{1,2})\s*([ap]\.?m\.?)(?![a-z])/i);
+  if (!match) return null;
+  const parsed = parseTimeOfDay(`${match[1]}${match[2] ? ` ${match[2]}` : ''}`);
+  return parsed ? minutesToTime(parsed.hours * 60 + parsed.minutes) : null;
+}
+
+export interface MoneyAmount {
+  amount: number;
+  currency: string | null;
+}
+
+// Parse "1,234.56", "1.234,56" and "1234" style numbers
+export function parseNumber(value: string): number | null {
+  let cleaned = value.replace(/\s/g, '');
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+
+  if (lastComma > lastDot) {
+    // Comma is the decimal separator when followed by exactly two digits
+    cleaned = /,\d{2}$/.test(cleaned) ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(cleaned);
+  return isNaN(amount) ? null : amount;
+}
+
+/**
+ * Find a money amount following one of the given labels (e.g. "Total").
+ * Currency comes from a symbol or ISO code on either side of the number.
+ */
+export function extractAmount(text: string, labels: string[] = ['total']): MoneyAmount | null {
+  const labelPattern = labels.map(l => l.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+  const regex = new RegExp(
+    `(?:${labelPattern})[^\\n\\d$€£¥₹₩฿]{0,40}?(US\\$|C\\$|A\\$|[$€£¥₹₩฿]|[A-Z]{3})?\\s?(\\d[\\d.,\\s]*\\d|\\d)\\s?([A-Z]{3}|[$€£¥₹₩฿])?`,
+    'i'
+  );
+  const match = text.match(regex);
+  if (!match) return null;
+
+  const amount = parseNumber(match[2]);
+  if (amount === null) return null;
+
+  return { amount, currency: normalizeCurrency(match[1] || match[3] || null) };
+}
+
+export function normalizeCurrency(value: string | null): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (CURRENCY_SYMBOLS[trimmed]) return CURRENCY_SYMBOLS[trimmed];
+  return /^[A-Z]{3}$/i.test(trimmed) ? trimmed.toUpperCase() : null;
+}
+
+// Value after "Label:" on the same line
+export function extractLabeledValue(text: string, labels: string[]): string | null {
+  for (const label of labels) {
+    const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = text.match(new RegExp(`${escaped}\\s*[:#]?[ \\t]*([^\\n]+)`, 'i'));
+    if (match && match[1].trim()) return match[1].trim();
+  }
+  return null;
+}
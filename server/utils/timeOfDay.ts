@@ -0,0 +1,41 @@
+// Helpers for the free-form `time` column on activities.
+// Values are usually "HH:MM" but older rows and AI output contain "9:30 AM" style times.
+
+export interface TimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+export function parseTimeOfDay(value: string | null | undefined): TimeOfDay | null {
+  if (!value) return null;
+
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*([ap]\.?m\.?)?$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === 'pm' && hours !== 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+  }
+
+  if (hours > 23 || minutes > 59) return null;
+  return { hours, minutes };
+}
+
+// Minutes since midnight, or null when the value can't be parsed
+export function timeToMinutes(value: string | null | undefined): number | null {
+  const parsed = parseTimeOfDay(value);
+  return parsed ? parsed.hours * 60 + parsed.minutes : null;
+}
+
+// Format minutes since midnight as "HH:MM" (wraps past midnight)
+export function minutesToTime(totalMinutes: number): string {
+  const normalized = ((Math.round(totalMinutes) % 1440) + 1440) % 1440;
+  const hours = Math.floor(normalized / 60);
+  const minutes = normalized % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
@@ -2,6 +2,10 @@ import { WebSocketServer, WebSocket } from 'ws';
 import { Server } from 'http';
 import { parse } from 'url';
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+import { collaborationService, operationSchema } from './services/collaborationService';
+import type { TripOperation } from '@shared/schema';
+import { logger } from './utils/logger';
 
 declare module 'jsonwebtoken' {
   export function verify(token: string, secret: string): any;
@@ -11,12 +15,23 @@ declare module 'jsonwebtoken' {
 interface AuthenticatedWebSocket extends WebSocket {
   user_id?: number;
   trip_id?: number;
+  trip_access?: 'owner' | 'editor' | 'viewer';
 }
 
 interface WebSocketMessage {
-  type: 'join_trip' | 'leave_trip' | 'trip_update' | 'comment_added' | 'activity_changed' | 'user_presence';
+  type: 'join_trip' | 'leave_trip' | 'comment_added' | 'user_presence' | 'submit_operation' | 'sync';
   trip_id?: number;
   data?: any;
+  last_revision?: number; // join_trip / sync: last revision the client applied
+  op_id?: string; // submit_operation: client-generated id, echoed in the ack
+  operation?: unknown; // submit_operation: see operationSchema
+}
+
+const COLLABORATION_PATH = '/ws/collaboration';
+
+function getCookie(header: string | undefined, name: string): string | undefined {
+  const match = header?.match(new RegExp(`(?:^|;\\s*)${name}=([^;]*)`));
+  return match ? decodeURIComponent(match[1]) : undefined;
 }
 
 export class CollaborationWebSocketServer {
@@ -25,14 +40,24 @@ export class CollaborationWebSocketServer {
   private userPresence: Map<number, { userId: number; lastSeen: Date }> = new Map();
   private cleanupInterval: NodeJS.Timeout;
 
+  private handleOperation = (operation: TripOperation) => this.broadcastOperation(operation);
+
   constructor(server: Server) {
-    this.wss = new WebSocketServer({
-      server,
-      path: '/ws/collaboration'
+    // noServer so upgrades for other paths (e.g. Vite HMR) are left alone
+    this.wss = new WebSocketServer({ noServer: true });
+
+    server.on('upgrade', (request, socket, head) => {
+      if (parse(request.url || '').pathname !== COLLABORATION_PATH) return;
+      this.wss.handleUpgrade(request, socket, head, (ws) => {
+        this.wss.emit('connection', ws, request);
+      });
     });
 
     this.wss.on('connection', this.handleConnection.bind(this));
 
+    // Every recorded edit, whether it came from a socket or a REST route
+    collaborationService.on('operation', this.handleOperation);
+
     // Clean up inactive connections every 30 seconds
     this.cleanupInterval = setInterval(() => this.cleanupInactiveConnections(), 30000);
   }
@@ -40,16 +65,16 @@ export class CollaborationWebSocketServer {
   private async handleConnection(ws: AuthenticatedWebSocket, request: any) {
     try {
       const url = parse(request.url, true);
-      const token = url.query.token as string;
+      const token = (url.query.token as string) || getCookie(request.headers.cookie, 'auth_token');
 
       if (!token) {
         ws.close(1008, 'Authentication required');
         return;
       }
 
-      // Verify JWT token - FIX: Should use JWT_SECRET not SESSION_SECRET
+      // Same secret as the REST jwtAuthMiddleware
       const decoded = jwt.verify(token, process.env.JWT_SECRET || process.env.SESSION_SECRET || 'dev-secret') as any;
-      ws.user_id = decoded.user_id;
+      ws.user_id = decoded.id ?? decoded.user_id;
 
       ws.on('message', (data) => this.handleMessage(ws, data));
       ws.on('close', () => this.handleDisconnect(ws));
@@ -68,23 +93,28 @@ export class CollaborationWebSocketServer {
     }
   }
 
-  private handleMessage(ws: AuthenticatedWebSocket, data: any) {
+  private async handleMessage(ws: AuthenticatedWebSocket, data: any) {
     try {
       const message: WebSocketMessage = JSON.parse(data.toString());
 
+      // Everything except joining is scoped to the room the socket is in
+      if (message.type !== 'join_trip' && message.trip_id !== ws.trip_id) {
+        return;
+      }
+
       switch (message.type) {
         case 'join_trip':
-          this.handleJoinTrip(ws, message.trip_id!);
+          await this.handleJoinTrip(ws, message.trip_id!, message.last_revision);
           break;
         case 'leave_trip':
           this.handleLeaveTrip(ws, message.trip_id!);
           break;
-        case 'trip_update':
-          this.broadcastToTrip(message.trip_id!, {
-            type: 'trip_updated',
-            userId: ws.user_id,
-            data: message.data
-          }, ws);
+        case 'sync':
+          await this.sendReplay(ws, message.trip_id!, message.last_revision ?? 0);
+          break;
+        // Edits only reach other clients as recorded operations
+        case 'submit_operation':
+          await this.handleSubmitOperation(ws, message);
           break;
         case 'comment_added':
           this.broadcastToTrip(message.trip_id!, {
@@ -93,23 +123,27 @@ export class CollaborationWebSocketServer {
             data: message.data
           }, ws);
           break;
-        case 'activity_changed':
-          this.broadcastToTrip(message.trip_id!, {
-            type: 'activity_changed',
-            userId: ws.user_id,
-            data: message.data
-          }, ws);
-          break;
         case 'user_presence':
           this.updateUserPresence(ws, message.trip_id!);
           break;
       }
     } catch (error) {
-      // Handle message parsing error silently
+      logger.warn('Failed to handle collaboration message', { userId: ws.user_id, error });
     }
   }
 
-  private handleJoinTrip(ws: AuthenticatedWebSocket, tripId: number) {
+  private async handleJoinTrip(ws: AuthenticatedWebSocket, tripId: number, lastRevision?: number) {
+    const access = ws.user_id ? await collaborationService.getTripAccess(tripId, ws.user_id) : null;
+    if (!access) {
+      ws.send(JSON.stringify({ type: 'error', trip_id: tripId, message: 'Access denied' }));
+      return;
+    }
+
+    if (ws.trip_id && ws.trip_id !== tripId) {
+      this.handleLeaveTrip(ws, ws.trip_id);
+    }
+    ws.trip_access = access;
+
     if (!this.tripRooms.has(tripId)) {
       this.tripRooms.set(tripId, new Set());
     }
@@ -128,6 +162,83 @@ export class CollaborationWebSocketServer {
       type: 'user_joined',
       userId: ws.user_id
     }, ws);
+
+    if (lastRevision !== undefined) {
+      await this.sendReplay(ws, tripId, lastRevision);
+    } else {
+      ws.send(JSON.stringify({
+        type: 'joined',
+        trip_id: tripId,
+        revision: await collaborationService.getRevision(tripId),
+        access
+      }));
+    }
+  }
+
+  // Send the operations a reconnecting client missed, or ask it to refetch
+  private async sendReplay(ws: AuthenticatedWebSocket, tripId: number, lastRevision: number) {
+    const operations = await collaborationService.getOperationsSince(tripId, lastRevision);
+
+    if (operations === null) {
+      ws.send(JSON.stringify({
+        type: 'resync_required',
+        trip_id: tripId,
+        revision: await collaborationService.getRevision(tripId)
+      }));
+      return;
+    }
+
+    ws.send(JSON.stringify({
+      type: 'sync',
+      trip_id: tripId,
+      revision: operations.length > 0 ? operations[operations.length - 1].revision : lastRevision,
+      operations: operations.map(op => this.serializeOperation(op))
+    }));
+  }
+
+  private async handleSubmitOperation(ws: AuthenticatedWebSocket, message: WebSocketMessage) {
+    const opId = message.op_id || randomUUID();
+    const reply = (payload: Record<string, any>) => ws.send(JSON.stringify({ type: 'operation_ack', op_id: opId, ...payload }));
+
+    if (ws.trip_access === 'viewer') {
+      reply({ status: 'rejected', reason: 'Read-only access', conflicts: [] });
+      return;
+    }
+
+    const parsed = operationSchema.safeParse(message.operation);
+    if (!parsed.success) {
+      reply({ status: 'rejected', reason: 'Invalid operation', errors: parsed.error.errors, conflicts: [] });
+      return;
+    }
+
+    const result = await collaborationService.applyOperation(ws.trip_id!, ws.user_id!, parsed.data, { opId });
+    reply({
+      status: result.status,
+      revision: result.operation?.revision,
+      conflicts: result.conflicts,
+      reason: result.reason,
+      activity: result.current
+    });
+  }
+
+  private serializeOperation(operation: TripOperation) {
+    return {
+      revision: operation.revision,
+      op_id: operation.op_id,
+      user_id: operation.user_id,
+      op_type: operation.type,
+      activity_id: operation.activity_id,
+      changes: operation.changes
+    };
+  }
+
+  // Sent to everyone in the room, including the author, so revisions stay contiguous
+  private broadcastOperation(operation: TripOperation) {
+    this.broadcastToTrip(operation.trip_id, {
+      type: 'operation',
+      trip_id: operation.trip_id,
+      ...this.serializeOperation(operation)
+    });
   }
 
   private handleLeaveTrip(ws: AuthenticatedWebSocket, tripId: number) {
@@ -146,6 +257,7 @@ export class CollaborationWebSocketServer {
     }, ws);
 
     ws.trip_id = undefined;
+    ws.trip_access = undefined;
   }
 
   private handleDisconnect(ws: AuthenticatedWebSocket) {
@@ -241,6 +353,7 @@ export class CollaborationWebSocketServer {
       if (this.cleanupInterval) {
         clearInterval(this.cleanupInterval);
       }
+      collaborationService.off('operation', this.handleOperation);
 
       // Close all WebSocket connections
       this.wss.clients.forEach((ws) => {
@@ -301,4 +414,11 @@ export const WebSocketService = {
   }
 };
 
-export let collaborationWS: CollaborationWebSocketServer;
\ No newline at end of file
+export let collaborationWS: CollaborationWebSocketServer;
+
+// Attach /ws/collaboration to the HTTP server once it is listening
+export function startCollaborationServer(server: Server): CollaborationWebSocketServer {
+  collaborationWS = new CollaborationWebSocketServer(server);
+  WebSocketService.setInstance(collaborationWS);
+  return collaborationWS;
+}
\ No newline at end of file
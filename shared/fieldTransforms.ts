@@ -90,6 +90,7 @@ export function transformActivityToDatabase(activityData: any) {
   if (activityData.organizationId !== undefined) result.organization_id = activityData.organizationId;
   if (activityData.assignedTo !== undefined) result.assigned_to = activityData.assignedTo;
   if (activityData.travelMode !== undefined) result.travel_mode = activityData.travelMode;
+  if (activityData.openingHours !== undefined) result.opening_hours = activityData.openingHours;
 
   // Handle fields that don't need transformation
   if (activityData.title !== undefined) result.title = activityData.title;
@@ -115,6 +116,7 @@ export function transformActivityToFrontend(activityData: any) {
   if (activityData.organization_id !== undefined) result.organizationId = activityData.organization_id;
   if (activityData.assigned_to !== undefined) result.assignedTo = activityData.assigned_to;
   if (activityData.travel_mode !== undefined) result.travelMode = activityData.travel_mode;
+  if (activityData.opening_hours !== undefined) result.openingHours = activityData.opening_hours;
 
   // Handle fields that don't need transformation
   if (activityData.id !== undefined) result.id = activityData.id;
@@ -0,0 +1,861 @@
+// Parser and evaluator for OpenStreetMap opening_hours values
+// (https://wiki.openstreetmap.org/wiki/Key:opening_hours/specification).
+// Shared by the server (itinerary generation and optimization) and the client
+// (closed-place warnings), so it has no runtime dependencies.
+
+import { easterSunday } from './publicHolidays';
+
+export type OpeningState = 'open' | 'closed' | 'unknown';
+export type RuleType = 'normal' | 'additional' | 'fallback';
+export type SunEvent = 'sunrise' | 'sunset' | 'dawn' | 'dusk';
+
+export interface YearRange { from: number; to: number; step: number }
+export interface WeekRange { from: number; to: number; step: number }
+
+export interface DatePoint {
+  year: number | null;
+  month: number | null;  // null with easter
+  day: number | null;    // null means the start (or end) of the month
+  easter: boolean;
+  offsetDays: number;
+}
+
+export interface MonthdayRange { from: DatePoint; to: DatePoint }
+
+export type DaySelector =
+  | { kind: 'weekday'; from: number; to: number; nth: number[]; offsetDays: number }  // 0 = Monday
+  | { kind: 'holiday'; holiday: 'PH' | 'SH'; offsetDays: number };
+
+export type TimePoint =
+  | { kind: 'clock'; minutes: number }
+  | { kind: 'sun'; event: SunEvent; offset: number };
+
+export interface TimeSpanSelector {
+  start: TimePoint;
+  end: TimePoint | null;  // null for a point in time ("10:00") or an open end ("17:00+")
+  openEnd: boolean;
+  every: number | null;   // repeating ranges, e.g. "10:00-16:00/90"
+}
+
+export interface OpeningHoursRule {
+  type: RuleType;
+  always: boolean;  // 24/7
+  years: YearRange[];
+  monthdays: MonthdayRange[];
+  weeks: WeekRange[];
+  // Every group must match; items within a group are alternatives.
+  // "Mo-Fr,PH" is one group, "PH Mo" is two.
+  days: DaySelector[][];
+  times: TimeSpanSelector[];
+  state: OpeningState;
+  comment: string | null;
+}
+
+export interface OpeningHours {
+  source: string;
+  rules: OpeningHoursRule[];
+}
+
+export interface OpeningHoursContext {
+  // YYYY-MM-DD → holiday name
+  publicHolidays?: Map<string, string>;
+  schoolHolidays?: Set<string>;
+  latitude?: number;
+  longitude?: number;
+  // Local offset from UTC, used for sunrise and sunset
+  utcOffsetMinutes?: number;
+}
+
+export interface OpenInterval {
+  start: number;  // minutes after local midnight
+  end: number;    // may run past 1440 when open past midnight
+  state: Exclude<OpeningState, 'closed'>;
+  comment: string | null;
+}
+
+export interface VisitCheck {
+  status: 'open' | 'closed' | 'closes_early' | 'unknown';
+  opensAt: number | null;   // next opening after the visit start, when closed
+  closesAt: number | null;  // closing time, when it closes before the visit ends
+  holiday: string | null;
+  comment: string | null;
+}
+
+export class OpeningHoursParseError extends Error {
+  constructor(public position: number, message: string) {
+    super(message);
+    this.name = 'OpeningHoursParseError';
+  }
+}
+
+const WEEKDAYS = ['mo', 'tu', 'we', 'th', 'fr', 'sa', 'su'];
+const WEEKDAY_NAMES = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const SUN_EVENTS: SunEvent[] = ['sunrise', 'sunset', 'dawn', 'dusk'];
+const MODIFIERS: Record<string, OpeningState> = { open: 'open', closed: 'closed', off: 'closed', unknown: 'unknown' };
+
+// Used for sunrise/sunset when the place has no coordinates
+const DEFAULT_SUN_TIMES: Record<SunEvent, number> = { dawn: 330, sunrise: 360, sunset: 1080, dusk: 1110 };
+
+const DAY = 1440;
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+interface Token {
+  type: 'number' | 'word' | 'punct' | 'comment';
+  value: string;
+  position: number;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    if (/[0-9]/.test(ch)) {
+      while (i < input.length && /[0-9]/.test(input[i])) i++;
+      tokens.push({ type: 'number', value: input.slice(start, i), position: start });
+    } else if (/\p{L}/u.test(ch)) {
+      while (i < input.length && /\p{L}/u.test(input[i])) i++;
+      tokens.push({ type: 'word', value: input.slice(start, i).toLowerCase(), position: start });
+    } else if (ch === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) throw new OpeningHoursParseError(i, 'Unterminated comment');
+      tokens.push({ type: 'comment', value: input.slice(i + 1, close), position: start });
+      i = close + 1;
+    } else if (ch === '|' && input[i + 1] === '|') {
+      tokens.push({ type: 'punct', value: '||', position: start });
+      i += 2;
+    } else if ('-,;:+/[]()'.includes(ch) || ch === '–' || ch === '—') {
+      tokens.push({ type: 'punct', value: ch === '–' || ch === '—' ? '-' : ch, position: start });
+      i++;
+    } else {
+      throw new OpeningHoursParseError(i, `Unexpected character "${ch}"`);
+    }
+  }
+
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private length: number) {}
+
+  parse(): OpeningHoursRule[] {
+    const rules: OpeningHoursRule[] = [];
+    let type: RuleType = 'normal';
+
+    while (true) {
+      rules.push(this.parseRule(type));
+      if (this.done()) break;
+
+      const separator = this.next();
+      if (separator.value === ';') type = 'normal';
+      else if (separator.value === ',') type = 'additional';
+      else if (separator.value === '||') type = 'fallback';
+      else this.fail(`Unexpected "${separator.value}"`, separator);
+
+      // A trailing separator is tolerated
+      if (this.done()) break;
+    }
+
+    return rules;
+  }
+
+  private parseRule(type: RuleType): OpeningHoursRule {
+    const rule: OpeningHoursRule = {
+      type,
+      always: false,
+      years: [],
+      monthdays: [],
+      weeks: [],
+      days: [],
+      times: [],
+      state: 'open',
+      comment: null,
+    };
+    const startIndex = this.index;
+
+    if (this.isAlways()) {
+      this.index += 3;
+      rule.always = true;
+    } else {
+      this.parseWideRange(rule);
+      if (rule.years.length || rule.monthdays.length || rule.weeks.length) this.acceptPunct(':');
+
+      while (this.isDayStart()) rule.days.push(this.parseDayGroup());
+      if (rule.days.length) this.acceptPunct(':');
+
+      if (this.isTimeStart()) rule.times = this.parseTimes();
+    }
+
+    const modifier = this.peek();
+    if (modifier?.type === 'word' && MODIFIERS[modifier.value]) {
+      rule.state = MODIFIERS[modifier.value];
+      this.index++;
+    }
+    const comment = this.peek();
+    if (comment?.type === 'comment') {
+      rule.comment = comment.value;
+      this.index++;
+      // A bare comment ("by appointment") means the state is unknown
+      if (this.index - 1 === startIndex) rule.state = 'unknown';
+    }
+
+    if (this.index === startIndex) {
+      const token = this.peek();
+      this.fail(token ? `Unexpected "${token.value}"` : 'Empty rule', token);
+    }
+    const token = this.peek();
+    if (token && !(token.type === 'punct' && [';', ',', '||'].includes(token.value))) {
+      this.fail(`Unexpected "${token.value}"`, token);
+    }
+
+    return rule;
+  }
+
+  // Year, month/day and week selectors, in any order
+  private parseWideRange(rule: OpeningHoursRule): void {
+    while (true) {
+      const token = this.peek();
+      if (!token) return;
+
+      if (this.isYear()) {
+        const following = this.peek(1);
+        if (following?.type === 'word' && (this.isMonth(following.value) || following.value === 'easter')) {
+          rule.monthdays.push(...this.parseList(() => this.parseMonthdayRange(), () => this.isMonthdayStart()));
+        } else {
+          rule.years.push(...this.parseList(() => this.parseYearRange(), () => this.isYear()));
+        }
+      } else if (token.type === 'word' && (this.isMonth(token.value) || token.value === 'easter')) {
+        rule.monthdays.push(...this.parseList(() => this.parseMonthdayRange(), () => this.isMonthdayStart()));
+      } else if (token.type === 'word' && token.value === 'week') {
+        this.index++;
+        rule.weeks.push(...this.parseList(() => this.parseWeekRange(), () => this.peek()?.type === 'number'));
+      } else {
+        return;
+      }
+    }
+  }
+
+  // Parses "item, item, ..." as long as the token after each comma starts
+  // another item; otherwise the comma starts an additional rule.
+  private parseList<T>(item: () => T, continues: () => boolean): T[] {
+    const items = [item()];
+    while (this.peekPunct(',')) {
+      this.index++;
+      if (!continues()) {
+        this.index--;
+        break;
+      }
+      items.push(item());
+    }
+    return items;
+  }
+
+  private parseYearRange(): YearRange {
+    const from = Number(this.expectNumber().value);
+    let to = from;
+    let step = 1;
+    if (this.acceptPunct('+')) {
+      to = Infinity;
+    } else if (this.acceptPunct('-')) {
+      to = Number(this.expectNumber().value);
+      if (this.acceptPunct('/')) step = Number(this.expectNumber().value);
+    }
+    if (to < from) this.fail('Year range ends before it starts');
+    return { from, to, step };
+  }
+
+  private parseWeekRange(): WeekRange {
+    const from = Number(this.expectNumber().value);
+    let to = from;
+    let step = 1;
+    if (this.acceptPunct('-')) {
+      to = Number(this.expectNumber().value);
+      if (this.acceptPunct('/')) step = Number(this.expectNumber().value);
+    }
+    if (from < 1 || to > 53) this.fail('Week numbers run from 1 to 53');
+    return { from, to, step };
+  }
+
+  private parseMonthdayRange(): MonthdayRange {
+    const from = this.parseDatePoint();
+    if (!this.peekPunct('-')) {
+      return { from, to: { ...from } };
+    }
+    this.index++;
+
+    // "Dec 24-26": the end is a day in the same month
+    const token = this.peek();
+    if (token?.type === 'number' && token.value.length <= 2 && from.day !== null && !this.peekPunct(':', 1)) {
+      this.index++;
+      const to: DatePoint = { ...from, day: this.validDay(Number(token.value), token), offsetDays: 0 };
+      to.offsetDays = this.parseDayOffset();
+      return { from, to };
+    }
+    return { from, to: this.parseDatePoint() };
+  }
+
+  private parseDatePoint(): DatePoint {
+    const point: DatePoint = { year: null, month: null, day: null, easter: false, offsetDays: 0 };
+    if (this.isYear()) point.year = Number(this.next().value);
+
+    const token = this.next();
+    if (token?.type === 'word' && token.value === 'easter') {
+      point.easter = true;
+    } else if (token?.type === 'word' && this.isMonth(token.value)) {
+      point.month = this.monthIndex(token.value) + 1;
+      const day = this.peek();
+      if (day?.type === 'number' && day.value.length <= 2 && !this.peekPunct(':', 1)) {
+        this.index++;
+        point.day = this.validDay(Number(day.value), day);
+      }
+    } else {
+      this.fail('Expected a month', token);
+    }
+
+    point.offsetDays = this.parseDayOffset();
+    return point;
+  }
+
+  // "+2 days" / "-1 day"
+  private parseDayOffset(): number {
+    const sign = this.peek();
+    const amount = this.peek(1);
+    const unit = this.peek(2);
+    if (
+      sign?.type === 'punct' && (sign.value === '+' || sign.value === '-') &&
+      amount?.type === 'number' && unit?.type === 'word' && (unit.value === 'day' || unit.value === 'days')
+    ) {
+      this.index += 3;
+      return (sign.value === '-' ? -1 : 1) * Number(amount.value);
+    }
+    return 0;
+  }
+
+  private parseDayGroup(): DaySelector[] {
+    return this.parseList(() => this.parseDaySelector(), () => this.isDayStart());
+  }
+
+  private parseDaySelector(): DaySelector {
+    const token = this.next();
+    if (token.value === 'ph' || token.value === 'sh') {
+      return { kind: 'holiday', holiday: token.value.toUpperCase() as 'PH' | 'SH', offsetDays: this.parseDayOffset() };
+    }
+
+    const from = this.weekdayIndex(token.value);
+    let to = from;
+    if (this.peekPunct('-') && this.peek(1)?.type === 'word' && this.weekdayIndex(this.peek(1)!.value) >= 0) {
+      this.index++;
+      to = this.weekdayIndex(this.next().value);
+    }
+
+    const nth: number[] = [];
+    if (this.acceptPunct('[')) {
+      do {
+        const first = this.parseNth();
+        if (this.acceptPunct('-')) {
+          const last = this.parseNth();
+          for (let n = first; n <= last; n++) if (n !== 0) nth.push(n);
+        } else {
+          nth.push(first);
+        }
+      } while (this.acceptPunct(','));
+      this.expectPunct(']');
+    }
+
+    return { kind: 'weekday', from, to, nth, offsetDays: nth.length ? this.parseDayOffset() : 0 };
+  }
+
+  private parseNth(): number {
+    const negative = this.acceptPunct('-');
+    const token = this.expectNumber();
+    const n = Number(token.value);
+    if (n < 1 || n > 5) this.fail('Weekday occurrence must be between 1 and 5', token);
+    return negative ? -n : n;
+  }
+
+  private parseTimes(): TimeSpanSelector[] {
+    return this.parseList(() => this.parseTimeSpan(), () => this.isTimeStart());
+  }
+
+  private parseTimeSpan(): TimeSpanSelector {
+    const span: TimeSpanSelector = { start: this.parseTimePoint(), end: null, openEnd: false, every: null };
+
+    if (this.acceptPunct('-')) {
+      span.end = this.parseTimePoint(true);
+      if (this.acceptPunct('+')) span.openEnd = true;
+      if (this.acceptPunct('/')) {
+        const token = this.expectNumber();
+        span.every = this.peekPunct(':') ? this.parseClock(token) : Number(token.value);
+      }
+    } else if (this.acceptPunct('+')) {
+      span.openEnd = true;
+    }
+    return span;
+  }
+
+  private parseTimePoint(extended = false): TimePoint {
+    const token = this.next();
+    if (token?.type === 'number') {
+      return { kind: 'clock', minutes: this.parseClock(token, extended) };
+    }
+    if (token?.type === 'word' && SUN_EVENTS.includes(token.value as SunEvent)) {
+      return { kind: 'sun', event: token.value as SunEvent, offset: 0 };
+    }
+    if (token?.type === 'punct' && token.value === '(') {
+      const event = this.next();
+      if (event?.type !== 'word' || !SUN_EVENTS.includes(event.value as SunEvent)) this.fail('Expected sunrise, sunset, dawn or dusk', event);
+      const sign = this.next();
+      if (sign?.type !== 'punct' || (sign.value !== '+' && sign.value !== '-')) this.fail('Expected + or -', sign);
+      const offset = this.parseClock(this.expectNumber());
+      this.expectPunct(')');
+      return { kind: 'sun', event: event.value as SunEvent, offset: sign.value === '-' ? -offset : offset };
+    }
+    this.fail('Expected a time', token);
+  }
+
+  // "HH:MM", with hours up to 48 at the end of a range ("22:00-26:00")
+  private parseClock(hoursToken: Token, extended = false): number {
+    this.expectPunct(':');
+    const minutesToken = this.expectNumber();
+    const hours = Number(hoursToken.value);
+    const minutes = Number(minutesToken.value);
+    if (minutes > 59 || hours > (extended ? 48 : 24) || (hours === 24 && minutes > 0 && !extended)) {
+      this.fail(`Invalid time ${hoursToken.value}:${minutesToken.value}`, hoursToken);
+    }
+    return hours * 60 + minutes;
+  }
+
+  private isAlways(): boolean {
+    const [a, b, c] = [this.peek(), this.peek(1), this.peek(2)];
+    return a?.value === '24' && b?.value === '/' && c?.value === '7';
+  }
+
+  private isYear(offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === 'number' && token.value.length === 4 && !this.peekPunct(':', offset + 1);
+  }
+
+  private isMonthdayStart(): boolean {
+    const token = this.peek();
+    if (!token) return false;
+    if (token.type === 'word') return this.isMonth(token.value) || token.value === 'easter';
+    return this.isYear();
+  }
+
+  private isDayStart(): boolean {
+    const token = this.peek();
+    return token?.type === 'word' && (token.value === 'ph' || token.value === 'sh' || this.weekdayIndex(token.value) >= 0);
+  }
+
+  private isTimeStart(): boolean {
+    const token = this.peek();
+    if (!token) return false;
+    if (token.type === 'number') return this.peekPunct(':', 1);
+    if (token.type === 'word') return SUN_EVENTS.includes(token.value as SunEvent);
+    return token.type === 'punct' && token.value === '(';
+  }
+
+  private isMonth(word: string): boolean {
+    return this.monthIndex(word) >= 0;
+  }
+
+  // "Jan" or "January"
+  private monthIndex(word: string): number {
+    return MONTHS.findIndex(month => word === month || word === month.slice(0, 3));
+  }
+
+  // "Mo", "Mon" or "Monday"
+  private weekdayIndex(word: string): number {
+    return WEEKDAY_NAMES.findIndex((day, i) => word === WEEKDAYS[i] || word === day.slice(0, 3) || word === day);
+  }
+
+  private validDay(day: number, token: Token): number {
+    if (day < 1 || day > 31) this.fail(`Invalid day ${token.value}`, token);
+    return day;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  private peekPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === 'punct' && token.value === value;
+  }
+
+  private acceptPunct(value: string): boolean {
+    if (!this.peekPunct(value)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) this.fail(`Expected "${value}"`, this.peek());
+  }
+
+  private expectNumber(): Token {
+    const token = this.next();
+    if (token?.type !== 'number') this.fail('Expected a number', token);
+    return token;
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private done(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  private fail(message: string, token?: Token): never {
+    throw new OpeningHoursParseError(token ? token.position : this.length, message);
+  }
+}
+
+/**
+ * Parse an OSM opening_hours value. Throws OpeningHoursParseError when the
+ * value doesn't follow the specification.
+ */
+export function parseOpeningHours(value: string): OpeningHours {
+  const source = value.trim();
+  if (!source) throw new OpeningHoursParseError(0, 'Empty opening hours');
+  return { source, rules: new Parser(tokenize(source), source.length).parse() };
+}
+
+/**
+ * Parse an opening_hours value, returning null for missing or unparseable
+ * values. OSM data is hand-written, so callers treat bad values as unknown.
+ */
+export function tryParseOpeningHours(value: string | null | undefined): OpeningHours | null {
+  if (!value) return null;
+  try {
+    return parseOpeningHours(value);
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+interface Span {
+  start: number;
+  end: number;
+  state: OpeningState;
+  comment: string | null;
+}
+
+// Days are handled as whole days since 1970-01-01 (UTC), which keeps the
+// arithmetic free of time zone and DST effects
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.floor(Date.UTC(year, month - 1, day) / 86400000);
+}
+
+function fromDayNumber(dayNumber: number): { year: number; month: number; day: number; weekday: number; iso: string } {
+  const date = new Date(dayNumber * 86400000);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: (date.getUTCDay() + 6) % 7,
+    iso: date.toISOString().slice(0, 10),
+  };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function isoWeek(dayNumber: number): number {
+  const { weekday } = fromDayNumber(dayNumber);
+  const thursday = dayNumber - weekday + 3;
+  const yearStart = toDayNumber(`${fromDayNumber(thursday).year}-01-01`);
+  return Math.floor((thursday - yearStart) / 7) + 1;
+}
+
+function resolveDatePoint(point: DatePoint, year: number, isEnd: boolean): number {
+  if (point.easter) {
+    const easter = easterSunday(year);
+    return Math.floor(Date.UTC(year, easter.month - 1, easter.day) / 86400000) + point.offsetDays;
+  }
+  const month = point.month!;
+  const day = point.day ?? (isEnd ? daysInMonth(year, month) : 1);
+  return Math.floor(Date.UTC(year, month - 1, Math.min(day, daysInMonth(year, month))) / 86400000) + point.offsetDays;
+}
+
+function monthdayMatches(range: MonthdayRange, dayNumber: number): boolean {
+  const { year } = fromDayNumber(dayNumber);
+
+  if (range.from.year !== null) {
+    const start = resolveDatePoint(range.from, range.from.year, false);
+    let end = resolveDatePoint(range.to, range.to.year ?? range.from.year, true);
+    if (end < start && range.to.year === null) end = resolveDatePoint(range.to, range.from.year + 1, true);
+    return dayNumber >= start && dayNumber <= end;
+  }
+
+  // Ranges without a year repeat every year and may wrap ("Dec 24-Jan 02")
+  for (const startYear of [year - 1, year]) {
+    const start = resolveDatePoint(range.from, startYear, false);
+    let end = resolveDatePoint(range.to, startYear, true);
+    if (end < start) end = resolveDatePoint(range.to, startYear + 1, true);
+    if (dayNumber >= start && dayNumber <= end) return true;
+  }
+  return false;
+}
+
+function stepRangeMatches(range: { from: number; to: number; step: number }, value: number): boolean {
+  if (range.from <= range.to) {
+    return value >= range.from && value <= range.to && (value - range.from) % range.step === 0;
+  }
+  // Wrapping week ranges ("week 50-02")
+  return value >= range.from || value <= range.to;
+}
+
+function daySelectorMatches(selector: DaySelector, dayNumber: number, ctx: OpeningHoursContext): boolean {
+  const base = dayNumber - selector.offsetDays;
+
+  if (selector.kind === 'holiday') {
+    const { iso } = fromDayNumber(base);
+    return selector.holiday === 'PH' ? !!ctx.publicHolidays?.has(iso) : !!ctx.schoolHolidays?.has(iso);
+  }
+
+  const { year, month, day, weekday } = fromDayNumber(base);
+  const inRange = selector.from <= selector.to
+    ? weekday >= selector.from && weekday <= selector.to
+    : weekday >= selector.from || weekday <= selector.to;
+  if (!inRange) return false;
+  if (!selector.nth.length) return true;
+
+  const fromStart = Math.floor((day - 1) / 7) + 1;
+  const fromEnd = -(Math.floor((daysInMonth(year, month) - day) / 7) + 1);
+  return selector.nth.includes(fromStart) || selector.nth.includes(fromEnd);
+}
+
+function ruleMatches(rule: OpeningHoursRule, dayNumber: number, ctx: OpeningHoursContext): boolean {
+  if (rule.always) return true;
+  const { year } = fromDayNumber(dayNumber);
+
+  if (rule.years.length && !rule.years.some(range => stepRangeMatches(range, year))) return false;
+  if (rule.monthdays.length && !rule.monthdays.some(range => monthdayMatches(range, dayNumber))) return false;
+  if (rule.weeks.length && !rule.weeks.some(range => stepRangeMatches(range, isoWeek(dayNumber)))) return false;
+  return rule.days.every(group => group.some(selector => daySelectorMatches(selector, dayNumber, ctx)));
+}
+
+/**
+ * Sunrise, sunset and civil twilight in local minutes (NOAA approximation).
+ */
+export function sunTimes(date: string, latitude: number, longitude: number, utcOffsetMinutes: number): Record<SunEvent, number> {
+  const dayNumber = toDayNumber(date);
+  const dayOfYear = dayNumber - toDayNumber(`${fromDayNumber(dayNumber).year}-01-01`) + 1;
+  const gamma = (2 * Math.PI / 365) * (dayOfYear - 1);
+  const equationOfTime = 229.18 * (0.000075 + 0.001868 * Math.cos(gamma) - 0.032077 * Math.sin(gamma)
+    - 0.014615 * Math.cos(2 * gamma) - 0.040849 * Math.sin(2 * gamma));
+  const declination = 0.006918 - 0.399912 * Math.cos(gamma) + 0.070257 * Math.sin(gamma)
+    - 0.006758 * Math.cos(2 * gamma) + 0.000907 * Math.sin(2 * gamma)
+    - 0.002697 * Math.cos(3 * gamma) + 0.00148 * Math.sin(3 * gamma);
+  const lat = latitude * Math.PI / 180;
+
+  const hourAngle = (zenith: number) => {
+    const cos = Math.cos(zenith * Math.PI / 180) / (Math.cos(lat) * Math.cos(declination)) - Math.tan(lat) * Math.tan(declination);
+    return Math.acos(Math.min(1, Math.max(-1, cos))) * 180 / Math.PI;
+  };
+  const noon = 720 - 4 * longitude - equationOfTime + utcOffsetMinutes;
+  const sun = hourAngle(90.833);
+  const civil = hourAngle(96);
+
+  return {
+    dawn: Math.round(noon - 4 * civil),
+    sunrise: Math.round(noon - 4 * sun),
+    sunset: Math.round(noon + 4 * sun),
+    dusk: Math.round(noon + 4 * civil),
+  };
+}
+
+function resolveTimePoint(point: TimePoint, dayNumber: number, ctx: OpeningHoursContext): number {
+  if (point.kind === 'clock') return point.minutes;
+  const times = ctx.latitude !== undefined && ctx.longitude !== undefined
+    ? sunTimes(fromDayNumber(dayNumber).iso, ctx.latitude, ctx.longitude, ctx.utcOffsetMinutes ?? Math.round(ctx.longitude * 4))
+    : DEFAULT_SUN_TIMES;
+  return times[point.event] + point.offset;
+}
+
+function ruleSpans(rule: OpeningHoursRule, dayNumber: number, ctx: OpeningHoursContext): Span[] {
+  const span = (start: number, end: number, state: OpeningState = rule.state): Span => ({ start, end, state, comment: rule.comment });
+  if (!rule.times.length) return [span(0, DAY)];
+
+  return rule.times.map(selector => {
+    const start = resolveTimePoint(selector.start, dayNumber, ctx);
+    if (!selector.end) {
+      // "17:00+" is open from 17:00 with an unknown closing time;
+      // "10:00" on its own is a point in time
+      return selector.openEnd ? span(start, DAY, rule.state === 'closed' ? 'closed' : 'unknown') : span(start, start + 1);
+    }
+    let end = resolveTimePoint(selector.end, dayNumber, ctx);
+    if (end <= start) end += DAY;
+    return span(start, end);
+  });
+}
+
+function subtractSpans(spans: Span[], remove: Span[]): Span[] {
+  let result = spans;
+  for (const cut of remove) {
+    const next: Span[] = [];
+    for (const span of result) {
+      if (cut.end <= span.start || cut.start >= span.end) {
+        next.push(span);
+        continue;
+      }
+      if (cut.start > span.start) next.push({ ...span, end: cut.start });
+      if (cut.end < span.end) next.push({ ...span, start: cut.end });
+    }
+    result = next;
+  }
+  return result;
+}
+
+// Spans for one day, relative to that day's midnight. Spans may run past
+// midnight; the next day picks those up as spill-over.
+function daySpans(hours: OpeningHours, dayNumber: number, ctx: OpeningHoursContext): Span[] {
+  let spans: Span[] = [];
+  let covered: Span[] = [];
+
+  for (const rule of hours.rules) {
+    if (!ruleMatches(rule, dayNumber, ctx)) continue;
+    let selected = ruleSpans(rule, dayNumber, ctx);
+
+    if (rule.type === 'fallback') {
+      // Fallback rules only apply where no earlier rule said anything
+      selected = subtractSpans(selected, covered);
+    } else if (rule.type === 'normal' && !(rule.state === 'closed' && rule.times.length)) {
+      // A later rule replaces what earlier rules said about the day, except
+      // that "12:00-14:00 off" only closes those hours
+      spans = [];
+      covered = [];
+    }
+
+    spans = subtractSpans(spans, selected);
+    if (rule.state !== 'closed') spans.push(...selected);
+    covered.push(...selected);
+  }
+
+  return spans.filter(span => span.state !== 'closed' && span.end > span.start);
+}
+
+/**
+ * The intervals a place is open (or possibly open) on a date, including hours
+ * carried over from the previous evening. Sorted by start; an interval may end
+ * after midnight.
+ */
+export function openIntervals(hours: OpeningHours, date: string, ctx: OpeningHoursContext = {}): OpenInterval[] {
+  const dayNumber = toDayNumber(date);
+  const spans = [
+    ...daySpans(hours, dayNumber - 1, ctx)
+      .filter(span => span.end > DAY)
+      .map(span => ({ ...span, start: Math.max(0, span.start - DAY), end: span.end - DAY })),
+    ...daySpans(hours, dayNumber, ctx).filter(span => span.start < DAY),
+  ].sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const intervals: OpenInterval[] = [];
+  for (const span of spans) {
+    const last = intervals[intervals.length - 1];
+    if (last && span.start <= last.end && span.state === last.state) {
+      last.end = Math.max(last.end, span.end);
+      continue;
+    }
+    if (last && span.start < last.end) {
+      if (span.end <= last.end) continue;
+      span.start = last.end;
+    }
+    intervals.push({ start: span.start, end: span.end, state: span.state as OpenInterval['state'], comment: span.comment });
+  }
+  return intervals;
+}
+
+/**
+ * Whether the place is open at a local time ("minutes" after midnight).
+ */
+export function stateAt(hours: OpeningHours, date: string, minutes: number, ctx: OpeningHoursContext = {}): OpeningState {
+  const interval = openIntervals(hours, date, ctx).find(i => minutes >= i.start && minutes < i.end);
+  return interval ? interval.state : 'closed';
+}
+
+/**
+ * Check a visit of `duration` minutes starting at `start` against the
+ * opening hours. A visit that runs into an "unknown" interval is not flagged.
+ */
+export function checkVisit(
+  hours: OpeningHours,
+  date: string,
+  start: number,
+  duration: number,
+  ctx: OpeningHoursContext = {}
+): VisitCheck {
+  const intervals = openIntervals(hours, date, ctx);
+  const holiday = ctx.publicHolidays?.get(date) ?? null;
+  const end = start + Math.max(1, duration);
+
+  const index = intervals.findIndex(i => start >= i.start && start < i.end);
+  if (index === -1) {
+    const next = intervals.find(i => i.start > start);
+    return { status: 'closed', opensAt: next ? next.start : null, closesAt: null, holiday, comment: null };
+  }
+
+  let current = intervals[index];
+  if (current.state === 'unknown') {
+    return { status: 'unknown', opensAt: null, closesAt: null, holiday, comment: current.comment };
+  }
+
+  // Walk through back-to-back intervals ("10:00-12:00,12:00-18:00")
+  let closesAt = current.end;
+  for (let i = index + 1; i < intervals.length && intervals[i].start <= closesAt; i++) {
+    if (intervals[i].state === 'unknown') return { status: 'open', opensAt: null, closesAt: null, holiday, comment: current.comment };
+    closesAt = Math.max(closesAt, intervals[i].end);
+    current = intervals[i];
+  }
+
+  if (closesAt < end) {
+    return { status: 'closes_early', opensAt: null, closesAt, holiday, comment: current.comment };
+  }
+  return { status: 'open', opensAt: null, closesAt: null, holiday, comment: current.comment };
+}
+
+function formatMinutes(minutes: number): string {
+  const normalized = ((minutes % DAY) + DAY) % DAY;
+  return `${String(Math.floor(normalized / 60)).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+}
+
+/**
+ * A short, human-readable warning for a visit check, or null when the visit
+ * fits the opening hours.
+ */
+export function describeVisitCheck(check: VisitCheck): string | null {
+  if (check.status === 'closed') {
+    const when = check.holiday ? ` on ${check.holiday}` : '';
+    return check.opensAt !== null
+      ? `Closed at this time${when} (opens ${formatMinutes(check.opensAt)})`
+      : `Closed all day${when}`;
+  }
+  if (check.status === 'closes_early' && check.closesAt !== null) {
+    return `Closes at ${formatMinutes(check.closesAt)}, before this activity ends`;
+  }
+  return null;
+}
@@ -0,0 +1,366 @@
+// National public holidays for the countries trips are most often planned in.
+// Used to evaluate the `PH` selector of OSM opening_hours values. Regional
+// holidays (states, cantons, provinces) are not included.
+
+type Observance =
+  | 'nearest'   // Saturday moves to Friday, Sunday to Monday (US federal)
+  | 'weekday'   // Saturday or Sunday moves to the next free weekday (UK, AU)
+  | 'sunday';   // Sunday moves to the next free day (CA, JP)
+
+type HolidayRule =
+  | { name: string; month: number; day: number; observed?: Observance }
+  | { name: string; easter: number }
+  | { name: string; month: number; weekday: number; nth: number }
+  | { name: string; date: (year: number) => { month: number; day: number }; observed?: Observance };
+
+const MONDAY = 1;
+const THURSDAY = 4;
+
+const HOLIDAY_RULES: Record<string, HolidayRule[]> = {
+  US: [
+    { name: "New Year's Day", month: 1, day: 1, observed: 'nearest' },
+    { name: 'Martin Luther King Jr. Day', month: 1, weekday: MONDAY, nth: 3 },
+    { name: "Presidents' Day", month: 2, weekday: MONDAY, nth: 3 },
+    { name: 'Memorial Day', month: 5, weekday: MONDAY, nth: -1 },
+    { name: 'Juneteenth', month: 6, day: 19, observed: 'nearest' },
+    { name: 'Independence Day', month: 7, day: 4, observed: 'nearest' },
+    { name: 'Labor Day', month: 9, weekday: MONDAY, nth: 1 },
+    { name: 'Columbus Day', month: 10, weekday: MONDAY, nth: 2 },
+    { name: 'Veterans Day', month: 11, day: 11, observed: 'nearest' },
+    { name: 'Thanksgiving', month: 11, weekday: THURSDAY, nth: 4 },
+    { name: 'Christmas Day', month: 12, day: 25, observed: 'nearest' },
+  ],
+  GB: [
+    { name: "New Year's Day", month: 1, day: 1, observed: 'weekday' },
+    { name: 'Good Friday', easter: -2 },
+    { name: 'Easter Monday', easter: 1 },
+    { name: 'Early May Bank Holiday', month: 5, weekday: MONDAY, nth: 1 },
+    { name: 'Spring Bank Holiday', month: 5, weekday: MONDAY, nth: -1 },
+    { name: 'Summer Bank Holiday', month: 8, weekday: MONDAY, nth: -1 },
+    { name: 'Christmas Day', month: 12, day: 25, observed: 'weekday' },
+    { name: 'Boxing Day', month: 12, day: 26, observed: 'weekday' },
+  ],
+  IE: [
+    { name: "New Year's Day", month: 1, day: 1 },
+    { name: "St Brigid's Day", date: year => (weekdayOf(year, 2, 1) === 5 ? { month: 2, day: 1 } : nthWeekday(year, 2, MONDAY, 1)) },
+    { name: "St Patrick's Day", month: 3, day: 17 },
+    { name: 'Easter Monday', easter: 1 },
+    { name: 'May Bank Holiday', month: 5, weekday: MONDAY, nth: 1 },
+    { name: 'June Bank Holiday', month: 6, weekday: MONDAY, nth: 1 },
+    { name: 'August Bank Holiday', month: 8, weekday: MONDAY, nth: 1 },
+    { name: 'October Bank Holiday', month: 10, weekday: MONDAY, nth: -1 },
+    { name: 'Christmas Day', month: 12, day: 25 },
+    { name: "St Stephen's Day", month: 12, day: 26 },
+  ],
+  DE: [
+    { name: 'Neujahr', month: 1, day: 1 },
+    { name: 'Karfreitag', easter: -2 },
+    { name: 'Ostermontag', easter: 1 },
+    { name: 'Tag der Arbeit', month: 5, day: 1 },
+    { name: 'Christi Himmelfahrt', easter: 39 },
+    { name: 'Pfingstmontag', easter: 50 },
+    { name: 'Tag der Deutschen Einheit', month: 10, day: 3 },
+    { name: 'Erster Weihnachtstag', month: 12, day: 25 },
+    { name: 'Zweiter Weihnachtstag', month: 12, day: 26 },
+  ],
+  AT: [
+    { name: 'Neujahr', month: 1, day: 1 },
+    { name: 'Heilige Drei Könige', month: 1, day: 6 },
+    { name: 'Ostermontag', easter: 1 },
+    { name: 'Staatsfeiertag', month: 5, day: 1 },
+    { name: 'Christi Himmelfahrt', easter: 39 },
+    { name: 'Pfingstmontag', easter: 50 },
+    { name: 'Fronleichnam', easter: 60 },
+    { name: 'Mariä Himmelfahrt', month: 8, day: 15 },
+    { name: 'Nationalfeiertag', month: 10, day: 26 },
+    { name: 'Allerheiligen', month: 11, day: 1 },
+    { name: 'Mariä Empfängnis', month: 12, day: 8 },
+    { name: 'Christtag', month: 12, day: 25 },
+    { name: 'Stefanitag', month: 12, day: 26 },
+  ],
+  CH: [
+    { name: 'Neujahr', month: 1, day: 1 },
+    { name: 'Karfreitag', easter: -2 },
+    { name: 'Ostermontag', easter: 1 },
+    { name: 'Auffahrt', easter: 39 },
+    { name: 'Pfingstmontag', easter: 50 },
+    { name: 'Bundesfeier', month: 8, day: 1 },
+    { name: 'Weihnachten', month: 12, day: 25 },
+    { name: 'Stephanstag', month: 12, day: 26 },
+  ],
+  FR: [
+    { name: "Jour de l'an", month: 1, day: 1 },
+    { name: 'Lundi de Pâques', easter: 1 },
+    { name: 'Fête du Travail', month: 5, day: 1 },
+    { name: 'Victoire 1945', month: 5, day: 8 },
+    { name: 'Ascension', easter: 39 },
+    { name: 'Lundi de Pentecôte', easter: 50 },
+    { name: 'Fête nationale', month: 7, day: 14 },
+    { name: 'Assomption', month: 8, day: 15 },
+    { name: 'Toussaint', month: 11, day: 1 },
+    { name: 'Armistice 1918', month: 11, day: 11 },
+    { name: 'Noël', month: 12, day: 25 },
+  ],
+  IT: [
+    { name: 'Capodanno', month: 1, day: 1 },
+    { name: 'Epifania', month: 1, day: 6 },
+    { name: "Lunedì dell'Angelo", easter: 1 },
+    { name: 'Festa della Liberazione', month: 4, day: 25 },
+    { name: 'Festa del Lavoro', month: 5, day: 1 },
+    { name: 'Festa della Repubblica', month: 6, day: 2 },
+    { name: 'Ferragosto', month: 8, day: 15 },
+    { name: 'Ognissanti', month: 11, day: 1 },
+    { name: 'Immacolata Concezione', month: 12, day: 8 },
+    { name: 'Natale', month: 12, day: 25 },
+    { name: 'Santo Stefano', month: 12, day: 26 },
+  ],
+  ES: [
+    { name: 'Año Nuevo', month: 1, day: 1 },
+    { name: 'Epifanía del Señor', month: 1, day: 6 },
+    { name: 'Viernes Santo', easter: -2 },
+    { name: 'Fiesta del Trabajo', month: 5, day: 1 },
+    { name: 'Asunción de la Virgen', month: 8, day: 15 },
+    { name: 'Fiesta Nacional de España', month: 10, day: 12 },
+    { name: 'Todos los Santos', month: 11, day: 1 },
+    { name: 'Día de la Constitución', month: 12, day: 6 },
+    { name: 'Inmaculada Concepción', month: 12, day: 8 },
+    { name: 'Navidad', month: 12, day: 25 },
+  ],
+  PT: [
+    { name: 'Ano Novo', month: 1, day: 1 },
+    { name: 'Sexta-feira Santa', easter: -2 },
+    { name: 'Páscoa', easter: 0 },
+    { name: 'Dia da Liberdade', month: 4, day: 25 },
+    { name: 'Dia do Trabalhador', month: 5, day: 1 },
+    { name: 'Corpo de Deus', easter: 60 },
+    { name: 'Dia de Portugal', month: 6, day: 10 },
+    { name: 'Assunção de Nossa Senhora', month: 8, day: 15 },
+    { name: 'Implantação da República', month: 10, day: 5 },
+    { name: 'Dia de Todos-os-Santos', month: 11, day: 1 },
+    { name: 'Restauração da Independência', month: 12, day: 1 },
+    { name: 'Imaculada Conceição', month: 12, day: 8 },
+    { name: 'Natal', month: 12, day: 25 },
+  ],
+  NL: [
+    { name: 'Nieuwjaarsdag', month: 1, day: 1 },
+    { name: 'Eerste Paasdag', easter: 0 },
+    { name: 'Tweede Paasdag', easter: 1 },
+    { name: 'Koningsdag', date: year => ({ month: 4, day: weekdayOf(year, 4, 27) === 0 ? 26 : 27 }) },
+    { name: 'Bevrijdingsdag', month: 5, day: 5 },
+    { name: 'Hemelvaartsdag', easter: 39 },
+    { name: 'Eerste Pinksterdag', easter: 49 },
+    { name: 'Tweede Pinksterdag', easter: 50 },
+    { name: 'Eerste Kerstdag', month: 12, day: 25 },
+    { name: 'Tweede Kerstdag', month: 12, day: 26 },
+  ],
+  BE: [
+    { name: 'Nieuwjaar', month: 1, day: 1 },
+    { name: 'Paasmaandag', easter: 1 },
+    { name: 'Dag van de Arbeid', month: 5, day: 1 },
+    { name: 'Hemelvaart', easter: 39 },
+    { name: 'Pinkstermaandag', easter: 50 },
+    { name: 'Nationale feestdag', month: 7, day: 21 },
+    { name: 'Onze-Lieve-Vrouw-Hemelvaart', month: 8, day: 15 },
+    { name: 'Allerheiligen', month: 11, day: 1 },
+    { name: 'Wapenstilstand', month: 11, day: 11 },
+    { name: 'Kerstmis', month: 12, day: 25 },
+  ],
+  CA: [
+    { name: "New Year's Day", month: 1, day: 1, observed: 'sunday' },
+    { name: 'Good Friday', easter: -2 },
+    { name: 'Victoria Day', date: year => victoriaDay(year) },
+    { name: 'Canada Day', month: 7, day: 1, observed: 'sunday' },
+    { name: 'Labour Day', month: 9, weekday: MONDAY, nth: 1 },
+    { name: 'Thanksgiving', month: 10, weekday: MONDAY, nth: 2 },
+    { name: 'Christmas Day', month: 12, day: 25, observed: 'weekday' },
+  ],
+  AU: [
+    { name: "New Year's Day", month: 1, day: 1, observed: 'weekday' },
+    { name: 'Australia Day', month: 1, day: 26, observed: 'weekday' },
+    { name: 'Good Friday', easter: -2 },
+    { name: 'Easter Monday', easter: 1 },
+    { name: 'Anzac Day', month: 4, day: 25 },
+    { name: "King's Birthday", month: 6, weekday: MONDAY, nth: 2 },
+    { name: 'Christmas Day', month: 12, day: 25, observed: 'weekday' },
+    { name: 'Boxing Day', month: 12, day: 26, observed: 'weekday' },
+  ],
+  MX: [
+    { name: 'Año Nuevo', month: 1, day: 1 },
+    { name: 'Día de la Constitución', month: 2, weekday: MONDAY, nth: 1 },
+    { name: 'Natalicio de Benito Juárez', month: 3, weekday: MONDAY, nth: 3 },
+    { name: 'Día del Trabajo', month: 5, day: 1 },
+    { name: 'Día de la Independencia', month: 9, day: 16 },
+    { name: 'Día de la Revolución', month: 11, weekday: MONDAY, nth: 3 },
+    { name: 'Navidad', month: 12, day: 25 },
+  ],
+  JP: [
+    { name: '元日', month: 1, day: 1, observed: 'sunday' },
+    { name: '成人の日', month: 1, weekday: MONDAY, nth: 2 },
+    { name: '建国記念の日', month: 2, day: 11, observed: 'sunday' },
+    { name: '天皇誕生日', month: 2, day: 23, observed: 'sunday' },
+    { name: '春分の日', date: year => ({ month: 3, day: equinoxDay(year, 20.8431) }), observed: 'sunday' },
+    { name: '昭和の日', month: 4, day: 29, observed: 'sunday' },
+    { name: '憲法記念日', month: 5, day: 3, observed: 'sunday' },
+    { name: 'みどりの日', month: 5, day: 4, observed: 'sunday' },
+    { name: 'こどもの日', month: 5, day: 5, observed: 'sunday' },
+    { name: '海の日', month: 7, weekday: MONDAY, nth: 3 },
+    { name: '山の日', month: 8, day: 11, observed: 'sunday' },
+    { name: '敬老の日', month: 9, weekday: MONDAY, nth: 3 },
+    { name: '秋分の日', date: year => ({ month: 9, day: equinoxDay(year, 23.2488) }), observed: 'sunday' },
+    { name: 'スポーツの日', month: 10, weekday: MONDAY, nth: 2 },
+    { name: '文化の日', month: 11, day: 3, observed: 'sunday' },
+    { name: '勤労感謝の日', month: 11, day: 23, observed: 'sunday' },
+  ],
+};
+
+const COUNTRY_NAMES: Record<string, string> = {
+  'united states': 'US', 'united states of america': 'US', 'usa': 'US', 'america': 'US',
+  'united kingdom': 'GB', 'uk': 'GB', 'great britain': 'GB', 'england': 'GB', 'wales': 'GB',
+  'ireland': 'IE', 'republic of ireland': 'IE', 'éire': 'IE',
+  'germany': 'DE', 'deutschland': 'DE',
+  'austria': 'AT', 'österreich': 'AT',
+  'switzerland': 'CH', 'schweiz': 'CH', 'suisse': 'CH', 'svizzera': 'CH',
+  'france': 'FR',
+  'italy': 'IT', 'italia': 'IT',
+  'spain': 'ES', 'españa': 'ES',
+  'portugal': 'PT',
+  'netherlands': 'NL', 'the netherlands': 'NL', 'holland': 'NL', 'nederland': 'NL',
+  'belgium': 'BE', 'belgique': 'BE', 'belgië': 'BE',
+  'canada': 'CA',
+  'australia': 'AU',
+  'mexico': 'MX', 'méxico': 'MX',
+  'japan': 'JP', '日本': 'JP',
+};
+
+/**
+ * Resolve a country name or ISO 3166-1 alpha-2 code to a code with holiday
+ * data, or null when we don't have a calendar for it.
+ */
+export function holidayCountryCode(country: string | null | undefined): string | null {
+  if (!country) return null;
+  const value = country.trim();
+  if (HOLIDAY_RULES[value.toUpperCase()]) return value.toUpperCase();
+  return COUNTRY_NAMES[value.toLowerCase()] || null;
+}
+
+/**
+ * Public holidays for a country and year, keyed by YYYY-MM-DD. Holidays that
+ * fall on a weekend are listed both on the day and on the weekday they are
+ * observed.
+ */
+export function publicHolidays(country: string, year: number): Map<string, string> {
+  const code = holidayCountryCode(country);
+  const holidays = new Map<string, string>();
+  if (!code) return holidays;
+
+  for (const rule of HOLIDAY_RULES[code]) {
+    let date: { month: number; day: number };
+    let observed: Observance | undefined;
+
+    if ('easter' in rule) {
+      date = addDays(year, easterSunday(year), rule.easter);
+    } else if ('weekday' in rule) {
+      date = nthWeekday(year, rule.month, rule.weekday, rule.nth);
+    } else if ('date' in rule) {
+      date = rule.date(year);
+      observed = rule.observed;
+    } else {
+      date = { month: rule.month, day: rule.day };
+      observed = rule.observed;
+    }
+    // The holiday itself stays listed; businesses close on the day too
+    holidays.set(formatDate(year, date), rule.name);
+
+    const weekday = weekdayOf(year, date.month, date.day);
+    if (observed === 'nearest' && weekday === 6) {
+      holidays.set(formatDate(year, addDays(year, date, -1)), rule.name);
+    } else if (observed === 'nearest' && weekday === 0) {
+      holidays.set(formatDate(year, addDays(year, date, 1)), rule.name);
+    } else if ((observed === 'weekday' && (weekday === 6 || weekday === 0)) || (observed === 'sunday' && weekday === 0)) {
+      // Substitute days go to the next day that isn't already a holiday
+      const isFree = (d: { month: number; day: number }) => {
+        const wd = weekdayOf(year, d.month, d.day);
+        return !holidays.has(formatDate(year, d)) && (observed === 'sunday' || (wd !== 6 && wd !== 0));
+      };
+      let next = addDays(year, date, 1);
+      while (!isFree(next)) next = addDays(year, next, 1);
+      holidays.set(formatDate(year, next), rule.name);
+    }
+  }
+
+  return holidays;
+}
+
+/**
+ * Public holidays between two dates (inclusive), for every year the range
+ * touches.
+ */
+export function publicHolidaysBetween(country: string, startDate: string, endDate: string): Map<string, string> {
+  const holidays = new Map<string, string>();
+  const firstYear = Number(startDate.slice(0, 4));
+  const lastYear = Number(endDate.slice(0, 4));
+  if (!Number.isFinite(firstYear) || !Number.isFinite(lastYear)) return holidays;
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    publicHolidays(country, year).forEach((name, date) => {
+      if (date >= startDate && date <= endDate) holidays.set(date, name);
+    });
+  }
+  return holidays;
+}
+
+/**
+ * Easter Sunday (Gregorian) by the anonymous algorithm.
+ */
+export function easterSunday(year: number): { month: number; day: number } {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { month, day };
+}
+
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function addDays(year: number, date: { month: number; day: number }, days: number): { month: number; day: number } {
+  const shifted = new Date(Date.UTC(year, date.month - 1, date.day + days));
+  return { month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+function formatDate(year: number, date: { month: number; day: number }): string {
+  return `${year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+// nth > 0 counts from the start of the month, nth < 0 from the end
+function nthWeekday(year: number, month: number, weekday: number, nth: number): { month: number; day: number } {
+  if (nth > 0) {
+    const first = weekdayOf(year, month, 1);
+    return { month, day: 1 + ((weekday - first + 7) % 7) + (nth - 1) * 7 };
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const last = weekdayOf(year, month, lastDay);
+  return { month, day: lastDay - ((last - weekday + 7) % 7) + (nth + 1) * 7 };
+}
+
+// The Monday before May 25
+function victoriaDay(year: number): { month: number; day: number } {
+  const weekday = weekdayOf(year, 5, 24);
+  return { month: 5, day: 24 - ((weekday - MONDAY + 7) % 7) };
+}
+
+// Equinox approximation used by the Japanese calendar, valid 1980-2099
+function equinoxDay(year: number, base: number): number {
+  return Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
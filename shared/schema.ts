@@ -61,15 +61,18 @@ export const trips = pgTable("trips", {
   hotel: text("hotel"),
   hotel_latitude: decimal("hotel_latitude", { precision: 11, scale: 8 }),
   hotel_longitude: decimal("hotel_longitude", { precision: 11, scale: 8 }),
+  timezone: text("timezone"), // IANA zone, e.g. Europe/Paris
 
   // Sharing
   share_code: text("share_code").unique(),
   sharing_enabled: boolean("sharing_enabled").default(false),
   share_permission: text("share_permission").default("read-only"),
   is_public: boolean("is_public").default(false),
+  calendar_token: text("calendar_token").unique(), // Secret for the subscribable .ics feed
   
   // Collaborative Mode
   collaborative_mode: boolean("collaborative_mode").default(false),
+  revision: integer("revision").notNull().default(0), // Bumped by every recorded edit operation
   allow_anonymous_suggestions: boolean("allow_anonymous_suggestions").default(true),
   
   // Group Trip RSVP
@@ -137,6 +140,7 @@ export const activities = pgTable("activities", {
   travel_mode: text("travel_mode"),
   booking_url: text("booking_url"),
   booking_reference: text("booking_reference"),
+  opening_hours: text("opening_hours"), // OSM opening_hours value of the place
   
   // Cost tracking
   price: decimal("price", { precision: 10, scale: 2 }), // Estimated cost
@@ -154,11 +158,59 @@ export const activities = pgTable("activities", {
   max_age: integer("max_age"), // Maximum recommended age  
   stroller_accessible: boolean("stroller_accessible").default(false),
   category: text("category"), // dining, culture, outdoor, shopping, entertainment, etc.
+
+  // Place verification for AI suggestions; null when never checked
+  verification_status: text("verification_status"), // verified, unverified, replaced
+  verification_confidence: decimal("verification_confidence", { precision: 3, scale: 2 }),
+  verification_source: text("verification_source"), // osm, nominatim, geocoding
+
+  template_item_key: text("template_item_key"), // Template activity this was copied from, for template updates
+
+  version: integer("version").notNull().default(1), // Optimistic concurrency for collaborative edits
   
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
 
+// Server-authoritative edit log for collaborative trip editing
+export const tripOperations = pgTable("trip_operations", {
+  id: serial("id").primaryKey(),
+  trip_id: integer("trip_id").notNull(),
+  revision: integer("revision").notNull(), // Trip revision after this operation
+  user_id: integer("user_id").notNull(),
+  op_id: text("op_id"), // Client-generated id, used to drop retried operations
+  type: text("type").notNull(), // create_activity, update_activity, move_activity, delete_activity
+  activity_id: integer("activity_id"),
+  activity_version: integer("activity_version"), // Activity version after this operation
+  payload: jsonb("payload").$type<Record<string, any>>().notNull(), // Operation as submitted
+  changes: jsonb("changes").$type<Record<string, any>>().notNull(), // Resolved effect, replayed to clients
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Trip history: one changeset per user action (or AI bulk change), one entry per row it touched
+export const tripChangesets = pgTable("trip_changesets", {
+  id: serial("id").primaryKey(),
+  trip_id: integer("trip_id").notNull(),
+  user_id: integer("user_id"), // Who triggered it; AI changes carry the requesting user
+  source: text("source").notNull().default("user"), // user, ai, suggestion, import, restore
+  description: text("description"),
+  reverted_by_changeset_id: integer("reverted_by_changeset_id"),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+export const tripChanges = pgTable("trip_changes", {
+  id: serial("id").primaryKey(),
+  changeset_id: integer("changeset_id").notNull(),
+  trip_id: integer("trip_id").notNull(),
+  entity_type: text("entity_type").notNull(), // trip, activity, note, todo
+  entity_id: integer("entity_id").notNull(),
+  action: text("action").notNull(), // create, update, delete
+  day: date("day"), // Activity date, for restoring a single day
+  before: jsonb("before").$type<Record<string, any>>(), // Changed fields for updates, whole row for deletes
+  after: jsonb("after").$type<Record<string, any>>(), // Changed fields for updates, whole row for creates
+  created_at: timestamp("created_at").defaultNow(),
+});
+
 // Trip notes
 export const notes = pgTable("notes", {
   id: serial("id").primaryKey(),
@@ -210,6 +262,7 @@ export const groupExpenses = pgTable("group_expenses", {
   description: text("description").notNull(),
   total_amount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   currency: text("currency").default("USD"),
+  expense_date: date("expense_date"), // When it was spent; converted at that day's rate
   paid_by: integer("paid_by").notNull(), // User who paid
   split_type: text("split_type").default("equal"), // equal, custom, percentage
   split_details: jsonb("split_details").$type<Array<{
@@ -227,6 +280,99 @@ export const groupExpenses = pgTable("group_expenses", {
   updated_at: timestamp("updated_at").defaultNow(),
 });
 
+// Settle-up ledger: payments between collaborators, full or partial
+export const expenseSettlements = pgTable("expense_settlements", {
+  id: serial("id").primaryKey(),
+  trip_id: integer("trip_id").notNull(),
+  expense_id: integer("expense_id"), // Set when settling a specific expense
+  from_user_id: integer("from_user_id").notNull(), // Who paid
+  to_user_id: integer("to_user_id").notNull(), // Who received
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("USD"),
+  method: text("method").notNull().default("other"), // cash, bank_transfer, card, venmo, paypal, other
+  settled_on: date("settled_on").notNull(),
+  note: text("note"),
+  recorded_by: integer("recorded_by").notNull(),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Uploaded receipt images/PDFs and what OCR read from them
+export const expenseReceipts = pgTable("expense_receipts", {
+  id: serial("id").primaryKey(),
+  trip_id: integer("trip_id").notNull(),
+  expense_id: integer("expense_id"), // Set once the draft is saved as an expense
+  uploaded_by: integer("uploaded_by").notNull(),
+  storage_key: text("storage_key").notNull(), // Path under the private receipts directory
+  original_name: text("original_name"),
+  mime_type: text("mime_type").notNull(),
+  size_bytes: integer("size_bytes").notNull(),
+  ocr_status: text("ocr_status").notNull().default("pending"), // pending, complete, failed
+  ocr_text: text("ocr_text"),
+  ocr_confidence: integer("ocr_confidence"), // 0-100, images only
+  extracted: jsonb("extracted").$type<{
+    merchant: string | null;
+    total: number | null;
+    currency: string | null;
+    date: string | null;
+  }>(),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Travel mode check-ins: one per traveller per activity
+export const activityCheckins = pgTable("activity_checkins", {
+  id: serial("id").primaryKey(),
+  trip_id: integer("trip_id").notNull(),
+  activity_id: integer("activity_id").notNull(),
+  user_id: integer("user_id").notNull(),
+  checked_in_at: timestamp("checked_in_at").notNull(), // When it happened on the device, not when it synced
+  utc_offset_minutes: integer("utc_offset_minutes"), // Device's local offset at the time, e.g. 120 for CEST
+  latitude: decimal("latitude", { precision: 11, scale: 8 }),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  note: text("note"),
+  client_id: text("client_id"), // Offline queue entry that created it
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Photos taken during a trip, stored privately per trip
+export const tripPhotos = pgTable("trip_photos", {
+  id: serial("id").primaryKey(),
+  trip_id: integer("trip_id").notNull(),
+  activity_id: integer("activity_id"),
+  user_id: integer("user_id").notNull(),
+  storage_key: text("storage_key").notNull(),
+  mime_type: text("mime_type").notNull(),
+  size_bytes: integer("size_bytes").notNull(),
+  latitude: decimal("latitude", { precision: 11, scale: 8 }),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  caption: text("caption"),
+  taken_at: timestamp("taken_at"),
+  client_id: text("client_id"), // Makes a retried offline upload a no-op
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Offline mutations already replayed, so a retried sync returns the same result
+export const offlineMutations = pgTable("offline_mutations", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull(),
+  trip_id: integer("trip_id").notNull(),
+  client_id: text("client_id").notNull(),
+  type: text("type").notNull(),
+  status: text("status").notNull(), // applied, conflict, rejected
+  result: jsonb("result").$type<Record<string, any>>(),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Exchange rates: 1 base_currency = rate quote_currency on rate_date
+export const exchangeRates = pgTable("exchange_rates", {
+  id: serial("id").primaryKey(),
+  base_currency: text("base_currency").notNull(),
+  quote_currency: text("quote_currency").notNull(),
+  rate: decimal("rate", { precision: 18, scale: 8 }).notNull(),
+  rate_date: date("rate_date").notNull(),
+  source: text("source").notNull().default("manual"), // manual, seed, import
+  created_at: timestamp("created_at").defaultNow(),
+});
+
 // User invitations
 export const invitations = pgTable("invitations", {
   id: serial("id").primaryKey(),
@@ -280,10 +426,27 @@ export const templates = pgTable("templates", {
   auto_checks_passed: boolean("auto_checks_passed").default(false),
   rejection_reason: text("rejection_reason"),
   moderation_notes: text("moderation_notes"),
+  current_version: integer("current_version").notNull().default(0), // Latest published version; 0 before the first
+  preview_level: text("preview_level").notNull().default("standard"), // minimal, standard, extended: how much non-buyers see
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
 
+// Published template snapshots. trip_data on templates is the creator's
+// draft; buyers get a version, which never changes once published.
+export const templateVersions = pgTable("template_versions", {
+  id: serial("id").primaryKey(),
+  template_id: integer("template_id").notNull().references(() => templates.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(), // 1, 2, ... per template
+  title: text("title").notNull(),
+  description: text("description"),
+  duration: integer("duration"),
+  trip_data: jsonb("trip_data").notNull(), // Activities carry a stable `key` across versions
+  changelog: text("changelog").notNull(),
+  published_by: integer("published_by"),
+  published_at: timestamp("published_at").defaultNow(),
+});
+
 // Template Bundles
 export const templateBundles = pgTable("template_bundles", {
   id: serial("id").primaryKey(),
@@ -334,13 +497,15 @@ export const bundlePurchases = pgTable("bundle_purchases", {
   
   // Purchase details
   payment_intent_id: text("payment_intent_id"),
-  status: text("status").default("pending"), // pending, completed, refunded
+  status: text("status").default("pending"), // pending, completed, refunded, disputed
   
   // Track which templates were included (in case bundle changes later)
   purchased_template_ids: jsonb("purchased_template_ids").$type<number[]>().notNull(),
   
   purchased_at: timestamp("purchased_at").defaultNow(),
   refunded_at: timestamp("refunded_at"),
+  refund_amount: decimal("refund_amount", { precision: 10, scale: 2 }),
+  disputed_at: timestamp("disputed_at"),
 });
 
 // Template purchases
@@ -366,9 +531,13 @@ export const templatePurchases = pgTable("template_purchases", {
   payout_method: text("payout_method"),
   payout_transaction_id: text("payout_transaction_id"),
   payout_notes: text("payout_notes"),
+  payout_id: integer("payout_id"), // creator_payouts row that paid these earnings out
+  earnings_released_at: timestamp("earnings_released_at"), // When seller_earnings moved from pending to available
   refunded_at: timestamp("refunded_at"),
   refund_amount: decimal("refund_amount", { precision: 10, scale: 2 }),
   disputed_at: timestamp("disputed_at"),
+  dispute_status: text("dispute_status"), // open, won, lost
+  template_version: integer("template_version"), // Version the buyer's trip is on; updated when they pull an update
   purchased_at: timestamp("purchased_at").defaultNow(),
 });
 
@@ -391,13 +560,30 @@ export const templateShares = pgTable("template_shares", {
   template_id: integer("template_id").notNull(),
   shared_by: integer("shared_by").notNull(),
   share_code: text("share_code").notNull().unique(),
-  share_channel: text("share_channel"), // email, social, link
+  share_channel: text("share_channel"), // link, email, twitter, facebook, whatsapp, ...
   clicks: integer("clicks").default(0),
   conversions: integer("conversions").default(0),
   revenue_generated: decimal("revenue_generated", { precision: 10, scale: 2 }).default("0"),
   created_at: timestamp("created_at").defaultNow(),
 });
 
+// Purchases attributed to a share link (last click inside the referral window)
+export const referralConversions = pgTable("referral_conversions", {
+  id: serial("id").primaryKey(),
+  share_id: integer("share_id").notNull(),
+  template_id: integer("template_id").notNull(),
+  template_purchase_id: integer("template_purchase_id").notNull().unique(),
+  referrer_id: integer("referrer_id").notNull(), // The share's shared_by
+  buyer_id: integer("buyer_id").notNull(),
+  sale_amount: decimal("sale_amount", { precision: 10, scale: 2 }).notNull(),
+  commission: decimal("commission", { precision: 10, scale: 2 }).default("0"),
+  commission_status: text("commission_status").default("none"), // none, pending, released, reversed
+  clicked_at: timestamp("clicked_at"),
+  released_at: timestamp("released_at"),
+  reversed_at: timestamp("reversed_at"),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
 // Creator profiles
 export const creatorProfiles = pgTable("creator_profiles", {
   id: serial("id").primaryKey(),
@@ -430,11 +616,121 @@ export const creatorBalances = pgTable("creator_balances", {
   bank_account_last4: text("bank_account_last4"),
   bank_account_status: text("bank_account_status"),
   payout_method: text("payout_method").default("paypal"),
+  payout_email: text("payout_email"), // PayPal and Amazon payouts
+  bank_account_holder: text("bank_account_holder"),
+  bank_routing_number_encrypted: text("bank_routing_number_encrypted"), // AES-256-GCM, only decrypted for bank payout files
+  bank_account_number_encrypted: text("bank_account_number_encrypted"),
+  bank_account_type: text("bank_account_type").default("checking"), // checking, savings
   w9_on_file: boolean("w9_on_file").default(false),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
 
+// Creator payouts: one per payout request, moving requested -> approved -> processing -> paid/failed
+export const creatorPayouts = pgTable("creator_payouts", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").default("USD"),
+  method: text("method").notNull(), // paypal, amazon, bank, credits
+  destination: text("destination"), // PayPal email, or masked bank account
+  status: text("status").notNull().default("requested"), // requested, approved, processing, paid, failed
+  batch_id: integer("batch_id"),
+  transaction_id: text("transaction_id"),
+  failure_reason: text("failure_reason"),
+  notes: text("notes"),
+  approved_by: integer("approved_by"),
+  requested_at: timestamp("requested_at").defaultNow(),
+  approved_at: timestamp("approved_at"),
+  processing_at: timestamp("processing_at"),
+  paid_at: timestamp("paid_at"),
+  failed_at: timestamp("failed_at"),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Payout batches: the export files sent to PayPal or the bank
+export const payoutBatches = pgTable("payout_batches", {
+  id: serial("id").primaryKey(),
+  method: text("method").notNull(), // paypal, bank
+  format: text("format").notNull(), // paypal_mass_pay, nacha
+  file_name: text("file_name").notNull(),
+  file_contents_encrypted: text("file_contents_encrypted"), // AES-256-GCM; bank files carry full account numbers
+  payout_count: integer("payout_count").notNull(),
+  total_amount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  created_by: integer("created_by"),
+  created_at: timestamp("created_at").defaultNow(),
+  reconciled_at: timestamp("reconciled_at"),
+});
+
+// Creator tax profiles: W-9 (US persons) or W-8BEN (foreign individuals) form data.
+// The TIN is stored encrypted (see taxService); only its last four digits are kept in clear.
+export const creatorTaxProfiles = pgTable("creator_tax_profiles", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().unique(),
+  form_type: text("form_type").notNull(), // w9, w8ben
+  legal_name: text("legal_name").notNull(),
+  business_name: text("business_name"), // W-9 line 2
+  tax_classification: text("tax_classification"), // W-9: individual, c_corporation, s_corporation, partnership, trust_estate, llc, other
+  citizenship_country: text("citizenship_country"), // W-8BEN
+  date_of_birth: date("date_of_birth"), // W-8BEN
+  address_line1: text("address_line1").notNull(),
+  address_line2: text("address_line2"),
+  city: text("city").notNull(),
+  state: text("state"),
+  postal_code: text("postal_code"),
+  country: text("country").notNull().default("US"),
+  tin_type: text("tin_type").notNull(), // ssn, ein, foreign
+  tin_encrypted: text("tin_encrypted").notNull(),
+  tin_last4: text("tin_last4").notNull(),
+  treaty_country: text("treaty_country"), // W-8BEN part II
+  treaty_article: text("treaty_article"),
+  treaty_rate: decimal("treaty_rate", { precision: 5, scale: 2 }),
+  signature_name: text("signature_name").notNull(),
+  signed_at: timestamp("signed_at").notNull(),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Buyer refund requests for a template or bundle purchase
+export const refundRequests = pgTable("refund_requests", {
+  id: serial("id").primaryKey(),
+  buyer_id: integer("buyer_id").notNull(),
+  template_purchase_id: integer("template_purchase_id"),
+  bundle_purchase_id: integer("bundle_purchase_id"),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason").notNull(), // Buyer's explanation
+  status: text("status").notNull().default("pending"), // pending, approved, rejected, refunded, failed
+  decision: text("decision"), // Why the policy approved it or sent it for review, or the admin's note
+  stripe_refund_id: text("stripe_refund_id"),
+  failure_reason: text("failure_reason"),
+  reviewed_by: integer("reviewed_by"),
+  reviewed_at: timestamp("reviewed_at"),
+  refunded_at: timestamp("refunded_at"),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Marketplace ledger: append-only double-entry record of money movement.
+// Each transaction's entries sum to zero (debits positive, credits negative).
+export const ledgerTransactions = pgTable("ledger_transactions", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // sale, release, refund, dispute, referral, payout_requested, payout_paid, payout_failed, opening_balance
+  reference_type: text("reference_type"), // template_purchase, creator_payout, creator
+  reference_id: integer("reference_id"),
+  description: text("description"),
+  idempotency_key: text("idempotency_key").notNull().unique(),
+  metadata: jsonb("metadata").$type<Record<string, any>>(),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  transaction_id: integer("transaction_id").notNull(),
+  account: text("account").notNull(), // See LEDGER_ACCOUNTS in ledgerService
+  user_id: integer("user_id"), // Creator the entry belongs to, for per-creator accounts
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
 // Viator commissions
 export const viatorCommissions = pgTable("viator_commissions", {
   id: serial("id").primaryKey(),
@@ -606,6 +902,22 @@ export const travelAnalytics = pgTable("travel_analytics", {
   updated_at: timestamp("updated_at").defaultNow(),
 });
 
+// One row per model call (or AI cache hit), for quotas and cost reporting
+export const aiUsageEvents = pgTable("ai_usage_events", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id"), // Null for calls outside a user's request (scripts, background jobs)
+  feature: text("feature").notNull(), // LLM feature: assistant, itinerary, suggestions, ...
+  provider: text("provider").notNull(), // openai, anthropic, local, stub, or cache
+  model: text("model").notNull(),
+  prompt_tokens: integer("prompt_tokens").notNull().default(0),
+  completion_tokens: integer("completion_tokens").notNull().default(0),
+  cost_usd: decimal("cost_usd", { precision: 12, scale: 6 }).notNull().default("0"), // Estimated from list prices
+  latency_ms: integer("latency_ms").notNull().default(0),
+  cache_hit: boolean("cache_hit").notNull().default(false),
+  success: boolean("success").notNull().default(true),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
 // Zod schemas for validation
 export const insertUserSchema = createInsertSchema(users);
 export const insertTripSchema = createInsertSchema(trips);
@@ -642,12 +954,29 @@ export type Activity = typeof activities.$inferSelect;
 export type Note = typeof notes.$inferSelect;
 export type Todo = typeof todos.$inferSelect;
 export type Booking = typeof bookings.$inferSelect;
+export type TripOperation = typeof tripOperations.$inferSelect;
+export type TripChangeset = typeof tripChangesets.$inferSelect;
+export type TripChange = typeof tripChanges.$inferSelect;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type GroupExpense = typeof groupExpenses.$inferSelect;
+export type ExpenseSettlement = typeof expenseSettlements.$inferSelect;
+export type ExpenseReceipt = typeof expenseReceipts.$inferSelect;
+export type ActivityCheckin = typeof activityCheckins.$inferSelect;
+export type TripPhoto = typeof tripPhotos.$inferSelect;
 export type Template = typeof templates.$inferSelect;
+export type TemplateVersion = typeof templateVersions.$inferSelect;
 export type TemplatePurchase = typeof templatePurchases.$inferSelect;
 export type TemplateReview = typeof templateReviews.$inferSelect;
 export type TemplateShare = typeof templateShares.$inferSelect;
+export type ReferralConversion = typeof referralConversions.$inferSelect;
 export type CreatorProfile = typeof creatorProfiles.$inferSelect;
 export type CreatorBalance = typeof creatorBalances.$inferSelect;
+export type CreatorPayout = typeof creatorPayouts.$inferSelect;
+export type PayoutBatch = typeof payoutBatches.$inferSelect;
+export type CreatorTaxProfile = typeof creatorTaxProfiles.$inferSelect;
+export type RefundRequest = typeof refundRequests.$inferSelect;
+export type LedgerTransaction = typeof ledgerTransactions.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
 export type ViatorCommission = typeof viatorCommissions.$inferSelect;
 export type TemplateCollection = typeof templateCollections.$inferSelect;
 export type Destination = typeof destinations.$inferSelect;
@@ -660,3 +989,4 @@ export type TemplateBundle = typeof templateBundles.$inferSelect;
 export type BundlePurchase = typeof bundlePurchases.$inferSelect;
 export type PromoCode = typeof promoCodes.$inferSelect;
 export type PromoCodeUse = typeof promoCodeUses.$inferSelect;
+export type AIUsageEvent = typeof aiUsageEvents.$inferSelect;
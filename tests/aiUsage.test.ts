@@ -0,0 +1,79 @@
+/**
+ * AI Usage Metering Tests
+ */
+
+import { AIQuotaExceededError, AIUsageRecord, aiUsage, estimateCost, exceededQuota } from '../server/services/aiUsageService';
+import { DEFAULT_FIXTURES_DIR, StubProvider } from '../server/services/llmStub';
+import { LLMFeature, LLMService } from '../server/services/llmService';
+
+class FakeMeter {
+  records: AIUsageRecord[] = [];
+  blocked = new Set<LLMFeature>();
+
+  async check(feature: LLMFeature) {
+    if (this.blocked.has(feature)) {
+      throw new AIQuotaExceededError(feature, 'feature_daily_requests', new Date(), `Out of ${feature} requests`);
+    }
+  }
+
+  async record(entry: AIUsageRecord) {
+    this.records.push(entry);
+  }
+}
+
+function service(meter: FakeMeter) {
+  const stub = new StubProvider(DEFAULT_FIXTURES_DIR);
+  return new LLMService({ openai: stub, anthropic: stub, local: stub, stub }, async () => null, meter);
+}
+
+describe('AI Usage', () => {
+  it('should estimate cost from list prices by model prefix', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 100_000 };
+
+    expect(estimateCost('openai', 'gpt-4o-mini-2024-07-18', usage)).toBeCloseTo(0.21);
+    expect(estimateCost('openai', 'gpt-4o', usage)).toBeCloseTo(3.5);
+    expect(estimateCost('anthropic', 'claude-3-5-haiku-latest', usage)).toBeCloseTo(1.2);
+    expect(estimateCost('local', 'gpt-4o', usage)).toBe(0);
+    expect(estimateCost('openai', 'some-new-model', usage)).toBe(0);
+  });
+
+  it('should report the first quota a user has run out of', () => {
+    const quotas = { dailyRequests: 100, dailyCostUsd: 1, featureDailyRequests: 10 };
+
+    expect(exceededQuota({ requests: 50, costUsd: 0.5, featureRequests: 9 }, quotas)).toBeNull();
+    expect(exceededQuota({ requests: 50, costUsd: 0.5, featureRequests: 10 }, quotas)).toBe('feature_daily_requests');
+    expect(exceededQuota({ requests: 100, costUsd: 0.5, featureRequests: 0 }, quotas)).toBe('daily_requests');
+    expect(exceededQuota({ requests: 5, costUsd: 1.2, featureRequests: 0 }, quotas)).toBe('daily_cost');
+    expect(exceededQuota({ requests: 1000, costUsd: 100, featureRequests: 1000 }, { dailyRequests: 0, dailyCostUsd: 0, featureDailyRequests: 0 })).toBeNull();
+  });
+
+  it('should attach the current user to calls made inside a request', async () => {
+    expect(aiUsage.currentUserId()).toBeNull();
+    const seen = await aiUsage.run(42, async () => {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      return aiUsage.currentUserId();
+    });
+    expect(seen).toBe(42);
+  });
+
+  describe('LLMService metering', () => {
+    it('should record each call with its tokens and latency', async () => {
+      const meter = new FakeMeter();
+      await service(meter).complete('summaries', 'Summarize my day in Paris');
+
+      expect(meter.records).toHaveLength(1);
+      expect(meter.records[0].feature).toBe('summaries');
+      expect(meter.records[0].provider).toBe('stub');
+      expect(meter.records[0].success).toBe(true);
+      expect(typeof meter.records[0].latencyMs).toBe('number');
+    });
+
+    it('should not call the model when the user is out of quota', async () => {
+      const meter = new FakeMeter();
+      meter.blocked.add('summaries');
+
+      await expect(service(meter).complete('summaries', 'Summarize my day in Paris')).rejects.toThrow('Out of summaries requests');
+      expect(meter.records).toHaveLength(0);
+    });
+  });
+});
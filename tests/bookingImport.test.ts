@@ -0,0 +1,100 @@
+/**
+ * Booking Import Parser Tests
+ */
+
+import { parseEml } from '../server/utils/emailParser';
+import { parseIcsEvents } from '../server/utils/icsParser';
+import { parseLooseDate, extractTime, extractAmount } from '../server/utils/textExtraction';
+
+describe('Booking Import Parsers', () => {
+  describe('parseLooseDate', () => {
+    const reference = new Date('2025-03-01T00:00:00Z');
+
+    it('should parse common confirmation email date formats', () => {
+      expect(parseLooseDate('2025-03-30', reference)).toBe('2025-03-30');
+      expect(parseLooseDate('Sun, Mar 30, 2025 3:40 PM', reference)).toBe('2025-03-30');
+      expect(parseLooseDate('Sun 30 March 2025 (from 15:00)', reference)).toBe('2025-03-30');
+      expect(parseLooseDate('March 2025', reference)).toBeNull();
+      expect(parseLooseDate('31/03/2025', reference)).toBe('2025-03-31');
+    });
+
+    it('should take the year from the reference date when missing', () => {
+      expect(parseLooseDate('Check-in: Apr 2', reference)).toBe('2025-04-02');
+    });
+  });
+
+  describe('extractTime and extractAmount', () => {
+    it('should normalize times to HH:MM', () => {
+      expect(extractTime('Departs 3:40 PM')).toBe('15:40');
+      expect(extractTime('Pick-up at 9am')).toBe('09:00');
+      expect(extractTime('no time here')).toBeNull();
+    });
+
+    it('should read amounts and currencies after a label', () => {
+      expect(extractAmount('Total fare: $1,234.56')).toEqual({ amount: 1234.56, currency: 'USD' });
+      expect(extractAmount('Total price: € 840,00')).toEqual({ amount: 840, currency: 'EUR' });
+      expect(extractAmount('Total: 210.50 EUR')).toEqual({ amount: 210.5, currency: 'EUR' });
+    });
+  });
+
+  describe('parseIcsEvents', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:abc@airline.example',
+      'SUMMARY:Flight AF 1234 CDG to NCE\\, Terminal 2',
+      'DTSTART:20250401T080000Z',
+      'DTEND:20250401T093000Z',
+      'LOCATION:Paris Charles de Gaulle',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT1H',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    it('should read events and skip nested alarms', () => {
+      const [event] = parseIcsEvents(ics);
+
+      expect(event.summary).toBe('Flight AF 1234 CDG to NCE, Terminal 2');
+      expect(event.description).toBeNull();
+      expect(event.start).toEqual({ date: '2025-04-01', time: '08:00', timeZone: 'UTC' });
+    });
+
+    it('should convert UTC times into the trip time zone', () => {
+      const [event] = parseIcsEvents(ics, 'Europe/Paris');
+
+      expect(event.start).toEqual({ date: '2025-04-01', time: '10:00', timeZone: 'Europe/Paris' });
+    });
+  });
+
+  describe('parseEml', () => {
+    it('should decode multipart bodies and collect calendar attachments', () => {
+      const raw = [
+        'From: Booking.com <noreply@booking.com>',
+        'Subject: =?UTF-8?B?WW91ciBzdGF5IGlzIGNvbmZpcm1lZA==?=',
+        'Date: Mon, 3 Mar 2025 10:00:00 +0000',
+        'Content-Type: multipart/mixed; boundary="outer"',
+        '',
+        '--outer',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Check-in: 30 March 2025 =E2=80=93 from 15:00',
+        '--outer',
+        'Content-Type: text/calendar; name="stay.ics"',
+        '',
+        'BEGIN:VCALENDAR',
+        '--outer--',
+      ].join('\r\n');
+
+      const email = parseEml(Buffer.from(raw));
+
+      expect(email.subject).toBe('Your stay is confirmed');
+      expect(email.text).toBe('Check-in: 30 March 2025 – from 15:00');
+      expect(email.attachments).toHaveLength(1);
+      expect(email.attachments[0].contentType).toBe('text/calendar');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Calendar Export Tests
+ */
+
+import { buildTripCalendar, foldLine, escapeText } from '../server/services/calendarExportService';
+import { parseTimeOfDay } from '../server/utils/timeOfDay';
+import type { Activity, Trip } from '@shared/schema';
+
+const baseTrip = {
+  id: 7,
+  title: 'Paris, Spring',
+  start_date: '2025-03-29',
+  end_date: '2025-03-31',
+  hotel: 'Hotel Lutetia',
+  hotel_latitude: '48.85100000',
+  hotel_longitude: '2.32700000',
+  timezone: 'Europe/Paris',
+  share_permission: 'read-only',
+  updated_at: new Date('2025-03-01T10:00:00Z'),
+} as unknown as Trip;
+
+function activity(overrides: Partial<Activity>): Activity {
+  return {
+    id: 1,
+    trip_id: 7,
+    title: 'Louvre',
+    date: '2025-03-30',
+    time: '09:00',
+    location_name: 'Musée du Louvre',
+    latitude: '48.86060000',
+    longitude: '2.33760000',
+    notes: 'Enter via Carrousel',
+    booking_reference: 'ABC123',
+    order: 0,
+    updated_at: new Date('2025-03-02T10:00:00Z'),
+    ...overrides,
+  } as Activity;
+}
+
+describe('Calendar Export', () => {
+  describe('buildTripCalendar', () => {
+    it('should emit a VEVENT per activity plus the hotel stay', () => {
+      const ics = buildTripCalendar(baseTrip, [activity({}), activity({ id: 2, title: 'Seine cruise', time: '14:30' })], {
+        includePrivateDetails: true,
+      });
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(3);
+      expect(ics).toContain('UID:activity-1@remvana.app');
+      expect(ics).toContain('UID:trip-7-hotel@remvana.app');
+      expect(ics).toContain('DTSTART;VALUE=DATE:20250329');
+      expect(ics).toContain('DTEND;VALUE=DATE:20250401');
+    });
+
+    it('should use the trip time zone with a DST transition inside the trip', () => {
+      const ics = buildTripCalendar(baseTrip, [activity({})], { includePrivateDetails: true });
+
+      expect(ics).toContain('DTSTART;TZID=Europe/Paris:20250330T090000');
+      expect(ics).toContain('DTEND;TZID=Europe/Paris:20250330T100000');
+      expect(ics).toContain('BEGIN:VTIMEZONE');
+      expect(ics).toContain('DTSTART:20250330T020000');
+      expect(ics).toContain('TZOFFSETTO:+0200');
+    });
+
+    it('should emit floating times when the trip has no time zone', () => {
+      const ics = buildTripCalendar({ ...baseTrip, timezone: null }, [activity({})], { includePrivateDetails: true });
+
+      expect(ics).not.toContain('VTIMEZONE');
+      expect(ics).toContain('DTSTART:20250330T090000');
+    });
+
+    it('should hide notes and booking references unless private details are allowed', () => {
+      const privateIcs = buildTripCalendar(baseTrip, [activity({})], { includePrivateDetails: true });
+      const publicIcs = buildTripCalendar(baseTrip, [activity({})], { includePrivateDetails: false });
+
+      expect(privateIcs).toContain('ABC123');
+      expect(publicIcs).not.toContain('ABC123');
+      expect(publicIcs).not.toContain('Carrousel');
+    });
+
+    it('should make untimed activities all-day events and skip undated ones', () => {
+      const ics = buildTripCalendar(baseTrip, [
+        activity({ id: 3, time: null }),
+        activity({ id: 4, date: null }),
+      ], { includePrivateDetails: false });
+
+      expect(ics).toContain('UID:activity-3@remvana.app');
+      expect(ics).not.toContain('UID:activity-4@remvana.app');
+    });
+
+    it('should stamp every event of a purchased template with the buyer license', () => {
+      const license = 'Template "Paris" licensed to buyer #34 (RMV-12-34-0123456789ab)';
+      const ics = buildTripCalendar(baseTrip, [activity({})], { includePrivateDetails: false, license });
+      const unfolded = ics.replace(/\r\n /g, '');
+
+      expect(unfolded).toContain('X-REMVANA-LICENSE:Template "Paris" licensed to buyer #34 (RMV-12-34-0123456789ab)');
+      expect(unfolded.match(/RMV-12-34-0123456789ab/g)).toHaveLength(3);
+    });
+  });
+
+  describe('text encoding', () => {
+    it('should escape special characters', () => {
+      expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+    });
+
+    it('should fold long lines at 75 octets', () => {
+      const folded = foldLine(`SUMMARY:${'x'.repeat(200)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+    });
+  });
+
+  describe('parseTimeOfDay', () => {
+    it('should parse 24-hour and 12-hour times', () => {
+      expect(parseTimeOfDay('09:15')).toEqual({ hours: 9, minutes: 15 });
+      expect(parseTimeOfDay('2:30 PM')).toEqual({ hours: 14, minutes: 30 });
+      expect(parseTimeOfDay('12 am')).toEqual({ hours: 0, minutes: 0 });
+      expect(parseTimeOfDay('25:00')).toBeNull();
+    });
+  });
+});
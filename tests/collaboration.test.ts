@@ -0,0 +1,72 @@
+/**
+ * Collaborative Editing Tests
+ */
+
+import { planMove } from '../server/services/collaborationService';
+
+type Row = { id: number; date: string | null; order: number | null };
+
+const day = (): Row[] => [
+  { id: 1, date: '2025-03-30', order: 0 },
+  { id: 2, date: '2025-03-30', order: 1 },
+  { id: 3, date: '2025-03-30', order: 2 },
+];
+
+function apply(rows: Row[], plan: ReturnType<typeof planMove<Row>>): number[] {
+  const updated = rows.map(row => {
+    const change = plan.find(p => p.activity.id === row.id);
+    return change ? { ...row, ...change.fields } : row;
+  });
+  return updated
+    .filter(row => row.date === '2025-03-30')
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    .map(row => row.id);
+}
+
+describe('Collaborative Editing', () => {
+  describe('planMove', () => {
+    it('should place the activity after its anchor and renumber the day', () => {
+      const rows = day();
+      const plan = planMove(rows, rows[2], '2025-03-30', 1);
+
+      expect(apply(rows, plan)).toEqual([1, 3, 2]);
+    });
+
+    it('should move to the start of the day when there is no anchor', () => {
+      const rows = day();
+      const plan = planMove(rows, rows[2], '2025-03-30', null);
+
+      expect(apply(rows, plan)).toEqual([3, 1, 2]);
+    });
+
+    it('should use the fallback index when the anchor was moved away concurrently', () => {
+      const rows = day();
+      const plan = planMove(rows, rows[0], '2025-03-30', 99, 1);
+
+      expect(apply(rows, plan)).toEqual([2, 1, 3]);
+    });
+
+    it('should change the date when moving to another day', () => {
+      const rows = day();
+      const plan = planMove([], rows[0], '2025-03-31', null);
+
+      expect(plan).toEqual([{ activity: rows[0], fields: { date: '2025-03-31' } }]);
+    });
+
+    it('should return no changes for a no-op move', () => {
+      const rows = day();
+
+      expect(planMove(rows, rows[1], '2025-03-30', 1)).toEqual([]);
+    });
+
+    it('should keep both of two concurrent moves of different activities', () => {
+      const rows = day();
+      // User A moves 3 to the top while user B moves 1 after 2
+      const first = apply(rows, planMove(rows, rows[2], '2025-03-30', null));
+      const afterFirst = first.map((id, order) => ({ id, date: '2025-03-30', order }));
+      const second = planMove(afterFirst, afterFirst.find(r => r.id === 1)!, '2025-03-30', 2);
+
+      expect(apply(afterFirst, second)).toEqual([3, 2, 1]);
+    });
+  });
+});
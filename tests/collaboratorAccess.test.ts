@@ -0,0 +1,102 @@
+/**
+ * Collaborator Access Tests
+ */
+
+import express from 'express';
+import request from 'supertest';
+import tripRoutes from '../server/routes/trips';
+import activityRoutes from '../server/routes/activities';
+import { db } from '../server/db';
+import { users, trips, activities, tripCollaborators, tripOperations, tripChanges, tripChangesets } from '@shared/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { createTestJWT } from './setup';
+
+const app = express();
+app.use(express.json());
+app.use('/api/trips', tripRoutes);
+app.use('/api/activities', activityRoutes);
+
+describe('Collaborator access', () => {
+  let ownerId: number;
+  let editorId: number;
+  let viewerId: number;
+  let editorToken: string;
+  let viewerToken: string;
+  let tripId: number;
+  let activityId: number;
+
+  beforeAll(async () => {
+    const [owner, editor, viewer] = await db.insert(users).values(
+      ['owner', 'editor', 'viewer'].map(name => ({
+        email: `collab${name}@example.com`,
+        username: `collab${name}`,
+        auth_id: `test_${name}_${Date.now()}`,
+        password_hash: 'test_hash',
+        role: 'user',
+      }))
+    ).returning();
+    ownerId = owner.id;
+    editorId = editor.id;
+    viewerId = viewer.id;
+
+    editorToken = createTestJWT({ id: editor.id, email: editor.email, username: editor.username, role: editor.role });
+    viewerToken = createTestJWT({ id: viewer.id, email: viewer.email, username: viewer.username, role: viewer.role });
+
+    const [trip] = await db.insert(trips).values({
+      title: 'Shared Porto Weekend',
+      start_date: '2026-07-03',
+      end_date: '2026-07-05',
+      user_id: ownerId,
+    }).returning();
+    tripId = trip.id;
+
+    await db.insert(tripCollaborators).values([
+      { trip_id: tripId, user_id: editorId, role: 'editor', status: 'accepted' },
+      { trip_id: tripId, user_id: viewerId, role: 'viewer', status: 'accepted' },
+    ]);
+
+    const [activity] = await db.insert(activities).values({
+      trip_id: tripId,
+      title: 'Livraria Lello',
+      date: '2026-07-03',
+      order: 0,
+    }).returning();
+    activityId = activity.id;
+  });
+
+  afterAll(async () => {
+    await db.delete(tripOperations).where(eq(tripOperations.trip_id, tripId));
+    await db.delete(tripChanges).where(eq(tripChanges.trip_id, tripId));
+    await db.delete(tripChangesets).where(eq(tripChangesets.trip_id, tripId));
+    await db.delete(activities).where(eq(activities.trip_id, tripId));
+    await db.delete(tripCollaborators).where(eq(tripCollaborators.trip_id, tripId));
+    await db.delete(trips).where(eq(trips.id, tripId));
+    await db.delete(users).where(inArray(users.id, [ownerId, editorId, viewerId]));
+  });
+
+  it('should let collaborators read the activities', async () => {
+    for (const token of [editorToken, viewerToken]) {
+      const response = await request(app)
+        .get(`/api/trips/${tripId}/activities`)
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.map((activity: any) => activity.id)).toContain(activityId);
+    }
+  });
+
+  it('should let editors but not viewers reorder activities', async () => {
+    const viewer = await request(app)
+      .put(`/api/activities/${activityId}/order`)
+      .set('Authorization', `Bearer ${viewerToken}`)
+      .send({ order: 2 });
+    expect(viewer.status).toBe(403);
+
+    const editor = await request(app)
+      .put(`/api/activities/${activityId}/order`)
+      .set('Authorization', `Bearer ${editorToken}`)
+      .send({ order: 2 });
+    expect(editor.status).toBe(200);
+    expect(editor.body.order).toBe(2);
+  });
+});
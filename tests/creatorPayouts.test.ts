@@ -0,0 +1,176 @@
+/**
+ * Creator Payout Tests
+ */
+
+import { getTableName } from 'drizzle-orm';
+import { canTransition, coveredPurchases, creatorPayoutService, payoutRequestProblem } from '../server/services/creatorPayoutService';
+import {
+  isValidRoutingNumber,
+  nachaFile,
+  parseReconciliationFile,
+  paypalMassPayCsv,
+} from '../server/services/payoutFiles';
+
+const balance = {
+  available_balance: '750.00',
+  w9_on_file: false,
+  payout_email: 'creator@example.com',
+  bank_account_holder: null,
+  bank_routing_number_encrypted: null,
+  bank_account_number_encrypted: null,
+} as any;
+
+const nachaConfig = {
+  immediateDestination: '021000021',
+  immediateDestinationName: 'JPMORGAN CHASE',
+  immediateOrigin: '1234567890',
+  companyName: 'Remvana',
+  companyId: '1234567890',
+  originatingDfi: '02100002',
+};
+
+// Stands in for a database transaction: records each write by table, and
+// like the real ledger skips a ledger transaction whose idempotency key exists
+function recordingTransaction() {
+  const postedKeys = new Set<string>();
+  const writes: string[] = [];
+  const builder = (table: any, write: string) => {
+    let values: any;
+    const query: any = {
+      values: (v: any) => { values = v; return query; },
+      set: () => query,
+      where: () => query,
+      onConflictDoNothing: () => query,
+      onConflictDoUpdate: () => query,
+      returning: async () => {
+        if (getTableName(table) !== 'ledger_transactions') return [values];
+        if (postedKeys.has(values.idempotency_key)) return [];
+        postedKeys.add(values.idempotency_key);
+        writes.push(`${write} ledger_transactions`);
+        return [{ id: postedKeys.size, ...values }];
+      },
+      then: (resolve: (value: unknown) => void) => {
+        writes.push(`${write} ${getTableName(table)}`);
+        resolve(undefined);
+      },
+    };
+    return query;
+  };
+  return {
+    writes,
+    tx: { insert: (table: any) => builder(table, 'insert'), update: (table: any) => builder(table, 'update') } as any,
+  };
+}
+
+describe('Creator Payouts', () => {
+  it('should only allow payouts to move forward through the state machine', () => {
+    expect(canTransition('requested', 'approved')).toBe(true);
+    expect(canTransition('processing', 'paid')).toBe(true);
+    expect(canTransition('approved', 'failed')).toBe(true);
+    expect(canTransition('requested', 'paid')).toBe(false);
+    expect(canTransition('paid', 'failed')).toBe(false);
+    expect(canTransition('failed', 'approved')).toBe(false);
+  });
+
+  it('should validate thresholds, tax information and payout destination', () => {
+    expect(payoutRequestProblem(balance, 'paypal', 50)).toBeNull();
+    expect(payoutRequestProblem(balance, 'paypal', 800)).toBe('Invalid payout amount: $750.00 is available');
+    expect(payoutRequestProblem(balance, 'amazon', 20)).toBe('Minimum payout for amazon is $25');
+    expect(payoutRequestProblem(balance, 'paypal', 600)).toBe('Tax information required for payouts over $600');
+    expect(payoutRequestProblem(balance, 'bank', 200)).toBe('Add your bank account details before requesting a bank payout');
+
+    const withBank = {
+      ...balance,
+      bank_account_holder: 'Ada Lovelace',
+      bank_routing_number_encrypted: 'v1:iv:tag:routing',
+      bank_account_number_encrypted: 'v1:iv:tag:account',
+    };
+    expect(payoutRequestProblem(withBank, 'bank', 200)).toBeNull();
+  });
+
+  it('should credit a sale to the balance columns only once', async () => {
+    const purchase = {
+      id: 41,
+      template_id: 3,
+      seller_id: 7,
+      price: '20.00',
+      stripe_fee: '0.88',
+      seller_earnings: '13.38',
+    } as any;
+    const { tx, writes } = recordingTransaction();
+
+    await creatorPayoutService.creditSale(purchase, {}, tx);
+    await creatorPayoutService.creditSale(purchase, {}, tx);
+
+    expect(writes).toEqual([
+      'insert ledger_transactions',
+      'insert ledger_entries',
+      'insert creator_balances',
+      'update users',
+    ]);
+  });
+
+  it('should cover whole purchases oldest first', () => {
+    const purchases = [{ id: 1, seller_earnings: '6.79' }, { id: 2, seller_earnings: '6.79' }, { id: 3, seller_earnings: '13.58' }];
+
+    expect(coveredPurchases(purchases, 13.58).map(p => p.id)).toEqual([1, 2]);
+    expect(coveredPurchases(purchases, 20).map(p => p.id)).toEqual([1, 2]);
+    expect(coveredPurchases(purchases, 27.16).map(p => p.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should build a PayPal mass payment file', () => {
+    const csv = paypalMassPayCsv([
+      { payoutId: 7, email: 'a@example.com', amount: 12.5, currency: 'usd' },
+      { payoutId: 8, email: 'b,c@example.com', amount: 100, currency: 'USD' },
+    ]);
+
+    expect(csv).toBe(
+      'a@example.com,12.50,USD,payout-7,Remvana creator payout\n' +
+      '"b,c@example.com",100.00,USD,payout-8,Remvana creator payout\n'
+    );
+  });
+
+  it('should build a balanced NACHA file in blocks of ten records', () => {
+    const file = nachaFile([
+      { payoutId: 7, accountHolder: 'Ada Lovelace', routingNumber: '011000015', accountNumber: '12345678', accountType: 'checking', amount: 150.25 },
+      { payoutId: 8, accountHolder: 'Grace Hopper', routingNumber: '021000021', accountNumber: '987654321', accountType: 'savings', amount: 200 },
+    ], nachaConfig, new Date('2026-03-02T15:04:00Z'));
+    const records = file.trimEnd().split('\n');
+
+    expect(records).toHaveLength(10);
+    expect(records.every(line => line.length === 94)).toBe(true);
+    expect(records[0].substring(23, 33)).toBe('2603021504');
+    expect(records[1].substring(69, 75)).toBe('260303'); // Effective the next day
+    expect(records[2]).toMatch(/^62201100001512345678         0000015025PAYOUT7        ADA LOVELACE/);
+    expect(records[3].substring(1, 3)).toBe('32');
+    expect(records[3].substring(79)).toBe('021000020000002');
+    // Entry hash is the sum of the 8-digit routing prefixes
+    expect(records[4].substring(10, 20)).toBe('0003200003');
+    expect(records[4].substring(32, 44)).toBe('000000035025');
+    expect(records[5].substring(0, 31)).toBe('9000001000001000000020003200003');
+    expect(records[9]).toBe('9'.repeat(94));
+  });
+
+  it('should check routing number checksums', () => {
+    expect(isValidRoutingNumber('021000021')).toBe(true);
+    expect(isValidRoutingNumber('021000022')).toBe(false);
+    expect(isValidRoutingNumber('12345')).toBe(false);
+  });
+
+  it('should read paid and failed payouts from a results file', () => {
+    const { results, errors } = parseReconciliationFile([
+      'Reference ID,Transaction ID,Status,Failure Reason',
+      'payout-7,9XK12345,Completed,',
+      'PAYOUT8,,Returned,"R03: No account, unable to locate"',
+      'payout-9,,Unclaimed,',
+      'order-4,,Completed,',
+    ].join('\r\n'));
+
+    expect(results).toEqual([
+      { payoutId: 7, outcome: 'paid', transactionId: '9XK12345', reason: null },
+      { payoutId: 8, outcome: 'failed', transactionId: null, reason: 'R03: No account, unable to locate' },
+    ]);
+    expect(errors).toEqual(['Line 5: unrecognised reference "order-4"']);
+    expect(parseReconciliationFile('email,amount\na@example.com,10').errors).toEqual(['Header row needs a reference column and a status column']);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Currency Conversion Tests
+ */
+
+import { RateTable, totalInCurrency, parseRatesCsv, roundMoney } from '../server/services/currencyService';
+
+describe('Currency Conversion', () => {
+  const table = new RateTable([
+    { base_currency: 'USD', quote_currency: 'EUR', rate: 0.9, rate_date: '2025-03-01' },
+    { base_currency: 'USD', quote_currency: 'EUR', rate: 0.95, rate_date: '2025-03-10' },
+    { base_currency: 'USD', quote_currency: 'JPY', rate: 150, rate_date: '2025-03-01' },
+  ]);
+
+  describe('RateTable', () => {
+    it('should use the latest rate on or before the date', () => {
+      expect(table.getRate('USD', 'EUR', '2025-03-05')).toEqual({ rate: 0.9, rate_date: '2025-03-01' });
+      expect(table.getRate('USD', 'EUR', '2025-03-12')).toEqual({ rate: 0.95, rate_date: '2025-03-10' });
+    });
+
+    it('should fall back to the earliest rate for older dates', () => {
+      expect(table.getRate('USD', 'EUR', '2024-12-31')).toEqual({ rate: 0.9, rate_date: '2025-03-01' });
+    });
+
+    it('should invert and cross rates', () => {
+      expect(table.convert(90, 'EUR', 'USD', '2025-03-05')!.amount).toBeCloseTo(100);
+      expect(table.convert(10, 'EUR', 'JPY', '2025-03-05')!.amount).toBeCloseTo(1666.67, 1);
+    });
+
+    it('should return null when no rate connects the currencies', () => {
+      expect(table.convert(10, 'USD', 'XYZ', '2025-03-05')).toBeNull();
+    });
+  });
+
+  describe('totalInCurrency', () => {
+    it('should total in the home currency with per-currency subtotals', () => {
+      const totals = totalInCurrency([
+        { amount: 50, currency: 'USD', date: '2025-03-02' },
+        { amount: 90, currency: 'EUR', date: '2025-03-02' },
+        { amount: 5, currency: 'XYZ', date: '2025-03-02' },
+      ], 'USD', table);
+
+      expect(totals.total).toBe(150);
+      expect(totals.by_currency).toEqual([
+        { currency: 'EUR', amount: 90, converted_amount: 100 },
+        { currency: 'USD', amount: 50, converted_amount: 50 },
+        { currency: 'XYZ', amount: 5, converted_amount: null },
+      ]);
+      expect(totals.unconverted_currencies).toEqual(['XYZ']);
+    });
+  });
+
+  describe('parseRatesCsv and roundMoney', () => {
+    it('should parse rate lines and report bad ones', () => {
+      const { rates, errors } = parseRatesCsv('date,base,quote,rate\n2025-03-01,usd,gbp,0.79\n# comment\n2025-03-01,USD,GBP,abc');
+
+      expect(rates).toEqual([{ base_currency: 'USD', quote_currency: 'GBP', rate: 0.79, rate_date: '2025-03-01' }]);
+      expect(errors).toHaveLength(1);
+    });
+
+    it('should round to the currency minor unit', () => {
+      expect(roundMoney(1234.567, 'USD')).toBe(1234.57);
+      expect(roundMoney(1234.567, 'JPY')).toBe(1235);
+    });
+  });
+});
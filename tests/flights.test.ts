@@ -0,0 +1,124 @@
+/**
+ * Flight Booking Tests
+ *
+ * Runs the Duffel client against the in-process Duffel mock.
+ */
+
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createDuffelMock, DuffelMock } from '../server/services/duffelMock';
+import { DuffelFlightService, DuffelHTTPClient, FlightOffer } from '../server/services/duffelFlightService';
+import { flightActivities } from '../server/services/flightBookingService';
+
+const passenger = {
+  title: 'ms' as const,
+  given_name: 'Ada',
+  family_name: 'Lovelace',
+  born_on: '1990-12-10',
+  email: 'ada@example.com',
+  phone_number: '+442080160509',
+  gender: 'f' as const,
+};
+
+describe('Flight Booking', () => {
+  let mock: DuffelMock;
+  let server: Server;
+  let duffel: DuffelFlightService;
+
+  beforeAll(async () => {
+    mock = createDuffelMock();
+    server = await new Promise<Server>(resolve => {
+      const listening = mock.app.listen(0, () => resolve(listening));
+    });
+    const { port } = server.address() as AddressInfo;
+    duffel = new DuffelFlightService(new DuffelHTTPClient({ baseURL: `http://127.0.0.1:${port}`, apiKey: 'test' }));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should not be configured without an API key', () => {
+    const unconfigured = new DuffelFlightService(new DuffelHTTPClient({ baseURL: 'http://127.0.0.1:1', apiKey: '' }));
+    expect(unconfigured.isConfigured()).toBe(false);
+  });
+
+  it('should search, book and cancel a round trip', async () => {
+    const offers = await duffel.searchFlights({
+      origin: 'LHR',
+      destination: 'CDG',
+      departure_date: '2026-05-01',
+      return_date: '2026-05-05',
+      passengers: { adults: 1 },
+    });
+    expect(offers.length > 0).toBe(true);
+    expect(offers[0].slices.map(s => [s.origin.iata_code, s.destination.iata_code])).toEqual([['LHR', 'CDG'], ['CDG', 'LHR']]);
+
+    const offer = await duffel.getOffer(offers[0].id);
+    const order = await duffel.createBooking({
+      offer_id: offer.id,
+      passengers: [{ ...passenger, id: offer.passengers[0].id }],
+      payment: { type: 'balance', amount: offer.price.amount, currency: offer.price.currency },
+    });
+    expect(order.status).toBe('confirmed');
+    expect(order.total_amount).toBe(offer.price.amount);
+
+    const cancellation = await duffel.cancelBooking(order.id);
+    expect(cancellation.success).toBe(true);
+    expect((await duffel.getBooking(order.id)).status).toBe('cancelled');
+  });
+
+  it('should reject a payment that does not match the offer', async () => {
+    const [offer] = await duffel.searchFlights({
+      origin: 'JFK',
+      destination: 'LAX',
+      departure_date: '2026-06-01',
+      passengers: { adults: 1 },
+    });
+
+    await expect(duffel.createBooking({
+      offer_id: offer.id,
+      passengers: [{ ...passenger, id: offer.passengers[0].id }],
+      payment: { type: 'balance', amount: '1.00', currency: offer.price.currency },
+    })).rejects.toThrow('Payment must match the offer total');
+  });
+
+  it('should report an airline cancellation', async () => {
+    const [offer] = await duffel.searchFlights({
+      origin: 'AMS',
+      destination: 'BCN',
+      departure_date: '2026-07-01',
+      passengers: { adults: 1 },
+    });
+    const order = await duffel.createBooking({
+      offer_id: offer.id,
+      passengers: [{ ...passenger, id: offer.passengers[0].id }],
+      payment: { type: 'balance', amount: offer.price.amount, currency: offer.price.currency },
+    });
+
+    expect(mock.airlineCancel(order.id)).toBe(true);
+    expect((await duffel.getBooking(order.id)).status).toBe('cancelled');
+  });
+
+  describe('flightActivities', () => {
+    it('should add a departure and an arrival per leg in local time', () => {
+      const place = (iata_code: string, city_name: string) => ({ iata_code, name: `${city_name} Airport`, city_name });
+      const offer = {
+        slices: [
+          {
+            origin: place('LHR', 'London'),
+            destination: place('CDG', 'Paris'),
+            departure_datetime: '2026-05-01T08:15:00',
+            arrival_datetime: '2026-05-01T10:35:00',
+            segments: [{ airline: { iata_code: 'ZZ', name: 'Duffel Airways' }, flight_number: '1234' }],
+          },
+        ],
+      } as unknown as FlightOffer;
+
+      expect(flightActivities(offer)).toEqual([
+        { kind: 'departure', title: 'Flight ZZ1234: London → Paris', date: '2026-05-01', time: '08:15', location: 'London Airport (LHR)' },
+        { kind: 'arrival', title: 'Arrive in Paris (CDG)', date: '2026-05-01', time: '10:35', location: 'Paris Airport (CDG)' },
+      ]);
+    });
+  });
+});
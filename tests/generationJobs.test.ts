@@ -0,0 +1,86 @@
+/**
+ * Generation Job Tests
+ */
+
+import {
+  GenerationContext,
+  GenerationError,
+  GenerationJobService,
+} from '../server/services/generationJobService';
+import { completedArrayItems } from '../server/utils/partialJson';
+
+describe('Generation Jobs', () => {
+  describe('completedArrayItems', () => {
+    it('should return only the items the model has finished writing', () => {
+      const partial = '{"activities": [{"title": "Louvre", "time": "09:00"}, {"title": "Lunch, then {more}"}, {"title": "Orsa';
+
+      expect(completedArrayItems(partial, 'activities')).toEqual([
+        { title: 'Louvre', time: '09:00' },
+        { title: 'Lunch, then {more}' },
+      ]);
+      expect(completedArrayItems('{"activities": [1, 2, 3', 'activities')).toEqual([1, 2]);
+      expect(completedArrayItems('{"meals": [', 'activities')).toEqual([]);
+    });
+  });
+
+  describe('GenerationJobService', () => {
+    const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    it('should record events so a client can resume after the last one it saw', async () => {
+      const jobs = new GenerationJobService();
+      const job = jobs.start(1, 'full_itinerary', async context => {
+        context.progress({ day: 1, total_days: 2, message: 'Planned day 1 of 2' });
+        context.activities(1, '2026-05-01', [{ title: 'Louvre' }]);
+        await context.commit(async () => undefined);
+        return { success: true, activitiesCreated: 1 };
+      });
+
+      expect(await jobs.wait(job)).toEqual({ success: true, activitiesCreated: 1 });
+      expect(job.eventsAfter(2).map(event => event.event)).toEqual(['activities', 'progress', 'done']);
+      expect(jobs.get(job.id, 1)).toBe(job);
+      expect(jobs.get(job.id, 2)).toBe(undefined);
+    });
+
+    it('should stop a cancelled job before it commits', async () => {
+      const jobs = new GenerationJobService();
+      let committed = false;
+      let release = () => {};
+      const job = jobs.start(1, 'trip', async (context: GenerationContext) => {
+        await new Promise<void>(resolve => { release = resolve; });
+        context.throwIfCancelled();
+        await context.commit(async () => { committed = true; });
+        return {};
+      });
+
+      expect(jobs.cancel(job)).toBe(true);
+      release();
+      await expect(jobs.wait(job)).rejects.toThrow('Generation was cancelled');
+      expect(committed).toBe(false);
+      expect(job.status).toBe('cancelled');
+      expect(jobs.cancel(job)).toBe(false);
+    });
+
+    it('should not cancel a job that is saving', async () => {
+      const jobs = new GenerationJobService();
+      let release = () => {};
+      const job = jobs.start(1, 'weekend', async context =>
+        context.commit(() => new Promise<string>(resolve => { release = () => resolve('saved'); }))
+      );
+
+      await tick();
+      expect(jobs.cancel(job)).toBe(false);
+      release();
+      expect(await jobs.wait(job)).toBe('saved');
+    });
+
+    it('should report generator errors with their status', async () => {
+      const jobs = new GenerationJobService();
+      const job = jobs.start(1, 'weekend', async () => {
+        throw new GenerationError(400, 'Could not find real places in Atlantis.');
+      });
+
+      await expect(jobs.wait(job)).rejects.toThrow('Could not find real places in Atlantis.');
+      expect(job.events[job.events.length - 1].data).toEqual({ status: 400, message: 'Could not find real places in Atlantis.' });
+    });
+  });
+});
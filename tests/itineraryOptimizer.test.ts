@@ -0,0 +1,116 @@
+/**
+ * Itinerary Optimizer Tests
+ */
+
+import {
+  optimizeDay,
+  optimizeActivities,
+  detectConflicts,
+  travelMinutes,
+  mealWindow,
+  OptimizableActivity,
+} from '../server/services/itineraryOptimizationService';
+
+// Points along a line in Paris, roughly 1.1 km apart
+const hotel = { latitude: 48.85, longitude: 2.30 };
+const place = (km: number) => ({ latitude: String(48.85 + km / 111), longitude: '2.30' });
+
+function activity(id: number, km: number, time: string | null, extra: Partial<OptimizableActivity> = {}): OptimizableActivity {
+  return { id, title: `Stop ${id}`, date: '2026-05-01', time, ...place(km), tag: 'sightseeing', ...extra };
+}
+
+describe('Itinerary Optimizer', () => {
+  describe('travelMinutes', () => {
+    it('should be slower on foot than by car and fall back to transit for long walks', () => {
+      const a = { latitude: 48.85, longitude: 2.30 };
+      const near = { latitude: 48.86, longitude: 2.30 };
+      const far = { latitude: 48.95, longitude: 2.30 };
+      expect(travelMinutes(a, near, 'walking') > travelMinutes(a, near, 'driving')).toBe(true);
+      expect(travelMinutes(a, far, 'walking')).toBe(travelMinutes(a, far, 'transit'));
+      expect(travelMinutes(null, near, 'walking')).toBe(20);
+    });
+  });
+
+  describe('mealWindow', () => {
+    it('should read the meal from the title or the planned time', () => {
+      expect(mealWindow({ title: 'Dinner at Le Comptoir', tag: null, category: null, time: null })?.meal).toBe('dinner');
+      expect(mealWindow({ title: 'Bistro', tag: 'food', category: null, time: '12:30' })?.meal).toBe('lunch');
+      expect(mealWindow({ title: 'Coffee stop', tag: 'food', category: null, time: '15:00' })).toBeNull();
+    });
+  });
+
+  describe('optimizeDay', () => {
+    it('should visit stops in distance order from the hotel', () => {
+      const plan = optimizeDay('2026-05-01', [
+        activity(1, 3, '09:00'),
+        activity(2, 1, '11:00'),
+        activity(3, 2, '14:00'),
+      ], { hotel });
+
+      // Out and back along the line is as short either way round
+      expect([[2, 3, 1], [1, 3, 2]]).toContainEqual(plan.stops.map(s => s.activity_id));
+      expect(plan.travel_minutes < plan.original_travel_minutes).toBe(true);
+      expect(plan.violations).toEqual([]);
+    });
+
+    it('should keep bookings at their time and meals in meal hours', () => {
+      const plan = optimizeDay('2026-05-01', [
+        activity(1, 1, '10:00'),
+        activity(2, 2, '13:30', { booking_reference: 'ABC123' }),
+        activity(3, 1, '09:30', { title: 'Lunch at the market', tag: 'food' }),
+        activity(4, 3, null),
+      ], { hotel });
+
+      const byId = new Map(plan.stops.map(s => [s.activity_id, s]));
+      expect(byId.get(2)!.start_time).toBe('13:30');
+      expect(byId.get(2)!.fixed).toBe(true);
+      const lunch = byId.get(3)!.start_time;
+      expect(lunch >= '11:30' && lunch <= '14:30').toBe(true);
+      expect(plan.violations).toEqual([]);
+    });
+
+    it('should give the same result every time', () => {
+      const activities = Array.from({ length: 10 }, (_, i) => activity(i + 1, ((i * 7) % 10) * 0.4, null));
+      const first = optimizeDay('2026-05-01', activities, { hotel });
+      const second = optimizeDay('2026-05-01', [...activities].reverse(), { hotel });
+      expect(second.stops.map(s => s.activity_id)).toEqual(first.stops.map(s => s.activity_id));
+      expect(first.stops).toHaveLength(10);
+    });
+  });
+
+  describe('optimizeActivities', () => {
+    it('should keep planned times that still work and skip undated activities', () => {
+      const result = optimizeActivities([
+        activity(1, 1, '09:10'),
+        activity(2, 2, '12:00'),
+        { ...activity(3, 1, null), date: null },
+      ], { hotel });
+
+      expect(result.undated_activity_ids).toEqual([3]);
+      expect(result.changes).toEqual([]);
+    });
+
+    it('should move activities that can no longer be reached in time', () => {
+      const result = optimizeActivities([
+        activity(1, 1, '09:00'),
+        activity(2, 2, '09:30'),
+      ], { hotel, travelStyle: 'packed' });
+
+      expect(result.changes.map(c => [c.activity_id, c.from_time, c.to_time])).toEqual([[2, '09:30', '10:50']]);
+    });
+  });
+
+  describe('detectConflicts', () => {
+    it('should flag overlaps and tight connections', () => {
+      const conflicts = detectConflicts([
+        activity(1, 0, '10:00'),
+        activity(2, 0, '10:30'),
+        activity(3, 5, '12:05', { travel_mode: 'walking' }),
+      ]);
+      expect(conflicts.map(c => [c.activityId1, c.activityId2, c.type])).toEqual([
+        [1, 2, 'overlap'],
+        [2, 3, 'tight_connection'],
+      ]);
+    });
+  });
+});
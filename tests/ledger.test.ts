@@ -0,0 +1,73 @@
+/**
+ * Marketplace Ledger Tests
+ */
+
+import { balancedLines, refundLines, saleLines, splitBundle, transferLines } from '../server/services/ledgerService';
+
+const total = (lines: Array<{ cents: number }>) => lines.reduce((sum, line) => sum + line.cents, 0);
+
+describe('Marketplace Ledger', () => {
+  it('should post a sale as cash, fees, creator earnings and platform revenue', () => {
+    // $10 sale: Stripe takes $0.59, the creator gets 70% of the rest
+    const lines = balancedLines(saleLines({ sellerId: 4, price: 10, paid: 10, stripeFee: 0.59, sellerEarnings: 6.59 }));
+
+    expect(lines).toEqual([
+      { account: 'platform_cash', cents: 941 },
+      { account: 'stripe_fees', cents: 59 },
+      { account: 'creator_pending', userId: 4, cents: -659 },
+      { account: 'platform_revenue', cents: -341 },
+    ]);
+  });
+
+  it('should record promo discounts as the gap between list price and what was paid', () => {
+    const lines = balancedLines(saleLines({ sellerId: 4, price: 20, paid: 15, stripeFee: 0.74, sellerEarnings: 13.48 }));
+
+    expect(lines).toContainEqual({ account: 'promo_discounts', cents: 500 });
+    expect(lines).toContainEqual({ account: 'platform_cash', cents: 1426 });
+    expect(total(lines)).toBe(0);
+
+    // A 100% discount posts only the discount
+    expect(balancedLines(saleLines({ sellerId: 4, price: 20, paid: 0, stripeFee: 0, sellerEarnings: 0 }))).toEqual([
+      { account: 'promo_discounts', cents: 2000 },
+      { account: 'platform_revenue', cents: -2000 },
+    ]);
+  });
+
+  it('should take refunds back out of wherever the earnings are held', () => {
+    const lines = balancedLines(refundLines({ sellerId: 4, refundAmount: 10, sellerEarnings: 6.59, heldIn: 'refunds_reserve' }));
+
+    expect(lines).toEqual([
+      { account: 'refunds_reserve', userId: 4, cents: 659 },
+      { account: 'platform_revenue', cents: 341 },
+      { account: 'platform_cash', cents: -1000 },
+    ]);
+  });
+
+  it('should move money between accounts for releases and payouts', () => {
+    expect(transferLines('creator_pending', 'creator_available', 4, 6.59)).toEqual([
+      { account: 'creator_pending', userId: 4, cents: 659 },
+      { account: 'creator_available', userId: 4, cents: -659 },
+    ]);
+    expect(transferLines('payouts_in_transit', 'platform_cash', 4, 50)[1]).toEqual({ account: 'platform_cash', userId: null, cents: -5000 });
+  });
+
+  it('should split a bundle across its templates to the cent', () => {
+    const shares = splitBundle(
+      [{ id: 1, price: 10 }, { id: 2, price: 10 }, { id: 3, price: 10 }],
+      { price: 20, stripeFee: 0.88, sellerEarnings: 14 },
+    );
+
+    expect(shares.map(share => share.price)).toEqual([6.67, 6.67, 6.66]);
+    expect(shares.map(share => share.sellerEarnings)).toEqual([4.67, 4.67, 4.66]);
+    expect(shares.reduce((sum, share) => sum + Math.round(share.stripeFee * 100), 0)).toBe(88);
+    expect(splitBundle([{ price: 30 }, { price: 10 }], { price: 20, stripeFee: 0, sellerEarnings: 14 }).map(share => share.sellerEarnings)).toEqual([10.5, 3.5]);
+  });
+
+  it('should refuse transactions that do not balance', () => {
+    expect(() => balancedLines([
+      { account: 'platform_cash', cents: 100 },
+      { account: 'platform_revenue', cents: -99 },
+    ])).toThrow('unbalanced by 0.01');
+    expect(() => balancedLines([{ account: 'platform_cash', cents: 0.5 }, { account: 'platform_revenue', cents: -0.5 }])).toThrow('whole cents');
+  });
+});
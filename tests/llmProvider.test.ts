@@ -0,0 +1,106 @@
+/**
+ * LLM Provider Layer Tests
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { extractJson, promptMessages, LLMProviderRequest } from '../server/services/llmProvider';
+import { DEFAULT_FIXTURES_DIR, StubProvider, recordFixture } from '../server/services/llmStub';
+import { LLMService, parseModelSpec } from '../server/services/llmService';
+
+// A service that only knows the stub and reads settings from a map
+function service(settings: Record<string, string> = {}) {
+  const stub = new StubProvider(DEFAULT_FIXTURES_DIR);
+  return new LLMService(
+    { openai: stub, anthropic: stub, local: stub, stub },
+    async key => settings[key] ?? null
+  );
+}
+
+describe('LLM Provider Layer', () => {
+  describe('parseModelSpec', () => {
+    it('should read a provider prefix only for known providers', () => {
+      expect(parseModelSpec('anthropic:claude-3-5-haiku-latest')).toEqual({ provider: 'anthropic', model: 'claude-3-5-haiku-latest' });
+      expect(parseModelSpec('local:')).toEqual({ provider: 'local', model: null });
+      expect(parseModelSpec('gpt-4o-mini')).toEqual({ provider: null, model: 'gpt-4o-mini' });
+      expect(parseModelSpec('ft:gpt-4o-mini:acme')).toEqual({ provider: null, model: 'ft:gpt-4o-mini:acme' });
+      expect(parseModelSpec('')).toEqual({ provider: null, model: null });
+    });
+  });
+
+  describe('extractJson', () => {
+    it('should strip markdown fences and surrounding text', () => {
+      expect(extractJson('```json\n{"a":1}\n```')).toBe('{"a":1}');
+      expect(extractJson('Here you go: {"a":1} Enjoy!')).toBe('{"a":1}');
+      expect(extractJson('[1,2]')).toBe('[1,2]');
+    });
+  });
+
+  describe('LLMService', () => {
+    it('should pick the model per feature from settings', async () => {
+      const llm = service({
+        ai_model_default: 'gpt-4o-mini',
+        ai_model_itinerary: 'anthropic:claude-3-5-sonnet-latest',
+        ai_provider: 'local',
+      });
+
+      expect((await llm.resolve('summaries')).model).toBe('gpt-4o-mini');
+      const itinerary = await llm.resolve('itinerary');
+      expect(itinerary.model).toBe('claude-3-5-sonnet-latest');
+      expect((await service().resolve('content')).model).toBe('stub');
+    });
+
+    it('should replay fixtures by message, falling back to the feature default', async () => {
+      const llm = service();
+      expect(await llm.complete('assistant', 'What if it starts to rain on Tuesday?'))
+        .toBe("If it rains, swap the park for the Musée d'Orsay and keep dinner as planned.");
+      expect(await llm.complete('assistant', 'Is the trip too busy?'))
+        .toBe('Your trip looks well balanced. Ask me about any day for details.');
+      expect(await llm.json('content', { messages: promptMessages('Describe Lisbon as JSON') })).toEqual({});
+    });
+
+    it('should return tool calls from fixtures', async () => {
+      const response = await service().chat('assistant', {
+        messages: promptMessages('Add the Louvre on Friday morning', 'You are a travel assistant'),
+        tools: [{ name: 'add_activity', description: 'Add', parameters: { type: 'object' } }],
+        toolChoice: 'auto',
+      });
+
+      expect(response.finishReason).toBe('tool_calls');
+      expect(JSON.parse(response.toolCalls[0].arguments).title).toBe('Visit the Louvre');
+    });
+
+    it('should stream the reply and finish with the full response', async () => {
+      const pieces: string[] = [];
+      let final = '';
+      for await (const event of service().stream('summaries', { messages: promptMessages('Summarize day 1') })) {
+        if (event.type === 'text') pieces.push(event.text);
+        else final = event.response.content;
+      }
+
+      expect(pieces.length > 1).toBe(true);
+      expect(pieces.join('')).toBe(final);
+    });
+  });
+
+  describe('recordFixture', () => {
+    it('should replay a recorded response for the exact request', async () => {
+      const dir = mkdtempSync(path.join(tmpdir(), 'llm-fixtures-'));
+      try {
+        const request: LLMProviderRequest = { model: 'gpt-4o-mini', feature: 'translation', messages: promptMessages('Translate "hello" to French') };
+        await recordFixture(dir, request, {
+          content: 'bonjour', toolCalls: [], finishReason: 'stop', provider: 'openai', model: 'gpt-4o-mini',
+          usage: { inputTokens: 10, outputTokens: 2 },
+        });
+
+        const stub = new StubProvider(dir);
+        expect((await stub.chat({ ...request, model: 'stub' })).content).toBe('bonjour');
+        expect((await stub.chat({ ...request, messages: promptMessages('Translate "bye" to French') })).content)
+          .toBe('[stub translation] Translate "bye" to French');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
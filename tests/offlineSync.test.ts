@@ -0,0 +1,47 @@
+/**
+ * Offline Sync Tests
+ */
+
+import { fieldConflicts, tripBounds } from '../server/services/offlineSyncService';
+
+describe('Offline Sync', () => {
+  describe('fieldConflicts', () => {
+    it('should flag fields changed on the server since the client copy', () => {
+      const conflicts = fieldConflicts(
+        { content: 'Buy SIM card' },
+        { content: 'Buy SIM card at the airport' },
+        { content: 'Buy eSIM instead' }
+      );
+
+      expect(conflicts).toEqual([
+        { field: 'content', attempted: 'Buy SIM card at the airport', current: 'Buy eSIM instead' },
+      ]);
+    });
+
+    it('should accept edits when the server still has the base value', () => {
+      expect(fieldConflicts({ is_completed: false }, { is_completed: true }, { is_completed: false })).toHaveLength(0);
+    });
+
+    it('should not flag a field both sides changed to the same value', () => {
+      expect(fieldConflicts({ is_completed: false }, { is_completed: true }, { is_completed: true })).toHaveLength(0);
+    });
+  });
+
+  describe('tripBounds', () => {
+    it('should pad the box around all points', () => {
+      const bounds = tripBounds([
+        { latitude: 48.8584, longitude: 2.2945 },
+        { latitude: 48.8606, longitude: 2.3376 },
+      ], 1.11);
+
+      expect(bounds!.north).toBeCloseTo(48.8706, 3);
+      expect(bounds!.south).toBeCloseTo(48.8484, 3);
+      expect(bounds!.west < 2.2945).toBe(true);
+      expect(bounds!.east > 2.3376).toBe(true);
+    });
+
+    it('should ignore missing coordinates', () => {
+      expect(tripBounds([{ latitude: NaN, longitude: NaN }, { latitude: 0, longitude: 0 }])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Opening Hours Tests
+ */
+
+import {
+  parseOpeningHours,
+  tryParseOpeningHours,
+  openIntervals,
+  stateAt,
+  checkVisit,
+  describeVisitCheck,
+} from '../shared/openingHours';
+import { publicHolidays, publicHolidaysBetween } from '../shared/publicHolidays';
+import { optimizeDay, fitToOpeningHours } from '../server/services/itineraryOptimizationService';
+
+const spans = (value: string, date: string, ctx = {}) =>
+  openIntervals(parseOpeningHours(value), date, ctx).map(i => [i.start, i.end, i.state]);
+
+describe('Opening Hours', () => {
+  describe('publicHolidays', () => {
+    it('should include Easter-based and observed holidays', () => {
+      expect(publicHolidays('Germany', 2026).get('2026-04-06')).toBe('Ostermontag');
+      // Christmas 2027 is a Saturday, observed on the Friday before
+      expect(publicHolidays('US', 2027).has('2027-12-24')).toBe(true);
+      expect(publicHolidaysBetween('Atlantis', '2026-01-01', '2026-12-31').size).toBe(0);
+    });
+  });
+
+  describe('parseOpeningHours', () => {
+    it('should read common opening hours', () => {
+      // 2026-05-01 is a Friday
+      expect(spans('24/7', '2026-05-01')).toEqual([[0, 1440, 'open']]);
+      expect(spans('Mo-Fr 09:00-12:00,13:00-17:30; Sa 10:00-14:00', '2026-05-01')).toEqual([
+        [540, 720, 'open'],
+        [780, 1050, 'open'],
+      ]);
+      expect(spans('Mo-Fr 09:00-17:00', '2026-05-02')).toEqual([]);
+    });
+
+    it('should carry overnight hours into the next day', () => {
+      const hours = parseOpeningHours('Fr 20:00-02:00');
+      expect(stateAt(hours, '2026-05-01', 23 * 60)).toBe('open');
+      expect(stateAt(hours, '2026-05-02', 60)).toBe('open');
+      expect(stateAt(hours, '2026-05-02', 3 * 60)).toBe('closed');
+    });
+
+    it('should apply closed times, holidays and fallback rules', () => {
+      expect(spans('Mo-Su 10:00-18:00; We 12:00-14:00 off', '2026-05-06')).toEqual([
+        [600, 720, 'open'],
+        [840, 1080, 'open'],
+      ]);
+
+      const ctx = { publicHolidays: publicHolidays('DE', 2026) };
+      expect(spans('Mo-Sa 10:00-18:00; PH off', '2026-04-06', ctx)).toEqual([]);
+      expect(spans('Mo-Sa 10:00-18:00; PH off', '2026-04-13', ctx)).toEqual([[600, 1080, 'open']]);
+
+      expect(spans('Mo-Fr 09:00-17:00 || "by appointment"', '2026-05-02')).toEqual([[0, 1440, 'unknown']]);
+    });
+
+    it('should reject values it cannot read', () => {
+      expect(() => parseOpeningHours('Mo-Fr 25:00-26:00')).toThrow();
+      expect(tryParseOpeningHours('whenever we feel like it')).toBeNull();
+      expect(tryParseOpeningHours('')).toBeNull();
+    });
+  });
+
+  describe('checkVisit', () => {
+    it('should explain why a visit does not fit', () => {
+      const hours = parseOpeningHours('Mo-Fr 10:00-18:00');
+      expect(describeVisitCheck(checkVisit(hours, '2026-05-01', 9 * 60, 60))).toBe('Closed at this time (opens 10:00)');
+      expect(describeVisitCheck(checkVisit(hours, '2026-05-01', 17 * 60 + 30, 60))).toBe('Closes at 18:00, before this activity ends');
+      expect(describeVisitCheck(checkVisit(hours, '2026-05-02', 12 * 60, 60))).toBe('Closed all day');
+      expect(describeVisitCheck(checkVisit(hours, '2026-05-01', 12 * 60, 60))).toBeNull();
+
+      const ctx = { publicHolidays: publicHolidays('DE', 2026) };
+      expect(describeVisitCheck(checkVisit(parseOpeningHours('Mo-Su 10:00-18:00; PH off'), '2026-04-06', 12 * 60, 60, ctx)))
+        .toBe('Closed all day on Ostermontag');
+    });
+  });
+
+  describe('scheduling', () => {
+    it('should move a planned visit into the opening hours', () => {
+      const slot = { date: '2026-05-01', time: '09:00', title: 'Louvre', tag: 'sightseeing' };
+      expect(fitToOpeningHours('Mo-Su 10:00-18:00', slot, {})).toBe('10:00');
+      expect(fitToOpeningHours(null, slot, {})).toBe('09:00');
+    });
+
+    it('should not start stops before their place opens', () => {
+      const plan = optimizeDay('2026-05-01', [
+        { id: 1, title: 'Museum', date: '2026-05-01', time: '09:00', latitude: '48.86', longitude: '2.30', tag: 'sightseeing', opening_hours: 'Mo-Su 11:00-18:00' },
+      ], { hotel: { latitude: 48.85, longitude: 2.30 } });
+
+      expect(plan.stops[0].start_time >= '11:00').toBe(true);
+      expect(plan.violations).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Place Verification Tests
+ */
+
+import { PlaceVerificationService, matchConfidence, verificationColumns } from '../server/services/placeVerificationService';
+import { nameSimilarity } from '../server/utils/placeNames';
+
+const pool = {
+  attractions: [
+    { name: 'Louvre Museum', lat: 48.8606, lon: 2.3376, tourism: 'museum' },
+    { name: 'Sainte-Chapelle', lat: 48.8554, lon: 2.345, tourism: 'attraction' },
+    { name: 'Musée Rodin', lat: 48.8553, lon: 2.3158, tourism: 'museum' },
+  ],
+  restaurants: [
+    { name: 'Bouillon Chartier', lat: 48.8719, lon: 2.3434, cuisine: 'french' },
+  ],
+  cafes: [
+    { name: 'Café de Flore', lat: 48.8542, lon: 2.3325 },
+  ],
+};
+
+function fakeLookups(known: Record<string, { lat: number; lon: number; address: string }> = {}) {
+  const calls: string[] = [];
+  return {
+    calls,
+    lookups: {
+      places: async () => pool,
+      nominatim: async (name: string) => {
+        calls.push(name);
+        return known[name] || null;
+      },
+      geocode: async () => ({ latitude: '48.8566', longitude: '2.3522', formattedAddress: 'Paris, France' }),
+    },
+  };
+}
+
+describe('Place Verification', () => {
+  it('should compare place names the way they are written', () => {
+    expect(nameSimilarity('Musée Rodin', 'musee rodin')).toBe(1);
+    expect(nameSimilarity('Lunch at Café de Flore', 'Café de Flore')).toBe(0.9);
+    expect(nameSimilarity('Le Petit Bistro', 'Louvre Museum')).toBe(0);
+  });
+
+  it('should verify places in the OSM pool without looking them up', async () => {
+    const { calls, lookups } = fakeLookups();
+    const service = new PlaceVerificationService(lookups);
+
+    const [louvre, flore] = await service.verifyPlaces([
+      { name: 'Louvre Museum' },
+      { name: 'Breakfast at Café de Flore', kind: 'meal' },
+    ], { city: 'Paris', country: 'France' });
+
+    expect(louvre.status).toBe('verified');
+    expect(louvre.confidence).toBe(1);
+    expect(louvre.source).toBe('osm');
+    expect(flore.place?.name).toBe('Café de Flore');
+    expect(calls).toHaveLength(0);
+  });
+
+  it('should look up places missing from OSM and flag ones nobody knows', async () => {
+    const { calls, lookups } = fakeLookups({
+      'Eiffel Tower': { lat: 48.8584, lon: 2.2945, address: 'Eiffel Tower, Avenue Gustave Eiffel, Paris, France' },
+    });
+    const service = new PlaceVerificationService(lookups);
+
+    const [eiffel, invented] = await service.verifyPlaces([
+      { name: 'Eiffel Tower' },
+      { name: 'Le Petit Bistro Imaginaire', kind: 'meal' },
+    ], { city: 'Paris', country: 'France' });
+
+    expect(eiffel.status).toBe('verified');
+    expect(eiffel.source).toBe('nominatim');
+    expect(eiffel.confidence).toBe(0.9);
+    // Mapbox found only the city, which says nothing about the restaurant
+    expect(invented.status).toBe('unverified');
+    expect(invented.source).toBe('geocoding');
+    expect(invented.confidence).toBe(0.2);
+    expect(calls).toEqual(['Eiffel Tower', 'Le Petit Bistro Imaginaire']);
+  });
+
+  it('should replace unverified places with unused ones of the same kind', async () => {
+    const { lookups } = fakeLookups();
+    const service = new PlaceVerificationService(lookups);
+
+    const results = await service.verifyPlaces([
+      { name: 'Louvre Museum' },
+      { name: 'Museum of Invented Things' },
+      { name: 'Trattoria Nowhere', kind: 'meal' },
+    ], { city: 'Paris', country: 'France', pool, replace: true, exclude: ['Sainte-Chapelle'] });
+
+    expect(results[0].status).toBe('verified');
+    expect(results[1].status).toBe('replaced');
+    expect(results[1].place?.name).toBe('Musée Rodin');
+    expect(results[1].original).toBe('Museum of Invented Things');
+    expect(results[2].place?.name).toBe('Bouillon Chartier');
+  });
+
+  it('should lower confidence when the place is far from where it was suggested', () => {
+    const louvre = pool.attractions[0];
+    expect(matchConfidence({ name: 'Louvre Museum', latitude: 48.86, longitude: 2.34 }, 'osm', louvre)).toBe(1);
+    expect(matchConfidence({ name: 'Louvre Museum', latitude: 45.76, longitude: 4.83 }, 'osm', louvre)).toBe(0.7);
+  });
+
+  it('should store verification on activity columns', () => {
+    expect(verificationColumns({ status: 'unverified', confidence: 0.25, source: 'geocoding' })).toEqual({
+      verification_status: 'unverified',
+      verification_confidence: '0.25',
+      verification_source: 'geocoding',
+    });
+    expect(verificationColumns(null).verification_status).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Prompt Registry and Evaluation Tests
+ */
+
+import {
+  definePrompt,
+  parsePromptPins,
+  pinPromptVersion,
+  renderPrompt,
+  tripExtractionPrompt,
+} from '../server/prompts';
+import {
+  budgetAdherence,
+  countTimeConflicts,
+  matchPlace,
+  parsePrice,
+  scoreItinerary,
+} from '../server/services/itineraryEvaluation';
+
+const greeting = definePrompt<{ name: string }>({
+  id: 'test.greeting',
+  feature: 'assistant',
+  description: 'Test prompt',
+  versions: [
+    { version: 1, user: ({ name }) => `Say hello to ${name}`, temperature: 0.5 },
+    { version: 2, system: () => 'Be brief.', user: ({ name }) => `Greet ${name}`, json: true },
+  ],
+});
+
+const places = [
+  { name: 'Louvre Museum', lat: 48.8606, lon: 2.3376 },
+  { name: 'Sacré-Cœur', lat: 48.8867, lon: 2.3431 },
+  { name: "Villa d'Este", lat: 41.963, lon: 12.796 },
+  { name: 'Pantheon', lat: 41.8986, lon: 12.4769 },
+];
+
+describe('Prompt Registry', () => {
+  it('should render the newest version unless one is pinned', () => {
+    expect(renderPrompt(greeting, { name: 'Ada' })).toEqual({
+      promptId: 'test.greeting',
+      promptVersion: 2,
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Greet Ada' },
+      ],
+      json: true,
+    });
+
+    pinPromptVersion('test.greeting', 1);
+    expect(renderPrompt(greeting, { name: 'Ada' }).messages).toEqual([{ role: 'user', content: 'Say hello to Ada' }]);
+    pinPromptVersion('test.greeting', null);
+
+    expect(() => renderPrompt(greeting, { name: 'Ada' }, { version: 3 })).toThrow('Prompt test.greeting has no version 3');
+  });
+
+  it('should read pins from PROMPT_VERSIONS', () => {
+    expect(Array.from(parsePromptPins('trip.itinerary=2, chat.system=1,broken,x=0').entries())).toEqual([
+      ['trip.itinerary', 2],
+      ['chat.system', 1],
+    ]);
+  });
+
+  it('should use the given date for relative dates in trip requests', () => {
+    const rendered = renderPrompt(tripExtractionPrompt, { request: 'Paris next week', today: '2026-04-20' });
+    expect(rendered.messages[0].content).toMatch(/today's date as reference: 2026-04-20/);
+  });
+});
+
+describe('Itinerary Evaluation', () => {
+  it('should match activities to known places by name', () => {
+    expect(matchPlace({ title: 'Visit the Louvre Museum' }, places)?.name).toBe('Louvre Museum');
+    expect(matchPlace({ title: 'Sacre-Coeur at sunrise' }, places)?.name).toBe('Sacré-Cœur');
+    expect(matchPlace({ restaurant: 'Trattoria Da Luigi', location: 'Rome' }, places)).toBeNull();
+  });
+
+  it('should count overlapping activities on the same day only', () => {
+    expect(countTimeConflicts([
+      { date: '2026-06-02', time: '10:00', title: 'Vatican Museums', category: 'culture' },
+      { date: '2026-06-02', time: '11:00', title: "St. Peter's Basilica", category: 'sightseeing' },
+      { date: '2026-06-03', time: '10:30', title: 'Pantheon', category: 'sightseeing' },
+      { date: '2026-06-03', time: '13:00', restaurant: 'Roscioli', type: 'lunch' },
+    ])).toBe(1);
+  });
+
+  it('should score budget and geographic spread', () => {
+    expect(parsePrice('€22.50 per person')).toBe(22.5);
+    expect(budgetAdherence(200, 150)).toBe(0.75);
+    expect(budgetAdherence(100, undefined)).toBe(1);
+
+    const score = scoreItinerary([
+      { date: '2026-06-04', time: '10:00', title: "Villa d'Este", price: 15 },
+      { date: '2026-06-04', time: '16:00', title: 'Pantheon', price: '5' },
+      { date: '2026-06-04', time: '19:00', restaurant: 'Trattoria Da Luigi', type: 'dinner' },
+    ], { places, budget: 30, travelers: 2, jsonReplies: { total: 2, valid: 1 } });
+
+    expect(score.jsonValid).toBe(0.5);
+    expect(score.realPlaceRatio).toBeCloseTo(2 / 3);
+    expect(score.timeConflicts).toBe(0);
+    expect(Math.round(score.maxDailySpreadKm)).toBe(27);
+    expect(score.budgetAdherence).toBe(0.75);
+  });
+});
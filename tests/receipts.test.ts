@@ -0,0 +1,56 @@
+/**
+ * Receipt OCR Parsing Tests
+ */
+
+import { parseReceiptText, toExpenseDraft } from '../server/services/receiptService';
+
+describe('Receipt parsing', () => {
+  it('should read merchant, total, currency and date from a till receipt', () => {
+    const text = [
+      'BLUE BOTTLE COFFEE',
+      '66 Mint St, San Francisco',
+      'Tel 415-555-0100',
+      '03/14/2025 09:42',
+      'Latte            5.50',
+      'Croissant        4.25',
+      'Subtotal         9.75',
+      'Tax              0.84',
+      'TOTAL          $10.59',
+      'Cash            20.00',
+      'Change           9.41',
+    ].join('\n');
+
+    expect(parseReceiptText(text)).toEqual({
+      merchant: 'BLUE BOTTLE COFFEE',
+      total: 10.59,
+      currency: 'USD',
+      date: '2025-03-14',
+    });
+  });
+
+  it('should prefer the amount due over a plain total', () => {
+    const text = 'Hotel Le Marais\nTotal 180,00 €\nDeposit -50,00 €\nAmount due 130,00 €\n2 Apr 2025';
+    const fields = parseReceiptText(text);
+
+    expect(fields.total).toBe(130);
+    expect(fields.currency).toBe('EUR');
+    expect(fields.date).toBe('2025-04-02');
+  });
+
+  it('should fall back to the largest price when no total is labelled', () => {
+    const fields = parseReceiptText('Ramen Ichiran\nRamen 9.80\nBeer 6.00\n15.80');
+    expect(fields.total).toBe(15.8);
+    expect(fields.currency).toBeNull();
+  });
+
+  it('should default the draft currency to the trip currency', () => {
+    const draft = toExpenseDraft(4, { merchant: null, total: 15.8, currency: null, date: null }, 'JPY');
+    expect(draft).toEqual({
+      receipt_id: 4,
+      description: 'Receipt',
+      total_amount: 15.8,
+      currency: 'JPY',
+      expense_date: null,
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Referral Tracking Tests
+ */
+
+import { balancedLines } from '../server/services/ledgerService';
+import {
+  REFERRAL_WINDOW_DAYS,
+  ReferralCookie,
+  commissionLines,
+  conversionRate,
+  readReferralCookie,
+  recordClick,
+  referralCommission,
+} from '../server/services/referralService';
+
+const now = new Date('2026-05-20T12:00:00Z');
+const daysAgo = (days: number) => now.getTime() - days * 24 * 60 * 60 * 1000;
+
+describe('Referrals', () => {
+  it('should credit the last share link clicked for each template', () => {
+    let cookie = recordClick({}, 12, 'first-link', new Date(daysAgo(3)));
+    cookie = recordClick(cookie, 40, 'other-template', new Date(daysAgo(2)));
+    cookie = recordClick(cookie, 12, 'second-link', now);
+
+    expect(cookie['12']).toEqual({ code: 'second-link', at: now.getTime() });
+    expect(cookie['40'].code).toBe('other-template');
+  });
+
+  it('should keep only the most recently clicked templates', () => {
+    let cookie: ReferralCookie = {};
+    for (let templateId = 1; templateId <= 25; templateId++) {
+      cookie = recordClick(cookie, templateId, `link-${templateId}`, new Date(daysAgo(1) + templateId));
+    }
+
+    expect(Object.keys(cookie)).toHaveLength(20);
+    expect(cookie['5']).toBeUndefined();
+    expect(cookie['25'].code).toBe('link-25');
+  });
+
+  it('should drop clicks outside the referral window and anything malformed', () => {
+    const cookie = readReferralCookie({
+      1: { code: 'recent', at: daysAgo(REFERRAL_WINDOW_DAYS - 1) },
+      2: { code: 'expired', at: daysAgo(REFERRAL_WINDOW_DAYS + 1) },
+      3: { code: 'future', at: daysAgo(-1) },
+      4: { code: 42, at: daysAgo(1) },
+      abc: { code: 'bad-id', at: daysAgo(1) },
+    }, now);
+
+    expect(Object.keys(cookie)).toEqual(['1']);
+    expect(readReferralCookie('not-json', now)).toEqual({});
+    expect(readReferralCookie(undefined, now)).toEqual({});
+  });
+
+  it('should take commissions out of the platform fee', () => {
+    expect(referralCommission({ price: 24.99, platformFee: 7.07 }, 10)).toBe(2.5);
+    expect(referralCommission({ price: 24.99, platformFee: 1.2 }, 10)).toBe(1.2);
+    expect(referralCommission({ price: 24.99, platformFee: 7.07 }, 0)).toBe(0);
+    expect(referralCommission({ price: 0, platformFee: 0 }, 10)).toBe(0);
+  });
+
+  it('should post balanced commission entries to the sharer', () => {
+    const lines = balancedLines(commissionLines(7, 2.5));
+
+    expect(lines).toEqual([
+      { account: 'platform_revenue', cents: 250 },
+      { account: 'creator_pending', userId: 7, cents: -250 },
+    ]);
+  });
+
+  it('should report conversion rates per click', () => {
+    expect(conversionRate(0, 0)).toBe(0);
+    expect(conversionRate(3, 1)).toBe(33.33);
+    expect(conversionRate(40, 2)).toBe(5);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Refund and Dispute Tests
+ */
+
+import { REFUND_WINDOW_DAYS, earningsAccount, refundDecision, tripWasUsed } from '../server/services/refundService';
+
+const now = new Date('2026-05-20T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const candidate = {
+  status: 'completed',
+  amount: 24.99,
+  purchasedAt: daysAgo(2),
+  hasPayment: true,
+  tripUsed: false,
+};
+
+describe('Refunds', () => {
+  it('should approve unused purchases inside the refund window', () => {
+    expect(refundDecision(candidate, now).outcome).toBe('approve');
+    expect(refundDecision({ ...candidate, purchasedAt: daysAgo(REFUND_WINDOW_DAYS - 0.5) }, now).outcome).toBe('approve');
+  });
+
+  it('should send requests for used trips to review', () => {
+    expect(refundDecision({ ...candidate, tripUsed: true }, now)).toEqual({
+      outcome: 'review',
+      reason: 'The trip has already been used, so the request needs review',
+    });
+  });
+
+  it('should turn down requests that the policy does not cover', () => {
+    expect(refundDecision({ ...candidate, purchasedAt: daysAgo(REFUND_WINDOW_DAYS + 1) }, now)).toEqual({
+      outcome: 'deny',
+      reason: `Refunds are available for ${REFUND_WINDOW_DAYS} days after purchase`,
+    });
+    expect(refundDecision({ ...candidate, status: 'refunded' }, now).reason).toBe('This purchase has already been refunded');
+    expect(refundDecision({ ...candidate, status: 'disputed' }, now).outcome).toBe('deny');
+    expect(refundDecision({ ...candidate, amount: 0, hasPayment: false }, now).reason).toBe('Free purchases have nothing to refund');
+  });
+
+  it('should count a trip as used once the buyer has done something with it', () => {
+    const trip = {
+      start_date: '2026-06-10',
+      status: 'active',
+      total_spent: '0',
+      collaborators: [{ source: 'template', templateId: 3, purchaserId: 9, datesChosen: true }],
+    };
+    const unused = { checkins: 0, photos: 0, edits: 0 };
+
+    expect(tripWasUsed(trip, unused, now)).toBe(false);
+    expect(tripWasUsed({ ...trip, start_date: '2026-05-20' }, unused, now)).toBe(true);
+    expect(tripWasUsed({ ...trip, total_spent: '42.50' }, unused, now)).toBe(true);
+    expect(tripWasUsed({ ...trip, status: 'completed' }, unused, now)).toBe(true);
+    expect(tripWasUsed(trip, { ...unused, checkins: 1 }, now)).toBe(true);
+    expect(tripWasUsed(trip, { ...unused, photos: 2 }, now)).toBe(true);
+    expect(tripWasUsed(trip, { ...unused, edits: 1 }, now)).toBe(true);
+  });
+
+  it('should not count a copy made without dates as used just because its placeholder start has passed', () => {
+    const copiedWithoutDates = {
+      start_date: '2026-05-18',
+      status: 'active',
+      total_spent: '0',
+      collaborators: [{ source: 'template', templateId: 3, purchaserId: 9, datesChosen: false }],
+    };
+    const unused = { checkins: 0, photos: 0, edits: 0 };
+
+    expect(tripWasUsed(copiedWithoutDates, unused, now)).toBe(false);
+    expect(tripWasUsed({ ...copiedWithoutDates, collaborators: [] }, unused, now)).toBe(false);
+    expect(tripWasUsed(copiedWithoutDates, { ...unused, edits: 1 }, now)).toBe(true);
+  });
+
+  it('should claw back earnings from wherever they are held', () => {
+    expect(earningsAccount({ status: 'completed', earnings_released_at: null })).toBe('creator_pending');
+    expect(earningsAccount({ status: 'completed', earnings_released_at: daysAgo(1) })).toBe('creator_available');
+    expect(earningsAccount({ status: 'disputed', earnings_released_at: daysAgo(1) })).toBe('refunds_reserve');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Revoked and Frozen Trip Access Tests
+ */
+
+import express from 'express';
+import request from 'supertest';
+import tripRoutes from '../server/routes/trips';
+import publicRoutes from '../server/routes/public';
+import { db } from '../server/db';
+import { users, trips } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { createTestJWT } from './setup';
+
+const app = express();
+app.use(express.json());
+app.use('/api/trips', tripRoutes);
+app.use('/api/public', publicRoutes);
+
+describe('Revoked and frozen trips', () => {
+  let userId: number;
+  let authToken: string;
+  let tripId: number;
+  const shareCode = `revoked-${Date.now()}`;
+  const calendarToken = `revoked-calendar-${Date.now()}`;
+
+  beforeAll(async () => {
+    const [user] = await db.insert(users).values({
+      email: 'revokedtrip@example.com',
+      username: 'revokedtrip',
+      auth_id: `test_${Date.now()}`,
+      password_hash: 'test_hash',
+      role: 'user',
+    }).returning();
+    userId = user.id;
+
+    authToken = createTestJWT({
+      id: userId,
+      email: user.email,
+      username: user.username,
+      role: user.role,
+    });
+
+    const [trip] = await db.insert(trips).values({
+      title: 'Refunded Lisbon Copy',
+      start_date: '2026-06-10',
+      end_date: '2026-06-12',
+      user_id: userId,
+      share_code: shareCode,
+      sharing_enabled: true,
+      calendar_token: calendarToken,
+      status: 'active',
+    }).returning();
+    tripId = trip.id;
+  });
+
+  afterAll(async () => {
+    await db.delete(trips).where(eq(trips.user_id, userId));
+    await db.delete(users).where(eq(users.id, userId));
+  });
+
+  it('should serve the trip before the purchase is refunded', async () => {
+    const response = await request(app)
+      .get(`/api/trips/${tripId}`)
+      .set('Authorization', `Bearer ${authToken}`);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should hide revoked and frozen trips from their owner and their links', async () => {
+    for (const status of ['revoked', 'frozen']) {
+      await db.update(trips).set({ status }).where(eq(trips.id, tripId));
+
+      const trip = await request(app)
+        .get(`/api/trips/${tripId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(trip.status).toBe(404);
+
+      const activities = await request(app)
+        .get(`/api/trips/${tripId}/activities`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(activities.status).toBe(404);
+
+      const list = await request(app)
+        .get('/api/trips')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(list.body.trips.map((trip: any) => trip.id)).not.toContain(tripId);
+
+      const shared = await request(app).get(`/api/public/share/${shareCode}`);
+      expect(shared.status).toBe(404);
+
+      const feed = await request(app).get(`/api/public/calendar/${calendarToken}.ics`);
+      expect(feed.status).toBe(404);
+    }
+  });
+});
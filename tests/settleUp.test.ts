@@ -0,0 +1,102 @@
+/**
+ * Settle-Up Tests
+ */
+
+import { normalizeSplit, simplifyDebts, computeBalances } from '../server/services/settleUpService';
+import { RateTable } from '../server/services/currencyService';
+
+describe('Settle Up', () => {
+  describe('normalizeSplit', () => {
+    it('should derive amounts from percentages and give the rounding cent to the first person', () => {
+      const { details, errors } = normalizeSplit(100, 'percentage', [
+        { user_id: 1, amount: 0, percentage: 33.33 },
+        { user_id: 2, amount: 0, percentage: 33.33 },
+        { user_id: 3, amount: 0, percentage: 33.34 },
+      ]);
+
+      expect(errors).toEqual([]);
+      expect(details.map(d => d.amount)).toEqual([33.33, 33.33, 33.34]);
+    });
+
+    it('should reject percentages that do not total 100', () => {
+      const { errors } = normalizeSplit(100, 'percentage', [
+        { user_id: 1, amount: 0, percentage: 50 },
+        { user_id: 2, amount: 0, percentage: 40 },
+      ]);
+
+      expect(errors).toEqual(['Percentages add up to 90%, not 100%']);
+    });
+
+    it('should reject custom amounts that do not total the expense', () => {
+      const { errors } = normalizeSplit(60, 'custom', [
+        { user_id: 1, amount: 20 },
+        { user_id: 2, amount: 30 },
+      ]);
+
+      expect(errors).toEqual(['Split amounts add up to 50, not 60']);
+    });
+
+    it('should split equally to the cent', () => {
+      const { details } = normalizeSplit(10, 'equal', [
+        { user_id: 1, amount: 0 },
+        { user_id: 2, amount: 0 },
+        { user_id: 3, amount: 0 },
+      ]);
+
+      expect(details.map(d => d.amount)).toEqual([3.34, 3.33, 3.33]);
+    });
+  });
+
+  describe('simplifyDebts', () => {
+    it('should settle independent pairs separately instead of chaining', () => {
+      const transfers = simplifyDebts({ 1: 50, 2: -50, 3: 30, 4: -20, 5: -10 });
+
+      expect(transfers).toHaveLength(3);
+      expect(transfers).toContainEqual({ from: 2, to: 1, amount: 50 });
+    });
+
+    it('should find the zero-sum groups greedy matching misses', () => {
+      // Largest-to-largest matching takes four transfers here
+      const transfers = simplifyDebts({ 1: 4, 2: 3, 3: -3, 4: -2, 5: -2 });
+
+      expect(transfers).toHaveLength(3);
+      expect(transfers).toContainEqual({ from: 3, to: 2, amount: 3 });
+    });
+
+    it('should return nothing when everyone is square', () => {
+      expect(simplifyDebts({ 1: 0, 2: 0 })).toEqual([]);
+    });
+  });
+
+  describe('computeBalances', () => {
+    const table = new RateTable([{ base_currency: 'USD', quote_currency: 'EUR', rate: 0.8, rate_date: '2025-01-01' }]);
+    const expense = {
+      id: 1,
+      total_amount: '80.00',
+      currency: 'EUR',
+      paid_by: 1,
+      split_details: [
+        { user_id: 1, amount: 40, is_settled: true },
+        { user_id: 2, amount: 40, is_settled: false },
+      ],
+      is_settled: false,
+      expense_date: '2025-03-01',
+      created_at: new Date('2025-03-01T12:00:00Z'),
+    };
+
+    it('should convert to the home currency and apply partial payments', () => {
+      const { balances } = computeBalances([expense], [
+        { expense_id: null, from_user_id: 2, to_user_id: 1, amount: '20.00', currency: 'USD', settled_on: '2025-03-02' },
+      ], 'USD', table);
+
+      expect(balances.get(1)!.net).toBe(30);
+      expect(balances.get(2)!.net).toBe(-30);
+      expect(balances.get(2)!.by_currency).toEqual({ EUR: -40, USD: 20 });
+    });
+
+    it('should skip expenses settled outside the ledger', () => {
+      const { balances } = computeBalances([{ ...expense, is_settled: true }], [], 'USD', table);
+      expect(balances.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tax Reporting Tests
+ */
+
+import crypto from 'crypto';
+import { EarningsRow, isValidTin, maskTin, statementCsv, statementEntries, summarizeEarnings, textPdf } from '../server/services/taxForms';
+import { decryptTin, encryptTin } from '../server/services/taxService';
+
+const row = (overrides: Partial<EarningsRow>): EarningsRow => ({
+  purchaseId: 1,
+  templateTitle: 'Kyoto in Autumn',
+  bundlePurchaseId: null,
+  status: 'completed',
+  price: '20.00',
+  stripeFee: '0.88',
+  platformFee: '5.74',
+  sellerEarnings: '13.38',
+  refundAmount: null,
+  purchasedAt: new Date('2025-03-14T10:00:00Z'),
+  refundedAt: null,
+  ...overrides,
+});
+
+describe('Tax Reporting', () => {
+  it('should validate and mask taxpayer identification numbers', () => {
+    expect(isValidTin('ssn', '123-45-6789')).toBe(true);
+    expect(isValidTin('ssn', '666-45-6789')).toBe(false);
+    expect(isValidTin('ssn', '123-00-6789')).toBe(false);
+    expect(isValidTin('ein', '12-3456789')).toBe(true);
+    expect(isValidTin('ein', '07-3456789')).toBe(false);
+    expect(isValidTin('foreign', 'gb 123 456')).toBe(true);
+
+    expect(maskTin('ssn', '6789')).toBe('***-**-6789');
+    expect(maskTin('ein', '6789')).toBe('**-***6789');
+  });
+
+  it('should count sales in the year they were made and refunds in the year they were refunded', () => {
+    const rows = [
+      row({ purchaseId: 1 }),
+      row({ purchaseId: 2, bundlePurchaseId: 7, price: '10.00', stripeFee: '0', platformFee: '3.00', sellerEarnings: '7.00' }),
+      row({
+        purchaseId: 3,
+        status: 'refunded',
+        refundAmount: '20.00',
+        purchasedAt: new Date('2025-12-30T10:00:00Z'),
+        refundedAt: new Date('2026-01-04T10:00:00Z'),
+      }),
+      row({ purchaseId: 4, price: '0', stripeFee: '0', platformFee: '0', sellerEarnings: '0' }),
+    ];
+
+    const summary2025 = summarizeEarnings(statementEntries(rows, 2025), 2025);
+    expect(summary2025.sales).toBe(3);
+    expect(summary2025.bundleSales).toBe(1);
+    expect(summary2025.grossSales).toBe(50);
+    expect(summary2025.netEarnings).toBe(33.76);
+    expect(summary2025.refunds).toBe(0);
+    expect(summary2025.monthly[2]).toBe(20.38);
+    expect(summary2025.monthly[11]).toBe(13.38);
+
+    const summary2026 = summarizeEarnings(statementEntries(rows, 2026), 2026);
+    expect(summary2026.sales).toBe(0);
+    expect(summary2026.refunds).toBe(1);
+    expect(summary2026.refundedEarnings).toBe(13.38);
+    expect(summary2026.netEarnings).toBe(-13.38);
+  });
+
+  it('should total the statement CSV', () => {
+    const csv = statementCsv(statementEntries([row({ templateTitle: 'Paris, "Left Bank"' })], 2025));
+    const lines = csv.trim().split('\n');
+
+    expect(lines[0]).toBe('Date,Type,Purchase,Template,Bundle,Amount,Stripe fee,Platform fee,Your earnings');
+    expect(lines[1]).toBe('2025-03-14,sale,1,"Paris, ""Left Bank""",no,20.00,0.88,5.74,13.38');
+    expect(lines[2]).toBe(',total,,,,,,,13.38');
+  });
+
+  it('should write a PDF with a valid cross-reference table', () => {
+    const pdf = textPdf([{ text: 'Annual Earnings Statement', font: 'bold', size: 16 }, { text: 'Net earnings (1) $33.76' }]);
+    const text = pdf.toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(text).toContain('(Net earnings \\(1\\) $33.76) Tj');
+
+    const xrefOffset = Number(text.match(/startxref\n(\d+)/)![1]);
+    expect(text.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+  });
+
+  it('should encrypt TINs so they cannot be read or altered without the key', () => {
+    const key = crypto.randomBytes(32);
+    const encrypted = encryptTin('123456789', key);
+
+    expect(encrypted).not.toContain('123456789');
+    expect(decryptTin(encrypted, key)).toBe('123456789');
+    expect(() => decryptTin(encrypted, crypto.randomBytes(32))).toThrow();
+
+    const [version, iv, tag, ciphertext] = encrypted.split(':');
+    const tampered = Buffer.from(ciphertext, 'base64');
+    tampered[0] ^= 1;
+    expect(() => decryptTin([version, iv, tag, tampered.toString('base64')].join(':'), key)).toThrow();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Template Preview Tests
+ */
+
+import { buildTemplatePreview, redactTemplate } from '../server/services/templatePreviewService';
+import { buyerWatermark, readWatermark, tripLicense } from '../server/services/templateWatermark';
+
+const tripData = {
+  days: [
+    { day: 1, title: 'Arrival', activities: [
+      { title: 'Check in at Hotel Lutetia', time: '15:00', tag: 'hotel', latitude: 48.8511, longitude: 2.3270 },
+    ] },
+    { day: 2, title: 'Left Bank', activities: [
+      { title: "Musée d'Orsay", time: '09:30', tag: 'museum', location: '1 Rue de la Légion d\'Honneur', notes: 'Skip the line at entrance C', latitude: 48.8600, longitude: 2.3266 },
+      { title: 'Lunch at Café de Flore', time: '13:00', tag: 'food', notes: 'Order the hot chocolate', latitude: 48.8542, longitude: 2.3325 },
+      { title: 'Sunset at Pont des Arts', time: '20:00', latitude: 48.8583, longitude: 2.3375 },
+    ] },
+  ],
+  budget: { level: 'mid', total: 1200, daily: 400, currency: 'EUR', tips: { moneySaving: ['Museum pass'] } },
+};
+
+describe('Template Preview', () => {
+  it('should outline days without revealing activities at the minimal level', () => {
+    const preview = buildTemplatePreview(tripData, 'minimal', 3);
+
+    expect(preview.dayCount).toBe(3);
+    expect(preview.activityCount).toBe(4);
+    expect(preview.days[1]).toEqual({ day: 2, title: 'Left Bank', activityCount: 3, categories: ['museum', 'food', 'activity'] });
+    expect(preview.days[2].activityCount).toBe(0);
+    expect(preview.heatmap).toHaveLength(0);
+    expect(preview.sampleDay).toBeNull();
+    expect(JSON.stringify(preview)).toMatch(/^((?!Orsay).)*$/);
+  });
+
+  it('should add a sample day and a coarse heatmap at the standard level', () => {
+    const preview = buildTemplatePreview(tripData, 'standard');
+
+    expect(preview.sampleDay?.day).toBe(2);
+    expect(preview.sampleDay?.activities[0]).toEqual({
+      title: "Musée d'Orsay",
+      timeOfDay: 'morning',
+      category: 'museum',
+      time: '09:30',
+      location: "1 Rue de la Légion d'Honneur",
+    });
+    // Four activities in three one-kilometre cells, none at its exact spot
+    expect(preview.heatmap.map(cell => cell.weight)).toEqual([2, 1, 1]);
+    expect(preview.heatmap).toContainEqual({ latitude: 48.855, longitude: 2.335, weight: 2 });
+    expect(preview.budget).toEqual({ level: 'mid', total: 1200, daily: 400, currency: 'EUR' });
+  });
+
+  it('should never include notes or budget tips', () => {
+    const serialized = JSON.stringify(buildTemplatePreview(tripData, 'extended'));
+
+    expect(serialized).toMatch(/^((?!Skip the line|hot chocolate|Museum pass).)*$/);
+    expect(buildTemplatePreview(tripData, 'extended').days[1].activities?.map(activity => activity.timeOfDay)).toEqual(['morning', 'afternoon', 'evening']);
+  });
+
+  it('should replace trip_data with the preview', () => {
+    const redacted = redactTemplate({ id: 7, trip_data: tripData, preview_level: 'unknown', duration: 2 });
+
+    expect((redacted as any).trip_data).toBe(undefined);
+    expect(redacted.preview.level).toBe('standard');
+  });
+
+  it('should sign buyer watermarks so they cannot be moved to another buyer', () => {
+    const watermark = buyerWatermark(12, 34);
+
+    expect(readWatermark(`Exported trip ${watermark} end`)).toEqual({ templateId: 12, buyerId: 34 });
+    expect(readWatermark(watermark.replace('-34-', '-35-'))).toBeNull();
+    expect(tripLicense({ collaborators: [{ source: 'template', templateId: 12, templateTitle: 'Paris', purchaserId: 34 }] }))
+      .toBe(`Template "Paris" licensed to buyer #34 (${watermark})`);
+    expect(tripLicense({ collaborators: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Template Versioning Tests
+ */
+
+import { TripItem, assignItemKeys, matchUnkeyedItems, mergeTemplateUpdate, templateItems } from '../server/services/templateMerge';
+import { mergeSteps } from '../server/services/templateVersionService';
+
+const version1 = {
+  days: [
+    { day: 1, activities: [
+      { key: 'louvre', title: 'Louvre Museum', time: '10:00', location: 'Rue de Rivoli' },
+      { key: 'dinner', title: 'Dinner at Chartier', time: '19:00' },
+    ] },
+    { day: 2, activities: [
+      { key: 'orsay', title: "Musée d'Orsay", time: '10:00' },
+    ] },
+  ],
+};
+
+// What a buyer's trip holds for version 1, before they change anything
+function copied(): TripItem[] {
+  return templateItems(version1).map((item, index) => ({ ...item, activityId: index + 1, version: 1 }));
+}
+
+describe('Template Versioning', () => {
+  it('should keep activity keys across versions by title', () => {
+    const draft = {
+      days: [
+        { day: 1, activities: [{ title: 'Louvre Museum', time: '09:00' }, { title: 'Seine cruise' }] },
+        { day: 2, activities: [{ title: "Musée d'Orsay" }] },
+      ],
+    };
+    let next = 0;
+    const keyed = assignItemKeys(draft, version1, () => `new-${++next}`);
+
+    expect(templateItems(keyed).map(item => item.key)).toEqual(['louvre', 'new-1', 'orsay']);
+    expect((draft.days[0].activities[0] as any).key).toBe(undefined);
+  });
+
+  it('should apply the creator changes the buyer did not make', () => {
+    const version2 = JSON.parse(JSON.stringify(version1));
+    version2.days[0].activities[0].time = '09:00';
+    version2.days[1].activities.push({ key: 'cruise', title: 'Seine cruise', time: '21:00' });
+    version2.days[0].activities.splice(1, 1);
+
+    const { changes, conflicts } = mergeTemplateUpdate(templateItems(version1), templateItems(version2), copied());
+
+    expect(conflicts).toHaveLength(0);
+    expect(changes).toContainEqual({ type: 'update', activityId: 1, baseVersion: 1, key: 'louvre', title: 'Louvre Museum', fields: { time: '09:00' } });
+    expect(changes).toContainEqual({ type: 'remove', activityId: 2, key: 'dinner', title: 'Dinner at Chartier' });
+    expect(changes.filter(change => change.type === 'add')).toHaveLength(1);
+  });
+
+  it('should keep the buyer edits and report them as conflicts', () => {
+    const version2 = JSON.parse(JSON.stringify(version1));
+    version2.days[0].activities[0].time = '09:00';
+    version2.days[0].activities[0].notes = 'Book ahead';
+    version2.days[0].activities.splice(1, 1);
+
+    const ours = copied();
+    ours[0] = { ...ours[0], time: '14:00', version: 3 };
+    ours[1] = { ...ours[1], notes: 'Table for four' };
+
+    const { changes, conflicts } = mergeTemplateUpdate(templateItems(version1), templateItems(version2), ours);
+
+    expect(changes).toEqual([
+      { type: 'update', activityId: 1, baseVersion: 3, key: 'louvre', title: 'Louvre Museum', fields: { notes: 'Book ahead' } },
+    ]);
+    expect(conflicts.map(conflict => [conflict.key, conflict.field])).toEqual([['louvre', 'time'], ['dinner', undefined]]);
+  });
+
+  it('should not count values filled in on copy as buyer edits', () => {
+    const version2 = JSON.parse(JSON.stringify(version1));
+    version2.days[1].activities[0].time = '11:00';
+    version2.days[1].activities[0].latitude = 48.86;
+
+    const ours = copied();
+    ours[2] = { ...ours[2], latitude: 48.8599, longitude: 2.3266 };
+
+    const { changes, conflicts } = mergeTemplateUpdate(templateItems(version1), templateItems(version2), ours);
+
+    expect(conflicts).toHaveLength(0);
+    expect(changes).toEqual([
+      { type: 'update', activityId: 3, baseVersion: 1, key: 'orsay', title: "Musée d'Orsay", fields: { time: '11:00', latitude: 48.86 } },
+    ]);
+  });
+
+  it('should match activities copied before keys were recorded', () => {
+    const ours = copied().map(item => ({ ...item, key: null }));
+    ours.push({ ...ours[0], key: null, activityId: 9, title: 'My own plan' });
+
+    const matched = matchUnkeyedItems(templateItems(version1), ours);
+
+    expect(matched.map(item => item.key)).toEqual(['louvre', 'dinner', 'orsay', null]);
+  });
+
+  it('should turn merge changes into trip changes', () => {
+    const steps = mergeSteps([
+      { type: 'add', item: { key: 'cruise', day: 2, title: 'Seine cruise', time: '21:00', location: 'Pont Neuf', notes: null, tag: null, latitude: 48.857, longitude: null } },
+      { type: 'update', activityId: 1, baseVersion: 2, key: 'louvre', title: 'Louvre Museum', fields: { day: 3, location: 'Pyramide' } },
+      { type: 'remove', activityId: 2, key: 'dinner', title: 'Dinner at Chartier' },
+    ], '2026-05-01');
+
+    expect(steps).toEqual([
+      { type: 'create_activity', fields: { date: '2026-05-02', time: '21:00', title: 'Seine cruise', location_name: 'Pont Neuf', notes: null, tag: null, latitude: '48.857', longitude: null, template_item_key: 'cruise' } },
+      { type: 'update_activity', activity_id: 1, base_version: 2, fields: { date: '2026-05-03', location_name: 'Pyramide' } },
+      { type: 'delete_activity', activity_id: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Templates API Tests
+ */
+
+import express from 'express';
+import request from 'supertest';
+import templateRoutes from '../server/routes/templates';
+import { db } from '../server/db';
+import { users, templates, templatePurchases } from '@shared/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { buyerWatermark } from '../server/services/templateWatermark';
+import { createTestJWT } from './setup';
+
+const app = express();
+app.use(express.json());
+app.use('/api/templates', templateRoutes);
+
+describe('Templates API', () => {
+  let creatorId: number;
+  let buyerId: number;
+  let buyerToken: string;
+  let templateId: number;
+  const slug = `route-test-${Date.now()}`;
+
+  beforeAll(async () => {
+    const [creator, buyer] = await db.insert(users).values([
+      {
+        email: 'templatecreator@example.com',
+        username: 'templatecreator',
+        auth_id: `test_creator_${Date.now()}`,
+        password_hash: 'test_hash',
+        role: 'user',
+      },
+      {
+        email: 'templatebuyer@example.com',
+        username: 'templatebuyer',
+        auth_id: `test_buyer_${Date.now()}`,
+        password_hash: 'test_hash',
+        role: 'user',
+      },
+    ]).returning();
+    creatorId = creator.id;
+    buyerId = buyer.id;
+
+    buyerToken = createTestJWT({
+      id: buyer.id,
+      email: buyer.email,
+      username: buyer.username,
+      role: buyer.role,
+    });
+
+    const [template] = await db.insert(templates).values({
+      title: 'Three Days in Lisbon',
+      slug,
+      user_id: creatorId,
+      price: '19.00',
+      status: 'published',
+      trip_data: {
+        days: [
+          { day: 1, title: 'Alfama', activities: [{ title: 'Castelo de São Jorge', time: '10:00', location: 'Alfama' }] },
+          { day: 2, title: 'Belém', activities: [{ title: 'Jerónimos Monastery', time: '09:30', location: 'Belém' }] },
+        ],
+      },
+    }).returning();
+    templateId = template.id;
+
+    await db.insert(templatePurchases).values({
+      template_id: templateId,
+      buyer_id: buyerId,
+      seller_id: creatorId,
+      price: '19.00',
+      platform_fee: '5.70',
+      seller_earnings: '13.30',
+      status: 'completed',
+    });
+  });
+
+  afterAll(async () => {
+    await db.delete(templatePurchases).where(eq(templatePurchases.template_id, templateId));
+    await db.delete(templates).where(eq(templates.id, templateId));
+    await db.delete(users).where(inArray(users.id, [creatorId, buyerId]));
+  });
+
+  describe('GET /api/templates/:slug', () => {
+    it('should give buyers the full itinerary and their watermark', async () => {
+      const response = await request(app)
+        .get(`/api/templates/${slug}`)
+        .set('Authorization', `Bearer ${buyerToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.hasPurchased).toBe(true);
+      expect(response.body.tripData.activities).toHaveLength(2);
+      expect(response.body.tripData.activities[0].title).toBe('Castelo de São Jorge');
+      expect(response.body.license).toBe(buyerWatermark(templateId, buyerId));
+    });
+
+    it('should give anonymous visitors the preview without a watermark', async () => {
+      const response = await request(app).get(`/api/templates/${slug}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.hasPurchased).toBe(false);
+      expect(response.body.preview).toBeDefined();
+      expect(response.body.tripData).toBeUndefined();
+      expect(response.body.license).toBeUndefined();
+    });
+  });
+});
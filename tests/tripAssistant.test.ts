@@ -0,0 +1,99 @@
+/**
+ * Trip Assistant Tests
+ */
+
+import { DEFAULT_FIXTURES_DIR, StubProvider } from '../server/services/llmStub';
+import { LLMService } from '../server/services/llmService';
+import {
+  AssistantContext,
+  TripAssistantService,
+  actionFromToolCall,
+  assistantTools,
+  changesetSteps,
+  validateAction,
+} from '../server/services/tripAssistantService';
+
+function context(access: AssistantContext['access'] = 'owner'): AssistantContext {
+  return {
+    trip: {
+      id: 7, title: 'Paris in May', start_date: '2026-05-01', end_date: '2026-05-03',
+      city: 'Paris', country: 'France', hotel: null, budget: null, currency: 'EUR',
+    },
+    activities: [
+      { id: 1, title: 'Eiffel Tower', date: '2026-05-01', time: '10:00', location_name: 'Eiffel Tower', order: 0, version: 3 },
+      { id: 2, title: 'Dinner at Le Comptoir', date: '2026-05-01', time: '19:00', location_name: 'Le Comptoir', order: 1, version: 1 },
+    ],
+    access,
+  };
+}
+
+const louvre = { title: 'Louvre', date: '2026-05-02', time: '09:00', location_name: 'Musée du Louvre' };
+
+describe('Trip Assistant', () => {
+  describe('validateAction', () => {
+    it('should accept valid edits and describe them', () => {
+      const add = validateAction(actionFromToolCall('add_activity', louvre), context());
+      expect(add.ok && add.change.description).toBe('Add "Louvre" on 2026-05-02 09:00');
+
+      const move = validateAction(actionFromToolCall('move_activity', { activity_id: 1, date: '2026-05-02' }), context());
+      expect(move.ok && move.change.action).toEqual({ type: 'move_activity', activity_id: 1, date: '2026-05-02', base_version: 3 });
+      expect(move.ok && move.change.description).toBe('Move "Eiffel Tower" from 2026-05-01 10:00 to 2026-05-02 10:00');
+    });
+
+    it('should reject edits that do not fit the trip', () => {
+      const errorOf = (name: string, args: Record<string, any>, access?: AssistantContext['access']) => {
+        const result = validateAction(actionFromToolCall(name, args), context(access));
+        return result.ok ? null : result.error;
+      };
+
+      expect(errorOf('add_activity', { ...louvre, date: '2026-06-01' })).toBe('2026-06-01 is outside the trip dates');
+      expect(errorOf('add_activity', { ...louvre, time: '9am' })).toBe('activity.time: Times must be HH:MM in 24-hour format');
+      expect(errorOf('add_activity', { ...louvre, title: '<script>alert(1)</script>' })).toBe('title: Invalid characters in title');
+      expect(errorOf('delete_activity', { activity_id: 99 })).toBe('Activity 99 is not part of this trip');
+      expect(errorOf('move_activity', { activity_id: 1 })).toBe('A move needs a new date or time');
+      expect(errorOf('set_hotel', { name: 'Hotel Lutetia' }, 'editor')).toBe('Only the trip owner can change the hotel or budget');
+      expect(errorOf('delete_activity', { activity_id: 1 }, 'viewer')).toBe('You can only view this trip');
+    });
+  });
+
+  it('should only offer edit tools the user may use', () => {
+    expect(assistantTools('viewer').map(tool => tool.name)).toEqual(['search_places', 'check_weather']);
+    expect(assistantTools('editor').some(tool => tool.name === 'set_hotel')).toBe(false);
+    expect(assistantTools('owner').some(tool => tool.name === 'adjust_budget')).toBe(true);
+  });
+
+  it('should append new activities to the end of their day', () => {
+    const steps = changesetSteps([
+      { type: 'add_activity', activity: { ...louvre, date: '2026-05-01' } },
+      { type: 'add_activity', activity: louvre },
+      { type: 'adjust_budget', budget: 1500, currency: 'EUR' },
+    ], context().activities);
+
+    expect(steps.map(step => step.type === 'create_activity' ? step.fields.order : null)).toEqual([2, 0, null]);
+    expect(steps[2]).toEqual({ type: 'update_trip', fields: { budget: '1500.00', currency: 'EUR' } });
+  });
+
+  describe('ask', () => {
+    const stub = new StubProvider(DEFAULT_FIXTURES_DIR);
+    const assistant = new TripAssistantService(
+      new LLMService({ openai: stub, anthropic: stub, local: stub, stub }, async () => null)
+    );
+
+    it('should collect tool calls into a proposed changeset', async () => {
+      const reply = await assistant.ask(context(), 'Can you add the Louvre on our first morning?');
+
+      expect(reply.changes).toHaveLength(1);
+      expect(reply.changes[0].action).toEqual({
+        type: 'add_activity',
+        activity: { title: 'Visit the Louvre', date: '2026-05-01', time: '09:00', location_name: 'Musée du Louvre', tag: 'Culture', latitude: '48.8606', longitude: '2.3376' },
+      });
+      expect(reply.answer).toBe("I've suggested the changes below. Apply them when you're ready.");
+    });
+
+    it('should not propose edits for viewers', async () => {
+      const reply = await assistant.ask(context('viewer'), 'Could we have a later dinner on day one?');
+
+      expect(reply.changes).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Trip History Tests
+ */
+
+import { diffRows, updateChange, planRestore } from '../server/services/tripHistoryService';
+
+describe('Trip History', () => {
+  describe('diffRows', () => {
+    it('should list changed fields and skip bookkeeping columns', () => {
+      const before = { title: 'Louvre', time: '10:00', version: 2, updated_at: new Date('2025-03-01T10:00:00Z') };
+      const after = { title: 'Musée d\'Orsay', time: '10:00', version: 3, updated_at: new Date('2025-03-02T10:00:00Z') };
+
+      expect(diffRows(before, after)).toEqual([
+        { field: 'title', before: 'Louvre', after: 'Musée d\'Orsay' },
+      ]);
+    });
+
+    it('should treat a missing row as all-null', () => {
+      expect(diffRows(null, { content: 'Pack adapters' })).toEqual([
+        { field: 'content', before: null, after: 'Pack adapters' },
+      ]);
+    });
+  });
+
+  describe('updateChange', () => {
+    it('should return null when nothing changed', () => {
+      expect(updateChange('note', 1, { content: 'a' }, { content: 'a' })).toBeNull();
+    });
+
+    it('should keep only the changed fields', () => {
+      expect(updateChange('trip', 7, { title: 'Paris', city: 'Paris' }, { title: 'Paris & Nice', city: 'Paris' })).toEqual({
+        entity_type: 'trip',
+        entity_id: 7,
+        action: 'update',
+        before: { title: 'Paris' },
+        after: { title: 'Paris & Nice' },
+      });
+    });
+  });
+
+  describe('planRestore', () => {
+    it('should remove rows created after the restore point', () => {
+      const targets = planRestore([
+        { entity_type: 'activity', entity_id: 1, action: 'create', before: null },
+        { entity_type: 'activity', entity_id: 1, action: 'update', before: { title: 'Draft' } },
+      ]);
+
+      expect(targets).toEqual([{ entity_type: 'activity', entity_id: 1, state: 'absent' }]);
+    });
+
+    it('should keep the earliest value of each field', () => {
+      const [target] = planRestore([
+        { entity_type: 'activity', entity_id: 2, action: 'update', before: { title: 'Original', time: '09:00' } },
+        { entity_type: 'activity', entity_id: 2, action: 'update', before: { title: 'Second', notes: 'old notes' } },
+      ]);
+
+      expect(target).toEqual({
+        entity_type: 'activity',
+        entity_id: 2,
+        state: 'present',
+        row: null,
+        fields: { title: 'Original', time: '09:00', notes: 'old notes' },
+      });
+    });
+
+    it('should rebuild deleted rows with the earlier field values', () => {
+      const [target] = planRestore([
+        { entity_type: 'note', entity_id: 3, action: 'update', before: { content: 'First draft' } },
+        { entity_type: 'note', entity_id: 3, action: 'delete', before: { id: 3, trip_id: 9, content: 'Second draft' } },
+      ]);
+
+      expect(target).toEqual({
+        entity_type: 'note',
+        entity_id: 3,
+        state: 'present',
+        row: { id: 3, trip_id: 9, content: 'First draft' },
+        fields: { content: 'First draft' },
+      });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Trip Journal Tests
+ */
+
+import { buildJournal, localDateTime } from '../server/services/tripJournalService';
+
+const trip = { start_date: '2026-05-01', end_date: '2026-05-02', timezone: 'Europe/Paris' };
+
+function activity(id: number, date: string | null, time: string | null, title = `Stop ${id}`) {
+  return { id, title, date, time, location_name: null, tag: null, order: id };
+}
+
+function checkin(id: number, activityId: number, at: string, offset: number | null = 120, note: string | null = null) {
+  return {
+    id,
+    activity_id: activityId,
+    user_id: 1,
+    checked_in_at: new Date(at),
+    utc_offset_minutes: offset,
+    note,
+    latitude: null,
+    longitude: null,
+  };
+}
+
+describe('Trip Journal', () => {
+  describe('localDateTime', () => {
+    it('should prefer the recorded offset over the trip time zone', () => {
+      expect(localDateTime(new Date('2026-05-01T22:30:00Z'), 180, 'Europe/Paris')).toEqual({ date: '2026-05-02', time: '01:30' });
+    });
+
+    it('should fall back to the trip time zone', () => {
+      expect(localDateTime(new Date('2026-05-01T07:00:00Z'), null, 'Europe/Paris')).toEqual({ date: '2026-05-01', time: '09:00' });
+    });
+  });
+
+  describe('buildJournal', () => {
+    it('should compare check-ins with the plan in local time', () => {
+      const journal = buildJournal(
+        trip,
+        [activity(1, '2026-05-01', '9:00 AM'), activity(2, '2026-05-01', '14:00'), activity(3, '2026-05-01', '18:00')],
+        [checkin(10, 1, '2026-05-01T07:10:00Z'), checkin(11, 2, '2026-05-01T13:15:00Z', null)],
+        [],
+        '2026-05-03'
+      );
+
+      const [day] = journal.days;
+      expect(day.planned.map(o => [o.activity_id, o.status, o.delta_minutes])).toEqual([
+        [1, 'on_time', 10],
+        [2, 'late', 75],
+        [3, 'skipped', null],
+      ]);
+      expect(day.summary).toEqual({ planned: 3, visited: 2, skipped: 1 });
+      expect(journal.stats.completion_rate).toBe(67);
+      expect(journal.is_complete).toBe(true);
+    });
+
+    it('should list a visit on the day it happened when it moved', () => {
+      const journal = buildJournal(
+        trip,
+        [activity(1, '2026-05-01', '10:00'), activity(2, '2026-05-02', null)],
+        [checkin(10, 1, '2026-05-02T08:00:00Z', 120, 'Went a day late, worth it')],
+        [],
+        '2026-05-02'
+      );
+
+      const [first, second] = journal.days;
+      expect(first.planned[0].status).toBe('moved');
+      expect(first.actual).toHaveLength(0);
+      expect(second.actual.map(o => o.activity_id)).toEqual([1]);
+      expect(second.planned[0].status).toBe('upcoming');
+      expect(journal.stats.notes).toBe(1);
+      expect(journal.is_complete).toBe(false);
+    });
+
+    it('should attach photos to their activity or to the day', () => {
+      const photo = (id: number, activityId: number | null, takenAt: string) => ({
+        id, activity_id: activityId, user_id: 1, caption: null, taken_at: new Date(takenAt), created_at: null, latitude: null, longitude: null,
+      });
+      const journal = buildJournal(
+        trip,
+        [activity(1, '2026-05-01', '10:00')],
+        [checkin(10, 1, '2026-05-01T08:00:00Z')],
+        [photo(20, 1, '2026-05-01T08:30:00Z'), photo(21, null, '2026-05-01T23:30:00Z')],
+        '2026-05-03'
+      );
+
+      expect(journal.days[0].actual[0].photos.map(p => p.id)).toEqual([20]);
+      expect(journal.days[1].photos.map(p => p.id)).toEqual([21]);
+    });
+  });
+});